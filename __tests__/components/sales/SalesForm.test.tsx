@@ -209,6 +209,7 @@ describe('SalesForm', () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': expect.any(String),
         },
         body: expect.stringContaining('100000'),
       });
@@ -0,0 +1,83 @@
+import {
+  PERIOD_CLOSED_CODE,
+  buildPeriodClosedError,
+  findClosedPeriod,
+  formatPeriodLabel,
+  isPeriodClosedError,
+  toPeriodMonth,
+} from '@/lib/accounting-periods';
+import { validateAccountingPeriodCloseForm } from '@/lib/validations/accounting-periods';
+
+describe('Accounting period close', () => {
+  const closes = [
+    { id: 'global-jul', period: '2025-07-01', store_id: null },
+    { id: 'store-1-aug', period: '2025-08-01', store_id: 'store-1' },
+    { id: 'global-aug', period: '2025-08-01', store_id: null },
+  ];
+
+  describe('toPeriodMonth / formatPeriodLabel', () => {
+    it('should normalize dates and months to the first day of the month', () => {
+      expect(toPeriodMonth('2025-08-19')).toBe('2025-08-01');
+      expect(toPeriodMonth('2025-08')).toBe('2025-08-01');
+    });
+
+    it('should format the period label', () => {
+      expect(formatPeriodLabel('2025-08-01')).toBe('2025年8月');
+    });
+  });
+
+  describe('findClosedPeriod', () => {
+    it('should prefer the store-specific close over the global one', () => {
+      expect(findClosedPeriod(closes, 'store-1', '2025-08-31')?.id).toBe('store-1-aug');
+      expect(findClosedPeriod(closes, 'store-2', '2025-08-01')?.id).toBe('global-aug');
+    });
+
+    it('should apply global closes to every store', () => {
+      expect(findClosedPeriod(closes, 'store-2', '2025-07-15')?.id).toBe('global-jul');
+    });
+
+    it('should return null for open months', () => {
+      expect(findClosedPeriod(closes, 'store-1', '2025-09-01')).toBeNull();
+      expect(findClosedPeriod([{ period: '2025-08-01', store_id: 'store-1' }], 'store-2', '2025-08-01')).toBeNull();
+    });
+  });
+
+  describe('buildPeriodClosedError / isPeriodClosedError', () => {
+    it('should describe the scope of the close', () => {
+      expect(buildPeriodClosedError({ period: '2025-08-01', store_id: 'store-1' })).toEqual({
+        field: 'date',
+        message: '2025年8月はこの店舗で締め済みのため、売上データを登録・変更できません',
+        code: PERIOD_CLOSED_CODE,
+      });
+      expect(buildPeriodClosedError({ period: '2025-07-01', store_id: null }).message).toContain('全店で');
+    });
+
+    it('should detect the trigger SQLSTATE', () => {
+      expect(isPeriodClosedError({ code: 'AP001' })).toBe(true);
+      expect(isPeriodClosedError({ code: '23505' })).toBe(false);
+      expect(isPeriodClosedError(null)).toBe(false);
+    });
+  });
+
+  describe('validateAccountingPeriodCloseForm', () => {
+    const today = '2025-09-01';
+
+    it('should accept past and current months', () => {
+      expect(validateAccountingPeriodCloseForm({ period: '2025-08' }, today)).toEqual([]);
+      expect(validateAccountingPeriodCloseForm({ period: '2025-09', note: '月次決算' }, today)).toEqual([]);
+    });
+
+    it('should require a YYYY-MM period', () => {
+      expect(validateAccountingPeriodCloseForm({}, today)[0].code).toBe('REQUIRED');
+      expect(validateAccountingPeriodCloseForm({ period: '2025-13' }, today)[0].code).toBe('INVALID_FORMAT');
+      expect(validateAccountingPeriodCloseForm({ period: '2025-08-01' }, today)[0].code).toBe('INVALID_FORMAT');
+    });
+
+    it('should reject future months and long notes', () => {
+      expect(validateAccountingPeriodCloseForm({ period: '2025-10' }, today)[0].code).toBe('FUTURE_DATE');
+      expect(validateAccountingPeriodCloseForm({ period: '2025-08', note: 'a'.repeat(201) }, today)[0]).toEqual(
+        expect.objectContaining({ field: 'note', code: 'MAX_LENGTH' })
+      );
+    });
+  });
+});
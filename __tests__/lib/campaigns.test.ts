@@ -0,0 +1,154 @@
+import {
+  Campaign,
+  buildCampaignDateSet,
+  calculateCampaignUplift,
+  campaignTargetsOverlap,
+  getUpliftLookbackStart,
+  isCampaignActive,
+  normalizeWeatherCondition,
+  summarizeWeatherByDate,
+} from '@/lib/campaigns';
+
+function campaign(overrides: Partial<Campaign> = {}): Campaign {
+  return {
+    id: 'campaign-1',
+    name: 'ポイント5倍デー',
+    campaign_type: 'point_up',
+    start_date: '2025-09-06',
+    end_date: '2025-09-06',
+    store_ids: [],
+    departments: [],
+    discount_rate: 5,
+    notes: null,
+    created_by: null,
+    updated_by: null,
+    created_at: '2025-09-01T00:00:00Z',
+    updated_at: '2025-09-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('campaigns', () => {
+  describe('isCampaignActive', () => {
+    it('treats empty store / department lists as all stores and departments', () => {
+      const target = campaign({ start_date: '2025-09-05', end_date: '2025-09-07' });
+
+      expect(isCampaignActive(target, '2025-09-06', { storeId: 'store-1', department: 'food' })).toBe(true);
+      expect(isCampaignActive(target, '2025-09-08')).toBe(false);
+    });
+
+    it('limits the campaign to the listed stores and departments', () => {
+      const target = campaign({ store_ids: ['store-1'], departments: ['food'] });
+
+      expect(isCampaignActive(target, '2025-09-06', { storeId: 'store-1', department: 'food' })).toBe(true);
+      expect(isCampaignActive(target, '2025-09-06', { storeId: 'store-2' })).toBe(false);
+      expect(isCampaignActive(target, '2025-09-06', { department: 'apparel' })).toBe(false);
+      // 店舗を指定しない分析では一部店舗のキャンペーンも実施中として扱う
+      expect(isCampaignActive(target, '2025-09-06')).toBe(true);
+    });
+  });
+
+  it('detects overlapping campaign targets', () => {
+    expect(campaignTargetsOverlap(campaign({ store_ids: ['store-1'] }), campaign({ store_ids: [] }))).toBe(true);
+    expect(campaignTargetsOverlap(campaign({ store_ids: ['store-1'] }), campaign({ store_ids: ['store-2'] }))).toBe(false);
+    expect(campaignTargetsOverlap(
+      campaign({ departments: ['food'] }),
+      campaign({ departments: ['food', 'apparel'] })
+    )).toBe(true);
+  });
+
+  it('builds the set of campaign dates for a scope', () => {
+    const dates = buildCampaignDateSet([
+      campaign({ start_date: '2025-09-01', end_date: '2025-09-02' }),
+      campaign({ start_date: '2025-09-10', end_date: '2025-09-10', store_ids: ['store-2'] }),
+    ], { storeId: 'store-1' });
+
+    expect([...dates]).toEqual(['2025-09-01', '2025-09-02']);
+  });
+
+  it('normalizes weather conditions from the ETL and Japanese labels', () => {
+    expect(normalizeWeatherCondition('sunny')).toBe('sunny');
+    expect(normalizeWeatherCondition('晴れ時々曇り')).toBe('cloudy');
+    expect(normalizeWeatherCondition('Rainy')).toBe('rainy');
+    expect(normalizeWeatherCondition(null)).toBeNull();
+  });
+
+  it('summarizes multi-location weather into the majority condition and mean temperature', () => {
+    const summary = summarizeWeatherByDate([
+      { date: '2025-09-06', temperature_max: 30, temperature_min: 20, weather_condition: 'sunny' },
+      { date: '2025-09-06', temperature_max: 28, temperature_min: 22, weather_condition: 'sunny' },
+      { date: '2025-09-06', temperature_max: null, temperature_min: null, weather_condition: 'rainy' },
+    ]);
+
+    expect(summary.get('2025-09-06')).toEqual({ condition: 'sunny', temperature: 25 });
+  });
+
+  it('returns the lookback start for the baseline', () => {
+    expect(getUpliftLookbackStart({ start_date: '2025-09-06' })).toBe('2025-07-12');
+  });
+
+  describe('calculateCampaignUplift', () => {
+    // 2025-09-06 は土曜日。前の土曜日は 08-30, 08-23, 08-16, 08-09 ...
+    const salesByDate = new Map([
+      ['2025-09-06', 150000],
+      ['2025-09-05', 90000],
+      ['2025-08-30', 100000],
+      ['2025-08-23', 120000],
+      ['2025-08-16', 80000],
+      ['2025-08-09', 100000],
+    ]);
+
+    it('compares campaign days against the same weekday on non-campaign days', () => {
+      const result = calculateCampaignUplift(campaign(), salesByDate);
+
+      expect(result.days).toHaveLength(1);
+      expect(result.days[0].baselineDates).toEqual(['2025-08-30', '2025-08-23', '2025-08-16', '2025-08-09']);
+      expect(result.days[0].baseline).toBe(100000);
+      expect(result.days[0].matchedOnWeather).toBe(false);
+      expect(result.upliftAmount).toBe(50000);
+      expect(result.upliftRate).toBeCloseTo(0.5);
+    });
+
+    it('prefers baseline days with similar weather', () => {
+      const weather = new Map([
+        ['2025-09-06', { condition: 'sunny' as const, temperature: 28 }],
+        ['2025-08-30', { condition: 'rainy' as const, temperature: 26 }],
+        ['2025-08-23', { condition: 'sunny' as const, temperature: 30 }],
+        ['2025-08-16', { condition: 'sunny' as const, temperature: 15 }],
+        ['2025-08-09', { condition: 'sunny' as const, temperature: null }],
+      ]);
+
+      const result = calculateCampaignUplift(campaign(), salesByDate, [], weather);
+
+      expect(result.days[0].matchedOnWeather).toBe(true);
+      expect(result.days[0].baselineDates).toEqual(['2025-08-23', '2025-08-09']);
+      expect(result.days[0].baseline).toBe(110000);
+    });
+
+    it('excludes days of overlapping campaigns from the baseline', () => {
+      const others = [
+        campaign({ id: 'campaign-2', start_date: '2025-08-30', end_date: '2025-08-30', store_ids: ['store-1'] }),
+        // 対象部門が重ならないキャンペーンはベースラインに使える
+        campaign({ id: 'campaign-3', start_date: '2025-08-23', end_date: '2025-08-23', departments: ['apparel'] }),
+      ];
+
+      const result = calculateCampaignUplift(campaign({ departments: ['food'] }), salesByDate, others);
+
+      expect(result.days[0].baselineDates).toEqual(['2025-08-23', '2025-08-16', '2025-08-09']);
+      expect(result.days[0].baseline).toBe(100000);
+    });
+
+    it('leaves days without any baseline out of the totals', () => {
+      const result = calculateCampaignUplift(
+        campaign({ start_date: '2025-09-05', end_date: '2025-09-06' }),
+        salesByDate
+      );
+
+      expect(result.days.map(day => day.date)).toEqual(['2025-09-05', '2025-09-06']);
+      expect(result.days[0].baseline).toBeNull();
+      expect(result.daysWithoutBaseline).toBe(1);
+      expect(result.actual).toBe(150000);
+      expect(result.baseline).toBe(100000);
+    });
+  });
+});
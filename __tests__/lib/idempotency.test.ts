@@ -0,0 +1,30 @@
+import { hashRequestBody, isIdempotencyKeyConflict, isValidIdempotencyKey } from '@/lib/idempotency';
+
+describe('Idempotency keys', () => {
+  it('should hash the request body deterministically', () => {
+    const body = JSON.stringify({ date: '2025-08-19', revenue_ex_tax: 100000 });
+
+    expect(hashRequestBody(body)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashRequestBody(body)).toBe(hashRequestBody(body));
+    expect(hashRequestBody(body)).not.toBe(hashRequestBody(JSON.stringify({ date: '2025-08-19', revenue_ex_tax: 100001 })));
+  });
+
+  it('should accept keys of 1 to 255 characters', () => {
+    expect(isValidIdempotencyKey('3f1c2b7e-8a4d-4c1e-9f0a-123456789abc')).toBe(true);
+    expect(isValidIdempotencyKey('k'.repeat(255))).toBe(true);
+    expect(isValidIdempotencyKey('k'.repeat(256))).toBe(false);
+    expect(isValidIdempotencyKey('  ')).toBe(false);
+  });
+
+  it('should only treat unique violations on the key table as key conflicts', () => {
+    expect(isIdempotencyKeyConflict({
+      code: '23505',
+      message: 'duplicate key value violates unique constraint "idempotency_keys_pkey"',
+    })).toBe(true);
+    expect(isIdempotencyKeyConflict({
+      code: '23505',
+      message: 'duplicate key value violates unique constraint "sales_unique_store_date"',
+    })).toBe(false);
+    expect(isIdempotencyKeyConflict(null)).toBe(false);
+  });
+});
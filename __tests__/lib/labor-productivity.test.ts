@@ -0,0 +1,112 @@
+import {
+  LaborHours,
+  buildStoreProductivityRanking,
+  calculateLaborProductivity,
+  selectScopedLaborHours,
+  summarizeLaborProductivity,
+} from '@/lib/labor-productivity';
+import { validateLaborHoursForm } from '@/lib/validations/labor-hours';
+
+describe('Labor productivity', () => {
+  const labor = (store_id: string, date: string, department: string | null, hours: number): LaborHours => ({
+    id: `${store_id}-${date}-${department}`,
+    date,
+    store_id,
+    department,
+    hours,
+    notes: null,
+    created_by: null,
+    updated_by: null,
+    created_at: '2025-09-01T00:00:00Z',
+    updated_at: '2025-09-01T00:00:00Z',
+  });
+
+  const sale = (store_id: string, date: string, department: string, revenue: number, transactions: number) => ({
+    date,
+    store_id,
+    store_name: store_id === 'store-1' ? '新宿店' : '梅田店',
+    department,
+    revenue_ex_tax: revenue,
+    transactions,
+  });
+
+  const laborHours = [
+    labor('store-1', '2025-09-01', 'food', 40),
+    labor('store-1', '2025-09-01', null, 10),
+    labor('store-2', '2025-09-01', 'food', 20),
+  ];
+
+  const sales = [
+    sale('store-1', '2025-09-01', 'food', 300000, 600),
+    sale('store-1', '2025-09-01', 'fashion', 200000, 100),
+    // 人時が登録されていない日の売上は対象外
+    sale('store-1', '2025-09-02', 'food', 900000, 900),
+    sale('store-2', '2025-09-01', 'food', 240000, 300),
+  ];
+
+  describe('selectScopedLaborHours', () => {
+    it('should exclude unassigned hours when filtering by department', () => {
+      expect(selectScopedLaborHours(laborHours, { departments: ['food'] }).map(({ hours }) => hours)).toEqual([40, 20]);
+      expect(selectScopedLaborHours(laborHours, { storeIds: ['store-1'] })).toHaveLength(2);
+    });
+  });
+
+  describe('calculateLaborProductivity', () => {
+    it('should return null ratios when no hours are recorded', () => {
+      expect(calculateLaborProductivity(1000, 10, 0)).toEqual(expect.objectContaining({
+        revenuePerLaborHour: null,
+        transactionsPerLaborHour: null,
+      }));
+    });
+  });
+
+  describe('summarizeLaborProductivity', () => {
+    it('should only count sales on store days with labor hours', () => {
+      expect(summarizeLaborProductivity(sales, laborHours)).toEqual({
+        laborHours: 70,
+        revenue: 740000,
+        transactions: 1000,
+        revenuePerLaborHour: 740000 / 70,
+        transactionsPerLaborHour: 1000 / 70,
+      });
+    });
+
+    it('should match sales by department when filtering by department', () => {
+      const summary = summarizeLaborProductivity(sales, laborHours, { departments: ['food'] });
+
+      expect(summary.laborHours).toBe(60);
+      expect(summary.revenue).toBe(540000);
+    });
+  });
+
+  describe('buildStoreProductivityRanking', () => {
+    it('should rank stores by revenue per labor hour', () => {
+      const ranking = buildStoreProductivityRanking(sales, laborHours);
+
+      expect(ranking.map(({ rank, storeId, storeName }) => [rank, storeId, storeName])).toEqual([
+        [1, 'store-2', '梅田店'],
+        [2, 'store-1', '新宿店'],
+      ]);
+      expect(ranking[0].revenuePerLaborHour).toBe(12000);
+      expect(ranking[1].revenuePerLaborHour).toBe(10000);
+    });
+  });
+
+  describe('validateLaborHoursForm', () => {
+    const valid = { date: '2025-09-01', store_id: 'store-1', department: 'food', hours: 7.25 };
+
+    it('should accept hours with up to two decimals', () => {
+      expect(validateLaborHoursForm(valid)).toEqual([]);
+      expect(validateLaborHoursForm({ ...valid, hours: 0.29 })).toEqual([]);
+    });
+
+    it('should reject missing, out-of-range and overly precise hours', () => {
+      expect(validateLaborHoursForm({ ...valid, hours: undefined })[0].code).toBe('REQUIRED');
+      expect(validateLaborHoursForm({ ...valid, hours: 10001 })[0].code).toBe('OUT_OF_RANGE');
+      expect(validateLaborHoursForm({ ...valid, hours: 7.125 })[0].code).toBe('INVALID_FORMAT');
+      expect(validateLaborHoursForm({ ...valid, date: '2025/09/01' })[0]).toEqual(
+        expect.objectContaining({ field: 'date', code: 'INVALID_FORMAT' })
+      );
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { MasterDataItem, getMasterLabel, isMasterDataType, toMasterOptions } from '@/lib/master-data';
+
+const item = (overrides: Partial<MasterDataItem>): MasterDataItem => ({
+  id: 'item',
+  code: 'code',
+  name: 'name',
+  sort_order: 0,
+  active: true,
+  created_at: '2025-08-27T00:00:00Z',
+  updated_at: '2025-08-27T00:00:00Z',
+  ...overrides,
+});
+
+describe('Master data', () => {
+  const departments = [
+    item({ id: 'food', code: 'food', name: '食品', sort_order: 30 }),
+    item({ id: 'books', code: 'books', name: '書籍', sort_order: 50, active: false }),
+    item({ id: 'clothing', code: 'clothing', name: '衣料品', sort_order: 20 }),
+    item({ id: 'cosmetics', code: 'cosmetics', name: '化粧品', sort_order: 20 }),
+  ];
+
+  it('should list active options in sort order, then by code', () => {
+    expect(toMasterOptions(departments)).toEqual([
+      { value: 'clothing', label: '衣料品' },
+      { value: 'cosmetics', label: '化粧品' },
+      { value: 'food', label: '食品' },
+    ]);
+  });
+
+  it('should keep inactive codes that are currently selected', () => {
+    expect(toMasterOptions(departments, ['books']).map(option => option.value)).toContain('books');
+  });
+
+  it('should resolve labels including inactive and unknown codes', () => {
+    expect(getMasterLabel(departments, 'books')).toBe('書籍');
+    expect(getMasterLabel(departments, '食品')).toBe('食品');
+    expect(getMasterLabel(departments, null)).toBe('');
+  });
+
+  it('should validate master data types', () => {
+    expect(isMasterDataType('departments')).toBe(true);
+    expect(isMasterDataType('categories')).toBe(true);
+    expect(isMasterDataType('stores')).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  QueuedSalesEntry,
+  describeQueuedSalesConflict,
+  parseQueuedSales,
+  sendSalesQueueMessage,
+} from '@/lib/offline-sales-queue';
+
+describe('Offline sales queue', () => {
+  const entry = (overrides: Partial<QueuedSalesEntry> = {}): QueuedSalesEntry => ({
+    id: 'key-1',
+    url: '/api/sales',
+    body: JSON.stringify({
+      date: '2025-09-07',
+      store_id: 'store-1',
+      department: '食品',
+      product_category: '青果',
+      revenue_ex_tax: 120000,
+    }),
+    status: 'pending',
+    validation: { client: 'passed', errors: [], warnings: [] },
+    response: null,
+    attempts: 0,
+    queued_at: '2025-09-07T10:00:00Z',
+    last_attempt_at: null,
+    ...overrides,
+  });
+
+  describe('parseQueuedSales', () => {
+    it('should read the queued request body', () => {
+      expect(parseQueuedSales(entry())).toEqual(expect.objectContaining({
+        date: '2025-09-07',
+        department: '食品',
+        revenue_ex_tax: 120000,
+      }));
+    });
+
+    it('should return null for a body that is not JSON', () => {
+      expect(parseQueuedSales(entry({ body: 'not json' }))).toBeNull();
+    });
+  });
+
+  describe('describeQueuedSalesConflict', () => {
+    it('should return null for entries still waiting to be sent', () => {
+      expect(describeQueuedSalesConflict(entry())).toBeNull();
+    });
+
+    it('should use the server message for duplicates and closed periods', () => {
+      const duplicate = entry({
+        status: 'conflict',
+        response: { status: 409, message: '同じ日付・店舗・部門・カテゴリ・チャネルの売上データが既に存在します' },
+      });
+
+      expect(describeQueuedSalesConflict(duplicate)).toBe('同じ日付・店舗・部門・カテゴリ・チャネルの売上データが既に存在します');
+      expect(describeQueuedSalesConflict(entry({ status: 'conflict', response: { status: 423, message: null } })))
+        .toBe('送信できませんでした（HTTP 423）');
+    });
+
+    it('should ask for confirmation of anomaly warnings and list validation errors', () => {
+      const warned = entry({
+        status: 'conflict',
+        response: { status: 422, message: '入力値を確認してください' },
+        validation: {
+          client: 'passed',
+          errors: [],
+          warnings: [{
+            field: 'revenue_ex_tax',
+            value: 1200000,
+            median: 120000,
+            zScore: 9.5,
+            historyCount: 8,
+            direction: 'high',
+            message: '売上が過去8週の同曜日より大幅に高い値です',
+          }],
+        },
+      });
+      const invalid = entry({
+        status: 'conflict',
+        response: { status: 400, message: 'バリデーションエラー' },
+        validation: {
+          client: 'unchecked',
+          errors: [
+            { field: 'department', message: '部門は必須です', code: 'REQUIRED' },
+            { field: 'revenue_ex_tax', message: '売上は0以上で入力してください', code: 'MIN_VALUE' },
+          ],
+          warnings: [],
+        },
+      });
+
+      expect(describeQueuedSalesConflict(warned)).toBe('過去の同曜日と大きく異なる値です。内容を確認のうえ送信してください');
+      expect(describeQueuedSalesConflict(invalid)).toBe('部門は必須です、売上は0以上で入力してください');
+    });
+  });
+
+  it('should resolve an empty queue when no service worker controls the page', async () => {
+    await expect(sendSalesQueueMessage({ type: 'GET_SALES_QUEUE' })).resolves.toEqual([]);
+  });
+});
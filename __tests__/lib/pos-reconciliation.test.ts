@@ -0,0 +1,165 @@
+import {
+  PosReconciliation,
+  allocateByWeight,
+  buildPosAcceptChanges,
+  reconcilePosTotals,
+} from '@/lib/pos-reconciliation';
+import {
+  validatePosDailyTotalForm,
+  validatePosResolveRequest,
+} from '@/lib/validations/pos-reconciliation';
+import { validatePosTotalsImportRows } from '@/lib/services/pos-totals-import';
+
+describe('POS reconciliation', () => {
+  const reconciliation = (
+    store_id: string,
+    date: string,
+    revenue: number,
+    transactions: number | null
+  ): PosReconciliation => ({
+    id: `${store_id}-${date}`,
+    date,
+    store_id,
+    pos_revenue_ex_tax: revenue,
+    pos_transactions: transactions,
+    source_file: 'zreport.csv',
+    status: 'open',
+    resolution_note: null,
+    resolved_by: null,
+    resolved_at: null,
+    uploaded_by: 'user-1',
+    created_at: '2025-09-02T00:00:00Z',
+    updated_at: '2025-09-02T00:00:00Z',
+  });
+
+  const sale = (store_id: string, date: string, revenue: number, transactions: number | null) => ({
+    date,
+    store_id,
+    revenue_ex_tax: revenue,
+    transactions,
+  });
+
+  describe('reconcilePosTotals', () => {
+    it('should sum the reported sales per store and day and flag differences above the tolerance', () => {
+      const items = reconcilePosTotals(
+        [
+          reconciliation('store-1', '2025-09-01', 300050, 600),
+          reconciliation('store-1', '2025-09-02', 310000, null),
+          reconciliation('store-2', '2025-09-01', 200000, 400),
+        ],
+        [
+          sale('store-1', '2025-09-01', 200000, 400),
+          sale('store-1', '2025-09-01', 100000, 200),
+          sale('store-1', '2025-09-02', 300000, 590),
+          sale('store-2', '2025-09-01', 200000, 399),
+        ]
+      );
+
+      expect(items[0]).toEqual(expect.objectContaining({
+        reported_revenue_ex_tax: 300000,
+        reported_transactions: 600,
+        sales_count: 2,
+        revenue_difference: 50,
+        transactions_difference: 0,
+        has_difference: false,
+      }));
+      expect(items[1]).toEqual(expect.objectContaining({
+        revenue_difference: 10000,
+        transactions_difference: null,
+        has_difference: true,
+      }));
+      expect(items[2]).toEqual(expect.objectContaining({
+        revenue_difference: 0,
+        transactions_difference: 1,
+        has_difference: true,
+      }));
+    });
+
+    it('should treat days without reported sales as a difference', () => {
+      const [item] = reconcilePosTotals([reconciliation('store-1', '2025-09-01', 0, null)], []);
+
+      expect(item).toEqual(expect.objectContaining({
+        reported_revenue_ex_tax: null,
+        sales_count: 0,
+        has_difference: true,
+      }));
+    });
+
+    it('should apply a custom tolerance', () => {
+      const [item] = reconcilePosTotals(
+        [reconciliation('store-1', '2025-09-01', 301000, null)],
+        [sale('store-1', '2025-09-01', 300000, 600)],
+        { revenue: 1000, transactions: 0 }
+      );
+
+      expect(item.has_difference).toBe(false);
+    });
+  });
+
+  describe('allocateByWeight', () => {
+    it('should allocate proportionally and keep the total with the largest remainder', () => {
+      expect(allocateByWeight(100, [1, 1, 1])).toEqual([34, 33, 33]);
+      expect(allocateByWeight(1000, [300, 100])).toEqual([750, 250]);
+      expect(allocateByWeight(10, [0, 0])).toEqual([5, 5]);
+      expect(allocateByWeight(10, [])).toEqual([]);
+    });
+  });
+
+  describe('buildPosAcceptChanges', () => {
+    const target = (id: string, revenue: number, transactions: number | null) => ({
+      id,
+      updated_at: '2025-09-01T10:00:00Z',
+      date: '2025-09-01',
+      department: 'food',
+      product_category: id,
+      revenue_ex_tax: revenue,
+      transactions,
+    });
+
+    it('should distribute the POS totals by the current share of each row', () => {
+      const changes = buildPosAcceptChanges(
+        { pos_revenue_ex_tax: 310000, pos_transactions: 610 },
+        [target('fresh', 200000, 400), target('other', 100000, 200)]
+      );
+
+      expect(changes.map(change => change.revenue_ex_tax)).toEqual([206667, 103333]);
+      expect(changes.map(change => change.transactions)).toEqual([407, 203]);
+      expect(changes[0]).toEqual(expect.objectContaining({ id: 'fresh', updated_at: '2025-09-01T10:00:00Z' }));
+    });
+
+    it('should keep the reported transactions when the POS has none', () => {
+      const changes = buildPosAcceptChanges(
+        { pos_revenue_ex_tax: 120000, pos_transactions: null },
+        [target('fresh', 100000, 250)]
+      );
+
+      expect(changes[0]).toEqual(expect.objectContaining({ revenue_ex_tax: 120000, transactions: 250 }));
+    });
+  });
+
+  describe('validation', () => {
+    it('should validate a POS daily total', () => {
+      expect(validatePosDailyTotalForm({ date: '2025-09-01', store_id: 'store-1', revenue_ex_tax: 300000, transactions: 600 })).toEqual([]);
+      expect(validatePosDailyTotalForm({ date: '2025/09/01', store_id: '', revenue_ex_tax: -1, transactions: 1.5 }).map(error => error.field))
+        .toEqual(['date', 'store_id', 'revenue_ex_tax', 'transactions']);
+    });
+
+    it('should require a note when annotating', () => {
+      expect(validatePosResolveRequest({ resolution: 'accept_pos', updated_at: '2025-09-02T00:00:00Z' })).toEqual([]);
+      expect(validatePosResolveRequest({ resolution: 'annotate', note: ' ', updated_at: '2025-09-02T00:00:00Z' }))
+        .toEqual([expect.objectContaining({ field: 'note', code: 'REQUIRED' })]);
+      expect(validatePosResolveRequest({ resolution: 'delete' as never }).map(error => error.field))
+        .toEqual(['resolution', 'updated_at']);
+    });
+
+    it('should report duplicated store days in an import file', () => {
+      const data = { date: '2025-09-01', store_id: 'store-1', revenue_ex_tax: 300000 };
+      const errors = validatePosTotalsImportRows([{ row: 2, data }, { row: 3, data }]);
+
+      expect(errors).toEqual([{
+        row: 3,
+        errors: [expect.objectContaining({ code: 'DUPLICATE_IN_FILE', message: '2行目と同じ日付・店舗の POS 合計が重複しています' })],
+      }]);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  calculateRobustZScore,
+  detectSalesAnomalies,
+  getSameWeekdayDates,
+  getUnacknowledgedWarnings,
+  median,
+} from '@/lib/sales-anomaly';
+
+describe('Sales anomaly detection', () => {
+  // 2025-08-19（火）の直近8週の火曜日
+  const dates = getSameWeekdayDates('2025-08-19');
+  const history = [100000, 98000, 102000, 105000, 95000, 101000, 99000, 100000].map((revenue, index) => ({
+    date: dates[index],
+    revenue_ex_tax: revenue,
+    footfall: 200,
+    transactions: 100 + index,
+  }));
+
+  it('should list the same weekday for the trailing 8 weeks', () => {
+    expect(dates).toHaveLength(8);
+    expect(dates[0]).toBe('2025-08-12');
+    expect(dates[7]).toBe('2025-06-24');
+  });
+
+  it('should calculate the median of odd and even length lists', () => {
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+
+  it('should calculate a modified z-score from the median absolute deviation', () => {
+    const result = calculateRobustZScore(110, [90, 95, 100, 105, 110]);
+
+    expect(result.median).toBe(100);
+    // MAD = 5 → 0.6745 * 10 / 5
+    expect(result.zScore).toBeCloseTo(1.349, 3);
+  });
+
+  it('should fall back to the mean absolute deviation when MAD is zero', () => {
+    const result = calculateRobustZScore(110, [100, 100, 100, 120]);
+
+    expect(result.median).toBe(100);
+    expect(result.zScore).toBeCloseTo(10 / (1.253314 * 5), 3);
+  });
+
+  it('should return a null z-score when history has no spread', () => {
+    expect(calculateRobustZScore(100, [100, 100, 100, 100]).zScore).toBe(0);
+    expect(calculateRobustZScore(150, [100, 100, 100, 100]).zScore).toBeNull();
+  });
+
+  it('should not warn about values within the usual range', () => {
+    expect(detectSalesAnomalies({ revenue_ex_tax: 104000, footfall: 200, transactions: 103 }, history)).toEqual([]);
+  });
+
+  it('should warn about values far above or below the median', () => {
+    const warnings = detectSalesAnomalies({ revenue_ex_tax: 1000000, footfall: 20 }, history);
+
+    expect(warnings).toEqual([
+      expect.objectContaining({ field: 'revenue_ex_tax', median: 100000, direction: 'high', historyCount: 8 }),
+      expect.objectContaining({ field: 'footfall', median: 200, zScore: null, direction: 'low' }),
+    ]);
+    expect(warnings[0].message).toContain('税抜売上');
+    expect(warnings[0].message).toContain('多く');
+    expect(warnings[1].message).toContain('少なく');
+  });
+
+  it('should skip fields with too little history or no input', () => {
+    expect(detectSalesAnomalies({ revenue_ex_tax: 1000000 }, history.slice(0, 3))).toEqual([]);
+    expect(detectSalesAnomalies({}, history)).toEqual([]);
+  });
+
+  it('should only keep warnings that have not been acknowledged', () => {
+    const warnings = detectSalesAnomalies({ revenue_ex_tax: 1000000, footfall: 20 }, history);
+
+    expect(getUnacknowledgedWarnings(warnings, ['revenue_ex_tax']).map(warning => warning.field)).toEqual(['footfall']);
+    expect(getUnacknowledgedWarnings(warnings, ['revenue_ex_tax', 'footfall'])).toEqual([]);
+    expect(getUnacknowledgedWarnings(warnings)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,34 @@
+import {
+  DEFAULT_SALES_CHANNEL,
+  SALES_CHANNELS,
+  SALES_CHANNEL_LABELS,
+  isSalesChannel,
+  parseSalesChannels,
+} from '@/lib/sales-channels';
+
+describe('Sales channels', () => {
+  it('should label every channel and default to in-store', () => {
+    expect(SALES_CHANNELS.map(channel => SALES_CHANNEL_LABELS[channel])).toEqual(['店頭', 'EC', '外商']);
+    expect(DEFAULT_SALES_CHANNEL).toBe('store');
+  });
+
+  it('should recognize channel codes only', () => {
+    expect(isSalesChannel('ec')).toBe(true);
+    expect(isSalesChannel('EC')).toBe(false);
+    expect(isSalesChannel('店頭')).toBe(false);
+    expect(isSalesChannel(undefined)).toBe(false);
+  });
+
+  describe('parseSalesChannels', () => {
+    it('should parse a comma separated list and drop unknown values', () => {
+      expect(parseSalesChannels('store,ec')).toEqual(['store', 'ec']);
+      expect(parseSalesChannels('corporate,unknown,')).toEqual(['corporate']);
+    });
+
+    it('should return undefined when nothing valid is selected', () => {
+      expect(parseSalesChannels(null)).toBeUndefined();
+      expect(parseSalesChannels('')).toBeUndefined();
+      expect(parseSalesChannels('unknown')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  buildKPISummary,
+  calculateKPIChange,
+  getComparisonRange,
+  shiftDate,
+} from '@/lib/sales-comparison';
+
+describe('Sales KPI comparison', () => {
+  describe('getComparisonRange', () => {
+    it('should use the same number of days immediately before for the previous period', () => {
+      expect(getComparisonRange({ start: '2025-08-01', end: '2025-08-31' }, 'previous_period')).toEqual({
+        start: '2025-07-01',
+        end: '2025-07-31',
+      });
+      expect(getComparisonRange({ start: '2025-03-01', end: '2025-03-01' }, 'previous_period')).toEqual({
+        start: '2025-02-28',
+        end: '2025-02-28',
+      });
+    });
+
+    it('should shift the prior year by 364 days to keep weekdays aligned', () => {
+      const range = getComparisonRange({ start: '2025-08-04', end: '2025-08-10' }, 'prior_year');
+
+      expect(range).toEqual({ start: '2024-08-05', end: '2024-08-11' });
+      expect(new Date(`${range.start}T00:00:00Z`).getUTCDay()).toBe(new Date('2025-08-04T00:00:00Z').getUTCDay());
+    });
+
+    it('should cross year and leap-day boundaries', () => {
+      expect(shiftDate('2024-03-01', -1)).toBe('2024-02-29');
+      expect(shiftDate('2025-01-01', -1)).toBe('2024-12-31');
+    });
+  });
+
+  describe('buildKPISummary', () => {
+    it('should derive average transaction value and conversion rate', () => {
+      expect(buildKPISummary({ revenue: 120000, footfall: 400, transactions: 100 })).toEqual({
+        totalRevenue: 120000,
+        totalFootfall: 400,
+        totalTransactions: 100,
+        averageTransactionValue: 1200,
+        conversionRate: 25,
+      });
+    });
+
+    it('should not divide by zero', () => {
+      const summary = buildKPISummary({ revenue: 0, footfall: 0, transactions: 0 });
+      expect(summary.averageTransactionValue).toBe(0);
+      expect(summary.conversionRate).toBe(0);
+    });
+  });
+
+  describe('calculateKPIChange', () => {
+    it('should calculate the change against the comparison value', () => {
+      expect(calculateKPIChange(110, 100)).toEqual({ percentage: expect.closeTo(10), isPositive: true, isNeutral: false });
+      expect(calculateKPIChange(95, 100)).toEqual({ percentage: 5, isPositive: false, isNeutral: false });
+    });
+
+    it('should treat missing comparison values and tiny changes as neutral', () => {
+      expect(calculateKPIChange(100, 0).isNeutral).toBe(true);
+      expect(calculateKPIChange(100, null).isNeutral).toBe(true);
+      expect(calculateKPIChange(100.05, 100).isNeutral).toBe(true);
+    });
+  });
+});
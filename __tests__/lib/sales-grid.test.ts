@@ -0,0 +1,61 @@
+import {
+  SALES_GRID_MAX_DAYS,
+  buildSalesGridRows,
+  calculateSalesGridTotals,
+  getSalesGridDates,
+  getSalesGridKey,
+  parseClipboardGrid,
+  parseSalesGridValue,
+} from '@/lib/sales-grid';
+
+describe('Sales grid', () => {
+  it('should build department × category rows in master order', () => {
+    expect(buildSalesGridRows(['food', 'apparel'], ['fresh', 'other'])).toEqual([
+      { department: 'food', product_category: 'fresh' },
+      { department: 'food', product_category: 'other' },
+      { department: 'apparel', product_category: 'fresh' },
+      { department: 'apparel', product_category: 'other' },
+    ]);
+  });
+
+  it('should list consecutive dates and clamp the number of days', () => {
+    expect(getSalesGridDates('2025-08-30', 3)).toEqual(['2025-08-30', '2025-08-31', '2025-09-01']);
+    expect(getSalesGridDates('2025-08-19', 0)).toHaveLength(1);
+    expect(getSalesGridDates('2025-08-19', 31)).toHaveLength(SALES_GRID_MAX_DAYS);
+  });
+
+  it('should parse cell values with currency formatting', () => {
+    expect(parseSalesGridValue('')).toEqual({ value: null, error: null });
+    expect(parseSalesGridValue(' ¥1,234,567 ')).toEqual({ value: 1234567, error: null });
+    expect(parseSalesGridValue('12，000円')).toEqual({ value: 12000, error: null });
+  });
+
+  it('should report invalid cell values', () => {
+    expect(parseSalesGridValue('abc').error).toBe('数値で入力してください');
+    expect(parseSalesGridValue('-100').error).not.toBeNull();
+    expect(parseSalesGridValue('2000000000').error).not.toBeNull();
+  });
+
+  it('should split a pasted Excel range into rows and columns', () => {
+    expect(parseClipboardGrid('100\t200\r\n300\t400\r\n')).toEqual([
+      ['100', '200'],
+      ['300', '400'],
+    ]);
+    expect(parseClipboardGrid('500')).toEqual([['500']]);
+  });
+
+  it('should total rows, columns and the grid ignoring blank cells', () => {
+    const rows = buildSalesGridRows(['food'], ['fresh', 'other']);
+    const dates = ['2025-08-19', '2025-08-20'];
+    const totals = calculateSalesGridTotals(rows, dates, {
+      [getSalesGridKey(rows[0], dates[0])]: 100,
+      [getSalesGridKey(rows[0], dates[1])]: 200,
+      [getSalesGridKey(rows[1], dates[0])]: 50,
+      [getSalesGridKey(rows[1], dates[1])]: null,
+    });
+
+    expect(totals.rowTotals).toEqual({ 'food|fresh': 300, 'food|other': 50 });
+    expect(totals.columnTotals).toEqual({ '2025-08-19': 150, '2025-08-20': 200 });
+    expect(totals.grandTotal).toBe(350);
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  SALES_LEDGER_DEFAULT_LIMIT,
+  SALES_LEDGER_MAX_LIMIT,
+  buildSalesLedgerSearchParams,
+  parseSalesLedgerQuery,
+  summarizeSalesRows,
+  toSalesLedgerTotals,
+} from '@/lib/sales-ledger';
+
+describe('Sales ledger', () => {
+  it('should use the default sort and paging when no parameters are given', () => {
+    expect(parseSalesLedgerQuery(new URLSearchParams())).toEqual({
+      storeId: null,
+      department: null,
+      productCategory: null,
+      status: null,
+      startDate: null,
+      endDate: null,
+      sort: 'date',
+      order: 'desc',
+      limit: SALES_LEDGER_DEFAULT_LIMIT,
+      offset: 0,
+    });
+  });
+
+  it('should ignore unknown sort fields and statuses and clamp the limit', () => {
+    const query = parseSalesLedgerQuery(new URLSearchParams({
+      sort: 'notes; drop table sales',
+      status: 'deleted',
+      limit: '10000',
+      offset: '-5',
+    }));
+
+    expect(query.sort).toBe('date');
+    expect(query.status).toBeNull();
+    expect(query.limit).toBe(SALES_LEDGER_MAX_LIMIT);
+    expect(query.offset).toBe(0);
+  });
+
+  it('should round-trip filters through the query string', () => {
+    const params = buildSalesLedgerSearchParams({
+      storeId: 'store-1',
+      productCategory: 'premium',
+      status: 'submitted',
+      startDate: '2025-08-01',
+      sort: 'revenue_ex_tax',
+      order: 'asc',
+      limit: 50,
+      offset: 100,
+    });
+
+    expect(parseSalesLedgerQuery(params)).toEqual(expect.objectContaining({
+      storeId: 'store-1',
+      department: null,
+      productCategory: 'premium',
+      status: 'submitted',
+      startDate: '2025-08-01',
+      sort: 'revenue_ex_tax',
+      order: 'asc',
+      offset: 100,
+    }));
+    expect(params.has('department')).toBe(false);
+  });
+
+  it('should sum the rows on the page treating missing values as zero', () => {
+    expect(summarizeSalesRows([
+      { revenue_ex_tax: 100000, tax: 10000, footfall: 120, transactions: 60, discounts: null },
+      { revenue_ex_tax: 50000, tax: 4000, footfall: null, transactions: 20, discounts: 1000 },
+    ])).toEqual({
+      revenue_ex_tax: 150000,
+      tax: 14000,
+      footfall: 120,
+      transactions: 80,
+      discounts: 1000,
+      record_count: 2,
+    });
+  });
+
+  it('should convert numeric strings from the totals function', () => {
+    expect(toSalesLedgerTotals({ revenue_ex_tax: '150000.00', footfall: '120', record_count: 2 })).toEqual({
+      revenue_ex_tax: 150000,
+      tax: 0,
+      footfall: 120,
+      transactions: 0,
+      discounts: 0,
+      record_count: 2,
+    });
+    expect(toSalesLedgerTotals(undefined).record_count).toBe(0);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * 添付ファイルストレージ ユニットテスト
+ * @jest-environment node
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  LocalAttachmentStorage,
+  buildAttachmentPath,
+  getAttachmentStorage,
+  verifyLocalAttachmentSignature,
+} from '@/lib/services/attachment-storage';
+import { detectAttachmentContentType, validateSalesAttachment } from '@/lib/validations/attachments';
+
+const PDF_BYTES = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x37]);
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+
+describe('Attachment storage', () => {
+  const originalEnv = process.env;
+  let rootDir: string;
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv, ATTACHMENT_SIGNING_SECRET: 'test-secret' };
+    rootDir = await mkdtemp(path.join(os.tmpdir(), 'attachments-'));
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  describe('LocalAttachmentStorage', () => {
+    it('should store and read files under the root directory without overwriting', async () => {
+      const storage = new LocalAttachmentStorage(rootDir);
+      const storagePath = buildAttachmentPath('store-1', 'sales-1', 'attachment-1');
+
+      await storage.upload(storagePath, PDF_BYTES);
+
+      expect(storagePath).toBe('store-1/sales-1/attachment-1');
+      expect(await storage.read(storagePath)).toEqual(PDF_BYTES);
+      await expect(storage.upload(storagePath, PNG_BYTES)).rejects.toThrow();
+
+      await storage.remove(storagePath);
+      await expect(storage.read(storagePath)).rejects.toThrow();
+    });
+
+    it('should reject paths outside the root directory', async () => {
+      const storage = new LocalAttachmentStorage(rootDir);
+
+      await expect(storage.upload('../outside', PDF_BYTES)).rejects.toThrow('Invalid attachment path');
+    });
+
+    it('should issue signed URLs that expire and cannot be altered', async () => {
+      const storage = new LocalAttachmentStorage(rootDir);
+      const url = new URL(await storage.createSignedUrl('store-1/sales-1/attachment-1', '日報.pdf', 60), 'http://localhost');
+      const params = {
+        path: url.searchParams.get('path') || '',
+        name: url.searchParams.get('name') || '',
+        expires: Number(url.searchParams.get('expires')),
+        signature: url.searchParams.get('signature') || '',
+      };
+
+      expect(url.pathname).toBe('/api/attachments/local');
+      expect(verifyLocalAttachmentSignature(params)).toBe(true);
+      expect(verifyLocalAttachmentSignature({ ...params, path: 'store-2/sales-1/attachment-1' })).toBe(false);
+      expect(verifyLocalAttachmentSignature(params, (params.expires + 1) * 1000)).toBe(false);
+    });
+  });
+
+  it('should select the storage adapter from the environment', () => {
+    process.env.ATTACHMENT_STORAGE = 'local';
+    expect(getAttachmentStorage({} as never).kind).toBe('local');
+
+    delete process.env.ATTACHMENT_STORAGE;
+    expect(getAttachmentStorage({} as never).kind).toBe('supabase');
+  });
+
+  describe('validateSalesAttachment', () => {
+    it('should accept images and PDFs whose content matches the declared type', () => {
+      expect(detectAttachmentContentType(PDF_BYTES)).toBe('application/pdf');
+      expect(validateSalesAttachment({ name: 'zreport.pdf', type: 'application/pdf', size: PDF_BYTES.length }, PDF_BYTES)).toEqual([]);
+      expect(validateSalesAttachment({ name: 'receipt.PNG', type: 'image/png', size: PNG_BYTES.length }, PNG_BYTES)).toEqual([]);
+    });
+
+    it('should reject unsupported types, mismatched content and oversized files', () => {
+      expect(validateSalesAttachment({ name: 'report.xlsx', type: 'application/vnd.ms-excel', size: 10 }, PDF_BYTES))
+        .toEqual([expect.objectContaining({ code: 'INVALID_FILE_TYPE' })]);
+      expect(validateSalesAttachment({ name: 'receipt.png', type: 'image/png', size: PDF_BYTES.length }, PDF_BYTES))
+        .toEqual([expect.objectContaining({ message: 'ファイルの内容が拡張子と一致しません' })]);
+      expect(validateSalesAttachment({ name: 'scan.pdf', type: 'application/pdf', size: 11 * 1024 * 1024 }, new Uint8Array()))
+        .toEqual([expect.objectContaining({ code: 'FILE_TOO_LARGE' })]);
+    });
+  });
+});
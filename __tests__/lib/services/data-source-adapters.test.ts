@@ -0,0 +1,176 @@
+/**
+ * External data source adapter unit tests
+ * @jest-environment node
+ */
+
+import path from 'path'
+import {
+  DataSourceConfigError,
+  DataSourceRegistry,
+  DataSourceSettings,
+  FileSourceAdapter,
+  JsonHttpSourceAdapter,
+  loadDataSourceSettings
+} from '@/lib/services/data-source-adapters'
+import { DataSource } from '@/lib/services/data-sources'
+
+const FIXTURE_DIR = path.join(process.cwd(), 'fixtures/etl')
+
+const fileSettings = (overrides: Partial<DataSourceSettings> = {}): DataSourceSettings => ({
+  defaultAdapter: 'file',
+  adapters: {},
+  http: {},
+  fixtureDir: FIXTURE_DIR,
+  ...overrides
+})
+
+describe('Data source adapters', () => {
+  const originalFetch = global.fetch
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  describe('loadDataSourceSettings', () => {
+    it('should read the default adapter, per-source overrides and HTTP endpoints', () => {
+      const settings = loadDataSourceSettings({
+        ETL_SOURCE_ADAPTER: 'file',
+        ETL_SOURCE_ADAPTER_FX_RATES: 'http',
+        ETL_SOURCE_URL_FX_RATES: 'https://api.example.com/fx',
+        ETL_SOURCE_API_KEY_FX_RATES: 'secret',
+        ETL_FIXTURE_DIR: '/data/fixtures'
+      } as unknown as NodeJS.ProcessEnv)
+
+      expect(settings).toEqual({
+        defaultAdapter: 'file',
+        adapters: { fx_rates: 'http' },
+        http: { fx_rates: { url: 'https://api.example.com/fx', apiKey: 'secret' } },
+        fixtureDir: '/data/fixtures'
+      })
+    })
+
+    it('should reject unknown adapter kinds', () => {
+      expect(() => loadDataSourceSettings({ ETL_SOURCE_ADAPTER: 'mock' } as unknown as NodeJS.ProcessEnv))
+        .toThrow(DataSourceConfigError)
+    })
+  })
+
+  describe('FileSourceAdapter', () => {
+    it('should read JSON fixtures for the requested date', async () => {
+      const records = await new FileSourceAdapter('market_index', FIXTURE_DIR).fetch({ date: '2025-09-01' })
+
+      expect(records).toHaveLength(5)
+      expect(records[0]).toEqual({ date: '2025-09-01', symbol: 'TOPIX', value: 3075.48, change_percent: 0.42 })
+    })
+
+    it('should read CSV fixtures with numeric columns parsed and blanks as null', async () => {
+      const records = await new FileSourceAdapter('weather', FIXTURE_DIR).fetch({ date: '2025-09-01' })
+
+      expect(records.find(record => record.location === 'Sapporo')).toEqual({
+        date: '2025-09-01',
+        location: 'Sapporo',
+        temperature_max: 26.3,
+        temperature_min: 18.4,
+        precipitation_mm: null,
+        humidity_percent: 70,
+        weather_condition: 'cloudy'
+      })
+    })
+
+    it('should use the month for monthly sources and return nothing for dates without fixtures', async () => {
+      const inbound = await new FileSourceAdapter('inbound', FIXTURE_DIR).fetch({ date: '2025-09-15' })
+      const missing = await new FileSourceAdapter('market_index', FIXTURE_DIR).fetch({ date: '2025-01-01' })
+
+      expect(inbound).toHaveLength(4)
+      expect(inbound[0].visitors).toBe(82150)
+      expect(missing).toEqual([])
+    })
+  })
+
+  describe('JsonHttpSourceAdapter', () => {
+    it('should request the date with the API key and accept { data: [...] } bodies', async () => {
+      global.fetch = jest.fn().mockResolvedValue(new Response(JSON.stringify({
+        data: [{ date: '2025-09-01', pair: 'USD/JPY', rate: '147.12', change_percent: '' }]
+      }), { status: 200 }))
+
+      const adapter = new JsonHttpSourceAdapter('fx_rates', { url: 'https://api.example.com/fx', apiKey: 'secret' })
+      const records = await adapter.fetch({ date: '2025-09-01' })
+
+      expect(records).toEqual([{ date: '2025-09-01', pair: 'USD/JPY', rate: 147.12, change_percent: null }])
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.example.com/fx?date=2025-09-01',
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer secret' })
+        })
+      )
+    })
+
+    it('should fail on HTTP errors and timeouts', async () => {
+      global.fetch = jest.fn().mockResolvedValue(new Response('', { status: 503, statusText: 'Service Unavailable' }))
+      const adapter = new JsonHttpSourceAdapter('fx_rates', { url: 'https://api.example.com/fx' })
+
+      await expect(adapter.fetch({ date: '2025-09-01' })).rejects.toThrow('HTTP 503: Service Unavailable')
+
+      global.fetch = jest.fn((_url: RequestInfo | URL, init?: RequestInit) => new Promise<Response>((_, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })))
+      }))
+      const slowAdapter = new JsonHttpSourceAdapter('fx_rates', { url: 'https://api.example.com/fx', timeoutMs: 10 })
+
+      await expect(slowAdapter.fetch({ date: '2025-09-01' })).rejects.toThrow('Request timeout after 10ms')
+    })
+  })
+
+  describe('DataSourceRegistry', () => {
+    it('should resolve adapters from settings with per-source overrides', () => {
+      const registry = new DataSourceRegistry(fileSettings({
+        adapters: { fx_rates: 'http' },
+        http: { fx_rates: { url: 'https://api.example.com/fx' } }
+      }))
+
+      expect(registry.get('weather').kind).toBe('file')
+      expect(registry.get('fx_rates').kind).toBe('http')
+    })
+
+    it('should require a URL for HTTP adapters', () => {
+      const registry = new DataSourceRegistry(fileSettings({ defaultAdapter: 'http' }))
+
+      expect(() => registry.get('market_index')).toThrow('No URL configured for market_index')
+    })
+
+    it('should allow registering custom adapter factories', async () => {
+      const fetch = jest.fn().mockResolvedValue([])
+      const registry = new DataSourceRegistry(fileSettings({ defaultAdapter: 'http' }))
+        .register('http', source => ({ kind: 'http', source, fetch }))
+
+      await registry.get('events').fetch({ date: '2025-09-01' })
+
+      expect(fetch).toHaveBeenCalledWith({ date: '2025-09-01' })
+    })
+  })
+
+  describe('DataSource', () => {
+    it('should fetch every source from fixtures without network access', async () => {
+      global.fetch = jest.fn()
+      const dataSource = new DataSource(new DataSourceRegistry(fileSettings()))
+
+      const [market, fx, weather, events, news, inbound] = await Promise.all([
+        dataSource.fetchMarketData('2025-09-01'),
+        dataSource.fetchFXRates('2025-09-01'),
+        dataSource.fetchWeatherData('2025-09-01'),
+        dataSource.fetchEventsData('2025-09-01'),
+        dataSource.fetchSTEMNews('2025-09-01'),
+        dataSource.fetchInboundData('2025-09-01')
+      ])
+
+      expect([market, fx, weather, events, news, inbound].map(records => records.length)).toEqual([5, 3, 5, 2, 2, 4])
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should wrap adapter errors with the source name', async () => {
+      const dataSource = new DataSource(new DataSourceRegistry(fileSettings({ defaultAdapter: 'http' })))
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      await expect(dataSource.fetchFXRates('2025-09-01')).rejects.toThrow('Failed to fetch FX rates: No URL configured for fx_rates')
+    })
+  })
+})
@@ -0,0 +1,206 @@
+/**
+ * ETL バックフィル ユニットテスト
+ * @jest-environment node
+ */
+
+import {
+  ETLBackfillService,
+  SourceRateLimiter,
+  backfillParamsFromRun,
+  loadBackfillRateLimits,
+  planBackfillChunks
+} from '@/lib/services/etl-backfill'
+import type { ETLResult, ETLService } from '@/lib/services/etl'
+import type { EtlRun } from '@/lib/services/etl-runs'
+
+jest.mock('@/lib/supabase/server', () => ({ createClient: jest.fn() }))
+
+describe('planBackfillChunks', () => {
+  it('should chunk daily sources by day and monthly sources by month', () => {
+    const chunks = planBackfillChunks({
+      sources: ['inbound', 'weather'],
+      start_date: '2025-08-30',
+      end_date: '2025-09-02'
+    })
+
+    expect(chunks).toEqual([
+      { source: 'weather', date: '2025-08-30' },
+      { source: 'inbound', date: '2025-08-01' },
+      { source: 'weather', date: '2025-08-31' },
+      { source: 'weather', date: '2025-09-01' },
+      { source: 'inbound', date: '2025-09-01' },
+      { source: 'weather', date: '2025-09-02' }
+    ])
+  })
+})
+
+describe('SourceRateLimiter', () => {
+  it('should wait for the per-source interval between requests', async () => {
+    let now = 0
+    const sleep = jest.fn(async (ms: number) => { now += ms })
+    const limiter = new SourceRateLimiter({ ...loadBackfillRateLimits({} as NodeJS.ProcessEnv), weather: 30 }, sleep, () => now)
+
+    await limiter.acquire('weather')
+    await limiter.acquire('fx_rates')
+    now += 500
+    await limiter.acquire('weather')
+
+    expect(sleep).toHaveBeenCalledTimes(1)
+    expect(sleep).toHaveBeenCalledWith(1500) // 30 req/min → 2s 間隔
+  })
+
+  it('should read limits from the environment', () => {
+    const limits = loadBackfillRateLimits({ ETL_RATE_LIMIT_WEATHER: '5', ETL_RATE_LIMIT_EVENTS: 'abc' } as unknown as NodeJS.ProcessEnv)
+
+    expect(limits.weather).toBe(5)
+    expect(limits.events).toBe(20)
+  })
+})
+
+describe('backfillParamsFromRun', () => {
+  it('should only accept backfill runs', () => {
+    const run = {
+      id: 'run-1',
+      trigger: 'backfill',
+      params: { sources: ['weather', 'unknown'], start_date: '2025-08-01', end_date: '2025-08-31', total_chunks: 31 }
+    } as unknown as EtlRun
+
+    expect(backfillParamsFromRun(run)).toEqual({
+      sources: ['weather'],
+      start_date: '2025-08-01',
+      end_date: '2025-08-31',
+      resume_of: null
+    })
+    expect(backfillParamsFromRun({ ...run, trigger: 'schedule' })).toBeNull()
+  })
+})
+
+describe('ETLBackfillService', () => {
+  let insert: jest.Mock
+  let rpc: jest.Mock
+  let supabase: any
+  let etl: { runSource: jest.Mock; previewSource: jest.Mock }
+  let limiter: SourceRateLimiter
+
+  const success = (source: string, recordsProcessed: number): ETLResult => ({
+    source,
+    success: true,
+    recordsProcessed,
+    duration: 10,
+    attempts: 1
+  })
+
+  beforeEach(() => {
+    insert = jest.fn().mockResolvedValue({ error: null })
+    rpc = jest.fn().mockResolvedValue({ error: null })
+    supabase = { from: jest.fn(() => ({ insert })), rpc }
+    etl = { runSource: jest.fn(), previewSource: jest.fn() }
+    limiter = new SourceRateLimiter(loadBackfillRateLimits({} as NodeJS.ProcessEnv), jest.fn().mockResolvedValue(undefined))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  const createService = (now?: () => number) =>
+    new ETLBackfillService(Promise.resolve(supabase), etl as unknown as ETLService, limiter, now)
+
+  it('should record each chunk and stop a failing source at the failed date', async () => {
+    etl.runSource.mockImplementation(async (source: string, date: string) =>
+      source === 'weather' && date === '2025-09-02'
+        ? { source, success: false, recordsProcessed: 0, duration: 10, attempts: 3, error: 'HTTP 503' }
+        : success(source, 2)
+    )
+
+    const result = await createService().run(
+      { sources: ['fx_rates', 'weather'], start_date: '2025-09-01', end_date: '2025-09-03' },
+      { triggeredBy: 'admin-1' }
+    )
+
+    expect(etl.runSource).toHaveBeenCalledTimes(5) // weather 09-03 は取得しない
+    expect(result.runId).toEqual(expect.any(String))
+    expect(result).toMatchObject({ totalChunks: 6, completedChunks: 4, remainingChunks: 2, timedOut: false })
+    expect(result.sources.find(source => source.source === 'weather')).toMatchObject({
+      completedChunks: 1,
+      failedChunks: 1,
+      lastCompletedDate: '2025-09-01',
+      error: '2025-09-02: HTTP 503'
+    })
+    expect(insert).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      trigger: 'backfill',
+      params: expect.objectContaining({ sources: ['fx_rates', 'weather'], total_chunks: 6 }),
+      triggered_by: 'admin-1'
+    }))
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ source: 'weather', target_date: '2025-09-02', status: 'failure' }))
+    expect(rpc).toHaveBeenCalledWith('finish_etl_run', { p_run_id: result.runId, p_error: null })
+  })
+
+  it('should skip chunks completed by the resumed runs', async () => {
+    const runsBuilder: any = {
+      select: jest.fn(() => runsBuilder),
+      eq: jest.fn(() => runsBuilder),
+      maybeSingle: jest.fn()
+        .mockResolvedValueOnce({ data: { params: { resume_of: 'run-1' } }, error: null })
+        .mockResolvedValueOnce({ data: { params: {} }, error: null })
+    }
+    const sourcesBuilder: any = {
+      select: jest.fn(() => sourcesBuilder),
+      in: jest.fn(() => sourcesBuilder),
+      eq: jest.fn().mockResolvedValue({
+        data: [
+          { source: 'weather', target_date: '2025-09-01' },
+          { source: 'weather', target_date: '2025-09-02' }
+        ],
+        error: null
+      })
+    }
+    runsBuilder.insert = insert
+    sourcesBuilder.insert = insert
+    supabase.from = jest.fn((table: string) => table === 'etl_runs' ? runsBuilder : sourcesBuilder)
+    etl.runSource.mockImplementation(async (source: string) => success(source, 1))
+
+    const result = await createService().run({
+      sources: ['weather'],
+      start_date: '2025-09-01',
+      end_date: '2025-09-03',
+      resume_of: 'run-2'
+    })
+
+    expect(sourcesBuilder.in).toHaveBeenCalledWith('run_id', ['run-2', 'run-1'])
+    expect(etl.runSource).toHaveBeenCalledTimes(1)
+    expect(etl.runSource).toHaveBeenCalledWith('weather', '2025-09-03', expect.any(Function))
+    expect(result).toMatchObject({ completedChunks: 3, remainingChunks: 0 })
+  })
+
+  it('should count rows without writing or recording on dry run', async () => {
+    etl.previewSource.mockResolvedValue({ source: 'fx_rates', recordsFetched: 3, wouldInsert: 1, wouldUpdate: 1, wouldUnchanged: 1 })
+
+    const result = await createService().run(
+      { sources: ['fx_rates'], start_date: '2025-09-01', end_date: '2025-09-02' },
+      { dryRun: true }
+    )
+
+    expect(etl.runSource).not.toHaveBeenCalled()
+    expect(insert).not.toHaveBeenCalled()
+    expect(rpc).not.toHaveBeenCalled()
+    expect(result.runId).toBeNull()
+    expect(result.sources[0]).toMatchObject({ recordsProcessed: 6, wouldInsert: 2, wouldUpdate: 2, wouldUnchanged: 2 })
+  })
+
+  it('should stop at the deadline and leave the rest for a resume', async () => {
+    let now = 0
+    etl.runSource.mockImplementation(async (source: string) => {
+      now += 1000
+      return success(source, 1)
+    })
+
+    const result = await createService(() => now).run(
+      { sources: ['weather'], start_date: '2025-09-01', end_date: '2025-09-05' },
+      { deadline: 2000 }
+    )
+
+    expect(etl.runSource).toHaveBeenCalledTimes(2)
+    expect(result).toMatchObject({ completedChunks: 2, remainingChunks: 3, timedOut: true })
+    expect(rpc).toHaveBeenCalledWith('finish_etl_run', {
+      p_run_id: result.runId,
+      p_error: 'Stopped at the time limit; resume the run to continue'
+    })
+  })
+})
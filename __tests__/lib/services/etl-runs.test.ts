@@ -0,0 +1,139 @@
+/**
+ * ETL 実行履歴の記録 ユニットテスト
+ * @jest-environment node
+ */
+
+import { EtlRunRecorder, parseEtlRunsQuery } from '@/lib/services/etl-runs'
+
+describe('EtlRunRecorder', () => {
+  let insert: jest.Mock
+  let rpc: jest.Mock
+  let supabase: any
+
+  beforeEach(() => {
+    insert = jest.fn().mockResolvedValue({ error: null })
+    rpc = jest.fn().mockResolvedValue({ error: null })
+    supabase = { from: jest.fn(() => ({ insert })), rpc }
+  })
+
+  it('should record the run, each source result and the finish', async () => {
+    const recorder = new EtlRunRecorder(Promise.resolve(supabase))
+
+    const runId = await recorder.start({ trigger: 'manual', triggeredBy: 'admin-1' })
+    await recorder.recordSource(runId, {
+      source: 'weather',
+      success: false,
+      recordsProcessed: 0,
+      duration: 14000.4,
+      attempts: 3,
+      error: 'HTTP 503'
+    }, '2025-09-01')
+    await recorder.finish(runId)
+
+    expect(runId).toEqual(expect.any(String))
+    expect(supabase.from).toHaveBeenNthCalledWith(1, 'etl_runs')
+    expect(insert).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      id: runId,
+      trigger: 'manual',
+      status: 'running',
+      triggered_by: 'admin-1'
+    }))
+    expect(insert).toHaveBeenNthCalledWith(2, {
+      run_id: runId,
+      source: 'weather',
+      target_date: '2025-09-01',
+      status: 'failure',
+      records_processed: 0,
+      records_inserted: 0,
+      records_updated: 0,
+      records_unchanged: 0,
+      records_failed: 0,
+      row_errors: null,
+      attempts: 3,
+      duration_ms: 14000,
+      error: 'HTTP 503'
+    })
+    expect(rpc).toHaveBeenCalledWith('finish_etl_run', { p_run_id: runId, p_error: null })
+  })
+
+  it('should record the write counts and the first row errors', async () => {
+    const recorder = new EtlRunRecorder(supabase)
+    const rowErrors = Array.from({ length: 25 }, (_, index) => ({
+      index,
+      code: '22P02',
+      message: 'invalid input syntax',
+      record: { date: '2025-09-01', title: `Event ${index}` }
+    }))
+
+    await recorder.recordSource('run-1', {
+      source: 'events',
+      success: true,
+      recordsProcessed: 75,
+      duration: 120,
+      inserted: 40,
+      updated: 5,
+      unchanged: 30,
+      rowErrors
+    })
+
+    expect(insert).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      records_processed: 75,
+      records_inserted: 40,
+      records_updated: 5,
+      records_unchanged: 30,
+      records_failed: 25,
+      row_errors: rowErrors.slice(0, 20).map(({ index, code, message }) => ({ index, code, message }))
+    }))
+  })
+
+  it('should quarantine every rejected record with its reason and run id', async () => {
+    const recorder = new EtlRunRecorder(supabase)
+    const record = { date: '2025-09-01', pair: 'USD/JPY', rate: -147.12, change_percent: null }
+
+    await recorder.recordSource('run-1', {
+      source: 'fx_rates',
+      success: true,
+      recordsProcessed: 2,
+      duration: 40,
+      rowErrors: [{ index: 1, code: 'invalid_record', message: 'rate: 0 以下です', record }]
+    }, '2025-09-01')
+
+    expect(supabase.from).toHaveBeenNthCalledWith(2, 'etl_quarantine')
+    expect(insert).toHaveBeenNthCalledWith(2, [{
+      run_id: 'run-1',
+      source: 'fx_rates',
+      target_date: '2025-09-01',
+      record,
+      error_code: 'invalid_record',
+      reason: 'rate: 0 以下です'
+    }])
+  })
+
+  it('should not interrupt the ETL when the history cannot be written', async () => {
+    insert.mockResolvedValueOnce({ error: { code: '42501', message: 'permission denied' } })
+    const recorder = new EtlRunRecorder(supabase)
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const runId = await recorder.start({ trigger: 'schedule' })
+    await recorder.recordSource(runId, { source: 'fx_rates', success: true, recordsProcessed: 3, duration: 10 })
+    await recorder.finish(runId)
+
+    expect(runId).toBeNull()
+    expect(insert).toHaveBeenCalledTimes(1)
+    expect(rpc).not.toHaveBeenCalled()
+  })
+})
+
+describe('parseEtlRunsQuery', () => {
+  it('should fall back to defaults for invalid values', () => {
+    expect(parseEtlRunsQuery(new URLSearchParams('trigger=backfill&status=failure&limit=1000&offset=-1'))).toEqual({
+      trigger: 'backfill',
+      status: 'failure',
+      startDate: null,
+      endDate: null,
+      limit: 200,
+      offset: 0
+    })
+    expect(parseEtlRunsQuery(new URLSearchParams('trigger=cron')).trigger).toBeNull()
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * ETL 一括書き込み ユニットテスト
+ * @jest-environment node
+ */
+
+import { ETLService, ETL_UPSERT_CHUNK_SIZE } from '@/lib/services/etl'
+import type { DataSource } from '@/lib/services/data-sources'
+import { sloMonitor } from '@/lib/monitoring/slo-monitor'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+
+jest.mock('@/lib/supabase/server', () => ({ createClient: jest.fn(), createServiceRoleClient: jest.fn() }))
+
+const mockCreateServiceRoleClient = createServiceRoleClient as jest.MockedFunction<typeof createServiceRoleClient>
+
+function weatherRecords(count: number) {
+  return Array.from({ length: count }, (_, index) => ({
+    date: '2025-09-01',
+    location: `Location ${index}`,
+    temperature_max: 30,
+    temperature_min: 22,
+    precipitation_mm: 0,
+    humidity_percent: 60,
+    weather_condition: 'sunny'
+  }))
+}
+
+describe('ETLService writes', () => {
+  let rpc: jest.Mock
+  let insert: jest.Mock
+  let supabase: any
+  let serviceRpc: jest.Mock
+  let dataSource: jest.Mocked<DataSource>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    insert = jest.fn().mockResolvedValue({ error: null })
+    rpc = jest.fn(async (name: string, args: { p_records?: unknown[] }) => {
+      if (name !== 'etl_upsert_records') return { data: null, error: null }
+      return { data: { inserted: args.p_records!.length, updated: 0, unchanged: 0, errors: [] }, error: null }
+    })
+    supabase = { from: jest.fn(() => ({ insert })), rpc }
+    serviceRpc = jest.fn().mockResolvedValue({ data: null, error: null })
+    mockCreateServiceRoleClient.mockReturnValue({ rpc: serviceRpc } as any)
+    dataSource = {
+      fetchMarketData: jest.fn().mockResolvedValue([]),
+      fetchFXRates: jest.fn().mockResolvedValue([]),
+      fetchWeatherData: jest.fn().mockResolvedValue([]),
+      fetchEventsData: jest.fn().mockResolvedValue([]),
+      fetchSTEMNews: jest.fn().mockResolvedValue([]),
+      fetchInboundData: jest.fn().mockResolvedValue([])
+    } as unknown as jest.Mocked<DataSource>
+  })
+
+  it('should write records in chunks and report counts and row errors', async () => {
+    const records = weatherRecords(ETL_UPSERT_CHUNK_SIZE + 2)
+    dataSource.fetchWeatherData.mockResolvedValue(records)
+    rpc
+      .mockResolvedValueOnce({
+        data: { inserted: 300, updated: 100, unchanged: ETL_UPSERT_CHUNK_SIZE - 401, errors: [{ index: 7, code: '22P02', message: 'invalid input syntax' }] },
+        error: null
+      })
+      .mockResolvedValueOnce({
+        data: { inserted: 0, updated: 1, unchanged: 0, errors: [{ index: 1, code: '23502', message: 'null value in column "date"' }] },
+        error: null
+      })
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const result = await new ETLService(Promise.resolve(supabase), dataSource).runSource('weather', '2025-09-01')
+
+    expect(rpc).toHaveBeenCalledTimes(2)
+    expect(rpc).toHaveBeenNthCalledWith(1, 'etl_upsert_records', { p_source: 'weather', p_records: records.slice(0, ETL_UPSERT_CHUNK_SIZE) })
+    expect(rpc).toHaveBeenNthCalledWith(2, 'etl_upsert_records', { p_source: 'weather', p_records: records.slice(ETL_UPSERT_CHUNK_SIZE) })
+    expect(result).toEqual(expect.objectContaining({
+      success: true,
+      recordsProcessed: ETL_UPSERT_CHUNK_SIZE,
+      inserted: 300,
+      updated: 101,
+      unchanged: ETL_UPSERT_CHUNK_SIZE - 401,
+      attempts: 1
+    }))
+    expect(result.rowErrors!.map(error => error.index)).toEqual([7, ETL_UPSERT_CHUNK_SIZE + 1])
+  })
+
+  it('should fail without retrying when every record is rejected', async () => {
+    dataSource.fetchFXRates.mockResolvedValue([{ date: '2025-09-01', pair: 'USD/JPY', rate: 147.12, change_percent: null }])
+    rpc.mockResolvedValueOnce({
+      data: { inserted: 0, updated: 0, unchanged: 0, errors: [{ index: 0, code: '23514', message: 'new row violates check constraint' }] },
+      error: null
+    })
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const result = await new ETLService(supabase, dataSource).runSource('fx_rates')
+
+    expect(result.success).toBe(false)
+    expect(result.attempts).toBe(1)
+    expect(result.error).toBe('All 1 records were rejected: new row violates check constraint')
+    expect(result.rowErrors).toHaveLength(1)
+  })
+
+  it('should keep records failing the source schema out of the upsert', async () => {
+    const records = weatherRecords(3)
+    records[1] = { ...records[1], humidity_percent: 180 }
+    dataSource.fetchWeatherData.mockResolvedValue(records)
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const result = await new ETLService(supabase, dataSource).runSource('weather')
+
+    expect(rpc).toHaveBeenCalledWith('etl_upsert_records', { p_source: 'weather', p_records: [records[0], records[2]] })
+    expect(result.success).toBe(true)
+    expect(result.inserted).toBe(2)
+    expect(result.rowErrors).toEqual([{
+      index: 1,
+      code: 'invalid_record',
+      message: 'humidity_percent: 100 を超えています',
+      record: records[1]
+    }])
+  })
+
+  it('should measure the full run against the ETL completion SLO', async () => {
+    dataSource.fetchWeatherData.mockResolvedValue(weatherRecords(3))
+    const recordMetric = jest.spyOn(sloMonitor, 'recordMetric')
+
+    const results = await new ETLService(supabase, dataSource).runFullETL({ trigger: 'manual' })
+
+    expect(results.successCount).toBe(6)
+    expect(results.slo).toEqual({ targetSeconds: 600, durationSeconds: results.totalDuration / 1000, met: true })
+    expect(recordMetric).toHaveBeenCalledWith('etl_completion_time', results.totalDuration / 1000, {
+      run_id: results.runId,
+      trigger: 'manual'
+    })
+    expect(rpc).not.toHaveBeenCalledWith('refresh_daily_sales_summary')
+    expect(serviceRpc).toHaveBeenCalledWith('refresh_daily_sales_summary')
+  })
+
+  it('should preview inserts, updates and unchanged rows without writing', async () => {
+    const records = weatherRecords(3)
+    dataSource.fetchSource = jest.fn().mockResolvedValue(records)
+    const query: any = {
+      select: jest.fn(() => query),
+      in: jest.fn().mockResolvedValue({
+        data: [
+          { ...records[0], precipitation_mm: '0.0' },
+          { ...records[1], weather_condition: 'cloudy' }
+        ],
+        error: null
+      })
+    }
+    supabase.from.mockReturnValue(query)
+
+    const preview = await new ETLService(supabase, dataSource).previewSource('weather', '2025-09-01')
+
+    expect(supabase.from).toHaveBeenCalledWith('ext_weather_daily')
+    expect(query.in).toHaveBeenCalledWith('date', ['2025-09-01'])
+    expect(preview).toEqual({ source: 'weather', recordsFetched: 3, wouldInsert: 1, wouldUpdate: 1, wouldUnchanged: 1 })
+    expect(rpc).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,84 @@
+import {
+  applyLikeForLikeScope,
+  buildLikeForLikeScope,
+  findOverlappingClosure,
+  getLikeForLikeWindow,
+  isStoreClosureReason,
+  isStoreComparable,
+  isStoreType,
+} from '@/lib/store-lifecycle';
+
+describe('Store lifecycle', () => {
+  const range = { start: '2025-08-01', end: '2025-08-31' };
+  // 前年同期（364日前）の開始日から表示期間の終了日まで
+  const window = { start: '2024-08-02', end: '2025-08-31' };
+
+  it('should check from the earliest comparison start to the end of the range', () => {
+    expect(getLikeForLikeWindow(range)).toEqual(window);
+  });
+
+  it('should treat stores without an opening date as comparable', () => {
+    expect(isStoreComparable({ opened_on: null, closed_on: null }, [], window)).toBe(true);
+  });
+
+  it('should exclude stores opened after the window starts', () => {
+    expect(isStoreComparable({ opened_on: '2024-08-02', closed_on: null }, [], window)).toBe(true);
+    expect(isStoreComparable({ opened_on: '2024-08-03', closed_on: null }, [], window)).toBe(false);
+  });
+
+  it('should exclude stores closed on or before the end of the window', () => {
+    expect(isStoreComparable({ opened_on: null, closed_on: '2025-09-01' }, [], window)).toBe(true);
+    expect(isStoreComparable({ opened_on: null, closed_on: '2025-08-31' }, [], window)).toBe(false);
+  });
+
+  it('should exclude stores with a closure period overlapping the window', () => {
+    const store = { opened_on: '2010-04-01', closed_on: null };
+
+    expect(isStoreComparable(store, [{ start_date: '2024-07-01', end_date: '2024-08-01' }], window)).toBe(true);
+    expect(isStoreComparable(store, [{ start_date: '2024-07-01', end_date: '2024-08-02' }], window)).toBe(false);
+    expect(isStoreComparable(store, [{ start_date: '2025-02-10', end_date: '2025-02-20' }], window)).toBe(false);
+  });
+
+  it('should split the selected stores into comparable and excluded', () => {
+    const stores = [
+      { id: 'store-1', opened_on: '2010-04-01', closed_on: null },
+      { id: 'store-2', opened_on: '2025-03-01', closed_on: null },
+      { id: 'store-3', opened_on: null, closed_on: null },
+      { id: 'store-4', opened_on: null, closed_on: null },
+    ];
+    const closures = [{ store_id: 'store-3', start_date: '2025-01-10', end_date: '2025-02-10' }];
+
+    expect(buildLikeForLikeScope(stores, closures, range)).toEqual({
+      window,
+      storeIds: ['store-1', 'store-4'],
+      excludedStoreIds: ['store-2', 'store-3'],
+    });
+    expect(buildLikeForLikeScope(stores, closures, range, ['store-1', 'store-2'])).toEqual({
+      window,
+      storeIds: ['store-1'],
+      excludedStoreIds: ['store-2'],
+    });
+  });
+
+  it('should narrow the filters to comparable stores only in like-for-like mode', () => {
+    const filters = { dateRange: range, likeForLike: true };
+    const scope = { window, storeIds: ['store-1'], excludedStoreIds: ['store-2'] };
+
+    expect(applyLikeForLikeScope(filters, scope)).toEqual({ ...filters, storeIds: ['store-1'] });
+    expect(applyLikeForLikeScope(filters, null)).toBe(filters);
+  });
+
+  it('should find overlapping closure periods including boundary days', () => {
+    const closures = [{ start_date: '2025-01-10', end_date: '2025-02-10' }];
+
+    expect(findOverlappingClosure(closures, { start_date: '2025-02-10', end_date: '2025-02-20' })).toBe(closures[0]);
+    expect(findOverlappingClosure(closures, { start_date: '2025-02-11', end_date: '2025-02-20' })).toBeNull();
+  });
+
+  it('should validate store types and closure reasons', () => {
+    expect(isStoreType('outlet')).toBe(true);
+    expect(isStoreType('warehouse')).toBe(false);
+    expect(isStoreClosureReason('renovation')).toBe(true);
+    expect(isStoreClosureReason('')).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  SalesTarget,
+  buildDailyTargets,
+  buildMonthToDatePacing,
+  selectScopedTargets,
+  summarizeTargetAchievement,
+} from '@/lib/targets';
+
+const target = (overrides: Partial<SalesTarget>): SalesTarget => ({
+  id: 'target',
+  period_type: 'monthly',
+  target_date: '2025-09-01',
+  store_id: 'store-1',
+  department: null,
+  product_category: null,
+  revenue_target: null,
+  footfall_target: null,
+  created_by: null,
+  updated_by: null,
+  created_at: '2025-08-25T00:00:00Z',
+  updated_at: '2025-08-25T00:00:00Z',
+  ...overrides,
+});
+
+describe('Sales targets', () => {
+  const targets = [
+    target({ id: 'store-1-total', revenue_target: 3000000, footfall_target: 3000 }),
+    target({ id: 'store-1-food', department: 'food', revenue_target: 1200000 }),
+    target({ id: 'store-1-books', department: 'books', revenue_target: 600000 }),
+    target({ id: 'store-2-food', store_id: 'store-2', department: 'food', revenue_target: 900000 }),
+    target({ id: 'store-1-daily', period_type: 'daily', target_date: '2025-09-15', revenue_target: 250000 }),
+  ];
+
+  describe('selectScopedTargets', () => {
+    it('should use the coarsest level per store to avoid double counting', () => {
+      const ids = selectScopedTargets(targets.filter(t => t.period_type === 'monthly')).map(t => t.id);
+      expect(ids).toEqual(['store-1-total', 'store-2-food']);
+    });
+
+    it('should exclude "all" targets when filtering by department', () => {
+      const ids = selectScopedTargets(targets, { departments: ['food'] }).map(t => t.id);
+      expect(ids).toEqual(['store-1-food', 'store-2-food']);
+    });
+  });
+
+  describe('buildDailyTargets', () => {
+    it('should prorate monthly targets and prefer daily targets', () => {
+      const daily = buildDailyTargets(targets, { start: '2025-09-14', end: '2025-09-15' }, { storeIds: ['store-1'] });
+
+      expect(daily).toEqual([
+        { date: '2025-09-14', revenue: 100000, footfall: 100 },
+        { date: '2025-09-15', revenue: 250000, footfall: 100 },
+      ]);
+    });
+
+    it('should return null when no target is registered', () => {
+      const daily = buildDailyTargets(targets, { start: '2025-10-01', end: '2025-10-01' });
+      expect(daily).toEqual([{ date: '2025-10-01', revenue: null, footfall: null }]);
+    });
+  });
+
+  describe('summarizeTargetAchievement', () => {
+    it('should compute achievement, remaining and pace to date', () => {
+      const daily = buildDailyTargets(targets, { start: '2025-09-01', end: '2025-09-30' }, { storeIds: ['store-1'] });
+      const summary = summarizeTargetAchievement(daily, 'revenue', 1500000, '2025-09-10');
+
+      expect(summary.target).toBeCloseTo(3150000);
+      expect(summary.targetToDate).toBeCloseTo(1000000);
+      expect(summary.achievementRate).toBeCloseTo(47.62, 1);
+      expect(summary.pacingRate).toBeCloseTo(150);
+      expect(summary.remaining).toBeCloseTo(1650000);
+    });
+
+    it('should return nulls without targets', () => {
+      const summary = summarizeTargetAchievement([], 'revenue', 1000, '2025-09-10');
+      expect(summary).toEqual(expect.objectContaining({ target: null, achievementRate: null, remaining: null }));
+    });
+  });
+
+  describe('buildMonthToDatePacing', () => {
+    it('should accumulate actuals and targets and reset at month start', () => {
+      const pacing = buildMonthToDatePacing(
+        [
+          { date: '2025-08-31', value: 500 },
+          { date: '2025-09-01', value: 100 },
+          { date: '2025-09-01', value: 50 },
+          { date: '2025-09-02', value: 200 },
+        ],
+        [
+          { date: '2025-09-01', revenue: 100, footfall: null },
+          { date: '2025-09-02', revenue: 100, footfall: null },
+        ],
+        'revenue'
+      );
+
+      expect(pacing.map(({ date, cumulativeActual, cumulativeTarget }) => [date, cumulativeActual, cumulativeTarget]))
+        .toEqual([
+          ['2025-08-31', 500, null],
+          ['2025-09-01', 150, 100],
+          ['2025-09-02', 350, 200],
+        ]);
+      expect(pacing[2].pacingRate).toBeCloseTo(175);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  TaxRule,
+  calculateSalesTax,
+  calculateTax,
+  findApplicableTaxRule,
+  findOverlappingTaxRule,
+  formatTaxRate,
+} from '@/lib/tax';
+
+const rule = (overrides: Partial<TaxRule>): TaxRule => ({
+  id: 'rule',
+  department: null,
+  product_category: null,
+  rate: 0.1,
+  valid_from: '2019-10-01',
+  valid_to: null,
+  description: null,
+  created_by: null,
+  created_at: '2025-08-24T00:00:00Z',
+  updated_at: '2025-08-24T00:00:00Z',
+  ...overrides,
+});
+
+describe('Tax calculation', () => {
+  const rules = [
+    rule({ id: 'old-standard', rate: 0.08, valid_from: '2014-04-01', valid_to: '2019-09-30' }),
+    rule({ id: 'standard', rate: 0.1 }),
+    rule({ id: 'food', department: 'food', rate: 0.08 }),
+    rule({ id: 'food-premium', department: 'food', product_category: 'premium', rate: 0.1, valid_to: '2025-12-31' }),
+  ];
+
+  describe('findApplicableTaxRule', () => {
+    it('should apply the standard rate when no specific rule matches', () => {
+      expect(findApplicableTaxRule(rules, { date: '2025-08-01', department: 'electronics', product_category: 'standard' })?.id)
+        .toBe('standard');
+    });
+
+    it('should prefer the most specific rule', () => {
+      expect(findApplicableTaxRule(rules, { date: '2025-08-01', department: 'food', product_category: 'standard' })?.id)
+        .toBe('food');
+      expect(findApplicableTaxRule(rules, { date: '2025-08-01', department: 'food', product_category: 'premium' })?.id)
+        .toBe('food-premium');
+    });
+
+    it('should respect valid_from / valid_to (inclusive)', () => {
+      expect(findApplicableTaxRule(rules, { date: '2019-09-30', department: 'electronics' })?.id).toBe('old-standard');
+      expect(findApplicableTaxRule(rules, { date: '2019-10-01', department: 'electronics' })?.id).toBe('standard');
+      expect(findApplicableTaxRule(rules, { date: '2026-01-01', department: 'food', product_category: 'premium' })?.id)
+        .toBe('food');
+    });
+
+    it('should return null when no rule is effective', () => {
+      expect(findApplicableTaxRule(rules, { date: '2010-01-01' })).toBeNull();
+    });
+  });
+
+  describe('calculateSalesTax', () => {
+    it('should round tax to the nearest yen and return the applied rate', () => {
+      expect(calculateSalesTax(rules, { date: '2025-08-01', department: 'food', revenue_ex_tax: 12345 }))
+        .toEqual({ tax: 988, tax_rate: 0.08, rule_id: 'food' });
+      expect(calculateTax(12345, 0.1)).toBe(1235);
+    });
+  });
+
+  describe('findOverlappingTaxRule', () => {
+    it('should detect overlapping periods for the same scope only', () => {
+      expect(findOverlappingTaxRule(rules, { department: 'food', product_category: null, valid_from: '2026-04-01', valid_to: null })?.id)
+        .toBe('food');
+      expect(findOverlappingTaxRule(rules, { department: 'food', product_category: 'premium', valid_from: '2026-01-01', valid_to: null }))
+        .toBeNull();
+      expect(findOverlappingTaxRule(rules, { department: 'food', product_category: null, valid_from: '2019-10-01', valid_to: null }, 'food'))
+        .toBeNull();
+    });
+  });
+
+  describe('formatTaxRate', () => {
+    it('should format fractions as percentages', () => {
+      expect(formatTaxRate(0.08)).toBe('8%');
+      expect(formatTaxRate(0.1)).toBe('10%');
+      expect(formatTaxRate(null)).toBe('-');
+    });
+  });
+});
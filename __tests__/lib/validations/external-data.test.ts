@@ -0,0 +1,66 @@
+import { validateExternalRecord } from '@/lib/validations/external-data';
+import { SOURCE_TYPES } from '@/lib/services/data-source-adapters';
+
+describe('External Data Validation', () => {
+  const validRecords = {
+    market_index: { date: '2025-09-01', symbol: 'TOPIX', value: 3075.48, change_percent: 0.42 },
+    fx_rates: { date: '2025-09-01', pair: 'USD/JPY', rate: 147.12, change_percent: null },
+    weather: {
+      date: '2025-09-01',
+      location: 'Sapporo',
+      temperature_max: 26.3,
+      temperature_min: 18.4,
+      precipitation_mm: null,
+      humidity_percent: 70,
+      weather_condition: 'cloudy',
+    },
+    events: {
+      date: '2025-09-01',
+      title: '丸の内 夏祭り',
+      location: null,
+      lat: 35.6812,
+      lng: 139.7671,
+      event_type: 'festival',
+      expected_attendance: 8000,
+      notes: null,
+    },
+    stem_news: {
+      published_date: '2025-09-01',
+      title: '生成AIの業務活用が小売で拡大',
+      source: 'ITmedia',
+      category: 'AI',
+      url: 'https://example.com/news/ai-0901',
+      summary: null,
+      sentiment_score: 0.4,
+    },
+    inbound: { year_month: '2025-09', country: 'China', visitors: 82150, change_percent: 12.4, prefecture: null },
+  };
+
+  it('should accept valid records of every source', () => {
+    SOURCE_TYPES.forEach(source => {
+      expect(validateExternalRecord(source, validRecords[source])).toBeNull();
+    });
+  });
+
+  it('should reject out-of-range values with the field in the reason', () => {
+    expect(validateExternalRecord('fx_rates', { ...validRecords.fx_rates, rate: -147.12 })).toBe('rate: 0 以下です');
+    expect(validateExternalRecord('weather', { ...validRecords.weather, humidity_percent: 180 })).toBe('humidity_percent: 100 を超えています');
+    expect(validateExternalRecord('stem_news', { ...validRecords.stem_news, sentiment_score: 1.5 })).toBe('sentiment_score: 1 を超えています');
+  });
+
+  it('should reject malformed dates and months', () => {
+    expect(validateExternalRecord('market_index', { ...validRecords.market_index, date: '2025-02-30' })).toBe('date: 存在しない日付です');
+    expect(validateExternalRecord('events', { ...validRecords.events, date: '09/01/2025' })).toBe('date: 日付がYYYY-MM-DD形式ではありません');
+    expect(validateExternalRecord('inbound', { ...validRecords.inbound, year_month: '2025-13' })).toBe('year_month: 年月がYYYY-MM形式ではありません');
+  });
+
+  it('should reject missing values, non-numbers and inconsistent temperatures', () => {
+    expect(validateExternalRecord('market_index', { ...validRecords.market_index, value: NaN })).toBe('value: 数値ではありません');
+    expect(validateExternalRecord('inbound', { ...validRecords.inbound, visitors: 1.5, country: '' })).toBe(
+      'country: 空の値です, visitors: 整数ではありません'
+    );
+    expect(validateExternalRecord('weather', { ...validRecords.weather, temperature_min: 30 })).toBe(
+      'temperature_min: 最低気温が最高気温を上回っています'
+    );
+  });
+});
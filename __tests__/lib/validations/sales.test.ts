@@ -1,6 +1,8 @@
 import { 
   validateSalesForm, 
   validateField, 
+  validateSalesBatch,
+  SALES_BATCH_MAX_CELLS,
   formatDate, 
   getTodayString,
   formatCurrency,
@@ -27,6 +29,19 @@ describe('Sales Validation', () => {
       expect(errors).toHaveLength(0);
     });
 
+    it('should accept known channels and treat an omitted channel as valid', () => {
+      expect(validateSalesForm({ ...validFormData, channel: 'ec' })).toHaveLength(0);
+      expect(validateSalesForm({ ...validFormData, channel: undefined })).toHaveLength(0);
+    });
+
+    it('should reject unknown channels', () => {
+      const data = { ...validFormData, channel: 'wholesale' } as unknown as SalesInputForm;
+      const errors = validateSalesForm(data);
+      expect(errors).toEqual([
+        expect.objectContaining({ field: 'channel', code: 'INVALID_OPTION' }),
+      ]);
+    });
+
     it('should require date field', () => {
       const data = { ...validFormData, date: '' };
       const errors = validateSalesForm(data);
@@ -204,6 +219,51 @@ describe('Sales Validation', () => {
     });
   });
 
+  describe('validateSalesBatch', () => {
+    const cell = {
+      date: '2025-08-19',
+      department: 'food',
+      product_category: 'fresh',
+      revenue_ex_tax: 120000,
+    };
+
+    it('should accept valid cells', () => {
+      expect(validateSalesBatch({ store_id: 'store-1', cells: [cell] })).toHaveLength(0);
+    });
+
+    it('should require a store and at least one cell', () => {
+      const errors = validateSalesBatch({ cells: [] });
+      expect(errors.map(error => error.field)).toEqual(['store_id', 'cells']);
+    });
+
+    it('should reject an unknown grid channel', () => {
+      const errors = validateSalesBatch({ store_id: 'store-1', channel: 'wholesale' as never, cells: [cell] });
+      expect(errors).toEqual([expect.objectContaining({ field: 'channel', code: 'INVALID_OPTION' })]);
+    });
+
+    it('should reject too many cells', () => {
+      const cells = Array.from({ length: SALES_BATCH_MAX_CELLS + 1 }, () => cell);
+      const errors = validateSalesBatch({ store_id: 'store-1', cells });
+      expect(errors).toEqual([expect.objectContaining({ field: 'cells', code: 'MAX_VALUE' })]);
+    });
+
+    it('should attach the cell location to field errors and flag duplicates', () => {
+      const errors = validateSalesBatch({
+        store_id: 'store-1',
+        cells: [
+          { ...cell, revenue_ex_tax: -1 },
+          { ...cell, date: '2025-08-20' },
+          { ...cell, date: '2025-08-20', revenue_ex_tax: 5000 },
+        ],
+      });
+
+      expect(errors).toEqual([
+        expect.objectContaining({ field: 'revenue_ex_tax', code: 'MIN_VALUE', date: '2025-08-19', department: 'food' }),
+        expect.objectContaining({ field: 'cells', code: 'DUPLICATE', date: '2025-08-20' }),
+      ]);
+    });
+  });
+
   describe('Utility functions', () => {
     describe('formatDate', () => {
       it('should format date correctly', () => {
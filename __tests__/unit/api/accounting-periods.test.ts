@@ -0,0 +1,163 @@
+/**
+ * 月次締め API テスト
+ * /api/accounting-periods, /api/accounting-periods/[id]
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/accounting-periods/route';
+import { DELETE } from '@/app/api/accounting-periods/[id]/route';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/services/audit', () => ({
+  AuditService: {
+    log: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const mockAuditLog = AuditService.log as jest.MockedFunction<typeof AuditService.log>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any }) {
+  const builder: any = {};
+  ['select', 'eq', 'gte', 'lte', 'order', 'insert', 'delete'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+describe('/api/accounting-periods', () => {
+  const storeClose = {
+    id: 'close-1',
+    period: '2025-07-01',
+    store_id: 'store-1',
+    note: null,
+    closed_by: 'admin-1',
+    closed_at: '2025-08-05T00:00:00Z',
+  };
+
+  let builders: any[];
+  let mockSupabase: any;
+
+  const profile = (role: string) => createQueryBuilder({ data: { role, is_active: true }, error: null });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'admin-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+  });
+
+  describe('POST', () => {
+    const postRequest = (body: Record<string, unknown>) =>
+      new NextRequest('http://localhost:3000/api/accounting-periods', {
+        method: 'POST',
+        body: JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+    it('should close a month for a store and write an audit entry', async () => {
+      const closesBuilder = createQueryBuilder({ data: [], error: null });
+      const insertBuilder = createQueryBuilder({ data: storeClose, error: null });
+      builders.push(profile('admin'), closesBuilder, insertBuilder);
+
+      const response = await POST(postRequest({ period: '2025-07', store_id: 'store-1' }));
+      const body = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(body.message).toBe('2025年7月を締めました');
+      expect(closesBuilder.gte).toHaveBeenCalledWith('period', '2025-07-01');
+      expect(insertBuilder.insert).toHaveBeenCalledWith([
+        expect.objectContaining({ period: '2025-07-01', store_id: 'store-1', closed_by: 'admin-1' }),
+      ]);
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'close_period',
+        target: 'accounting_period_closes:close-1',
+        actor_id: 'admin-1',
+      }));
+    });
+
+    it('should return 409 when the month is already closed for all stores', async () => {
+      builders.push(
+        profile('admin'),
+        createQueryBuilder({ data: [{ ...storeClose, id: 'close-global', store_id: null }], error: null })
+      );
+
+      const response = await POST(postRequest({ period: '2025-07', store_id: 'store-1' }));
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.data.id).toBe('close-global');
+      expect(mockAuditLog).not.toHaveBeenCalled();
+    });
+
+    it('should reject future months', async () => {
+      builders.push(profile('admin'));
+
+      const response = await POST(postRequest({ period: '2999-01' }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.data[0]).toEqual(expect.objectContaining({ field: 'period', code: 'FUTURE_DATE' }));
+    });
+
+    it('should return 403 for non-admin users', async () => {
+      builders.push(profile('manager'));
+
+      const response = await POST(postRequest({ period: '2025-07' }));
+
+      expect(response.status).toBe(403);
+      expect(mockAuditLog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE', () => {
+    const deleteRequest = (query = '') =>
+      new NextRequest(`http://localhost:3000/api/accounting-periods/close-1${query}`, { method: 'DELETE' });
+    const context = { params: Promise.resolve({ id: 'close-1' }) };
+
+    it('should reopen the month and audit the reason', async () => {
+      const deleteBuilder = createQueryBuilder({ data: null, error: null });
+      builders.push(profile('admin'), createQueryBuilder({ data: storeClose, error: null }), deleteBuilder);
+
+      const response = await DELETE(deleteRequest(`?reason=${encodeURIComponent('修正申請のため')}`), context);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.message).toBe('2025年7月の締めを解除しました');
+      expect(deleteBuilder.eq).toHaveBeenCalledWith('id', 'close-1');
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'reopen_period',
+        target: 'accounting_period_closes:close-1',
+        meta: { before: storeClose, reason: '修正申請のため' },
+      }));
+    });
+
+    it('should return 404 when the close does not exist', async () => {
+      builders.push(profile('admin'), createQueryBuilder({ data: null, error: { code: 'PGRST116' } }));
+
+      const response = await DELETE(deleteRequest(), context);
+
+      expect(response.status).toBe(404);
+      expect(mockAuditLog).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for non-admin users', async () => {
+      builders.push(profile('manager'));
+
+      const response = await DELETE(deleteRequest(), context);
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * キャンペーン API テスト
+ * /api/campaigns, /api/campaigns/[id], /api/campaigns/[id]/uplift
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/campaigns/route';
+import { PATCH } from '@/app/api/campaigns/[id]/route';
+import { GET as GET_UPLIFT } from '@/app/api/campaigns/[id]/uplift/route';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/services/audit', () => ({
+  AuditService: {
+    log: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const mockAuditLog = AuditService.log as jest.MockedFunction<typeof AuditService.log>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any }) {
+  const builder: any = {};
+  ['select', 'eq', 'in', 'gte', 'lte', 'or', 'order', 'range', 'insert', 'update', 'delete'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+describe('/api/campaigns', () => {
+  const pointUpDay = {
+    id: 'campaign-1',
+    name: 'ポイント5倍デー',
+    campaign_type: 'point_up',
+    start_date: '2025-09-06',
+    end_date: '2025-09-06',
+    store_ids: ['store-1'],
+    departments: [],
+    discount_rate: 5,
+    notes: null,
+    updated_at: '2025-09-01T00:00:00.000000+00:00',
+  };
+
+  let builders: any[];
+  let mockSupabase: any;
+
+  const jsonRequest = (url: string, method: string, body: Record<string, unknown>) =>
+    new NextRequest(url, {
+      method,
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const profile = (role: string) => createQueryBuilder({ data: { role, is_active: true }, error: null });
+  const routeContext = (id: string) => ({ params: Promise.resolve({ id }) });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'admin-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+  });
+
+  describe('POST', () => {
+    const newCampaign = {
+      name: 'ポイント5倍デー',
+      campaign_type: 'point_up',
+      start_date: '2025-09-06',
+      end_date: '2025-09-06',
+      store_ids: ['store-1'],
+      departments: [],
+      discount_rate: 5,
+    };
+
+    it('should create a campaign and write an audit entry', async () => {
+      const insertBuilder = createQueryBuilder({ data: pointUpDay, error: null });
+      builders.push(profile('admin'), insertBuilder);
+
+      const response = await POST(jsonRequest('http://localhost:3000/api/campaigns', 'POST', newCampaign));
+
+      expect(response.status).toBe(201);
+      expect(insertBuilder.insert).toHaveBeenCalledWith([expect.objectContaining({
+        name: 'ポイント5倍デー',
+        store_ids: ['store-1'],
+        departments: [],
+        created_by: 'admin-1',
+      })]);
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'create_campaign',
+        target: 'campaigns:campaign-1',
+      }));
+    });
+
+    it('should reject non-admin users', async () => {
+      builders.push(profile('manager'));
+
+      const response = await POST(jsonRequest('http://localhost:3000/api/campaigns', 'POST', newCampaign));
+
+      expect(response.status).toBe(403);
+      expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an end date before the start date', async () => {
+      builders.push(profile('admin'));
+
+      const response = await POST(jsonRequest('http://localhost:3000/api/campaigns', 'POST', {
+        ...newCampaign,
+        end_date: '2025-09-05',
+      }));
+      const result = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(result.data).toEqual([expect.objectContaining({ field: 'end_date', code: 'INCONSISTENT_DATA' })]);
+    });
+  });
+
+  describe('PATCH', () => {
+    it('should return 409 when the campaign was updated by someone else', async () => {
+      builders.push(
+        profile('admin'),
+        createQueryBuilder({ data: { ...pointUpDay, updated_at: '2025-09-02T00:00:00.000000+00:00' }, error: null })
+      );
+
+      const response = await PATCH(
+        jsonRequest('http://localhost:3000/api/campaigns/campaign-1', 'PATCH', {
+          discount_rate: 10,
+          updated_at: pointUpDay.updated_at,
+        }),
+        routeContext('campaign-1')
+      );
+
+      expect(response.status).toBe(409);
+      expect(mockAuditLog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET uplift', () => {
+    it('should compare campaign sales with the same weekday baseline', async () => {
+      const salesBuilder = createQueryBuilder({
+        data: [
+          { date: '2025-09-06', revenue_ex_tax: 90000 },
+          { date: '2025-09-06', revenue_ex_tax: 60000 },
+          { date: '2025-08-30', revenue_ex_tax: 100000 },
+          { date: '2025-08-23', revenue_ex_tax: 100000 },
+        ],
+        error: null,
+      });
+      builders.push(
+        createQueryBuilder({ data: pointUpDay, error: null }),
+        salesBuilder,
+        createQueryBuilder({ data: [], error: null }),
+        createQueryBuilder({ data: [pointUpDay], error: null })
+      );
+
+      const response = await GET_UPLIFT(
+        new NextRequest('http://localhost:3000/api/campaigns/campaign-1/uplift'),
+        routeContext('campaign-1')
+      );
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(salesBuilder.in).toHaveBeenCalledWith('store_id', ['store-1']);
+      expect(salesBuilder.gte).toHaveBeenCalledWith('date', '2025-07-12');
+      expect(result.data).toEqual(expect.objectContaining({
+        actual: 150000,
+        baseline: 100000,
+        upliftAmount: 50000,
+      }));
+    });
+
+    it('should sum sales across pages beyond the 1000-row response limit', async () => {
+      const allStores = { ...pointUpDay, store_ids: [] };
+      const firstPage = createQueryBuilder({
+        data: Array.from({ length: 1000 }, () => ({ date: '2025-08-30', revenue_ex_tax: 100 })),
+        error: null,
+      });
+      const secondPage = createQueryBuilder({
+        data: [
+          { date: '2025-09-06', revenue_ex_tax: 150000 },
+          { date: '2025-08-23', revenue_ex_tax: 100000 },
+        ],
+        error: null,
+      });
+      builders.push(
+        createQueryBuilder({ data: allStores, error: null }),
+        firstPage,
+        createQueryBuilder({ data: [], error: null }),
+        createQueryBuilder({ data: [allStores], error: null }),
+        secondPage
+      );
+
+      const response = await GET_UPLIFT(
+        new NextRequest('http://localhost:3000/api/campaigns/campaign-1/uplift'),
+        routeContext('campaign-1')
+      );
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(firstPage.range).toHaveBeenCalledWith(0, 999);
+      expect(secondPage.range).toHaveBeenCalledWith(1000, 1999);
+      expect(firstPage.in).not.toHaveBeenCalledWith('store_id', expect.anything());
+      expect(result.data).toEqual(expect.objectContaining({
+        actual: 150000,
+        baseline: 100000,
+      }));
+    });
+
+    it('should return 404 for an unknown campaign', async () => {
+      builders.push(createQueryBuilder({ data: null, error: { code: 'PGRST116', message: 'not found' } }));
+
+      const response = await GET_UPLIFT(
+        new NextRequest('http://localhost:3000/api/campaigns/missing/uplift'),
+        routeContext('missing')
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * ETL バックフィル API テスト
+ * /api/etl/backfill
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/etl/backfill/route';
+import { createClient } from '@/lib/supabase/server';
+import { ETLBackfillService } from '@/lib/services/etl-backfill';
+import { AuditService } from '@/lib/services/audit';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/services/audit', () => ({
+  AuditService: { log: jest.fn().mockResolvedValue(undefined) },
+}));
+jest.mock('@/lib/services/etl-backfill', () => ({
+  ...jest.requireActual('@/lib/services/etl-backfill'),
+  ETLBackfillService: jest.fn(),
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const MockBackfillService = ETLBackfillService as jest.MockedClass<typeof ETLBackfillService>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any }) {
+  const builder: any = {};
+  ['select', 'eq', 'order'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.maybeSingle = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+function createRequest(body: unknown) {
+  return new NextRequest('http://localhost:3000/api/etl/backfill', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/etl/backfill', () => {
+  let builders: any[];
+  let mockSupabase: any;
+  let run: jest.Mock;
+
+  const adminProfile = () => createQueryBuilder({ data: { role: 'admin', is_active: true }, error: null });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'admin-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+
+    run = jest.fn().mockResolvedValue({
+      runId: 'run-3',
+      dryRun: false,
+      totalChunks: 4,
+      completedChunks: 3,
+      remainingChunks: 1,
+      timedOut: false,
+      sources: [{ source: 'weather', failedChunks: 1, recordsProcessed: 9, error: '2025-09-02: HTTP 503' }],
+    });
+    MockBackfillService.mockImplementation(() => ({ run }) as unknown as ETLBackfillService);
+  });
+
+  it('should backfill the requested sources and period', async () => {
+    builders.push(adminProfile());
+
+    const response = await POST(createRequest({
+      sources: ['weather', 'fx_rates'],
+      start_date: '2025-09-01',
+      end_date: '2025-09-02',
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(run).toHaveBeenCalledWith(
+      { sources: ['fx_rates', 'weather'], start_date: '2025-09-01', end_date: '2025-09-02', resume_of: null },
+      expect.objectContaining({ dryRun: false, triggeredBy: 'admin-1', deadline: expect.any(Number) })
+    );
+    expect(body.data.remainingChunks).toBe(1);
+    expect(body.message).toContain('resume_run_id');
+    expect(AuditService.log).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'etl_backfill',
+      actor_id: 'admin-1',
+    }));
+  });
+
+  it('should not write an audit log on dry run', async () => {
+    builders.push(adminProfile());
+
+    const response = await POST(createRequest({ start_date: '2025-09-01', end_date: '2025-09-01', dry_run: true }));
+
+    expect(response.status).toBe(200);
+    expect(run).toHaveBeenCalledWith(
+      expect.objectContaining({ sources: ['market_index', 'fx_rates', 'weather', 'events', 'stem_news', 'inbound'] }),
+      expect.objectContaining({ dryRun: true })
+    );
+    expect(AuditService.log).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid periods and sources', async () => {
+    builders.push(adminProfile());
+
+    const response = await POST(createRequest({ sources: ['stock'], start_date: '2025-09-10', end_date: '2025-09-01' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.data.map((error: any) => error.field)).toEqual(['sources', 'end_date']);
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should resume a backfill with the sources and period of the original run', async () => {
+    builders.push(
+      adminProfile(),
+      createQueryBuilder({
+        data: {
+          id: 'run-2',
+          trigger: 'backfill',
+          params: { sources: ['weather'], start_date: '2025-09-01', end_date: '2025-09-02', resume_of: 'run-1' },
+        },
+        error: null,
+      }),
+      createQueryBuilder({ data: [], error: null })
+    );
+
+    const response = await POST(createRequest({ resume_run_id: 'run-2' }));
+
+    expect(response.status).toBe(200);
+    expect(run).toHaveBeenCalledWith(
+      { sources: ['weather'], start_date: '2025-09-01', end_date: '2025-09-02', resume_of: 'run-2' },
+      expect.anything()
+    );
+  });
+
+  it('should return 404 when the run to resume does not exist', async () => {
+    builders.push(adminProfile(), createQueryBuilder({ data: null, error: null }));
+
+    const response = await POST(createRequest({ resume_run_id: 'missing' }));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should require an admin', async () => {
+    builders.push(createQueryBuilder({ data: { role: 'manager', is_active: true }, error: null }));
+
+    const response = await POST(createRequest({ start_date: '2025-09-01', end_date: '2025-09-01' }));
+
+    expect(response.status).toBe(403);
+    expect(run).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * 外部データ隔離レコード API テスト
+ * /api/etl/quarantine, /api/etl/quarantine/[id]
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/etl/quarantine/route';
+import { POST } from '@/app/api/etl/quarantine/[id]/route';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/services/audit', () => ({
+  AuditService: { log: jest.fn().mockResolvedValue(undefined) },
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any; count?: number }) {
+  const builder: any = {};
+  ['select', 'eq', 'order', 'range', 'update'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.maybeSingle = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+function createActionRequest(body: unknown) {
+  return new NextRequest('http://localhost:3000/api/etl/quarantine/q-1', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+const context = { params: Promise.resolve({ id: 'q-1' }) };
+
+describe('/api/etl/quarantine', () => {
+  const quarantined = {
+    id: 'q-1',
+    run_id: 'run-1',
+    source: 'weather',
+    target_date: '2025-09-01',
+    record: { date: '2025-09-01', location: 'Tokyo', humidity_percent: 180 },
+    error_code: 'invalid_record',
+    reason: 'humidity_percent: 100 を超えています',
+    status: 'quarantined',
+    created_at: '2025-09-01T21:00:10Z',
+    resolved_by: null,
+    resolved_at: null,
+  };
+
+  let builders: any[];
+  let mockSupabase: any;
+
+  const adminProfile = () => createQueryBuilder({ data: { role: 'admin', is_active: true }, error: null });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'admin-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+      rpc: jest.fn(),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+  });
+
+  it('should list quarantined records of a run', async () => {
+    const records = createQueryBuilder({ data: [quarantined], error: null, count: 1 });
+    builders.push(adminProfile(), records);
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/etl/quarantine?run_id=run-1&source=unknown'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual([quarantined]);
+    expect(body.meta).toEqual({ total: 1, limit: 50, offset: 0 });
+    expect(records.eq).toHaveBeenCalledWith('status', 'quarantined');
+    expect(records.eq).toHaveBeenCalledWith('run_id', 'run-1');
+    expect(records.eq).not.toHaveBeenCalledWith('source', expect.anything());
+  });
+
+  it('should release a record through release_etl_quarantine', async () => {
+    builders.push(adminProfile(), createQueryBuilder({ data: quarantined, error: null }));
+    mockSupabase.rpc.mockResolvedValue({ data: { ...quarantined, status: 'released' }, error: null });
+
+    const response = await POST(createActionRequest({ action: 'release' }), context);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.status).toBe('released');
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('release_etl_quarantine', { p_id: 'q-1' });
+    expect(AuditService.log).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'release_etl_quarantine',
+      target: 'etl_quarantine:q-1',
+      actor_id: 'admin-1',
+    }));
+  });
+
+  it('should return 422 when the released record violates a table constraint', async () => {
+    builders.push(adminProfile(), createQueryBuilder({ data: quarantined, error: null }));
+    mockSupabase.rpc.mockResolvedValue({
+      data: null,
+      error: { code: '22000', message: 'numeric field overflow' },
+    });
+
+    const response = await POST(createActionRequest({ action: 'release' }), context);
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.message).toContain('numeric field overflow');
+    expect(AuditService.log).not.toHaveBeenCalled();
+  });
+
+  it('should discard a record without writing it', async () => {
+    const update = createQueryBuilder({ data: { ...quarantined, status: 'discarded' }, error: null });
+    builders.push(adminProfile(), createQueryBuilder({ data: quarantined, error: null }), update);
+
+    const response = await POST(createActionRequest({ action: 'discard' }), context);
+
+    expect(response.status).toBe(200);
+    expect(update.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'discarded', resolved_by: 'admin-1' }));
+    expect(update.eq).toHaveBeenCalledWith('status', 'quarantined');
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    expect(AuditService.log).toHaveBeenCalledWith(expect.objectContaining({ action: 'discard_etl_quarantine' }));
+  });
+
+  it('should reject records that were already resolved', async () => {
+    builders.push(adminProfile(), createQueryBuilder({ data: { ...quarantined, status: 'discarded' }, error: null }));
+
+    const response = await POST(createActionRequest({ action: 'release' }), context);
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.message).toBe('このレコードは既に破棄済みです');
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown actions and non-admins', async () => {
+    builders.push(adminProfile());
+    const invalid = await POST(createActionRequest({ action: 'approve' }), context);
+    expect(invalid.status).toBe(400);
+
+    builders.push(createQueryBuilder({ data: { role: 'manager', is_active: true }, error: null }));
+    const forbidden = await POST(createActionRequest({ action: 'discard' }), context);
+    expect(forbidden.status).toBe(403);
+  });
+});
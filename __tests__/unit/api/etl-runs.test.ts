@@ -0,0 +1,142 @@
+/**
+ * ETL 実行履歴 API テスト
+ * /api/etl/runs, /api/etl/runs/[id]
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET as LIST } from '@/app/api/etl/runs/route';
+import { GET as DETAIL } from '@/app/api/etl/runs/[id]/route';
+import { createClient } from '@/lib/supabase/server';
+
+jest.mock('@/lib/supabase/server');
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any; count?: number }) {
+  const builder: any = {};
+  ['select', 'eq', 'gte', 'lte', 'order', 'range'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.maybeSingle = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+describe('/api/etl/runs', () => {
+  const run = {
+    id: 'run-1',
+    trigger: 'schedule',
+    status: 'partial',
+    target_date: null,
+    params: null,
+    triggered_by: null,
+    started_at: '2025-09-07T21:00:00Z',
+    finished_at: '2025-09-07T21:01:30Z',
+    duration_ms: 90000,
+    success_count: 5,
+    failure_count: 1,
+    error: null,
+  };
+  const weatherFailure = {
+    id: 'source-1',
+    run_id: 'run-1',
+    source: 'weather',
+    target_date: null,
+    status: 'failure',
+    records_processed: 0,
+    attempts: 3,
+    duration_ms: 14000,
+    error: 'Weather data ETL failed: HTTP 503: Service Unavailable',
+    finished_at: '2025-09-07T21:00:40Z',
+  };
+
+  let builders: any[];
+  let mockSupabase: any;
+
+  const adminProfile = () => createQueryBuilder({ data: { role: 'admin', is_active: true }, error: null });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'admin-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+  });
+
+  describe('GET', () => {
+    it('should list runs with filters and the latest status of every source', async () => {
+      const runsBuilder = createQueryBuilder({ data: [run], error: null, count: 1 });
+      builders.push(
+        adminProfile(),
+        runsBuilder,
+        createQueryBuilder({
+          data: [{ source: 'weather', last_run_at: '2025-09-07T21:00:40Z', last_success_at: '2025-09-07T15:00:30Z', last_failure_at: '2025-09-07T21:00:40Z' }],
+          error: null,
+        })
+      );
+
+      const response = await LIST(new NextRequest('http://localhost:3000/api/etl/runs?trigger=schedule&status=bogus&limit=20'));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data.runs).toEqual([run]);
+      expect(body.data.sources).toHaveLength(6);
+      expect(body.data.sources.find((source: any) => source.source === 'weather').last_success_at).toBe('2025-09-07T15:00:30Z');
+      expect(body.data.sources.find((source: any) => source.source === 'inbound').last_run_at).toBeNull();
+      expect(body.meta).toEqual({ total: 1, limit: 20, offset: 0 });
+      expect(runsBuilder.eq).toHaveBeenCalledWith('trigger', 'schedule');
+      expect(runsBuilder.eq).not.toHaveBeenCalledWith('status', expect.anything());
+      expect(runsBuilder.range).toHaveBeenCalledWith(0, 19);
+    });
+
+    it('should require an admin', async () => {
+      builders.push(createQueryBuilder({ data: { role: 'manager', is_active: true }, error: null }));
+
+      const response = await LIST(new NextRequest('http://localhost:3000/api/etl/runs'));
+
+      expect(response.status).toBe(403);
+      expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+    });
+
+    it('should require authentication', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null }, error: null });
+
+      const response = await LIST(new NextRequest('http://localhost:3000/api/etl/runs'));
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('GET /[id]', () => {
+    const context = (id: string) => ({ params: Promise.resolve({ id }) });
+
+    it('should return the run with per-source results', async () => {
+      builders.push(
+        adminProfile(),
+        createQueryBuilder({ data: run, error: null }),
+        createQueryBuilder({ data: [weatherFailure], error: null })
+      );
+
+      const response = await DETAIL(new NextRequest('http://localhost:3000/api/etl/runs/run-1'), context('run-1'));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data).toEqual({ ...run, sources: [weatherFailure] });
+    });
+
+    it('should return 404 for unknown runs', async () => {
+      builders.push(adminProfile(), createQueryBuilder({ data: null, error: null }));
+
+      const response = await DETAIL(new NextRequest('http://localhost:3000/api/etl/runs/missing'), context('missing'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
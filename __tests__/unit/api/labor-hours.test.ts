@@ -0,0 +1,127 @@
+/**
+ * 人時 API テスト
+ * /api/labor-hours
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/labor-hours/route';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/services/audit', () => ({
+  AuditService: {
+    log: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const mockAuditLog = AuditService.log as jest.MockedFunction<typeof AuditService.log>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any }) {
+  const builder: any = {};
+  ['select', 'gte', 'lte', 'in', 'order', 'upsert'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+describe('/api/labor-hours', () => {
+  const savedLaborHours = {
+    id: 'labor-1',
+    date: '2025-09-01',
+    store_id: 'store-1',
+    department: 'food',
+    hours: 42.5,
+    notes: null,
+  };
+
+  let builders: any[];
+  let mockSupabase: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+  });
+
+  describe('GET', () => {
+    it('should filter by period and stores', async () => {
+      const builder = createQueryBuilder({ data: [savedLaborHours], error: null });
+      builders.push(builder);
+
+      const response = await GET(new NextRequest(
+        'http://localhost:3000/api/labor-hours?start=2025-09-01&end=2025-09-30&store_ids=store-1,store-2'
+      ));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data).toEqual([savedLaborHours]);
+      expect(builder.gte).toHaveBeenCalledWith('date', '2025-09-01');
+      expect(builder.lte).toHaveBeenCalledWith('date', '2025-09-30');
+      expect(builder.in).toHaveBeenCalledWith('store_id', ['store-1', 'store-2']);
+    });
+  });
+
+  describe('POST', () => {
+    const postRequest = (body: Record<string, unknown>) =>
+      new NextRequest('http://localhost:3000/api/labor-hours', {
+        method: 'POST',
+        body: JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+    it('should upsert the store/date/department hours and write an audit entry', async () => {
+      const builder = createQueryBuilder({ data: savedLaborHours, error: null });
+      builders.push(builder);
+
+      const response = await POST(postRequest({
+        date: '2025-09-01',
+        store_id: 'store-1',
+        department: 'food',
+        hours: 42.5,
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.message).toBe('人時を保存しました');
+      expect(builder.upsert).toHaveBeenCalledWith(
+        [expect.objectContaining({ date: '2025-09-01', store_id: 'store-1', department: 'food', hours: 42.5, updated_by: 'user-1' })],
+        { onConflict: 'date,store_id,department' }
+      );
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'input_labor_hours',
+        target: 'labor_hours:labor-1',
+        actor_id: 'user-1',
+      }));
+    });
+
+    it('should reject invalid hours', async () => {
+      const response = await POST(postRequest({ date: '2025-09-01', store_id: 'store-1', hours: -1 }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.data[0]).toEqual(expect.objectContaining({ field: 'hours', code: 'OUT_OF_RANGE' }));
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when RLS rejects the store', async () => {
+      builders.push(createQueryBuilder({ data: null, error: { code: '42501' } }));
+
+      const response = await POST(postRequest({ date: '2025-09-01', store_id: 'store-9', hours: 8 }));
+
+      expect(response.status).toBe(403);
+      expect(mockAuditLog).not.toHaveBeenCalled();
+    });
+  });
+});
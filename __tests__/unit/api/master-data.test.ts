@@ -0,0 +1,224 @@
+/**
+ * 部門・商品カテゴリマスター API テスト
+ * /api/master-data/[type], /api/master-data/[type]/[id]
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/master-data/[type]/route';
+import { PATCH, DELETE } from '@/app/api/master-data/[type]/[id]/route';
+import { createClient } from '@/lib/supabase/server';
+import { getCachedMasterData } from '@/lib/cache/server-cache';
+import { invalidateMasterData } from '@/lib/cache/master-data-cache';
+import { AuditService } from '@/lib/services/audit';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/cache/server-cache', () => ({
+  getCachedMasterData: jest.fn(),
+}));
+jest.mock('@/lib/cache/master-data-cache', () => ({
+  invalidateMasterData: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('@/lib/services/audit', () => ({
+  AuditService: {
+    log: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const mockGetCachedMasterData = getCachedMasterData as jest.MockedFunction<typeof getCachedMasterData>;
+const mockInvalidate = invalidateMasterData as jest.MockedFunction<typeof invalidateMasterData>;
+const mockAuditLog = AuditService.log as jest.MockedFunction<typeof AuditService.log>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any; count?: number }) {
+  const builder: any = {};
+  ['select', 'eq', 'order', 'insert', 'update', 'delete'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+describe('/api/master-data', () => {
+  const food = {
+    id: 'dept-food',
+    code: 'food',
+    name: '食品',
+    sort_order: 30,
+    active: true,
+    created_at: '2025-08-27T00:00:00.000000+00:00',
+    updated_at: '2025-08-27T00:00:00.000000+00:00',
+  };
+
+  let builders: any[];
+  let mockSupabase: any;
+
+  const context = (params: Record<string, string>) => ({ params: Promise.resolve(params) }) as any;
+
+  const jsonRequest = (url: string, method: string, body?: Record<string, unknown>) =>
+    new NextRequest(url, {
+      method,
+      ...(body ? { body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } } : {}),
+    });
+
+  const profile = (role: string) => createQueryBuilder({ data: { role, is_active: true }, error: null });
+  const usage = (count: number) => createQueryBuilder({ data: null, error: null, count });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'admin-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+  });
+
+  describe('GET', () => {
+    it('should return the cached master data', async () => {
+      mockGetCachedMasterData.mockResolvedValue([food]);
+
+      const response = await GET(
+        jsonRequest('http://localhost:3000/api/master-data/departments', 'GET'),
+        context({ type: 'departments' })
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data).toEqual([food]);
+      expect(mockGetCachedMasterData).toHaveBeenCalledWith('departments');
+    });
+
+    it('should reject unknown master data types', async () => {
+      const response = await GET(
+        jsonRequest('http://localhost:3000/api/master-data/stores', 'GET'),
+        context({ type: 'stores' })
+      );
+
+      expect(response.status).toBe(404);
+      expect(mockGetCachedMasterData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST', () => {
+    const newCategory = { code: 'outlet', name: 'アウトレット', sort_order: 60, active: true };
+
+    it('should create an entry, invalidate the cache and write an audit entry', async () => {
+      const insertBuilder = createQueryBuilder({ data: { id: 'cat-outlet', ...newCategory }, error: null });
+      builders.push(profile('admin'), insertBuilder);
+
+      const response = await POST(
+        jsonRequest('http://localhost:3000/api/master-data/categories', 'POST', newCategory),
+        context({ type: 'categories' })
+      );
+
+      expect(response.status).toBe(201);
+      expect(mockSupabase.from).toHaveBeenLastCalledWith('dim_product_category');
+      expect(insertBuilder.insert).toHaveBeenCalledWith([newCategory]);
+      expect(mockInvalidate).toHaveBeenCalledWith('categories');
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'create_master_data',
+        target: 'dim_product_category:cat-outlet',
+      }));
+    });
+
+    it('should reject non-admin users', async () => {
+      builders.push(profile('manager'));
+
+      const response = await POST(
+        jsonRequest('http://localhost:3000/api/master-data/categories', 'POST', newCategory),
+        context({ type: 'categories' })
+      );
+
+      expect(response.status).toBe(403);
+      expect(mockInvalidate).not.toHaveBeenCalled();
+    });
+
+    it('should reject codes containing commas', async () => {
+      builders.push(profile('admin'));
+
+      const response = await POST(
+        jsonRequest('http://localhost:3000/api/master-data/categories', 'POST', { ...newCategory, code: 'a,b' }),
+        context({ type: 'categories' })
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.data).toEqual([expect.objectContaining({ field: 'code', code: 'INVALID_FORMAT' })]);
+    });
+  });
+
+  describe('PATCH', () => {
+    it('should not change a code that is used by sales', async () => {
+      builders.push(profile('admin'), createQueryBuilder({ data: food, error: null }), usage(12));
+
+      const response = await PATCH(
+        jsonRequest('http://localhost:3000/api/master-data/departments/dept-food', 'PATCH', {
+          code: 'grocery',
+          updated_at: food.updated_at,
+        }),
+        context({ type: 'departments', id: 'dept-food' })
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.data).toEqual([expect.objectContaining({ field: 'code', code: 'IN_USE' })]);
+      expect(mockInvalidate).not.toHaveBeenCalled();
+    });
+
+    it('should deactivate an entry', async () => {
+      const updateBuilder = createQueryBuilder({ data: { ...food, active: false }, error: null });
+      builders.push(profile('admin'), createQueryBuilder({ data: food, error: null }), updateBuilder);
+
+      const response = await PATCH(
+        jsonRequest('http://localhost:3000/api/master-data/departments/dept-food', 'PATCH', {
+          active: false,
+          updated_at: food.updated_at,
+        }),
+        context({ type: 'departments', id: 'dept-food' })
+      );
+
+      expect(response.status).toBe(200);
+      expect(updateBuilder.update).toHaveBeenCalledWith({ code: 'food', name: '食品', sort_order: 30, active: false });
+      expect(updateBuilder.eq).toHaveBeenCalledWith('updated_at', food.updated_at);
+      expect(mockInvalidate).toHaveBeenCalledWith('departments');
+    });
+  });
+
+  describe('DELETE', () => {
+    it('should refuse to delete an entry used by sales', async () => {
+      builders.push(profile('admin'), createQueryBuilder({ data: food, error: null }), usage(3));
+
+      const response = await DELETE(
+        jsonRequest('http://localhost:3000/api/master-data/departments/dept-food', 'DELETE'),
+        context({ type: 'departments', id: 'dept-food' })
+      );
+
+      expect(response.status).toBe(409);
+      expect(mockSupabase.from).toHaveBeenCalledTimes(3);
+      expect(mockInvalidate).not.toHaveBeenCalled();
+    });
+
+    it('should delete an unused entry', async () => {
+      const deleteBuilder = createQueryBuilder({ data: null, error: null });
+      builders.push(profile('admin'), createQueryBuilder({ data: food, error: null }), usage(0), deleteBuilder);
+
+      const response = await DELETE(
+        jsonRequest('http://localhost:3000/api/master-data/departments/dept-food', 'DELETE'),
+        context({ type: 'departments', id: 'dept-food' })
+      );
+
+      expect(response.status).toBe(200);
+      expect(deleteBuilder.delete).toHaveBeenCalled();
+      expect(mockInvalidate).toHaveBeenCalledWith('departments');
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'delete_master_data',
+        target: 'dim_department:dept-food',
+      }));
+    });
+  });
+});
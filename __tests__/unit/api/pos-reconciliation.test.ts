@@ -0,0 +1,233 @@
+/**
+ * POS 突合 API テスト
+ * /api/pos-reconciliation, /api/pos-reconciliation/[id]/resolve
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/pos-reconciliation/route';
+import { POST as RESOLVE } from '@/app/api/pos-reconciliation/[id]/resolve/route';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+import { AuditService } from '@/lib/services/audit';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/rbac/middleware');
+jest.mock('@/lib/services/audit', () => ({
+  AuditService: {
+    log: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const mockHasPermission = hasPermission as jest.MockedFunction<typeof hasPermission>;
+const mockAuditLog = AuditService.log as jest.MockedFunction<typeof AuditService.log>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any }) {
+  const builder: any = {};
+  ['select', 'eq', 'neq', 'in', 'gte', 'lte', 'order', 'update'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+describe('/api/pos-reconciliation', () => {
+  const reconciliation = {
+    id: 'rec-1',
+    date: '2025-09-01',
+    store_id: 'store-1',
+    pos_revenue_ex_tax: 310000,
+    pos_transactions: 610,
+    source_file: 'zreport.csv',
+    status: 'open',
+    resolution_note: null,
+    resolved_by: null,
+    resolved_at: null,
+    uploaded_by: 'user-1',
+    created_at: '2025-09-02T00:00:00Z',
+    updated_at: '2025-09-02T00:00:00Z',
+  };
+
+  const salesRow = {
+    id: 'sales-1',
+    updated_at: '2025-09-01T10:00:00Z',
+    date: '2025-09-01',
+    store_id: 'store-1',
+    department: 'food',
+    product_category: 'fresh',
+    revenue_ex_tax: 300000,
+    transactions: 600,
+    footfall: 1000,
+    status: 'draft',
+  };
+
+  const taxRules = [
+    { id: 'rule-standard', department: null, product_category: null, rate: 0.1, valid_from: '2019-10-01', valid_to: null },
+  ];
+
+  let builders: any[];
+  let mockSupabase: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+      rpc: jest.fn(),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+    mockHasPermission.mockResolvedValue(true);
+  });
+
+  describe('GET', () => {
+    it('should list only the open differences by default', async () => {
+      const recBuilder = createQueryBuilder({
+        data: [reconciliation, { ...reconciliation, id: 'rec-2', date: '2025-09-02', pos_revenue_ex_tax: 300050, pos_transactions: 600 }],
+        error: null,
+      });
+      const salesBuilder = createQueryBuilder({
+        data: [
+          { date: '2025-09-01', store_id: 'store-1', revenue_ex_tax: 300000, transactions: 600 },
+          { date: '2025-09-02', store_id: 'store-1', revenue_ex_tax: 300000, transactions: 600 },
+        ],
+        error: null,
+      });
+      builders.push(recBuilder, salesBuilder);
+
+      const response = await GET(new NextRequest(
+        'http://localhost:3000/api/pos-reconciliation?start=2025-09-01&end=2025-09-30'
+      ));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data).toEqual([expect.objectContaining({ id: 'rec-1', revenue_difference: 10000, has_difference: true })]);
+      expect(salesBuilder.eq).toHaveBeenCalledWith('channel', 'store');
+      expect(recBuilder.neq).not.toHaveBeenCalled();
+    });
+
+    it('should apply the tolerance and the resolved filter', async () => {
+      const recBuilder = createQueryBuilder({ data: [], error: null });
+      builders.push(recBuilder);
+
+      const response = await GET(new NextRequest(
+        'http://localhost:3000/api/pos-reconciliation?start=2025-09-01&end=2025-09-30&status=resolved&tolerance=500'
+      ));
+
+      expect(response.status).toBe(200);
+      expect(recBuilder.neq).toHaveBeenCalledWith('status', 'open');
+    });
+
+    it('should reject a missing period or a negative tolerance', async () => {
+      expect((await GET(new NextRequest('http://localhost:3000/api/pos-reconciliation?start=2025-09-01'))).status).toBe(400);
+      expect((await GET(new NextRequest(
+        'http://localhost:3000/api/pos-reconciliation?start=2025-09-01&end=2025-09-30&tolerance=-1'
+      ))).status).toBe(400);
+    });
+  });
+
+  describe('POST /[id]/resolve', () => {
+    const resolveRequest = (body: Record<string, unknown>) => RESOLVE(
+      new NextRequest('http://localhost:3000/api/pos-reconciliation/rec-1/resolve', {
+        method: 'POST',
+        body: JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json' },
+      }),
+      { params: Promise.resolve({ id: 'rec-1' }) }
+    );
+
+    it('should record the reason with the optimistic lock and an audit entry', async () => {
+      const updateBuilder = createQueryBuilder({ data: { ...reconciliation, status: 'annotated' }, error: null });
+      builders.push(createQueryBuilder({ data: reconciliation, error: null }), updateBuilder);
+
+      const response = await resolveRequest({ resolution: 'annotate', note: '返品の計上漏れ', updated_at: reconciliation.updated_at });
+
+      expect(response.status).toBe(200);
+      expect(updateBuilder.update).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'annotated',
+        resolution_note: '返品の計上漏れ',
+        resolved_by: 'user-1',
+      }));
+      expect(updateBuilder.eq).toHaveBeenCalledWith('updated_at', reconciliation.updated_at);
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'annotate_pos_reconciliation',
+        target: 'pos_reconciliations:rec-1',
+      }));
+    });
+
+    it('should apply the POS totals to the sales rows through the RPC', async () => {
+      builders.push(
+        createQueryBuilder({ data: reconciliation, error: null }),
+        createQueryBuilder({ data: [salesRow], error: null }),
+        createQueryBuilder({ data: [], error: null }),
+        createQueryBuilder({ data: taxRules, error: null })
+      );
+      mockSupabase.rpc.mockResolvedValue({ data: { ...reconciliation, status: 'accepted' }, error: null });
+
+      const response = await resolveRequest({ resolution: 'accept_pos', updated_at: reconciliation.updated_at });
+
+      expect(response.status).toBe(200);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('accept_pos_reconciliation', expect.objectContaining({
+        p_reconciliation_id: 'rec-1',
+        p_expected_updated_at: reconciliation.updated_at,
+        p_updates: [{
+          id: 'sales-1',
+          updated_at: salesRow.updated_at,
+          revenue_ex_tax: 310000,
+          transactions: 610,
+          tax: 31000,
+          tax_rate: 0.1,
+        }],
+      }));
+    });
+
+    it('should not change submitted or approved sales', async () => {
+      builders.push(
+        createQueryBuilder({ data: reconciliation, error: null }),
+        createQueryBuilder({ data: [{ ...salesRow, status: 'approved' }], error: null })
+      );
+
+      const response = await resolveRequest({ resolution: 'accept_pos', updated_at: reconciliation.updated_at });
+
+      expect(response.status).toBe(409);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the reconciliation was updated after reading', async () => {
+      builders.push(createQueryBuilder({ data: reconciliation, error: null }));
+
+      const response = await resolveRequest({ resolution: 'accept_pos', updated_at: '2025-09-01T00:00:00Z' });
+
+      expect(response.status).toBe(409);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should map a concurrent sales update in the RPC to 409', async () => {
+      builders.push(
+        createQueryBuilder({ data: reconciliation, error: null }),
+        createQueryBuilder({ data: [salesRow], error: null }),
+        createQueryBuilder({ data: [], error: null }),
+        createQueryBuilder({ data: taxRules, error: null })
+      );
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { code: '40001', message: 'changed by another user' } });
+
+      const response = await resolveRequest({ resolution: 'accept_pos', updated_at: reconciliation.updated_at });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should return 403 without edit permission for the store', async () => {
+      mockHasPermission.mockResolvedValue(false);
+      builders.push(createQueryBuilder({ data: reconciliation, error: null }));
+
+      const response = await resolveRequest({ resolution: 'annotate', note: '確認済み', updated_at: reconciliation.updated_at });
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * 売上添付ファイル API テスト
+ * /api/sales/[id]/attachments, /api/sales/[id]/attachments/[attachmentId]
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET as LIST, POST as UPLOAD } from '@/app/api/sales/[id]/attachments/route';
+import { GET as DOWNLOAD } from '@/app/api/sales/[id]/attachments/[attachmentId]/route';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+import { AuditService } from '@/lib/services/audit';
+import { getAttachmentStorage } from '@/lib/services/attachment-storage';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/rbac/middleware');
+jest.mock('@/lib/services/audit', () => ({
+  AuditService: {
+    log: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+jest.mock('@/lib/services/attachment-storage', () => ({
+  ...jest.requireActual('@/lib/services/attachment-storage'),
+  getAttachmentStorage: jest.fn(),
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const mockHasPermission = hasPermission as jest.MockedFunction<typeof hasPermission>;
+const mockAuditLog = AuditService.log as jest.MockedFunction<typeof AuditService.log>;
+const mockGetAttachmentStorage = getAttachmentStorage as jest.MockedFunction<typeof getAttachmentStorage>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any; count?: number }) {
+  const builder: any = {};
+  ['select', 'eq', 'order', 'insert'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+const PDF_BYTES = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x37]);
+
+describe('/api/sales/[id]/attachments', () => {
+  const sales = { id: 'sales-1', store_id: 'store-1' };
+  const attachment = {
+    id: 'attachment-1',
+    sales_id: 'sales-1',
+    store_id: 'store-1',
+    file_name: 'zreport.pdf',
+    content_type: 'application/pdf',
+    size_bytes: PDF_BYTES.length,
+    storage_path: 'store-1/sales-1/attachment-1',
+    uploaded_by: 'user-1',
+    created_at: '2025-09-06T00:00:00Z',
+  };
+
+  let builders: any[];
+  let mockSupabase: any;
+  let storage: any;
+
+  const context = { params: Promise.resolve({ id: 'sales-1' }) };
+
+  const uploadRequest = (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return new NextRequest('http://localhost:3000/api/sales/sales-1/attachments', {
+      method: 'POST',
+      body: formData,
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+    };
+    storage = {
+      kind: 'local',
+      upload: jest.fn().mockResolvedValue(undefined),
+      remove: jest.fn().mockResolvedValue(undefined),
+      createSignedUrl: jest.fn().mockResolvedValue('/api/attachments/local?signature=abc'),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+    mockHasPermission.mockResolvedValue(true);
+    mockGetAttachmentStorage.mockReturnValue(storage);
+  });
+
+  describe('GET', () => {
+    it('should list the attachments of a sales record the user can view', async () => {
+      builders.push(
+        createQueryBuilder({ data: sales, error: null }),
+        createQueryBuilder({ data: [attachment], error: null })
+      );
+
+      const response = await LIST(new NextRequest('http://localhost:3000/api/sales/sales-1/attachments'), context);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data).toEqual([attachment]);
+      expect(mockHasPermission).toHaveBeenCalledWith('user-1', 'sales', 'view', 'store-1', 'view');
+    });
+
+    it('should return 403 without view permission for the store', async () => {
+      mockHasPermission.mockResolvedValue(false);
+      builders.push(createQueryBuilder({ data: sales, error: null }));
+
+      const response = await LIST(new NextRequest('http://localhost:3000/api/sales/sales-1/attachments'), context);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('POST', () => {
+    it('should store the file, register its metadata and write an audit entry', async () => {
+      const insertBuilder = createQueryBuilder({ data: attachment, error: null });
+      builders.push(
+        createQueryBuilder({ data: sales, error: null }),
+        createQueryBuilder({ data: null, error: null, count: 0 }),
+        insertBuilder
+      );
+
+      const response = await UPLOAD(uploadRequest(new File([PDF_BYTES], 'zreport.pdf', { type: 'application/pdf' })), context);
+
+      expect(response.status).toBe(201);
+      expect(storage.upload).toHaveBeenCalledWith(expect.stringMatching(/^store-1\/sales-1\//), expect.any(Uint8Array), 'application/pdf');
+      expect(insertBuilder.insert).toHaveBeenCalledWith(expect.objectContaining({
+        sales_id: 'sales-1',
+        store_id: 'store-1',
+        file_name: 'zreport.pdf',
+        uploaded_by: 'user-1',
+      }));
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'upload_sales_attachment',
+        target: 'sales_attachments:attachment-1',
+      }));
+    });
+
+    it('should reject files that are not images or PDFs', async () => {
+      builders.push(createQueryBuilder({ data: sales, error: null }));
+
+      const response = await UPLOAD(uploadRequest(new File(['a,b'], 'sales.csv', { type: 'text/csv' })), context);
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.data[0].code).toBe('INVALID_FILE_TYPE');
+      expect(storage.upload).not.toHaveBeenCalled();
+    });
+
+    it('should remove the stored file when the metadata cannot be registered', async () => {
+      builders.push(
+        createQueryBuilder({ data: sales, error: null }),
+        createQueryBuilder({ data: null, error: null, count: 0 }),
+        createQueryBuilder({ data: null, error: { code: '42501' } })
+      );
+
+      const response = await UPLOAD(uploadRequest(new File([PDF_BYTES], 'zreport.pdf', { type: 'application/pdf' })), context);
+
+      expect(response.status).toBe(500);
+      expect(storage.remove).toHaveBeenCalledWith(storage.upload.mock.calls[0][0]);
+      expect(mockAuditLog).not.toHaveBeenCalled();
+    });
+
+    it('should require edit permission for the store', async () => {
+      mockHasPermission.mockResolvedValue(false);
+      builders.push(createQueryBuilder({ data: sales, error: null }));
+
+      const response = await UPLOAD(uploadRequest(new File([PDF_BYTES], 'zreport.pdf', { type: 'application/pdf' })), context);
+
+      expect(response.status).toBe(403);
+      expect(mockHasPermission).toHaveBeenCalledWith('user-1', 'sales', 'update', 'store-1', 'edit');
+    });
+  });
+
+  describe('GET /[attachmentId]', () => {
+    const downloadContext = { params: Promise.resolve({ id: 'sales-1', attachmentId: 'attachment-1' }) };
+    const downloadRequest = () => new NextRequest('http://localhost:3000/api/sales/sales-1/attachments/attachment-1');
+
+    it('should issue a signed URL and write an audit entry', async () => {
+      builders.push(createQueryBuilder({ data: attachment, error: null }));
+
+      const response = await DOWNLOAD(downloadRequest(), downloadContext);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data.url).toBe('/api/attachments/local?signature=abc');
+      expect(storage.createSignedUrl).toHaveBeenCalledWith('store-1/sales-1/attachment-1', 'zreport.pdf');
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'download_sales_attachment',
+        target: 'sales_attachments:attachment-1',
+      }));
+    });
+
+    it('should not issue a URL without view permission for the store', async () => {
+      mockHasPermission.mockResolvedValue(false);
+      builders.push(createQueryBuilder({ data: attachment, error: null }));
+
+      const response = await DOWNLOAD(downloadRequest(), downloadContext);
+
+      expect(response.status).toBe(403);
+      expect(storage.createSignedUrl).not.toHaveBeenCalled();
+      expect(mockAuditLog).not.toHaveBeenCalled();
+    });
+  });
+});
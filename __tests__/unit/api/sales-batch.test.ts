@@ -0,0 +1,238 @@
+/**
+ * 売上一括保存 API テスト
+ * /api/sales/batch
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/sales/batch/route';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/rbac/middleware');
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const mockHasPermission = hasPermission as jest.MockedFunction<typeof hasPermission>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any }) {
+  const builder: any = {};
+  ['select', 'eq', 'in', 'gte', 'lte', 'order'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+// 締め済みの月がない場合の accounting_period_closes
+function noClosesBuilder() {
+  return createQueryBuilder({ data: [], error: null });
+}
+
+describe('/api/sales/batch', () => {
+  const taxRules = [
+    { id: 'rule-standard', department: null, product_category: null, rate: 0.1, valid_from: '2019-10-01', valid_to: null },
+  ];
+
+  const existingRow = {
+    id: 'sales-1',
+    date: '2025-08-19',
+    department: 'food',
+    product_category: 'fresh',
+    revenue_ex_tax: 100000,
+    status: 'draft',
+    updated_at: '2025-08-19T10:00:00Z',
+  };
+
+  let builders: any[];
+  let mockSupabase: any;
+
+  const postRequest = (body: unknown) => new NextRequest('http://localhost:3000/api/sales/batch', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+      rpc: jest.fn(),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+    mockHasPermission.mockResolvedValue(true);
+  });
+
+  describe('GET', () => {
+    it('should return the existing rows for the store and period', async () => {
+      const builder = createQueryBuilder({ data: [existingRow], error: null });
+      builders.push(builder);
+
+      const response = await GET(new NextRequest(
+        'http://localhost:3000/api/sales/batch?store_id=store-1&start_date=2025-08-19&end_date=2025-08-25'
+      ));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(builder.eq).toHaveBeenCalledWith('store_id', 'store-1');
+      expect(builder.eq).toHaveBeenCalledWith('channel', 'store');
+      expect(builder.gte).toHaveBeenCalledWith('date', '2025-08-19');
+      expect(builder.lte).toHaveBeenCalledWith('date', '2025-08-25');
+      expect(body.data).toEqual([existingRow]);
+    });
+
+    it('should require the store and period', async () => {
+      const response = await GET(new NextRequest('http://localhost:3000/api/sales/batch?store_id=store-1'));
+      expect(response.status).toBe(400);
+    });
+
+    it('should filter by the requested channel and reject unknown channels', async () => {
+      const builder = createQueryBuilder({ data: [], error: null });
+      builders.push(builder);
+      const url = 'http://localhost:3000/api/sales/batch?store_id=store-1&start_date=2025-08-19&end_date=2025-08-25';
+
+      expect((await GET(new NextRequest(`${url}&channel=ec`))).status).toBe(200);
+      expect(builder.eq).toHaveBeenCalledWith('channel', 'ec');
+      expect((await GET(new NextRequest(`${url}&channel=wholesale`))).status).toBe(400);
+    });
+  });
+
+  describe('POST', () => {
+    it('should insert new cells and update changed ones in one call', async () => {
+      builders.push(
+        createQueryBuilder({ data: [existingRow, { ...existingRow, id: 'sales-2', product_category: 'other' }], error: null }),
+        noClosesBuilder(),
+        createQueryBuilder({ data: taxRules, error: null })
+      );
+      mockSupabase.rpc.mockResolvedValue({ data: { inserted: 1, updated: 1 }, error: null });
+
+      const response = await POST(postRequest({
+        store_id: 'store-1',
+        cells: [
+          { date: '2025-08-19', department: 'food', product_category: 'fresh', revenue_ex_tax: 150000, id: 'sales-1', updated_at: existingRow.updated_at },
+          { date: '2025-08-19', department: 'food', product_category: 'other', revenue_ex_tax: 100000, id: 'sales-2', updated_at: existingRow.updated_at },
+          { date: '2025-08-20', department: 'food', product_category: 'fresh', revenue_ex_tax: 80000 },
+        ],
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data).toEqual({ inserted: 1, updated: 1, unchanged: 1 });
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('save_sales_batch', expect.objectContaining({
+        p_store_id: 'store-1',
+        p_channel: 'store',
+        p_updates: [{ id: 'sales-1', updated_at: existingRow.updated_at, revenue_ex_tax: 150000, tax: 15000, tax_rate: 0.1 }],
+        p_inserts: [{ date: '2025-08-20', department: 'food', product_category: 'fresh', revenue_ex_tax: 80000, tax: 8000, tax_rate: 0.1 }],
+      }));
+    });
+
+    it('should return cell errors without saving', async () => {
+      const response = await POST(postRequest({
+        store_id: 'store-1',
+        cells: [{ date: '2025-08-19', department: 'food', product_category: 'fresh', revenue_ex_tax: -1 }],
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.data).toEqual([
+        expect.objectContaining({ field: 'revenue_ex_tax', date: '2025-08-19', department: 'food', product_category: 'fresh' }),
+      ]);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should reject corrections to submitted or approved rows', async () => {
+      builders.push(
+        createQueryBuilder({ data: [{ ...existingRow, status: 'approved' }], error: null }),
+        noClosesBuilder(),
+        createQueryBuilder({ data: taxRules, error: null })
+      );
+
+      const response = await POST(postRequest({
+        store_id: 'store-1',
+        cells: [{ date: '2025-08-19', department: 'food', product_category: 'fresh', revenue_ex_tax: 150000, id: 'sales-1', updated_at: existingRow.updated_at }],
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.data[0].code).toBe('NOT_EDITABLE');
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when a row changed after it was loaded', async () => {
+      builders.push(
+        createQueryBuilder({ data: [{ ...existingRow, updated_at: '2025-08-19T11:00:00Z' }], error: null }),
+        noClosesBuilder(),
+        createQueryBuilder({ data: taxRules, error: null })
+      );
+
+      const response = await POST(postRequest({
+        store_id: 'store-1',
+        cells: [{ date: '2025-08-19', department: 'food', product_category: 'fresh', revenue_ex_tax: 150000, id: 'sales-1', updated_at: existingRow.updated_at }],
+      }));
+
+      expect(response.status).toBe(409);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the batch loses a race inside the transaction', async () => {
+      builders.push(
+        createQueryBuilder({ data: [], error: null }),
+        noClosesBuilder(),
+        createQueryBuilder({ data: taxRules, error: null })
+      );
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { code: '23505', message: 'duplicate key' } });
+
+      const response = await POST(postRequest({
+        store_id: 'store-1',
+        cells: [{ date: '2025-08-19', department: 'food', product_category: 'fresh', revenue_ex_tax: 150000 }],
+      }));
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should return 423 with the cells that fall in a closed month', async () => {
+      const closesBuilder = createQueryBuilder({
+        data: [{ id: 'close-1', period: '2025-07-01', store_id: null }],
+        error: null,
+      });
+      builders.push(
+        createQueryBuilder({ data: [], error: null }),
+        closesBuilder,
+        createQueryBuilder({ data: taxRules, error: null })
+      );
+
+      const response = await POST(postRequest({
+        store_id: 'store-1',
+        cells: [
+          { date: '2025-08-01', department: 'food', product_category: 'fresh', revenue_ex_tax: 150000 },
+          { date: '2025-07-31', department: 'food', product_category: 'fresh', revenue_ex_tax: 150000 },
+        ],
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(423);
+      expect(closesBuilder.gte).toHaveBeenCalledWith('period', '2025-07-01');
+      expect(body.data).toEqual([
+        expect.objectContaining({ code: 'PERIOD_CLOSED', date: '2025-07-31', department: 'food' }),
+      ]);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 without edit permission for the store', async () => {
+      mockHasPermission.mockResolvedValue(false);
+
+      const response = await POST(postRequest({
+        store_id: 'store-1',
+        cells: [{ date: '2025-08-19', department: 'food', product_category: 'fresh', revenue_ex_tax: 150000 }],
+      }));
+
+      expect(response.status).toBe(403);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+});
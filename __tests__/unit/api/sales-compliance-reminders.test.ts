@@ -0,0 +1,80 @@
+/**
+ * 売上未提出リマインド API テスト
+ * /api/sales/compliance/reminders
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/sales/compliance/reminders/route';
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { SubmissionSLAService } from '@/lib/services/submission-sla';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/services/submission-sla', () => ({
+  ...jest.requireActual('@/lib/services/submission-sla'),
+  SubmissionSLAService: jest.fn(),
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const mockCreateServiceRoleClient = createServiceRoleClient as jest.MockedFunction<typeof createServiceRoleClient>;
+const MockSubmissionSLAService = SubmissionSLAService as jest.MockedClass<typeof SubmissionSLAService>;
+
+function cronRequest(authorization?: string) {
+  return new NextRequest('http://localhost:3000/api/sales/compliance/reminders', {
+    headers: authorization ? { authorization } : {},
+  });
+}
+
+describe('/api/sales/compliance/reminders GET', () => {
+  const serviceClient: any = { from: jest.fn() };
+  let sendReminders: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    process.env.CRON_SECRET = 'cron-secret';
+    sendReminders = jest.fn().mockResolvedValue({
+      businessDate: '2025-08-01',
+      cutoff: '21:00',
+      missingStoreIds: ['store-1'],
+      notifiedCount: 1,
+    });
+    MockSubmissionSLAService.mockImplementation(() => ({ sendReminders }) as any);
+    mockCreateServiceRoleClient.mockReturnValue(serviceClient);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete process.env.CRON_SECRET;
+  });
+
+  it('should send the due reminder with the service-role client', async () => {
+    jest.setSystemTime(new Date('2025-08-01T12:00:20Z')); // 21:00 JST
+
+    const response = await GET(cronRequest('Bearer cron-secret'));
+
+    expect(response.status).toBe(200);
+    expect(mockCreateServiceRoleClient).toHaveBeenCalled();
+    expect(mockCreateClient).not.toHaveBeenCalled();
+    expect(MockSubmissionSLAService).toHaveBeenCalledWith(serviceClient);
+    expect(sendReminders).toHaveBeenCalledWith(expect.any(Date), '21:00');
+  });
+
+  it('should do nothing between cut-offs', async () => {
+    jest.setSystemTime(new Date('2025-08-01T12:30:00Z')); // 21:30 JST
+
+    const response = await GET(cronRequest('Bearer cron-secret'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toBeNull();
+    expect(MockSubmissionSLAService).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests without the cron secret', async () => {
+    const response = await GET(cronRequest('Bearer wrong'));
+
+    expect(response.status).toBe(401);
+    expect(mockCreateServiceRoleClient).not.toHaveBeenCalled();
+  });
+});
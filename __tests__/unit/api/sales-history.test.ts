@@ -0,0 +1,95 @@
+/**
+ * 売上データ変更履歴 API テスト
+ * /api/sales/[id]/history
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/sales/[id]/history/route';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/rbac/middleware');
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const mockHasPermission = hasPermission as jest.MockedFunction<typeof hasPermission>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any }) {
+  const builder: any = {};
+  ['select', 'eq', 'in', 'order'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+describe('/api/sales/[id]/history', () => {
+  let builders: any[];
+  let mockSupabase: any;
+
+  const params = Promise.resolve({ id: 'sales-1' });
+  const request = () => new NextRequest('http://localhost:3000/api/sales/sales-1/history');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+    mockHasPermission.mockResolvedValue(true);
+  });
+
+  it('should return the audit entries for the row with actor names', async () => {
+    const logBuilder = createQueryBuilder({
+      data: [
+        { id: 'log-1', action: 'input_sales', actor_id: 'user-1', at: '2025-08-19T10:00:00Z', meta: {} },
+        { id: 'log-2', action: 'edit_sales', actor_id: 'user-2', at: '2025-08-19T11:00:00Z', meta: {} },
+        { id: 'log-3', action: 'approve_sales', actor_id: 'user-3', at: '2025-08-19T12:00:00Z', meta: {} },
+      ],
+      error: null,
+    });
+    const profileBuilder = createQueryBuilder({
+      data: [
+        { id: 'user-1', full_name: '山田 花子', email: 'hanako@example.com' },
+        { id: 'user-2', full_name: null, email: 'taro@example.com' },
+      ],
+      error: null,
+    });
+    builders.push(createQueryBuilder({ data: { id: 'sales-1', store_id: 'store-1' }, error: null }), logBuilder, profileBuilder);
+
+    const response = await GET(request(), { params });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(logBuilder.eq).toHaveBeenCalledWith('target', 'sales:sales-1');
+    expect(logBuilder.order).toHaveBeenCalledWith('at', { ascending: true });
+    expect(profileBuilder.in).toHaveBeenCalledWith('id', ['user-1', 'user-2', 'user-3']);
+    expect(body.data.map((entry: any) => entry.actor_name)).toEqual(['山田 花子', 'taro@example.com', null]);
+  });
+
+  it('should return 404 when the row does not exist', async () => {
+    builders.push(createQueryBuilder({ data: null, error: { code: 'PGRST116' } }));
+
+    const response = await GET(request(), { params });
+
+    expect(response.status).toBe(404);
+    expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject users who cannot view the store', async () => {
+    builders.push(createQueryBuilder({ data: { id: 'sales-1', store_id: 'store-2' }, error: null }));
+    mockHasPermission.mockResolvedValue(false);
+
+    const response = await GET(request(), { params });
+
+    expect(response.status).toBe(403);
+    expect(mockHasPermission).toHaveBeenCalledWith('user-1', 'sales', 'view', 'store-2', 'view');
+  });
+});
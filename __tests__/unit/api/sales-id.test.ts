@@ -0,0 +1,305 @@
+/**
+ * 売上データ修正・削除 API テスト
+ * /api/sales/[id]
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { PATCH, DELETE } from '@/app/api/sales/[id]/route';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/rbac/middleware');
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const mockHasPermission = hasPermission as jest.MockedFunction<typeof hasPermission>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any }) {
+  const builder: any = {};
+  ['select', 'eq', 'neq', 'gte', 'lte', 'order', 'update', 'delete', 'insert'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+// 締め済みの月がない場合の accounting_period_closes
+function noClosesBuilder() {
+  return createQueryBuilder({ data: [], error: null });
+}
+
+describe('/api/sales/[id]', () => {
+  const currentRow = {
+    id: 'sales-1',
+    date: '2025-08-19',
+    store_id: 'store-1',
+    department: 'food',
+    product_category: 'standard',
+    revenue_ex_tax: 100000,
+    footfall: 100,
+    transactions: 50,
+    discounts: 0,
+    tax: 10000,
+    tax_rate: 0.1,
+    notes: null,
+    status: 'draft',
+    created_by: 'user-1',
+    created_at: '2025-08-19T10:00:00.000000+00:00',
+    updated_at: '2025-08-19T10:00:00.000000+00:00',
+  };
+
+  const taxRules = [
+    { id: 'rule-standard', department: null, product_category: null, rate: 0.1, valid_from: '2019-10-01', valid_to: null },
+    { id: 'rule-food', department: 'food', product_category: null, rate: 0.08, valid_from: '2019-10-01', valid_to: null },
+  ];
+
+  let builders: any[];
+  let mockSupabase: any;
+
+  const params = Promise.resolve({ id: 'sales-1' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+    mockHasPermission.mockResolvedValue(true);
+  });
+
+  const patchRequest = (body: Record<string, unknown>) =>
+    new NextRequest('http://localhost:3000/api/sales/sales-1', {
+      method: 'PATCH',
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  describe('PATCH', () => {
+    it('should update the row and record before/after values in audit meta', async () => {
+      const updatedRow = {
+        ...currentRow,
+        revenue_ex_tax: 120000,
+        tax: 9600,
+        tax_rate: 0.08,
+        updated_at: '2025-08-19T11:00:00.000000+00:00',
+      };
+      const fetchBuilder = createQueryBuilder({ data: currentRow, error: null });
+      const taxRuleBuilder = createQueryBuilder({ data: taxRules, error: null });
+      const updateBuilder = createQueryBuilder({ data: updatedRow, error: null });
+      const auditBuilder = createQueryBuilder({ data: null, error: null });
+      builders.push(fetchBuilder, noClosesBuilder(), taxRuleBuilder, updateBuilder, auditBuilder);
+
+      const response = await PATCH(
+        patchRequest({ revenue_ex_tax: 120000, updated_at: currentRow.updated_at }),
+        { params }
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data.revenue_ex_tax).toBe(120000);
+
+      // 食品は軽減税率（8%）で再計算し、updated_at を条件に含めて更新している
+      expect(updateBuilder.update).toHaveBeenCalledWith({ revenue_ex_tax: 120000, tax: 9600, tax_rate: 0.08 });
+      expect(updateBuilder.eq).toHaveBeenCalledWith('updated_at', currentRow.updated_at);
+
+      expect(auditBuilder.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          action: 'edit_sales',
+          target: 'sales:sales-1',
+          meta: expect.objectContaining({
+            before: { revenue_ex_tax: 100000, tax: 10000, tax_rate: 0.1 },
+            after: { revenue_ex_tax: 120000, tax: 9600, tax_rate: 0.08 },
+          }),
+        }),
+      ]);
+    });
+
+    it('should return 409 when updated_at does not match', async () => {
+      builders.push(createQueryBuilder({ data: currentRow, error: null }));
+
+      const response = await PATCH(
+        patchRequest({ revenue_ex_tax: 120000, updated_at: '2025-08-19T09:00:00.000000+00:00' }),
+        { params }
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.data.updated_at).toBe(currentRow.updated_at);
+      expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return 409 when the row changed between read and write', async () => {
+      builders.push(
+        createQueryBuilder({ data: currentRow, error: null }),
+        noClosesBuilder(),
+        createQueryBuilder({ data: taxRules, error: null }),
+        createQueryBuilder({ data: null, error: { code: 'PGRST116' } }),
+        createQueryBuilder({ data: { ...currentRow, updated_at: 'newer' }, error: null })
+      );
+
+      const response = await PATCH(
+        patchRequest({ revenue_ex_tax: 120000, updated_at: currentRow.updated_at }),
+        { params }
+      );
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should require updated_at', async () => {
+      const response = await PATCH(patchRequest({ revenue_ex_tax: 120000 }), { params });
+
+      expect(response.status).toBe(400);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 without edit access to the store', async () => {
+      builders.push(createQueryBuilder({ data: currentRow, error: null }));
+      mockHasPermission.mockResolvedValue(false);
+
+      const response = await PATCH(
+        patchRequest({ revenue_ex_tax: 120000, updated_at: currentRow.updated_at }),
+        { params }
+      );
+
+      expect(response.status).toBe(403);
+      expect(mockHasPermission).toHaveBeenCalledWith('user-1', 'sales', 'update', 'store-1', 'edit');
+    });
+
+    it('should not allow editing approved rows', async () => {
+      builders.push(createQueryBuilder({ data: { ...currentRow, status: 'approved' }, error: null }));
+
+      const response = await PATCH(
+        patchRequest({ revenue_ex_tax: 120000, updated_at: currentRow.updated_at }),
+        { params }
+      );
+
+      expect(response.status).toBe(409);
+      expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return 423 when the month of the row is closed', async () => {
+      builders.push(
+        createQueryBuilder({ data: currentRow, error: null }),
+        createQueryBuilder({ data: [{ id: 'close-1', period: '2025-08-01', store_id: null }], error: null })
+      );
+
+      const response = await PATCH(
+        patchRequest({ revenue_ex_tax: 120000, updated_at: currentRow.updated_at }),
+        { params }
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(423);
+      expect(body.data).toEqual([expect.objectContaining({ code: 'PERIOD_CLOSED' })]);
+      expect(mockSupabase.from).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not allow moving a row into a closed month', async () => {
+      const closesBuilder = createQueryBuilder({
+        data: [{ id: 'close-1', period: '2025-07-01', store_id: 'store-1' }],
+        error: null,
+      });
+      builders.push(createQueryBuilder({ data: currentRow, error: null }), closesBuilder);
+
+      const response = await PATCH(
+        patchRequest({ date: '2025-07-31', updated_at: currentRow.updated_at }),
+        { params }
+      );
+
+      expect(response.status).toBe(423);
+      expect(closesBuilder.gte).toHaveBeenCalledWith('period', '2025-07-01');
+      expect(closesBuilder.lte).toHaveBeenCalledWith('period', '2025-08-01');
+    });
+
+    it('should return 423 when the trigger rejects a month closed after the check', async () => {
+      builders.push(
+        createQueryBuilder({ data: currentRow, error: null }),
+        noClosesBuilder(),
+        createQueryBuilder({ data: taxRules, error: null }),
+        createQueryBuilder({ data: null, error: { code: 'AP001', message: 'Accounting period 2025-08 is closed' } })
+      );
+
+      const response = await PATCH(
+        patchRequest({ revenue_ex_tax: 120000, updated_at: currentRow.updated_at }),
+        { params }
+      );
+
+      expect(response.status).toBe(423);
+    });
+
+    it('should reject invalid values', async () => {
+      builders.push(createQueryBuilder({ data: currentRow, error: null }));
+
+      const response = await PATCH(
+        patchRequest({ transactions: 500, updated_at: currentRow.updated_at }),
+        { params }
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.data).toContainEqual(expect.objectContaining({ code: 'INCONSISTENT_DATA' }));
+    });
+  });
+
+  describe('DELETE', () => {
+    const deleteRequest = (updatedAt?: string) =>
+      new NextRequest(
+        `http://localhost:3000/api/sales/sales-1${updatedAt ? `?updated_at=${encodeURIComponent(updatedAt)}` : ''}`,
+        { method: 'DELETE' }
+      );
+
+    it('should delete the row and keep the old values in audit meta', async () => {
+      const auditBuilder = createQueryBuilder({ data: null, error: null });
+      builders.push(
+        createQueryBuilder({ data: currentRow, error: null }),
+        noClosesBuilder(),
+        createQueryBuilder({ data: [currentRow], error: null }),
+        auditBuilder
+      );
+
+      const response = await DELETE(deleteRequest(currentRow.updated_at), { params });
+
+      expect(response.status).toBe(200);
+      expect(mockHasPermission).toHaveBeenCalledWith('user-1', 'sales', 'delete', 'store-1', 'edit');
+      expect(auditBuilder.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          action: 'delete_sales',
+          meta: expect.objectContaining({ before: currentRow, after: null }),
+        }),
+      ]);
+    });
+
+    it('should not delete rows in a closed month', async () => {
+      builders.push(
+        createQueryBuilder({ data: currentRow, error: null }),
+        createQueryBuilder({ data: [{ id: 'close-1', period: '2025-08-01', store_id: 'store-1' }], error: null })
+      );
+
+      const response = await DELETE(deleteRequest(currentRow.updated_at), { params });
+
+      expect(response.status).toBe(423);
+      expect(mockSupabase.from).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return 409 for a stale updated_at', async () => {
+      builders.push(createQueryBuilder({ data: currentRow, error: null }));
+
+      const response = await DELETE(deleteRequest('2025-08-19T09:00:00.000000+00:00'), { params });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should require updated_at', async () => {
+      const response = await DELETE(deleteRequest(), { params });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * 期限切れ Idempotency-Key 削除 API テスト
+ * /api/sales/idempotency-keys/purge
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/sales/idempotency-keys/purge/route';
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
+
+jest.mock('@/lib/supabase/server');
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const mockCreateServiceRoleClient = createServiceRoleClient as jest.MockedFunction<typeof createServiceRoleClient>;
+
+function cronRequest(authorization?: string) {
+  return new NextRequest('http://localhost:3000/api/sales/idempotency-keys/purge', {
+    headers: authorization ? { authorization } : {},
+  });
+}
+
+describe('/api/sales/idempotency-keys/purge GET', () => {
+  let serviceClient: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.CRON_SECRET = 'cron-secret';
+    serviceClient = { rpc: jest.fn().mockResolvedValue({ data: 12, error: null }) };
+    mockCreateServiceRoleClient.mockReturnValue(serviceClient);
+  });
+
+  afterEach(() => {
+    delete process.env.CRON_SECRET;
+  });
+
+  it('should purge expired keys with the service-role client', async () => {
+    const response = await GET(cronRequest('Bearer cron-secret'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual({ deleted: 12 });
+    expect(serviceClient.rpc).toHaveBeenCalledWith('purge_expired_idempotency_keys');
+    expect(mockCreateClient).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when the purge fails', async () => {
+    serviceClient.rpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(cronRequest('Bearer cron-secret'));
+
+    expect(response.status).toBe(500);
+  });
+
+  it('should reject requests without the cron secret', async () => {
+    const response = await GET(cronRequest());
+
+    expect(response.status).toBe(401);
+    expect(mockCreateServiceRoleClient).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * 売上承認ワークフロー API テスト
+ * /api/sales/[id]/status
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/sales/[id]/status/route';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+import { AuditService } from '@/lib/services/audit';
+import { SalesWorkflowService } from '@/lib/services/sales-workflow';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/rbac/middleware');
+jest.mock('@/lib/services/audit', () => ({
+  AuditService: {
+    log: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+jest.mock('@/lib/services/sales-workflow', () => ({
+  SalesWorkflowService: {
+    notifyTransition: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const mockHasPermission = hasPermission as jest.MockedFunction<typeof hasPermission>;
+const mockAuditLog = AuditService.log as jest.MockedFunction<typeof AuditService.log>;
+const mockNotify = SalesWorkflowService.notifyTransition as jest.MockedFunction<
+  typeof SalesWorkflowService.notifyTransition
+>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any }) {
+  const builder: any = {};
+  ['select', 'eq', 'gte', 'lte', 'order', 'update'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+describe('/api/sales/[id]/status', () => {
+  const currentRow = {
+    id: 'sales-1',
+    date: '2025-08-19',
+    store_id: 'store-1',
+    department: 'food',
+    product_category: 'standard',
+    revenue_ex_tax: 100000,
+    status: 'draft',
+    submitted_by: null,
+    created_by: 'user-2',
+    updated_at: '2025-08-19T10:00:00.000000+00:00',
+  };
+
+  let builders: any[];
+  let mockSupabase: any;
+
+  const params = Promise.resolve({ id: 'sales-1' });
+
+  const statusRequest = (body: Record<string, unknown>) =>
+    new NextRequest('http://localhost:3000/api/sales/sales-1/status', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const profile = (role: string) => createQueryBuilder({ data: { role, is_active: true }, error: null });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+    mockHasPermission.mockResolvedValue(true);
+  });
+
+  it('should submit a draft, audit the transition and notify approvers', async () => {
+    const submittedRow = { ...currentRow, status: 'submitted', submitted_by: 'user-1' };
+    const updateBuilder = createQueryBuilder({ data: submittedRow, error: null });
+    builders.push(
+      createQueryBuilder({ data: currentRow, error: null }),
+      profile('manager'),
+      createQueryBuilder({ data: [], error: null }),
+      updateBuilder
+    );
+
+    const response = await POST(
+      statusRequest({ action: 'submit', updated_at: currentRow.updated_at }),
+      { params }
+    );
+
+    expect(response.status).toBe(200);
+    expect(updateBuilder.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'submitted',
+      submitted_by: 'user-1',
+    }));
+    expect(updateBuilder.eq).toHaveBeenCalledWith('status', 'draft');
+    expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'submit_sales',
+      actor_id: 'user-1',
+      meta: expect.objectContaining({ from_status: 'draft', to_status: 'submitted' }),
+    }));
+    expect(mockNotify).toHaveBeenCalledWith(mockSupabase, expect.objectContaining({
+      action: 'submit',
+      sales: submittedRow,
+    }));
+  });
+
+  it('should not let a manager approve their own submission', async () => {
+    builders.push(
+      createQueryBuilder({ data: { ...currentRow, status: 'submitted', submitted_by: 'user-1' }, error: null }),
+      profile('manager')
+    );
+
+    const response = await POST(
+      statusRequest({ action: 'approve', updated_at: currentRow.updated_at }),
+      { params }
+    );
+
+    expect(response.status).toBe(403);
+    expect(mockAuditLog).not.toHaveBeenCalled();
+  });
+
+  it('should only allow admins to lock approved rows', async () => {
+    builders.push(
+      createQueryBuilder({ data: { ...currentRow, status: 'approved' }, error: null }),
+      profile('manager')
+    );
+
+    const response = await POST(
+      statusRequest({ action: 'lock', updated_at: currentRow.updated_at }),
+      { params }
+    );
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should return 409 when the transition is not allowed from the current status', async () => {
+    builders.push(
+      createQueryBuilder({ data: currentRow, error: null }),
+      profile('admin')
+    );
+
+    const response = await POST(
+      statusRequest({ action: 'approve', updated_at: currentRow.updated_at }),
+      { params }
+    );
+
+    expect(response.status).toBe(409);
+    expect(mockNotify).not.toHaveBeenCalled();
+  });
+
+  it('should not change the status of rows in a closed month', async () => {
+    builders.push(
+      createQueryBuilder({ data: currentRow, error: null }),
+      profile('manager'),
+      createQueryBuilder({ data: [{ id: 'close-1', period: '2025-08-01', store_id: null }], error: null })
+    );
+
+    const response = await POST(
+      statusRequest({ action: 'submit', updated_at: currentRow.updated_at }),
+      { params }
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(423);
+    expect(body.data[0].code).toBe('PERIOD_CLOSED');
+    expect(mockAuditLog).not.toHaveBeenCalled();
+  });
+
+  it('should require a comment when rejecting', async () => {
+    const response = await POST(
+      statusRequest({ action: 'reject', updated_at: currentRow.updated_at }),
+      { params }
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.data).toContainEqual(expect.objectContaining({ field: 'comment' }));
+  });
+
+  it('should reject unknown actions', async () => {
+    const response = await POST(
+      statusRequest({ action: 'publish', updated_at: currentRow.updated_at }),
+      { params }
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * 売上データ登録 API テスト
+ * /api/sales
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/sales/route';
+import { createHash } from 'crypto';
+import { createClient } from '@/lib/supabase/server';
+
+jest.mock('@/lib/supabase/server');
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any; count?: number }) {
+  const builder: any = {};
+  ['select', 'eq', 'in', 'gt', 'gte', 'lte', 'order', 'range', 'insert'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+// 締め済みの月がない場合の accounting_period_closes
+function noClosesBuilder() {
+  return createQueryBuilder({ data: [], error: null });
+}
+
+describe('/api/sales', () => {
+  const input = {
+    date: '2025-08-19',
+    store_id: 'store-1',
+    department: 'food',
+    product_category: 'standard',
+    revenue_ex_tax: 1000000,
+    footfall: 200,
+    transactions: 100,
+  };
+
+  // 過去8週の同曜日（税抜売上は 10 万円前後）
+  const history = [100000, 98000, 102000, 105000, 95000, 101000, 99000, 100000].map(revenue => ({
+    revenue_ex_tax: revenue,
+    footfall: 200,
+    transactions: 100,
+  }));
+
+  const taxRules = [
+    { id: 'rule-standard', department: null, product_category: null, rate: 0.1, valid_from: '2019-10-01', valid_to: null },
+  ];
+
+  let builders: any[];
+  let mockSupabase: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+      rpc: jest.fn(),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+  });
+
+  const postRequest = (body: Record<string, unknown>, headers: Record<string, string> = {}) =>
+    new NextRequest('http://localhost:3000/api/sales', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json', ...headers },
+    });
+
+  describe('POST', () => {
+    it('should return anomaly warnings without saving until they are acknowledged', async () => {
+      const historyBuilder = createQueryBuilder({ data: history, error: null });
+      builders.push(noClosesBuilder(), createQueryBuilder({ data: null, error: { code: 'PGRST116' } }), historyBuilder);
+
+      const response = await POST(postRequest(input));
+      const body = await response.json();
+
+      expect(response.status).toBe(422);
+      expect(body.data).toEqual([
+        expect.objectContaining({ field: 'revenue_ex_tax', median: 100000, direction: 'high' }),
+      ]);
+      expect(historyBuilder.in).toHaveBeenCalledWith('date', expect.arrayContaining(['2025-08-12', '2025-06-24']));
+      expect(mockSupabase.from).toHaveBeenCalledTimes(3);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should save acknowledged rows and record the overridden warnings in audit meta', async () => {
+      builders.push(
+        noClosesBuilder(),
+        createQueryBuilder({ data: null, error: { code: 'PGRST116' } }),
+        createQueryBuilder({ data: history, error: null }),
+        createQueryBuilder({ data: taxRules, error: null })
+      );
+      mockSupabase.rpc.mockResolvedValue({ data: { id: 'sales-1', ...input }, error: null });
+
+      const response = await POST(postRequest({ ...input, acknowledged_warnings: ['revenue_ex_tax'] }));
+
+      expect(response.status).toBe(201);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('create_sales_with_audit', expect.objectContaining({
+        p_sales: expect.not.objectContaining({ acknowledged_warnings: expect.anything() }),
+        p_audit: expect.objectContaining({
+          meta: expect.objectContaining({
+            anomaly_overrides: [expect.objectContaining({ field: 'revenue_ex_tax', value: 1000000 })],
+          }),
+        }),
+      }));
+    });
+
+    it('should save usual values without audit overrides', async () => {
+      builders.push(
+        noClosesBuilder(),
+        createQueryBuilder({ data: null, error: { code: 'PGRST116' } }),
+        createQueryBuilder({ data: history, error: null }),
+        createQueryBuilder({ data: taxRules, error: null })
+      );
+      mockSupabase.rpc.mockResolvedValue({ data: { id: 'sales-1', ...input, revenue_ex_tax: 101000 }, error: null });
+
+      const response = await POST(postRequest({ ...input, revenue_ex_tax: 101000 }));
+
+      expect(response.status).toBe(201);
+      expect(mockSupabase.rpc.mock.calls[0][1].p_audit.meta).not.toHaveProperty('anomaly_overrides');
+      expect(mockSupabase.rpc.mock.calls[0][1].p_sales).toEqual(expect.objectContaining({ tax: 10100, tax_rate: 0.1 }));
+    });
+
+    it('should default to the in-store channel and check duplicates per channel', async () => {
+      const duplicateBuilder = createQueryBuilder({ data: null, error: { code: 'PGRST116' } });
+      builders.push(
+        noClosesBuilder(),
+        duplicateBuilder,
+        createQueryBuilder({ data: history, error: null }),
+        createQueryBuilder({ data: taxRules, error: null })
+      );
+      mockSupabase.rpc.mockResolvedValue({ data: { id: 'sales-1', ...input, channel: 'store' }, error: null });
+
+      const response = await POST(postRequest({ ...input, revenue_ex_tax: 101000 }));
+
+      expect(response.status).toBe(201);
+      expect(duplicateBuilder.eq).toHaveBeenCalledWith('channel', 'store');
+      expect(mockSupabase.rpc.mock.calls[0][1].p_sales).toEqual(expect.objectContaining({ channel: 'store' }));
+      expect(mockSupabase.rpc.mock.calls[0][1].p_audit.meta).toEqual(expect.objectContaining({ channel: 'store' }));
+    });
+
+    it('should reject an unknown channel', async () => {
+      const response = await POST(postRequest({ ...input, channel: 'wholesale' }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.data).toEqual([expect.objectContaining({ field: 'channel', code: 'INVALID_OPTION' })]);
+    });
+
+    it('should reject rows in a closed month before saving', async () => {
+      builders.push(createQueryBuilder({
+        data: [{ id: 'close-1', period: '2025-08-01', store_id: 'store-1' }],
+        error: null,
+      }));
+
+      const response = await POST(postRequest(input));
+      const body = await response.json();
+
+      expect(response.status).toBe(423);
+      expect(body.data).toEqual([expect.objectContaining({ field: 'date', code: 'PERIOD_CLOSED' })]);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should map the period close trigger error to 423', async () => {
+      builders.push(
+        noClosesBuilder(),
+        createQueryBuilder({ data: null, error: { code: 'PGRST116' } }),
+        createQueryBuilder({ data: history, error: null }),
+        createQueryBuilder({ data: taxRules, error: null })
+      );
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { code: 'AP001', message: 'Accounting period 2025-08 is closed' } });
+
+      const response = await POST(postRequest({ ...input, revenue_ex_tax: 101000 }));
+      const body = await response.json();
+
+      expect(response.status).toBe(423);
+      expect(body.data[0].code).toBe('PERIOD_CLOSED');
+    });
+
+    describe('Idempotency-Key', () => {
+      const usualInput = { ...input, revenue_ex_tax: 101000 };
+      const savedRow = { id: 'sales-1', ...usualInput, status: 'draft' };
+
+      it('should store the key and request hash with the insert', async () => {
+        builders.push(
+          createQueryBuilder({ data: null, error: { code: 'PGRST116' } }),
+          noClosesBuilder(),
+          createQueryBuilder({ data: null, error: { code: 'PGRST116' } }),
+          createQueryBuilder({ data: history, error: null }),
+          createQueryBuilder({ data: taxRules, error: null })
+        );
+        mockSupabase.rpc.mockResolvedValue({ data: savedRow, error: null });
+
+        const response = await POST(postRequest(usualInput, { 'Idempotency-Key': 'key-1' }));
+
+        expect(response.status).toBe(201);
+        expect(mockSupabase.rpc).toHaveBeenCalledWith('create_sales_with_audit', expect.objectContaining({
+          p_idempotency_key: 'key-1',
+          p_request_hash: expect.stringMatching(/^[0-9a-f]{64}$/),
+        }));
+      });
+
+      it('should replay the stored response for a retry with the same body', async () => {
+        const hash = createHash('sha256').update(JSON.stringify(usualInput)).digest('hex');
+        const keyBuilder = createQueryBuilder({
+          data: { request_hash: hash, status_code: 201, response: savedRow },
+          error: null,
+        });
+        builders.push(keyBuilder);
+
+        const response = await POST(postRequest(usualInput, { 'Idempotency-Key': 'key-1' }));
+        const body = await response.json();
+
+        expect(response.status).toBe(201);
+        expect(response.headers.get('Idempotent-Replayed')).toBe('true');
+        expect(body.data).toEqual(savedRow);
+        expect(keyBuilder.eq).toHaveBeenCalledWith('key', 'key-1');
+        expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+        expect(mockSupabase.rpc).not.toHaveBeenCalled();
+      });
+
+      it('should reject reusing a key for a different body', async () => {
+        builders.push(createQueryBuilder({
+          data: { request_hash: 'other-hash', status_code: 201, response: savedRow },
+          error: null,
+        }));
+
+        const response = await POST(postRequest(usualInput, { 'Idempotency-Key': 'key-1' }));
+
+        expect(response.status).toBe(422);
+        expect(mockSupabase.rpc).not.toHaveBeenCalled();
+      });
+
+      it('should replay the first response when a concurrent retry loses the race', async () => {
+        const hash = createHash('sha256').update(JSON.stringify(usualInput)).digest('hex');
+        builders.push(
+          createQueryBuilder({ data: null, error: { code: 'PGRST116' } }),
+          noClosesBuilder(),
+          createQueryBuilder({ data: null, error: { code: 'PGRST116' } }),
+          createQueryBuilder({ data: history, error: null }),
+          createQueryBuilder({ data: taxRules, error: null }),
+          createQueryBuilder({ data: { request_hash: hash, status_code: 201, response: savedRow }, error: null })
+        );
+        mockSupabase.rpc.mockResolvedValue({
+          data: null,
+          error: { code: '23505', message: 'duplicate key value violates unique constraint "idempotency_keys_pkey"' },
+        });
+
+        const response = await POST(postRequest(usualInput, { 'Idempotency-Key': 'key-1' }));
+
+        expect(response.status).toBe(201);
+        expect(response.headers.get('Idempotent-Replayed')).toBe('true');
+      });
+
+      it('should reject keys longer than 255 characters', async () => {
+        const response = await POST(postRequest(usualInput, { 'Idempotency-Key': 'k'.repeat(256) }));
+
+        expect(response.status).toBe(400);
+        expect(mockSupabase.from).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('GET', () => {
+    const rows = [
+      { id: 'sales-2', date: '2025-08-19', store_id: 'store-1', revenue_ex_tax: 120000, tax: 12000, footfall: 150, transactions: 70, discounts: 0 },
+      { id: 'sales-1', date: '2025-08-18', store_id: 'store-1', revenue_ex_tax: 80000, tax: 8000, footfall: 100, transactions: 40, discounts: null },
+    ];
+
+    it('should return the exact total count, page subtotals and filter totals', async () => {
+      const listBuilder = createQueryBuilder({ data: rows, error: null, count: 135 });
+      builders.push(listBuilder, createQueryBuilder({ data: null, error: null }));
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ revenue_ex_tax: '9500000', tax: '950000', footfall: '12000', transactions: '6000', discounts: '0', record_count: '135' }],
+        error: null,
+      });
+
+      const response = await GET(new NextRequest(
+        'http://localhost:3000/api/sales?store_id=store-1&product_category=standard&sort=revenue_ex_tax&order=asc&limit=2&offset=4'
+      ));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(listBuilder.select).toHaveBeenCalledWith(expect.any(String), { count: 'exact' });
+      expect(listBuilder.order).toHaveBeenCalledWith('revenue_ex_tax', { ascending: true });
+      expect(listBuilder.eq).toHaveBeenCalledWith('product_category', 'standard');
+      expect(listBuilder.range).toHaveBeenCalledWith(4, 5);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_sales_ledger_totals', expect.objectContaining({
+        p_store_id: 'store-1',
+        p_product_category: 'standard',
+        p_department: null,
+      }));
+      expect(body.meta).toEqual({
+        total: 135,
+        limit: 2,
+        offset: 4,
+        totals: {
+          page: { revenue_ex_tax: 200000, tax: 20000, footfall: 250, transactions: 110, discounts: 0, record_count: 2 },
+          filter: { revenue_ex_tax: 9500000, tax: 950000, footfall: 12000, transactions: 6000, discounts: 0, record_count: 135 },
+        },
+      });
+    });
+
+    it('should fall back to sorting by date for unknown sort fields', async () => {
+      const listBuilder = createQueryBuilder({ data: [], error: null, count: 0 });
+      builders.push(listBuilder, createQueryBuilder({ data: null, error: null }));
+      mockSupabase.rpc.mockResolvedValue({ data: [], error: null });
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/sales?sort=notes'));
+
+      expect(response.status).toBe(200);
+      expect(listBuilder.order).toHaveBeenCalledWith('date', { ascending: false });
+      expect(listBuilder.order).not.toHaveBeenCalledWith('notes', expect.anything());
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * 店舗マスター API テスト
+ * /api/stores, /api/stores/[id], /api/stores/[id]/closures
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/stores/route';
+import { PATCH, DELETE } from '@/app/api/stores/[id]/route';
+import { POST as POST_CLOSURE } from '@/app/api/stores/[id]/closures/route';
+import { createClient } from '@/lib/supabase/server';
+import { invalidateStores } from '@/lib/cache/master-data-cache';
+import { AuditService } from '@/lib/services/audit';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/cache/master-data-cache', () => ({
+  invalidateStores: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('@/lib/services/audit', () => ({
+  AuditService: {
+    log: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const mockInvalidate = invalidateStores as jest.MockedFunction<typeof invalidateStores>;
+const mockAuditLog = AuditService.log as jest.MockedFunction<typeof AuditService.log>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any; count?: number }) {
+  const builder: any = {};
+  ['select', 'eq', 'order', 'insert', 'update', 'delete'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+describe('/api/stores', () => {
+  const shibuya = {
+    id: 'store-1',
+    name: '渋谷店',
+    address: null,
+    lat: null,
+    lng: null,
+    area: '関東',
+    opened_on: '2015-04-01',
+    closed_on: null,
+    floor_area_sqm: 1200,
+    store_type: 'standard',
+    created_at: '2025-08-28T00:00:00.000000+00:00',
+    updated_at: '2025-08-28T00:00:00.000000+00:00',
+  };
+
+  let builders: any[];
+  let mockSupabase: any;
+
+  const context = (params: Record<string, string>) => ({ params: Promise.resolve(params) }) as any;
+
+  const jsonRequest = (url: string, method: string, body?: Record<string, unknown>) =>
+    new NextRequest(url, {
+      method,
+      ...(body ? { body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } } : {}),
+    });
+
+  const profile = (role: string) => createQueryBuilder({ data: { role, is_active: true }, error: null });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'admin-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+  });
+
+  describe('POST', () => {
+    const newStore = { name: ' 新宿店 ', area: '関東', opened_on: '2025-09-01', store_type: 'flagship' };
+
+    it('should create a store, invalidate the cache and write an audit entry', async () => {
+      const insertBuilder = createQueryBuilder({ data: { ...shibuya, id: 'store-2', name: '新宿店' }, error: null });
+      builders.push(profile('admin'), insertBuilder);
+
+      const response = await POST(jsonRequest('http://localhost:3000/api/stores', 'POST', newStore));
+
+      expect(response.status).toBe(201);
+      expect(insertBuilder.insert).toHaveBeenCalledWith([expect.objectContaining({
+        name: '新宿店',
+        opened_on: '2025-09-01',
+        closed_on: null,
+        floor_area_sqm: null,
+        store_type: 'flagship',
+      })]);
+      expect(mockInvalidate).toHaveBeenCalled();
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'create_store',
+        target: 'dim_store:store-2',
+      }));
+    });
+
+    it('should reject non-admin users', async () => {
+      builders.push(profile('manager'));
+
+      const response = await POST(jsonRequest('http://localhost:3000/api/stores', 'POST', newStore));
+
+      expect(response.status).toBe(403);
+      expect(mockAuditLog).not.toHaveBeenCalled();
+    });
+
+    it('should reject a closing date before the opening date', async () => {
+      builders.push(profile('admin'));
+
+      const response = await POST(jsonRequest('http://localhost:3000/api/stores', 'POST', {
+        ...newStore,
+        closed_on: '2025-08-31',
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.data).toEqual([expect.objectContaining({ field: 'closed_on', code: 'INCONSISTENT_DATA' })]);
+    });
+  });
+
+  describe('PATCH', () => {
+    it('should update only the given fields', async () => {
+      const updateBuilder = createQueryBuilder({ data: { ...shibuya, closed_on: '2025-12-31' }, error: null });
+      builders.push(profile('admin'), createQueryBuilder({ data: shibuya, error: null }), updateBuilder);
+
+      const response = await PATCH(
+        jsonRequest('http://localhost:3000/api/stores/store-1', 'PATCH', {
+          closed_on: '2025-12-31',
+          updated_at: shibuya.updated_at,
+        }),
+        context({ id: 'store-1' })
+      );
+
+      expect(response.status).toBe(200);
+      expect(updateBuilder.update).toHaveBeenCalledWith(expect.objectContaining({
+        name: '渋谷店',
+        opened_on: '2015-04-01',
+        closed_on: '2025-12-31',
+        floor_area_sqm: 1200,
+      }));
+      expect(updateBuilder.eq).toHaveBeenCalledWith('updated_at', shibuya.updated_at);
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'update_store' }));
+    });
+
+    it('should return 409 when the store was updated by someone else', async () => {
+      builders.push(profile('admin'), createQueryBuilder({ data: shibuya, error: null }));
+
+      const response = await PATCH(
+        jsonRequest('http://localhost:3000/api/stores/store-1', 'PATCH', {
+          name: '渋谷本店',
+          updated_at: '2025-08-01T00:00:00.000000+00:00',
+        }),
+        context({ id: 'store-1' })
+      );
+
+      expect(response.status).toBe(409);
+      expect(mockInvalidate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE', () => {
+    it('should not delete stores that have sales', async () => {
+      builders.push(
+        profile('admin'),
+        createQueryBuilder({ data: shibuya, error: null }),
+        createQueryBuilder({ data: null, error: null, count: 12 })
+      );
+
+      const response = await DELETE(
+        jsonRequest('http://localhost:3000/api/stores/store-1', 'DELETE'),
+        context({ id: 'store-1' })
+      );
+
+      expect(response.status).toBe(409);
+      expect(mockSupabase.from).toHaveBeenCalledTimes(3);
+      expect(mockAuditLog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST closures', () => {
+    const renovation = { start_date: '2025-02-01', end_date: '2025-02-28', reason: 'renovation', note: '全面改装' };
+
+    it('should register a closure period and write an audit entry', async () => {
+      const insertBuilder = createQueryBuilder({ data: { id: 'closure-1', store_id: 'store-1', ...renovation }, error: null });
+      builders.push(
+        profile('admin'),
+        createQueryBuilder({ data: { id: 'store-1' }, error: null }),
+        createQueryBuilder({ data: [], error: null }),
+        insertBuilder
+      );
+
+      const response = await POST_CLOSURE(
+        jsonRequest('http://localhost:3000/api/stores/store-1/closures', 'POST', renovation),
+        context({ id: 'store-1' })
+      );
+
+      expect(response.status).toBe(201);
+      expect(insertBuilder.insert).toHaveBeenCalledWith([expect.objectContaining({
+        store_id: 'store-1',
+        start_date: '2025-02-01',
+        created_by: 'admin-1',
+      })]);
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'create_store_closure',
+        target: 'store_closure_periods:closure-1',
+      }));
+    });
+
+    it('should reject periods overlapping an existing closure', async () => {
+      const existing = { id: 'closure-0', store_id: 'store-1', start_date: '2025-02-20', end_date: '2025-03-10' };
+      builders.push(
+        profile('admin'),
+        createQueryBuilder({ data: { id: 'store-1' }, error: null }),
+        createQueryBuilder({ data: [existing], error: null })
+      );
+
+      const response = await POST_CLOSURE(
+        jsonRequest('http://localhost:3000/api/stores/store-1/closures', 'POST', renovation),
+        context({ id: 'store-1' })
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.data).toEqual(existing);
+    });
+  });
+});
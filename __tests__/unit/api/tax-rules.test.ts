@@ -0,0 +1,164 @@
+/**
+ * 税率ルール API テスト
+ * /api/tax-rules, /api/tax-rules/[id]
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/tax-rules/route';
+import { PATCH } from '@/app/api/tax-rules/[id]/route';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/services/audit', () => ({
+  AuditService: {
+    log: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+const mockAuditLog = AuditService.log as jest.MockedFunction<typeof AuditService.log>;
+
+// チェーン可能なクエリビルダーのモック
+function createQueryBuilder(result: { data: any; error: any }) {
+  const builder: any = {};
+  ['select', 'eq', 'order', 'insert', 'update', 'delete'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.single = jest.fn().mockResolvedValue(result);
+  builder.then = (resolve: (value: any) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+describe('/api/tax-rules', () => {
+  const foodRule = {
+    id: 'rule-food',
+    department: 'food',
+    product_category: null,
+    rate: 0.08,
+    valid_from: '2019-10-01',
+    valid_to: null,
+    description: '軽減税率（飲食料品）',
+    updated_at: '2025-08-24T00:00:00.000000+00:00',
+  };
+
+  let builders: any[];
+  let mockSupabase: any;
+
+  const jsonRequest = (url: string, method: string, body: Record<string, unknown>) =>
+    new NextRequest(url, {
+      method,
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const profile = (role: string) => createQueryBuilder({ data: { role, is_active: true }, error: null });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builders = [];
+    mockSupabase = {
+      auth: {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'admin-1' } }, error: null }),
+      },
+      from: jest.fn(() => builders.shift()),
+    };
+    mockCreateClient.mockResolvedValue(mockSupabase);
+  });
+
+  describe('POST', () => {
+    const newRule = { department: 'food', product_category: null, rate: 0.1, valid_from: '2026-04-01', valid_to: null };
+
+    it('should create a rule and write an audit entry', async () => {
+      const previousRule = { ...foodRule, valid_to: '2026-03-31' };
+      const insertBuilder = createQueryBuilder({ data: { id: 'rule-new', ...newRule }, error: null });
+      builders.push(profile('admin'), createQueryBuilder({ data: [previousRule], error: null }), insertBuilder);
+
+      const response = await POST(jsonRequest('http://localhost:3000/api/tax-rules', 'POST', newRule));
+
+      expect(response.status).toBe(201);
+      expect(insertBuilder.insert).toHaveBeenCalledWith([
+        expect.objectContaining({ department: 'food', rate: 0.1, created_by: 'admin-1' }),
+      ]);
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'create_tax_rule',
+        target: 'tax_rules:rule-new',
+      }));
+    });
+
+    it('should reject overlapping periods for the same scope', async () => {
+      builders.push(profile('admin'), createQueryBuilder({ data: [foodRule], error: null }));
+
+      const response = await POST(jsonRequest('http://localhost:3000/api/tax-rules', 'POST', newRule));
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.data.id).toBe('rule-food');
+      expect(mockAuditLog).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for non-admin users', async () => {
+      builders.push(profile('manager'));
+
+      const response = await POST(jsonRequest('http://localhost:3000/api/tax-rules', 'POST', newRule));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should validate the rate range', async () => {
+      builders.push(profile('admin'));
+
+      const response = await POST(jsonRequest('http://localhost:3000/api/tax-rules', 'POST', { ...newRule, rate: 8 }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.data[0]).toEqual(expect.objectContaining({ field: 'rate', code: 'OUT_OF_RANGE' }));
+    });
+  });
+
+  describe('PATCH', () => {
+    const params = Promise.resolve({ id: 'rule-food' });
+
+    it('should return 409 when updated_at does not match', async () => {
+      builders.push(profile('admin'), createQueryBuilder({ data: foodRule, error: null }));
+
+      const response = await PATCH(
+        jsonRequest('http://localhost:3000/api/tax-rules/rule-food', 'PATCH', {
+          valid_to: '2026-03-31',
+          updated_at: '2025-08-01T00:00:00.000000+00:00',
+        }),
+        { params }
+      );
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should close a rule period and keep before/after in audit meta', async () => {
+      const updatedRule = { ...foodRule, valid_to: '2026-03-31' };
+      const updateBuilder = createQueryBuilder({ data: updatedRule, error: null });
+      builders.push(
+        profile('admin'),
+        createQueryBuilder({ data: foodRule, error: null }),
+        createQueryBuilder({ data: [foodRule], error: null }),
+        updateBuilder
+      );
+
+      const response = await PATCH(
+        jsonRequest('http://localhost:3000/api/tax-rules/rule-food', 'PATCH', {
+          valid_to: '2026-03-31',
+          updated_at: foodRule.updated_at,
+        }),
+        { params }
+      );
+
+      expect(response.status).toBe(200);
+      expect(updateBuilder.update).toHaveBeenCalledWith(expect.objectContaining({ valid_to: '2026-03-31', rate: 0.08 }));
+      expect(updateBuilder.eq).toHaveBeenCalledWith('updated_at', foodRule.updated_at);
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'update_tax_rule',
+        meta: { before: foodRule, after: updatedRule },
+      }));
+    });
+  });
+});
@@ -31,6 +31,7 @@ describe('ExportService', () => {
       gte: jest.fn().mockReturnThis(),
       lte: jest.fn().mockReturnThis(),
       eq: jest.fn().mockReturnThis(),
+      in: jest.fn().mockReturnThis(),
       order: jest.fn().mockReturnThis()
     };
 
@@ -52,9 +53,9 @@ describe('ExportService', () => {
           store_id: 'store-1',
           revenue_ex_tax: 10000,
           footfall: 100,
-          store: { name: 'テスト店舗' },
-          department: { name: 'テスト部門' },
-          category: { name: 'テストカテゴリ' }
+          department: 'food',
+          product_category: 'premium',
+          store: { name: 'テスト店舗' }
         }
       ];
 
@@ -131,9 +132,11 @@ describe('ExportService', () => {
     });
 
     it('should handle database errors gracefully', async () => {
-      mockSupabase.from.mockImplementation(() => ({
+      mockSupabase.from.mockImplementation((table: string) => ({
         ...mockSupabase,
-        then: (callback: any) => callback({ data: null, error: { message: 'Database error' } })
+        then: (callback: any) => callback(table === 'accounting_period_closes'
+          ? { data: [], error: null }
+          : { data: null, error: { message: 'Database error' } })
       }));
 
       await expect(
@@ -141,6 +144,19 @@ describe('ExportService', () => {
       ).rejects.toThrow('Export failed: Failed to fetch sales data: Database error');
     });
 
+    it('should fail when the department or category master cannot be read', async () => {
+      mockSupabase.from.mockImplementation((table: string) => ({
+        ...mockSupabase,
+        then: (callback: any) => callback(table === 'dim_department'
+          ? { data: null, error: { message: 'Database error' } }
+          : { data: [], error: null })
+      }));
+
+      await expect(
+        exportService.exportData('sales', 'csv', {})
+      ).rejects.toThrow('Export failed: Failed to fetch departments: Database error');
+    });
+
     it('should validate export filters correctly', async () => {
       const validFilters = {
         startDate: '2025-01-01',
@@ -0,0 +1,80 @@
+/**
+ * 人時インポートサービス ユニットテスト
+ * @jest-environment node
+ */
+
+import {
+  buildLaborHoursKey,
+  parseLaborHoursImportFile,
+  validateLaborHoursImportRows,
+} from '@/lib/services/labor-hours-import';
+
+jest.mock('@/lib/supabase/server');
+
+describe('LaborHoursImportService', () => {
+  describe('parseLaborHoursImportFile', () => {
+    it('should accept Japanese headers, slash dates and hours with units', async () => {
+      const csv = [
+        '日付,店舗ID,部門,人時,備考',
+        '2025/9/1,store-1,food,7.5h,',
+        '2025-09-01,store-1,,"1,200",本部応援',
+      ].join('\n');
+
+      const { rows, errors } = await parseLaborHoursImportFile(Buffer.from(csv), 'csv');
+
+      expect(errors).toHaveLength(0);
+      expect(rows.map(({ data }) => data)).toEqual([
+        { date: '2025-09-01', store_id: 'store-1', department: 'food', hours: 7.5 },
+        { date: '2025-09-01', store_id: 'store-1', department: null, hours: 1200, notes: '本部応援' },
+      ]);
+    });
+
+    it('should report non-numeric hours as format errors', async () => {
+      const csv = ['date,store_id,hours', '2025-09-01,store-1,未定'].join('\n');
+
+      const { rows, errors } = await parseLaborHoursImportFile(Buffer.from(csv), 'csv');
+
+      expect(rows).toHaveLength(0);
+      expect(errors).toEqual([{
+        row: 2,
+        errors: [expect.objectContaining({ field: 'hours', code: 'INVALID_NUMBER' })],
+      }]);
+    });
+  });
+
+  describe('validateLaborHoursImportRows', () => {
+    const data = { date: '2025-09-01', store_id: 'store-1', department: 'food', hours: 8 };
+
+    it('should detect duplicate store/date/department rows within the file', () => {
+      const errors = validateLaborHoursImportRows([
+        { row: 2, data },
+        { row: 3, data: { ...data, department: null } },
+        { row: 4, data: { ...data, hours: 9 } },
+      ]);
+
+      expect(errors).toEqual([{
+        row: 4,
+        errors: [expect.objectContaining({ code: 'DUPLICATE_IN_FILE', message: expect.stringContaining('2行目') })],
+      }]);
+    });
+
+    it('should report missing hours and negative values', () => {
+      const errors = validateLaborHoursImportRows([
+        { row: 2, data: { ...data, hours: undefined as unknown as number } },
+        { row: 3, data: { ...data, department: 'fashion', hours: -1 } },
+      ]);
+
+      expect(errors.map(({ row, errors: rowErrors }) => [row, rowErrors[0].code])).toEqual([
+        [2, 'REQUIRED'],
+        [3, 'OUT_OF_RANGE'],
+      ]);
+    });
+  });
+
+  describe('buildLaborHoursKey', () => {
+    it('should treat a missing department as the store-level key', () => {
+      expect(buildLaborHoursKey({ date: '2025-09-01', store_id: 'store-1', department: null }))
+        .toBe(buildLaborHoursKey({ date: '2025-09-01', store_id: 'store-1' }));
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * 売上 KPI 比較サービス ユニットテスト
+ * @jest-environment node
+ */
+
+import { SalesComparisonService, canUseDailySummary } from '@/lib/services/sales-comparison';
+
+jest.mock('@/lib/supabase/server');
+
+function createBuilder(data: unknown[]) {
+  const builder: any = {
+    select: jest.fn(() => builder),
+    order: jest.fn(() => builder),
+    range: jest.fn(() => builder),
+    in: jest.fn(() => builder),
+    gte: jest.fn(() => builder),
+    lte: jest.fn(() => builder),
+    then: (resolve: (value: any) => unknown) => Promise.resolve({ data, error: null }).then(resolve),
+  };
+  return builder;
+}
+
+describe('SalesComparisonService', () => {
+  const today = '2025-08-26';
+  const dateRange = { start: '2025-08-01', end: '2025-08-07' };
+
+  describe('canUseDailySummary', () => {
+    it('should use the daily summary for store-level filters on approved sales', () => {
+      expect(canUseDailySummary({ dateRange, storeIds: ['store-1'] }, dateRange, today)).toBe(true);
+      expect(canUseDailySummary({ dateRange, salesStatus: 'approved' }, dateRange, today)).toBe(true);
+    });
+
+    it('should fall back to sales for department, category, status or channel filters', () => {
+      expect(canUseDailySummary({ dateRange, departments: ['food'] }, dateRange, today)).toBe(false);
+      expect(canUseDailySummary({ dateRange, productCategories: ['fresh'] }, dateRange, today)).toBe(false);
+      expect(canUseDailySummary({ dateRange, salesStatus: 'approved_pending' }, dateRange, today)).toBe(false);
+      expect(canUseDailySummary({ dateRange, channels: ['ec'] }, dateRange, today)).toBe(false);
+    });
+
+    it('should fall back to sales for periods older than the summary window', () => {
+      expect(canUseDailySummary({ dateRange }, { start: '2023-08-01', end: '2023-08-07' }, today)).toBe(false);
+    });
+  });
+
+  describe('getComparison', () => {
+    it('should aggregate both bases from the daily summary', async () => {
+      const rpc = jest.fn()
+        .mockResolvedValueOnce({
+          data: [{ total_revenue_ex_tax: '700000', total_footfall: 2000, total_transactions: 500 }],
+          error: null,
+        })
+        .mockResolvedValueOnce({
+          data: [{ total_revenue_ex_tax: '500000', total_footfall: 1000, total_transactions: 400 }],
+          error: null,
+        });
+      const service = new SalesComparisonService({ rpc, from: jest.fn() } as any);
+
+      const result = await service.getComparison({ dateRange, storeIds: ['store-1'] }, today);
+
+      expect(rpc).toHaveBeenCalledWith('get_sales_kpi_summary', {
+        p_start_date: '2025-07-25',
+        p_end_date: '2025-07-31',
+        p_store_ids: ['store-1'],
+      });
+      expect(rpc).toHaveBeenCalledWith('get_sales_kpi_summary', {
+        p_start_date: '2024-08-02',
+        p_end_date: '2024-08-08',
+        p_store_ids: ['store-1'],
+      });
+      expect(result.comparisons.previous_period).toMatchObject({
+        source: 'summary',
+        kpis: { totalRevenue: 700000, averageTransactionValue: 1400, conversionRate: 25 },
+      });
+      expect(result.comparisons.prior_year.kpis.totalRevenue).toBe(500000);
+    });
+
+    it('should aggregate sales directly when filtering by department', async () => {
+      const builders = [
+        createBuilder([
+          { revenue_ex_tax: 30000, footfall: 100, transactions: 20 },
+          { revenue_ex_tax: 10000, footfall: 50, transactions: 10 },
+        ]),
+        createBuilder([]),
+      ];
+      const from = jest.fn(() => builders.shift());
+      const service = new SalesComparisonService({ rpc: jest.fn(), from } as any);
+
+      const result = await service.getComparison({ dateRange, departments: ['food'] }, today);
+
+      expect(from).toHaveBeenCalledWith('sales');
+      expect(result.comparisons.previous_period).toMatchObject({
+        source: 'sales',
+        kpis: { totalRevenue: 40000, totalFootfall: 150, totalTransactions: 30 },
+      });
+      expect(result.comparisons.prior_year.kpis.totalRevenue).toBe(0);
+    });
+
+    it('should compare like-for-like stores only', async () => {
+      const builders = [
+        createBuilder([
+          { id: 'store-1', opened_on: '2010-04-01', closed_on: null },
+          { id: 'store-2', opened_on: '2025-03-01', closed_on: null },
+        ]),
+        createBuilder([]),
+      ];
+      const from = jest.fn(() => builders.shift());
+      const rpc = jest.fn().mockResolvedValue({
+        data: [{ total_revenue_ex_tax: '100000', total_footfall: 100, total_transactions: 50 }],
+        error: null,
+      });
+      const service = new SalesComparisonService({ rpc, from } as any);
+
+      const result = await service.getComparison({ dateRange, likeForLike: true }, today);
+
+      expect(from).toHaveBeenCalledWith('dim_store');
+      expect(from).toHaveBeenCalledWith('store_closure_periods');
+      expect(rpc).toHaveBeenCalledWith('get_sales_kpi_summary', expect.objectContaining({ p_store_ids: ['store-1'] }));
+      expect(result.likeForLike).toEqual({
+        window: { start: '2024-08-02', end: '2025-08-07' },
+        storeIds: ['store-1'],
+        excludedStoreIds: ['store-2'],
+      });
+    });
+
+    it('should return zero KPIs when no store is like-for-like', async () => {
+      const builders = [
+        createBuilder([{ id: 'store-2', opened_on: '2025-03-01', closed_on: null }]),
+        createBuilder([]),
+      ];
+      const rpc = jest.fn();
+      const service = new SalesComparisonService({ rpc, from: jest.fn(() => builders.shift()) } as any);
+
+      const result = await service.getComparison({ dateRange, likeForLike: true }, today);
+
+      expect(rpc).not.toHaveBeenCalled();
+      expect(result.comparisons.previous_period.kpis.totalRevenue).toBe(0);
+      expect(result.comparisons.prior_year.dateRange).toEqual({ start: '2024-08-02', end: '2024-08-08' });
+    });
+
+    it('should surface summary errors', async () => {
+      const rpc = jest.fn().mockResolvedValue({ data: null, error: { message: 'boom' } });
+      const service = new SalesComparisonService({ rpc, from: jest.fn() } as any);
+
+      await expect(service.getComparison({ dateRange }, today)).rejects.toThrow('Failed to fetch sales KPI summary: boom');
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * 売上一括インポートサービス ユニットテスト
+ * @jest-environment node
+ */
+
+import * as ExcelJS from 'exceljs';
+import {
+  calculateImportTaxes,
+  decodeCsvBuffer,
+  detectFileType,
+  findExistingDuplicates,
+  mergeRowErrors,
+  parseSalesImportFile,
+  validateImportRows,
+} from '@/lib/services/sales-import';
+
+jest.mock('@/lib/supabase/server');
+
+const CSV_HEADER = '日付,店舗ID,部門,商品カテゴリ,税抜売上,客数,取引数,割引額,備考';
+
+// Shift_JIS エンコード済みの「日付,税抜売上」ヘッダー
+const SJIS_HEADER = Buffer.from([
+  0x93, 0xfa, 0x95, 0x74, 0x2c, 0x90, 0xc5, 0x94, 0xb2, 0x94, 0x84, 0x8f, 0xe3, 0x0a,
+]);
+
+describe('SalesImportService', () => {
+  describe('detectFileType', () => {
+    it('should detect csv and xlsx by extension', () => {
+      expect(detectFileType('sales.CSV')).toBe('csv');
+      expect(detectFileType('月末売上.xlsx')).toBe('xlsx');
+      expect(detectFileType('sales.xls')).toBeNull();
+    });
+  });
+
+  describe('decodeCsvBuffer', () => {
+    it('should strip UTF-8 BOM', () => {
+      const buffer = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('日付,税抜売上\n')]);
+      expect(decodeCsvBuffer(buffer)).toBe('日付,税抜売上\n');
+    });
+
+    it('should fall back to Shift_JIS for non UTF-8 bytes', () => {
+      expect(decodeCsvBuffer(SJIS_HEADER)).toBe('日付,税抜売上\n');
+    });
+  });
+
+  describe('parseSalesImportFile', () => {
+    it('should map Japanese headers and normalize values', async () => {
+      const csv = [
+        CSV_HEADER,
+        '2025/8/1,store-1,food,standard,"120,000",100,50,1000,月末分',
+      ].join('\n');
+
+      const { rows, errors } = await parseSalesImportFile(Buffer.from(csv), 'csv');
+
+      expect(errors).toHaveLength(0);
+      expect(rows).toEqual([{
+        row: 2,
+        data: {
+          date: '2025-08-01',
+          store_id: 'store-1',
+          department: 'food',
+          product_category: 'standard',
+          revenue_ex_tax: 120000,
+          footfall: 100,
+          transactions: 50,
+          discounts: 1000,
+          notes: '月末分',
+        },
+      }]);
+    });
+
+    it('should accept channel labels as well as channel codes', async () => {
+      const csv = [
+        '日付,店舗ID,部門,商品カテゴリ,チャネル,税抜売上',
+        '2025-08-01,store-1,food,standard,外商,1000',
+        '2025-08-01,store-1,food,standard,EC,2000',
+        '2025-08-01,store-1,food,standard,,3000',
+      ].join('\n');
+
+      const { rows } = await parseSalesImportFile(Buffer.from(csv), 'csv');
+
+      expect(rows.map(({ data }) => data.channel)).toEqual(['corporate', 'ec', undefined]);
+    });
+
+    it('should report non numeric values with row numbers', async () => {
+      const csv = [
+        'date,store_id,department,product_category,revenue_ex_tax',
+        '2025-08-01,store-1,food,standard,100000',
+        '2025-08-01,store-1,food,premium,abc',
+      ].join('\n');
+
+      const { rows, errors } = await parseSalesImportFile(Buffer.from(csv), 'csv');
+
+      expect(rows).toHaveLength(1);
+      expect(errors).toEqual([{
+        row: 3,
+        errors: [expect.objectContaining({ field: 'revenue_ex_tax', code: 'INVALID_NUMBER' })],
+      }]);
+    });
+
+    it('should read the first worksheet of an xlsx file', async () => {
+      const workbook = new ExcelJS.Workbook();
+      const worksheet = workbook.addWorksheet('売上');
+      worksheet.addRow(['日付', '店舗ID', '部門', '商品カテゴリ', '税抜売上']);
+      worksheet.addRow([new Date(Date.UTC(2025, 7, 1)), 'store-1', 'food', 'standard', 80000]);
+      const buffer = await workbook.xlsx.writeBuffer();
+
+      const { rows, errors } = await parseSalesImportFile(new Uint8Array(buffer), 'xlsx');
+
+      expect(errors).toHaveLength(0);
+      expect(rows[0]).toEqual({
+        row: 2,
+        data: {
+          date: '2025-08-01',
+          store_id: 'store-1',
+          department: 'food',
+          product_category: 'standard',
+          revenue_ex_tax: 80000,
+        },
+      });
+    });
+  });
+
+  describe('validateImportRows', () => {
+    const baseData = {
+      date: '2025-08-01',
+      store_id: 'store-1',
+      department: 'food',
+      product_category: 'standard',
+      revenue_ex_tax: 100000,
+    };
+
+    it('should run validateSalesForm on each row', () => {
+      const errors = validateImportRows([
+        { row: 2, data: baseData },
+        { row: 3, data: { ...baseData, product_category: 'premium', footfall: 10, transactions: 20 } },
+      ]);
+
+      expect(errors).toEqual([{
+        row: 3,
+        errors: [expect.objectContaining({ code: 'INCONSISTENT_DATA' })],
+      }]);
+    });
+
+    it('should flag duplicate keys within the file', () => {
+      const errors = validateImportRows([
+        { row: 2, data: baseData },
+        { row: 5, data: { ...baseData, revenue_ex_tax: 1 } },
+      ]);
+
+      expect(errors).toEqual([{
+        row: 5,
+        errors: [expect.objectContaining({ code: 'DUPLICATE_IN_FILE', message: expect.stringContaining('2行目') })],
+      }]);
+    });
+
+    it('should treat the same key in another channel as a separate row', () => {
+      const errors = validateImportRows([
+        { row: 2, data: baseData },
+        { row: 3, data: { ...baseData, channel: 'ec' } },
+        { row: 4, data: { ...baseData, channel: 'store' } },
+      ]);
+
+      expect(errors).toEqual([{
+        row: 4,
+        errors: [expect.objectContaining({ code: 'DUPLICATE_IN_FILE', message: expect.stringContaining('2行目') })],
+      }]);
+    });
+  });
+
+  describe('findExistingDuplicates', () => {
+    it('should flag rows whose key already exists', async () => {
+      const builder: any = {
+        select: jest.fn(() => builder),
+        in: jest.fn(() => builder),
+        order: jest.fn(() => builder),
+        range: jest.fn(() => builder),
+        then: (resolve: (value: any) => unknown) => Promise.resolve({
+          data: [
+            { date: '2025-08-01', store_id: 'store-1', department: 'food', product_category: 'standard', channel: 'store' },
+            { date: '2025-08-01', store_id: 'store-1', department: 'food', product_category: 'premium', channel: 'ec' },
+          ],
+          error: null,
+        }).then(resolve),
+      };
+      const supabase: any = { from: jest.fn(() => builder) };
+
+      const errors = await findExistingDuplicates(supabase, [
+        { row: 2, data: { date: '2025-08-01', store_id: 'store-1', department: 'food', product_category: 'standard', revenue_ex_tax: 1 } },
+        { row: 3, data: { date: '2025-08-01', store_id: 'store-1', department: 'food', product_category: 'premium', revenue_ex_tax: 1 } },
+      ]);
+
+      expect(builder.in).toHaveBeenCalledWith('date', ['2025-08-01']);
+      expect(errors).toEqual([{ row: 2, errors: [expect.objectContaining({ code: 'DUPLICATE' })] }]);
+    });
+
+    it('should page through existing rows beyond the 1000-row response limit', async () => {
+      // 1ページ目は別の部門の行で埋まり、重複する行は2ページ目にのみ含まれる
+      const firstPage = Array.from({ length: 1000 }, (_, index) => (
+        { date: '2025-08-01', store_id: 'store-1', department: `dept-${index}`, product_category: 'standard', channel: 'store' }
+      ));
+      const secondPage = [
+        { date: '2025-08-01', store_id: 'store-1', department: 'food', product_category: 'standard', channel: 'store' },
+      ];
+      const pages = [firstPage, secondPage];
+      const builder: any = {
+        select: jest.fn(() => builder),
+        in: jest.fn(() => builder),
+        order: jest.fn(() => builder),
+        range: jest.fn(() => Promise.resolve({ data: pages.shift(), error: null })),
+      };
+      const supabase: any = { from: jest.fn(() => builder) };
+
+      const errors = await findExistingDuplicates(supabase, [
+        { row: 2, data: { date: '2025-08-01', store_id: 'store-1', department: 'food', product_category: 'standard', revenue_ex_tax: 1 } },
+      ]);
+
+      expect(builder.range).toHaveBeenNthCalledWith(1, 0, 999);
+      expect(builder.range).toHaveBeenNthCalledWith(2, 1000, 1999);
+      expect(errors).toEqual([{ row: 2, errors: [expect.objectContaining({ code: 'DUPLICATE' })] }]);
+    });
+  });
+
+  describe('calculateImportTaxes', () => {
+    it('should apply the rule per row and flag rows without a rule', () => {
+      const rules: any[] = [
+        { id: 'standard', department: null, product_category: null, rate: 0.1, valid_from: '2019-10-01', valid_to: null },
+        { id: 'food', department: 'food', product_category: null, rate: 0.08, valid_from: '2019-10-01', valid_to: null },
+      ];
+
+      const { taxes, errors } = calculateImportTaxes([
+        { row: 2, data: { date: '2025-08-01', store_id: 'store-1', department: 'food', product_category: 'standard', revenue_ex_tax: 10000 } },
+        { row: 3, data: { date: '2025-08-01', store_id: 'store-1', department: 'books', product_category: 'standard', revenue_ex_tax: 10000 } },
+        { row: 4, data: { date: '2019-09-30', store_id: 'store-1', department: 'books', product_category: 'standard', revenue_ex_tax: 10000 } },
+        { row: 5, data: { date: '2025/13/01', store_id: 'store-1', department: 'books', product_category: 'standard', revenue_ex_tax: 10000 } },
+      ], rules);
+
+      expect(taxes.get(2)).toEqual({ tax: 800, tax_rate: 0.08, rule_id: 'food' });
+      expect(taxes.get(3)).toEqual({ tax: 1000, tax_rate: 0.1, rule_id: 'standard' });
+      expect(errors).toEqual([{ row: 4, errors: [expect.objectContaining({ code: 'TAX_RULE_NOT_FOUND' })] }]);
+    });
+  });
+
+  describe('mergeRowErrors', () => {
+    it('should combine errors by row in ascending order', () => {
+      const merged = mergeRowErrors(
+        [{ row: 4, errors: [{ field: 'date', message: 'a', code: 'A' }] }],
+        [
+          { row: 2, errors: [{ field: 'store_id', message: 'b', code: 'B' }] },
+          { row: 4, errors: [{ field: 'notes', message: 'c', code: 'C' }] },
+        ]
+      );
+
+      expect(merged.map(({ row }) => row)).toEqual([2, 4]);
+      expect(merged[1].errors.map(({ code }) => code)).toEqual(['A', 'C']);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * 売上目標インポートサービス ユニットテスト
+ * @jest-environment node
+ */
+
+import {
+  parseSalesTargetImportFile,
+  validateTargetImportRows,
+} from '@/lib/services/sales-target-import';
+
+jest.mock('@/lib/supabase/server');
+
+describe('SalesTargetImportService', () => {
+  describe('parseSalesTargetImportFile', () => {
+    it('should treat month columns as monthly targets and dates as daily targets', async () => {
+      const csv = [
+        '対象月,対象日,店舗ID,部門,商品カテゴリ,売上目標,客数目標',
+        '2025/9,,store-1,,,"3,000,000",3000',
+        ',2025/9/15,store-1,food,,250000,',
+      ].join('\n');
+
+      const { rows, errors } = await parseSalesTargetImportFile(Buffer.from(csv), 'csv');
+
+      expect(errors).toHaveLength(0);
+      expect(rows.map(({ data }) => data)).toEqual([
+        {
+          period_type: 'monthly',
+          target_date: '2025-09-01',
+          store_id: 'store-1',
+          department: null,
+          product_category: null,
+          revenue_target: 3000000,
+          footfall_target: 3000,
+        },
+        {
+          period_type: 'daily',
+          target_date: '2025-09-15',
+          store_id: 'store-1',
+          department: 'food',
+          product_category: null,
+          revenue_target: 250000,
+          footfall_target: null,
+        },
+      ]);
+    });
+
+    it('should report non-numeric targets as format errors', async () => {
+      const csv = ['対象月,店舗ID,売上目標', '2025-09,store-1,未定'].join('\n');
+
+      const { rows, errors } = await parseSalesTargetImportFile(Buffer.from(csv), 'csv');
+
+      expect(rows).toHaveLength(0);
+      expect(errors[0].errors[0]).toEqual(expect.objectContaining({ field: 'revenue_target', code: 'INVALID_NUMBER' }));
+    });
+  });
+
+  describe('validateTargetImportRows', () => {
+    it('should detect duplicate scopes within the file', () => {
+      const data = {
+        period_type: 'monthly' as const,
+        target_date: '2025-09-01',
+        store_id: 'store-1',
+        department: null,
+        product_category: null,
+        revenue_target: 1000,
+        footfall_target: null,
+      };
+
+      const errors = validateTargetImportRows([
+        { row: 2, data },
+        { row: 3, data: { ...data, revenue_target: 2000 } },
+        { row: 4, data: { ...data, department: 'food' } },
+      ]);
+
+      expect(errors).toEqual([
+        { row: 3, errors: [expect.objectContaining({ code: 'DUPLICATE_IN_FILE' })] },
+      ]);
+    });
+
+    it('should require a target value', () => {
+      const errors = validateTargetImportRows([{
+        row: 2,
+        data: {
+          period_type: 'daily',
+          target_date: '2025-09-15',
+          store_id: 'store-1',
+          department: null,
+          product_category: null,
+          revenue_target: null,
+          footfall_target: null,
+        },
+      }]);
+
+      expect(errors[0].errors).toEqual([expect.objectContaining({ field: 'revenue_target', code: 'REQUIRED' })]);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * 売上承認ワークフロー通知 ユニットテスト
+ * @jest-environment node
+ */
+
+import { SalesWorkflowService } from '@/lib/services/sales-workflow';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { NotificationService } from '@/lib/services/notification';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/services/notification', () => ({
+  NotificationService: { sendCustomNotification: jest.fn().mockResolvedValue(undefined) },
+}));
+
+const mockCreateServiceRoleClient = createServiceRoleClient as jest.MockedFunction<typeof createServiceRoleClient>;
+const mockSend = NotificationService.sendCustomNotification as jest.MockedFunction<
+  typeof NotificationService.sendCustomNotification
+>;
+
+function createBuilder(data: unknown) {
+  const builder: any = {
+    select: jest.fn(() => builder),
+    eq: jest.fn(() => builder),
+    in: jest.fn(() => builder),
+    single: jest.fn().mockResolvedValue({ data, error: null }),
+    then: (resolve: (value: any) => unknown) => Promise.resolve({ data, error: null }).then(resolve),
+  };
+  return builder;
+}
+
+describe('SalesWorkflowService.notifyTransition', () => {
+  const sales: any = {
+    id: 'sales-1',
+    date: '2025-08-19',
+    store_id: 'store-1',
+    department: 'food',
+    product_category: 'standard',
+    revenue_ex_tax: 100000,
+    status: 'submitted',
+    submitted_by: 'manager-1',
+    created_by: 'manager-1',
+  };
+
+  const profiles = [
+    { id: 'admin-1', email: 'admin@example.com', full_name: '管理者', role: 'admin' },
+    { id: 'manager-1', email: 'manager1@example.com', full_name: '店長A', role: 'manager' },
+    { id: 'manager-2', email: 'manager2@example.com', full_name: '店長B', role: 'manager' },
+    { id: 'manager-3', email: 'manager3@example.com', full_name: '店長C', role: 'manager' },
+  ];
+
+  let userClient: any;
+  let serviceClient: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // 操作したユーザーのクライアント（RLS により他のユーザーのプロフィール・店舗権限は見えない）
+    userClient = {
+      from: jest.fn((table: string) => createBuilder(table === 'dim_store' ? { name: '本店' } : [])),
+    };
+    serviceClient = {
+      from: jest.fn((table: string) => table === 'user_store_access'
+        ? createBuilder([{ user_id: 'manager-1' }, { user_id: 'manager-2' }])
+        : createBuilder(profiles)),
+    };
+    mockCreateServiceRoleClient.mockReturnValue(serviceClient);
+  });
+
+  it('should notify approvers of the store when a manager submits', async () => {
+    await SalesWorkflowService.notifyTransition(userClient, { sales, action: 'submit', actorId: 'manager-1' });
+
+    expect(serviceClient.from).toHaveBeenCalledWith('user_store_access');
+    expect(serviceClient.from).toHaveBeenCalledWith('user_profiles');
+    expect(userClient.from).not.toHaveBeenCalledWith('user_profiles');
+    expect(mockSend).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({ id: 'admin-1', email: 'admin@example.com' }),
+        expect.objectContaining({ id: 'manager-2', email: 'manager2@example.com' }),
+      ],
+      expect.stringContaining('本店'),
+      expect.any(Object),
+      'normal'
+    );
+  });
+
+  it('should notify the submitter when a manager rejects', async () => {
+    serviceClient.from.mockImplementation(() => createBuilder([profiles[1]]));
+
+    await SalesWorkflowService.notifyTransition(userClient, {
+      sales: { ...sales, status: 'draft' },
+      action: 'reject',
+      actorId: 'manager-2',
+      comment: '客数を確認してください',
+    });
+
+    expect(mockSend).toHaveBeenCalledWith(
+      [expect.objectContaining({ id: 'manager-1', email: 'manager1@example.com' })],
+      expect.any(String),
+      expect.any(Object),
+      'high'
+    );
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * 売上報告SLAサービス ユニットテスト
+ * @jest-environment node
+ */
+
+import {
+  SubmissionSLAService,
+  classifySubmission,
+  findDueCutoff,
+  getSubmissionDeadline,
+  listDates,
+  parseCutoffs,
+  toJSTDateString,
+} from '@/lib/services/submission-sla';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@/lib/services/audit', () => ({
+  AuditService: { log: jest.fn() },
+}));
+jest.mock('@/lib/services/notification', () => ({
+  NotificationService: { sendCustomNotification: jest.fn() },
+}));
+
+function createBuilder(data: unknown[]) {
+  const builder: any = {
+    select: jest.fn(() => builder),
+    order: jest.fn(() => builder),
+    in: jest.fn(() => builder),
+    eq: jest.fn(() => builder),
+    neq: jest.fn(() => builder),
+    gte: jest.fn(() => builder),
+    lte: jest.fn(() => builder),
+    range: jest.fn(() => builder),
+    then: (resolve: (value: any) => unknown) => Promise.resolve({ data, error: null }).then(resolve),
+  };
+  return builder;
+}
+
+describe('SubmissionSLAService', () => {
+  describe('JST helpers', () => {
+    it('should convert UTC time to the JST business date', () => {
+      expect(toJSTDateString(new Date('2025-08-01T14:59:59Z'))).toBe('2025-08-01');
+      expect(toJSTDateString(new Date('2025-08-01T15:00:00Z'))).toBe('2025-08-02');
+    });
+
+    it('should set the deadline to midnight JST of the next day', () => {
+      expect(getSubmissionDeadline('2025-08-01').toISOString()).toBe('2025-08-01T15:00:00.000Z');
+    });
+
+    it('should list dates inclusively', () => {
+      expect(listDates('2025-07-30', '2025-08-02')).toEqual([
+        '2025-07-30', '2025-07-31', '2025-08-01', '2025-08-02',
+      ]);
+    });
+
+    it('should parse and sort reminder cut-offs', () => {
+      expect(parseCutoffs('23:30, 21:00,25:00,abc')).toEqual(['21:00', '23:30']);
+    });
+
+    it('should find the cut-off due in the cron interval', () => {
+      const cutoffs = ['21:00', '23:20'];
+      // 21:00 JST = 12:00 UTC
+      expect(findDueCutoff(new Date('2025-08-01T12:00:30Z'), cutoffs, 15)).toBe('21:00');
+      expect(findDueCutoff(new Date('2025-08-01T12:15:00Z'), cutoffs, 15)).toBeNull();
+      expect(findDueCutoff(new Date('2025-08-01T14:15:00Z'), cutoffs, 15)).toBeNull();
+      // 時刻が実行間隔の境界にない場合は、その後の最初の実行で送る
+      expect(findDueCutoff(new Date('2025-08-01T14:30:00Z'), cutoffs, 15)).toBe('23:20');
+      expect(findDueCutoff(new Date('2025-08-01T14:45:00Z'), cutoffs, 15)).toBeNull();
+    });
+  });
+
+  describe('classifySubmission', () => {
+    const now = new Date('2025-08-03T03:00:00Z');
+
+    it('should classify on-time and late submissions', () => {
+      expect(classifySubmission('2025-08-01', '2025-08-01T14:00:00Z', now)).toBe('on_time');
+      expect(classifySubmission('2025-08-01', '2025-08-01T15:30:00Z', now)).toBe('late');
+    });
+
+    it('should treat unsubmitted days as missing only after the deadline', () => {
+      expect(classifySubmission('2025-08-01', null, now)).toBe('missing');
+      expect(classifySubmission('2025-08-03', null, now)).toBe('pending');
+    });
+  });
+
+  describe('getComplianceReport', () => {
+    it('should compute per-store and overall rates excluding pending days', async () => {
+      const supabase: any = {
+        from: jest.fn((table: string) => table === 'dim_store'
+          ? createBuilder([{ id: 'store-1', name: '本店' }, { id: 'store-2', name: '駅前店' }])
+          : table === 'accounting_period_closes'
+          ? createBuilder([
+              { id: 'close-1', period: '2025-08-01', store_id: 'store-1', closed_at: '2025-09-01T00:00:00Z' },
+              { id: 'close-2', period: '2025-08-01', store_id: 'store-9', closed_at: '2025-09-01T00:00:00Z' },
+            ])
+          : createBuilder([
+              { store_id: 'store-1', date: '2025-08-01', submitted_at: '2025-08-01T12:00:00Z', created_at: '2025-08-01T11:00:00Z' },
+              { store_id: 'store-1', date: '2025-08-02', submitted_at: null, created_at: '2025-08-02T10:00:00Z' },
+              { store_id: 'store-2', date: '2025-08-01', submitted_at: '2025-08-02T01:00:00Z', created_at: '2025-08-01T11:00:00Z' },
+            ])),
+      };
+
+      const service = new SubmissionSLAService(supabase);
+      const report = await service.getComplianceReport(
+        '2025-08-01',
+        '2025-08-31',
+        undefined,
+        new Date('2025-08-03T03:00:00Z')
+      );
+
+      // 未来日は対象外、当日（8/3）は pending
+      expect(report.dailyRates.map(daily => daily.date)).toEqual(['2025-08-01', '2025-08-02', '2025-08-03']);
+      expect(report.stores).toEqual([
+        expect.objectContaining({ store_id: 'store-1', expected: 2, on_time: 2, rate: 1 }),
+        expect.objectContaining({ store_id: 'store-2', expected: 2, late: 1, missing: 1, rate: 0 }),
+      ]);
+      expect(report.overallRate).toBe(0.5);
+
+      // 対象外の店舗の締めは含めない
+      expect(report.generatedAt).toBe('2025-08-03T03:00:00.000Z');
+      expect(report.closedPeriods.map(close => close.id)).toEqual(['close-1']);
+    });
+
+    it('should page through sales rows beyond the 1000-row response limit', async () => {
+      // 1ページ目は別店舗の行で埋まり、store-1 の提出は2ページ目にのみ含まれる
+      const firstPage = Array.from({ length: 1000 }, () => (
+        { store_id: 'store-2', date: '2025-08-01', submitted_at: '2025-08-01T12:00:00Z', created_at: '2025-08-01T11:00:00Z' }
+      ));
+      const secondPage = [
+        { store_id: 'store-1', date: '2025-08-01', submitted_at: '2025-08-01T13:00:00Z', created_at: '2025-08-01T11:00:00Z' },
+      ];
+      const salesBuilders = [createBuilder(firstPage), createBuilder(secondPage)];
+      const supabase: any = {
+        from: jest.fn((table: string) => table === 'dim_store'
+          ? createBuilder([{ id: 'store-1', name: '本店' }, { id: 'store-2', name: '駅前店' }])
+          : table === 'accounting_period_closes'
+          ? createBuilder([])
+          : salesBuilders.shift()),
+      };
+
+      const service = new SubmissionSLAService(supabase);
+      const report = await service.getComplianceReport(
+        '2025-08-01',
+        '2025-08-01',
+        undefined,
+        new Date('2025-08-03T03:00:00Z')
+      );
+
+      expect(salesBuilders).toHaveLength(0);
+      expect(report.stores).toEqual([
+        expect.objectContaining({ store_id: 'store-1', on_time: 1, missing: 0 }),
+        expect.objectContaining({ store_id: 'store-2', on_time: 1, missing: 0 }),
+      ]);
+    });
+  });
+});
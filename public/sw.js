@@ -7,6 +7,7 @@
  * - Static asset caching with Stale-While-Revalidate
  * - Background data prefetching
  * - Network optimization
+ * - Offline sales entry queue (IndexedDB + Background Sync)
  */
 
 const CACHE_NAME = 'business-dashboard-v1.2.0'
@@ -106,7 +107,11 @@ self.addEventListener('fetch', (event) => {
   }
   
   // Handle different types of requests
-  if (isStaticAsset(url)) {
+  if (isSalesSubmission(request, url)) {
+    event.respondWith(handleSalesSubmission(request))
+  } else if (request.method !== 'GET') {
+    return
+  } else if (isStaticAsset(url)) {
     event.respondWith(handleStaticAsset(request))
   } else if (isAPIRequest(url)) {
     event.respondWith(handleAPIRequest(request))
@@ -163,6 +168,11 @@ async function handleStaticAsset(request) {
  * API Requests: Network First with Cache Fallback
  */
 async function handleAPIRequest(request) {
+  // Only GET responses can be cached
+  if (request.method !== 'GET') {
+    return fetch(request)
+  }
+
   const cache = await caches.open(CACHE_STRATEGIES.API)
   
   try {
@@ -401,6 +411,9 @@ async function initializeBackgroundSync() {
 self.addEventListener('sync', (event) => {
   if (event.tag === 'analytics-data-sync') {
     event.waitUntil(syncAnalyticsData())
+  } else if (event.tag === SALES_QUEUE_SYNC_TAG) {
+    // Rejecting keeps the sync registered so the browser retries with backoff
+    event.waitUntil(replaySalesQueue({ throwOnRetry: true }))
   }
 })
 
@@ -434,6 +447,248 @@ async function syncAnalyticsData() {
   }
 }
 
+// ========================================
+// OFFLINE SALES QUEUE
+// ========================================
+
+// POST /api/sales made while offline is stored in IndexedDB and replayed
+// with the same Idempotency-Key when connectivity returns (Background Sync,
+// or a REPLAY_SALES_QUEUE message from the page where sync is unsupported).
+// Entries the server rejects (409 duplicate, 422 warnings, ...) stay in the
+// queue as conflicts until the user retries or discards them.
+
+const SALES_QUEUE_DB = 'business-dashboard-offline'
+const SALES_QUEUE_STORE = 'sales-queue'
+const SALES_QUEUE_SYNC_TAG = 'sales-queue-sync'
+const SALES_SUBMISSION_PATH = '/api/sales'
+
+// Responses that need the user's decision instead of an automatic retry
+const SALES_CONFLICT_STATUSES = [400, 403, 409, 422, 423]
+
+function isSalesSubmission(request, url) {
+  return request.method === 'POST' && url.pathname === SALES_SUBMISSION_PATH
+}
+
+async function handleSalesSubmission(request) {
+  const body = request.clone().text()
+
+  try {
+    return await fetch(request)
+  } catch (error) {
+    console.warn('📴 Sales submission failed, queueing for background sync:', error)
+
+    const entry = await enqueueSalesSubmission(request, await body)
+    await registerSalesQueueSync()
+    await notifySalesQueueChanged()
+
+    return new Response(
+      JSON.stringify({
+        data: entry,
+        success: true,
+        message: 'オフラインのため送信待ちに保存しました。接続が回復すると自動で送信します'
+      }),
+      {
+        status: 202,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Offline-Queued': 'true'
+        }
+      }
+    )
+  }
+}
+
+async function enqueueSalesSubmission(request, body) {
+  const entry = {
+    // The Idempotency-Key doubles as the queue key so a replay can never create a second record
+    id: request.headers.get('Idempotency-Key') || self.crypto.randomUUID(),
+    url: SALES_SUBMISSION_PATH,
+    body,
+    status: 'pending',
+    validation: {
+      client: request.headers.get('X-Client-Validation') === 'passed' ? 'passed' : 'unchecked',
+      errors: [],
+      warnings: []
+    },
+    response: null,
+    attempts: 0,
+    queued_at: new Date().toISOString(),
+    last_attempt_at: null
+  }
+
+  await putQueuedSales(entry)
+  return entry
+}
+
+async function registerSalesQueueSync() {
+  try {
+    if (self.registration.sync) {
+      await self.registration.sync.register(SALES_QUEUE_SYNC_TAG)
+    }
+  } catch (error) {
+    // Without Background Sync the page replays the queue on the online event
+    console.warn('Background sync registration failed:', error)
+  }
+}
+
+/**
+ * Replay pending entries in the order they were queued.
+ * Stops at the first network failure; with throwOnRetry the failure is
+ * rethrown so Background Sync schedules another attempt.
+ */
+async function replaySalesQueue({ throwOnRetry = false } = {}) {
+  const entries = (await listQueuedSales()).filter(entry => entry.status === 'pending')
+  let retryNeeded = false
+
+  for (const entry of entries) {
+    const attempt = {
+      ...entry,
+      attempts: entry.attempts + 1,
+      last_attempt_at: new Date().toISOString()
+    }
+
+    let response
+    try {
+      response = await fetch(entry.url, {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': entry.id
+        },
+        body: entry.body
+      })
+    } catch (error) {
+      console.warn('📴 Sales queue replay failed, will retry:', error)
+      await putQueuedSales(attempt)
+      retryNeeded = true
+      break
+    }
+
+    const result = await response.json().catch(() => ({}))
+    const outcome = classifySalesReplay(response.status)
+
+    if (outcome === 'synced') {
+      await deleteQueuedSales(entry.id)
+      console.log(`✅ Queued sales submitted: ${entry.id}`)
+      continue
+    }
+
+    attempt.response = { status: response.status, message: result.message || null }
+
+    if (outcome === 'conflict') {
+      attempt.status = 'conflict'
+      attempt.validation = {
+        ...entry.validation,
+        errors: response.status === 422 ? [] : (Array.isArray(result.data) ? result.data : []),
+        warnings: response.status === 422 && Array.isArray(result.data) ? result.data : []
+      }
+      await putQueuedSales(attempt)
+      continue
+    }
+
+    // Signed out (401) or server error: keep it pending and try again later
+    await putQueuedSales(attempt)
+    retryNeeded = outcome === 'retry'
+    break
+  }
+
+  await notifySalesQueueChanged()
+
+  if (retryNeeded && throwOnRetry) {
+    throw new Error('Sales queue replay incomplete')
+  }
+}
+
+function classifySalesReplay(status) {
+  if (status >= 200 && status < 300) return 'synced'
+  if (SALES_CONFLICT_STATUSES.includes(status)) return 'conflict'
+  if (status === 401) return 'wait_for_login'
+  return 'retry'
+}
+
+/**
+ * User decision on a conflict: discard it, or put it back in the queue
+ * (optionally confirming the anomaly warnings returned by the server).
+ */
+async function resolveQueuedSales({ id, action, acknowledged_warnings: acknowledgedWarnings }) {
+  const entry = await getQueuedSales(id)
+  if (!entry) return
+
+  if (action === 'discard') {
+    await deleteQueuedSales(id)
+    await notifySalesQueueChanged()
+    return
+  }
+
+  if (action !== 'retry') {
+    throw new Error(`Unknown queue action: ${action}`)
+  }
+
+  const body = acknowledgedWarnings
+    ? JSON.stringify({ ...JSON.parse(entry.body), acknowledged_warnings: acknowledgedWarnings })
+    : entry.body
+
+  await putQueuedSales({ ...entry, body, status: 'pending', response: null })
+  await replaySalesQueue()
+}
+
+async function notifySalesQueueChanged() {
+  const entries = await listQueuedSales()
+  const clients = await self.clients.matchAll({ includeUncontrolled: true, type: 'window' })
+  clients.forEach(client => {
+    client.postMessage({ type: 'SALES_QUEUE_UPDATED', payload: entries })
+  })
+}
+
+function openSalesQueueDB() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(SALES_QUEUE_DB, 1)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(SALES_QUEUE_STORE)) {
+        db.createObjectStore(SALES_QUEUE_STORE, { keyPath: 'id' }).createIndex('queued_at', 'queued_at')
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withSalesQueueStore(mode, operation) {
+  const db = await openSalesQueueDB()
+
+  try {
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction(SALES_QUEUE_STORE, mode)
+      const request = operation(transaction.objectStore(SALES_QUEUE_STORE))
+
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+function listQueuedSales() {
+  return withSalesQueueStore('readonly', store => store.index('queued_at').getAll())
+}
+
+function getQueuedSales(id) {
+  return withSalesQueueStore('readonly', store => store.get(id))
+}
+
+function putQueuedSales(entry) {
+  return withSalesQueueStore('readwrite', store => store.put(entry))
+}
+
+function deleteQueuedSales(id) {
+  return withSalesQueueStore('readwrite', store => store.delete(id))
+}
+
 // ========================================
 // MESSAGE HANDLING
 // ========================================
@@ -461,6 +716,32 @@ self.addEventListener('message', (event) => {
     case 'PREFETCH_DATA':
       prefetchData(payload.urls)
       break
+
+    case 'GET_SALES_QUEUE':
+      event.waitUntil(
+        listQueuedSales().then(entries => {
+          event.ports[0].postMessage({ type: 'SALES_QUEUE', payload: entries })
+        })
+      )
+      break
+
+    case 'REPLAY_SALES_QUEUE':
+      event.waitUntil(
+        replaySalesQueue().then(listQueuedSales).then(entries => {
+          event.ports[0].postMessage({ type: 'SALES_QUEUE', payload: entries })
+        })
+      )
+      break
+
+    case 'RESOLVE_QUEUED_SALES':
+      event.waitUntil(
+        resolveQueuedSales(payload).then(listQueuedSales).then(entries => {
+          event.ports[0].postMessage({ type: 'SALES_QUEUE', payload: entries })
+        }).catch(error => {
+          event.ports[0].postMessage({ type: 'SALES_QUEUE', error: error.message })
+        })
+      )
+      break
       
     default:
       console.warn('Unknown message type:', type)
@@ -506,6 +787,11 @@ async function prefetchData(urls) {
 // ========================================
 
 self.addEventListener('fetch', (event) => {
+  // Non-GET requests are answered (or passed through) by the handler above
+  if (event.request.method !== 'GET') {
+    return
+  }
+
   // Track cache performance
   const startTime = performance.now()
   
@@ -0,0 +1,144 @@
+#!/usr/bin/env tsx
+/**
+ * ETL Backfill Script
+ * 過去の期間を指定した外部データ（市場・為替・天候・イベント・STEMニュース・インバウンド）の一括取得
+ *
+ * Usage:
+ *   npm run etl:backfill -- --from=2025-08-01 --to=2025-08-31 --dry-run
+ *   npm run etl:backfill -- --sources=weather,fx_rates --from=2025-08-29 --to=2025-08-31
+ *   npm run etl:backfill -- --resume=<etl_runs.id>
+ *
+ * Options:
+ *   --sources=a,b       取得するソース（省略時は全ソース）
+ *   --from=YYYY-MM-DD   対象期間の開始日
+ *   --to=YYYY-MM-DD     対象期間の終了日
+ *   --resume=UUID       中断・失敗したバックフィルの続きから取得（ソースと期間は元の実行のものを使う）
+ *   --actor=UUID        実行履歴に記録する実行者のユーザーID
+ *   --dry-run           追加・更新される行数のみ表示し、書き込まない
+ *
+ * 日次ソースは1日単位、inbound は1か月単位で取得し、ソースごとのレート制限
+ * （ETL_RATE_LIMIT_<SOURCE>: 1分あたりのリクエスト数）を守る。
+ * 進捗は etl_runs / etl_run_sources に記録され、監視画面の ETL 実行履歴で確認できる。
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import type { createClient as createServerClient } from '@/lib/supabase/server'
+import { SOURCE_TYPES } from '@/lib/services/data-source-adapters'
+import { BackfillParams, BackfillResult, ETLBackfillService, backfillParamsFromRun } from '@/lib/services/etl-backfill'
+import { fetchEtlRun } from '@/lib/services/etl-runs'
+import { validateEtlBackfillForm } from '@/lib/validations/etl-backfill'
+import { Database } from '@/types/database.types'
+
+interface BackfillCommandOptions {
+  sources?: string[]
+  from?: string
+  to?: string
+  resume?: string
+  actorId: string | null
+  dryRun: boolean
+}
+
+function parseOptions(args: string[]): BackfillCommandOptions {
+  const value = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1]
+
+  return {
+    sources: value('sources')?.split(',').map(source => source.trim()).filter(Boolean),
+    from: value('from'),
+    to: value('to'),
+    resume: value('resume'),
+    actorId: value('actor') || null,
+    dryRun: args.includes('--dry-run')
+  }
+}
+
+function printSummary(result: BackfillResult) {
+  console.log('\n📋 Summary')
+  console.log(`  Run:       ${result.runId ?? '- (not recorded)'}`)
+  console.log(`  Chunks:    ${result.completedChunks}/${result.totalChunks} completed, ${result.remainingChunks} remaining`)
+
+  for (const source of result.sources) {
+    const counts = result.dryRun
+      ? `${source.recordsProcessed} fetched, ${source.wouldInsert} to insert, ${source.wouldUpdate} to update, ${source.wouldUnchanged} unchanged`
+      : `${source.recordsProcessed} records`
+    console.log(`  ${source.error ? '❌' : '✅'} ${source.source}: ${source.completedChunks}/${source.totalChunks} chunks, ${counts}`)
+    if (source.error) {
+      console.log(`     ${source.error}`)
+    }
+  }
+}
+
+async function main() {
+  const options = parseOptions(process.argv.slice(2))
+
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('❌ NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required')
+    process.exit(1)
+  }
+
+  const supabase = createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY,
+    { auth: { persistSession: false } }
+  )
+  // サービスロールのクライアントを ETL サービスに渡す（スキーマはサーバー用クライアントと同じ）
+  const serverClient = supabase as unknown as Awaited<ReturnType<typeof createServerClient>>
+
+  let params: BackfillParams
+
+  if (options.resume) {
+    const run = await fetchEtlRun(serverClient, options.resume)
+    const previous = run && backfillParamsFromRun(run)
+    if (!run || !previous) {
+      console.error(`❌ Backfill run not found: ${options.resume}`)
+      process.exit(1)
+    }
+    params = { ...previous, resume_of: run.id }
+  } else {
+    const errors = validateEtlBackfillForm(
+      { sources: options.sources, start_date: options.from, end_date: options.to },
+      new Date().toISOString().split('T')[0]
+    )
+    if (errors.length > 0) {
+      errors.forEach(error => console.error(`❌ ${error.field}: ${error.message}`))
+      process.exit(1)
+    }
+    params = {
+      sources: options.sources ? SOURCE_TYPES.filter(source => options.sources!.includes(source)) : SOURCE_TYPES,
+      start_date: options.from!,
+      end_date: options.to!,
+      resume_of: null
+    }
+  }
+
+  console.log(`📥 Backfilling external data${options.dryRun ? ' (dry run)' : ''}`)
+  console.log(`  Period:  ${params.start_date} 〜 ${params.end_date}`)
+  console.log(`  Sources: ${params.sources.join(', ')}`)
+  if (params.resume_of) {
+    console.log(`  Resume:  ${params.resume_of}`)
+  }
+
+  try {
+    const service = new ETLBackfillService(Promise.resolve(serverClient))
+    const result = await service.run(params, {
+      dryRun: options.dryRun,
+      triggeredBy: options.actorId,
+      onProgress: progress => {
+        console.log(`  … ${progress.completedChunks}/${progress.totalChunks} chunks`)
+      }
+    })
+
+    printSummary(result)
+    if (result.remainingChunks > 0 && result.runId) {
+      console.log(`\n↻ Resume with: npm run etl:backfill -- --resume=${result.runId}`)
+    }
+
+    process.exit(result.remainingChunks > 0 ? 1 : 0)
+  } catch (error) {
+    console.error('❌ ETL backfill failed:', error)
+    process.exit(1)
+  }
+}
+
+if (require.main === module) {
+  main()
+}
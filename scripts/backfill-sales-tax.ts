@@ -0,0 +1,186 @@
+#!/usr/bin/env tsx
+/**
+ * Sales Tax Backfill Script
+ * 税率ルール（tax_rules）に基づく既存売上データの税額再計算
+ *
+ * Usage:
+ *   npm run tax:backfill -- --dry-run
+ *   npm run tax:backfill -- --from=2019-10-01 --to=2025-08-31
+ *
+ * Options:
+ *   --from=YYYY-MM-DD   対象期間の開始日（省略時は全期間）
+ *   --to=YYYY-MM-DD     対象期間の終了日（省略時は全期間）
+ *   --batch-size=N      1回の取得・更新件数（既定: 500）
+ *   --actor=UUID        監査ログに記録する実行者のユーザーID
+ *   --dry-run           差分の件数のみ表示し、更新しない
+ *
+ * 承認済み・確定済みの行も recalculate_sales_tax() 経由で tax / tax_rate のみ更新する。
+ * 変更した行ごとに audit_log へ recalculate_sales_tax を記録する。
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { TaxRule, calculateSalesTax } from '@/lib/tax'
+import { Database } from '@/types/database.types'
+
+type SalesRow = Pick<
+  Database['public']['Tables']['sales']['Row'],
+  'id' | 'date' | 'department' | 'product_category' | 'revenue_ex_tax' | 'tax' | 'tax_rate'
+>
+
+interface BackfillOptions {
+  from?: string
+  to?: string
+  batchSize: number
+  actorId: string | null
+  dryRun: boolean
+}
+
+interface BackfillSummary {
+  scanned: number
+  changed: number
+  updated: number
+  missingRule: number
+}
+
+function parseOptions(args: string[]): BackfillOptions {
+  const value = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1]
+
+  return {
+    from: value('from'),
+    to: value('to'),
+    batchSize: parseInt(value('batch-size') || '500'),
+    actorId: value('actor') || null,
+    dryRun: args.includes('--dry-run')
+  }
+}
+
+async function fetchBatch(
+  supabase: SupabaseClient<Database>,
+  options: BackfillOptions,
+  offset: number
+): Promise<SalesRow[]> {
+  let query = supabase
+    .from('sales')
+    .select('id, date, department, product_category, revenue_ex_tax, tax, tax_rate')
+    .order('date')
+    .order('id')
+    .range(offset, offset + options.batchSize - 1)
+
+  if (options.from) query = query.gte('date', options.from)
+  if (options.to) query = query.lte('date', options.to)
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(`Failed to fetch sales: ${error.message}`)
+  }
+
+  return (data || []) as SalesRow[]
+}
+
+async function backfill(supabase: SupabaseClient<Database>, options: BackfillOptions): Promise<BackfillSummary> {
+  const { data: rules, error: rulesError } = await supabase.from('tax_rules').select('*')
+  if (rulesError) {
+    throw new Error(`Failed to fetch tax rules: ${rulesError.message}`)
+  }
+
+  const summary: BackfillSummary = { scanned: 0, changed: 0, updated: 0, missingRule: 0 }
+
+  // tax / tax_rate の更新では並び順（date, id）が変わらないため offset で走査できる
+  for (let offset = 0; ; offset += options.batchSize) {
+    const rows = await fetchBatch(supabase, options, offset)
+    if (rows.length === 0) break
+
+    summary.scanned += rows.length
+
+    const changes = rows.flatMap(row => {
+      const calculation = calculateSalesTax((rules || []) as TaxRule[], row)
+      if (!calculation) {
+        summary.missingRule++
+        console.warn(`  ⚠️  No tax rule for sales ${row.id} (${row.date} ${row.department}/${row.product_category})`)
+        return []
+      }
+      if (calculation.tax === row.tax && calculation.tax_rate === row.tax_rate) return []
+      return [{ row, calculation }]
+    })
+
+    summary.changed += changes.length
+    if (options.dryRun || changes.length === 0) continue
+
+    const { data: updatedCount, error: updateError } = await supabase.rpc('recalculate_sales_tax', {
+      p_updates: changes.map(({ row, calculation }) => ({
+        id: row.id,
+        tax: calculation.tax,
+        tax_rate: calculation.tax_rate
+      }))
+    })
+
+    if (updateError) {
+      throw new Error(`Failed to update sales tax: ${updateError.message}`)
+    }
+
+    summary.updated += updatedCount || 0
+
+    const { error: auditError } = await supabase.from('audit_log').insert(
+      changes.map(({ row, calculation }) => ({
+        actor_id: options.actorId,
+        action: 'recalculate_sales_tax',
+        target: `sales:${row.id}`,
+        at: new Date().toISOString(),
+        meta: {
+          source: 'tax_backfill',
+          sales_id: row.id,
+          date: row.date,
+          rule_id: calculation.rule_id,
+          before: { tax: row.tax, tax_rate: row.tax_rate },
+          after: { tax: calculation.tax, tax_rate: calculation.tax_rate }
+        }
+      }))
+    )
+
+    if (auditError) {
+      // 税額は更新済みのため中断して原因を確認する
+      throw new Error(`Failed to write audit log: ${auditError.message}`)
+    }
+
+    console.log(`  ✅ ${summary.scanned} scanned, ${summary.updated} updated`)
+  }
+
+  return summary
+}
+
+async function main() {
+  const options = parseOptions(process.argv.slice(2))
+
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('❌ NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required')
+    process.exit(1)
+  }
+
+  const supabase = createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY,
+    { auth: { persistSession: false } }
+  )
+
+  console.log(`🧾 Recalculating sales tax${options.dryRun ? ' (dry run)' : ''}`)
+  console.log(`  Period: ${options.from || '-'} 〜 ${options.to || '-'}`)
+
+  try {
+    const summary = await backfill(supabase, options)
+
+    console.log('\n📋 Summary')
+    console.log(`  Scanned:      ${summary.scanned}`)
+    console.log(`  Changed:      ${summary.changed}`)
+    console.log(`  Updated:      ${options.dryRun ? '- (dry run)' : summary.updated}`)
+    console.log(`  Missing rule: ${summary.missingRule}`)
+
+    process.exit(summary.missingRule > 0 ? 1 : 0)
+  } catch (error) {
+    console.error('❌ Tax backfill failed:', error)
+    process.exit(1)
+  }
+}
+
+if (require.main === module) {
+  main()
+}
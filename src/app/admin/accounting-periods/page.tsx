@@ -0,0 +1,17 @@
+import { Metadata } from 'next';
+import { AccountingPeriodManager } from '@/components/admin/AccountingPeriodManager';
+
+export const metadata: Metadata = {
+  title: '月次締め | 経営戦略ダッシュボード',
+  description: '店舗別・全店の月次締めと締めの解除',
+};
+
+export default function AccountingPeriodsPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4">
+        <AccountingPeriodManager />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { Metadata } from 'next';
+import { CampaignManager } from '@/components/admin/CampaignManager';
+
+export const metadata: Metadata = {
+  title: 'キャンペーンカレンダー | 経営戦略ダッシュボード',
+  description: '販促キャンペーンの期間・対象店舗・部門の管理と効果測定',
+};
+
+export default function CampaignsPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4">
+        <CampaignManager />
+      </div>
+    </div>
+  );
+}
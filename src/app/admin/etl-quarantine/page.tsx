@@ -0,0 +1,24 @@
+import { Metadata } from 'next';
+import { EtlQuarantineManager } from '@/components/admin/EtlQuarantineManager';
+
+export const metadata: Metadata = {
+  title: '外部データの隔離レコード | 経営戦略ダッシュボード',
+  description: 'ETL で書き込めなかった外部データのレコードの確認・反映・破棄',
+};
+
+interface EtlQuarantinePageProps {
+  searchParams: Promise<{ run_id?: string; source?: string }>;
+}
+
+// ETL 実行履歴のソース別の結果から、実行・ソースを指定して開く
+export default async function EtlQuarantinePage({ searchParams }: EtlQuarantinePageProps) {
+  const { run_id: runId, source } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4">
+        <EtlQuarantineManager runId={runId} initialSource={source} />
+      </div>
+    </div>
+  );
+}
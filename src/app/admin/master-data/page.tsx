@@ -0,0 +1,17 @@
+import { Metadata } from 'next';
+import { MasterDataManager } from '@/components/admin/MasterDataManager';
+
+export const metadata: Metadata = {
+  title: '部門・商品カテゴリ管理 | 経営戦略ダッシュボード',
+  description: '部門・商品カテゴリマスター（コード・表示名・表示順・有効フラグ）の管理',
+};
+
+export default function MasterDataPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4">
+        <MasterDataManager />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { Metadata } from 'next';
+import { StoreManager } from '@/components/admin/StoreManager';
+
+export const metadata: Metadata = {
+  title: '店舗管理 | 経営戦略ダッシュボード',
+  description: '店舗マスター（開店日・閉店日・改装/休業期間・売場面積・店舗タイプ）の管理',
+};
+
+export default function StoresPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4">
+        <StoreManager />
+      </div>
+    </div>
+  );
+}
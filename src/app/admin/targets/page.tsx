@@ -0,0 +1,17 @@
+import { Metadata } from 'next';
+import { SalesTargetManager } from '@/components/admin/SalesTargetManager';
+
+export const metadata: Metadata = {
+  title: '売上目標設定 | 経営戦略ダッシュボード',
+  description: '店舗・部門・商品カテゴリ別の月次／日次 売上・客数目標の管理',
+};
+
+export default function SalesTargetsPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4">
+        <SalesTargetManager />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { Metadata } from 'next';
+import { TaxRuleManager } from '@/components/admin/TaxRuleManager';
+
+export const metadata: Metadata = {
+  title: '消費税率設定 | 経営戦略ダッシュボード',
+  description: '部門・商品カテゴリ別の消費税率（適用期間付き）の管理',
+};
+
+export default function TaxRulesPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4">
+        <TaxRuleManager />
+      </div>
+    </div>
+  );
+}
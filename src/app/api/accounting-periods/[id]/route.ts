@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { AccountingPeriodClose, formatPeriodLabel } from '@/lib/accounting-periods';
+import { APIResponse } from '@/types/database.types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE: 締めの解除（管理者のみ）
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '締めを解除する権限がありません',
+      }, { status: 403 });
+    }
+
+    const { data: current, error: fetchError } = await supabase
+      .from('accounting_period_closes')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !current) {
+      if (fetchError && fetchError.code !== 'PGRST116') {
+        console.error('Error fetching accounting period close:', fetchError);
+        return serverErrorResponse('データベースエラーが発生しました');
+      }
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '締めが見つかりません',
+      }, { status: 404 });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('accounting_period_closes')
+      .delete()
+      .eq('id', id);
+
+    if (deleteError) {
+      console.error('Error deleting accounting period close:', deleteError);
+      return serverErrorResponse('締めの解除に失敗しました');
+    }
+
+    // 監査ログの記録（解除理由は任意）
+    const reason = request.nextUrl.searchParams.get('reason')?.trim() || null;
+    await AuditService.log({
+      action: 'reopen_period',
+      target: `accounting_period_closes:${id}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { before: current as AccountingPeriodClose, reason },
+    });
+
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: true,
+      message: `${formatPeriodLabel(current.period)}の締めを解除しました`,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in accounting period API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { toJSTDateString } from '@/lib/services/submission-sla';
+import { AccountingPeriodClose, fetchClosedPeriods, formatPeriodLabel, toPeriodMonth } from '@/lib/accounting-periods';
+import { validateAccountingPeriodCloseForm } from '@/lib/validations/accounting-periods';
+import { APIResponse, AccountingPeriodCloseInputForm, ValidationError } from '@/types/database.types';
+
+// GET: 締め済みの月の一覧（?start=YYYY-MM-DD&end=YYYY-MM-DD で絞り込み）
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const closes = await fetchClosedPeriods(supabase, searchParams.get('start'), searchParams.get('end'));
+
+    return NextResponse.json<APIResponse<AccountingPeriodClose[]>>({
+      data: closes,
+      success: true,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in accounting periods API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// POST: 月次締め（管理者のみ、store_id 省略時は全店）
+export async function POST(request: NextRequest) {
+  try {
+    const body: AccountingPeriodCloseInputForm = await request.json();
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '月次締めを行う権限がありません',
+      }, { status: 403 });
+    }
+
+    // バリデーション
+    const validationErrors = validateAccountingPeriodCloseForm(body, toJSTDateString(new Date()));
+    if (validationErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: validationErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const period = toPeriodMonth(body.period);
+    const storeId = body.store_id || null;
+
+    // 同じ月・同じ店舗（または全店）で締め済みの場合は登録不可
+    const existing = (await fetchClosedPeriods(supabase, period, period))
+      .find(close => close.store_id === null || close.store_id === storeId);
+    if (existing) {
+      return NextResponse.json<APIResponse<AccountingPeriodClose>>({
+        data: existing,
+        success: false,
+        message: `${formatPeriodLabel(period)}は${existing.store_id ? 'この店舗で' : '全店で'}締め済みです`,
+      }, { status: 409 });
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from('accounting_period_closes')
+      .insert([{
+        period,
+        store_id: storeId,
+        note: body.note?.trim() || null,
+        closed_by: user.id,
+      }])
+      .select()
+      .single();
+
+    if (insertError) {
+      if (insertError.code === '23505') { // unique_violation（同時に締められた）
+        return NextResponse.json<APIResponse<null>>({
+          data: null,
+          success: false,
+          message: `${formatPeriodLabel(period)}は締め済みです`,
+        }, { status: 409 });
+      }
+      if (insertError.code === '23503') { // foreign_key_violation
+        return NextResponse.json<APIResponse<ValidationError[]>>({
+          data: [{ field: 'store_id', message: '店舗が見つかりません', code: 'NOT_FOUND' }],
+          success: false,
+          message: '入力データに不正があります',
+        }, { status: 400 });
+      }
+      console.error('Error inserting accounting period close:', insertError);
+      return serverErrorResponse('月次締めの保存に失敗しました');
+    }
+
+    // 監査ログの記録
+    await AuditService.log({
+      action: 'close_period',
+      target: `accounting_period_closes:${created.id}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { after: created },
+    });
+
+    return NextResponse.json<APIResponse<AccountingPeriodClose>>({
+      data: created,
+      success: true,
+      message: `${formatPeriodLabel(period)}を締めました`,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in accounting periods API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+import { isSalesStatusFilter } from '@/lib/sales-status';
+import { parseSalesChannels } from '@/lib/sales-channels';
+import { SalesComparison } from '@/lib/sales-comparison';
+import { SalesComparisonService } from '@/lib/services/sales-comparison';
+import { toJSTDateString } from '@/lib/services/submission-sla';
+import { APIResponse, DashboardFilters } from '@/types/database.types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RANGE_DAYS = 366;
+
+// GET: ダッシュボードのフィルタ条件に対する前期間・前年同期の KPI
+// パラメータは /api/analytics と同じ（start, end, storeIds, departments, productCategories, channels, salesStatus, likeForLike）
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const canView = await hasPermission(user.id, 'dashboard', 'view');
+    if (!canView) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: 'ダッシュボードの閲覧権限がありません',
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('start');
+    const endDate = searchParams.get('end');
+
+    if (!startDate || !endDate || !DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate) || startDate > endDate) {
+      return badRequestResponse('期間の指定が不正です（YYYY-MM-DD）');
+    }
+
+    const rangeDays = (Date.parse(endDate) - Date.parse(startDate)) / (24 * 60 * 60 * 1000) + 1;
+    if (rangeDays > MAX_RANGE_DAYS) {
+      return badRequestResponse(`期間は${MAX_RANGE_DAYS}日以内で指定してください`);
+    }
+
+    const listParam = (name: string) => {
+      const values = searchParams.get(name)?.split(',').filter(Boolean);
+      return values?.length ? values : undefined;
+    };
+    const salesStatus = searchParams.get('salesStatus');
+
+    const filters: DashboardFilters = {
+      dateRange: { start: startDate, end: endDate },
+      storeIds: listParam('storeIds'),
+      departments: listParam('departments'),
+      productCategories: listParam('productCategories'),
+      channels: parseSalesChannels(searchParams.get('channels')),
+      salesStatus: isSalesStatusFilter(salesStatus) ? salesStatus : undefined,
+      likeForLike: searchParams.get('likeForLike') === 'true' || undefined,
+    };
+
+    // 閲覧できない店舗の売上は RLS / get_sales_kpi_summary で除外される
+    const service = new SalesComparisonService(supabase);
+    const comparison = await service.getComparison(filters, toJSTDateString(new Date()));
+
+    return NextResponse.json<APIResponse<SalesComparison>>({
+      data: comparison,
+      success: true,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in sales comparison API:', error);
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: false,
+      message: 'サーバーエラーが発生しました',
+    }, { status: 500 });
+  }
+}
+
+function badRequestResponse(message: string) {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 400 });
+}
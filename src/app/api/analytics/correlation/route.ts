@@ -7,6 +7,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { AuditService } from '@/lib/services/audit';
 import CorrelationService, { CorrelationFilters } from '@/lib/services/correlation';
+import { isSalesStatusFilter } from '@/lib/sales-status';
+import { isSalesChannel } from '@/lib/sales-channels';
 
 // パフォーマンス要件
 const CORRELATION_SLA_MS = 5000; // p95 ≤ 5秒
@@ -171,6 +173,7 @@ export async function GET(request: NextRequest) {
           '気温・湿度・降水量',
           '天候状況（晴・雨・曇）',
           'イベント開催有無',
+          'キャンペーン実施有無（除外も可）',
           '前日比・前年比'
         ],
         correlationMethods: [
@@ -262,6 +265,18 @@ function validateCorrelationRequest(filters: any): { valid: boolean; errors: str
     errors.push('カテゴリは文字列である必要があります');
   }
 
+  if (filters.channel && !isSalesChannel(filters.channel)) {
+    errors.push('チャネルは store, ec, corporate のいずれかを指定してください');
+  }
+
+  if (filters.salesStatus !== undefined && !isSalesStatusFilter(filters.salesStatus)) {
+    errors.push('集計対象のステータスが不正です');
+  }
+
+  if (filters.excludeCampaignDays !== undefined && typeof filters.excludeCampaignDays !== 'boolean') {
+    errors.push('キャンペーン日の除外指定は真偽値である必要があります');
+  }
+
   return {
     valid: errors.length === 0,
     errors
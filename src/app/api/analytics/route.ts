@@ -21,6 +21,8 @@ import {
 } from '@/lib/middleware/performance'
 import { sloMonitor } from '@/lib/monitoring/slo-monitor'
 import { DashboardFilters } from '@/types/database.types'
+import { isSalesStatusFilter } from '@/lib/sales-status'
+import { parseSalesChannels } from '@/lib/sales-channels'
 import { performance } from 'perf_hooks'
 
 // Edge Runtime for global distribution and performance
@@ -628,12 +630,17 @@ async function parseOptimizedFilters(searchParams: URLSearchParams): Promise<Das
     const storeIds = searchParams.get('storeIds')?.split(',').filter(Boolean)
     const departments = searchParams.get('departments')?.split(',').filter(Boolean)
     const productCategories = searchParams.get('productCategories')?.split(',').filter(Boolean)
+    const channels = parseSalesChannels(searchParams.get('channels'))
+    const salesStatus = searchParams.get('salesStatus')
 
     return {
       dateRange: { start: startDate, end: endDate },
       storeIds: storeIds?.length ? storeIds : undefined,
       departments: departments?.length ? departments : undefined,
-      productCategories: productCategories?.length ? productCategories : undefined
+      productCategories: productCategories?.length ? productCategories : undefined,
+      channels,
+      salesStatus: isSalesStatusFilter(salesStatus) ? salesStatus : undefined,
+      likeForLike: searchParams.get('likeForLike') === 'true' || undefined
     }
   } catch (error) {
     console.error('Optimized filter parsing error:', error)
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  LocalAttachmentStorage,
+  verifyLocalAttachmentSignature,
+} from '@/lib/services/attachment-storage';
+import { ATTACHMENT_CONTENT_TYPES } from '@/lib/validations/attachments';
+import { APIResponse } from '@/types/database.types';
+
+// GET: ローカル保存（ATTACHMENT_STORAGE=local）の添付ファイルのダウンロード
+// 権限の確認と監査ログは署名付き URL の発行時に行うため、ここでは署名と有効期限のみ確認する
+export async function GET(request: NextRequest) {
+  if (process.env.ATTACHMENT_STORAGE !== 'local') {
+    return errorResponse('ファイルが見つかりません', 404);
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const params = {
+    path: searchParams.get('path') || '',
+    name: searchParams.get('name') || '',
+    expires: Number(searchParams.get('expires')),
+    signature: searchParams.get('signature') || '',
+  };
+
+  try {
+    if (!verifyLocalAttachmentSignature(params)) {
+      return errorResponse('ダウンロード URL が無効か、有効期限が切れています', 403);
+    }
+
+    const extension = params.name.toLowerCase().match(/\.[^.]+$/)?.[0] ?? '';
+    const contentType = Object.entries(ATTACHMENT_CONTENT_TYPES)
+      .find(([, extensions]) => extensions.includes(extension))?.[0] || 'application/octet-stream';
+
+    let data: Uint8Array;
+    try {
+      data = await new LocalAttachmentStorage().read(params.path);
+    } catch {
+      return errorResponse('ファイルが見つかりません', 404);
+    }
+
+    return new NextResponse(Buffer.from(data), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(params.name)}`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in local attachment download API:', error);
+    return errorResponse('サーバーエラーが発生しました', 500);
+  }
+}
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status });
+}
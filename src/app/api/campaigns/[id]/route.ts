@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { Campaign } from '@/lib/campaigns';
+import { validateCampaignForm } from '@/lib/validations/campaigns';
+import { APIResponse, CampaignInputForm, ValidationError } from '@/types/database.types';
+
+type Supabase = Awaited<ReturnType<typeof createClient>>;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH: キャンペーンの更新（管理者のみ）
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body: Partial<CampaignInputForm> = await request.json();
+    const supabase = await createClient();
+
+    const auth = await authorizeAdmin(supabase);
+    if (auth.response) return auth.response;
+
+    const current = await fetchCampaign(supabase, id);
+    if (!current) return notFoundResponse();
+
+    // 楽観的排他制御
+    if (!body.updated_at) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: [{ field: 'updated_at', message: '更新前の updated_at を指定してください', code: 'REQUIRED' }],
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+    if (current.updated_at !== body.updated_at) {
+      return conflictResponse(current);
+    }
+
+    const merged = {
+      name: body.name?.trim() ?? current.name,
+      campaign_type: body.campaign_type ?? current.campaign_type,
+      start_date: body.start_date ?? current.start_date,
+      end_date: body.end_date ?? current.end_date,
+      store_ids: body.store_ids ?? current.store_ids,
+      departments: body.departments ?? current.departments,
+      discount_rate: 'discount_rate' in body ? body.discount_rate ?? null : current.discount_rate,
+      notes: 'notes' in body ? body.notes || null : current.notes,
+    };
+
+    const validationErrors = validateCampaignForm(merged);
+    if (validationErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: validationErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('campaigns')
+      .update({ ...merged, updated_by: auth.userId })
+      .eq('id', id)
+      .eq('updated_at', body.updated_at)
+      .select()
+      .single();
+
+    if (updateError?.code === 'PGRST116' || (!updateError && !updated)) {
+      return conflictResponse(await fetchCampaign(supabase, id));
+    }
+
+    if (updateError) {
+      console.error('Error updating campaign:', updateError);
+      return serverErrorResponse('キャンペーンの更新に失敗しました');
+    }
+
+    await AuditService.log({
+      action: 'update_campaign',
+      target: `campaigns:${id}`,
+      actor_id: auth.userId,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { before: current, after: updated },
+    });
+
+    return NextResponse.json<APIResponse<Campaign>>({
+      data: updated,
+      success: true,
+      message: 'キャンペーンを更新しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in campaign API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// DELETE: キャンペーンの削除（管理者のみ）
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const auth = await authorizeAdmin(supabase);
+    if (auth.response) return auth.response;
+
+    const current = await fetchCampaign(supabase, id);
+    if (!current) return notFoundResponse();
+
+    const { error: deleteError } = await supabase
+      .from('campaigns')
+      .delete()
+      .eq('id', id);
+
+    if (deleteError) {
+      console.error('Error deleting campaign:', deleteError);
+      return serverErrorResponse('キャンペーンの削除に失敗しました');
+    }
+
+    await AuditService.log({
+      action: 'delete_campaign',
+      target: `campaigns:${id}`,
+      actor_id: auth.userId,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { before: current },
+    });
+
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: true,
+      message: 'キャンペーンを削除しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in campaign API:', error);
+    return serverErrorResponse();
+  }
+}
+
+/**
+ * 認証・管理者ロールの確認
+ */
+async function authorizeAdmin(
+  supabase: Supabase
+): Promise<{ userId: string; response?: undefined } | { userId?: undefined; response: NextResponse }> {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return {
+      response: NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 }),
+    };
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role, is_active')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile?.is_active || profile.role !== 'admin') {
+    return {
+      response: NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: 'キャンペーンを変更する権限がありません',
+      }, { status: 403 }),
+    };
+  }
+
+  return { userId: user.id };
+}
+
+async function fetchCampaign(supabase: Supabase, id: string): Promise<Campaign | null> {
+  const { data, error } = await supabase
+    .from('campaigns')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to fetch campaign: ${error.message}`);
+  }
+
+  return data || null;
+}
+
+function notFoundResponse() {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message: 'キャンペーンが見つかりません',
+  }, { status: 404 });
+}
+
+function conflictResponse(latest: Campaign | null) {
+  return NextResponse.json<APIResponse<Campaign | null>>({
+    data: latest,
+    success: false,
+    message: '他のユーザーによって更新されています。最新のデータを確認してから再度操作してください',
+  }, { status: 409 });
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  Campaign,
+  CampaignUplift,
+  calculateCampaignUplift,
+  getUpliftLookbackStart,
+  summarizeWeatherByDate,
+} from '@/lib/campaigns';
+import { getSalesStatusesForFilter } from '@/lib/sales-status';
+import { APIResponse } from '@/types/database.types';
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// 1リクエストで取得できる行数の上限（PostgREST の max-rows）
+const SALES_PAGE_SIZE = 1000;
+
+// GET: キャンペーン効果の測定（対象店舗・部門の承認済み売上を、同じ曜日・天候の近い非キャンペーン日と比較）
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: campaign, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (campaignError?.code === 'PGRST116' || (!campaignError && !campaign)) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: 'キャンペーンが見つかりません',
+      }, { status: 404 });
+    }
+
+    if (campaignError) {
+      console.error('Error fetching campaign:', campaignError);
+      return serverErrorResponse('キャンペーンの取得に失敗しました');
+    }
+
+    const lookbackStart = getUpliftLookbackStart(campaign);
+
+    const [salesResult, weatherResult, campaignsResult] = await Promise.all([
+      fetchSalesByDate(supabase, campaign, lookbackStart),
+      supabase
+        .from('ext_weather_daily')
+        .select('date, temperature_max, temperature_min, weather_condition')
+        .gte('date', lookbackStart)
+        .lte('date', campaign.end_date),
+      // ベースラインから除外する他のキャンペーン
+      supabase
+        .from('campaigns')
+        .select('*')
+        .gte('end_date', lookbackStart)
+        .lte('start_date', campaign.end_date),
+    ]);
+
+    const fetchError = salesResult.error || weatherResult.error || campaignsResult.error;
+    if (fetchError) {
+      console.error('Error fetching campaign uplift data:', fetchError);
+      return serverErrorResponse('キャンペーン効果の算出に必要なデータの取得に失敗しました');
+    }
+
+    const uplift = calculateCampaignUplift(
+      campaign,
+      salesResult.salesByDate,
+      campaignsResult.data || [],
+      summarizeWeatherByDate(weatherResult.data || [])
+    );
+
+    return NextResponse.json<APIResponse<CampaignUplift>>({
+      data: uplift,
+      success: true,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in campaign uplift API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// 対象店舗・部門の日別売上（閲覧できる店舗は RLS で制限）
+// 全店・全部門のキャンペーンでは行数が多いため、ページングして全件を集計する
+async function fetchSalesByDate(supabase: SupabaseClient, campaign: Campaign, lookbackStart: string) {
+  const salesByDate = new Map<string, number>();
+
+  for (let offset = 0; ; offset += SALES_PAGE_SIZE) {
+    let query = supabase
+      .from('sales')
+      .select('date, revenue_ex_tax')
+      .gte('date', lookbackStart)
+      .lte('date', campaign.end_date)
+      .in('status', getSalesStatusesForFilter())
+      .order('id')
+      .range(offset, offset + SALES_PAGE_SIZE - 1);
+
+    if (campaign.store_ids.length > 0) query = query.in('store_id', campaign.store_ids);
+    if (campaign.departments.length > 0) query = query.in('department', campaign.departments);
+
+    const { data, error } = await query;
+    if (error) {
+      return { salesByDate, error };
+    }
+
+    (data || []).forEach(sale => {
+      salesByDate.set(sale.date, (salesByDate.get(sale.date) || 0) + (sale.revenue_ex_tax || 0));
+    });
+
+    if (!data || data.length < SALES_PAGE_SIZE) break;
+  }
+
+  return { salesByDate, error: null };
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { Campaign } from '@/lib/campaigns';
+import { validateCampaignForm } from '@/lib/validations/campaigns';
+import { APIResponse, CampaignInputForm, ValidationError } from '@/types/database.types';
+
+// GET: キャンペーン一覧（start / end: 期間に掛かるキャンペーン、store_id: 対象に含む店舗）
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const start = searchParams.get('start');
+    const end = searchParams.get('end');
+    const storeId = searchParams.get('store_id');
+
+    let query = supabase
+      .from('campaigns')
+      .select('*')
+      .order('start_date', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (start) query = query.gte('end_date', start);
+    if (end) query = query.lte('start_date', end);
+    // 全店対象（空配列）のキャンペーンも含める
+    if (storeId) query = query.or(`store_ids.eq.{},store_ids.cs.{${storeId}}`);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error fetching campaigns:', error);
+      return serverErrorResponse('キャンペーンの取得に失敗しました');
+    }
+
+    return NextResponse.json<APIResponse<Campaign[]>>({
+      data: data || [],
+      success: true,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in campaigns API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// POST: キャンペーンの作成（管理者のみ）
+export async function POST(request: NextRequest) {
+  try {
+    const body: CampaignInputForm = await request.json();
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: 'キャンペーンを変更する権限がありません',
+      }, { status: 403 });
+    }
+
+    // バリデーション
+    const validationErrors = validateCampaignForm(body);
+    if (validationErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: validationErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from('campaigns')
+      .insert([{
+        name: body.name.trim(),
+        campaign_type: body.campaign_type,
+        start_date: body.start_date,
+        end_date: body.end_date,
+        store_ids: body.store_ids || [],
+        departments: body.departments || [],
+        discount_rate: body.discount_rate ?? null,
+        notes: body.notes || null,
+        created_by: user.id,
+        updated_by: user.id,
+      }])
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error inserting campaign:', insertError);
+      return serverErrorResponse('キャンペーンの保存に失敗しました');
+    }
+
+    // 監査ログの記録
+    await AuditService.log({
+      action: 'create_campaign',
+      target: `campaigns:${created.id}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { after: created },
+    });
+
+    return NextResponse.json<APIResponse<Campaign>>({
+      data: created,
+      success: true,
+      message: 'キャンペーンを登録しました',
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in campaigns API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
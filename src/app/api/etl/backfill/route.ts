@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { SOURCE_TYPES } from '@/lib/services/data-source-adapters';
+import { BackfillParams, BackfillResult, ETLBackfillService, backfillParamsFromRun } from '@/lib/services/etl-backfill';
+import { fetchEtlRun } from '@/lib/services/etl-runs';
+import { validateEtlBackfillForm } from '@/lib/validations/etl-backfill';
+import { APIResponse, ValidationError } from '@/types/database.types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 600; // 10 minutes
+
+// 実行時間の上限の手前で新しいチャンクの取得をやめ、続きは resume_run_id で再実行する
+const BACKFILL_TIME_BUDGET_MS = 9 * 60 * 1000;
+
+// POST: 過去期間の外部データの一括取得（管理者のみ）
+// body: { sources?: SourceType[], start_date, end_date, dry_run?: boolean } または { resume_run_id, dry_run? }
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: 'ETL のバックフィルを実行する権限がありません',
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const dryRun = body.dry_run === true;
+    let params: BackfillParams;
+
+    if (body.resume_run_id) {
+      // 中断・失敗した実行の続きから取得（ソースと期間は元の実行のものを使う）
+      const run = await fetchEtlRun(supabase, String(body.resume_run_id));
+      if (!run) {
+        return NextResponse.json<APIResponse<null>>({
+          data: null,
+          success: false,
+          message: '再開する実行履歴が見つかりません',
+        }, { status: 404 });
+      }
+
+      const previous = backfillParamsFromRun(run);
+      if (!previous) {
+        return NextResponse.json<APIResponse<ValidationError[]>>({
+          data: [{ field: 'resume_run_id', message: 'バックフィル以外の実行は再開できません', code: 'INVALID_VALUE' }],
+          success: false,
+          message: '入力データに不正があります',
+        }, { status: 400 });
+      }
+
+      params = { ...previous, resume_of: run.id };
+    } else {
+      const validationErrors = validateEtlBackfillForm(body, new Date().toISOString().split('T')[0]);
+      if (validationErrors.length > 0) {
+        return NextResponse.json<APIResponse<ValidationError[]>>({
+          data: validationErrors,
+          success: false,
+          message: '入力データに不正があります',
+        }, { status: 400 });
+      }
+
+      params = {
+        sources: body.sources ? SOURCE_TYPES.filter(source => body.sources.includes(source)) : SOURCE_TYPES,
+        start_date: body.start_date,
+        end_date: body.end_date,
+        resume_of: null,
+      };
+    }
+
+    const service = new ETLBackfillService(Promise.resolve(supabase));
+    const result = await service.run(params, {
+      dryRun,
+      triggeredBy: user.id,
+      deadline: startTime + BACKFILL_TIME_BUDGET_MS,
+    });
+
+    if (!dryRun) {
+      await AuditService.log({
+        action: 'etl_backfill',
+        target: 'all_external_tables',
+        actor_id: user.id,
+        ip: request.headers.get('x-forwarded-for') ||
+            request.headers.get('x-real-ip') ||
+            'unknown',
+        ua: request.headers.get('user-agent') || 'unknown',
+        meta: {
+          etl_run_id: result.runId,
+          params,
+          completed_chunks: result.completedChunks,
+          remaining_chunks: result.remainingChunks,
+          timed_out: result.timedOut,
+          sources: result.sources.map(({ source, failedChunks, recordsProcessed, error }) => ({
+            source,
+            failed_chunks: failedChunks,
+            records_processed: recordsProcessed,
+            error,
+          })),
+        },
+      });
+    }
+
+    const message = dryRun
+      ? 'バックフィルの試算が完了しました（データは更新されていません）'
+      : result.remainingChunks > 0
+        ? `バックフィルが途中で終了しました（残り${result.remainingChunks}件、resume_run_id を指定して再開できます）`
+        : 'バックフィルが完了しました';
+
+    return NextResponse.json<APIResponse<BackfillResult>>({
+      data: result,
+      success: true,
+      message,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in ETL backfill API:', error);
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: false,
+      message: 'サーバーエラーが発生しました',
+    }, { status: 500 });
+  }
+}
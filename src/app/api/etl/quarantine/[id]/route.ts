@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { ETL_QUARANTINE_STATUS_LABELS, EtlQuarantinedRecord } from '@/lib/services/etl-quarantine';
+import { validateEtlQuarantineAction } from '@/lib/validations/etl-quarantine';
+import {
+  APIResponse,
+  EtlQuarantineActionRequest,
+  ValidationError,
+} from '@/types/database.types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST: 隔離されたレコードの反映・破棄（管理者のみ）
+// release = 値を確認した上で ext_* テーブルに書き込む（DB 制約に違反する場合は 422）、discard = 書き込まずに破棄
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const body: EtlQuarantineActionRequest = await request.json();
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '隔離されたレコードを操作する権限がありません',
+      }, { status: 403 });
+    }
+
+    // バリデーション
+    const validationErrors = validateEtlQuarantineAction(body);
+    if (validationErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: validationErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const { data: current, error: fetchError } = await supabase
+      .from('etl_quarantine')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching quarantined record:', fetchError);
+      return serverErrorResponse('データベースエラーが発生しました');
+    }
+
+    if (!current) {
+      return notFoundResponse();
+    }
+
+    if (current.status !== 'quarantined') {
+      return alreadyResolvedResponse(current);
+    }
+
+    let resolved: EtlQuarantinedRecord | null;
+
+    if (body.action === 'release') {
+      const { data: released, error: releaseError } = await supabase.rpc('release_etl_quarantine', {
+        p_id: id,
+      });
+
+      if (releaseError) {
+        // P0002 = 見つからない、55000 = 他の管理者が先に処理した、22000 = ext_* テーブルの制約に違反
+        if (releaseError.code === 'P0002') {
+          return notFoundResponse();
+        }
+        if (releaseError.code === '55000') {
+          return alreadyResolvedResponse(current);
+        }
+        if (releaseError.code === '22000') {
+          return NextResponse.json<APIResponse<EtlQuarantinedRecord>>({
+            data: current,
+            success: false,
+            message: `このレコードは反映できません: ${releaseError.message}`,
+          }, { status: 422 });
+        }
+
+        console.error('Error releasing quarantined record:', releaseError);
+        return serverErrorResponse('レコードの反映に失敗しました');
+      }
+
+      resolved = released;
+    } else {
+      const { data: discarded, error: discardError } = await supabase
+        .from('etl_quarantine')
+        .update({
+          status: 'discarded',
+          resolved_by: user.id,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .eq('status', 'quarantined')
+        .select()
+        .maybeSingle();
+
+      if (discardError) {
+        console.error('Error discarding quarantined record:', discardError);
+        return serverErrorResponse('レコードの破棄に失敗しました');
+      }
+
+      if (!discarded) {
+        return alreadyResolvedResponse(current);
+      }
+
+      resolved = discarded;
+    }
+
+    // 監査ログの記録
+    await AuditService.log({
+      action: body.action === 'release' ? 'release_etl_quarantine' : 'discard_etl_quarantine',
+      target: `etl_quarantine:${id}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: {
+        source: current.source,
+        run_id: current.run_id,
+        target_date: current.target_date,
+        error_code: current.error_code,
+        reason: current.reason,
+        record: current.record,
+      },
+    });
+
+    return NextResponse.json<APIResponse<EtlQuarantinedRecord | null>>({
+      data: resolved,
+      success: true,
+      message: body.action === 'release' ? 'レコードを反映しました' : 'レコードを破棄しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in ETL quarantine action API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function notFoundResponse() {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message: '隔離されたレコードが見つかりません',
+  }, { status: 404 });
+}
+
+function alreadyResolvedResponse(current: EtlQuarantinedRecord) {
+  return NextResponse.json<APIResponse<EtlQuarantinedRecord>>({
+    data: current,
+    success: false,
+    // 読み込んだ時点で隔離中だった場合は、他の管理者が先に反映・破棄している
+    message: current.status === 'quarantined'
+      ? '他の管理者によって既に処理されています。最新のデータを読み込んでください'
+      : `このレコードは既に${ETL_QUARANTINE_STATUS_LABELS[current.status]}です`,
+  }, { status: 409 });
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
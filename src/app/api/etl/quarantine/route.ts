@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { EtlQuarantinedRecord, fetchQuarantinedRecords, parseEtlQuarantineQuery } from '@/lib/services/etl-quarantine';
+import { APIResponse } from '@/types/database.types';
+
+// GET: 書き込めなかった外部データのレコード（新しい順、既定は隔離中のみ）（管理者のみ）
+// ?status=quarantined|released|discarded|all&source=&run_id=&limit=&offset=
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '隔離されたレコードを参照する権限がありません',
+      }, { status: 403 });
+    }
+
+    const query = parseEtlQuarantineQuery(request.nextUrl.searchParams);
+    const { records, total } = await fetchQuarantinedRecords(supabase, query);
+
+    return NextResponse.json<APIResponse<EtlQuarantinedRecord[]>>({
+      data: records,
+      success: true,
+      meta: {
+        total,
+        limit: query.limit,
+        offset: query.offset,
+      },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in ETL quarantine API:', error);
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: false,
+      message: 'サーバーエラーが発生しました',
+    }, { status: 500 });
+  }
+}
@@ -33,6 +33,9 @@ export async function POST(request: NextRequest) {
     const userAgent = request.headers.get('user-agent') || 'unknown'
     const clientIP = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
     const runId = `etl-${Date.now()}`
+    // Vercel Cron からの呼び出しは定時実行、それ以外は手動実行として履歴に残す
+    const trigger = userAgent.startsWith('vercel-cron') ? 'schedule' : 'manual'
+    const { data: { user } } = await (await supabase).auth.getUser()
     
     // Log ETL start
     await AuditService.log({
@@ -53,7 +56,7 @@ export async function POST(request: NextRequest) {
     
     // Execute ETL pipeline with timeout
     const results = await Promise.race([
-      etlService.runFullETL(),
+      etlService.runFullETL({ trigger, triggeredBy: user?.id ?? null }),
       new Promise((_, reject) => 
         setTimeout(() => reject(new Error('ETL timeout after 10 minutes')), 10 * 60 * 1000)
       )
@@ -68,6 +71,7 @@ export async function POST(request: NextRequest) {
       target: 'all_external_tables',
       meta: {
         run_id: runId,
+        etl_run_id: results.runId, // GET /api/etl/runs/[id] で参照できる実行ID
         duration_ms: duration,
         results: results,
         completed_at: new Date().toISOString()
@@ -89,6 +93,7 @@ export async function POST(request: NextRequest) {
       message: 'ETL process completed successfully',
       data: {
         run_id: runId,
+        etl_run_id: results.runId,
         duration_ms: duration,
         results: results,
         completed_at: new Date().toISOString()
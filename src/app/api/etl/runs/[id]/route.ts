@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { EtlRunWithSources, fetchEtlRun } from '@/lib/services/etl-runs';
+import { APIResponse } from '@/types/database.types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET: ETL の実行1件とソース別の結果（件数・試行回数・エラー）（管理者のみ）
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: 'ETL の実行履歴を参照する権限がありません',
+      }, { status: 403 });
+    }
+
+    const run = await fetchEtlRun(supabase, id);
+    if (!run) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '実行履歴が見つかりません',
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<APIResponse<EtlRunWithSources>>({
+      data: run,
+      success: true,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in ETL run API:', error);
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: false,
+      message: 'サーバーエラーが発生しました',
+    }, { status: 500 });
+  }
+}
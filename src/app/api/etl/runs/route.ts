@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { EtlRunList, fetchEtlRuns, parseEtlRunsQuery } from '@/lib/services/etl-runs';
+import { APIResponse } from '@/types/database.types';
+
+// GET: ETL の実行履歴（新しい順）とソース別の最終成功・最終失敗（管理者のみ）
+// ?trigger=schedule|manual|backfill&status=running|success|partial|failure&start_date=&end_date=&limit=&offset=
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: 'ETL の実行履歴を参照する権限がありません',
+      }, { status: 403 });
+    }
+
+    const query = parseEtlRunsQuery(request.nextUrl.searchParams);
+    const { runs, sources, total } = await fetchEtlRuns(supabase, query);
+
+    return NextResponse.json<APIResponse<EtlRunList>>({
+      data: { runs, sources },
+      success: true,
+      meta: {
+        total,
+        limit: query.limit,
+        offset: query.offset,
+      },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in ETL runs API:', error);
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: false,
+      message: 'サーバーエラーが発生しました',
+    }, { status: 500 });
+  }
+}
@@ -141,7 +141,8 @@ export async function POST(request: NextRequest) {
         'X-Export-Stats': JSON.stringify({
           records: stats.totalRecords,
           processingTime,
-          withinSLA: isWithinSLA
+          withinSLA: isWithinSLA,
+          closedPeriods: stats.closedPeriods.map(({ period, store_id }) => ({ period, store_id }))
         }),
         'Cache-Control': 'no-cache, no-store, must-revalidate',
         'Pragma': 'no-cache',
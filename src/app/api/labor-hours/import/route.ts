@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+import { AuditService } from '@/lib/services/audit';
+import {
+  IMPORT_LIMITS,
+  ImportMode,
+  ImportRowError,
+  detectFileType,
+  mergeRowErrors,
+} from '@/lib/services/sales-import';
+import {
+  LaborHoursImportReport,
+  parseLaborHoursImportFile,
+  validateLaborHoursImportRows,
+} from '@/lib/services/labor-hours-import';
+import { APIResponse } from '@/types/database.types';
+
+// POST: 人時の一括取込み（multipart/form-data: file, mode=dry_run|commit）
+// 同じ日付・店舗・部門の人時が登録済みの場合は上書きする
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const mode: ImportMode = formData.get('mode') === 'commit' ? 'commit' : 'dry_run';
+
+    if (!(file instanceof File)) {
+      return badRequestResponse('ファイルを指定してください');
+    }
+
+    const fileType = detectFileType(file.name);
+    if (!fileType) {
+      return badRequestResponse('CSV または Excel(.xlsx) ファイルを指定してください');
+    }
+
+    if (file.size > IMPORT_LIMITS.maxFileSize) {
+      return badRequestResponse('ファイルサイズは5MB以下にしてください');
+    }
+
+    // ファイル解析
+    let parsed: Awaited<ReturnType<typeof parseLaborHoursImportFile>>;
+    try {
+      parsed = await parseLaborHoursImportFile(new Uint8Array(await file.arrayBuffer()), fileType);
+    } catch (error) {
+      return badRequestResponse(
+        error instanceof Error ? error.message : 'ファイルの読み込みに失敗しました'
+      );
+    }
+
+    const { rows, errors: formatErrors } = parsed;
+    if (rows.length === 0 && formatErrors.length === 0) {
+      return badRequestResponse('取込み対象の行がありません');
+    }
+
+    // 入力チェック・ファイル内重複チェック
+    const validationErrors = validateLaborHoursImportRows(rows);
+
+    // 店舗ごとの入力権限チェック（売上データを入力できる店舗のみ）
+    const permissionErrors: ImportRowError[] = [];
+    const storeIds = [...new Set(rows.map(({ data }) => data.store_id).filter(Boolean))];
+    for (const storeId of storeIds) {
+      const canCreate = await hasPermission(user.id, 'sales', 'create', storeId, 'edit');
+      if (!canCreate) {
+        rows
+          .filter(({ data }) => data.store_id === storeId)
+          .forEach(({ row }) => permissionErrors.push({
+            row,
+            errors: [{
+              field: 'store_id',
+              message: 'この店舗の人時を入力する権限がありません',
+              code: 'FORBIDDEN',
+            }],
+          }));
+      }
+    }
+
+    const errors = mergeRowErrors(formatErrors, validationErrors, permissionErrors);
+    const errorRowNumbers = new Set(errors.map(({ row }) => row));
+    const validRows = rows.filter(({ row }) => !errorRowNumbers.has(row));
+
+    const report: LaborHoursImportReport = {
+      mode,
+      fileName: file.name,
+      totalRows: rows.length + formatErrors.length,
+      validRows: validRows.length,
+      errorRows: errors.length,
+      errors,
+      totalHours: validRows.reduce((sum, { data }) => sum + data.hours, 0),
+      upsertedCount: 0,
+    };
+
+    if (mode === 'dry_run') {
+      return NextResponse.json<APIResponse<LaborHoursImportReport>>({
+        data: report,
+        success: true,
+        message: errors.length > 0
+          ? `${errors.length}行にエラーがあります`
+          : `${validRows.length}行を取り込めます`,
+      });
+    }
+
+    // commit: エラーが1行でもあれば何も登録しない
+    if (errors.length > 0) {
+      return NextResponse.json<APIResponse<LaborHoursImportReport>>({
+        data: report,
+        success: false,
+        message: `${errors.length}行にエラーがあるため取り込みを中止しました`,
+      }, { status: 400 });
+    }
+
+    // 一括登録（単一の UPSERT 文のため全行がまとめてコミットまたはロールバックされる）
+    const { data: upserted, error: upsertError } = await supabase
+      .from('labor_hours')
+      .upsert(
+        validRows.map(({ data }) => ({
+          date: data.date,
+          store_id: data.store_id,
+          department: data.department || null,
+          hours: data.hours,
+          notes: data.notes || null,
+          created_by: user.id,
+          updated_by: user.id,
+        })),
+        { onConflict: 'date,store_id,department' }
+      )
+      .select('id');
+
+    if (upsertError) {
+      console.error('Error upserting imported labor hours:', upsertError);
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '人時の一括登録に失敗しました',
+      }, { status: 500 });
+    }
+
+    report.upsertedCount = upserted?.length || 0;
+
+    // 監査ログの記録（バッチ全体で1件）
+    const dates = validRows.map(({ data }) => data.date).sort();
+    await AuditService.log({
+      action: 'import_labor_hours',
+      target: `labor_hours_import:${file.name}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: {
+        file_name: file.name,
+        file_type: fileType,
+        file_size: file.size,
+        row_count: report.upsertedCount,
+        store_ids: storeIds,
+        date_range: { start: dates[0], end: dates[dates.length - 1] },
+        total_hours: report.totalHours,
+      },
+    });
+
+    return NextResponse.json<APIResponse<LaborHoursImportReport>>({
+      data: report,
+      success: true,
+      message: `${report.upsertedCount}行の人時を取り込みました`,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in labor hours import API:', error);
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: false,
+      message: 'サーバーエラーが発生しました',
+    }, { status: 500 });
+  }
+}
+
+function badRequestResponse(message: string) {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 400 });
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { LaborHours } from '@/lib/labor-productivity';
+import { validateLaborHoursForm } from '@/lib/validations/labor-hours';
+import { APIResponse, LaborHoursInputForm, ValidationError } from '@/types/database.types';
+
+// GET: 人時一覧（start / end: 対象期間、store_ids: カンマ区切り）
+// 閲覧できる店舗は RLS で制限
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const start = searchParams.get('start');
+    const end = searchParams.get('end');
+    const storeIds = searchParams.get('store_ids')?.split(',').filter(Boolean);
+
+    let query = supabase
+      .from('labor_hours')
+      .select('*')
+      .order('date', { ascending: true })
+      .order('store_id', { ascending: true });
+
+    if (start) query = query.gte('date', start);
+    if (end) query = query.lte('date', end);
+    if (storeIds?.length) query = query.in('store_id', storeIds);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error fetching labor hours:', error);
+      return serverErrorResponse('人時の取得に失敗しました');
+    }
+
+    return NextResponse.json<APIResponse<LaborHours[]>>({
+      data: data || [],
+      success: true,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in labor hours API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// POST: 人時の登録（同じ日・店舗・部門の人時が登録済みの場合は上書きする）
+// 売上入力と同じく、店舗の編集権限は RLS で確認する
+export async function POST(request: NextRequest) {
+  try {
+    const body: LaborHoursInputForm = await request.json();
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    // バリデーション
+    const validationErrors = validateLaborHoursForm(body);
+    if (validationErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: validationErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const { data: saved, error: upsertError } = await supabase
+      .from('labor_hours')
+      .upsert([{
+        date: body.date,
+        store_id: body.store_id,
+        department: body.department || null,
+        hours: body.hours,
+        notes: body.notes || null,
+        created_by: user.id,
+        updated_by: user.id,
+      }], { onConflict: 'date,store_id,department' })
+      .select()
+      .single();
+
+    if (upsertError?.code === '42501') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: 'この店舗の人時を入力する権限がありません',
+      }, { status: 403 });
+    }
+
+    if (upsertError) {
+      console.error('Error upserting labor hours:', upsertError);
+      return serverErrorResponse('人時の保存に失敗しました');
+    }
+
+    // 監査ログの記録
+    await AuditService.log({
+      action: 'input_labor_hours',
+      target: `labor_hours:${saved.id}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { after: saved },
+    });
+
+    return NextResponse.json<APIResponse<LaborHours>>({
+      data: saved,
+      success: true,
+      message: '人時を保存しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in labor hours API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
@@ -0,0 +1,273 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { invalidateMasterData } from '@/lib/cache/master-data-cache';
+import {
+  MASTER_DATA_LABELS,
+  MASTER_DATA_TABLES,
+  MasterDataItem,
+  MasterDataType,
+  isMasterDataType,
+} from '@/lib/master-data';
+import { validateMasterDataForm } from '@/lib/validations/master-data';
+import { APIResponse, MasterDataInputForm, ValidationError } from '@/types/database.types';
+
+type Supabase = Awaited<ReturnType<typeof createClient>>;
+
+interface RouteContext {
+  params: Promise<{ type: string; id: string }>;
+}
+
+// sales に保存されるマスターのコード列
+const SALES_COLUMNS: Record<MasterDataType, 'department' | 'product_category'> = {
+  departments: 'department',
+  categories: 'product_category',
+};
+
+// PATCH: マスターの更新（管理者のみ）
+// 売上データで使用中のコードは変更できない（表示名・表示順・有効フラグのみ変更可）
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { type, id } = await params;
+    if (!isMasterDataType(type)) return notFoundResponse('マスターの種類が不正です');
+
+    const body: Partial<MasterDataInputForm> = await request.json();
+    const supabase = await createClient();
+
+    const auth = await authorizeAdmin(supabase);
+    if (auth.response) return auth.response;
+
+    const current = await fetchMasterData(supabase, type, id);
+    if (!current) return notFoundResponse(`${MASTER_DATA_LABELS[type]}が見つかりません`);
+
+    // 楽観的排他制御
+    if (!body.updated_at) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: [{ field: 'updated_at', message: '更新前の updated_at を指定してください', code: 'REQUIRED' }],
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+    if (current.updated_at !== body.updated_at) {
+      return conflictResponse(current);
+    }
+
+    const merged = {
+      code: (body.code ?? current.code).trim(),
+      name: (body.name ?? current.name).trim(),
+      sort_order: body.sort_order ?? current.sort_order,
+      active: body.active ?? current.active,
+    };
+
+    const validationErrors = validateMasterDataForm(merged);
+    if (validationErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: validationErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    if (merged.code !== current.code && await isUsedInSales(supabase, type, current.code)) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: [{ field: 'code', message: '売上データで使用中のコードは変更できません', code: 'IN_USE' }],
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const table = MASTER_DATA_TABLES[type];
+    const { data: updated, error: updateError } = await supabase
+      .from(table)
+      .update(merged)
+      .eq('id', id)
+      .eq('updated_at', body.updated_at)
+      .select()
+      .single();
+
+    if (updateError?.code === 'PGRST116' || (!updateError && !updated)) {
+      return conflictResponse(await fetchMasterData(supabase, type, id));
+    }
+
+    if (updateError?.code === '23505') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: `同じコードまたは表示名の${MASTER_DATA_LABELS[type]}が既に登録されています`,
+      }, { status: 409 });
+    }
+
+    if (updateError) {
+      console.error('Error updating master data:', updateError);
+      return serverErrorResponse(`${MASTER_DATA_LABELS[type]}の更新に失敗しました`);
+    }
+
+    await invalidateMasterData(type);
+
+    await AuditService.log({
+      action: 'update_master_data',
+      target: `${table}:${id}`,
+      actor_id: auth.userId,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { before: current, after: updated },
+    });
+
+    return NextResponse.json<APIResponse<MasterDataItem>>({
+      data: updated,
+      success: true,
+      message: `${MASTER_DATA_LABELS[type]}を更新しました`,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in master data API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// DELETE: マスターの削除（管理者のみ、売上データで使用中のものは無効化で対応する）
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { type, id } = await params;
+    if (!isMasterDataType(type)) return notFoundResponse('マスターの種類が不正です');
+
+    const supabase = await createClient();
+
+    const auth = await authorizeAdmin(supabase);
+    if (auth.response) return auth.response;
+
+    const current = await fetchMasterData(supabase, type, id);
+    if (!current) return notFoundResponse(`${MASTER_DATA_LABELS[type]}が見つかりません`);
+
+    if (await isUsedInSales(supabase, type, current.code)) {
+      return NextResponse.json<APIResponse<MasterDataItem>>({
+        data: current,
+        success: false,
+        message: `売上データで使用中の${MASTER_DATA_LABELS[type]}は削除できません。無効化してください`,
+      }, { status: 409 });
+    }
+
+    const table = MASTER_DATA_TABLES[type];
+    const { error: deleteError } = await supabase
+      .from(table)
+      .delete()
+      .eq('id', id);
+
+    if (deleteError) {
+      console.error('Error deleting master data:', deleteError);
+      return serverErrorResponse(`${MASTER_DATA_LABELS[type]}の削除に失敗しました`);
+    }
+
+    await invalidateMasterData(type);
+
+    await AuditService.log({
+      action: 'delete_master_data',
+      target: `${table}:${id}`,
+      actor_id: auth.userId,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { before: current },
+    });
+
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: true,
+      message: `${MASTER_DATA_LABELS[type]}を削除しました`,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in master data API:', error);
+    return serverErrorResponse();
+  }
+}
+
+/**
+ * 認証・管理者ロールの確認
+ */
+async function authorizeAdmin(
+  supabase: Supabase
+): Promise<{ userId: string; response?: undefined } | { userId?: undefined; response: NextResponse }> {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return {
+      response: NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 }),
+    };
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role, is_active')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile?.is_active || profile.role !== 'admin') {
+    return {
+      response: NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: 'マスターデータを変更する権限がありません',
+      }, { status: 403 }),
+    };
+  }
+
+  return { userId: user.id };
+}
+
+async function fetchMasterData(supabase: Supabase, type: MasterDataType, id: string): Promise<MasterDataItem | null> {
+  const { data, error } = await supabase
+    .from(MASTER_DATA_TABLES[type])
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to fetch master data: ${error.message}`);
+  }
+
+  return data || null;
+}
+
+async function isUsedInSales(supabase: Supabase, type: MasterDataType, code: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('sales')
+    .select('id', { count: 'exact', head: true })
+    .eq(SALES_COLUMNS[type], code);
+
+  if (error) {
+    throw new Error(`Failed to check master data usage: ${error.message}`);
+  }
+
+  return (count || 0) > 0;
+}
+
+function notFoundResponse(message: string) {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 404 });
+}
+
+function conflictResponse(latest: MasterDataItem | null) {
+  return NextResponse.json<APIResponse<MasterDataItem | null>>({
+    data: latest,
+    success: false,
+    message: '他のユーザーによって更新されています。最新のデータを確認してから再度操作してください',
+  }, { status: 409 });
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { getCachedMasterData } from '@/lib/cache/server-cache';
+import { invalidateMasterData } from '@/lib/cache/master-data-cache';
+import {
+  MASTER_DATA_LABELS,
+  MASTER_DATA_TABLES,
+  MasterDataItem,
+  isMasterDataType,
+} from '@/lib/master-data';
+import { validateMasterDataForm } from '@/lib/validations/master-data';
+import { APIResponse, MasterDataInputForm, ValidationError } from '@/types/database.types';
+
+interface RouteContext {
+  params: Promise<{ type: string }>;
+}
+
+// GET: 部門（departments）・商品カテゴリ（categories）マスター一覧
+// 無効化済みのものも含めて表示順で返す（選択肢は active のみ、表示名は全件から解決する）
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { type } = await params;
+    if (!isMasterDataType(type)) return notFoundResponse();
+
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const items = await getCachedMasterData(type) as MasterDataItem[];
+
+    return NextResponse.json<APIResponse<MasterDataItem[]>>({
+      data: items,
+      success: true,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in master data API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// POST: マスターの登録（管理者のみ）
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { type } = await params;
+    if (!isMasterDataType(type)) return notFoundResponse();
+
+    const body: MasterDataInputForm = await request.json();
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: 'マスターデータを変更する権限がありません',
+      }, { status: 403 });
+    }
+
+    // バリデーション
+    const validationErrors = validateMasterDataForm(body);
+    if (validationErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: validationErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const table = MASTER_DATA_TABLES[type];
+    const { data: created, error: insertError } = await supabase
+      .from(table)
+      .insert([{
+        code: body.code.trim(),
+        name: body.name.trim(),
+        sort_order: body.sort_order,
+        active: body.active ?? true,
+      }])
+      .select()
+      .single();
+
+    if (insertError?.code === '23505') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: `同じコードまたは表示名の${MASTER_DATA_LABELS[type]}が既に登録されています`,
+      }, { status: 409 });
+    }
+
+    if (insertError) {
+      console.error('Error inserting master data:', insertError);
+      return serverErrorResponse(`${MASTER_DATA_LABELS[type]}の保存に失敗しました`);
+    }
+
+    await invalidateMasterData(type);
+
+    // 監査ログの記録
+    await AuditService.log({
+      action: 'create_master_data',
+      target: `${table}:${created.id}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { after: created },
+    });
+
+    return NextResponse.json<APIResponse<MasterDataItem>>({
+      data: created,
+      success: true,
+      message: `${MASTER_DATA_LABELS[type]}を登録しました`,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in master data API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function notFoundResponse() {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message: 'マスターの種類が不正です',
+  }, { status: 404 });
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
@@ -0,0 +1,304 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+import { AuditService } from '@/lib/services/audit';
+import { SALES_STATUS_LABELS, isSalesEditable } from '@/lib/sales-status';
+import { DEFAULT_SALES_CHANNEL } from '@/lib/sales-channels';
+import {
+  PERIOD_CLOSED_ERROR,
+  buildPeriodClosedError,
+  fetchClosedPeriods,
+  findClosedPeriod,
+  isPeriodClosedError,
+} from '@/lib/accounting-periods';
+import { TAX_RULE_NOT_FOUND_ERROR, calculateSalesTax, fetchTaxRules } from '@/lib/tax';
+import { PosReconciliation, buildPosAcceptChanges } from '@/lib/pos-reconciliation';
+import { validatePosResolveRequest } from '@/lib/validations/pos-reconciliation';
+import { validateSalesForm } from '@/lib/validations/sales';
+import {
+  APIResponse,
+  Database,
+  PosReconciliationResolveRequest,
+  ValidationError,
+} from '@/types/database.types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POS の値を採用する際に修正する売上の列
+const ACCEPT_SALES_COLUMNS = 'id, updated_at, date, store_id, department, product_category, revenue_ex_tax, transactions, footfall, status';
+
+type AcceptSalesRow = Pick<
+  Database['public']['Tables']['sales']['Row'],
+  'id' | 'updated_at' | 'date' | 'store_id' | 'department' | 'product_category' | 'revenue_ex_tax' | 'transactions' | 'footfall' | 'status'
+>;
+
+// POST: POS 突合の差異の解消
+// accept_pos = POS の値を売上に反映（売上の修正として監査ログを記録）、annotate = 差異の理由を記録
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const body: PosReconciliationResolveRequest = await request.json();
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    // バリデーション
+    const validationErrors = validatePosResolveRequest(body);
+    if (validationErrors.length > 0) {
+      return validationErrorResponse(validationErrors);
+    }
+
+    const { data: current, error: fetchError } = await supabase
+      .from('pos_reconciliations')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !current) {
+      return notFoundResponse(fetchError);
+    }
+
+    const canUpdate = await hasPermission(user.id, 'sales', 'update', current.store_id, 'edit');
+    if (!canUpdate) {
+      return forbiddenResponse('この店舗の差異を解消する権限がありません');
+    }
+
+    if (current.status !== 'open') {
+      return NextResponse.json<APIResponse<PosReconciliation>>({
+        data: current,
+        success: false,
+        message: 'この差異は既に解消されています',
+      }, { status: 409 });
+    }
+
+    if (current.updated_at !== body.updated_at) {
+      return conflictResponse(current);
+    }
+
+    const note = body.note?.trim() || null;
+    const ip = request.headers.get('x-forwarded-for') ||
+      request.headers.get('x-real-ip') ||
+      'unknown';
+    const ua = request.headers.get('user-agent') || 'unknown';
+
+    if (body.resolution === 'annotate') {
+      const { data: updated, error: updateError } = await supabase
+        .from('pos_reconciliations')
+        .update({
+          status: 'annotated',
+          resolution_note: note,
+          resolved_by: user.id,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .eq('updated_at', body.updated_at)
+        .select()
+        .single();
+
+      if (updateError || !updated) {
+        if (!updateError || updateError.code === 'PGRST116') {
+          return conflictResponse(current);
+        }
+
+        console.error('Error annotating POS reconciliation:', updateError);
+        return serverErrorResponse('差異の理由の記録に失敗しました');
+      }
+
+      // 監査ログの記録
+      await AuditService.log({
+        action: 'annotate_pos_reconciliation',
+        target: `pos_reconciliations:${id}`,
+        actor_id: user.id,
+        ip,
+        ua,
+        meta: {
+          store_id: current.store_id,
+          date: current.date,
+          pos_revenue_ex_tax: current.pos_revenue_ex_tax,
+          pos_transactions: current.pos_transactions,
+          note,
+        },
+      });
+
+      return NextResponse.json<APIResponse<PosReconciliation>>({
+        data: updated,
+        success: true,
+        message: '差異の理由を記録しました',
+      });
+    }
+
+    // accept_pos: 店舗・日の店頭売上に POS の値を反映
+    const { data: salesRows, error: salesError } = await supabase
+      .from('sales')
+      .select(ACCEPT_SALES_COLUMNS)
+      .eq('store_id', current.store_id)
+      .eq('date', current.date)
+      .eq('channel', DEFAULT_SALES_CHANNEL)
+      .order('department', { ascending: true })
+      .order('product_category', { ascending: true });
+
+    if (salesError) {
+      console.error('Error fetching sales data:', salesError);
+      return serverErrorResponse('データベースエラーが発生しました');
+    }
+
+    const sales: AcceptSalesRow[] = salesRows || [];
+    if (sales.length === 0) {
+      return validationErrorResponse([{
+        field: 'resolution',
+        message: 'この日の売上が未入力のため POS の値を反映できません。先に売上を入力してください',
+        code: 'SALES_NOT_FOUND',
+      }]);
+    }
+
+    const lockedSales = sales.find(sale => !isSalesEditable(sale.status));
+    if (lockedSales) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: `${SALES_STATUS_LABELS[lockedSales.status]}の売上データは変更できません。差戻しまたは承認取消の後に操作してください`,
+      }, { status: 409 });
+    }
+
+    const closedPeriod = findClosedPeriod(
+      await fetchClosedPeriods(supabase, current.date, current.date),
+      current.store_id,
+      current.date
+    );
+    if (closedPeriod) {
+      return periodClosedResponse(buildPeriodClosedError(closedPeriod));
+    }
+
+    const taxRules = await fetchTaxRules(supabase);
+    const updates = [];
+    for (const change of buildPosAcceptChanges(current, sales)) {
+      const salesErrors = validateSalesForm({
+        date: change.date,
+        store_id: current.store_id,
+        department: change.department ?? undefined,
+        product_category: change.product_category ?? undefined,
+        revenue_ex_tax: change.revenue_ex_tax,
+        footfall: change.footfall ?? undefined,
+        transactions: change.transactions ?? undefined,
+      });
+      if (salesErrors.length > 0) {
+        return validationErrorResponse(salesErrors);
+      }
+
+      const taxCalculation = calculateSalesTax(taxRules, change);
+      if (!taxCalculation) {
+        return validationErrorResponse([TAX_RULE_NOT_FOUND_ERROR]);
+      }
+
+      updates.push({
+        id: change.id,
+        updated_at: change.updated_at,
+        revenue_ex_tax: change.revenue_ex_tax,
+        transactions: change.transactions,
+        tax: taxCalculation.tax,
+        tax_rate: taxCalculation.tax_rate,
+      });
+    }
+
+    // 売上の修正・監査ログ・突合の解消は accept_pos_reconciliation で同一トランザクションで保存する
+    const { data: accepted, error: acceptError } = await supabase.rpc('accept_pos_reconciliation', {
+      p_reconciliation_id: id,
+      p_expected_updated_at: body.updated_at,
+      p_updates: updates,
+      p_note: note,
+      p_audit: { ip, ua },
+    });
+
+    if (acceptError) {
+      // 読み込み後に突合または売上が更新された
+      if (acceptError.code === '40001') {
+        return conflictResponse(current);
+      }
+
+      if (acceptError.code === '42501') {
+        return forbiddenResponse('この店舗の差異を解消する権限がありません');
+      }
+
+      // 読み込み後に締められた
+      if (isPeriodClosedError(acceptError)) {
+        return periodClosedResponse(PERIOD_CLOSED_ERROR);
+      }
+
+      console.error('Error accepting POS reconciliation:', acceptError);
+      return serverErrorResponse('POS の値の反映に失敗しました');
+    }
+
+    return NextResponse.json<APIResponse<PosReconciliation>>({
+      data: accepted,
+      success: true,
+      message: `POS の値を売上に反映しました（${updates.length}件）`,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in POS reconciliation resolve API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function validationErrorResponse(errors: ValidationError[]) {
+  return NextResponse.json<APIResponse<ValidationError[]>>({
+    data: errors,
+    success: false,
+    message: '入力データに不正があります',
+  }, { status: 400 });
+}
+
+function notFoundResponse(error?: { code?: string } | null) {
+  if (error && error.code !== 'PGRST116') {
+    console.error('Error fetching POS reconciliation:', error);
+    return serverErrorResponse('データベースエラーが発生しました');
+  }
+
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message: 'POS 突合データが見つかりません',
+  }, { status: 404 });
+}
+
+function conflictResponse(current: PosReconciliation) {
+  return NextResponse.json<APIResponse<PosReconciliation>>({
+    data: current,
+    success: false,
+    message: '他のユーザーによって更新されています。最新のデータを読み込んでから再度操作してください',
+  }, { status: 409 });
+}
+
+function periodClosedResponse(error: ValidationError) {
+  return NextResponse.json<APIResponse<ValidationError[]>>({
+    data: [error],
+    success: false,
+    message: error.message,
+  }, { status: 423 });
+}
+
+function forbiddenResponse(message: string) {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 403 });
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
@@ -0,0 +1,257 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+import { AuditService } from '@/lib/services/audit';
+import {
+  IMPORT_LIMITS,
+  ImportMode,
+  ImportRowError,
+  detectFileType,
+  mergeRowErrors,
+} from '@/lib/services/sales-import';
+import {
+  PosTotalsImportReport,
+  parsePosTotalsImportFile,
+  validatePosTotalsImportRows,
+} from '@/lib/services/pos-totals-import';
+import {
+  PosReconciliation,
+  buildPosReconciliationKey,
+  fetchReportedSales,
+  reconcilePosTotals,
+} from '@/lib/pos-reconciliation';
+import { APIResponse } from '@/types/database.types';
+
+// POST: POS 日次合計の取込み（multipart/form-data: file, mode=dry_run|commit）
+// 同じ日付・店舗の POS 合計が登録済みの場合は上書きし、値が変わった場合は差異の解消状況をリセットする
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const mode: ImportMode = formData.get('mode') === 'commit' ? 'commit' : 'dry_run';
+
+    if (!(file instanceof File)) {
+      return badRequestResponse('ファイルを指定してください');
+    }
+
+    const fileType = detectFileType(file.name);
+    if (!fileType) {
+      return badRequestResponse('CSV または Excel(.xlsx) ファイルを指定してください');
+    }
+
+    if (file.size > IMPORT_LIMITS.maxFileSize) {
+      return badRequestResponse('ファイルサイズは5MB以下にしてください');
+    }
+
+    // ファイル解析
+    let parsed: Awaited<ReturnType<typeof parsePosTotalsImportFile>>;
+    try {
+      parsed = await parsePosTotalsImportFile(new Uint8Array(await file.arrayBuffer()), fileType);
+    } catch (error) {
+      return badRequestResponse(
+        error instanceof Error ? error.message : 'ファイルの読み込みに失敗しました'
+      );
+    }
+
+    const { rows, errors: formatErrors } = parsed;
+    if (rows.length === 0 && formatErrors.length === 0) {
+      return badRequestResponse('取込み対象の行がありません');
+    }
+
+    // 入力チェック・ファイル内重複チェック
+    const validationErrors = validatePosTotalsImportRows(rows);
+
+    // 店舗ごとの権限チェック（売上データを修正できる店舗のみ）
+    const permissionErrors: ImportRowError[] = [];
+    const storeIds = [...new Set(rows.map(({ data }) => data.store_id).filter(Boolean))];
+    for (const storeId of storeIds) {
+      const canUpdate = await hasPermission(user.id, 'sales', 'update', storeId, 'edit');
+      if (!canUpdate) {
+        rows
+          .filter(({ data }) => data.store_id === storeId)
+          .forEach(({ row }) => permissionErrors.push({
+            row,
+            errors: [{
+              field: 'store_id',
+              message: 'この店舗の POS 合計を取り込む権限がありません',
+              code: 'FORBIDDEN',
+            }],
+          }));
+      }
+    }
+
+    const errors = mergeRowErrors(formatErrors, validationErrors, permissionErrors);
+    const errorRowNumbers = new Set(errors.map(({ row }) => row));
+    const validRows = rows.filter(({ row }) => !errorRowNumbers.has(row));
+    const dates = validRows.map(({ data }) => data.date).sort();
+    const validStoreIds = [...new Set(validRows.map(({ data }) => data.store_id))];
+
+    const report: PosTotalsImportReport = {
+      mode,
+      fileName: file.name,
+      totalRows: rows.length + formatErrors.length,
+      validRows: validRows.length,
+      errorRows: errors.length,
+      errors,
+      totalRevenue: validRows.reduce((sum, { data }) => sum + data.revenue_ex_tax, 0),
+      upsertedCount: 0,
+      differenceCount: 0,
+    };
+
+    // 取込み対象の店舗・日の売上と突合（検証時も差異の件数を返す）
+    const sales = dates.length > 0
+      ? await fetchReportedSales(supabase, validStoreIds, dates[0], dates[dates.length - 1])
+      : [];
+    report.differenceCount = reconcilePosTotals(
+      validRows.map(({ data }) => toReconciliation(data)),
+      sales
+    ).filter(item => item.has_difference).length;
+
+    if (mode === 'dry_run') {
+      return NextResponse.json<APIResponse<PosTotalsImportReport>>({
+        data: report,
+        success: true,
+        message: errors.length > 0
+          ? `${errors.length}行にエラーがあります`
+          : `${validRows.length}行を取り込めます（差異 ${report.differenceCount}件）`,
+      });
+    }
+
+    // commit: エラーが1行でもあれば何も登録しない
+    if (errors.length > 0) {
+      return NextResponse.json<APIResponse<PosTotalsImportReport>>({
+        data: report,
+        success: false,
+        message: `${errors.length}行にエラーがあるため取り込みを中止しました`,
+      }, { status: 400 });
+    }
+
+    // 登録済みで値が変わらない行は解消状況を残すため上書きしない
+    const { data: existing, error: existingError } = await supabase
+      .from('pos_reconciliations')
+      .select('date, store_id, pos_revenue_ex_tax, pos_transactions')
+      .in('store_id', validStoreIds)
+      .gte('date', dates[0])
+      .lte('date', dates[dates.length - 1]);
+
+    if (existingError) {
+      console.error('Error fetching existing POS reconciliations:', existingError);
+      return serverErrorResponse('POS 合計の取込みに失敗しました');
+    }
+
+    const existingByKey = new Map((existing || []).map(row => [buildPosReconciliationKey(row), row]));
+    const changedRows = validRows.filter(({ data }) => {
+      const current = existingByKey.get(buildPosReconciliationKey(data));
+      return !current ||
+        Number(current.pos_revenue_ex_tax) !== data.revenue_ex_tax ||
+        current.pos_transactions !== (data.transactions ?? null);
+    });
+
+    if (changedRows.length > 0) {
+      // 単一の UPSERT 文のため全行がまとめてコミットまたはロールバックされる
+      const { data: upserted, error: upsertError } = await supabase
+        .from('pos_reconciliations')
+        .upsert(
+          changedRows.map(({ data }) => ({
+            ...toReconciliationInsert(data),
+            source_file: file.name,
+            uploaded_by: user.id,
+          })),
+          { onConflict: 'date,store_id' }
+        )
+        .select('id');
+
+      if (upsertError) {
+        console.error('Error upserting POS reconciliations:', upsertError);
+        return serverErrorResponse('POS 合計の取込みに失敗しました');
+      }
+
+      report.upsertedCount = upserted?.length || 0;
+    }
+
+    // 監査ログの記録（バッチ全体で1件）
+    await AuditService.log({
+      action: 'import_pos_totals',
+      target: `pos_totals_import:${file.name}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: {
+        file_name: file.name,
+        file_type: fileType,
+        file_size: file.size,
+        row_count: validRows.length,
+        upserted_count: report.upsertedCount,
+        difference_count: report.differenceCount,
+        store_ids: validStoreIds,
+        date_range: { start: dates[0], end: dates[dates.length - 1] },
+      },
+    });
+
+    return NextResponse.json<APIResponse<PosTotalsImportReport>>({
+      data: report,
+      success: true,
+      message: `${report.upsertedCount}行の POS 合計を取り込みました（差異 ${report.differenceCount}件）`,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in POS totals import API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// 新規・値が変わった行は未解消に戻す
+function toReconciliationInsert(data: { date: string; store_id: string; revenue_ex_tax: number; transactions?: number | null }) {
+  return {
+    date: data.date,
+    store_id: data.store_id,
+    pos_revenue_ex_tax: data.revenue_ex_tax,
+    pos_transactions: data.transactions ?? null,
+    status: 'open' as const,
+    resolution_note: null,
+    resolved_by: null,
+    resolved_at: null,
+  };
+}
+
+// 取込み前の行を突合用の形に変換
+function toReconciliation(data: { date: string; store_id: string; revenue_ex_tax: number; transactions?: number | null }): PosReconciliation {
+  return {
+    id: '',
+    source_file: null,
+    uploaded_by: null,
+    created_at: '',
+    updated_at: '',
+    ...toReconciliationInsert(data),
+  };
+}
+
+function badRequestResponse(message: string) {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 400 });
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
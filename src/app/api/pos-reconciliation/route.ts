@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  DEFAULT_POS_TOLERANCE,
+  PosReconciliationItem,
+  fetchReportedSales,
+  reconcilePosTotals,
+} from '@/lib/pos-reconciliation';
+import { APIResponse } from '@/types/database.types';
+
+// GET: POS 突合の一覧（start / end: 対象期間、store_ids: カンマ区切り、
+// status: open = 未解消の差異のみ（既定）/ resolved = 解消済み / all、tolerance: 税抜売上の許容差額（円））
+// 突合は表示のたびに売上の最新値と比較する（閲覧できる店舗は RLS で制限）
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const start = searchParams.get('start');
+    const end = searchParams.get('end');
+    const storeIds = searchParams.get('store_ids')?.split(',').filter(Boolean);
+    const status = searchParams.get('status') || 'open';
+    const toleranceParam = searchParams.get('tolerance');
+    const tolerance = toleranceParam === null ? DEFAULT_POS_TOLERANCE.revenue : Number(toleranceParam);
+
+    if (!start || !end) {
+      return badRequestResponse('対象期間（start / end）を指定してください');
+    }
+    if (!['open', 'resolved', 'all'].includes(status)) {
+      return badRequestResponse('status は open, resolved, all のいずれかを指定してください');
+    }
+    if (Number.isNaN(tolerance) || tolerance < 0) {
+      return badRequestResponse('許容差額は0円以上で指定してください');
+    }
+
+    let query = supabase
+      .from('pos_reconciliations')
+      .select('*')
+      .gte('date', start)
+      .lte('date', end)
+      .order('date', { ascending: true })
+      .order('store_id', { ascending: true });
+
+    if (storeIds?.length) query = query.in('store_id', storeIds);
+    if (status === 'resolved') query = query.neq('status', 'open');
+
+    const { data: reconciliations, error } = await query;
+    if (error) {
+      console.error('Error fetching POS reconciliations:', error);
+      return serverErrorResponse('POS 突合データの取得に失敗しました');
+    }
+
+    const sales = await fetchReportedSales(
+      supabase,
+      [...new Set((reconciliations || []).map(reconciliation => reconciliation.store_id))],
+      start,
+      end
+    );
+
+    const items = reconcilePosTotals(reconciliations || [], sales, { ...DEFAULT_POS_TOLERANCE, revenue: tolerance })
+      .filter(item => status !== 'open' || (item.status === 'open' && item.has_difference));
+
+    return NextResponse.json<APIResponse<PosReconciliationItem[]>>({
+      data: items,
+      success: true,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in POS reconciliation API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function badRequestResponse(message: string) {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 400 });
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
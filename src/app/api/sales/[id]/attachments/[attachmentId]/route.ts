@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+import { AuditService } from '@/lib/services/audit';
+import { ATTACHMENT_SIGNED_URL_TTL, getAttachmentStorage } from '@/lib/services/attachment-storage';
+import { APIResponse, SalesAttachmentDownload } from '@/types/database.types';
+
+interface RouteContext {
+  params: Promise<{ id: string; attachmentId: string }>;
+}
+
+// GET: 添付ファイルのダウンロード用署名付き URL の発行（有効期限5分）
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id, attachmentId } = await params;
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: attachment, error: fetchError } = await supabase
+      .from('sales_attachments')
+      .select('*')
+      .eq('id', attachmentId)
+      .eq('sales_id', id)
+      .single();
+
+    if (fetchError || !attachment) {
+      if (fetchError && fetchError.code !== 'PGRST116') {
+        console.error('Error fetching sales attachment:', fetchError);
+        return serverErrorResponse('データベースエラーが発生しました');
+      }
+
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '添付ファイルが見つかりません',
+      }, { status: 404 });
+    }
+
+    const canView = await hasPermission(user.id, 'sales', 'view', attachment.store_id, 'view');
+    if (!canView) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: 'この店舗の売上データを閲覧する権限がありません',
+      }, { status: 403 });
+    }
+
+    const storage = getAttachmentStorage(supabase);
+    let url: string;
+    try {
+      url = await storage.createSignedUrl(attachment.storage_path, attachment.file_name);
+    } catch (error) {
+      console.error('Error creating signed URL:', error);
+      return serverErrorResponse('ダウンロード URL の発行に失敗しました');
+    }
+
+    // 監査ログの記録（URL の発行をダウンロードとして記録する）
+    await AuditService.log({
+      action: 'download_sales_attachment',
+      target: `sales_attachments:${attachment.id}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: {
+        sales_id: attachment.sales_id,
+        store_id: attachment.store_id,
+        file_name: attachment.file_name,
+        storage: storage.kind,
+      },
+    });
+
+    return NextResponse.json<APIResponse<SalesAttachmentDownload>>({
+      data: {
+        url,
+        expires_at: new Date(Date.now() + ATTACHMENT_SIGNED_URL_TTL * 1000).toISOString(),
+      },
+      success: true,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in sales attachment download API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
@@ -0,0 +1,243 @@
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+import { AuditService } from '@/lib/services/audit';
+import { buildAttachmentPath, getAttachmentStorage } from '@/lib/services/attachment-storage';
+import { ATTACHMENT_LIMITS, validateSalesAttachment } from '@/lib/validations/attachments';
+import {
+  APIResponse,
+  Database,
+  SalesAttachmentContentType,
+  ValidationError,
+} from '@/types/database.types';
+
+type SalesAttachment = Database['public']['Tables']['sales_attachments']['Row'];
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET: 売上データ1件の添付ファイル一覧（古い順）
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return unauthorizedResponse();
+    }
+
+    const { data: sales, error: fetchError } = await supabase
+      .from('sales')
+      .select('id, store_id')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !sales) {
+      return notFoundResponse(fetchError);
+    }
+
+    const canView = await hasPermission(user.id, 'sales', 'view', sales.store_id, 'view');
+    if (!canView) {
+      return forbiddenResponse('この店舗の売上データを閲覧する権限がありません');
+    }
+
+    const { data: attachments, error } = await supabase
+      .from('sales_attachments')
+      .select('*')
+      .eq('sales_id', id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching sales attachments:', error);
+      return serverErrorResponse('添付ファイルの取得に失敗しました');
+    }
+
+    return NextResponse.json<APIResponse<SalesAttachment[]>>({
+      data: attachments || [],
+      success: true,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in sales attachments GET API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// POST: 添付ファイルのアップロード（multipart/form-data: file）
+// ストレージへの保存後にメタデータを登録し、登録に失敗した場合は保存したファイルを削除する
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return unauthorizedResponse();
+    }
+
+    const { data: sales, error: fetchError } = await supabase
+      .from('sales')
+      .select('id, store_id')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !sales) {
+      return notFoundResponse(fetchError);
+    }
+
+    const canUpdate = await hasPermission(user.id, 'sales', 'update', sales.store_id, 'edit');
+    if (!canUpdate) {
+      return forbiddenResponse('この店舗の売上データにファイルを添付する権限がありません');
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return validationErrorResponse([{
+        field: 'file',
+        message: 'ファイルを指定してください',
+        code: 'REQUIRED',
+      }]);
+    }
+
+    // サイズ超過のファイルは読み込まない
+    const bytes = file.size > ATTACHMENT_LIMITS.maxFileSize
+      ? new Uint8Array()
+      : new Uint8Array(await file.arrayBuffer());
+    const validationErrors = validateSalesAttachment(file, bytes);
+    if (validationErrors.length > 0) {
+      return validationErrorResponse(validationErrors);
+    }
+
+    const { count, error: countError } = await supabase
+      .from('sales_attachments')
+      .select('id', { count: 'exact', head: true })
+      .eq('sales_id', id);
+
+    if (countError) {
+      console.error('Error counting sales attachments:', countError);
+      return serverErrorResponse('データベースエラーが発生しました');
+    }
+
+    if ((count ?? 0) >= ATTACHMENT_LIMITS.maxFilesPerSales) {
+      return validationErrorResponse([{
+        field: 'file',
+        message: `添付できるファイルは1件の売上データにつき${ATTACHMENT_LIMITS.maxFilesPerSales}件までです`,
+        code: 'TOO_MANY_FILES',
+      }]);
+    }
+
+    const attachmentId = randomUUID();
+    const storagePath = buildAttachmentPath(sales.store_id, sales.id, attachmentId);
+    const storage = getAttachmentStorage(supabase);
+
+    try {
+      await storage.upload(storagePath, bytes, file.type);
+    } catch (error) {
+      console.error('Error uploading sales attachment:', error);
+      return serverErrorResponse('ファイルのアップロードに失敗しました');
+    }
+
+    const { data: attachment, error: insertError } = await supabase
+      .from('sales_attachments')
+      .insert({
+        id: attachmentId,
+        sales_id: sales.id,
+        store_id: sales.store_id,
+        file_name: file.name,
+        content_type: file.type as SalesAttachmentContentType,
+        size_bytes: file.size,
+        storage_path: storagePath,
+        uploaded_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (insertError || !attachment) {
+      console.error('Error inserting sales attachment:', insertError);
+      await storage.remove(storagePath).catch(error => {
+        console.error('Error removing orphaned sales attachment:', error);
+      });
+      return serverErrorResponse('ファイルのアップロードに失敗しました');
+    }
+
+    // 監査ログの記録
+    await AuditService.log({
+      action: 'upload_sales_attachment',
+      target: `sales_attachments:${attachment.id}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: {
+        sales_id: sales.id,
+        store_id: sales.store_id,
+        file_name: attachment.file_name,
+        content_type: attachment.content_type,
+        size_bytes: attachment.size_bytes,
+        storage: storage.kind,
+      },
+    });
+
+    return NextResponse.json<APIResponse<SalesAttachment>>({
+      data: attachment,
+      success: true,
+      message: 'ファイルを添付しました',
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in sales attachments POST API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function unauthorizedResponse() {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message: '認証が必要です',
+  }, { status: 401 });
+}
+
+function validationErrorResponse(errors: ValidationError[]) {
+  return NextResponse.json<APIResponse<ValidationError[]>>({
+    data: errors,
+    success: false,
+    message: errors[0].message,
+  }, { status: 400 });
+}
+
+function notFoundResponse(error?: { code?: string } | null) {
+  if (error && error.code !== 'PGRST116') {
+    console.error('Error fetching sales data:', error);
+    return serverErrorResponse('データベースエラーが発生しました');
+  }
+
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message: '売上データが見つかりません',
+  }, { status: 404 });
+}
+
+function forbiddenResponse(message: string) {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 403 });
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+import { APIResponse, SalesHistoryEntry } from '@/types/database.types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET: 売上データ1件の変更履歴（登録・修正・ステータス変更の監査ログ、古い順）
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: sales, error: fetchError } = await supabase
+      .from('sales')
+      .select('id, store_id')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !sales) {
+      if (fetchError && fetchError.code !== 'PGRST116') {
+        console.error('Error fetching sales data:', fetchError);
+        return serverErrorResponse('データベースエラーが発生しました');
+      }
+
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '売上データが見つかりません',
+      }, { status: 404 });
+    }
+
+    const canView = await hasPermission(user.id, 'sales', 'view', sales.store_id, 'view');
+    if (!canView) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: 'この店舗の売上データを閲覧する権限がありません',
+      }, { status: 403 });
+    }
+
+    const { data: logs, error: logError } = await supabase
+      .from('audit_log')
+      .select('id, action, actor_id, at, meta')
+      .eq('target', `sales:${id}`)
+      .order('at', { ascending: true });
+
+    if (logError) {
+      console.error('Error fetching sales history:', logError);
+      return serverErrorResponse('変更履歴の取得に失敗しました');
+    }
+
+    // 操作者の表示名（取得できない場合は actor_id のまま表示する）
+    const actorIds = Array.from(new Set((logs || []).map(log => log.actor_id).filter((actorId): actorId is string => !!actorId)));
+    const actorNames = new Map<string, string>();
+    if (actorIds.length > 0) {
+      const { data: profiles, error: profileError } = await supabase
+        .from('user_profiles')
+        .select('id, full_name, email')
+        .in('id', actorIds);
+
+      if (profileError) {
+        console.error('Error fetching user profiles:', profileError);
+      }
+      (profiles || []).forEach(profile => {
+        actorNames.set(profile.id, profile.full_name || profile.email);
+      });
+    }
+
+    const history: SalesHistoryEntry[] = (logs || []).map(log => ({
+      id: log.id,
+      action: log.action,
+      actor_id: log.actor_id,
+      actor_name: log.actor_id ? actorNames.get(log.actor_id) ?? null : null,
+      at: log.at,
+      meta: log.meta,
+    }));
+
+    return NextResponse.json<APIResponse<SalesHistoryEntry[]>>({
+      data: history,
+      success: true,
+      message: '変更履歴を取得しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in sales history API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
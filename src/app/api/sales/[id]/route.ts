@@ -0,0 +1,507 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+import { validateSalesForm } from '@/lib/validations/sales';
+import { SALES_STATUS_LABELS, isSalesEditable } from '@/lib/sales-status';
+import { DEFAULT_SALES_CHANNEL } from '@/lib/sales-channels';
+import { TAX_RULE_NOT_FOUND_ERROR, calculateSalesTax, fetchTaxRules } from '@/lib/tax';
+import {
+  PERIOD_CLOSED_ERROR,
+  buildPeriodClosedError,
+  fetchClosedPeriods,
+  findClosedPeriod,
+  isPeriodClosedError,
+} from '@/lib/accounting-periods';
+import {
+  Database,
+  SalesInputForm,
+  SalesUpdateRequest,
+  APIResponse,
+  ValidationError
+} from '@/types/database.types';
+
+type SalesRow = Database['public']['Tables']['sales']['Row'];
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// 編集可能なフィールド（id・作成者・タイムスタンプは対象外）
+const EDITABLE_FIELDS = [
+  'date',
+  'store_id',
+  'department',
+  'product_category',
+  'channel',
+  'revenue_ex_tax',
+  'footfall',
+  'transactions',
+  'discounts',
+  'notes',
+] as const;
+
+type EditableField = typeof EDITABLE_FIELDS[number];
+
+// 重複チェック対象のキー項目
+const UNIQUE_KEY_FIELDS: EditableField[] = ['date', 'store_id', 'department', 'product_category', 'channel'];
+
+// 消費税の再計算が必要な項目
+const TAX_BASIS_FIELDS: EditableField[] = ['date', 'department', 'product_category', 'revenue_ex_tax'];
+
+// GET: 売上データ1件の取得（編集画面用）
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: sales, error } = await supabase
+      .from('sales')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !sales) {
+      return notFoundResponse(error);
+    }
+
+    const canView = await hasPermission(user.id, 'sales', 'view', sales.store_id, 'view');
+    if (!canView) {
+      return forbiddenResponse('この店舗の売上データを閲覧する権限がありません');
+    }
+
+    return NextResponse.json<APIResponse<SalesRow>>({
+      data: sales,
+      success: true,
+      message: '売上データを取得しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in sales GET by id API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// PATCH: 売上データの修正（updated_at による楽観的排他制御）
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body: SalesUpdateRequest = await request.json();
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    if (!body.updated_at) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: [{
+          field: 'updated_at',
+          message: '更新前の updated_at を指定してください',
+          code: 'REQUIRED',
+        }],
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    // 現在の値を取得
+    const { data: current, error: fetchError } = await supabase
+      .from('sales')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !current) {
+      return notFoundResponse(fetchError);
+    }
+
+    // 権限チェック（ロール権限 + 店舗の can_edit）
+    const canEdit = await hasPermission(user.id, 'sales', 'update', current.store_id, 'edit');
+    if (!canEdit) {
+      return forbiddenResponse();
+    }
+
+    if (body.store_id && body.store_id !== current.store_id) {
+      const canEditTarget = await hasPermission(user.id, 'sales', 'update', body.store_id, 'edit');
+      if (!canEditTarget) {
+        return forbiddenResponse();
+      }
+    }
+
+    // 承認ワークフロー: 下書き以外は編集不可
+    if (!isSalesEditable(current.status)) {
+      return readOnlyResponse(current);
+    }
+
+    // 楽観的排他制御
+    if (current.updated_at !== body.updated_at) {
+      return conflictResponse(current);
+    }
+
+    // 変更内容の抽出
+    const changes = extractChanges(current, body);
+    const changedFields = Object.keys(changes) as EditableField[];
+
+    if (changedFields.length === 0) {
+      return NextResponse.json<APIResponse<SalesRow>>({
+        data: current,
+        success: true,
+        message: '変更はありません',
+      });
+    }
+
+    // 変更後の値でバリデーション
+    const merged = { ...toSalesInput(current), ...toSalesInput(changes as Partial<SalesRow>) };
+    const validationErrors = validateSalesForm(merged);
+    if (validationErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: validationErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    // 締め済み期間のチェック（変更前・変更後の両方）
+    const [closeCheckStart, closeCheckEnd] = [current.date, merged.date].sort();
+    const closes = await fetchClosedPeriods(supabase, closeCheckStart, closeCheckEnd);
+    const closedPeriod = findClosedPeriod(closes, current.store_id, current.date) ||
+      findClosedPeriod(closes, merged.store_id, merged.date);
+    if (closedPeriod) {
+      return periodClosedResponse(buildPeriodClosedError(closedPeriod));
+    }
+
+    // キー項目が変わる場合は重複チェック
+    if (changedFields.some(field => UNIQUE_KEY_FIELDS.includes(field))) {
+      const { data: existingData, error: checkError } = await supabase
+        .from('sales')
+        .select('id')
+        .eq('date', merged.date)
+        .eq('store_id', merged.store_id)
+        .eq('department', merged.department)
+        .eq('product_category', merged.product_category)
+        .eq('channel', merged.channel || DEFAULT_SALES_CHANNEL)
+        .neq('id', id)
+        .single();
+
+      if (checkError && checkError.code !== 'PGRST116') { // PGRST116 = no rows returned
+        console.error('Error checking duplicate:', checkError);
+        return serverErrorResponse('データベースエラーが発生しました');
+      }
+
+      if (existingData) {
+        return NextResponse.json<APIResponse<null>>({
+          data: null,
+          success: false,
+          message: '同じ日付・店舗・部門・カテゴリ・チャネルの売上データが既に存在します',
+        }, { status: 409 });
+      }
+    }
+
+    const updates: Database['public']['Tables']['sales']['Update'] = { ...changes };
+    if (changedFields.some(field => TAX_BASIS_FIELDS.includes(field))) {
+      // 税率は日付・部門・カテゴリで決まるため、いずれかが変われば再計算
+      const taxCalculation = calculateSalesTax(await fetchTaxRules(supabase), merged);
+      if (!taxCalculation) {
+        return NextResponse.json<APIResponse<ValidationError[]>>({
+          data: [TAX_RULE_NOT_FOUND_ERROR],
+          success: false,
+          message: TAX_RULE_NOT_FOUND_ERROR.message,
+        }, { status: 400 });
+      }
+      updates.tax = taxCalculation.tax;
+      updates.tax_rate = taxCalculation.tax_rate;
+    }
+
+    // updated_at が一致する場合のみ更新（取得〜更新間の競合も検出）
+    const { data: updated, error: updateError } = await supabase
+      .from('sales')
+      .update(updates)
+      .eq('id', id)
+      .eq('updated_at', body.updated_at)
+      .select()
+      .single();
+
+    if (updateError?.code === 'PGRST116' || (!updateError && !updated)) {
+      const { data: latest } = await supabase.from('sales').select('*').eq('id', id).single();
+      return conflictResponse(latest);
+    }
+
+    if (isPeriodClosedError(updateError)) {
+      return periodClosedResponse(PERIOD_CLOSED_ERROR);
+    }
+
+    if (updateError) {
+      console.error('Error updating sales data:', updateError);
+      return serverErrorResponse('売上データの更新に失敗しました');
+    }
+
+    // 監査ログの記録（変更前後の値）
+    const auditFields = Object.keys(updates) as (keyof SalesRow)[];
+    await insertAuditLog(supabase, request, {
+      actor_id: user.id,
+      action: 'edit_sales',
+      target: `sales:${id}`,
+      meta: {
+        sales_id: id,
+        store_id: updated.store_id,
+        date: updated.date,
+        changed_fields: auditFields,
+        before: pickFields(current, auditFields),
+        after: pickFields(updated, auditFields),
+      },
+    });
+
+    return NextResponse.json<APIResponse<SalesRow>>({
+      data: updated,
+      success: true,
+      message: '売上データを更新しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in sales PATCH API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// DELETE: 売上データの削除（?updated_at= による楽観的排他制御）
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const expectedUpdatedAt = request.nextUrl.searchParams.get('updated_at');
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    if (!expectedUpdatedAt) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: [{
+          field: 'updated_at',
+          message: '削除前の updated_at を指定してください',
+          code: 'REQUIRED',
+        }],
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const { data: current, error: fetchError } = await supabase
+      .from('sales')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !current) {
+      return notFoundResponse(fetchError);
+    }
+
+    const canDelete = await hasPermission(user.id, 'sales', 'delete', current.store_id, 'edit');
+    if (!canDelete) {
+      return forbiddenResponse('この店舗の売上データを削除する権限がありません');
+    }
+
+    if (!isSalesEditable(current.status)) {
+      return readOnlyResponse(current);
+    }
+
+    if (current.updated_at !== expectedUpdatedAt) {
+      return conflictResponse(current);
+    }
+
+    const closedPeriod = findClosedPeriod(
+      await fetchClosedPeriods(supabase, current.date, current.date),
+      current.store_id,
+      current.date
+    );
+    if (closedPeriod) {
+      return periodClosedResponse(buildPeriodClosedError(closedPeriod));
+    }
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from('sales')
+      .delete()
+      .eq('id', id)
+      .eq('updated_at', expectedUpdatedAt)
+      .select();
+
+    if (isPeriodClosedError(deleteError)) {
+      return periodClosedResponse(PERIOD_CLOSED_ERROR);
+    }
+
+    if (deleteError) {
+      console.error('Error deleting sales data:', deleteError);
+      return serverErrorResponse('売上データの削除に失敗しました');
+    }
+
+    if (!deleted || deleted.length === 0) {
+      const { data: latest } = await supabase.from('sales').select('*').eq('id', id).single();
+      return conflictResponse(latest);
+    }
+
+    await insertAuditLog(supabase, request, {
+      actor_id: user.id,
+      action: 'delete_sales',
+      target: `sales:${id}`,
+      meta: {
+        sales_id: id,
+        store_id: current.store_id,
+        date: current.date,
+        before: current,
+        after: null,
+      },
+    });
+
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: true,
+      message: '売上データを削除しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in sales DELETE API:', error);
+    return serverErrorResponse();
+  }
+}
+
+/**
+ * リクエストボディから実際に変更された項目だけを抽出
+ */
+function extractChanges(current: SalesRow, body: SalesUpdateRequest): Partial<Pick<SalesRow, EditableField>> {
+  const changes: Record<string, unknown> = {};
+
+  for (const field of EDITABLE_FIELDS) {
+    if (!Object.prototype.hasOwnProperty.call(body, field)) continue;
+
+    let value: unknown = body[field];
+    if (value === undefined || value === '') {
+      value = null;
+    }
+
+    if ((current[field] ?? null) !== value) {
+      changes[field] = value;
+    }
+  }
+
+  return changes as Partial<Pick<SalesRow, EditableField>>;
+}
+
+/**
+ * DB の行をバリデーション用のフォーム形式に変換（null → undefined）
+ */
+function toSalesInput(row: Partial<SalesRow>): SalesInputForm {
+  const input: Record<string, unknown> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (field in row) {
+      input[field] = row[field] ?? undefined;
+    }
+  }
+  return input as unknown as SalesInputForm;
+}
+
+function pickFields(row: SalesRow, fields: (keyof SalesRow)[]): Partial<SalesRow> {
+  return fields.reduce<Partial<SalesRow>>((acc, field) => {
+    return { ...acc, [field]: row[field] };
+  }, {});
+}
+
+async function insertAuditLog(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  request: NextRequest,
+  entry: {
+    actor_id: string;
+    action: 'edit_sales' | 'delete_sales';
+    target: string;
+    meta: Record<string, unknown>;
+  }
+) {
+  const { error: auditError } = await supabase
+    .from('audit_log')
+    .insert([{
+      ...entry,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+    }]);
+
+  if (auditError) {
+    console.error('Error inserting audit log:', auditError);
+    // 監査ログエラーは処理を停止しない（警告ログのみ）
+  }
+}
+
+function notFoundResponse(error?: { code?: string } | null) {
+  if (error && error.code !== 'PGRST116') {
+    console.error('Error fetching sales data:', error);
+    return serverErrorResponse('データベースエラーが発生しました');
+  }
+
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message: '売上データが見つかりません',
+  }, { status: 404 });
+}
+
+function forbiddenResponse(message = 'この店舗の売上データを編集する権限がありません') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 403 });
+}
+
+function conflictResponse(latest: SalesRow | null) {
+  return NextResponse.json<APIResponse<SalesRow | null>>({
+    data: latest,
+    success: false,
+    message: '他のユーザーによって更新されています。最新のデータを確認してから再度操作してください',
+  }, { status: 409 });
+}
+
+function readOnlyResponse(current: SalesRow) {
+  return NextResponse.json<APIResponse<SalesRow>>({
+    data: current,
+    success: false,
+    message: `${SALES_STATUS_LABELS[current.status]}の売上データは変更できません。差戻しまたは承認取消の後に操作してください`,
+  }, { status: 409 });
+}
+
+function periodClosedResponse(error: ValidationError) {
+  return NextResponse.json<APIResponse<ValidationError[]>>({
+    data: [error],
+    success: false,
+    message: error.message,
+  }, { status: 423 });
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
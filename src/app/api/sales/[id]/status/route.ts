@@ -0,0 +1,245 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+import { AuditService } from '@/lib/services/audit';
+import { SalesWorkflowService } from '@/lib/services/sales-workflow';
+import {
+  SALES_STATUS_LABELS,
+  SALES_STATUS_TRANSITIONS,
+  SalesStatusAction,
+  isSalesStatusAction,
+} from '@/lib/sales-status';
+import {
+  PERIOD_CLOSED_ERROR,
+  buildPeriodClosedError,
+  fetchClosedPeriods,
+  findClosedPeriod,
+  isPeriodClosedError,
+} from '@/lib/accounting-periods';
+import { Database, APIResponse, ValidationError } from '@/types/database.types';
+
+type SalesRow = Database['public']['Tables']['sales']['Row'];
+type SalesUpdate = Database['public']['Tables']['sales']['Update'];
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface StatusChangeRequest {
+  action: SalesStatusAction;
+  comment?: string;
+  updated_at: string;
+}
+
+// POST: 売上データのステータス変更（申請・承認・差戻し・承認取消・確定）
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body: StatusChangeRequest = await request.json();
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    // 入力チェック
+    const inputErrors: ValidationError[] = [];
+    if (!isSalesStatusAction(body.action)) {
+      inputErrors.push({ field: 'action', message: '操作が不正です', code: 'INVALID_VALUE' });
+    } else if (SALES_STATUS_TRANSITIONS[body.action].requiresComment && !body.comment?.trim()) {
+      inputErrors.push({ field: 'comment', message: 'コメントを入力してください', code: 'REQUIRED' });
+    }
+    if (!body.updated_at) {
+      inputErrors.push({ field: 'updated_at', message: '更新前の updated_at を指定してください', code: 'REQUIRED' });
+    }
+    if (inputErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: inputErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const transition = SALES_STATUS_TRANSITIONS[body.action];
+    const comment = body.comment?.trim() || null;
+
+    const { data: current, error: fetchError } = await supabase
+      .from('sales')
+      .select('*')
+      .eq('id', id)
+      .single<SalesRow>();
+
+    if (fetchError || !current) {
+      if (fetchError && fetchError.code !== 'PGRST116') {
+        console.error('Error fetching sales data:', fetchError);
+        return serverErrorResponse('データベースエラーが発生しました');
+      }
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '売上データが見つかりません',
+      }, { status: 404 });
+    }
+
+    // 権限チェック（ロール + 店舗の can_edit）
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    const canEditStore = await hasPermission(user.id, 'sales', 'update', current.store_id, 'edit');
+    if (!profile?.is_active || !transition.roles.includes(profile.role) || !canEditStore) {
+      return forbiddenResponse(`この売上データを${transition.label}する権限がありません`);
+    }
+
+    // 申請者自身による承認・差戻しは不可（管理者を除く）
+    if ((body.action === 'approve' || body.action === 'reject') &&
+        profile.role !== 'admin' &&
+        current.submitted_by === user.id) {
+      return forbiddenResponse('自身が申請した売上データは承認・差戻しできません');
+    }
+
+    if (!transition.from.includes(current.status)) {
+      return NextResponse.json<APIResponse<SalesRow>>({
+        data: current,
+        success: false,
+        message: `現在のステータス（${SALES_STATUS_LABELS[current.status]}）では${transition.label}できません`,
+      }, { status: 409 });
+    }
+
+    // 楽観的排他制御
+    if (current.updated_at !== body.updated_at) {
+      return conflictResponse(current);
+    }
+
+    // 締め済み期間はステータスも変更不可
+    const closedPeriod = findClosedPeriod(
+      await fetchClosedPeriods(supabase, current.date, current.date),
+      current.store_id,
+      current.date
+    );
+    if (closedPeriod) {
+      return periodClosedResponse(buildPeriodClosedError(closedPeriod));
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('sales')
+      .update(buildStatusUpdate(body.action, user.id, comment))
+      .eq('id', id)
+      .eq('status', current.status)
+      .eq('updated_at', body.updated_at)
+      .select()
+      .single();
+
+    if (updateError?.code === 'PGRST116' || (!updateError && !updated)) {
+      const { data: latest } = await supabase.from('sales').select('*').eq('id', id).single();
+      return conflictResponse(latest);
+    }
+
+    if (isPeriodClosedError(updateError)) {
+      return periodClosedResponse(PERIOD_CLOSED_ERROR);
+    }
+
+    if (updateError) {
+      console.error('Error updating sales status:', updateError);
+      return serverErrorResponse('ステータスの更新に失敗しました');
+    }
+
+    // 監査ログの記録
+    await AuditService.log({
+      action: `${body.action}_sales`,
+      target: `sales:${id}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: {
+        sales_id: id,
+        store_id: current.store_id,
+        date: current.date,
+        from_status: current.status,
+        to_status: updated.status,
+        comment,
+      },
+    });
+
+    // 次の担当者へ通知
+    await SalesWorkflowService.notifyTransition(supabase, {
+      sales: updated,
+      action: body.action,
+      actorId: user.id,
+      comment,
+    });
+
+    return NextResponse.json<APIResponse<SalesRow>>({
+      data: updated,
+      success: true,
+      message: `売上データを${transition.label}しました`,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in sales status API:', error);
+    return serverErrorResponse();
+  }
+}
+
+/**
+ * 操作ごとの更新内容
+ */
+function buildStatusUpdate(action: SalesStatusAction, userId: string, comment: string | null): SalesUpdate {
+  const now = new Date().toISOString();
+  const status = SALES_STATUS_TRANSITIONS[action].to;
+
+  switch (action) {
+    case 'submit':
+      return { status, submitted_by: userId, submitted_at: now, review_comment: null };
+    case 'approve':
+      return { status, approved_by: userId, approved_at: now, review_comment: comment };
+    case 'reject':
+      return { status, review_comment: comment };
+    case 'reopen':
+      return { status, approved_by: null, approved_at: null, review_comment: comment };
+    case 'lock':
+      return { status, locked_by: userId, locked_at: now };
+  }
+}
+
+function forbiddenResponse(message: string) {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 403 });
+}
+
+function conflictResponse(latest: SalesRow | null) {
+  return NextResponse.json<APIResponse<SalesRow | null>>({
+    data: latest,
+    success: false,
+    message: '他のユーザーによって更新されています。最新のデータを確認してから再度操作してください',
+  }, { status: 409 });
+}
+
+function periodClosedResponse(error: ValidationError) {
+  return NextResponse.json<APIResponse<ValidationError[]>>({
+    data: [error],
+    success: false,
+    message: error.message,
+  }, { status: 423 });
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
@@ -0,0 +1,311 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+import { isSalesEditable } from '@/lib/sales-status';
+import { DEFAULT_SALES_CHANNEL, isSalesChannel } from '@/lib/sales-channels';
+import {
+  PERIOD_CLOSED_ERROR,
+  buildPeriodClosedError,
+  fetchClosedPeriods,
+  findClosedPeriod,
+  isPeriodClosedError,
+} from '@/lib/accounting-periods';
+import { TAX_RULE_NOT_FOUND_ERROR, calculateSalesTax, fetchTaxRules } from '@/lib/tax';
+import { validateSalesBatch } from '@/lib/validations/sales';
+import {
+  SalesBatchCell,
+  SalesBatchCellError,
+  SalesBatchRequest,
+  SalesBatchResult,
+  SalesBatchRow,
+  APIResponse,
+  ValidationError,
+} from '@/types/database.types';
+
+// グリッドの事前入力・照合に使う列
+const BATCH_ROW_COLUMNS = 'id, date, department, product_category, revenue_ex_tax, status, updated_at';
+
+// GET: グリッド入力の事前入力（店舗・期間・チャネルの既存データ、チャネル省略時は店頭）
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const storeId = searchParams.get('store_id');
+    const startDate = searchParams.get('start_date');
+    const endDate = searchParams.get('end_date');
+    const channel = searchParams.get('channel') || DEFAULT_SALES_CHANNEL;
+
+    if (!storeId || !startDate || !endDate) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: 'store_id, start_date, end_date を指定してください',
+      }, { status: 400 });
+    }
+
+    if (!isSalesChannel(channel)) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: 'channel は store, ec, corporate のいずれかを指定してください',
+      }, { status: 400 });
+    }
+
+    const canView = await hasPermission(user.id, 'sales', 'view', storeId, 'view');
+    if (!canView) {
+      return forbiddenResponse('この店舗の売上データを閲覧する権限がありません');
+    }
+
+    const { data, error } = await supabase
+      .from('sales')
+      .select(BATCH_ROW_COLUMNS)
+      .eq('store_id', storeId)
+      .eq('channel', channel)
+      .gte('date', startDate)
+      .lte('date', endDate);
+
+    if (error) {
+      console.error('Error fetching sales data:', error);
+      return serverErrorResponse('売上データの取得に失敗しました');
+    }
+
+    return NextResponse.json<APIResponse<SalesBatchRow[]>>({
+      data: data || [],
+      success: true,
+      message: '売上データを取得しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in sales batch GET API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// POST: グリッド入力の一括保存
+// すべてのセルを検証してから、登録・修正と監査ログを save_sales_batch で同一トランザクションで保存する
+export async function POST(request: NextRequest) {
+  try {
+    const body: SalesBatchRequest = await request.json();
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    // バリデーション
+    const validationErrors = validateSalesBatch(body);
+    if (validationErrors.length > 0) {
+      return validationErrorResponse(validationErrors);
+    }
+
+    const canEdit = await hasPermission(user.id, 'sales', 'create', body.store_id, 'edit');
+    if (!canEdit) {
+      return forbiddenResponse('この店舗の売上データを登録する権限がありません');
+    }
+
+    // 既存データ（同じ店舗・チャネル・日付）との照合
+    const channel = body.channel || DEFAULT_SALES_CHANNEL;
+    const dates = Array.from(new Set(body.cells.map(cell => cell.date)));
+    const { data: existingRows, error: fetchError } = await supabase
+      .from('sales')
+      .select(BATCH_ROW_COLUMNS)
+      .eq('store_id', body.store_id)
+      .eq('channel', channel)
+      .in('date', dates);
+
+    if (fetchError) {
+      console.error('Error fetching sales data:', fetchError);
+      return serverErrorResponse('データベースエラーが発生しました');
+    }
+
+    const existingByKey = new Map<string, SalesBatchRow>();
+    (existingRows || []).forEach((row: SalesBatchRow) => {
+      existingByKey.set(`${row.department}|${row.product_category}|${row.date}`, row);
+    });
+
+    const sortedDates = [...dates].sort();
+    const closes = await fetchClosedPeriods(supabase, sortedDates[0], sortedDates[sortedDates.length - 1]);
+    const taxRules = await fetchTaxRules(supabase);
+    const inserts: Record<string, unknown>[] = [];
+    const updates: Record<string, unknown>[] = [];
+    const cellErrors: SalesBatchCellError[] = [];
+    const closedErrors: SalesBatchCellError[] = [];
+    const conflicts: SalesBatchCell[] = [];
+    let unchanged = 0;
+
+    for (const cell of body.cells) {
+      const location = { date: cell.date, department: cell.department, product_category: cell.product_category };
+      const existing = existingByKey.get(`${cell.department}|${cell.product_category}|${cell.date}`);
+
+      const closedPeriod = findClosedPeriod(closes, body.store_id, cell.date);
+      if (closedPeriod) {
+        closedErrors.push({ ...buildPeriodClosedError(closedPeriod), ...location });
+        continue;
+      }
+
+      // 読み込み後に他のユーザーが登録・更新・削除している
+      if (existing ? existing.updated_at !== cell.updated_at : Boolean(cell.id)) {
+        conflicts.push(cell);
+        continue;
+      }
+
+      if (existing && Number(existing.revenue_ex_tax) === cell.revenue_ex_tax) {
+        unchanged++;
+        continue;
+      }
+
+      if (existing && !isSalesEditable(existing.status)) {
+        cellErrors.push({
+          field: 'revenue_ex_tax',
+          message: '申請中・承認済みの売上データは修正できません',
+          code: 'NOT_EDITABLE',
+          ...location,
+        });
+        continue;
+      }
+
+      const taxCalculation = calculateSalesTax(taxRules, cell);
+      if (!taxCalculation) {
+        cellErrors.push({ ...TAX_RULE_NOT_FOUND_ERROR, ...location });
+        continue;
+      }
+
+      const amounts = {
+        revenue_ex_tax: cell.revenue_ex_tax,
+        tax: taxCalculation.tax,
+        tax_rate: taxCalculation.tax_rate,
+      };
+
+      if (existing) {
+        updates.push({ id: existing.id, updated_at: existing.updated_at, ...amounts });
+      } else {
+        inserts.push({ ...location, ...amounts });
+      }
+    }
+
+    if (cellErrors.length > 0) {
+      return validationErrorResponse(cellErrors);
+    }
+
+    if (closedErrors.length > 0) {
+      return periodClosedResponse(closedErrors);
+    }
+
+    if (conflicts.length > 0) {
+      return conflictResponse(conflicts);
+    }
+
+    if (inserts.length === 0 && updates.length === 0) {
+      return NextResponse.json<APIResponse<SalesBatchResult>>({
+        data: { inserted: 0, updated: 0, unchanged },
+        success: true,
+        message: '変更はありません',
+      });
+    }
+
+    const { data: saved, error: saveError } = await supabase.rpc('save_sales_batch', {
+      p_store_id: body.store_id,
+      p_inserts: inserts,
+      p_updates: updates,
+      p_audit: {
+        ip: request.headers.get('x-forwarded-for') ||
+            request.headers.get('x-real-ip') ||
+            'unknown',
+        ua: request.headers.get('user-agent') || 'unknown',
+      },
+      p_channel: channel,
+    });
+
+    if (saveError) {
+      // 40001 = 照合後に更新された行がある、23505 = 照合後に登録された行がある
+      if (saveError.code === '40001' || saveError.code === '23505') {
+        return conflictResponse([]);
+      }
+
+      if (saveError.code === '42501') {
+        return forbiddenResponse('この店舗の売上データを登録する権限がありません');
+      }
+
+      // 照合後に締められた
+      if (isPeriodClosedError(saveError)) {
+        return periodClosedResponse([PERIOD_CLOSED_ERROR]);
+      }
+
+      console.error('Error saving sales batch:', saveError);
+      return serverErrorResponse('売上データの保存に失敗しました');
+    }
+
+    const result: SalesBatchResult = {
+      inserted: saved?.inserted ?? inserts.length,
+      updated: saved?.updated ?? updates.length,
+      unchanged,
+    };
+
+    return NextResponse.json<APIResponse<SalesBatchResult>>({
+      data: result,
+      success: true,
+      message: `売上データを保存しました（登録 ${result.inserted}件・修正 ${result.updated}件）`,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in sales batch API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function validationErrorResponse(errors: SalesBatchCellError[]) {
+  return NextResponse.json<APIResponse<SalesBatchCellError[]>>({
+    data: errors,
+    success: false,
+    message: '入力データに不正があります',
+  }, { status: 400 });
+}
+
+function conflictResponse(cells: SalesBatchCell[]) {
+  return NextResponse.json<APIResponse<SalesBatchCell[]>>({
+    data: cells,
+    success: false,
+    message: '他のユーザーによって更新されています。最新のデータを読み込んでから再度保存してください',
+  }, { status: 409 });
+}
+
+function periodClosedResponse(errors: ValidationError[]) {
+  return NextResponse.json<APIResponse<ValidationError[]>>({
+    data: errors,
+    success: false,
+    message: errors[0].message,
+  }, { status: 423 });
+}
+
+function forbiddenResponse(message: string) {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 403 });
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
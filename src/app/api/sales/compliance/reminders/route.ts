@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { SubmissionSLAService, ReminderResult, SUBMISSION_SLA_CONFIG, findDueCutoff } from '@/lib/services/submission-sla';
+import { APIResponse } from '@/types/database.types';
+
+export const runtime = 'nodejs';
+
+// GET: Vercel Cron からの定時リマインド（15分ごとに実行し、リマインド時刻を過ぎた最初の実行で送信）
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const now = new Date();
+    const cutoff = findDueCutoff(now);
+    if (!cutoff) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: true,
+        message: 'リマインド時刻ではありません',
+      });
+    }
+
+    // セッションのない定時実行では RLS で売上・店長が見えないため service role で集計・送信する
+    const service = new SubmissionSLAService(createServiceRoleClient());
+    const result = await service.sendReminders(now, cutoff);
+
+    return remindersResponse(result);
+
+  } catch (error) {
+    console.error('Unexpected error in sales reminder cron:', error);
+    return serverErrorResponse();
+  }
+}
+
+// POST: 管理者による手動リマインド送信
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: 'リマインドを送信する権限がありません',
+      }, { status: 403 });
+    }
+
+    const body: { cutoff?: string } = await request.json().catch(() => ({}));
+    if (body.cutoff && !SUBMISSION_SLA_CONFIG.reminderCutoffs.includes(body.cutoff)) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: `リマインド時刻は ${SUBMISSION_SLA_CONFIG.reminderCutoffs.join(' / ')} のいずれかを指定してください`,
+      }, { status: 400 });
+    }
+
+    const service = new SubmissionSLAService(supabase);
+    const result = await service.sendReminders(new Date(), body.cutoff);
+
+    return remindersResponse(result);
+
+  } catch (error) {
+    console.error('Unexpected error in sales reminder API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function remindersResponse(result: ReminderResult) {
+  return NextResponse.json<APIResponse<ReminderResult>>({
+    data: result,
+    success: true,
+    message: result.missingStoreIds.length > 0
+      ? `未提出の${result.missingStoreIds.length}店舗についてリマインドを送信しました`
+      : '全店舗が提出済みです',
+  });
+}
+
+function serverErrorResponse() {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message: 'サーバーエラーが発生しました',
+  }, { status: 500 });
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+import { SubmissionSLAService, ComplianceReport, toJSTDateString } from '@/lib/services/submission-sla';
+import { APIResponse } from '@/types/database.types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RANGE_DAYS = 366;
+
+// GET: 店舗別の売上報告提出状況（SLA達成率）
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const canView = await hasPermission(user.id, 'sales', 'view');
+    if (!canView) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '売上データの閲覧権限がありません',
+      }, { status: 403 });
+    }
+
+    // 期間（既定: 当月1日〜本日 JST）
+    const { searchParams } = new URL(request.url);
+    const today = toJSTDateString(new Date());
+    const startDate = searchParams.get('start') || `${today.slice(0, 8)}01`;
+    const endDate = searchParams.get('end') || today;
+    const storeIds = searchParams.get('store_ids')?.split(',').filter(Boolean);
+
+    if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate) || startDate > endDate) {
+      return badRequestResponse('期間の指定が不正です（YYYY-MM-DD）');
+    }
+
+    const rangeDays = (Date.parse(endDate) - Date.parse(startDate)) / (24 * 60 * 60 * 1000) + 1;
+    if (rangeDays > MAX_RANGE_DAYS) {
+      return badRequestResponse(`期間は${MAX_RANGE_DAYS}日以内で指定してください`);
+    }
+
+    // 閲覧可能な店舗に限定
+    const accessibleStoreIds: string[] = [];
+    if (storeIds?.length) {
+      for (const storeId of storeIds) {
+        if (await hasPermission(user.id, 'sales', 'view', storeId, 'view')) {
+          accessibleStoreIds.push(storeId);
+        }
+      }
+      if (accessibleStoreIds.length === 0) {
+        return NextResponse.json<APIResponse<null>>({
+          data: null,
+          success: false,
+          message: '指定された店舗の閲覧権限がありません',
+        }, { status: 403 });
+      }
+    }
+
+    const service = new SubmissionSLAService(supabase);
+    const report = await service.getComplianceReport(
+      startDate,
+      endDate,
+      accessibleStoreIds.length > 0 ? accessibleStoreIds : undefined
+    );
+
+    return NextResponse.json<APIResponse<ComplianceReport>>({
+      data: report,
+      success: true,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in sales compliance API:', error);
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: false,
+      message: 'サーバーエラーが発生しました',
+    }, { status: 500 });
+  }
+}
+
+function badRequestResponse(message: string) {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 400 });
+}
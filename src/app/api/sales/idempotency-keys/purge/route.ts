@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { purgeExpiredIdempotencyKeys } from '@/lib/idempotency';
+import { APIResponse } from '@/types/database.types';
+
+export const runtime = 'nodejs';
+
+// GET: Vercel Cron からの期限切れ Idempotency-Key の削除（毎日 JST 04:00）
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    // 削除関数の実行権限は service role のみ
+    const deleted = await purgeExpiredIdempotencyKeys(createServiceRoleClient());
+
+    return NextResponse.json<APIResponse<{ deleted: number }>>({
+      data: { deleted },
+      success: true,
+      message: `期限切れの Idempotency-Key を${deleted}件削除しました`,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in idempotency key purge:', error);
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: false,
+      message: 'サーバーエラーが発生しました',
+    }, { status: 500 });
+  }
+}
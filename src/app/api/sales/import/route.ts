@@ -0,0 +1,241 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/rbac/middleware';
+import {
+  IMPORT_LIMITS,
+  ImportMode,
+  ImportReport,
+  ImportRowError,
+  calculateImportTaxes,
+  detectFileType,
+  findExistingDuplicates,
+  mergeRowErrors,
+  parseSalesImportFile,
+  validateImportRows,
+} from '@/lib/services/sales-import';
+import { fetchTaxRules } from '@/lib/tax';
+import { DEFAULT_SALES_CHANNEL } from '@/lib/sales-channels';
+import {
+  PERIOD_CLOSED_ERROR,
+  buildPeriodClosedError,
+  fetchClosedPeriods,
+  findClosedPeriod,
+  isPeriodClosedError,
+} from '@/lib/accounting-periods';
+import { APIResponse } from '@/types/database.types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// POST: 売上データの一括インポート（multipart/form-data: file, mode=dry_run|commit）
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const mode: ImportMode = formData.get('mode') === 'commit' ? 'commit' : 'dry_run';
+
+    if (!(file instanceof File)) {
+      return badRequestResponse('ファイルを指定してください');
+    }
+
+    const fileType = detectFileType(file.name);
+    if (!fileType) {
+      return badRequestResponse('CSV または Excel(.xlsx) ファイルを指定してください');
+    }
+
+    if (file.size > IMPORT_LIMITS.maxFileSize) {
+      return badRequestResponse('ファイルサイズは5MB以下にしてください');
+    }
+
+    // ファイル解析
+    let parsed: Awaited<ReturnType<typeof parseSalesImportFile>>;
+    try {
+      parsed = await parseSalesImportFile(new Uint8Array(await file.arrayBuffer()), fileType);
+    } catch (error) {
+      return badRequestResponse(
+        error instanceof Error ? error.message : 'ファイルの読み込みに失敗しました'
+      );
+    }
+
+    const { rows, errors: formatErrors } = parsed;
+    if (rows.length === 0 && formatErrors.length === 0) {
+      return badRequestResponse('取込み対象の行がありません');
+    }
+
+    // 入力チェック・ファイル内重複チェック
+    const validationErrors = validateImportRows(rows);
+
+    // 店舗ごとの入力権限チェック
+    const permissionErrors: ImportRowError[] = [];
+    const storeIds = [...new Set(rows.map(({ data }) => data.store_id).filter(Boolean))];
+    for (const storeId of storeIds) {
+      const canCreate = await hasPermission(user.id, 'sales', 'create', storeId, 'edit');
+      if (!canCreate) {
+        rows
+          .filter(({ data }) => data.store_id === storeId)
+          .forEach(({ row }) => permissionErrors.push({
+            row,
+            errors: [{
+              field: 'store_id',
+              message: 'この店舗の売上データを入力する権限がありません',
+              code: 'FORBIDDEN',
+            }],
+          }));
+      }
+    }
+
+    // 締め済み期間のチェック
+    const closedErrors: ImportRowError[] = [];
+    const rowDates = rows.map(({ data }) => data.date).filter(date => DATE_PATTERN.test(date || '')).sort();
+    if (rowDates.length > 0) {
+      const closes = await fetchClosedPeriods(supabase, rowDates[0], rowDates[rowDates.length - 1]);
+      rows.forEach(({ row, data }) => {
+        const closedPeriod = data.date ? findClosedPeriod(closes, data.store_id, data.date) : null;
+        if (closedPeriod) {
+          closedErrors.push({ row, errors: [buildPeriodClosedError(closedPeriod)] });
+        }
+      });
+    }
+
+    // 登録済みデータとの重複チェック
+    const duplicateErrors = await findExistingDuplicates(supabase, rows);
+
+    // 消費税の計算（日付・部門・カテゴリに応じた税率）
+    const { taxes, errors: taxErrors } = calculateImportTaxes(rows, await fetchTaxRules(supabase));
+
+    const errors = mergeRowErrors(formatErrors, validationErrors, permissionErrors, closedErrors, duplicateErrors, taxErrors);
+    const errorRowNumbers = new Set(errors.map(({ row }) => row));
+    const validRows = rows.filter(({ row }) => !errorRowNumbers.has(row));
+
+    const report: ImportReport = {
+      mode,
+      fileName: file.name,
+      totalRows: rows.length + formatErrors.length,
+      validRows: validRows.length,
+      errorRows: errors.length,
+      errors,
+      totalRevenueExTax: validRows.reduce((sum, { data }) => sum + data.revenue_ex_tax, 0),
+      totalTax: validRows.reduce((sum, { row }) => sum + (taxes.get(row)?.tax || 0), 0),
+      insertedCount: 0,
+    };
+
+    if (mode === 'dry_run') {
+      return NextResponse.json<APIResponse<ImportReport>>({
+        data: report,
+        success: true,
+        message: errors.length > 0
+          ? `${errors.length}行にエラーがあります`
+          : `${validRows.length}行を取り込めます`,
+      });
+    }
+
+    // commit: エラーが1行でもあれば何も登録しない
+    if (errors.length > 0) {
+      return NextResponse.json<APIResponse<ImportReport>>({
+        data: report,
+        success: false,
+        message: `${errors.length}行にエラーがあるため取り込みを中止しました`,
+      }, { status: 400 });
+    }
+
+    // 一括登録（単一の INSERT 文のため全行がまとめてコミットまたはロールバックされる）
+    const salesData = validRows.map(({ row, data }) => ({
+      ...data,
+      channel: data.channel || DEFAULT_SALES_CHANNEL,
+      created_by: user.id,
+      tax: taxes.get(row)!.tax,
+      tax_rate: taxes.get(row)!.tax_rate,
+    }));
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('sales')
+      .insert(salesData)
+      .select('id');
+
+    if (isPeriodClosedError(insertError)) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: `取り込み中に締められた期間があります。${PERIOD_CLOSED_ERROR.message}`,
+      }, { status: 423 });
+    }
+
+    if (insertError) {
+      console.error('Error inserting imported sales data:', insertError);
+      const isDuplicate = insertError.code === '23505'; // unique_violation
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: isDuplicate
+          ? '取り込み中に同じキーの売上データが登録されました。再度検証してください'
+          : '売上データの一括登録に失敗しました',
+      }, { status: isDuplicate ? 409 : 500 });
+    }
+
+    report.insertedCount = inserted?.length || 0;
+
+    // 監査ログの記録（バッチ全体で1件）
+    const dates = validRows.map(({ data }) => data.date).sort();
+    const auditLogData = {
+      actor_id: user.id,
+      action: 'import_sales',
+      target: `sales_import:${file.name}`,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: {
+        file_name: file.name,
+        file_type: fileType,
+        file_size: file.size,
+        row_count: report.insertedCount,
+        store_ids: storeIds,
+        date_range: { start: dates[0], end: dates[dates.length - 1] },
+        total_revenue_ex_tax: report.totalRevenueExTax,
+        sales_ids: (inserted || []).map(({ id }) => id),
+      },
+    };
+
+    const { error: auditError } = await supabase
+      .from('audit_log')
+      .insert([auditLogData]);
+
+    if (auditError) {
+      console.error('Error inserting audit log:', auditError);
+      // 監査ログエラーは処理を停止しない（警告ログのみ）
+    }
+
+    return NextResponse.json<APIResponse<ImportReport>>({
+      data: report,
+      success: true,
+      message: `${report.insertedCount}行の売上データを取り込みました`,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in sales import API:', error);
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: false,
+      message: 'サーバーエラーが発生しました',
+    }, { status: 500 });
+  }
+}
+
+function badRequestResponse(message: string) {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 400 });
+}
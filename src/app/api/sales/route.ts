@@ -1,20 +1,61 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { validateSalesForm } from '@/lib/validations/sales';
+import { TAX_RULE_NOT_FOUND_ERROR, calculateSalesTax, fetchTaxRules } from '@/lib/tax';
+import { DEFAULT_SALES_CHANNEL } from '@/lib/sales-channels';
+import {
+  SalesAnomalyWarning,
+  detectSalesAnomalies,
+  fetchSalesAnomalyHistory,
+  getUnacknowledgedWarnings,
+} from '@/lib/sales-anomaly';
+import {
+  PERIOD_CLOSED_ERROR,
+  buildPeriodClosedError,
+  fetchClosedPeriods,
+  findClosedPeriod,
+  isPeriodClosedError,
+} from '@/lib/accounting-periods';
+import { parseSalesLedgerQuery, summarizeSalesRows, toSalesLedgerTotals } from '@/lib/sales-ledger';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENT_REPLAY_HEADER,
+  StoredIdempotentResponse,
+  findIdempotentResponse,
+  hashRequestBody,
+  isIdempotencyKeyConflict,
+  isValidIdempotencyKey,
+} from '@/lib/idempotency';
 import { 
-  SalesInputForm, 
+  SalesCreateRequest, 
   APIResponse, 
   ValidationError 
 } from '@/types/database.types';
 
+// Idempotency-Key の保存範囲（create_sales_with_audit と同じ値）
+const IDEMPOTENCY_ENDPOINT = 'POST /api/sales';
+
 // POST: 売上データの作成
+// 過去の同曜日と大きく異なる値は 422 で注意を返し、acknowledged_warnings で確認済みの場合のみ保存する
+// Idempotency-Key ヘッダー付きの再送には、24時間以内であれば最初の成功応答をそのまま返す
 export async function POST(request: NextRequest) {
   try {
-    // リクエストボディの取得
-    const body: SalesInputForm = await request.json();
+    // リクエストボディの取得（再送の同一性判定のため送信されたテキストのまま保持する）
+    const rawBody = await request.text();
+    const { acknowledged_warnings: acknowledgedWarnings, ...body }: SalesCreateRequest = JSON.parse(rawBody);
+    const idempotencyKey = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+    const requestHash = hashRequestBody(rawBody);
+
+    if (idempotencyKey !== null && !isValidIdempotencyKey(idempotencyKey)) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: `${IDEMPOTENCY_KEY_HEADER} は1〜255文字で指定してください`,
+      }, { status: 400 });
+    }
 
     // Supabase クライアント作成
-    const supabase = createClient();
+    const supabase = await createClient();
 
     // 認証チェック
     const { data: { user }, error: authError } = await supabase.auth.getUser();
@@ -26,6 +67,14 @@ export async function POST(request: NextRequest) {
       }, { status: 401 });
     }
 
+    // 同じキーで保存済みの応答があれば再現する
+    if (idempotencyKey) {
+      const stored = await findIdempotentResponse(supabase, user.id, IDEMPOTENCY_ENDPOINT, idempotencyKey);
+      if (stored) {
+        return replayResponse(stored, requestHash);
+      }
+    }
+
     // バリデーション
     const validationErrors = validateSalesForm(body);
     if (validationErrors.length > 0) {
@@ -36,7 +85,14 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // 重複チェック（同じ日・店舗・部門・カテゴリの組み合わせ）
+    // 締め済み期間のチェック
+    const closedPeriod = findClosedPeriod(await fetchClosedPeriods(supabase, body.date, body.date), body.store_id, body.date);
+    if (closedPeriod) {
+      return periodClosedResponse(buildPeriodClosedError(closedPeriod));
+    }
+
+    // 重複チェック（同じ日・店舗・部門・カテゴリ・チャネルの組み合わせ、チャネル未指定は店頭）
+    const channel = body.channel || DEFAULT_SALES_CHANNEL;
     const { data: existingData, error: checkError } = await supabase
       .from('sales')
       .select('id')
@@ -44,6 +100,7 @@ export async function POST(request: NextRequest) {
       .eq('store_id', body.store_id)
       .eq('department', body.department)
       .eq('product_category', body.product_category)
+      .eq('channel', channel)
       .single();
 
     if (checkError && checkError.code !== 'PGRST116') { // PGRST116 = no rows returned
@@ -59,24 +116,90 @@ export async function POST(request: NextRequest) {
       return NextResponse.json<APIResponse<null>>({
         data: null,
         success: false,
-        message: '同じ日付・店舗・部門・カテゴリの売上データが既に存在します',
+        message: '同じ日付・店舗・部門・カテゴリ・チャネルの売上データが既に存在します',
       }, { status: 409 });
     }
 
-    // 売上データの作成
+    // 異常値チェック（同じ店舗・部門・カテゴリ・チャネルの過去8週の同曜日と比較）
+    const anomalyWarnings = detectSalesAnomalies(body, await fetchSalesAnomalyHistory(supabase, { ...body, channel }));
+    if (getUnacknowledgedWarnings(anomalyWarnings, acknowledgedWarnings).length > 0) {
+      return NextResponse.json<APIResponse<SalesAnomalyWarning[]>>({
+        data: anomalyWarnings,
+        success: false,
+        message: '通常と大きく異なる値があります。内容を確認のうえ保存してください',
+      }, { status: 422 });
+    }
+
+    // 消費税の計算（日付・部門・カテゴリに応じた税率）
+    const taxCalculation = calculateSalesTax(await fetchTaxRules(supabase), body);
+    if (!taxCalculation) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: [TAX_RULE_NOT_FOUND_ERROR],
+        success: false,
+        message: TAX_RULE_NOT_FOUND_ERROR.message,
+      }, { status: 400 });
+    }
+
+    // 売上データと監査ログを同一トランザクションで作成
     const salesData = {
       ...body,
-      created_by: user.id,
-      tax: Math.round(body.revenue_ex_tax * 0.1), // 10% の消費税を自動計算
+      channel,
+      tax: taxCalculation.tax,
+      tax_rate: taxCalculation.tax_rate,
     };
 
-    const { data: newSales, error: insertError } = await supabase
-      .from('sales')
-      .insert([salesData])
-      .select()
-      .single();
+    const { data: newSales, error: insertError } = await supabase.rpc('create_sales_with_audit', {
+      p_sales: salesData,
+      p_audit: {
+        ip: request.headers.get('x-forwarded-for') ||
+            request.headers.get('x-real-ip') ||
+            'unknown',
+        ua: request.headers.get('user-agent') || 'unknown',
+        meta: {
+          store_id: body.store_id,
+          date: body.date,
+          revenue_ex_tax: body.revenue_ex_tax,
+          department: body.department,
+          product_category: body.product_category,
+          channel,
+          // 確認のうえ保存した異常値の注意
+          ...(anomalyWarnings.length > 0 ? { anomaly_overrides: anomalyWarnings } : {}),
+        },
+      },
+      p_idempotency_key: idempotencyKey,
+      p_request_hash: idempotencyKey ? requestHash : null,
+    });
 
     if (insertError) {
+      // 同じキーの同時送信: 先着側の応答を返す
+      if (idempotencyKey && isIdempotencyKeyConflict(insertError)) {
+        const stored = await findIdempotentResponse(supabase, user.id, IDEMPOTENCY_ENDPOINT, idempotencyKey);
+        if (stored) {
+          return replayResponse(stored, requestHash);
+        }
+      }
+
+      if (insertError.code === '23505') {
+        return NextResponse.json<APIResponse<null>>({
+          data: null,
+          success: false,
+          message: '同じ日付・店舗・部門・カテゴリ・チャネルの売上データが既に存在します',
+        }, { status: 409 });
+      }
+
+      if (insertError.code === '42501') {
+        return NextResponse.json<APIResponse<null>>({
+          data: null,
+          success: false,
+          message: 'この店舗の売上データを登録する権限がありません',
+        }, { status: 403 });
+      }
+
+      // 確認後に締められた
+      if (isPeriodClosedError(insertError)) {
+        return periodClosedResponse(PERIOD_CLOSED_ERROR);
+      }
+
       console.error('Error inserting sales data:', insertError);
       return NextResponse.json<APIResponse<null>>({
         data: null,
@@ -85,34 +208,6 @@ export async function POST(request: NextRequest) {
       }, { status: 500 });
     }
 
-    // 監査ログの記録
-    const auditLogData = {
-      actor_id: user.id,
-      action: 'input_sales',
-      target: `sales:${newSales.id}`,
-      ip: request.headers.get('x-forwarded-for') || 
-          request.headers.get('x-real-ip') || 
-          'unknown',
-      ua: request.headers.get('user-agent') || 'unknown',
-      meta: {
-        sales_id: newSales.id,
-        store_id: body.store_id,
-        date: body.date,
-        revenue_ex_tax: body.revenue_ex_tax,
-        department: body.department,
-        product_category: body.product_category,
-      },
-    };
-
-    const { error: auditError } = await supabase
-      .from('audit_log')
-      .insert([auditLogData]);
-
-    if (auditError) {
-      console.error('Error inserting audit log:', auditError);
-      // 監査ログエラーは処理を停止しない（警告ログのみ）
-    }
-
     // 成功レスポンス
     return NextResponse.json<APIResponse<typeof newSales>>({
       data: newSales,
@@ -130,10 +225,36 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET: 売上データの取得（フィルタ・ページング対応）
+function periodClosedResponse(error: ValidationError) {
+  return NextResponse.json<APIResponse<ValidationError[]>>({
+    data: [error],
+    success: false,
+    message: error.message,
+  }, { status: 423 });
+}
+
+// 保存済みの成功応答の再現（同じキーで内容が異なる送信は 422）
+function replayResponse(stored: StoredIdempotentResponse, requestHash: string) {
+  if (stored.request_hash !== requestHash) {
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: false,
+      message: `この ${IDEMPOTENCY_KEY_HEADER} は別の内容の送信で使用済みです`,
+    }, { status: 422 });
+  }
+
+  return NextResponse.json<APIResponse<typeof stored.response>>({
+    data: stored.response,
+    success: true,
+    message: '売上データを正常に保存しました',
+  }, { status: stored.status_code, headers: { [IDEMPOTENT_REPLAY_HEADER]: 'true' } });
+}
+
+// GET: 売上台帳の取得（フィルタ・並び替え・ページング対応）
+// meta.total は絞り込み条件に一致する件数、meta.totals はページ小計と絞り込み条件全体の合計
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createClient();
+    const supabase = await createClient();
 
     // 認証チェック
     const { data: { user }, error: authError } = await supabase.auth.getUser();
@@ -146,15 +267,11 @@ export async function GET(request: NextRequest) {
     }
 
     // クエリパラメータの取得
-    const searchParams = request.nextUrl.searchParams;
-    const storeId = searchParams.get('store_id');
-    const startDate = searchParams.get('start_date');
-    const endDate = searchParams.get('end_date');
-    const department = searchParams.get('department');
-    const limit = parseInt(searchParams.get('limit') || '50');
-    const offset = parseInt(searchParams.get('offset') || '0');
-
-    // クエリビルダー
+    const {
+      storeId, department, productCategory, status, startDate, endDate, sort, order, limit, offset,
+    } = parseSalesLedgerQuery(request.nextUrl.searchParams);
+
+    // クエリビルダー（同じ値の行はページ間で順序が揺れないよう id で固定する）
     let query = supabase
       .from('sales')
       .select(`
@@ -163,9 +280,13 @@ export async function GET(request: NextRequest) {
           name,
           area
         )
-      `)
-      .order('date', { ascending: false })
-      .order('created_at', { ascending: false });
+      `, { count: 'exact' })
+      .order(sort, { ascending: order === 'asc' });
+
+    if (sort === 'date') {
+      query = query.order('created_at', { ascending: order === 'asc' });
+    }
+    query = query.order('id', { ascending: true });
 
     // フィルタ適用
     if (storeId) {
@@ -180,14 +301,30 @@ export async function GET(request: NextRequest) {
     if (department) {
       query = query.eq('department', department);
     }
+    if (productCategory) {
+      query = query.eq('product_category', productCategory);
+    }
+    if (status) {
+      query = query.eq('status', status);
+    }
 
     // ページング適用
     query = query.range(offset, offset + limit - 1);
 
-    const { data, error, count } = await query;
+    const [{ data, error, count }, { data: totalsData, error: totalsError }] = await Promise.all([
+      query,
+      supabase.rpc('get_sales_ledger_totals', {
+        p_store_id: storeId,
+        p_department: department,
+        p_product_category: productCategory,
+        p_status: status,
+        p_start_date: startDate,
+        p_end_date: endDate,
+      }),
+    ]);
 
-    if (error) {
-      console.error('Error fetching sales data:', error);
+    if (error || totalsError) {
+      console.error('Error fetching sales data:', error || totalsError);
       return NextResponse.json<APIResponse<null>>({
         data: null,
         success: false,
@@ -210,6 +347,8 @@ export async function GET(request: NextRequest) {
           start_date: startDate,
           end_date: endDate,
           department,
+          product_category: productCategory,
+          status,
         },
         result_count: data?.length || 0,
       },
@@ -231,6 +370,10 @@ export async function GET(request: NextRequest) {
         total: count || 0,
         limit,
         offset,
+        totals: {
+          page: summarizeSalesRows(data || []),
+          filter: toSalesLedgerTotals(totalsData?.[0]),
+        },
       },
     });
 
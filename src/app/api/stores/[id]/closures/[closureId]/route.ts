@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { invalidateStores } from '@/lib/cache/master-data-cache';
+import { APIResponse } from '@/types/database.types';
+
+interface RouteContext {
+  params: Promise<{ id: string; closureId: string }>;
+}
+
+// DELETE: 改装・休業期間の削除（管理者のみ）
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id, closureId } = await params;
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '店舗マスターを変更する権限がありません',
+      }, { status: 403 });
+    }
+
+    const { data: current, error: fetchError } = await supabase
+      .from('store_closure_periods')
+      .select('*')
+      .eq('id', closureId)
+      .eq('store_id', id)
+      .single();
+
+    if (fetchError && fetchError.code !== 'PGRST116') {
+      throw new Error(`Failed to fetch store closure period: ${fetchError.message}`);
+    }
+
+    if (!current) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '改装・休業期間が見つかりません',
+      }, { status: 404 });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('store_closure_periods')
+      .delete()
+      .eq('id', closureId);
+
+    if (deleteError) {
+      console.error('Error deleting store closure period:', deleteError);
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '改装・休業期間の削除に失敗しました',
+      }, { status: 500 });
+    }
+
+    await invalidateStores();
+
+    // 監査ログの記録
+    await AuditService.log({
+      action: 'delete_store_closure',
+      target: `store_closure_periods:${closureId}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { store_id: id, before: current },
+    });
+
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: true,
+      message: '改装・休業期間を削除しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in store closures API:', error);
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: false,
+      message: 'サーバーエラーが発生しました',
+    }, { status: 500 });
+  }
+}
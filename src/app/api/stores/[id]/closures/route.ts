@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { invalidateStores } from '@/lib/cache/master-data-cache';
+import { StoreClosurePeriod, findOverlappingClosure } from '@/lib/store-lifecycle';
+import { validateStoreClosurePeriodForm } from '@/lib/validations/stores';
+import { APIResponse, StoreClosurePeriodInputForm, ValidationError } from '@/types/database.types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST: 改装・休業期間の登録（管理者のみ）
+// 登録した期間と重なる比較期間では、この店舗は既存店から除外される
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body: StoreClosurePeriodInputForm = await request.json();
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '店舗マスターを変更する権限がありません',
+      }, { status: 403 });
+    }
+
+    // バリデーション
+    const validationErrors = validateStoreClosurePeriodForm(body);
+    if (validationErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: validationErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const { data: store, error: storeError } = await supabase
+      .from('dim_store')
+      .select('id')
+      .eq('id', id)
+      .single();
+
+    if (storeError && storeError.code !== 'PGRST116') {
+      throw new Error(`Failed to fetch store: ${storeError.message}`);
+    }
+
+    if (!store) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '店舗が見つかりません',
+      }, { status: 404 });
+    }
+
+    const { data: closures, error: closuresError } = await supabase
+      .from('store_closure_periods')
+      .select('*')
+      .eq('store_id', id);
+
+    if (closuresError) {
+      throw new Error(`Failed to fetch store closure periods: ${closuresError.message}`);
+    }
+
+    // 同じ店舗で期間が重なる登録は不可
+    const overlapping = findOverlappingClosure<StoreClosurePeriod>(closures || [], body);
+    if (overlapping) {
+      return NextResponse.json<APIResponse<StoreClosurePeriod>>({
+        data: overlapping,
+        success: false,
+        message: '期間が重なる改装・休業期間が既に登録されています',
+      }, { status: 409 });
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from('store_closure_periods')
+      .insert([{
+        store_id: id,
+        start_date: body.start_date,
+        end_date: body.end_date,
+        reason: body.reason,
+        note: body.note?.trim() || null,
+        created_by: user.id,
+      }])
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error inserting store closure period:', insertError);
+      return serverErrorResponse('改装・休業期間の保存に失敗しました');
+    }
+
+    await invalidateStores();
+
+    // 監査ログの記録
+    await AuditService.log({
+      action: 'create_store_closure',
+      target: `store_closure_periods:${created.id}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { store_id: id, after: created },
+    });
+
+    return NextResponse.json<APIResponse<StoreClosurePeriod>>({
+      data: created,
+      success: true,
+      message: '改装・休業期間を登録しました',
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in store closures API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
@@ -0,0 +1,237 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { invalidateStores } from '@/lib/cache/master-data-cache';
+import { StoreItem } from '@/lib/store-lifecycle';
+import { validateStoreForm } from '@/lib/validations/stores';
+import { APIResponse, StoreInputForm, ValidationError } from '@/types/database.types';
+
+type Supabase = Awaited<ReturnType<typeof createClient>>;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH: 店舗の更新（管理者のみ、指定した項目のみ変更する）
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body: Partial<StoreInputForm> = await request.json();
+    const supabase = await createClient();
+
+    const auth = await authorizeAdmin(supabase);
+    if (auth.response) return auth.response;
+
+    const current = await fetchStore(supabase, id);
+    if (!current) return notFoundResponse();
+
+    // 楽観的排他制御
+    if (!body.updated_at) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: [{ field: 'updated_at', message: '更新前の updated_at を指定してください', code: 'REQUIRED' }],
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+    if (current.updated_at !== body.updated_at) {
+      return conflictResponse(current);
+    }
+
+    const merged = {
+      name: (body.name ?? current.name).trim(),
+      address: body.address !== undefined ? body.address?.trim() || null : current.address,
+      area: body.area !== undefined ? body.area?.trim() || null : current.area,
+      opened_on: body.opened_on !== undefined ? body.opened_on || null : current.opened_on,
+      closed_on: body.closed_on !== undefined ? body.closed_on || null : current.closed_on,
+      floor_area_sqm: body.floor_area_sqm !== undefined ? body.floor_area_sqm : current.floor_area_sqm,
+      store_type: body.store_type !== undefined ? body.store_type || null : current.store_type,
+    };
+
+    const validationErrors = validateStoreForm(merged);
+    if (validationErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: validationErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('dim_store')
+      .update(merged)
+      .eq('id', id)
+      .eq('updated_at', body.updated_at)
+      .select()
+      .single();
+
+    if (updateError?.code === 'PGRST116' || (!updateError && !updated)) {
+      return conflictResponse(await fetchStore(supabase, id));
+    }
+
+    if (updateError) {
+      console.error('Error updating store:', updateError);
+      return serverErrorResponse('店舗の更新に失敗しました');
+    }
+
+    await invalidateStores();
+
+    await AuditService.log({
+      action: 'update_store',
+      target: `dim_store:${id}`,
+      actor_id: auth.userId,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { before: current, after: updated },
+    });
+
+    return NextResponse.json<APIResponse<StoreItem>>({
+      data: updated,
+      success: true,
+      message: '店舗を更新しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in stores API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// DELETE: 店舗の削除（管理者のみ、売上データのある店舗は閉店日の登録で対応する）
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const auth = await authorizeAdmin(supabase);
+    if (auth.response) return auth.response;
+
+    const current = await fetchStore(supabase, id);
+    if (!current) return notFoundResponse();
+
+    const { count, error: countError } = await supabase
+      .from('sales')
+      .select('id', { count: 'exact', head: true })
+      .eq('store_id', id);
+
+    if (countError) {
+      throw new Error(`Failed to check store usage: ${countError.message}`);
+    }
+
+    if ((count || 0) > 0) {
+      return NextResponse.json<APIResponse<StoreItem>>({
+        data: current,
+        success: false,
+        message: '売上データのある店舗は削除できません。閉店日を登録してください',
+      }, { status: 409 });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('dim_store')
+      .delete()
+      .eq('id', id);
+
+    if (deleteError) {
+      console.error('Error deleting store:', deleteError);
+      return serverErrorResponse('店舗の削除に失敗しました');
+    }
+
+    await invalidateStores();
+
+    await AuditService.log({
+      action: 'delete_store',
+      target: `dim_store:${id}`,
+      actor_id: auth.userId,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { before: current },
+    });
+
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: true,
+      message: '店舗を削除しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in stores API:', error);
+    return serverErrorResponse();
+  }
+}
+
+/**
+ * 認証・管理者ロールの確認
+ */
+async function authorizeAdmin(
+  supabase: Supabase
+): Promise<{ userId: string; response?: undefined } | { userId?: undefined; response: NextResponse }> {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return {
+      response: NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 }),
+    };
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role, is_active')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile?.is_active || profile.role !== 'admin') {
+    return {
+      response: NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '店舗マスターを変更する権限がありません',
+      }, { status: 403 }),
+    };
+  }
+
+  return { userId: user.id };
+}
+
+async function fetchStore(supabase: Supabase, id: string): Promise<StoreItem | null> {
+  const { data, error } = await supabase
+    .from('dim_store')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to fetch store: ${error.message}`);
+  }
+
+  return data || null;
+}
+
+function notFoundResponse() {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message: '店舗が見つかりません',
+  }, { status: 404 });
+}
+
+function conflictResponse(latest: StoreItem | null) {
+  return NextResponse.json<APIResponse<StoreItem | null>>({
+    data: latest,
+    success: false,
+    message: '他のユーザーによって更新されています。最新のデータを確認してから再度操作してください',
+  }, { status: 409 });
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
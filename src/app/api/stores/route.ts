@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { invalidateStores } from '@/lib/cache/master-data-cache';
+import { StoreItem, StoreWithClosures } from '@/lib/store-lifecycle';
+import { validateStoreForm } from '@/lib/validations/stores';
+import { APIResponse, StoreInputForm, ValidationError } from '@/types/database.types';
+
+// GET: 店舗マスター一覧（閉店済みを含む、改装・休業期間付き）
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from('dim_store')
+      .select('*, closures:store_closure_periods(*)')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching stores:', error);
+      return serverErrorResponse('店舗の取得に失敗しました');
+    }
+
+    const stores: StoreWithClosures[] = (data || []).map((store: StoreWithClosures) => ({
+      ...store,
+      closures: [...(store.closures || [])].sort((a, b) => b.start_date.localeCompare(a.start_date)),
+    }));
+
+    return NextResponse.json<APIResponse<StoreWithClosures[]>>({
+      data: stores,
+      success: true,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in stores API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// POST: 店舗の登録（管理者のみ）
+export async function POST(request: NextRequest) {
+  try {
+    const body: StoreInputForm = await request.json();
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '店舗マスターを変更する権限がありません',
+      }, { status: 403 });
+    }
+
+    // バリデーション
+    const validationErrors = validateStoreForm(body);
+    if (validationErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: validationErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from('dim_store')
+      .insert([{
+        name: body.name.trim(),
+        address: body.address?.trim() || null,
+        area: body.area?.trim() || null,
+        opened_on: body.opened_on || null,
+        closed_on: body.closed_on || null,
+        floor_area_sqm: body.floor_area_sqm ?? null,
+        store_type: body.store_type || null,
+      }])
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error inserting store:', insertError);
+      return serverErrorResponse('店舗の保存に失敗しました');
+    }
+
+    await invalidateStores();
+
+    // 監査ログの記録
+    await AuditService.log({
+      action: 'create_store',
+      target: `dim_store:${created.id}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { after: created },
+    });
+
+    return NextResponse.json<APIResponse<StoreItem>>({
+      data: created,
+      success: true,
+      message: '店舗を登録しました',
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in stores API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
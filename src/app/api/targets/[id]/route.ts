@@ -0,0 +1,223 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { SalesTarget } from '@/lib/targets';
+import { validateSalesTargetForm } from '@/lib/validations/targets';
+import { APIResponse, SalesTargetInputForm, ValidationError } from '@/types/database.types';
+
+type Supabase = Awaited<ReturnType<typeof createClient>>;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH: 売上目標の更新（管理者のみ）
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body: Partial<SalesTargetInputForm> = await request.json();
+    const supabase = await createClient();
+
+    const auth = await authorizeAdmin(supabase);
+    if (auth.response) return auth.response;
+
+    const current = await fetchTarget(supabase, id);
+    if (!current) return notFoundResponse();
+
+    // 楽観的排他制御
+    if (!body.updated_at) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: [{ field: 'updated_at', message: '更新前の updated_at を指定してください', code: 'REQUIRED' }],
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+    if (current.updated_at !== body.updated_at) {
+      return conflictResponse(current);
+    }
+
+    const merged = {
+      period_type: body.period_type ?? current.period_type,
+      target_date: body.target_date ?? current.target_date,
+      store_id: body.store_id ?? current.store_id,
+      department: 'department' in body ? body.department || null : current.department,
+      product_category: 'product_category' in body ? body.product_category || null : current.product_category,
+      revenue_target: 'revenue_target' in body ? body.revenue_target ?? null : current.revenue_target,
+      footfall_target: 'footfall_target' in body ? body.footfall_target ?? null : current.footfall_target,
+    };
+
+    const validationErrors = validateSalesTargetForm(merged);
+    if (validationErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: validationErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('sales_targets')
+      .update({ ...merged, updated_by: auth.userId })
+      .eq('id', id)
+      .eq('updated_at', body.updated_at)
+      .select()
+      .single();
+
+    if (updateError?.code === 'PGRST116' || (!updateError && !updated)) {
+      return conflictResponse(await fetchTarget(supabase, id));
+    }
+
+    if (updateError?.code === '23505') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '同じ期間・店舗・部門・カテゴリの目標が既に登録されています',
+      }, { status: 409 });
+    }
+
+    if (updateError) {
+      console.error('Error updating sales target:', updateError);
+      return serverErrorResponse('売上目標の更新に失敗しました');
+    }
+
+    await AuditService.log({
+      action: 'update_sales_target',
+      target: `sales_targets:${id}`,
+      actor_id: auth.userId,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { before: current, after: updated },
+    });
+
+    return NextResponse.json<APIResponse<SalesTarget>>({
+      data: updated,
+      success: true,
+      message: '売上目標を更新しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in sales target API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// DELETE: 売上目標の削除（管理者のみ）
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const auth = await authorizeAdmin(supabase);
+    if (auth.response) return auth.response;
+
+    const current = await fetchTarget(supabase, id);
+    if (!current) return notFoundResponse();
+
+    const { error: deleteError } = await supabase
+      .from('sales_targets')
+      .delete()
+      .eq('id', id);
+
+    if (deleteError) {
+      console.error('Error deleting sales target:', deleteError);
+      return serverErrorResponse('売上目標の削除に失敗しました');
+    }
+
+    await AuditService.log({
+      action: 'delete_sales_target',
+      target: `sales_targets:${id}`,
+      actor_id: auth.userId,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { before: current },
+    });
+
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: true,
+      message: '売上目標を削除しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in sales target API:', error);
+    return serverErrorResponse();
+  }
+}
+
+/**
+ * 認証・管理者ロールの確認
+ */
+async function authorizeAdmin(
+  supabase: Supabase
+): Promise<{ userId: string; response?: undefined } | { userId?: undefined; response: NextResponse }> {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return {
+      response: NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 }),
+    };
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role, is_active')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile?.is_active || profile.role !== 'admin') {
+    return {
+      response: NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '売上目標を変更する権限がありません',
+      }, { status: 403 }),
+    };
+  }
+
+  return { userId: user.id };
+}
+
+async function fetchTarget(supabase: Supabase, id: string): Promise<SalesTarget | null> {
+  const { data, error } = await supabase
+    .from('sales_targets')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to fetch sales target: ${error.message}`);
+  }
+
+  return data || null;
+}
+
+function notFoundResponse() {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message: '売上目標が見つかりません',
+  }, { status: 404 });
+}
+
+function conflictResponse(latest: SalesTarget | null) {
+  return NextResponse.json<APIResponse<SalesTarget | null>>({
+    data: latest,
+    success: false,
+    message: '他のユーザーによって更新されています。最新のデータを確認してから再度操作してください',
+  }, { status: 409 });
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
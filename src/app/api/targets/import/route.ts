@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import {
+  IMPORT_LIMITS,
+  ImportMode,
+  ImportRowError,
+  detectFileType,
+  mergeRowErrors,
+} from '@/lib/services/sales-import';
+import {
+  TargetImportReport,
+  parseSalesTargetImportFile,
+  validateTargetImportRows,
+} from '@/lib/services/sales-target-import';
+import { APIResponse } from '@/types/database.types';
+
+// POST: 売上目標の一括取込み（管理者のみ、multipart/form-data: file, mode=dry_run|commit）
+// 同じ期間・店舗・部門・カテゴリの目標が登録済みの場合は上書きする
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '売上目標を変更する権限がありません',
+      }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const mode: ImportMode = formData.get('mode') === 'commit' ? 'commit' : 'dry_run';
+
+    if (!(file instanceof File)) {
+      return badRequestResponse('ファイルを指定してください');
+    }
+
+    const fileType = detectFileType(file.name);
+    if (!fileType) {
+      return badRequestResponse('CSV または Excel(.xlsx) ファイルを指定してください');
+    }
+
+    if (file.size > IMPORT_LIMITS.maxFileSize) {
+      return badRequestResponse('ファイルサイズは5MB以下にしてください');
+    }
+
+    // ファイル解析
+    let parsed: Awaited<ReturnType<typeof parseSalesTargetImportFile>>;
+    try {
+      parsed = await parseSalesTargetImportFile(new Uint8Array(await file.arrayBuffer()), fileType);
+    } catch (error) {
+      return badRequestResponse(
+        error instanceof Error ? error.message : 'ファイルの読み込みに失敗しました'
+      );
+    }
+
+    const { rows, errors: formatErrors } = parsed;
+    if (rows.length === 0 && formatErrors.length === 0) {
+      return badRequestResponse('取込み対象の行がありません');
+    }
+
+    // 入力チェック・ファイル内重複チェック
+    const validationErrors = validateTargetImportRows(rows);
+
+    // 店舗の存在チェック
+    const storeIds = [...new Set(rows.map(({ data }) => data.store_id).filter(Boolean))];
+    const storeErrors: ImportRowError[] = [];
+    if (storeIds.length > 0) {
+      const { data: stores, error: storeError } = await supabase
+        .from('dim_store')
+        .select('id')
+        .in('id', storeIds);
+
+      if (storeError) {
+        throw new Error(`Failed to fetch stores: ${storeError.message}`);
+      }
+
+      const knownStoreIds = new Set((stores || []).map(({ id }) => id));
+      rows
+        .filter(({ data }) => data.store_id && !knownStoreIds.has(data.store_id))
+        .forEach(({ row }) => storeErrors.push({
+          row,
+          errors: [{
+            field: 'store_id',
+            message: '店舗IDが見つかりません',
+            code: 'NOT_FOUND',
+          }],
+        }));
+    }
+
+    const errors = mergeRowErrors(formatErrors, validationErrors, storeErrors);
+    const errorRowNumbers = new Set(errors.map(({ row }) => row));
+    const validRows = rows.filter(({ row }) => !errorRowNumbers.has(row));
+
+    const report: TargetImportReport = {
+      mode,
+      fileName: file.name,
+      totalRows: rows.length + formatErrors.length,
+      validRows: validRows.length,
+      errorRows: errors.length,
+      errors,
+      totalRevenueTarget: validRows.reduce((sum, { data }) => sum + (data.revenue_target || 0), 0),
+      upsertedCount: 0,
+    };
+
+    if (mode === 'dry_run') {
+      return NextResponse.json<APIResponse<TargetImportReport>>({
+        data: report,
+        success: true,
+        message: errors.length > 0
+          ? `${errors.length}行にエラーがあります`
+          : `${validRows.length}行を取り込めます`,
+      });
+    }
+
+    // commit: エラーが1行でもあれば何も登録しない
+    if (errors.length > 0) {
+      return NextResponse.json<APIResponse<TargetImportReport>>({
+        data: report,
+        success: false,
+        message: `${errors.length}行にエラーがあるため取り込みを中止しました`,
+      }, { status: 400 });
+    }
+
+    // 一括登録（単一の UPSERT 文のため全行がまとめてコミットまたはロールバックされる）
+    const { data: upserted, error: upsertError } = await supabase
+      .from('sales_targets')
+      .upsert(
+        validRows.map(({ data }) => ({
+          period_type: data.period_type,
+          target_date: data.target_date,
+          store_id: data.store_id,
+          department: data.department || null,
+          product_category: data.product_category || null,
+          revenue_target: data.revenue_target ?? null,
+          footfall_target: data.footfall_target ?? null,
+          created_by: user.id,
+          updated_by: user.id,
+        })),
+        { onConflict: 'period_type,target_date,store_id,department,product_category' }
+      )
+      .select('id');
+
+    if (upsertError) {
+      console.error('Error upserting imported sales targets:', upsertError);
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '売上目標の一括登録に失敗しました',
+      }, { status: 500 });
+    }
+
+    report.upsertedCount = upserted?.length || 0;
+
+    // 監査ログの記録（バッチ全体で1件）
+    const dates = validRows.map(({ data }) => data.target_date).sort();
+    await AuditService.log({
+      action: 'import_sales_targets',
+      target: `sales_targets_import:${file.name}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: {
+        file_name: file.name,
+        file_type: fileType,
+        file_size: file.size,
+        row_count: report.upsertedCount,
+        store_ids: storeIds,
+        date_range: { start: dates[0], end: dates[dates.length - 1] },
+        total_revenue_target: report.totalRevenueTarget,
+      },
+    });
+
+    return NextResponse.json<APIResponse<TargetImportReport>>({
+      data: report,
+      success: true,
+      message: `${report.upsertedCount}行の売上目標を取り込みました`,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in sales target import API:', error);
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: false,
+      message: 'サーバーエラーが発生しました',
+    }, { status: 500 });
+  }
+}
+
+function badRequestResponse(message: string) {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 400 });
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { SalesTarget, getMonthStart } from '@/lib/targets';
+import { validateSalesTargetForm } from '@/lib/validations/targets';
+import { APIResponse, SalesTargetInputForm, ValidationError } from '@/types/database.types';
+
+// GET: 売上目標一覧（start / end: 対象期間、store_ids: カンマ区切り）
+// 月次目標は期間に掛かる月の分を含めて返す（閲覧できる店舗は RLS で制限）
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const start = searchParams.get('start');
+    const end = searchParams.get('end');
+    const storeIds = searchParams.get('store_ids')?.split(',').filter(Boolean);
+
+    let query = supabase
+      .from('sales_targets')
+      .select('*')
+      .order('target_date', { ascending: true })
+      .order('store_id', { ascending: true });
+
+    if (start) query = query.gte('target_date', getMonthStart(start));
+    if (end) query = query.lte('target_date', end);
+    if (storeIds?.length) query = query.in('store_id', storeIds);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error fetching sales targets:', error);
+      return serverErrorResponse('売上目標の取得に失敗しました');
+    }
+
+    return NextResponse.json<APIResponse<SalesTarget[]>>({
+      data: data || [],
+      success: true,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in sales targets API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// POST: 売上目標の作成（管理者のみ）
+export async function POST(request: NextRequest) {
+  try {
+    const body: SalesTargetInputForm = await request.json();
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '売上目標を変更する権限がありません',
+      }, { status: 403 });
+    }
+
+    // バリデーション
+    const validationErrors = validateSalesTargetForm(body);
+    if (validationErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: validationErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from('sales_targets')
+      .insert([{
+        period_type: body.period_type,
+        target_date: body.target_date,
+        store_id: body.store_id,
+        department: body.department || null,
+        product_category: body.product_category || null,
+        revenue_target: body.revenue_target ?? null,
+        footfall_target: body.footfall_target ?? null,
+        created_by: user.id,
+        updated_by: user.id,
+      }])
+      .select()
+      .single();
+
+    // 同じ期間・店舗・部門・カテゴリの目標は1件のみ
+    if (insertError?.code === '23505') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '同じ期間・店舗・部門・カテゴリの目標が既に登録されています',
+      }, { status: 409 });
+    }
+
+    if (insertError) {
+      console.error('Error inserting sales target:', insertError);
+      return serverErrorResponse('売上目標の保存に失敗しました');
+    }
+
+    // 監査ログの記録
+    await AuditService.log({
+      action: 'create_sales_target',
+      target: `sales_targets:${created.id}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { after: created },
+    });
+
+    return NextResponse.json<APIResponse<SalesTarget>>({
+      data: created,
+      success: true,
+      message: '売上目標を登録しました',
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in sales targets API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
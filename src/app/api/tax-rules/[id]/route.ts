@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { TaxRule, fetchTaxRules, findOverlappingTaxRule } from '@/lib/tax';
+import { validateTaxRuleForm } from '@/lib/validations/tax-rules';
+import { APIResponse, TaxRuleInputForm, ValidationError } from '@/types/database.types';
+
+type Supabase = Awaited<ReturnType<typeof createClient>>;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH: 税率ルールの更新（管理者のみ）
+// 変更済みの売上の税額は自動では再計算しない（scripts/backfill-sales-tax.ts で再計算する）
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body: Partial<TaxRuleInputForm> = await request.json();
+    const supabase = await createClient();
+
+    const auth = await authorizeAdmin(supabase);
+    if (auth.response) return auth.response;
+
+    const current = await fetchRule(supabase, id);
+    if (!current) return notFoundResponse();
+
+    // 楽観的排他制御
+    if (!body.updated_at) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: [{ field: 'updated_at', message: '更新前の updated_at を指定してください', code: 'REQUIRED' }],
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+    if (current.updated_at !== body.updated_at) {
+      return conflictResponse(current);
+    }
+
+    const merged = {
+      department: 'department' in body ? body.department || null : current.department,
+      product_category: 'product_category' in body ? body.product_category || null : current.product_category,
+      rate: body.rate ?? current.rate,
+      valid_from: body.valid_from ?? current.valid_from,
+      valid_to: 'valid_to' in body ? body.valid_to || null : current.valid_to,
+      description: 'description' in body ? body.description?.trim() || null : current.description,
+    };
+
+    const validationErrors = validateTaxRuleForm({ ...merged, description: merged.description ?? undefined });
+    if (validationErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: validationErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const overlapping = findOverlappingTaxRule(await fetchTaxRules(supabase), merged, id);
+    if (overlapping) {
+      return NextResponse.json<APIResponse<TaxRule>>({
+        data: overlapping,
+        success: false,
+        message: '同じ部門・カテゴリで適用期間が重なる税率ルールが既に存在します',
+      }, { status: 409 });
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('tax_rules')
+      .update(merged)
+      .eq('id', id)
+      .eq('updated_at', body.updated_at)
+      .select()
+      .single();
+
+    if (updateError?.code === 'PGRST116' || (!updateError && !updated)) {
+      return conflictResponse(await fetchRule(supabase, id));
+    }
+
+    if (updateError) {
+      console.error('Error updating tax rule:', updateError);
+      return serverErrorResponse('税率ルールの更新に失敗しました');
+    }
+
+    await AuditService.log({
+      action: 'update_tax_rule',
+      target: `tax_rules:${id}`,
+      actor_id: auth.userId,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { before: current, after: updated },
+    });
+
+    return NextResponse.json<APIResponse<TaxRule>>({
+      data: updated,
+      success: true,
+      message: '税率ルールを更新しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in tax rule API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// DELETE: 税率ルールの削除（管理者のみ）
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const auth = await authorizeAdmin(supabase);
+    if (auth.response) return auth.response;
+
+    const current = await fetchRule(supabase, id);
+    if (!current) return notFoundResponse();
+
+    const { error: deleteError } = await supabase
+      .from('tax_rules')
+      .delete()
+      .eq('id', id);
+
+    if (deleteError) {
+      console.error('Error deleting tax rule:', deleteError);
+      return serverErrorResponse('税率ルールの削除に失敗しました');
+    }
+
+    await AuditService.log({
+      action: 'delete_tax_rule',
+      target: `tax_rules:${id}`,
+      actor_id: auth.userId,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { before: current },
+    });
+
+    return NextResponse.json<APIResponse<null>>({
+      data: null,
+      success: true,
+      message: '税率ルールを削除しました',
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in tax rule API:', error);
+    return serverErrorResponse();
+  }
+}
+
+/**
+ * 認証・管理者ロールの確認
+ */
+async function authorizeAdmin(
+  supabase: Supabase
+): Promise<{ userId: string; response?: undefined } | { userId?: undefined; response: NextResponse }> {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return {
+      response: NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 }),
+    };
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role, is_active')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile?.is_active || profile.role !== 'admin') {
+    return {
+      response: NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '税率ルールを変更する権限がありません',
+      }, { status: 403 }),
+    };
+  }
+
+  return { userId: user.id };
+}
+
+async function fetchRule(supabase: Supabase, id: string): Promise<TaxRule | null> {
+  const { data, error } = await supabase
+    .from('tax_rules')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to fetch tax rule: ${error.message}`);
+  }
+
+  return data || null;
+}
+
+function notFoundResponse() {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message: '税率ルールが見つかりません',
+  }, { status: 404 });
+}
+
+function conflictResponse(latest: TaxRule | null) {
+  return NextResponse.json<APIResponse<TaxRule | null>>({
+    data: latest,
+    success: false,
+    message: '他のユーザーによって更新されています。最新のデータを確認してから再度操作してください',
+  }, { status: 409 });
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
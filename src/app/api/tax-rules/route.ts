@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { TaxRule, fetchTaxRules, findOverlappingTaxRule } from '@/lib/tax';
+import { validateTaxRuleForm } from '@/lib/validations/tax-rules';
+import { APIResponse, TaxRuleInputForm, ValidationError } from '@/types/database.types';
+
+// GET: 税率ルール一覧
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const rules = await fetchTaxRules(supabase);
+
+    return NextResponse.json<APIResponse<TaxRule[]>>({
+      data: rules,
+      success: true,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in tax rules API:', error);
+    return serverErrorResponse();
+  }
+}
+
+// POST: 税率ルールの作成（管理者のみ）
+export async function POST(request: NextRequest) {
+  try {
+    const body: TaxRuleInputForm = await request.json();
+    const supabase = await createClient();
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '認証が必要です',
+      }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_active || profile.role !== 'admin') {
+      return NextResponse.json<APIResponse<null>>({
+        data: null,
+        success: false,
+        message: '税率ルールを変更する権限がありません',
+      }, { status: 403 });
+    }
+
+    // バリデーション
+    const validationErrors = validateTaxRuleForm(body);
+    if (validationErrors.length > 0) {
+      return NextResponse.json<APIResponse<ValidationError[]>>({
+        data: validationErrors,
+        success: false,
+        message: '入力データに不正があります',
+      }, { status: 400 });
+    }
+
+    const rule = {
+      department: body.department || null,
+      product_category: body.product_category || null,
+      rate: body.rate,
+      valid_from: body.valid_from,
+      valid_to: body.valid_to || null,
+      description: body.description?.trim() || null,
+    };
+
+    // 同じ部門・カテゴリで適用期間が重なるルールは登録不可
+    const overlapping = findOverlappingTaxRule(await fetchTaxRules(supabase), rule);
+    if (overlapping) {
+      return NextResponse.json<APIResponse<TaxRule>>({
+        data: overlapping,
+        success: false,
+        message: '同じ部門・カテゴリで適用期間が重なる税率ルールが既に存在します',
+      }, { status: 409 });
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from('tax_rules')
+      .insert([{ ...rule, created_by: user.id }])
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error inserting tax rule:', insertError);
+      return serverErrorResponse('税率ルールの保存に失敗しました');
+    }
+
+    // 監査ログの記録
+    await AuditService.log({
+      action: 'create_tax_rule',
+      target: `tax_rules:${created.id}`,
+      actor_id: user.id,
+      ip: request.headers.get('x-forwarded-for') ||
+          request.headers.get('x-real-ip') ||
+          'unknown',
+      ua: request.headers.get('user-agent') || 'unknown',
+      meta: { after: created },
+    });
+
+    return NextResponse.json<APIResponse<TaxRule>>({
+      data: created,
+      success: true,
+      message: '税率ルールを登録しました',
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in tax rules API:', error);
+    return serverErrorResponse();
+  }
+}
+
+function serverErrorResponse(message = 'サーバーエラーが発生しました') {
+  return NextResponse.json<APIResponse<null>>({
+    data: null,
+    success: false,
+    message,
+  }, { status: 500 });
+}
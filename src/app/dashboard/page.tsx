@@ -20,6 +20,7 @@ import {
   useAutoRefresh,
   useErrorHandler
 } from '@/hooks/usePerformance'
+import { useSalesComparison } from '@/hooks/useSalesComparison'
 
 // Lazy load components for better initial load performance
 const SalesChart = lazy(() => import('@/components/dashboard/SalesChart').then(m => ({ default: m.SalesChart })))
@@ -133,6 +134,9 @@ export default function DashboardPage() {
     lastFetch
   } = useAnalyticsData(debouncedFilters)
 
+  // 前期間・前年同期の KPI（KPI カードの比較基準）
+  const { comparison: salesComparison } = useSalesComparison(debouncedFilters)
+
   // Auto-refresh setup (every 10 minutes)
   const { 
     isAutoRefreshEnabled, 
@@ -387,6 +391,7 @@ export default function DashboardPage() {
             stores={stores}
             onFiltersChange={handleFiltersChange}
             disabled={analyticsLoading || isDebouncing}
+            likeForLikeScope={analyticsData?.likeForLike}
           />
         </Suspense>
 
@@ -397,6 +402,10 @@ export default function DashboardPage() {
             <Suspense fallback={<ComponentLoader>KPI読み込み中...</ComponentLoader>}>
               <KPICards 
                 salesData={analyticsData.sales}
+                targets={analyticsData.targets}
+                laborHours={analyticsData.laborHours}
+                comparison={salesComparison}
+                filters={debouncedFilters}
                 loading={analyticsLoading}
               />
             </Suspense>
@@ -407,6 +416,8 @@ export default function DashboardPage() {
               <Suspense fallback={<ComponentLoader>チャート読み込み中...</ComponentLoader>}>
                 <SalesChart 
                   salesData={analyticsData.sales}
+                  targets={analyticsData.targets}
+                  filters={debouncedFilters}
                   loading={analyticsLoading}
                 />
               </Suspense>
@@ -8,6 +8,8 @@ import { getCurrentUser } from '@/lib/auth';
 import { createClient } from '@/lib/supabase/server';
 import ExportForm from '@/components/export/ExportForm';
 import { AuditService } from '@/lib/services/audit';
+import { getCachedMasterData } from '@/lib/cache/server-cache';
+import { MasterDataItem } from '@/lib/master-data';
 
 // ページメタデータ
 export const metadata = {
@@ -23,20 +25,16 @@ async function getStoreData() {
     .select('id, name')
     .order('name');
     
-  const { data: departments } = await supabase
-    .from('dim_department')
-    .select('id, name')
-    .order('name');
-    
-  const { data: categories } = await supabase
-    .from('dim_product_category')
-    .select('id, name')
-    .order('name');
+  // 部門・商品カテゴリはマスターキャッシュから取得（管理画面での変更時に無効化される）
+  const [departments, categories] = await Promise.all([
+    getCachedMasterData('departments') as Promise<MasterDataItem[]>,
+    getCachedMasterData('categories') as Promise<MasterDataItem[]>,
+  ]);
 
   return {
     stores: stores || [],
-    departments: departments || [],
-    categories: categories || []
+    departments,
+    categories
   };
 }
 
@@ -0,0 +1,34 @@
+/**
+ * ETL Run History Page
+ * 外部データ取得の実行履歴・ソース別の結果（管理者のみ）
+ */
+
+import { Metadata } from 'next'
+import Link from 'next/link'
+import { EtlRunHistory } from '@/components/monitoring/EtlRunHistory'
+
+export const metadata: Metadata = {
+  title: 'ETL 実行履歴 - 経営戦略ダッシュボード',
+  description: '外部データ（市場・為替・天候・イベント・STEMニュース・インバウンド）の取得履歴とソース別の結果',
+}
+
+export default function EtlRunsPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">ETL 実行履歴</h1>
+          <div className="space-x-4">
+            <Link href="/admin/etl-quarantine" className="text-sm text-primary-600 hover:text-primary-700">
+              隔離レコード
+            </Link>
+            <Link href="/monitoring" className="text-sm text-primary-600 hover:text-primary-700">
+              ← SLO 監視
+            </Link>
+          </div>
+        </div>
+        <EtlRunHistory />
+      </div>
+    </div>
+  )
+}
@@ -6,6 +6,7 @@
 
 import { Suspense } from 'react'
 import { Metadata } from 'next'
+import Link from 'next/link'
 import { SLOMonitoringDashboard } from '@/components/monitoring/SLOMonitoringDashboard'
 import { Navigation, QuickActions } from '@/components/navigation/Navigation'
 
@@ -60,6 +61,9 @@ export default function SLOMonitoringPage() {
               <p className="text-xs text-blue-600 mt-1">
                 リアルタイム監視・負荷テスト・パフォーマンス分析を提供します
               </p>
+              <Link href="/monitoring/etl" className="text-xs text-primary-600 hover:text-primary-700">
+                外部データ取得（ETL）の実行履歴 →
+              </Link>
             </div>
           </div>
         </div>
@@ -0,0 +1,17 @@
+import { Metadata } from 'next';
+import { SubmissionComplianceCalendar } from '@/components/sales/SubmissionComplianceCalendar';
+
+export const metadata: Metadata = {
+  title: '売上報告 提出状況 | 経営戦略ダッシュボード',
+  description: '店舗別の日次売上報告の提出率（SLA）',
+};
+
+export default function SalesCompliancePage() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4">
+        <SubmissionComplianceCalendar />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { Metadata } from 'next';
+import { SalesEntryGrid } from '@/components/sales/SalesEntryGrid';
+
+export const metadata: Metadata = {
+  title: '売上まとめて入力 | 経営戦略ダッシュボード',
+  description: '部門×カテゴリ・日付のグリッドで売上データをまとめて入力・修正',
+};
+
+export default function SalesGridPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4">
+        <SalesEntryGrid />
+      </div>
+    </div>
+  );
+}
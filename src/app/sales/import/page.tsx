@@ -0,0 +1,17 @@
+import { Metadata } from 'next';
+import { SalesImportForm } from '@/components/sales/SalesImportForm';
+
+export const metadata: Metadata = {
+  title: '売上一括取込み | 経営戦略ダッシュボード',
+  description: 'CSV・Excel ファイルから売上データを一括登録',
+};
+
+export default function SalesImportPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4">
+        <SalesImportForm />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { Metadata } from 'next';
+import { LaborHoursImportForm } from '@/components/sales/LaborHoursImportForm';
+
+export const metadata: Metadata = {
+  title: '人時取込み | 経営戦略ダッシュボード',
+  description: '勤怠システムの CSV・Excel ファイルから店舗・部門別の人時を一括登録',
+};
+
+export default function LaborHoursImportPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4">
+        <div className="max-w-4xl mx-auto">
+          <LaborHoursImportForm />
+        </div>
+      </div>
+    </div>
+  );
+}
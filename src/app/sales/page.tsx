@@ -1,17 +1,52 @@
 import { Metadata } from 'next';
+import Link from 'next/link';
 import { SalesForm } from '@/components/sales/SalesForm';
+import { SalesEditForm } from '@/components/sales/SalesEditForm';
+import { SalesLedger } from '@/components/sales/SalesLedger';
+import { OfflineSalesQueue } from '@/components/sales/OfflineSalesQueue';
 
 export const metadata: Metadata = {
   title: '売上入力 | 経営戦略ダッシュボード',
   description: '店舗の売上データを入力・管理',
 };
 
-export default function SalesPage() {
+interface SalesPageProps {
+  searchParams: Promise<{ edit?: string }>;
+}
+
+export default async function SalesPage({ searchParams }: SalesPageProps) {
+  const { edit } = await searchParams;
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="container mx-auto px-4">
-        <SalesForm />
+        {!edit && (
+          <div className="max-w-4xl mx-auto mb-4 flex justify-end space-x-6">
+            <Link href="/sales/compliance" className="text-sm text-primary-600 hover:text-primary-700">
+              提出状況を確認 →
+            </Link>
+            <Link href="/sales/import" className="text-sm text-primary-600 hover:text-primary-700">
+              CSV・Excel から一括取込み →
+            </Link>
+            <Link href="/sales/grid" className="text-sm text-primary-600 hover:text-primary-700">
+              部門×カテゴリをまとめて入力 →
+            </Link>
+            <Link href="/sales/labor-hours" className="text-sm text-primary-600 hover:text-primary-700">
+              人時を一括取込み →
+            </Link>
+            <Link href="/sales/reconciliation" className="text-sm text-primary-600 hover:text-primary-700">
+              POS と突合 →
+            </Link>
+          </div>
+        )}
+        {edit ? <SalesEditForm salesId={edit} /> : <SalesForm />}
+        {!edit && <OfflineSalesQueue />}
+        {!edit && (
+          <div className="mt-8">
+            <SalesLedger />
+          </div>
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,19 @@
+import { Metadata } from 'next';
+import { PosReconciliation } from '@/components/sales/PosReconciliation';
+
+export const metadata: Metadata = {
+  title: 'POS 突合 | 経営戦略ダッシュボード',
+  description: 'POS の日次合計と手入力された売上の差異を確認・解消',
+};
+
+export default function PosReconciliationPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4">
+        <div className="max-w-5xl mx-auto">
+          <PosReconciliation />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { AdminGuard } from '@/components/rbac/RBACGuard';
+import { AccountingPeriodClose, formatPeriodLabel } from '@/lib/accounting-periods';
+import { validateAccountingPeriodCloseForm } from '@/lib/validations/accounting-periods';
+import { getTodayString } from '@/lib/validations/sales';
+import { APIResponse, AccountingPeriodCloseInputForm, ValidationError } from '@/types/database.types';
+
+const ALL_STORES_OPTION = { value: '', label: '全店' };
+
+// 月次締め・締めの解除（管理者向け）
+export function AccountingPeriodManager() {
+  const [closes, setCloses] = useState<AccountingPeriodClose[]>([]);
+  const [stores, setStores] = useState<{ value: string; label: string }[]>([]);
+  const [formData, setFormData] = useState<AccountingPeriodCloseInputForm>({ period: '', store_id: '', note: '' });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadCloses = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/accounting-periods');
+      const result: APIResponse<AccountingPeriodClose[] | null> = await response.json();
+
+      if (!response.ok || !result.data) {
+        throw new Error(result.message || 'Failed to load accounting periods');
+      }
+
+      // 新しい月を上に表示
+      setCloses([...result.data].reverse());
+    } catch (err) {
+      console.error('Accounting periods load error:', err);
+      setError(err instanceof Error ? err.message : '締め状況の取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCloses();
+  }, [loadCloses]);
+
+  useEffect(() => {
+    const loadStores = async () => {
+      try {
+        const response = await fetch('/api/stores');
+        const result: APIResponse<{ id: string; name: string }[] | null> = await response.json();
+
+        if (!response.ok || !result.data) {
+          throw new Error(result.message || 'Failed to load stores');
+        }
+
+        setStores(result.data.map(store => ({ value: store.id, label: store.name })));
+      } catch (err) {
+        console.error('Failed to load stores:', err);
+      }
+    };
+
+    loadStores();
+  }, []);
+
+  const handleInputChange = (field: keyof AccountingPeriodCloseInputForm, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    const payload: AccountingPeriodCloseInputForm = {
+      period: formData.period,
+      store_id: formData.store_id || null,
+      note: formData.note,
+    };
+
+    const validationErrors = validateAccountingPeriodCloseForm(payload, getTodayString());
+    if (validationErrors.length > 0) {
+      setErrors(toErrorMap(validationErrors));
+      return;
+    }
+
+    const scope = formData.store_id ? describeStore(formData.store_id, stores) : '全店';
+    if (!window.confirm(`${formatPeriodLabel(payload.period)}（${scope}）を締めますか？締め後は売上データを登録・変更できません。`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/accounting-periods', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const result: APIResponse<AccountingPeriodClose | ValidationError[] | null> = await response.json();
+
+      if (!response.ok) {
+        if (response.status === 400 && Array.isArray(result.data)) {
+          setErrors(toErrorMap(result.data));
+        }
+        throw new Error(result.message || 'Failed to close accounting period');
+      }
+
+      setMessage(result.message || '月次締めを行いました');
+      setFormData({ period: '', store_id: '', note: '' });
+      await loadCloses();
+    } catch (err) {
+      console.error('Accounting period close error:', err);
+      setError(err instanceof Error ? err.message : '月次締めに失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReopen = async (close: AccountingPeriodClose) => {
+    const scope = close.store_id ? describeStore(close.store_id, stores) : '全店';
+    const reason = window.prompt(`${formatPeriodLabel(close.period)}（${scope}）の締めを解除します。解除の理由を入力してください`);
+    if (reason === null) {
+      return;
+    }
+
+    setMessage(null);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ reason });
+      const response = await fetch(`/api/accounting-periods/${close.id}?${params}`, { method: 'DELETE' });
+      const result: APIResponse<null> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to reopen accounting period');
+      }
+
+      setMessage(result.message || '締めを解除しました');
+      await loadCloses();
+    } catch (err) {
+      console.error('Accounting period reopen error:', err);
+      setError(err instanceof Error ? err.message : '締めの解除に失敗しました');
+    }
+  };
+
+  return (
+    <AdminGuard
+      fallback={
+        <div className="max-w-4xl mx-auto bg-white p-6 rounded-lg shadow-lg">
+          <p className="text-sm text-gray-600">月次締めは管理者のみ利用できます</p>
+        </div>
+      }
+    >
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">月次締め</h2>
+          <p className="text-sm text-gray-600 mb-6">
+            締めた月の売上データは、登録・修正・削除・ステータス変更ができなくなります。
+            店舗を選択しない場合は全店が対象です。締めと解除はすべて監査ログに記録されます。
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Input
+                type="month"
+                label="対象月"
+                value={formData.period}
+                onChange={(e) => handleInputChange('period', e.target.value)}
+                error={errors.period}
+                required
+              />
+              <Select
+                label="店舗"
+                options={[ALL_STORES_OPTION, ...stores]}
+                value={formData.store_id || ''}
+                onChange={(e) => handleInputChange('store_id', e.target.value)}
+                error={errors.store_id}
+              />
+              <Input
+                type="text"
+                label="備考"
+                value={formData.note || ''}
+                onChange={(e) => handleInputChange('note', e.target.value)}
+                error={errors.note}
+                placeholder="例: 8月度決算確定"
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="text-red-800 text-sm">{error}</p>
+              </div>
+            )}
+
+            {message && (
+              <div className="bg-green-50 border border-green-200 rounded-md p-3">
+                <p className="text-green-800 text-sm">{message}</p>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button type="submit" loading={saving} disabled={saving}>
+                締める
+              </Button>
+            </div>
+          </form>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">締め済みの月</h3>
+          {loading ? (
+            <p className="text-sm text-gray-500">読み込み中...</p>
+          ) : closes.length === 0 ? (
+            <p className="text-sm text-gray-500">締め済みの月はありません</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">対象月</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">店舗</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">締め日時</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">備考</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {closes.map(close => (
+                  <tr key={close.id}>
+                    <td className="px-4 py-2 font-medium">{formatPeriodLabel(close.period)}</td>
+                    <td className="px-4 py-2">{close.store_id ? describeStore(close.store_id, stores) : '全店'}</td>
+                    <td className="px-4 py-2">{new Date(close.closed_at).toLocaleString('ja-JP')}</td>
+                    <td className="px-4 py-2 text-gray-600">{close.note || '-'}</td>
+                    <td className="px-4 py-2 text-right">
+                      <Button type="button" variant="outline" size="sm" onClick={() => handleReopen(close)}>
+                        解除
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </AdminGuard>
+  );
+}
+
+function describeStore(storeId: string, stores: { value: string; label: string }[]): string {
+  return stores.find(store => store.value === storeId)?.label || storeId;
+}
+
+function toErrorMap(errors: ValidationError[]): Record<string, string> {
+  const errorMap: Record<string, string> = {};
+  errors.forEach(({ field, message }) => {
+    errorMap[field] = message;
+  });
+  return errorMap;
+}
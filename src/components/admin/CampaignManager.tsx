@@ -0,0 +1,548 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { AdminGuard } from '@/components/rbac/RBACGuard';
+import { useMasterData } from '@/hooks/useMasterData';
+import { supabase } from '@/lib/supabase/client';
+import { CAMPAIGN_TYPES, CAMPAIGN_TYPE_LABELS, Campaign, CampaignUplift } from '@/lib/campaigns';
+import { MasterDataItem, getMasterLabel, toMasterOptions } from '@/lib/master-data';
+import { formatCurrency } from '@/lib/validations/sales';
+import { validateCampaignForm } from '@/lib/validations/campaigns';
+import {
+  APIResponse,
+  CampaignInputForm,
+  CampaignType,
+  Database,
+  ValidationError,
+} from '@/types/database.types';
+
+type StoreOptionRow = Pick<Database['public']['Tables']['dim_store']['Row'], 'id' | 'name' | 'area'>;
+
+// 入力中の値（対象店舗・部門は未選択で全店・全部門）
+interface CampaignFormState {
+  name: string;
+  campaign_type: CampaignType;
+  start_date: string;
+  end_date: string;
+  store_ids: string[];
+  departments: string[];
+  discount_rate: string;
+  notes: string;
+}
+
+const CAMPAIGN_TYPE_OPTIONS = CAMPAIGN_TYPES.map(type => ({ value: type, label: CAMPAIGN_TYPE_LABELS[type] }));
+
+// 販促キャンペーンの一覧・登録・編集・削除と効果測定（管理者向け）
+export function CampaignManager() {
+  const [year, setYear] = useState(format(new Date(), 'yyyy'));
+  const [stores, setStores] = useState<{ value: string; label: string }[]>([]);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [formData, setFormData] = useState<CampaignFormState>(emptyForm);
+  const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
+  const [uplift, setUplift] = useState<{ campaign: Campaign; result: CampaignUplift } | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [measuringId, setMeasuringId] = useState<string | null>(null);
+  const { departments } = useMasterData();
+
+  // 店舗データを取得
+  useEffect(() => {
+    async function fetchStores() {
+      try {
+        const { data, error } = await supabase
+          .from('dim_store')
+          .select('id, name, area')
+          .order('name');
+
+        if (error) throw error;
+
+        setStores(data.map((store: StoreOptionRow) => ({
+          value: store.id,
+          label: `${store.name}${store.area ? ` (${store.area})` : ''}`,
+        })));
+      } catch (error) {
+        console.error('Failed to fetch stores:', error);
+      }
+    }
+
+    fetchStores();
+  }, []);
+
+  const loadCampaigns = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ start: `${year}-01-01`, end: `${year}-12-31` });
+      const response = await fetch(`/api/campaigns?${params.toString()}`);
+      const result: APIResponse<Campaign[] | null> = await response.json();
+
+      if (!response.ok || !result.data) {
+        throw new Error(result.message || 'Failed to load campaigns');
+      }
+
+      setCampaigns(result.data);
+    } catch (err) {
+      console.error('Campaigns load error:', err);
+      setError(err instanceof Error ? err.message : 'キャンペーンの取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, [year]);
+
+  useEffect(() => {
+    loadCampaigns();
+  }, [loadCampaigns]);
+
+  const storeNames = useMemo(() => new Map(stores.map(store => [store.value, store.label])), [stores]);
+
+  const handleInputChange = (field: keyof CampaignFormState, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const toggleSelection = (field: 'store_ids' | 'departments', value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: prev[field].includes(value)
+        ? prev[field].filter(item => item !== value)
+        : [...prev[field], value],
+    }));
+  };
+
+  const startEdit = (campaign: Campaign) => {
+    setEditingCampaign(campaign);
+    setFormData({
+      name: campaign.name,
+      campaign_type: campaign.campaign_type,
+      start_date: campaign.start_date,
+      end_date: campaign.end_date,
+      store_ids: campaign.store_ids,
+      departments: campaign.departments,
+      discount_rate: campaign.discount_rate === null ? '' : String(campaign.discount_rate),
+      notes: campaign.notes || '',
+    });
+    setErrors({});
+    setMessage(null);
+    setError(null);
+  };
+
+  const resetForm = () => {
+    setEditingCampaign(null);
+    setFormData(emptyForm());
+    setErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    const payload: CampaignInputForm = {
+      name: formData.name,
+      campaign_type: formData.campaign_type,
+      start_date: formData.start_date,
+      end_date: formData.end_date,
+      store_ids: formData.store_ids,
+      departments: formData.departments,
+      discount_rate: formData.discount_rate === '' ? null : Number(formData.discount_rate),
+      notes: formData.notes || null,
+      ...(editingCampaign ? { updated_at: editingCampaign.updated_at } : {}),
+    };
+
+    const validationErrors = validateCampaignForm(payload);
+    if (validationErrors.length > 0) {
+      setErrors(toErrorMap(validationErrors));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(editingCampaign ? `/api/campaigns/${editingCampaign.id}` : '/api/campaigns', {
+        method: editingCampaign ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const result: APIResponse<Campaign | ValidationError[] | null> = await response.json();
+
+      if (!response.ok) {
+        if (response.status === 400 && Array.isArray(result.data)) {
+          setErrors(toErrorMap(result.data));
+        }
+        throw new Error(result.message || 'Failed to save campaign');
+      }
+
+      setMessage(result.message || 'キャンペーンを保存しました');
+      resetForm();
+      await loadCampaigns();
+    } catch (err) {
+      console.error('Campaign save error:', err);
+      setError(err instanceof Error ? err.message : 'キャンペーンの保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (campaign: Campaign) => {
+    if (!window.confirm(`キャンペーン「${campaign.name}」を削除しますか？`)) {
+      return;
+    }
+
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/campaigns/${campaign.id}`, { method: 'DELETE' });
+      const result: APIResponse<null> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to delete campaign');
+      }
+
+      setMessage(result.message || 'キャンペーンを削除しました');
+      if (editingCampaign?.id === campaign.id) resetForm();
+      if (uplift?.campaign.id === campaign.id) setUplift(null);
+      await loadCampaigns();
+    } catch (err) {
+      console.error('Campaign delete error:', err);
+      setError(err instanceof Error ? err.message : 'キャンペーンの削除に失敗しました');
+    }
+  };
+
+  const handleMeasure = async (campaign: Campaign) => {
+    setMeasuringId(campaign.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/campaigns/${campaign.id}/uplift`);
+      const result: APIResponse<CampaignUplift | null> = await response.json();
+
+      if (!response.ok || !result.data) {
+        throw new Error(result.message || 'Failed to measure campaign uplift');
+      }
+
+      setUplift({ campaign, result: result.data });
+    } catch (err) {
+      console.error('Campaign uplift error:', err);
+      setError(err instanceof Error ? err.message : 'キャンペーン効果の算出に失敗しました');
+    } finally {
+      setMeasuringId(null);
+    }
+  };
+
+  return (
+    <AdminGuard
+      fallback={
+        <div className="max-w-5xl mx-auto bg-white p-6 rounded-lg shadow-lg">
+          <p className="text-sm text-gray-600">キャンペーンの管理は管理者のみ利用できます</p>
+        </div>
+      }
+    >
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">キャンペーンカレンダー</h2>
+          <p className="text-sm text-gray-600 mb-6">
+            ポイントアップデー・季節セールなどの販促キャンペーンを登録します。
+            対象店舗・部門を選択しない場合は全店・全部門が対象です。登録したキャンペーン日は相関分析で要因として扱うか、除外して分析できます。
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Input
+                label="キャンペーン名"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                error={errors.name}
+                required
+              />
+              <Select
+                label="種別"
+                options={CAMPAIGN_TYPE_OPTIONS}
+                value={formData.campaign_type}
+                onChange={(e) => handleInputChange('campaign_type', e.target.value)}
+                error={errors.campaign_type}
+              />
+              <Input
+                type="number"
+                label="割引率・還元率（%）"
+                value={formData.discount_rate}
+                onChange={(e) => handleInputChange('discount_rate', e.target.value)}
+                error={errors.discount_rate}
+                min="0"
+                max="100"
+                step="0.01"
+              />
+              <Input
+                type="date"
+                label="開始日"
+                value={formData.start_date}
+                onChange={(e) => handleInputChange('start_date', e.target.value)}
+                error={errors.start_date}
+                required
+              />
+              <Input
+                type="date"
+                label="終了日"
+                value={formData.end_date}
+                onChange={(e) => handleInputChange('end_date', e.target.value)}
+                error={errors.end_date}
+                required
+              />
+              <Input
+                label="備考"
+                value={formData.notes}
+                onChange={(e) => handleInputChange('notes', e.target.value)}
+                error={errors.notes}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <fieldset>
+                <legend className="text-sm font-medium text-gray-700 mb-2">対象店舗（未選択で全店）</legend>
+                <div className="max-h-40 overflow-y-auto space-y-1 border border-gray-200 rounded-md p-2">
+                  {stores.map(store => (
+                    <label key={store.value} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.store_ids.includes(store.value)}
+                        onChange={() => toggleSelection('store_ids', store.value)}
+                        className="h-4 w-4 rounded border-gray-300"
+                      />
+                      <span>{store.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+              <fieldset>
+                <legend className="text-sm font-medium text-gray-700 mb-2">対象部門（未選択で全部門）</legend>
+                <div className="max-h-40 overflow-y-auto space-y-1 border border-gray-200 rounded-md p-2">
+                  {toMasterOptions(departments, formData.departments).map(department => (
+                    <label key={department.value} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.departments.includes(department.value)}
+                        onChange={() => toggleSelection('departments', department.value)}
+                        className="h-4 w-4 rounded border-gray-300"
+                      />
+                      <span>{department.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="text-red-800 text-sm">{error}</p>
+              </div>
+            )}
+
+            {message && (
+              <div className="bg-green-50 border border-green-200 rounded-md p-3">
+                <p className="text-green-800 text-sm">{message}</p>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-4">
+              {editingCampaign && (
+                <Button type="button" variant="outline" onClick={resetForm} disabled={saving}>
+                  キャンセル
+                </Button>
+              )}
+              <Button type="submit" loading={saving} disabled={saving}>
+                {editingCampaign ? '更新' : '登録'}
+              </Button>
+            </div>
+          </form>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">登録済みキャンペーン</h3>
+            <Input
+              type="number"
+              label="対象年"
+              value={year}
+              onChange={(e) => setYear(e.target.value)}
+              min="2000"
+              max="2100"
+            />
+          </div>
+
+          {loading ? (
+            <p className="text-sm text-gray-500">読み込み中...</p>
+          ) : campaigns.length === 0 ? (
+            <p className="text-sm text-gray-500">この年のキャンペーンは登録されていません</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">期間</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">キャンペーン</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">対象</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-700">割引率</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {campaigns.map(campaign => (
+                  <tr key={campaign.id} className={editingCampaign?.id === campaign.id ? 'bg-primary-50' : undefined}>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      {campaign.start_date === campaign.end_date
+                        ? campaign.start_date
+                        : `${campaign.start_date} 〜 ${campaign.end_date}`}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="font-medium text-gray-900">{campaign.name}</div>
+                      <div className="text-xs text-gray-500">{CAMPAIGN_TYPE_LABELS[campaign.campaign_type]}</div>
+                    </td>
+                    <td className="px-4 py-2">{describeTargets(campaign, storeNames, departments)}</td>
+                    <td className="px-4 py-2 text-right">
+                      {campaign.discount_rate === null ? '-' : `${campaign.discount_rate}%`}
+                    </td>
+                    <td className="px-4 py-2 text-right space-x-2 whitespace-nowrap">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleMeasure(campaign)}
+                        loading={measuringId === campaign.id}
+                        disabled={measuringId !== null}
+                      >
+                        効果測定
+                      </Button>
+                      <Button type="button" variant="outline" size="sm" onClick={() => startEdit(campaign)}>
+                        編集
+                      </Button>
+                      <Button type="button" variant="outline" size="sm" onClick={() => handleDelete(campaign)}>
+                        削除
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {uplift && (
+          <div className="bg-white p-6 rounded-lg shadow-lg">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">効果測定: {uplift.campaign.name}</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              キャンペーン日ごとに、直近8週の同じ曜日でキャンペーンのない日（天候・気温が近い日を優先）の平均売上をベースラインとして比較します。
+            </p>
+
+            {uplift.result.days.length === 0 ? (
+              <p className="text-sm text-gray-500">キャンペーン期間の承認済み売上がありません</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                  <div className="bg-gray-50 rounded-md p-3">
+                    <p className="text-xs text-gray-500">実績（税抜）</p>
+                    <p className="text-lg font-semibold text-gray-900">{formatCurrency(uplift.result.actual)}</p>
+                  </div>
+                  <div className="bg-gray-50 rounded-md p-3">
+                    <p className="text-xs text-gray-500">ベースライン</p>
+                    <p className="text-lg font-semibold text-gray-900">{formatCurrency(Math.round(uplift.result.baseline))}</p>
+                  </div>
+                  <div className="bg-gray-50 rounded-md p-3">
+                    <p className="text-xs text-gray-500">アップリフト</p>
+                    <p className={`text-lg font-semibold ${uplift.result.upliftAmount >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                      {formatCurrency(Math.round(uplift.result.upliftAmount))}
+                      {uplift.result.upliftRate !== null && ` (${formatRate(uplift.result.upliftRate)})`}
+                    </p>
+                  </div>
+                </div>
+
+                {uplift.result.daysWithoutBaseline > 0 && (
+                  <p className="text-xs text-yellow-700 mb-2">
+                    比較できる非キャンペーン日がない{uplift.result.daysWithoutBaseline}日は合計に含めていません
+                  </p>
+                )}
+
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-700">日付</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-700">実績</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-700">ベースライン</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-700">差</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-700">比較日</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {uplift.result.days.map(day => (
+                      <tr key={day.date}>
+                        <td className="px-4 py-2 whitespace-nowrap">{day.date}</td>
+                        <td className="px-4 py-2 text-right">{formatCurrency(day.actual)}</td>
+                        <td className="px-4 py-2 text-right">
+                          {day.baseline === null ? '-' : formatCurrency(Math.round(day.baseline))}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {day.upliftRate === null ? '-' : formatRate(day.upliftRate)}
+                        </td>
+                        <td className="px-4 py-2 text-xs text-gray-500">
+                          {day.baselineDates.join(', ') || '-'}
+                          {day.baselineDates.length > 0 && !day.matchedOnWeather && '（天候条件なし）'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </AdminGuard>
+  );
+}
+
+function emptyForm(): CampaignFormState {
+  return {
+    name: '',
+    campaign_type: 'point_up',
+    start_date: '',
+    end_date: '',
+    store_ids: [],
+    departments: [],
+    discount_rate: '',
+    notes: '',
+  };
+}
+
+function describeTargets(
+  campaign: Pick<Campaign, 'store_ids' | 'departments'>,
+  storeNames: Map<string, string>,
+  departments: MasterDataItem[]
+): string {
+  const stores = campaign.store_ids.length > 0
+    ? campaign.store_ids.map(id => storeNames.get(id) || id).join('、')
+    : '全店';
+  const targetDepartments = campaign.departments.length > 0
+    ? campaign.departments.map(code => getMasterLabel(departments, code)).join('、')
+    : '全部門';
+  return `${stores} / ${targetDepartments}`;
+}
+
+function formatRate(rate: number): string {
+  return `${rate >= 0 ? '+' : ''}${(rate * 100).toFixed(1)}%`;
+}
+
+function toErrorMap(errors: ValidationError[]): Record<string, string> {
+  const errorMap: Record<string, string> = {};
+  errors.forEach(({ field, message }) => {
+    errorMap[field] = message;
+  });
+  return errorMap;
+}
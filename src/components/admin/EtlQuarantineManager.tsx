@@ -0,0 +1,254 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import { AdminGuard } from '@/components/rbac/RBACGuard';
+import {
+  ETL_QUARANTINE_DEFAULT_LIMIT,
+  ETL_QUARANTINE_STATUS_LABELS,
+  EtlQuarantinedRecord,
+  INVALID_RECORD_CODE,
+} from '@/lib/services/etl-quarantine';
+import { ETL_SOURCE_LABELS } from '@/lib/services/etl-runs';
+import type { SourceType } from '@/lib/services/data-source-adapters';
+import { APIResponse, EtlQuarantineActionRequest } from '@/types/database.types';
+
+const STATUS_FILTER_OPTIONS = [
+  ...Object.entries(ETL_QUARANTINE_STATUS_LABELS).map(([value, label]) => ({ value, label })),
+  { value: 'all', label: 'すべて' },
+];
+
+const SOURCE_FILTER_OPTIONS = [
+  { value: '', label: 'すべて' },
+  ...Object.entries(ETL_SOURCE_LABELS).map(([value, label]) => ({ value, label })),
+];
+
+interface EtlQuarantineManagerProps {
+  runId?: string; // 指定時はその実行で隔離されたレコードのみ表示
+  initialSource?: string;
+}
+
+// 外部データの隔離レコードの確認・反映・破棄（管理者向け）
+export function EtlQuarantineManager({ runId, initialSource }: EtlQuarantineManagerProps) {
+  const [records, setRecords] = useState<EtlQuarantinedRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [status, setStatus] = useState('quarantined');
+  const [source, setSource] = useState(initialSource && initialSource in ETL_SOURCE_LABELS ? initialSource : '');
+  const [offset, setOffset] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const loadRecords = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ status, limit: String(ETL_QUARANTINE_DEFAULT_LIMIT), offset: String(offset) });
+      if (source) params.set('source', source);
+      if (runId) params.set('run_id', runId);
+
+      const response = await fetch(`/api/etl/quarantine?${params}`);
+      const result: APIResponse<EtlQuarantinedRecord[] | null> = await response.json();
+
+      if (!response.ok || !result.data) {
+        throw new Error(result.message || 'Failed to load quarantined records');
+      }
+
+      setRecords(result.data);
+      setTotal(result.meta?.total ?? result.data.length);
+    } catch (err) {
+      console.error('ETL quarantine load error:', err);
+      setError(err instanceof Error ? err.message : '隔離されたレコードの取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, [status, source, offset, runId]);
+
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords]);
+
+  const handleAction = async (record: EtlQuarantinedRecord, action: EtlQuarantineActionRequest['action']) => {
+    const confirmation = action === 'release'
+      ? 'このレコードを外部データに反映しますか？値が正しいことを確認してから反映してください。'
+      : 'このレコードを破棄しますか？外部データには反映されません。';
+    if (!window.confirm(confirmation)) {
+      return;
+    }
+
+    setMessage(null);
+    setError(null);
+    setProcessingId(record.id);
+
+    try {
+      const response = await fetch(`/api/etl/quarantine/${record.id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action }),
+      });
+      const result: APIResponse<EtlQuarantinedRecord | null> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to resolve quarantined record');
+      }
+
+      setMessage(result.message || (action === 'release' ? 'レコードを反映しました' : 'レコードを破棄しました'));
+      await loadRecords();
+    } catch (err) {
+      console.error('ETL quarantine action error:', err);
+      setError(err instanceof Error ? err.message : 'レコードの処理に失敗しました');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <AdminGuard
+      fallback={
+        <div className="max-w-6xl mx-auto bg-white p-6 rounded-lg shadow-lg">
+          <p className="text-sm text-gray-600">隔離レコードの確認は管理者のみ利用できます</p>
+        </div>
+      }
+    >
+      <div className="max-w-6xl mx-auto bg-white p-6 rounded-lg shadow-lg">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">外部データの隔離レコード</h2>
+        <p className="text-sm text-gray-600 mb-6">
+          ETL で取得した外部データのうち、値の検証またはデータベースの制約で書き込めなかったレコードです。
+          値を確認して問題がなければ反映し、誤ったデータは破棄してください。反映・破棄は監査ログに記録されます。
+        </p>
+
+        {runId && (
+          <p className="text-sm text-gray-700 mb-4">実行 {runId} で隔離されたレコードを表示しています</p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <Select
+            label="状態"
+            options={STATUS_FILTER_OPTIONS}
+            value={status}
+            onChange={(e) => { setStatus(e.target.value); setOffset(0); }}
+          />
+          <Select
+            label="ソース"
+            options={SOURCE_FILTER_OPTIONS}
+            value={source}
+            onChange={(e) => { setSource(e.target.value); setOffset(0); }}
+          />
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-4">
+            <p className="text-red-800 text-sm">{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-3 mb-4">
+            <p className="text-green-800 text-sm">{message}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">読み込み中...</p>
+        ) : records.length === 0 ? (
+          <p className="text-sm text-gray-500">該当するレコードはありません</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">検出日時</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">ソース</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">対象日</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">理由</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">レコード</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">状態</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 align-top">
+                {records.map(record => (
+                  <tr key={record.id}>
+                    <td className="px-3 py-2 whitespace-nowrap">{new Date(record.created_at).toLocaleString('ja-JP')}</td>
+                    <td className="px-3 py-2">{ETL_SOURCE_LABELS[record.source as SourceType] ?? record.source}</td>
+                    <td className="px-3 py-2">{record.target_date ?? '実行日'}</td>
+                    <td className="px-3 py-2 text-red-700">
+                      {record.reason}
+                      <p className="text-xs text-gray-500 mt-1">
+                        {record.error_code === INVALID_RECORD_CODE ? '値の検証' : `DB 制約（${record.error_code}）`}
+                      </p>
+                    </td>
+                    <td className="px-3 py-2">
+                      <pre className="text-xs bg-gray-50 rounded p-2 max-w-md overflow-x-auto">
+                        {JSON.stringify(record.record, null, 2)}
+                      </pre>
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      {ETL_QUARANTINE_STATUS_LABELS[record.status]}
+                      {record.resolved_at && (
+                        <p className="text-xs text-gray-500 mt-1">{new Date(record.resolved_at).toLocaleString('ja-JP')}</p>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap space-x-2">
+                      {record.status === 'quarantined' && (
+                        <>
+                          <Button
+                            type="button"
+                            size="sm"
+                            onClick={() => handleAction(record, 'release')}
+                            loading={processingId === record.id}
+                            disabled={processingId !== null}
+                          >
+                            反映
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleAction(record, 'discard')}
+                            disabled={processingId !== null}
+                          >
+                            破棄
+                          </Button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+          <span>
+            {total === 0 ? '0 件' : `${offset + 1}〜${Math.min(offset + ETL_QUARANTINE_DEFAULT_LIMIT, total)} / ${total} 件`}
+          </span>
+          <div className="space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(Math.max(offset - ETL_QUARANTINE_DEFAULT_LIMIT, 0))}
+              disabled={offset === 0 || loading}
+            >
+              前へ
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(offset + ETL_QUARANTINE_DEFAULT_LIMIT)}
+              disabled={offset + ETL_QUARANTINE_DEFAULT_LIMIT >= total || loading}
+            >
+              次へ
+            </Button>
+          </div>
+        </div>
+      </div>
+    </AdminGuard>
+  );
+}
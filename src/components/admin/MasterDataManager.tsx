@@ -0,0 +1,330 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { AdminGuard } from '@/components/rbac/RBACGuard';
+import { useMasterData } from '@/hooks/useMasterData';
+import {
+  MASTER_DATA_LABELS,
+  MASTER_DATA_TYPES,
+  MasterDataItem,
+  MasterDataType,
+  sortMasterData,
+} from '@/lib/master-data';
+import { validateMasterDataForm } from '@/lib/validations/master-data';
+import { APIResponse, MasterDataInputForm, ValidationError } from '@/types/database.types';
+
+// 入力中の値（表示順は文字列で保持する）
+interface MasterDataFormState {
+  code: string;
+  name: string;
+  sort_order: string;
+  active: boolean;
+}
+
+const EMPTY_FORM: MasterDataFormState = {
+  code: '',
+  name: '',
+  sort_order: '0',
+  active: true,
+};
+
+// 部門・商品カテゴリマスターの一覧・登録・編集・削除（管理者向け）
+export function MasterDataManager() {
+  const [type, setType] = useState<MasterDataType>('departments');
+  const [formData, setFormData] = useState<MasterDataFormState>(EMPTY_FORM);
+  const [editingItem, setEditingItem] = useState<MasterDataItem | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { departments, categories, loading, error: loadError, reload } = useMasterData();
+
+  const items = sortMasterData(type === 'departments' ? departments : categories);
+  const label = MASTER_DATA_LABELS[type];
+
+  const handleInputChange = (field: keyof MasterDataFormState, value: string | boolean) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const resetForm = () => {
+    setEditingItem(null);
+    setFormData(EMPTY_FORM);
+    setErrors({});
+  };
+
+  const changeType = (nextType: MasterDataType) => {
+    setType(nextType);
+    resetForm();
+    setMessage(null);
+    setError(null);
+  };
+
+  const startEdit = (item: MasterDataItem) => {
+    setEditingItem(item);
+    setFormData({
+      code: item.code,
+      name: item.name,
+      sort_order: String(item.sort_order),
+      active: item.active,
+    });
+    setErrors({});
+    setMessage(null);
+    setError(null);
+  };
+
+  const save = async (
+    item: MasterDataItem | null,
+    payload: Partial<MasterDataInputForm>
+  ): Promise<APIResponse<MasterDataItem | ValidationError[] | null>> => {
+    const response = await fetch(item ? `/api/master-data/${type}/${item.id}` : `/api/master-data/${type}`, {
+      method: item ? 'PATCH' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(item ? { ...payload, updated_at: item.updated_at } : payload),
+    });
+
+    const result: APIResponse<MasterDataItem | ValidationError[] | null> = await response.json();
+
+    if (!response.ok) {
+      if (response.status === 400 && Array.isArray(result.data)) {
+        setErrors(toErrorMap(result.data));
+      }
+      throw new Error(result.message || 'Failed to save master data');
+    }
+
+    return result;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    const payload: MasterDataInputForm = {
+      code: formData.code.trim(),
+      name: formData.name.trim(),
+      sort_order: formData.sort_order === '' ? NaN : Number(formData.sort_order),
+      active: formData.active,
+    };
+
+    const validationErrors = validateMasterDataForm(payload);
+    if (validationErrors.length > 0) {
+      setErrors(toErrorMap(validationErrors));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await save(editingItem, payload);
+      setMessage(result.message || `${label}を保存しました`);
+      resetForm();
+      await reload();
+    } catch (err) {
+      console.error('Master data save error:', err);
+      setError(err instanceof Error ? err.message : `${label}の保存に失敗しました`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (item: MasterDataItem) => {
+    setMessage(null);
+    setError(null);
+
+    try {
+      const result = await save(item, { active: !item.active });
+      setMessage(result.message || `${label}を更新しました`);
+      if (editingItem?.id === item.id) resetForm();
+      await reload();
+    } catch (err) {
+      console.error('Master data update error:', err);
+      setError(err instanceof Error ? err.message : `${label}の更新に失敗しました`);
+    }
+  };
+
+  const handleDelete = async (item: MasterDataItem) => {
+    if (!window.confirm(`${label}「${item.name}」を削除しますか？`)) {
+      return;
+    }
+
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/master-data/${type}/${item.id}`, { method: 'DELETE' });
+      const result: APIResponse<MasterDataItem | null> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to delete master data');
+      }
+
+      setMessage(result.message || `${label}を削除しました`);
+      if (editingItem?.id === item.id) resetForm();
+      await reload();
+    } catch (err) {
+      console.error('Master data delete error:', err);
+      setError(err instanceof Error ? err.message : `${label}の削除に失敗しました`);
+    }
+  };
+
+  return (
+    <AdminGuard
+      fallback={
+        <div className="max-w-5xl mx-auto bg-white p-6 rounded-lg shadow-lg">
+          <p className="text-sm text-gray-600">部門・商品カテゴリの管理は管理者のみ利用できます</p>
+        </div>
+      }
+    >
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">部門・商品カテゴリ管理</h2>
+          <p className="text-sm text-gray-600 mb-6">
+            売上入力・ダッシュボード・エクスポートの選択肢に使用するマスターです。
+            売上データで使用中のコードは変更・削除できないため、不要になった場合は無効化してください。
+          </p>
+
+          <div className="flex space-x-2 mb-6">
+            {MASTER_DATA_TYPES.map(option => (
+              <Button
+                key={option}
+                type="button"
+                variant={type === option ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => changeType(option)}
+              >
+                {MASTER_DATA_LABELS[option]}
+              </Button>
+            ))}
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <Input
+                type="text"
+                label="コード"
+                value={formData.code}
+                onChange={(e) => handleInputChange('code', e.target.value)}
+                error={errors.code}
+                placeholder="例: food"
+                required
+              />
+              <Input
+                type="text"
+                label="表示名"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                error={errors.name}
+                placeholder="例: 食品"
+                required
+              />
+              <Input
+                type="number"
+                label="表示順"
+                value={formData.sort_order}
+                onChange={(e) => handleInputChange('sort_order', e.target.value)}
+                error={errors.sort_order}
+                min="0"
+                step="1"
+                required
+              />
+              <label className="flex items-center space-x-2 text-sm text-gray-700 md:mt-7">
+                <input
+                  type="checkbox"
+                  checked={formData.active}
+                  onChange={(e) => handleInputChange('active', e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                <span>有効</span>
+              </label>
+            </div>
+
+            {(error || loadError) && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="text-red-800 text-sm">{error || loadError}</p>
+              </div>
+            )}
+
+            {message && (
+              <div className="bg-green-50 border border-green-200 rounded-md p-3">
+                <p className="text-green-800 text-sm">{message}</p>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-4">
+              {editingItem && (
+                <Button type="button" variant="outline" onClick={resetForm} disabled={saving}>
+                  キャンセル
+                </Button>
+              )}
+              <Button type="submit" loading={saving} disabled={saving}>
+                {editingItem ? '更新' : '登録'}
+              </Button>
+            </div>
+          </form>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">登録済みの{label}</h3>
+          {loading ? (
+            <p className="text-sm text-gray-500">読み込み中...</p>
+          ) : items.length === 0 ? (
+            <p className="text-sm text-gray-500">{label}が登録されていません</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-right font-medium text-gray-700">表示順</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">コード</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">表示名</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">状態</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {items.map(item => (
+                  <tr key={item.id} className={editingItem?.id === item.id ? 'bg-primary-50' : undefined}>
+                    <td className="px-4 py-2 text-right">{item.sort_order}</td>
+                    <td className="px-4 py-2 font-mono">{item.code}</td>
+                    <td className="px-4 py-2">{item.name}</td>
+                    <td className="px-4 py-2">
+                      {item.active ? (
+                        <span className="text-green-700">有効</span>
+                      ) : (
+                        <span className="text-gray-500">無効</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right space-x-2 whitespace-nowrap">
+                      <Button type="button" variant="outline" size="sm" onClick={() => startEdit(item)}>
+                        編集
+                      </Button>
+                      <Button type="button" variant="outline" size="sm" onClick={() => handleToggleActive(item)}>
+                        {item.active ? '無効化' : '有効化'}
+                      </Button>
+                      <Button type="button" variant="outline" size="sm" onClick={() => handleDelete(item)}>
+                        削除
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </AdminGuard>
+  );
+}
+
+function toErrorMap(errors: ValidationError[]): Record<string, string> {
+  const errorMap: Record<string, string> = {};
+  errors.forEach(({ field, message }) => {
+    errorMap[field] = message;
+  });
+  return errorMap;
+}
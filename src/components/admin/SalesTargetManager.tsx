@@ -0,0 +1,435 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { AdminGuard } from '@/components/rbac/RBACGuard';
+import { SalesTargetImportForm } from '@/components/admin/SalesTargetImportForm';
+import { useMasterData } from '@/hooks/useMasterData';
+import { supabase } from '@/lib/supabase/client';
+import { MasterDataItem, getMasterLabel, toMasterOptions } from '@/lib/master-data';
+import { SalesTarget, getDaysInMonth } from '@/lib/targets';
+import { formatCurrency } from '@/lib/validations/sales';
+import { validateSalesTargetForm } from '@/lib/validations/targets';
+import {
+  APIResponse,
+  Database,
+  SalesTargetInputForm,
+  SalesTargetPeriodType,
+  ValidationError,
+} from '@/types/database.types';
+
+type StoreOptionRow = Pick<Database['public']['Tables']['dim_store']['Row'], 'id' | 'name' | 'area'>;
+
+// 入力中の値（月次目標は対象月、日次目標は対象日で入力する）
+interface TargetFormState {
+  period_type: SalesTargetPeriodType;
+  month: string;
+  date: string;
+  store_id: string;
+  department: string;
+  product_category: string;
+  revenue_target: string;
+  footfall_target: string;
+}
+
+const PERIOD_TYPE_OPTIONS = [
+  { value: 'monthly', label: '月次' },
+  { value: 'daily', label: '日次' },
+];
+
+const ALL_OPTION = { value: '', label: 'すべて' };
+
+// 売上・客数目標の一覧・登録・編集・削除・取込み（管理者向け）
+export function SalesTargetManager() {
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [storeFilter, setStoreFilter] = useState('');
+  const [stores, setStores] = useState<{ value: string; label: string }[]>([]);
+  const [targets, setTargets] = useState<SalesTarget[]>([]);
+  const [formData, setFormData] = useState<TargetFormState>(() => emptyForm(format(new Date(), 'yyyy-MM')));
+  const [editingTarget, setEditingTarget] = useState<SalesTarget | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { departments, categories } = useMasterData();
+
+  // 店舗データを取得
+  useEffect(() => {
+    async function fetchStores() {
+      try {
+        const { data, error } = await supabase
+          .from('dim_store')
+          .select('id, name, area')
+          .order('name');
+
+        if (error) throw error;
+
+        setStores(data.map((store: StoreOptionRow) => ({
+          value: store.id,
+          label: `${store.name}${store.area ? ` (${store.area})` : ''}`,
+        })));
+      } catch (error) {
+        console.error('Failed to fetch stores:', error);
+      }
+    }
+
+    fetchStores();
+  }, []);
+
+  const loadTargets = useCallback(async () => {
+    setLoading(true);
+    try {
+      const start = `${month}-01`;
+      const end = `${month}-${String(getDaysInMonth(start)).padStart(2, '0')}`;
+      const params = new URLSearchParams({ start, end });
+      if (storeFilter) params.set('store_ids', storeFilter);
+
+      const response = await fetch(`/api/targets?${params.toString()}`);
+      const result: APIResponse<SalesTarget[] | null> = await response.json();
+
+      if (!response.ok || !result.data) {
+        throw new Error(result.message || 'Failed to load sales targets');
+      }
+
+      setTargets(result.data);
+    } catch (err) {
+      console.error('Sales targets load error:', err);
+      setError(err instanceof Error ? err.message : '売上目標の取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, [month, storeFilter]);
+
+  useEffect(() => {
+    loadTargets();
+  }, [loadTargets]);
+
+  const storeNames = useMemo(() => new Map(stores.map(store => [store.value, store.label])), [stores]);
+
+  const handleInputChange = (field: keyof TargetFormState, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const startEdit = (target: SalesTarget) => {
+    setEditingTarget(target);
+    setFormData({
+      period_type: target.period_type,
+      month: target.target_date.slice(0, 7),
+      date: target.target_date,
+      store_id: target.store_id,
+      department: target.department || '',
+      product_category: target.product_category || '',
+      revenue_target: target.revenue_target === null ? '' : String(target.revenue_target),
+      footfall_target: target.footfall_target === null ? '' : String(target.footfall_target),
+    });
+    setErrors({});
+    setMessage(null);
+    setError(null);
+  };
+
+  const resetForm = () => {
+    setEditingTarget(null);
+    setFormData(emptyForm(month));
+    setErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    const payload: SalesTargetInputForm = {
+      period_type: formData.period_type,
+      target_date: formData.period_type === 'monthly' ? `${formData.month}-01` : formData.date,
+      store_id: formData.store_id,
+      department: formData.department || null,
+      product_category: formData.product_category || null,
+      revenue_target: formData.revenue_target === '' ? null : Number(formData.revenue_target),
+      footfall_target: formData.footfall_target === '' ? null : Number(formData.footfall_target),
+      ...(editingTarget ? { updated_at: editingTarget.updated_at } : {}),
+    };
+
+    const validationErrors = validateSalesTargetForm(payload);
+    if (validationErrors.length > 0) {
+      setErrors(toErrorMap(validationErrors, formData.period_type));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(editingTarget ? `/api/targets/${editingTarget.id}` : '/api/targets', {
+        method: editingTarget ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const result: APIResponse<SalesTarget | ValidationError[] | null> = await response.json();
+
+      if (!response.ok) {
+        if (response.status === 400 && Array.isArray(result.data)) {
+          setErrors(toErrorMap(result.data, formData.period_type));
+        }
+        throw new Error(result.message || 'Failed to save sales target');
+      }
+
+      setMessage(result.message || '売上目標を保存しました');
+      resetForm();
+      await loadTargets();
+    } catch (err) {
+      console.error('Sales target save error:', err);
+      setError(err instanceof Error ? err.message : '売上目標の保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (target: SalesTarget) => {
+    if (!window.confirm(`${storeNames.get(target.store_id) || target.store_id} の ${describePeriod(target)} の目標を削除しますか？`)) {
+      return;
+    }
+
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/targets/${target.id}`, { method: 'DELETE' });
+      const result: APIResponse<null> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to delete sales target');
+      }
+
+      setMessage(result.message || '売上目標を削除しました');
+      if (editingTarget?.id === target.id) resetForm();
+      await loadTargets();
+    } catch (err) {
+      console.error('Sales target delete error:', err);
+      setError(err instanceof Error ? err.message : '売上目標の削除に失敗しました');
+    }
+  };
+
+  return (
+    <AdminGuard
+      fallback={
+        <div className="max-w-5xl mx-auto bg-white p-6 rounded-lg shadow-lg">
+          <p className="text-sm text-gray-600">売上目標の設定は管理者のみ利用できます</p>
+        </div>
+      }
+    >
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">売上目標設定</h2>
+          <p className="text-sm text-gray-600 mb-6">
+            店舗・部門・商品カテゴリごとに月次または日次の売上・客数目標を設定します。
+            日次目標がない日は月次目標を月の日数で按分してダッシュボードに表示します。
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Select
+                label="期間種別"
+                options={PERIOD_TYPE_OPTIONS}
+                value={formData.period_type}
+                onChange={(e) => handleInputChange('period_type', e.target.value)}
+              />
+              {formData.period_type === 'monthly' ? (
+                <Input
+                  type="month"
+                  label="対象月"
+                  value={formData.month}
+                  onChange={(e) => handleInputChange('month', e.target.value)}
+                  error={errors.month}
+                  required
+                />
+              ) : (
+                <Input
+                  type="date"
+                  label="対象日"
+                  value={formData.date}
+                  onChange={(e) => handleInputChange('date', e.target.value)}
+                  error={errors.date}
+                  required
+                />
+              )}
+              <Select
+                label="店舗"
+                options={stores}
+                value={formData.store_id}
+                onChange={(e) => handleInputChange('store_id', e.target.value)}
+                error={errors.store_id}
+                placeholder="店舗を選択してください"
+                required
+              />
+              <Select
+                label="部門"
+                options={[ALL_OPTION, ...toMasterOptions(departments, [formData.department])]}
+                value={formData.department}
+                onChange={(e) => handleInputChange('department', e.target.value)}
+              />
+              <Select
+                label="商品カテゴリ"
+                options={[ALL_OPTION, ...toMasterOptions(categories, [formData.product_category])]}
+                value={formData.product_category}
+                onChange={(e) => handleInputChange('product_category', e.target.value)}
+              />
+              <div />
+              <Input
+                type="number"
+                label="売上目標（税抜・円）"
+                value={formData.revenue_target}
+                onChange={(e) => handleInputChange('revenue_target', e.target.value)}
+                error={errors.revenue_target}
+                min="0"
+                step="1"
+              />
+              <Input
+                type="number"
+                label="客数目標（人）"
+                value={formData.footfall_target}
+                onChange={(e) => handleInputChange('footfall_target', e.target.value)}
+                error={errors.footfall_target}
+                min="0"
+                step="1"
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="text-red-800 text-sm">{error}</p>
+              </div>
+            )}
+
+            {message && (
+              <div className="bg-green-50 border border-green-200 rounded-md p-3">
+                <p className="text-green-800 text-sm">{message}</p>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-4">
+              {editingTarget && (
+                <Button type="button" variant="outline" onClick={resetForm} disabled={saving}>
+                  キャンセル
+                </Button>
+              )}
+              <Button type="submit" loading={saving} disabled={saving}>
+                {editingTarget ? '更新' : '登録'}
+              </Button>
+            </div>
+          </form>
+        </div>
+
+        <SalesTargetImportForm onSuccess={() => loadTargets()} />
+
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">登録済み目標</h3>
+            <div className="flex gap-4">
+              <Input
+                type="month"
+                label="対象月"
+                value={month}
+                onChange={(e) => setMonth(e.target.value)}
+              />
+              <Select
+                label="店舗"
+                options={[ALL_OPTION, ...stores]}
+                value={storeFilter}
+                onChange={(e) => setStoreFilter(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {loading ? (
+            <p className="text-sm text-gray-500">読み込み中...</p>
+          ) : targets.length === 0 ? (
+            <p className="text-sm text-gray-500">この月の目標は登録されていません</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">期間</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">店舗</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">対象</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-700">売上目標</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-700">客数目標</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {targets.map(target => (
+                  <tr key={target.id} className={editingTarget?.id === target.id ? 'bg-primary-50' : undefined}>
+                    <td className="px-4 py-2 whitespace-nowrap">{describePeriod(target)}</td>
+                    <td className="px-4 py-2">{storeNames.get(target.store_id) || target.store_id}</td>
+                    <td className="px-4 py-2">{describeScope(target, departments, categories)}</td>
+                    <td className="px-4 py-2 text-right">
+                      {target.revenue_target === null ? '-' : formatCurrency(target.revenue_target)}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {target.footfall_target === null ? '-' : `${target.footfall_target.toLocaleString()}人`}
+                    </td>
+                    <td className="px-4 py-2 text-right space-x-2 whitespace-nowrap">
+                      <Button type="button" variant="outline" size="sm" onClick={() => startEdit(target)}>
+                        編集
+                      </Button>
+                      <Button type="button" variant="outline" size="sm" onClick={() => handleDelete(target)}>
+                        削除
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </AdminGuard>
+  );
+}
+
+function emptyForm(month: string): TargetFormState {
+  return {
+    period_type: 'monthly',
+    month,
+    date: '',
+    store_id: '',
+    department: '',
+    product_category: '',
+    revenue_target: '',
+    footfall_target: '',
+  };
+}
+
+function describePeriod(target: Pick<SalesTarget, 'period_type' | 'target_date'>): string {
+  return target.period_type === 'monthly'
+    ? `${target.target_date.slice(0, 7)}（月次）`
+    : target.target_date;
+}
+
+function describeScope(
+  target: Pick<SalesTarget, 'department' | 'product_category'>,
+  departments: MasterDataItem[],
+  categories: MasterDataItem[]
+): string {
+  const department = getMasterLabel(departments, target.department);
+  const category = getMasterLabel(categories, target.product_category);
+  return [department, category].filter(Boolean).join(' / ') || 'すべて';
+}
+
+// 対象日のエラーは入力中の項目（対象月／対象日）に表示する
+function toErrorMap(errors: ValidationError[], periodType: SalesTargetPeriodType): Record<string, string> {
+  const errorMap: Record<string, string> = {};
+  errors.forEach(({ field, message }) => {
+    const key = field === 'target_date' ? (periodType === 'monthly' ? 'month' : 'date') : field;
+    errorMap[key] = message;
+  });
+  return errorMap;
+}
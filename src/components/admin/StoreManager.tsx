@@ -0,0 +1,547 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { AdminGuard } from '@/components/rbac/RBACGuard';
+import {
+  STORE_CLOSURE_REASONS,
+  STORE_CLOSURE_REASON_LABELS,
+  STORE_TYPES,
+  STORE_TYPE_LABELS,
+  StoreClosurePeriod,
+  StoreItem,
+  StoreWithClosures,
+} from '@/lib/store-lifecycle';
+import { validateStoreClosurePeriodForm, validateStoreForm } from '@/lib/validations/stores';
+import {
+  APIResponse,
+  StoreClosurePeriodInputForm,
+  StoreClosureReason,
+  StoreInputForm,
+  StoreType,
+  ValidationError,
+} from '@/types/database.types';
+
+// 入力中の値（売場面積は文字列で保持する）
+interface StoreFormState {
+  name: string;
+  area: string;
+  address: string;
+  store_type: string;
+  floor_area_sqm: string;
+  opened_on: string;
+  closed_on: string;
+}
+
+interface ClosureFormState {
+  start_date: string;
+  end_date: string;
+  reason: StoreClosureReason;
+  note: string;
+}
+
+const EMPTY_FORM: StoreFormState = {
+  name: '',
+  area: '',
+  address: '',
+  store_type: '',
+  floor_area_sqm: '',
+  opened_on: '',
+  closed_on: '',
+};
+
+const EMPTY_CLOSURE_FORM: ClosureFormState = {
+  start_date: '',
+  end_date: '',
+  reason: 'renovation',
+  note: '',
+};
+
+const STORE_TYPE_OPTIONS = [
+  { value: '', label: '未設定' },
+  ...STORE_TYPES.map(type => ({ value: type, label: STORE_TYPE_LABELS[type] })),
+];
+
+const CLOSURE_REASON_OPTIONS = STORE_CLOSURE_REASONS.map(reason => ({
+  value: reason,
+  label: STORE_CLOSURE_REASON_LABELS[reason],
+}));
+
+// 店舗マスター（開店日・閉店日・改装/休業期間・売場面積・店舗タイプ）の管理（管理者向け）
+export function StoreManager() {
+  const [stores, setStores] = useState<StoreWithClosures[]>([]);
+  const [formData, setFormData] = useState<StoreFormState>(EMPTY_FORM);
+  const [editingStore, setEditingStore] = useState<StoreWithClosures | null>(null);
+  const [closureStoreId, setClosureStoreId] = useState<string | null>(null);
+  const [closureForm, setClosureForm] = useState<ClosureFormState>(EMPTY_CLOSURE_FORM);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [closureErrors, setClosureErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const closureStore = stores.find(store => store.id === closureStoreId) || null;
+
+  const loadStores = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/stores');
+      const result: APIResponse<StoreWithClosures[] | null> = await response.json();
+
+      if (!response.ok || !result.data) {
+        throw new Error(result.message || 'Failed to load stores');
+      }
+
+      setStores(result.data);
+    } catch (err) {
+      console.error('Stores load error:', err);
+      setError(err instanceof Error ? err.message : '店舗の取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStores();
+  }, [loadStores]);
+
+  const handleInputChange = (field: keyof StoreFormState, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const handleClosureInputChange = (field: keyof ClosureFormState, value: string) => {
+    setClosureForm(prev => ({ ...prev, [field]: value }));
+    if (closureErrors[field]) {
+      setClosureErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const resetForm = () => {
+    setEditingStore(null);
+    setFormData(EMPTY_FORM);
+    setErrors({});
+  };
+
+  const startEdit = (store: StoreWithClosures) => {
+    setEditingStore(store);
+    setFormData({
+      name: store.name,
+      area: store.area || '',
+      address: store.address || '',
+      store_type: store.store_type || '',
+      floor_area_sqm: store.floor_area_sqm === null ? '' : String(store.floor_area_sqm),
+      opened_on: store.opened_on || '',
+      closed_on: store.closed_on || '',
+    });
+    setErrors({});
+    setMessage(null);
+    setError(null);
+  };
+
+  const openClosures = (store: StoreWithClosures) => {
+    setClosureStoreId(closureStoreId === store.id ? null : store.id);
+    setClosureForm(EMPTY_CLOSURE_FORM);
+    setClosureErrors({});
+    setMessage(null);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    const payload: StoreInputForm = {
+      name: formData.name.trim(),
+      area: formData.area.trim() || null,
+      address: formData.address.trim() || null,
+      store_type: (formData.store_type || null) as StoreType | null,
+      floor_area_sqm: formData.floor_area_sqm === '' ? null : Number(formData.floor_area_sqm),
+      opened_on: formData.opened_on || null,
+      closed_on: formData.closed_on || null,
+      ...(editingStore ? { updated_at: editingStore.updated_at } : {}),
+    };
+
+    const validationErrors = validateStoreForm(payload);
+    if (validationErrors.length > 0) {
+      setErrors(toErrorMap(validationErrors));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(editingStore ? `/api/stores/${editingStore.id}` : '/api/stores', {
+        method: editingStore ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const result: APIResponse<StoreItem | ValidationError[] | null> = await response.json();
+
+      if (!response.ok) {
+        if (response.status === 400 && Array.isArray(result.data)) {
+          setErrors(toErrorMap(result.data));
+        }
+        throw new Error(result.message || 'Failed to save store');
+      }
+
+      setMessage(result.message || '店舗を保存しました');
+      resetForm();
+      await loadStores();
+    } catch (err) {
+      console.error('Store save error:', err);
+      setError(err instanceof Error ? err.message : '店舗の保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (store: StoreWithClosures) => {
+    if (!window.confirm(`店舗「${store.name}」を削除しますか？`)) {
+      return;
+    }
+
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/stores/${store.id}`, { method: 'DELETE' });
+      const result: APIResponse<StoreItem | null> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to delete store');
+      }
+
+      setMessage(result.message || '店舗を削除しました');
+      if (editingStore?.id === store.id) resetForm();
+      if (closureStoreId === store.id) setClosureStoreId(null);
+      await loadStores();
+    } catch (err) {
+      console.error('Store delete error:', err);
+      setError(err instanceof Error ? err.message : '店舗の削除に失敗しました');
+    }
+  };
+
+  const handleClosureSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!closureStore) return;
+
+    setMessage(null);
+    setError(null);
+
+    const payload: StoreClosurePeriodInputForm = {
+      start_date: closureForm.start_date,
+      end_date: closureForm.end_date,
+      reason: closureForm.reason,
+      note: closureForm.note.trim() || null,
+    };
+
+    const validationErrors = validateStoreClosurePeriodForm(payload);
+    if (validationErrors.length > 0) {
+      setClosureErrors(toErrorMap(validationErrors));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/stores/${closureStore.id}/closures`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const result: APIResponse<StoreClosurePeriod | ValidationError[] | null> = await response.json();
+
+      if (!response.ok) {
+        if (response.status === 400 && Array.isArray(result.data)) {
+          setClosureErrors(toErrorMap(result.data));
+        }
+        throw new Error(result.message || 'Failed to save store closure period');
+      }
+
+      setMessage(result.message || '改装・休業期間を登録しました');
+      setClosureForm(EMPTY_CLOSURE_FORM);
+      await loadStores();
+    } catch (err) {
+      console.error('Store closure save error:', err);
+      setError(err instanceof Error ? err.message : '改装・休業期間の保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClosureDelete = async (closure: StoreClosurePeriod) => {
+    if (!window.confirm(`${closure.start_date} 〜 ${closure.end_date} の${STORE_CLOSURE_REASON_LABELS[closure.reason]}期間を削除しますか？`)) {
+      return;
+    }
+
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/stores/${closure.store_id}/closures/${closure.id}`, { method: 'DELETE' });
+      const result: APIResponse<null> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to delete store closure period');
+      }
+
+      setMessage(result.message || '改装・休業期間を削除しました');
+      await loadStores();
+    } catch (err) {
+      console.error('Store closure delete error:', err);
+      setError(err instanceof Error ? err.message : '改装・休業期間の削除に失敗しました');
+    }
+  };
+
+  return (
+    <AdminGuard
+      fallback={
+        <div className="max-w-6xl mx-auto bg-white p-6 rounded-lg shadow-lg">
+          <p className="text-sm text-gray-600">店舗マスターの管理は管理者のみ利用できます</p>
+        </div>
+      }
+    >
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">店舗管理</h2>
+          <p className="text-sm text-gray-600 mb-6">
+            ダッシュボードの「既存店のみ」では、開店日・閉店日・改装/休業期間から
+            前年同期・前期間を含めて営業していた店舗だけを集計します。開店日が未登録の店舗は既存店として扱います。
+            売上データのある店舗は削除できないため、閉店した場合は閉店日を登録してください。
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Input
+                type="text"
+                label="店舗名"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                error={errors.name}
+                required
+              />
+              <Input
+                type="text"
+                label="エリア"
+                value={formData.area}
+                onChange={(e) => handleInputChange('area', e.target.value)}
+                error={errors.area}
+                placeholder="例: 関東"
+              />
+              <Input
+                type="text"
+                label="住所"
+                value={formData.address}
+                onChange={(e) => handleInputChange('address', e.target.value)}
+                error={errors.address}
+              />
+              <Select
+                label="店舗タイプ"
+                options={STORE_TYPE_OPTIONS}
+                value={formData.store_type}
+                onChange={(e) => handleInputChange('store_type', e.target.value)}
+                error={errors.store_type}
+              />
+              <Input
+                type="number"
+                label="売場面積（㎡）"
+                value={formData.floor_area_sqm}
+                onChange={(e) => handleInputChange('floor_area_sqm', e.target.value)}
+                error={errors.floor_area_sqm}
+                min="0"
+                step="0.01"
+              />
+              <div />
+              <Input
+                type="date"
+                label="開店日"
+                value={formData.opened_on}
+                onChange={(e) => handleInputChange('opened_on', e.target.value)}
+                error={errors.opened_on}
+                hint="空欄の場合は既存店として扱う"
+              />
+              <Input
+                type="date"
+                label="閉店日"
+                value={formData.closed_on}
+                onChange={(e) => handleInputChange('closed_on', e.target.value)}
+                error={errors.closed_on}
+                hint="この日以降は営業していない"
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="text-red-800 text-sm">{error}</p>
+              </div>
+            )}
+
+            {message && (
+              <div className="bg-green-50 border border-green-200 rounded-md p-3">
+                <p className="text-green-800 text-sm">{message}</p>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-4">
+              {editingStore && (
+                <Button type="button" variant="outline" onClick={resetForm} disabled={saving}>
+                  キャンセル
+                </Button>
+              )}
+              <Button type="submit" loading={saving} disabled={saving}>
+                {editingStore ? '更新' : '登録'}
+              </Button>
+            </div>
+          </form>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">登録済みの店舗</h3>
+          {loading ? (
+            <p className="text-sm text-gray-500">読み込み中...</p>
+          ) : stores.length === 0 ? (
+            <p className="text-sm text-gray-500">店舗が登録されていません</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">店舗名</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">エリア</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">タイプ</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-700">売場面積</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">営業期間</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-700">改装・休業</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {stores.map(store => (
+                  <tr key={store.id} className={editingStore?.id === store.id ? 'bg-primary-50' : undefined}>
+                    <td className="px-4 py-2">{store.name}</td>
+                    <td className="px-4 py-2 text-gray-600">{store.area || '-'}</td>
+                    <td className="px-4 py-2">{store.store_type ? STORE_TYPE_LABELS[store.store_type] : '-'}</td>
+                    <td className="px-4 py-2 text-right">
+                      {store.floor_area_sqm === null ? '-' : `${Number(store.floor_area_sqm).toLocaleString()}㎡`}
+                    </td>
+                    <td className="px-4 py-2">
+                      {store.opened_on || '未登録'} 〜 {store.closed_on || ''}
+                    </td>
+                    <td className="px-4 py-2 text-right">{store.closures.length}件</td>
+                    <td className="px-4 py-2 text-right space-x-2 whitespace-nowrap">
+                      <Button type="button" variant="outline" size="sm" onClick={() => startEdit(store)}>
+                        編集
+                      </Button>
+                      <Button type="button" variant="outline" size="sm" onClick={() => openClosures(store)}>
+                        改装・休業
+                      </Button>
+                      <Button type="button" variant="outline" size="sm" onClick={() => handleDelete(store)}>
+                        削除
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {closureStore && (
+          <div className="bg-white p-6 rounded-lg shadow-lg">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              {closureStore.name} の改装・休業期間
+            </h3>
+
+            <form onSubmit={handleClosureSubmit} className="space-y-4 mb-6">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <Input
+                  type="date"
+                  label="開始日"
+                  value={closureForm.start_date}
+                  onChange={(e) => handleClosureInputChange('start_date', e.target.value)}
+                  error={closureErrors.start_date}
+                  required
+                />
+                <Input
+                  type="date"
+                  label="終了日"
+                  value={closureForm.end_date}
+                  onChange={(e) => handleClosureInputChange('end_date', e.target.value)}
+                  error={closureErrors.end_date}
+                  required
+                />
+                <Select
+                  label="理由"
+                  options={CLOSURE_REASON_OPTIONS}
+                  value={closureForm.reason}
+                  onChange={(e) => handleClosureInputChange('reason', e.target.value)}
+                  error={closureErrors.reason}
+                />
+                <Input
+                  type="text"
+                  label="備考"
+                  value={closureForm.note}
+                  onChange={(e) => handleClosureInputChange('note', e.target.value)}
+                  error={closureErrors.note}
+                  placeholder="例: 全面改装"
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" loading={saving} disabled={saving}>
+                  期間を追加
+                </Button>
+              </div>
+            </form>
+
+            {closureStore.closures.length === 0 ? (
+              <p className="text-sm text-gray-500">改装・休業期間は登録されていません</p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-700">期間</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-700">理由</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-700">備考</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {closureStore.closures.map(closure => (
+                    <tr key={closure.id}>
+                      <td className="px-4 py-2">{closure.start_date} 〜 {closure.end_date}</td>
+                      <td className="px-4 py-2">{STORE_CLOSURE_REASON_LABELS[closure.reason]}</td>
+                      <td className="px-4 py-2 text-gray-600">{closure.note || '-'}</td>
+                      <td className="px-4 py-2 text-right">
+                        <Button type="button" variant="outline" size="sm" onClick={() => handleClosureDelete(closure)}>
+                          削除
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+    </AdminGuard>
+  );
+}
+
+function toErrorMap(errors: ValidationError[]): Record<string, string> {
+  const errorMap: Record<string, string> = {};
+  errors.forEach(({ field, message }) => {
+    errorMap[field] = message;
+  });
+  return errorMap;
+}
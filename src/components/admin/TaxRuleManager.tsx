@@ -0,0 +1,326 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { AdminGuard } from '@/components/rbac/RBACGuard';
+import { useMasterData } from '@/hooks/useMasterData';
+import { MasterDataItem, getMasterLabel, toMasterOptions } from '@/lib/master-data';
+import { TaxRule, formatTaxRate } from '@/lib/tax';
+import { validateTaxRuleForm } from '@/lib/validations/tax-rules';
+import { APIResponse, TaxRuleInputForm, ValidationError } from '@/types/database.types';
+
+// 入力中の値（税率は % で入力する）
+interface TaxRuleFormState {
+  department: string;
+  product_category: string;
+  ratePercent: string;
+  valid_from: string;
+  valid_to: string;
+  description: string;
+}
+
+const EMPTY_FORM: TaxRuleFormState = {
+  department: '',
+  product_category: '',
+  ratePercent: '',
+  valid_from: '',
+  valid_to: '',
+  description: '',
+};
+
+const ALL_OPTION = { value: '', label: 'すべて' };
+
+// 税率ルールの一覧・登録・編集・削除（管理者向け）
+export function TaxRuleManager() {
+  const [rules, setRules] = useState<TaxRule[]>([]);
+  const [formData, setFormData] = useState<TaxRuleFormState>(EMPTY_FORM);
+  const [editingRule, setEditingRule] = useState<TaxRule | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { departments, categories } = useMasterData();
+
+  const loadRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/tax-rules');
+      const result: APIResponse<TaxRule[] | null> = await response.json();
+
+      if (!response.ok || !result.data) {
+        throw new Error(result.message || 'Failed to load tax rules');
+      }
+
+      setRules(result.data);
+    } catch (err) {
+      console.error('Tax rules load error:', err);
+      setError(err instanceof Error ? err.message : '税率ルールの取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const handleInputChange = (field: keyof TaxRuleFormState, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const startEdit = (rule: TaxRule) => {
+    setEditingRule(rule);
+    setFormData({
+      department: rule.department || '',
+      product_category: rule.product_category || '',
+      ratePercent: String(Number((rule.rate * 100).toFixed(2))),
+      valid_from: rule.valid_from,
+      valid_to: rule.valid_to || '',
+      description: rule.description || '',
+    });
+    setErrors({});
+    setMessage(null);
+    setError(null);
+  };
+
+  const resetForm = () => {
+    setEditingRule(null);
+    setFormData(EMPTY_FORM);
+    setErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    const payload: TaxRuleInputForm = {
+      department: formData.department || null,
+      product_category: formData.product_category || null,
+      rate: formData.ratePercent === '' ? NaN : Number(formData.ratePercent) / 100,
+      valid_from: formData.valid_from,
+      valid_to: formData.valid_to || null,
+      description: formData.description,
+      ...(editingRule ? { updated_at: editingRule.updated_at } : {}),
+    };
+
+    const validationErrors = validateTaxRuleForm(payload);
+    if (validationErrors.length > 0) {
+      setErrors(toErrorMap(validationErrors, 'rate', 'ratePercent'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(editingRule ? `/api/tax-rules/${editingRule.id}` : '/api/tax-rules', {
+        method: editingRule ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const result: APIResponse<TaxRule | ValidationError[] | null> = await response.json();
+
+      if (!response.ok) {
+        if (response.status === 400 && Array.isArray(result.data)) {
+          setErrors(toErrorMap(result.data, 'rate', 'ratePercent'));
+        }
+        throw new Error(result.message || 'Failed to save tax rule');
+      }
+
+      setMessage(result.message || '税率ルールを保存しました');
+      resetForm();
+      await loadRules();
+    } catch (err) {
+      console.error('Tax rule save error:', err);
+      setError(err instanceof Error ? err.message : '税率ルールの保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: TaxRule) => {
+    if (!window.confirm(`${describeScope(rule, departments, categories)}（${formatTaxRate(rule.rate)}）のルールを削除しますか？`)) {
+      return;
+    }
+
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/tax-rules/${rule.id}`, { method: 'DELETE' });
+      const result: APIResponse<null> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to delete tax rule');
+      }
+
+      setMessage(result.message || '税率ルールを削除しました');
+      if (editingRule?.id === rule.id) resetForm();
+      await loadRules();
+    } catch (err) {
+      console.error('Tax rule delete error:', err);
+      setError(err instanceof Error ? err.message : '税率ルールの削除に失敗しました');
+    }
+  };
+
+  return (
+    <AdminGuard
+      fallback={
+        <div className="max-w-5xl mx-auto bg-white p-6 rounded-lg shadow-lg">
+          <p className="text-sm text-gray-600">消費税率の設定は管理者のみ利用できます</p>
+        </div>
+      }
+    >
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">消費税率設定</h2>
+          <p className="text-sm text-gray-600 mb-6">
+            部門・商品カテゴリごとに適用期間付きで税率を設定します。複数該当する場合は
+            「部門+カテゴリ」「カテゴリ」「部門」「すべて」の順に優先されます。
+            ルール変更後の既存データは <code className="bg-gray-100 px-1 rounded">npm run tax:backfill</code> で再計算してください。
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Select
+                label="部門"
+                options={[ALL_OPTION, ...toMasterOptions(departments, [formData.department])]}
+                value={formData.department}
+                onChange={(e) => handleInputChange('department', e.target.value)}
+              />
+              <Select
+                label="商品カテゴリ"
+                options={[ALL_OPTION, ...toMasterOptions(categories, [formData.product_category])]}
+                value={formData.product_category}
+                onChange={(e) => handleInputChange('product_category', e.target.value)}
+              />
+              <Input
+                type="number"
+                label="税率（%）"
+                value={formData.ratePercent}
+                onChange={(e) => handleInputChange('ratePercent', e.target.value)}
+                error={errors.ratePercent}
+                min="0"
+                max="99.99"
+                step="0.01"
+                required
+              />
+              <Input
+                type="date"
+                label="適用開始日"
+                value={formData.valid_from}
+                onChange={(e) => handleInputChange('valid_from', e.target.value)}
+                error={errors.valid_from}
+                required
+              />
+              <Input
+                type="date"
+                label="適用終了日"
+                value={formData.valid_to}
+                onChange={(e) => handleInputChange('valid_to', e.target.value)}
+                error={errors.valid_to}
+                hint="空欄の場合は無期限"
+              />
+              <Input
+                type="text"
+                label="説明"
+                value={formData.description}
+                onChange={(e) => handleInputChange('description', e.target.value)}
+                error={errors.description}
+                placeholder="例: 軽減税率（飲食料品）"
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="text-red-800 text-sm">{error}</p>
+              </div>
+            )}
+
+            {message && (
+              <div className="bg-green-50 border border-green-200 rounded-md p-3">
+                <p className="text-green-800 text-sm">{message}</p>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-4">
+              {editingRule && (
+                <Button type="button" variant="outline" onClick={resetForm} disabled={saving}>
+                  キャンセル
+                </Button>
+              )}
+              <Button type="submit" loading={saving} disabled={saving}>
+                {editingRule ? '更新' : '登録'}
+              </Button>
+            </div>
+          </form>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">登録済みルール</h3>
+          {loading ? (
+            <p className="text-sm text-gray-500">読み込み中...</p>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-gray-500">税率ルールが登録されていません</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">対象</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-700">税率</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">適用期間</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">説明</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rules.map(rule => (
+                  <tr key={rule.id} className={editingRule?.id === rule.id ? 'bg-primary-50' : undefined}>
+                    <td className="px-4 py-2">{describeScope(rule, departments, categories)}</td>
+                    <td className="px-4 py-2 text-right font-medium">{formatTaxRate(rule.rate)}</td>
+                    <td className="px-4 py-2">{rule.valid_from} 〜 {rule.valid_to || ''}</td>
+                    <td className="px-4 py-2 text-gray-600">{rule.description || '-'}</td>
+                    <td className="px-4 py-2 text-right space-x-2 whitespace-nowrap">
+                      <Button type="button" variant="outline" size="sm" onClick={() => startEdit(rule)}>
+                        編集
+                      </Button>
+                      <Button type="button" variant="outline" size="sm" onClick={() => handleDelete(rule)}>
+                        削除
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </AdminGuard>
+  );
+}
+
+function describeScope(
+  rule: Pick<TaxRule, 'department' | 'product_category'>,
+  departments: MasterDataItem[],
+  categories: MasterDataItem[]
+): string {
+  const department = getMasterLabel(departments, rule.department);
+  const category = getMasterLabel(categories, rule.product_category);
+  return [department, category].filter(Boolean).join(' / ') || 'すべて';
+}
+
+function toErrorMap(errors: ValidationError[], from: string, to: string): Record<string, string> {
+  const errorMap: Record<string, string> = {};
+  errors.forEach(({ field, message }) => {
+    errorMap[field === from ? to : field] = message;
+  });
+  return errorMap;
+}
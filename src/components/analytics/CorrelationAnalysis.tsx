@@ -26,6 +26,7 @@ import {
   Calendar as CalendarIcon
 } from 'lucide-react';
 import { z } from 'zod';
+import { SALES_CHANNELS, SALES_CHANNEL_LABELS } from '@/lib/sales-channels';
 
 // 分析フィルタースキーマ
 const CorrelationFiltersSchema = z.object({
@@ -34,6 +35,8 @@ const CorrelationFiltersSchema = z.object({
   storeId: z.string().optional(),
   department: z.string().optional(),
   category: z.string().optional(),
+  channel: z.string().optional(),
+  excludeCampaignDays: z.boolean().optional(),
 });
 
 type CorrelationFilters = z.infer<typeof CorrelationFiltersSchema>;
@@ -81,6 +84,7 @@ interface ComparisonData {
   dayOfWeek: string;
   weather?: string;
   hasEvent?: boolean;
+  hasCampaign?: boolean;
 }
 
 interface AnalysisResults {
@@ -291,7 +295,7 @@ export default function CorrelationAnalysis({
             <h3 className="text-lg font-medium text-gray-900">フィルター設定</h3>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div>
               <label className="block text-sm text-gray-600 mb-1">
                 <Building2 className="w-4 h-4 inline mr-1" />
@@ -334,7 +338,27 @@ export default function CorrelationAnalysis({
                 ))}
               </select>
             </div>
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">チャネル</label>
+              <select
+                {...register('channel')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">全チャネル</option>
+                {SALES_CHANNELS.map(channel => (
+                  <option key={channel} value={channel}>{SALES_CHANNEL_LABELS[channel]}</option>
+                ))}
+              </select>
+            </div>
           </div>
+          <label className="flex items-center gap-2 mt-4 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              {...register('excludeCampaignDays')}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            キャンペーン実施日を除外して分析
+          </label>
         </div>
 
         {/* 分析制限情報 */}
@@ -448,6 +472,8 @@ export default function CorrelationAnalysis({
                       {corr.factor.includes('雨') && <CloudRain className="w-4 h-4 text-gray-600" />}
                       {corr.factor.includes('曜日') && <CalendarIcon className="w-4 h-4 text-purple-500" />}
                       {corr.factor.includes('イベント') && <Activity className="w-4 h-4 text-green-500" />}
+                      {corr.factor.includes('人時') && <Clock className="w-4 h-4 text-indigo-500" />}
+                      {corr.factor.includes('キャンペーン') && <TrendingUp className="w-4 h-4 text-pink-500" />}
                       <span className="font-medium">{corr.factor}</span>
                     </div>
                     <span className="text-sm text-gray-600">
@@ -1,15 +1,24 @@
 'use client'
 
 import { useState } from 'react'
-import { DashboardFilters } from '@/types/database.types'
+import { DashboardFilters, LikeForLikeScope, SalesChannel } from '@/types/database.types'
 import { format, subDays, startOfMonth, endOfMonth, subMonths, startOfYear, endOfYear } from 'date-fns'
-import { Calendar, Store, Building, Package } from 'lucide-react'
+import { Calendar, Store, Building, Package, ShoppingBag, CheckCircle } from 'lucide-react'
+import {
+  DEFAULT_SALES_STATUS_FILTER,
+  SALES_STATUS_FILTER_LABELS,
+  isSalesStatusFilter
+} from '@/lib/sales-status'
+import { SALES_CHANNELS, SALES_CHANNEL_LABELS } from '@/lib/sales-channels'
+import { toMasterOptions } from '@/lib/master-data'
+import { useMasterData } from '@/hooks/useMasterData'
 
 interface DashboardFiltersProps {
   filters: DashboardFilters
   stores: any[]
   onFiltersChange: (filters: DashboardFilters) => void
   disabled?: boolean
+  likeForLikeScope?: LikeForLikeScope | null
 }
 
 interface FilterPreset {
@@ -22,9 +31,11 @@ export function DashboardFilters({
   filters, 
   stores, 
   onFiltersChange, 
-  disabled = false 
+  disabled = false,
+  likeForLikeScope
 }: DashboardFiltersProps) {
   const [selectedPreset, setSelectedPreset] = useState('current-month')
+  const { departments, categories } = useMasterData()
 
   const filterPresets: FilterPreset[] = [
     {
@@ -102,14 +113,45 @@ export function DashboardFilters({
     })
   }
 
-  // Mock departments data (in real app, this would come from props or API)
-  const mockDepartments = [
-    '食品',
-    '衣料',
-    '雑貨',
-    '家電',
-    'サービス'
-  ]
+  const handleSalesStatusChange = (value: string) => {
+    if (!isSalesStatusFilter(value)) return
+    onFiltersChange({
+      ...filters,
+      salesStatus: value
+    })
+  }
+
+  const handleLikeForLikeChange = (likeForLike: boolean) => {
+    onFiltersChange({
+      ...filters,
+      likeForLike: likeForLike || undefined
+    })
+  }
+
+  const handleCategoryChange = (productCategories: string[]) => {
+    onFiltersChange({
+      ...filters,
+      productCategories: productCategories.length > 0 ? productCategories : undefined
+    })
+  }
+
+  // チャネルはすべて選択した場合も未指定（全チャネル）として扱う
+  const handleChannelToggle = (channel: SalesChannel, checked: boolean) => {
+    const selected = filters.channels || SALES_CHANNELS
+    const channels = SALES_CHANNELS.filter(value => value === channel ? checked : selected.includes(value))
+    onFiltersChange({
+      ...filters,
+      channels: channels.length > 0 && channels.length < SALES_CHANNELS.length ? channels : undefined
+    })
+  }
+
+  // 部門・商品カテゴリの選択肢（無効化済みでも選択中のものは残す）
+  const departmentOptions = toMasterOptions(departments, filters.departments)
+  const categoryOptions = toMasterOptions(categories, filters.productCategories)
+
+  // 既存店モードで除外された店舗名（開店・閉店・改装で比較期間を通して営業していない店舗）
+  const excludedStoreNames = (likeForLikeScope?.excludedStoreIds || [])
+    .map(id => stores.find(store => store.id === id)?.name || id)
 
   return (
     <div className="mb-6 p-4 bg-white rounded-lg shadow-sm border border-gray-200">
@@ -118,7 +160,7 @@ export function DashboardFilters({
         ダッシュボードフィルタ
       </h3>
       
-      <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 lg:grid-cols-6 gap-4">
         {/* Period Selection */}
         <div>
           <label className="block text-sm font-medium text-gray-600 mb-2">
@@ -208,15 +250,43 @@ export function DashboardFilters({
             value={filters.departments || []}
             onChange={(e) => {
               const selectedOptions = Array.from(e.target.selectedOptions, option => option.value)
-              handleDepartmentChange(selectedOptions)
+              handleDepartmentChange(selectedOptions.filter(Boolean))
             }}
             disabled={disabled}
             className="input text-sm h-20"
           >
             <option value="">全部門</option>
-            {mockDepartments.map((dept) => (
-              <option key={dept} value={dept}>
-                {dept}
+            {departmentOptions.map((dept) => (
+              <option key={dept.value} value={dept.value}>
+                {dept.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            Ctrl/Cmd + クリックで複数選択
+          </p>
+        </div>
+
+        {/* Product Category Selection */}
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-2 flex items-center">
+            <Package className="h-4 w-4 mr-1" />
+            商品カテゴリ
+          </label>
+          <select
+            multiple
+            value={filters.productCategories || []}
+            onChange={(e) => {
+              const selectedOptions = Array.from(e.target.selectedOptions, option => option.value)
+              handleCategoryChange(selectedOptions.filter(Boolean))
+            }}
+            disabled={disabled}
+            className="input text-sm h-20"
+          >
+            <option value="">全カテゴリ</option>
+            {categoryOptions.map((category) => (
+              <option key={category.value} value={category.value}>
+                {category.label}
               </option>
             ))}
           </select>
@@ -224,6 +294,59 @@ export function DashboardFilters({
             Ctrl/Cmd + クリックで複数選択
           </p>
         </div>
+
+        {/* Sales Channel Selection */}
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-2 flex items-center">
+            <ShoppingBag className="h-4 w-4 mr-1" />
+            チャネル
+          </label>
+          {SALES_CHANNELS.map((channel) => (
+            <label key={channel} className="flex items-center mb-1 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={!filters.channels || filters.channels.includes(channel)}
+                onChange={(e) => handleChannelToggle(channel, e.target.checked)}
+                disabled={disabled}
+                className="h-4 w-4 mr-2 rounded border-gray-300"
+              />
+              {SALES_CHANNEL_LABELS[channel]}
+            </label>
+          ))}
+        </div>
+
+        {/* Sales Status Selection */}
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-2 flex items-center">
+            <CheckCircle className="h-4 w-4 mr-1" />
+            集計対象
+          </label>
+          <select
+            value={filters.salesStatus || DEFAULT_SALES_STATUS_FILTER}
+            onChange={(e) => handleSalesStatusChange(e.target.value)}
+            disabled={disabled}
+            className="input text-sm"
+          >
+            {Object.entries(SALES_STATUS_FILTER_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center mt-3 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={!!filters.likeForLike}
+              onChange={(e) => handleLikeForLikeChange(e.target.checked)}
+              disabled={disabled}
+              className="h-4 w-4 mr-2 rounded border-gray-300"
+            />
+            既存店のみ
+          </label>
+          <p className="text-xs text-gray-500 mt-1">
+            前年同期・前期間を含めて営業していた店舗で比較
+          </p>
+        </div>
       </div>
 
       {/* Current Filters Summary */}
@@ -246,8 +369,36 @@ export function DashboardFilters({
               🏢 {filters.departments.length}部門選択中
             </span>
           )}
+
+          {filters.productCategories && filters.productCategories.length > 0 && (
+            <span className="inline-flex items-center px-2 py-1 bg-orange-100 text-orange-800 rounded-md">
+              📦 {filters.productCategories.length}カテゴリ選択中
+            </span>
+          )}
+
+          {filters.channels && filters.channels.length > 0 && (
+            <span className="inline-flex items-center px-2 py-1 bg-pink-100 text-pink-800 rounded-md">
+              🛍️ {filters.channels.map(channel => SALES_CHANNEL_LABELS[channel]).join('・')}
+            </span>
+          )}
+
+          {filters.salesStatus === 'approved_pending' && (
+            <span className="inline-flex items-center px-2 py-1 bg-yellow-100 text-yellow-800 rounded-md">
+              ⏳ 承認待ちを含む
+            </span>
+          )}
           
-          {!filters.storeIds && !filters.departments && (
+          {filters.likeForLike && (
+            <span
+              className="inline-flex items-center px-2 py-1 bg-teal-100 text-teal-800 rounded-md"
+              title={excludedStoreNames.length > 0 ? `除外: ${excludedStoreNames.join('、')}` : undefined}
+            >
+              🏬 既存店のみ
+              {likeForLikeScope && `（${likeForLikeScope.storeIds.length}店舗・除外${likeForLikeScope.excludedStoreIds.length}店舗）`}
+            </span>
+          )}
+
+          {!filters.storeIds && !filters.departments && !filters.productCategories && !filters.channels && !filters.likeForLike && (
             <span className="inline-flex items-center px-2 py-1 bg-gray-100 text-gray-600 rounded-md">
               全データ表示中
             </span>
@@ -264,7 +415,10 @@ export function DashboardFilters({
               },
               storeIds: undefined,
               departments: undefined,
-              productCategories: undefined
+              productCategories: undefined,
+              channels: undefined,
+              salesStatus: undefined,
+              likeForLike: undefined
             })}
             disabled={disabled}
             className="text-xs text-indigo-600 hover:text-indigo-800 underline disabled:text-gray-400 disabled:no-underline"
@@ -1,15 +1,33 @@
 'use client'
 
-import { useMemo } from 'react'
-import { SalesWithCalculated } from '@/types/database.types'
-import { TrendingUp, TrendingDown, Users, ShoppingCart, DollarSign } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { DashboardFilters, SalesWithCalculated } from '@/types/database.types'
+import { SalesTarget, TargetAchievement, buildDailyTargets, summarizeTargetAchievement } from '@/lib/targets'
+import { LaborHours, buildStoreProductivityRanking, summarizeLaborProductivity } from '@/lib/labor-productivity'
+import {
+  COMPARISON_BASIS_LABELS,
+  ComparisonBasis,
+  SalesComparison,
+  calculateKPIChange
+} from '@/lib/sales-comparison'
+import { TrendingUp, TrendingDown, Users, ShoppingCart, DollarSign, Clock } from 'lucide-react'
+
+// 人時売上ランキングの表示件数
+const PRODUCTIVITY_RANKING_LIMIT = 5
 
 interface KPICardsProps {
   salesData: SalesWithCalculated[]
+  targets?: SalesTarget[]
+  laborHours?: LaborHours[]
+  comparison?: SalesComparison | null
+  filters?: DashboardFilters
   loading?: boolean
 }
 
-export function KPICards({ salesData, loading }: KPICardsProps) {
+export function KPICards({ salesData, targets, laborHours, comparison, filters, loading }: KPICardsProps) {
+  const [basis, setBasis] = useState<ComparisonBasis>('previous_period')
+
   const kpiData = useMemo(() => {
     if (!salesData || salesData.length === 0) {
       return {
@@ -43,6 +61,39 @@ export function KPICards({ salesData, loading }: KPICardsProps) {
     }
   }, [salesData])
 
+  // 目標達成状況（期間全体の目標に対する達成率と、本日までの按分目標に対するペース）
+  const targetData = useMemo(() => {
+    if (!targets || targets.length === 0 || !filters) {
+      return { revenue: null, footfall: null }
+    }
+
+    const dailyTargets = buildDailyTargets(targets, filters.dateRange, filters)
+    const today = format(new Date(), 'yyyy-MM-dd')
+
+    const summarize = (metric: 'revenue' | 'footfall', actual: number) => {
+      const achievement = summarizeTargetAchievement(dailyTargets, metric, actual, today)
+      return achievement.target === null ? null : achievement
+    }
+
+    return {
+      revenue: summarize('revenue', kpiData.totalRevenue),
+      footfall: summarize('footfall', kpiData.totalFootfall)
+    }
+  }, [targets, filters, kpiData.totalRevenue, kpiData.totalFootfall])
+
+  // 人時生産性（人時が登録されている店舗・日の売上のみ対象）と店舗ランキング
+  const productivityData = useMemo(() => {
+    if (!laborHours || laborHours.length === 0) {
+      return { summary: null, ranking: [] }
+    }
+
+    const summary = summarizeLaborProductivity(salesData || [], laborHours, filters)
+    return {
+      summary: summary.laborHours > 0 ? summary : null,
+      ranking: buildStoreProductivityRanking(salesData || [], laborHours, filters)
+    }
+  }, [salesData, laborHours, filters])
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('ja-JP', {
       style: 'currency',
@@ -60,27 +111,10 @@ export function KPICards({ salesData, loading }: KPICardsProps) {
     return `${value.toFixed(1)}%`
   }
 
-  // Mock previous period data for comparison (in real app, this would come from props or API)
-  const mockPreviousData = {
-    totalRevenue: kpiData.totalRevenue * 0.95, // -5%
-    totalFootfall: kpiData.totalFootfall * 1.02, // +2%
-    totalTransactions: kpiData.totalTransactions * 0.98, // -2%
-    averageTransactionValue: kpiData.averageTransactionValue * 1.07, // +7%
-    conversionRate: kpiData.conversionRate * 0.96 // -4%
-  }
-
-  const getChangeData = (current: number, previous: number) => {
-    if (!previous || previous === 0) {
-      return { percentage: 0, isPositive: true, isNeutral: true }
-    }
-    
-    const change = ((current - previous) / previous) * 100
-    return {
-      percentage: Math.abs(change),
-      isPositive: change >= 0,
-      isNeutral: Math.abs(change) < 0.1
-    }
-  }
+  // 選択中の比較基準（前期間 / 前年同期）の KPI
+  const comparisonPeriod = comparison?.comparisons[basis] ?? null
+  const previousData = comparisonPeriod?.kpis
+  const basisLabel = COMPARISON_BASIS_LABELS[basis]
 
   const TrendIcon = ({ isPositive, isNeutral }: { isPositive: boolean; isNeutral: boolean }) => {
     if (isNeutral) return null
@@ -94,6 +128,42 @@ export function KPICards({ salesData, loading }: KPICardsProps) {
     return isPositive ? 'text-green-600' : 'text-red-600'
   }
 
+  const TargetProgress = ({
+    achievement,
+    formatValue
+  }: {
+    achievement: TargetAchievement
+    formatValue: (value: number) => string
+  }) => {
+    const rate = achievement.achievementRate ?? 0
+    const isOnPace = (achievement.pacingRate ?? 0) >= 100
+
+    return (
+      <div className="mt-3 pt-3 border-t border-gray-100">
+        <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+          <span>目標 {formatValue(achievement.target || 0)}</span>
+          <span className="font-semibold text-gray-900">達成率 {formatPercent(rate)}</span>
+        </div>
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className={`h-full rounded-full ${rate >= 100 ? 'bg-green-500' : 'bg-indigo-500'}`}
+            style={{ width: `${Math.min(rate, 100)}%` }}
+          />
+        </div>
+        <div className="flex items-center justify-between text-xs mt-1">
+          <span className="text-gray-600">
+            {achievement.remaining ? `残り ${formatValue(achievement.remaining)}` : '目標達成'}
+          </span>
+          {achievement.pacingRate !== null && (
+            <span className={isOnPace ? 'text-green-600' : 'text-red-600'}>
+              ペース {formatPercent(achievement.pacingRate)}
+            </span>
+          )}
+        </div>
+      </div>
+    )
+  }
+
   if (loading) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
@@ -110,157 +180,256 @@ export function KPICards({ salesData, loading }: KPICardsProps) {
     )
   }
 
-  const revenueChange = getChangeData(kpiData.totalRevenue, mockPreviousData.totalRevenue)
-  const footfallChange = getChangeData(kpiData.totalFootfall, mockPreviousData.totalFootfall)
-  const transactionChange = getChangeData(kpiData.totalTransactions, mockPreviousData.totalTransactions)
-  const avgTransactionChange = getChangeData(kpiData.averageTransactionValue, mockPreviousData.averageTransactionValue)
+  const revenueChange = calculateKPIChange(kpiData.totalRevenue, previousData?.totalRevenue)
+  const footfallChange = calculateKPIChange(kpiData.totalFootfall, previousData?.totalFootfall)
+  const transactionChange = calculateKPIChange(kpiData.totalTransactions, previousData?.totalTransactions)
+  const avgTransactionChange = calculateKPIChange(kpiData.averageTransactionValue, previousData?.averageTransactionValue)
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-      {/* Total Revenue */}
-      <div className="card">
-        <div className="flex items-center justify-between mb-2">
-          <h3 className="text-sm font-medium text-gray-600">
-            売上（税抜）
-          </h3>
-          <DollarSign className="h-5 w-5 text-gray-400" />
-        </div>
-        <div className="flex items-end justify-between">
-          <div>
-            <p className="text-2xl font-bold text-gray-900">
-              {formatCurrency(kpiData.totalRevenue)}
-            </p>
-            <div className="flex items-center gap-1 mt-1">
-              <TrendIcon 
-                isPositive={revenueChange.isPositive} 
-                isNeutral={revenueChange.isNeutral} 
-              />
-              <p className={`text-sm ${getTrendColor(revenueChange.isPositive, revenueChange.isNeutral)}`}>
-                {!revenueChange.isNeutral && (revenueChange.isPositive ? '+' : '-')}
-                {revenueChange.percentage.toFixed(1)}% vs 前期
-              </p>
-            </div>
-          </div>
+    <div className="mb-8">
+      <div className="flex flex-wrap items-center justify-end gap-3 mb-3">
+        <span className="text-xs text-gray-500">
+          {comparisonPeriod
+            ? `比較期間: ${comparisonPeriod.dateRange.start} 〜 ${comparisonPeriod.dateRange.end}`
+            : '比較データなし'}
+        </span>
+        <div className="inline-flex rounded-md border border-gray-200 bg-white p-0.5" role="group" aria-label="比較基準">
+          {(Object.keys(COMPARISON_BASIS_LABELS) as ComparisonBasis[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setBasis(option)}
+              aria-pressed={basis === option}
+              className={`px-3 py-1 text-xs rounded ${
+                basis === option ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {COMPARISON_BASIS_LABELS[option]}
+            </button>
+          ))}
         </div>
       </div>
-
-      {/* Total Footfall */}
-      <div className="card">
-        <div className="flex items-center justify-between mb-2">
-          <h3 className="text-sm font-medium text-gray-600">客数</h3>
-          <Users className="h-5 w-5 text-gray-400" />
-        </div>
-        <div className="flex items-end justify-between">
-          <div>
-            <p className="text-2xl font-bold text-gray-900">
-              {formatNumber(kpiData.totalFootfall)}
-            </p>
-            <div className="flex items-center gap-1 mt-1">
-              <TrendIcon 
-                isPositive={footfallChange.isPositive} 
-                isNeutral={footfallChange.isNeutral} 
-              />
-              <p className={`text-sm ${getTrendColor(footfallChange.isPositive, footfallChange.isNeutral)}`}>
-                {!footfallChange.isNeutral && (footfallChange.isPositive ? '+' : '-')}
-                {footfallChange.percentage.toFixed(1)}% vs 前期
-              </p>
-            </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {/* Total Revenue */}
+        <div className="card">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-medium text-gray-600">
+              売上（税抜）
+            </h3>
+            <DollarSign className="h-5 w-5 text-gray-400" />
           </div>
-        </div>
-      </div>
-
-      {/* Total Transactions */}
-      <div className="card">
-        <div className="flex items-center justify-between mb-2">
-          <h3 className="text-sm font-medium text-gray-600">取引数</h3>
-          <ShoppingCart className="h-5 w-5 text-gray-400" />
-        </div>
-        <div className="flex items-end justify-between">
-          <div>
-            <p className="text-2xl font-bold text-gray-900">
-              {formatNumber(kpiData.totalTransactions)}
-            </p>
-            <div className="flex items-center gap-1 mt-1">
-              <TrendIcon 
-                isPositive={transactionChange.isPositive} 
-                isNeutral={transactionChange.isNeutral} 
-              />
-              <p className={`text-sm ${getTrendColor(transactionChange.isPositive, transactionChange.isNeutral)}`}>
-                {!transactionChange.isNeutral && (transactionChange.isPositive ? '+' : '-')}
-                {transactionChange.percentage.toFixed(1)}% vs 前期
+          <div className="flex items-end justify-between">
+            <div>
+              <p className="text-2xl font-bold text-gray-900">
+                {formatCurrency(kpiData.totalRevenue)}
               </p>
+              <div className="flex items-center gap-1 mt-1">
+                <TrendIcon 
+                  isPositive={revenueChange.isPositive} 
+                  isNeutral={revenueChange.isNeutral} 
+                />
+                <p className={`text-sm ${getTrendColor(revenueChange.isPositive, revenueChange.isNeutral)}`}>
+                  {!revenueChange.isNeutral && (revenueChange.isPositive ? '+' : '-')}
+                  {revenueChange.percentage.toFixed(1)}% vs {basisLabel}
+                </p>
+              </div>
             </div>
           </div>
+          {targetData.revenue && (
+            <TargetProgress achievement={targetData.revenue} formatValue={formatCurrency} />
+          )}
         </div>
-      </div>
 
-      {/* Average Transaction Value */}
-      <div className="card">
-        <div className="flex items-center justify-between mb-2">
-          <h3 className="text-sm font-medium text-gray-600">客単価</h3>
-          <div className="h-5 w-5 text-gray-400 flex items-center justify-center text-xs font-bold">
-            ¥
+        {/* Total Footfall */}
+        <div className="card">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-medium text-gray-600">客数</h3>
+            <Users className="h-5 w-5 text-gray-400" />
           </div>
-        </div>
-        <div className="flex items-end justify-between">
-          <div>
-            <p className="text-2xl font-bold text-gray-900">
-              {formatCurrency(kpiData.averageTransactionValue)}
-            </p>
-            <div className="flex items-center gap-1 mt-1">
-              <TrendIcon 
-                isPositive={avgTransactionChange.isPositive} 
-                isNeutral={avgTransactionChange.isNeutral} 
-              />
-              <p className={`text-sm ${getTrendColor(avgTransactionChange.isPositive, avgTransactionChange.isNeutral)}`}>
-                {!avgTransactionChange.isNeutral && (avgTransactionChange.isPositive ? '+' : '-')}
-                {avgTransactionChange.percentage.toFixed(1)}% vs 前期
+          <div className="flex items-end justify-between">
+            <div>
+              <p className="text-2xl font-bold text-gray-900">
+                {formatNumber(kpiData.totalFootfall)}
               </p>
+              <div className="flex items-center gap-1 mt-1">
+                <TrendIcon 
+                  isPositive={footfallChange.isPositive} 
+                  isNeutral={footfallChange.isNeutral} 
+                />
+                <p className={`text-sm ${getTrendColor(footfallChange.isPositive, footfallChange.isNeutral)}`}>
+                  {!footfallChange.isNeutral && (footfallChange.isPositive ? '+' : '-')}
+                  {footfallChange.percentage.toFixed(1)}% vs {basisLabel}
+                </p>
+              </div>
             </div>
           </div>
+          {targetData.footfall && (
+            <TargetProgress
+              achievement={targetData.footfall}
+              formatValue={(value) => formatNumber(Math.round(value))}
+            />
+          )}
         </div>
-      </div>
 
-      {/* Additional KPI Row - Conversion Rate & Days Tracked */}
-      <div className="col-span-full grid grid-cols-1 md:grid-cols-2 gap-6 mt-4">
-        {/* Conversion Rate */}
-        <div className="card bg-gradient-to-r from-blue-50 to-indigo-50 border-blue-200">
+        {/* Total Transactions */}
+        <div className="card">
           <div className="flex items-center justify-between mb-2">
-            <h3 className="text-sm font-medium text-blue-700">転換率</h3>
-            <div className="text-blue-500 text-sm font-semibold">%</div>
+            <h3 className="text-sm font-medium text-gray-600">取引数</h3>
+            <ShoppingCart className="h-5 w-5 text-gray-400" />
           </div>
-          <div className="flex items-center justify-between">
+          <div className="flex items-end justify-between">
             <div>
-              <p className="text-2xl font-bold text-blue-900">
-                {formatPercent(kpiData.conversionRate)}
-              </p>
-              <p className="text-sm text-blue-600 mt-1">
-                {kpiData.totalFootfall > 0 ? 
-                  `${formatNumber(kpiData.totalTransactions)} / ${formatNumber(kpiData.totalFootfall)}` : 
-                  'データなし'
-                }
+              <p className="text-2xl font-bold text-gray-900">
+                {formatNumber(kpiData.totalTransactions)}
               </p>
+              <div className="flex items-center gap-1 mt-1">
+                <TrendIcon 
+                  isPositive={transactionChange.isPositive} 
+                  isNeutral={transactionChange.isNeutral} 
+                />
+                <p className={`text-sm ${getTrendColor(transactionChange.isPositive, transactionChange.isNeutral)}`}>
+                  {!transactionChange.isNeutral && (transactionChange.isPositive ? '+' : '-')}
+                  {transactionChange.percentage.toFixed(1)}% vs {basisLabel}
+                </p>
+              </div>
             </div>
           </div>
         </div>
 
-        {/* Period Summary */}
-        <div className="card bg-gradient-to-r from-gray-50 to-slate-50 border-gray-200">
+        {/* Average Transaction Value */}
+        <div className="card">
           <div className="flex items-center justify-between mb-2">
-            <h3 className="text-sm font-medium text-gray-700">集計期間</h3>
-            <div className="text-gray-500 text-sm">📊</div>
+            <h3 className="text-sm font-medium text-gray-600">客単価</h3>
+            <div className="h-5 w-5 text-gray-400 flex items-center justify-center text-xs font-bold">
+              ¥
+            </div>
           </div>
-          <div className="flex items-center justify-between">
+          <div className="flex items-end justify-between">
             <div>
               <p className="text-2xl font-bold text-gray-900">
-                {salesData.length}
-              </p>
-              <p className="text-sm text-gray-600 mt-1">
-                データポイント数
+                {formatCurrency(kpiData.averageTransactionValue)}
               </p>
+              <div className="flex items-center gap-1 mt-1">
+                <TrendIcon 
+                  isPositive={avgTransactionChange.isPositive} 
+                  isNeutral={avgTransactionChange.isNeutral} 
+                />
+                <p className={`text-sm ${getTrendColor(avgTransactionChange.isPositive, avgTransactionChange.isNeutral)}`}>
+                  {!avgTransactionChange.isNeutral && (avgTransactionChange.isPositive ? '+' : '-')}
+                  {avgTransactionChange.percentage.toFixed(1)}% vs {basisLabel}
+                </p>
+              </div>
             </div>
           </div>
         </div>
+
+        {/* Additional KPI Row - Conversion Rate & Days Tracked */}
+        <div className="col-span-full grid grid-cols-1 md:grid-cols-2 gap-6 mt-4">
+          {/* Conversion Rate */}
+          <div className="card bg-gradient-to-r from-blue-50 to-indigo-50 border-blue-200">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-blue-700">転換率</h3>
+              <div className="text-blue-500 text-sm font-semibold">%</div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-2xl font-bold text-blue-900">
+                  {formatPercent(kpiData.conversionRate)}
+                </p>
+                <p className="text-sm text-blue-600 mt-1">
+                  {kpiData.totalFootfall > 0 ? 
+                    `${formatNumber(kpiData.totalTransactions)} / ${formatNumber(kpiData.totalFootfall)}` : 
+                    'データなし'
+                  }
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* Period Summary */}
+          <div className="card bg-gradient-to-r from-gray-50 to-slate-50 border-gray-200">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-700">集計期間</h3>
+              <div className="text-gray-500 text-sm">📊</div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-2xl font-bold text-gray-900">
+                  {salesData.length}
+                </p>
+                <p className="text-sm text-gray-600 mt-1">
+                  データポイント数
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Labor Productivity - 人時売上・人時取引数と店舗ランキング */}
+        {productivityData.summary && (
+          <div className="col-span-full grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="card">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-gray-600">人時生産性</h3>
+                <Clock className="h-5 w-5 text-gray-400" />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <p className="text-xs text-gray-500">人時売上</p>
+                  <p className="text-2xl font-bold text-gray-900">
+                    {formatCurrency(productivityData.summary.revenuePerLaborHour || 0)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">人時取引数</p>
+                  <p className="text-2xl font-bold text-gray-900">
+                    {(productivityData.summary.transactionsPerLaborHour || 0).toFixed(2)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">総人時</p>
+                  <p className="text-2xl font-bold text-gray-900">
+                    {formatNumber(productivityData.summary.laborHours)}
+                  </p>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                人時が登録されている店舗・日の売上 {formatCurrency(productivityData.summary.revenue)} を対象に算出
+              </p>
+            </div>
+
+            <div className="card">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-gray-600">店舗別 人時売上ランキング</h3>
+                <span className="text-xs text-gray-500">{productivityData.ranking.length}店舗</span>
+              </div>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500">
+                    <th className="py-1 text-left w-8">#</th>
+                    <th className="py-1 text-left">店舗</th>
+                    <th className="py-1 text-right">人時売上</th>
+                    <th className="py-1 text-right">人時取引数</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {productivityData.ranking.slice(0, PRODUCTIVITY_RANKING_LIMIT).map(store => (
+                    <tr key={store.storeId} className="border-t border-gray-100">
+                      <td className="py-1 text-gray-500">{store.rank}</td>
+                      <td className="py-1 text-gray-900">{store.storeName}</td>
+                      <td className="py-1 text-right font-semibold text-gray-900">
+                        {formatCurrency(store.revenuePerLaborHour || 0)}
+                      </td>
+                      <td className="py-1 text-right text-gray-700">
+                        {(store.transactionsPerLaborHour || 0).toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -13,15 +13,44 @@ import {
   BarChart,
   Bar
 } from 'recharts'
-import { SalesWithCalculated } from '@/types/database.types'
+import { DashboardFilters, SalesWithCalculated } from '@/types/database.types'
+import { SalesTarget, buildDailyTargets, buildMonthToDatePacing } from '@/lib/targets'
+import { DEFAULT_SALES_CHANNEL, SALES_CHANNELS, SALES_CHANNEL_LABELS } from '@/lib/sales-channels'
 import { format } from 'date-fns'
 
 interface SalesChartProps {
   salesData: SalesWithCalculated[]
+  targets?: SalesTarget[]
+  filters?: DashboardFilters
   loading?: boolean
 }
 
-export function SalesChart({ salesData, loading }: SalesChartProps) {
+// チャネル別の積み上げの色（店頭・EC・外商）
+const CHANNEL_COLORS = {
+  store: '#4f46e5',
+  ec: '#10b981',
+  corporate: '#f59e0b'
+}
+
+export function SalesChart({ salesData, targets, filters, loading }: SalesChartProps) {
+  const dailyTargets = useMemo(() => {
+    if (!targets || targets.length === 0 || !filters) return []
+    return buildDailyTargets(targets, filters.dateRange, filters)
+  }, [targets, filters])
+
+  const targetByDate = useMemo(() => {
+    return new Map(dailyTargets.map(daily => [daily.date, daily.revenue]))
+  }, [dailyTargets])
+
+  const hasRevenueTarget = dailyTargets.some(daily => daily.revenue !== null)
+
+  // 期間内に売上のあるチャネル（店頭のみの場合はチャネル別の内訳を表示しない）
+  const activeChannels = useMemo(() => {
+    return SALES_CHANNELS.filter(channel =>
+      (salesData || []).some(sale => (sale.channel || DEFAULT_SALES_CHANNEL) === channel && sale.revenue_ex_tax)
+    )
+  }, [salesData])
+
   const chartData = useMemo(() => {
     if (!salesData || salesData.length === 0) return []
 
@@ -34,11 +63,13 @@ export function SalesChart({ salesData, loading }: SalesChartProps) {
           revenue: 0,
           footfall: 0,
           transactions: 0,
+          channels: { store: 0, ec: 0, corporate: 0 },
           stores: new Set<string>()
         }
       }
       
       acc[date].revenue += sale.revenue_ex_tax || 0
+      acc[date].channels[sale.channel || DEFAULT_SALES_CHANNEL] += sale.revenue_ex_tax || 0
       acc[date].footfall += sale.footfall || 0
       acc[date].transactions += sale.transactions || 0
       if (sale.store_id) {
@@ -53,14 +84,32 @@ export function SalesChart({ salesData, loading }: SalesChartProps) {
       .map((item: any) => ({
         date: format(new Date(item.date), 'MM/dd'),
         revenue: Math.round(item.revenue),
+        target: targetByDate.get(item.date) != null ? Math.round(targetByDate.get(item.date)!) : null,
         footfall: item.footfall,
         transactions: item.transactions,
+        store: Math.round(item.channels.store),
+        ec: Math.round(item.channels.ec),
+        corporate: Math.round(item.channels.corporate),
         storeCount: item.stores.size,
         conversionRate: item.footfall > 0 ? 
           Math.round((item.transactions / item.footfall) * 100 * 10) / 10 : 0
       }))
       .sort((a, b) => a.date.localeCompare(b.date))
-  }, [salesData])
+  }, [salesData, targetByDate])
+
+  // 月累計（MTD）の実績と目標ペース（本日以降の実績は表示しない）
+  const pacingData = useMemo(() => {
+    if (!hasRevenueTarget) return []
+
+    const today = format(new Date(), 'yyyy-MM-dd')
+    const actuals = (salesData || []).map(sale => ({ date: sale.date, value: sale.revenue_ex_tax || 0 }))
+
+    return buildMonthToDatePacing(actuals, dailyTargets, 'revenue').map(point => ({
+      date: format(new Date(point.date), 'MM/dd'),
+      cumulativeActual: point.date <= today ? Math.round(point.cumulativeActual) : null,
+      cumulativeTarget: point.cumulativeTarget === null ? null : Math.round(point.cumulativeTarget)
+    }))
+  }, [salesData, dailyTargets, hasRevenueTarget])
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('ja-JP', {
@@ -123,7 +172,7 @@ export function SalesChart({ salesData, loading }: SalesChartProps) {
             <Tooltip 
               formatter={(value: any, name: string) => [
                 formatCurrency(value), 
-                '売上'
+                name === 'target' ? '目標' : '売上'
               ]}
               labelFormatter={(label) => `日付: ${label}`}
               contentStyle={{
@@ -141,10 +190,126 @@ export function SalesChart({ salesData, loading }: SalesChartProps) {
               dot={{ fill: '#4f46e5', strokeWidth: 2, r: 4 }}
               activeDot={{ r: 6, stroke: '#4f46e5', strokeWidth: 2 }}
             />
+            {hasRevenueTarget && (
+              <Line 
+                type="monotone" 
+                dataKey="target" 
+                stroke="#9ca3af" 
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+                connectNulls
+              />
+            )}
           </LineChart>
         </ResponsiveContainer>
       </div>
 
+      {/* Revenue by Channel */}
+      {activeChannels.length > 1 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">チャネル別売上（税抜）</h4>
+          <ResponsiveContainer width="100%" height={200}>
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis 
+                dataKey="date" 
+                tick={{ fontSize: 12 }}
+                stroke="#6b7280"
+              />
+              <YAxis 
+                tick={{ fontSize: 12 }}
+                stroke="#6b7280"
+                tickFormatter={formatCurrency}
+              />
+              <Tooltip 
+                formatter={(value: any, name: string) => [
+                  formatCurrency(value), 
+                  name
+                ]}
+                labelFormatter={(label) => `日付: ${label}`}
+                contentStyle={{
+                  backgroundColor: '#fff',
+                  border: '1px solid #e5e7eb',
+                  borderRadius: '6px',
+                  fontSize: '12px'
+                }}
+              />
+              <Legend 
+                wrapperStyle={{ fontSize: '12px' }}
+                iconType="rect"
+              />
+              {activeChannels.map(channel => (
+                <Bar 
+                  key={channel}
+                  dataKey={channel} 
+                  name={SALES_CHANNEL_LABELS[channel]}
+                  stackId="channel"
+                  fill={CHANNEL_COLORS[channel]} 
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {/* Month-to-date Pacing */}
+      {pacingData.length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">月累計の目標ペース</h4>
+          <ResponsiveContainer width="100%" height={200}>
+            <LineChart data={pacingData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis 
+                dataKey="date" 
+                tick={{ fontSize: 12 }}
+                stroke="#6b7280"
+              />
+              <YAxis 
+                tick={{ fontSize: 12 }}
+                stroke="#6b7280"
+                tickFormatter={formatCurrency}
+              />
+              <Tooltip 
+                formatter={(value: any, name: string) => [
+                  formatCurrency(value), 
+                  name
+                ]}
+                labelFormatter={(label) => `日付: ${label}`}
+                contentStyle={{
+                  backgroundColor: '#fff',
+                  border: '1px solid #e5e7eb',
+                  borderRadius: '6px',
+                  fontSize: '12px'
+                }}
+              />
+              <Legend 
+                wrapperStyle={{ fontSize: '12px' }}
+                iconType="line"
+              />
+              <Line 
+                type="monotone" 
+                dataKey="cumulativeActual" 
+                name="累計実績"
+                stroke="#4f46e5" 
+                strokeWidth={2}
+                dot={false}
+              />
+              <Line 
+                type="monotone" 
+                dataKey="cumulativeTarget" 
+                name="累計目標"
+                stroke="#9ca3af" 
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+                connectNulls
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
       {/* Customer Metrics */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
         {/* Footfall vs Transactions */}
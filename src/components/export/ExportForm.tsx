@@ -17,11 +17,14 @@ import {
   EXPORT_LIMITS,
   DEFAULT_EXPORT_CONFIG
 } from '@/lib/validations/export';
+import { SALES_STATUS_FILTER_LABELS } from '@/lib/sales-status';
+import { SALES_CHANNELS, SALES_CHANNEL_LABELS } from '@/lib/sales-channels';
+import { MasterDataItem, toMasterOptions } from '@/lib/master-data';
 
 interface ExportFormProps {
   stores?: Array<{ id: string; name: string }>;
-  departments?: Array<{ id: string; name: string }>;
-  categories?: Array<{ id: string; name: string }>;
+  departments?: MasterDataItem[];
+  categories?: MasterDataItem[];
   onExport?: (config: ExportConfig) => Promise<void>;
   className?: string;
 }
@@ -341,7 +344,7 @@ export default function ExportForm({
 
           {/* 店舗・部門・カテゴリフィルター */}
           {watchedValues.dataType === 'sales' || watchedValues.dataType === 'combined' ? (
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
               <div>
                 <label className="block text-sm text-gray-600 mb-1">
                   <Building2 className="w-4 h-4 inline mr-1" />
@@ -367,8 +370,8 @@ export default function ExportForm({
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 >
                   <option value="">全部門</option>
-                  {departments.map(dept => (
-                    <option key={dept.id} value={dept.id}>{dept.name}</option>
+                  {toMasterOptions(departments).map(dept => (
+                    <option key={dept.value} value={dept.value}>{dept.label}</option>
                   ))}
                 </select>
               </div>
@@ -379,8 +382,31 @@ export default function ExportForm({
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 >
                   <option value="">全カテゴリ</option>
-                  {categories.map(category => (
-                    <option key={category.id} value={category.id}>{category.name}</option>
+                  {toMasterOptions(categories).map(category => (
+                    <option key={category.value} value={category.value}>{category.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">チャネル</label>
+                <select
+                  {...register('filters.channel')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">全チャネル</option>
+                  {SALES_CHANNELS.map(channel => (
+                    <option key={channel} value={channel}>{SALES_CHANNEL_LABELS[channel]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">集計対象</label>
+                <select
+                  {...register('filters.salesStatus')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {Object.entries(SALES_STATUS_FILTER_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
                   ))}
                 </select>
               </div>
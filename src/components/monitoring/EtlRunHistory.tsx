@@ -0,0 +1,341 @@
+/**
+ * ETL Run History
+ * 外部データ取得（ETL）の実行履歴・ソース別の結果の確認
+ */
+
+'use client'
+
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/Button'
+import { Select } from '@/components/ui/Select'
+import {
+  ETL_RUN_STATUS_LABELS,
+  ETL_RUNS_DEFAULT_LIMIT,
+  ETL_SOURCE_LABELS,
+  ETL_TRIGGER_LABELS,
+  EtlRun,
+  EtlRunList,
+  EtlRunWithSources,
+  EtlSourceStatus
+} from '@/lib/services/etl-runs'
+import type { SourceType } from '@/lib/services/data-source-adapters'
+import { APIResponse, EtlRunStatus } from '@/types/database.types'
+
+const TRIGGER_FILTER_OPTIONS = [
+  { value: '', label: 'すべて' },
+  ...Object.entries(ETL_TRIGGER_LABELS).map(([value, label]) => ({ value, label }))
+]
+
+const STATUS_FILTER_OPTIONS = [
+  { value: '', label: 'すべて' },
+  ...Object.entries(ETL_RUN_STATUS_LABELS).map(([value, label]) => ({ value, label }))
+]
+
+const STATUS_BADGE_CLASSES: Record<EtlRunStatus, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  success: 'bg-green-100 text-green-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  failure: 'bg-red-100 text-red-800'
+}
+
+// etl_completion_time SLO（定時・手動の全ソース取得は10分以内に完了）
+const ETL_COMPLETION_SLO_MS = 10 * 60 * 1000
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString('ja-JP') : '—'
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '—'
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}秒`
+}
+
+function sourceLabel(source: string): string {
+  return ETL_SOURCE_LABELS[source as SourceType] ?? source
+}
+
+// バックフィルは params に期間とチャンク数を持つ
+function backfillParams(run: EtlRun): { start_date?: string; end_date?: string; total_chunks?: number } | null {
+  return run.trigger === 'backfill' && run.params && typeof run.params === 'object' ? run.params : null
+}
+
+function targetLabel(run: EtlRun): string {
+  const params = backfillParams(run)
+  if (params?.start_date && params.end_date) return `${params.start_date}〜${params.end_date}`
+  return run.target_date ?? '実行日'
+}
+
+export function EtlRunHistory() {
+  const [trigger, setTrigger] = useState('')
+  const [status, setStatus] = useState('')
+  const [offset, setOffset] = useState(0)
+  const [runs, setRuns] = useState<EtlRun[]>([])
+  const [sources, setSources] = useState<EtlSourceStatus[]>([])
+  const [total, setTotal] = useState(0)
+  const [selected, setSelected] = useState<EtlRunWithSources | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [loadingRunId, setLoadingRunId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadRuns = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams({ limit: String(ETL_RUNS_DEFAULT_LIMIT), offset: String(offset) })
+      if (trigger) params.set('trigger', trigger)
+      if (status) params.set('status', status)
+
+      const response = await fetch(`/api/etl/runs?${params.toString()}`)
+      const result: APIResponse<EtlRunList | null> = await response.json()
+
+      if (!response.ok || !result.data) {
+        throw new Error(result.message || 'Failed to load ETL runs')
+      }
+
+      setRuns(result.data.runs)
+      setSources(result.data.sources)
+      setTotal(result.meta?.total ?? result.data.runs.length)
+    } catch (err) {
+      console.error('ETL runs load error:', err)
+      setError(err instanceof Error ? err.message : 'ETL の実行履歴の取得に失敗しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [trigger, status, offset])
+
+  useEffect(() => {
+    loadRuns()
+  }, [loadRuns])
+
+  const toggleRun = async (run: EtlRun) => {
+    if (selected?.id === run.id) {
+      setSelected(null)
+      return
+    }
+
+    setLoadingRunId(run.id)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/etl/runs/${run.id}`)
+      const result: APIResponse<EtlRunWithSources | null> = await response.json()
+
+      if (!response.ok || !result.data) {
+        throw new Error(result.message || 'Failed to load ETL run')
+      }
+
+      setSelected(result.data)
+    } catch (err) {
+      console.error('ETL run load error:', err)
+      setError(err instanceof Error ? err.message : '実行結果の取得に失敗しました')
+    } finally {
+      setLoadingRunId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-lg">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">ソース別の取得状況</h2>
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          {sources.map(source => {
+            const failing = source.last_failure_at !== null &&
+              (source.last_success_at === null || source.last_failure_at > source.last_success_at)
+
+            return (
+              <div
+                key={source.source}
+                className={`rounded-md border p-3 ${failing ? 'border-red-200 bg-red-50' : 'border-gray-200'}`}
+              >
+                <p className="font-medium text-gray-900">{sourceLabel(source.source)}</p>
+                <p className="text-xs text-gray-600 mt-1">最終成功: {formatDateTime(source.last_success_at)}</p>
+                <p className={`text-xs mt-1 ${failing ? 'text-red-700' : 'text-gray-600'}`}>
+                  最終失敗: {formatDateTime(source.last_failure_at)}
+                </p>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-lg">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">実行履歴</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <Select
+            label="実行種別"
+            options={TRIGGER_FILTER_OPTIONS}
+            value={trigger}
+            onChange={(e) => { setTrigger(e.target.value); setOffset(0) }}
+          />
+          <Select
+            label="結果"
+            options={STATUS_FILTER_OPTIONS}
+            value={status}
+            onChange={(e) => { setStatus(e.target.value); setOffset(0) }}
+          />
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-4">
+            <p className="text-red-800 text-sm">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">読み込み中...</p>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-gray-500">該当する実行履歴はありません</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">開始</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">種別</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">対象日</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">結果</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">成功 / 失敗</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">所要時間</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {runs.map(run => (
+                  <Fragment key={run.id}>
+                    <tr>
+                      <td className="px-3 py-2 whitespace-nowrap">{formatDateTime(run.started_at)}</td>
+                      <td className="px-3 py-2">{ETL_TRIGGER_LABELS[run.trigger]}</td>
+                      <td className="px-3 py-2">{targetLabel(run)}</td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-1 rounded text-xs font-medium ${STATUS_BADGE_CLASSES[run.status]}`}>
+                          {ETL_RUN_STATUS_LABELS[run.status]}
+                        </span>
+                        {run.error && <p className="text-xs text-red-700 mt-1">{run.error}</p>}
+                      </td>
+                      <td className="px-3 py-2 text-right">{run.success_count} / {run.failure_count}</td>
+                      <td className="px-3 py-2 text-right">
+                        {run.trigger !== 'backfill' && (run.duration_ms ?? 0) > ETL_COMPLETION_SLO_MS ? (
+                          <span className="text-red-700" title="10分の完了目標を超過">{formatDuration(run.duration_ms)}</span>
+                        ) : (
+                          formatDuration(run.duration_ms)
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => toggleRun(run)}
+                          loading={loadingRunId === run.id}
+                        >
+                          {selected?.id === run.id ? '閉じる' : 'ソース別'}
+                        </Button>
+                      </td>
+                    </tr>
+                    {selected?.id === run.id && (
+                      <tr>
+                        <td colSpan={7} className="bg-gray-50 px-3 py-3">
+                          {backfillParams(selected)?.total_chunks !== undefined && (
+                            <p className="text-sm text-gray-700 mb-2">
+                              進捗: {selected.sources.filter(source => source.status === 'success').length} / {backfillParams(selected)?.total_chunks} チャンク
+                              {selected.status !== 'running' && selected.status !== 'success' && '（未完了のチャンクは再開で取得できます）'}
+                            </p>
+                          )}
+                          {selected.sources.length === 0 ? (
+                            <p className="text-sm text-gray-500">ソース別の結果はまだありません</p>
+                          ) : (
+                            <table className="min-w-full text-xs">
+                              <thead>
+                                <tr>
+                                  <th className="px-2 py-1 text-left font-medium text-gray-700">ソース</th>
+                                  <th className="px-2 py-1 text-left font-medium text-gray-700">対象日</th>
+                                  <th className="px-2 py-1 text-left font-medium text-gray-700">結果</th>
+                                  <th className="px-2 py-1 text-right font-medium text-gray-700">件数</th>
+                                  <th className="px-2 py-1 text-right font-medium text-gray-700">追加 / 更新 / 変更なし</th>
+                                  <th className="px-2 py-1 text-right font-medium text-gray-700">失敗行</th>
+                                  <th className="px-2 py-1 text-right font-medium text-gray-700">試行回数</th>
+                                  <th className="px-2 py-1 text-right font-medium text-gray-700">所要時間</th>
+                                  <th className="px-2 py-1 text-left font-medium text-gray-700">エラー</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {selected.sources.map(source => (
+                                  <tr key={source.id}>
+                                    <td className="px-2 py-1">{sourceLabel(source.source)}</td>
+                                    <td className="px-2 py-1">{source.target_date ?? '—'}</td>
+                                    <td className={`px-2 py-1 ${source.status === 'failure' ? 'text-red-700' : 'text-green-700'}`}>
+                                      {source.status === 'failure' ? '失敗' : '成功'}
+                                    </td>
+                                    <td className="px-2 py-1 text-right">{source.records_processed.toLocaleString()}</td>
+                                    <td className="px-2 py-1 text-right whitespace-nowrap">
+                                      {source.records_inserted.toLocaleString()} / {source.records_updated.toLocaleString()} / {source.records_unchanged.toLocaleString()}
+                                    </td>
+                                    <td className={`px-2 py-1 text-right ${source.records_failed > 0 ? 'text-red-700' : ''}`}>
+                                      {source.records_failed.toLocaleString()}
+                                    </td>
+                                    <td className="px-2 py-1 text-right">{source.attempts}</td>
+                                    <td className="px-2 py-1 text-right">{formatDuration(source.duration_ms)}</td>
+                                    <td className="px-2 py-1 text-red-700">
+                                      {source.error ?? ''}
+                                      {source.row_errors?.map(rowError => (
+                                        <p key={rowError.index}>{rowError.index + 1}行目: {rowError.message}</p>
+                                      ))}
+                                      {source.records_failed > (source.row_errors?.length ?? 0) && (
+                                        <p>ほか {source.records_failed - (source.row_errors?.length ?? 0)} 行</p>
+                                      )}
+                                      {source.records_failed > 0 && (
+                                        <Link
+                                          href={`/admin/etl-quarantine?run_id=${selected.id}&source=${source.source}`}
+                                          className="text-primary-600 hover:text-primary-700"
+                                        >
+                                          隔離レコードを確認
+                                        </Link>
+                                      )}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+          <span>
+            全{total.toLocaleString()}件中 {total === 0 ? 0 : offset + 1}〜{Math.min(offset + ETL_RUNS_DEFAULT_LIMIT, total)}件
+          </span>
+          <div className="space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(Math.max(offset - ETL_RUNS_DEFAULT_LIMIT, 0))}
+              disabled={offset === 0 || loading}
+            >
+              前へ
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(offset + ETL_RUNS_DEFAULT_LIMIT)}
+              disabled={offset + ETL_RUNS_DEFAULT_LIMIT >= total || loading}
+            >
+              次へ
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
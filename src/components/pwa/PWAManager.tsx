@@ -12,6 +12,12 @@
 'use client'
 
 import { useEffect, useState, useCallback } from 'react'
+import {
+  QueuedSalesAction,
+  QueuedSalesEntry,
+  SALES_QUEUE_UPDATED,
+  sendSalesQueueMessage
+} from '@/lib/offline-sales-queue'
 
 interface PWACapabilities {
   serviceWorkerSupported: boolean
@@ -281,6 +287,8 @@ export function PWAManager({
         onOfflineDetected?.()
       } else {
         console.log('🌐 Application is online')
+        // Replay queued sales entries here as well, for browsers without Background Sync
+        sendSalesQueueMessage({ type: 'REPLAY_SALES_QUEUE' }).catch(console.warn)
       }
     }
 
@@ -480,6 +488,38 @@ export function useNetworkStatus() {
   return isOnline
 }
 
+export function useOfflineSalesQueue() {
+  const [entries, setEntries] = useState<QueuedSalesEntry[]>([])
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === SALES_QUEUE_UPDATED) {
+        setEntries(event.data.payload)
+      }
+    }
+
+    navigator.serviceWorker.addEventListener('message', handleMessage)
+    sendSalesQueueMessage({ type: 'GET_SALES_QUEUE' }).then(setEntries).catch(console.warn)
+
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage)
+  }, [])
+
+  const replay = useCallback(async () => {
+    setEntries(await sendSalesQueueMessage({ type: 'REPLAY_SALES_QUEUE' }))
+  }, [])
+
+  const resolve = useCallback(async (id: string, action: QueuedSalesAction, acknowledgedWarnings?: string[]) => {
+    setEntries(await sendSalesQueueMessage({
+      type: 'RESOLVE_QUEUED_SALES',
+      payload: { id, action, acknowledged_warnings: acknowledgedWarnings }
+    }))
+  }, [])
+
+  return { entries, replay, resolve }
+}
+
 // ========================================
 // PERFORMANCE UTILITIES
 // ========================================
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { APIResponse } from '@/types/database.types';
+import type { ImportMode } from '@/lib/services/sales-import';
+import type { LaborHoursImportReport } from '@/lib/services/labor-hours-import';
+
+interface LaborHoursImportFormProps {
+  onSuccess?: (report: LaborHoursImportReport) => void;
+}
+
+// 取込みファイルのカラム説明
+const COLUMN_GUIDE = [
+  { column: 'date / 日付', description: 'YYYY-MM-DD または YYYY/MM/DD', required: true },
+  { column: 'store_id / 店舗ID', description: '店舗ID', required: true },
+  { column: 'department / 部門', description: '部門コード（空欄は部門に割り当てない人時）', required: false },
+  { column: 'hours / 人時', description: '従業員の総労働時間（時間、小数第2位まで）', required: true },
+  { column: 'notes / 備考', description: '500文字以内', required: false },
+];
+
+// 人時の Excel / CSV 取込み（検証 → 取込みの2段階）
+export function LaborHoursImportForm({ onSuccess }: LaborHoursImportFormProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<LaborHoursImportReport | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [runningMode, setRunningMode] = useState<ImportMode | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setReport(null);
+    setMessage(null);
+    setError(null);
+  };
+
+  const runImport = async (mode: ImportMode) => {
+    if (!file) return;
+
+    setRunningMode(mode);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const body = new FormData();
+      body.append('file', file);
+      body.append('mode', mode);
+
+      const response = await fetch('/api/labor-hours/import', {
+        method: 'POST',
+        body,
+      });
+
+      const result: APIResponse<LaborHoursImportReport | null> = await response.json();
+
+      if (result.data) {
+        setReport(result.data);
+      }
+
+      if (!response.ok || !result.success) {
+        setError(result.message || '取り込みに失敗しました');
+        return;
+      }
+
+      setMessage(result.message || null);
+
+      if (mode === 'commit' && result.data) {
+        onSuccess?.(result.data);
+      }
+    } catch (err) {
+      console.error('Labor hours import error:', err);
+      setError('ネットワークエラーが発生しました。再度お試しください。');
+    } finally {
+      setRunningMode(null);
+    }
+  };
+
+  // 検証済みかつエラーなしの場合のみ取り込み可能
+  const canCommit = report?.mode === 'dry_run' && report.errorRows === 0 && report.validRows > 0;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg">
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">人時の取込み</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        勤怠システムから出力したファイルを取り込みます。同じ日付・店舗・部門の人時が登録済みの場合は上書きします。
+        まず検証を実行し、エラーがないことを確認してから取り込んでください。
+      </p>
+
+      {/* カラム説明 */}
+      <details className="mb-4 text-sm">
+        <summary className="cursor-pointer text-gray-700 font-medium">ファイル形式</summary>
+        <p className="text-gray-600 mt-2 mb-2">
+          1行目はヘッダー行です。人時は店舗・部門ごとの1日の合計を指定してください。
+        </p>
+        <table className="min-w-full border border-gray-200">
+          <tbody>
+            {COLUMN_GUIDE.map(({ column, description, required }) => (
+              <tr key={column} className="border-b border-gray-200">
+                <td className="px-3 py-1 font-mono text-gray-800">{column}{required && ' *'}</td>
+                <td className="px-3 py-1 text-gray-600">{description}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="labor-hours-import-file">
+            取込みファイル *
+          </label>
+          <input
+            id="labor-hours-import-file"
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={handleFileChange}
+            className="block w-full text-sm text-gray-700"
+          />
+        </div>
+
+        {/* 検証結果 */}
+        {report && (
+          <div className="border-t pt-4">
+            <div className="bg-gray-50 p-4 rounded-lg grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+              <div>
+                <p className="text-gray-600">全行数</p>
+                <p className="font-semibold">{report.totalRows.toLocaleString()}行</p>
+              </div>
+              <div>
+                <p className="text-gray-600">正常</p>
+                <p className="font-semibold text-green-700">{report.validRows.toLocaleString()}行</p>
+              </div>
+              <div>
+                <p className="text-gray-600">エラー</p>
+                <p className="font-semibold text-red-700">{report.errorRows.toLocaleString()}行</p>
+              </div>
+              <div>
+                <p className="text-gray-600">人時合計</p>
+                <p className="font-semibold">{report.totalHours.toLocaleString()}時間</p>
+              </div>
+            </div>
+
+            {report.errors.length > 0 && (
+              <div className="max-h-72 overflow-y-auto border border-red-200 rounded-md">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-red-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-red-800 w-20">行</th>
+                      <th className="px-3 py-2 text-left text-red-800 w-40">項目</th>
+                      <th className="px-3 py-2 text-left text-red-800">エラー内容</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.errors.flatMap(({ row, errors }) =>
+                      errors.map((rowError, index) => (
+                        <tr key={`${row}-${index}`} className="border-t border-red-100">
+                          <td className="px-3 py-1 text-gray-700">{index === 0 ? row : ''}</td>
+                          <td className="px-3 py-1 font-mono text-gray-700">{rowError.field}</td>
+                          <td className="px-3 py-1 text-gray-900">{rowError.message}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-3">
+            <p className="text-green-800 text-sm">{message}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3">
+            <p className="text-red-800 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-4">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => runImport('dry_run')}
+            loading={runningMode === 'dry_run'}
+            disabled={!file || runningMode !== null}
+          >
+            検証する
+          </Button>
+          <Button
+            type="button"
+            onClick={() => runImport('commit')}
+            loading={runningMode === 'commit'}
+            disabled={!canCommit || runningMode !== null}
+          >
+            取り込む
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
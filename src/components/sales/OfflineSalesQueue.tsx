@@ -0,0 +1,156 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { useOfflineSalesQueue } from '@/components/pwa/PWAManager';
+import {
+  QueuedSalesAction,
+  QueuedSalesEntry,
+  describeQueuedSalesConflict,
+  parseQueuedSales,
+} from '@/lib/offline-sales-queue';
+import { DEFAULT_SALES_CHANNEL, SALES_CHANNEL_LABELS } from '@/lib/sales-channels';
+
+// オフライン中に入力され、まだサーバーに保存されていない売上（送信待ち・要対応）
+export function OfflineSalesQueue() {
+  const { entries, replay, resolve } = useOfflineSalesQueue();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [replaying, setReplaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const pendingCount = entries.filter(entry => entry.status === 'pending').length;
+
+  const handleReplay = async () => {
+    setReplaying(true);
+    setError(null);
+    try {
+      await replay();
+    } catch (err) {
+      console.error('Offline sales queue replay error:', err);
+      setError(err instanceof Error ? err.message : '再送に失敗しました');
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  const handleResolve = async (entry: QueuedSalesEntry, action: QueuedSalesAction, acknowledgedWarnings?: string[]) => {
+    if (action === 'discard' && !window.confirm('この売上データを破棄しますか？サーバーには保存されません。')) return;
+
+    setBusyId(entry.id);
+    setError(null);
+    try {
+      await resolve(entry.id, action, acknowledgedWarnings);
+    } catch (err) {
+      console.error('Offline sales queue resolve error:', err);
+      setError(err instanceof Error ? err.message : '処理に失敗しました');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white p-6 rounded-lg shadow-lg mt-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-gray-900">送信待ちの売上（{entries.length}件）</h3>
+        {pendingCount > 0 && (
+          <Button type="button" variant="outline" size="sm" onClick={handleReplay} loading={replaying}>
+            今すぐ送信
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        オフライン中に入力した売上はこの端末に保存され、接続が回復すると自動で送信されます。
+        サーバーに受け付けられなかったものは内容を確認して対応してください。
+      </p>
+
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+        {entries.map(entry => {
+          const sales = parseQueuedSales(entry);
+          const conflict = describeQueuedSalesConflict(entry);
+
+          return (
+            <li key={entry.id} className="px-3 py-2 text-sm">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {sales
+                      ? `${sales.date} ${sales.department} / ${sales.product_category}（${SALES_CHANNEL_LABELS[sales.channel ?? DEFAULT_SALES_CHANNEL]}） ¥${Number(sales.revenue_ex_tax).toLocaleString()}`
+                      : '内容を読み取れない入力'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(entry.queued_at).toLocaleString('ja-JP')} に保存
+                    {entry.attempts > 0 && ` ・ 送信試行 ${entry.attempts}回`}
+                    {entry.validation.client === 'unchecked' && ' ・ 入力チェック未実施'}
+                  </p>
+                </div>
+                <span
+                  className={`px-2 py-1 rounded text-xs font-medium ${
+                    entry.status === 'conflict' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                  }`}
+                >
+                  {entry.status === 'conflict' ? '要対応' : '送信待ち'}
+                </span>
+              </div>
+
+              {conflict && (
+                <div className="mt-2 bg-red-50 border border-red-200 rounded-md p-3">
+                  <p className="text-red-800">{conflict}</p>
+                  {entry.validation.warnings.length > 0 && (
+                    <ul className="list-disc list-inside text-red-700 mt-1">
+                      {entry.validation.warnings.map(warning => (
+                        <li key={warning.field}>{warning.message}</li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="flex space-x-2 mt-2">
+                    {entry.validation.warnings.length > 0 ? (
+                      <Button
+                        type="button"
+                        size="sm"
+                        onClick={() => handleResolve(entry, 'retry', entry.validation.warnings.map(warning => warning.field))}
+                        loading={busyId === entry.id}
+                        disabled={busyId !== null}
+                      >
+                        確認して送信
+                      </Button>
+                    ) : (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleResolve(entry, 'retry')}
+                        loading={busyId === entry.id}
+                        disabled={busyId !== null}
+                      >
+                        再送
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleResolve(entry, 'discard')}
+                      disabled={busyId !== null}
+                    >
+                      破棄
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 mt-4">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
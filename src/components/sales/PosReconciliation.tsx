@@ -0,0 +1,297 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { PosTotalsImportForm } from '@/components/sales/PosTotalsImportForm';
+import { supabase } from '@/lib/supabase/client';
+import {
+  DEFAULT_POS_TOLERANCE,
+  POS_RECONCILIATION_STATUS_LABELS,
+  PosReconciliationItem,
+} from '@/lib/pos-reconciliation';
+import { formatCurrency } from '@/lib/validations/sales';
+import {
+  APIResponse,
+  Database,
+  PosReconciliationResolveRequest,
+  ValidationError,
+} from '@/types/database.types';
+
+type StoreOptionRow = Pick<Database['public']['Tables']['dim_store']['Row'], 'id' | 'name' | 'area'>;
+
+const STATUS_FILTER_OPTIONS = [
+  { value: 'open', label: '未解消の差異' },
+  { value: 'resolved', label: '解消済み' },
+  { value: 'all', label: 'すべて' },
+];
+
+// POS 日次合計の取込みと、手入力売上との差異の一覧・解消
+export function PosReconciliation() {
+  const [startDate, setStartDate] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(endOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [status, setStatus] = useState('open');
+  const [tolerance, setTolerance] = useState(String(DEFAULT_POS_TOLERANCE.revenue));
+  const [stores, setStores] = useState<{ value: string; label: string }[]>([]);
+  const [items, setItems] = useState<PosReconciliationItem[]>([]);
+  const [annotating, setAnnotating] = useState<{ id: string; note: string } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  // 店舗データを取得
+  useEffect(() => {
+    async function fetchStores() {
+      try {
+        const { data, error } = await supabase
+          .from('dim_store')
+          .select('id, name, area')
+          .order('name');
+
+        if (error) throw error;
+
+        setStores(data.map((store: StoreOptionRow) => ({
+          value: store.id,
+          label: `${store.name}${store.area ? ` (${store.area})` : ''}`,
+        })));
+      } catch (error) {
+        console.error('Failed to fetch stores:', error);
+      }
+    }
+
+    fetchStores();
+  }, []);
+
+  const loadItems = useCallback(async () => {
+    if (!startDate || !endDate || tolerance === '') return;
+
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ start: startDate, end: endDate, status, tolerance });
+      const response = await fetch(`/api/pos-reconciliation?${params.toString()}`);
+      const result: APIResponse<PosReconciliationItem[] | null> = await response.json();
+
+      if (!response.ok || !result.data) {
+        throw new Error(result.message || 'Failed to load POS reconciliation');
+      }
+
+      setItems(result.data);
+    } catch (err) {
+      console.error('POS reconciliation load error:', err);
+      setError(err instanceof Error ? err.message : 'POS 突合データの取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, [startDate, endDate, status, tolerance]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const storeNames = useMemo(() => new Map(stores.map(store => [store.value, store.label])), [stores]);
+
+  const resolve = async (item: PosReconciliationItem, request: Omit<PosReconciliationResolveRequest, 'updated_at'>) => {
+    setResolvingId(item.id);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/pos-reconciliation/${item.id}/resolve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...request, updated_at: item.updated_at }),
+      });
+
+      const result: APIResponse<ValidationError[] | null> = await response.json();
+
+      if (!response.ok) {
+        const detail = response.status === 400 && Array.isArray(result.data) && result.data.length > 0
+          ? result.data[0].message
+          : result.message;
+        throw new Error(detail || 'Failed to resolve POS reconciliation');
+      }
+
+      setMessage(result.message || '差異を解消しました');
+      setAnnotating(null);
+    } catch (err) {
+      console.error('POS reconciliation resolve error:', err);
+      setError(err instanceof Error ? err.message : '差異の解消に失敗しました');
+    } finally {
+      setResolvingId(null);
+      await loadItems();
+    }
+  };
+
+  const handleAccept = (item: PosReconciliationItem) => {
+    const storeName = storeNames.get(item.store_id) || item.store_id;
+    if (!window.confirm(`${item.date} ${storeName} の売上を POS の値（${formatCurrency(Number(item.pos_revenue_ex_tax))}）に修正しますか？`)) {
+      return;
+    }
+
+    resolve(item, { resolution: 'accept_pos' });
+  };
+
+  return (
+    <div className="space-y-6">
+      <PosTotalsImportForm onSuccess={() => loadItems()} />
+
+      <div className="bg-white p-6 rounded-lg shadow-lg">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">POS 突合</h2>
+        <p className="text-sm text-gray-600 mb-6">
+          POS の日次合計と手入力された店頭の売上（税抜売上・取引数）を比較します。
+          差額が許容差額を超える店舗・日について、POS の値を採用して売上を修正するか、差異の理由を記録してください。
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <Input
+            type="date"
+            label="開始日"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+          <Input
+            type="date"
+            label="終了日"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+          <Select
+            label="表示"
+            options={STATUS_FILTER_OPTIONS}
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+          />
+          <Input
+            type="number"
+            label="許容差額（円）"
+            value={tolerance}
+            onChange={(e) => setTolerance(e.target.value)}
+            min="0"
+          />
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-4">
+            <p className="text-red-800 text-sm">{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-3 mb-4">
+            <p className="text-green-800 text-sm">{message}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">読み込み中...</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {status === 'open' ? '未解消の差異はありません' : '該当する POS 合計はありません'}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">日付</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">店舗</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">POS 税抜売上</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">入力 税抜売上</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">差額</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">取引数（POS / 入力）</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">状況</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {items.map(item => (
+                  <tr key={item.id} className={item.status === 'open' && item.has_difference ? 'bg-yellow-50' : undefined}>
+                    <td className="px-3 py-2 whitespace-nowrap">{item.date}</td>
+                    <td className="px-3 py-2">{storeNames.get(item.store_id) || item.store_id}</td>
+                    <td className="px-3 py-2 text-right">{formatCurrency(Number(item.pos_revenue_ex_tax))}</td>
+                    <td className="px-3 py-2 text-right">
+                      {item.reported_revenue_ex_tax === null ? '未入力' : formatCurrency(item.reported_revenue_ex_tax)}
+                    </td>
+                    <td className={`px-3 py-2 text-right ${item.revenue_difference === 0 ? '' : 'text-red-700 font-medium'}`}>
+                      {item.revenue_difference > 0 ? '+' : ''}{formatCurrency(item.revenue_difference)}
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      {item.pos_transactions ?? '-'} / {item.reported_transactions ?? '-'}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div>{POS_RECONCILIATION_STATUS_LABELS[item.status]}</div>
+                      {item.resolution_note && (
+                        <div className="text-xs text-gray-500">{item.resolution_note}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      {item.status === 'open' && (
+                        annotating?.id === item.id ? (
+                          <div className="flex items-center justify-end space-x-2">
+                            <input
+                              type="text"
+                              aria-label="差異の理由"
+                              value={annotating.note}
+                              onChange={(e) => setAnnotating({ id: item.id, note: e.target.value })}
+                              maxLength={500}
+                              placeholder="差異の理由"
+                              className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                            />
+                            <Button
+                              type="button"
+                              size="sm"
+                              onClick={() => resolve(item, { resolution: 'annotate', note: annotating.note })}
+                              loading={resolvingId === item.id}
+                              disabled={resolvingId !== null || !annotating.note.trim()}
+                            >
+                              記録
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setAnnotating(null)}
+                              disabled={resolvingId !== null}
+                            >
+                              キャンセル
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="space-x-2">
+                            <Button
+                              type="button"
+                              size="sm"
+                              onClick={() => handleAccept(item)}
+                              loading={resolvingId === item.id}
+                              disabled={resolvingId !== null || item.sales_count === 0}
+                            >
+                              POSの値を採用
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setAnnotating({ id: item.id, note: '' })}
+                              disabled={resolvingId !== null}
+                            >
+                              理由を記録
+                            </Button>
+                          </div>
+                        )
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { APIResponse } from '@/types/database.types';
+import type { ImportMode } from '@/lib/services/sales-import';
+import type { PosTotalsImportReport } from '@/lib/services/pos-totals-import';
+
+interface PosTotalsImportFormProps {
+  onSuccess?: (report: PosTotalsImportReport) => void;
+}
+
+// 取込みファイルのカラム説明
+const COLUMN_GUIDE = [
+  { column: 'date / 日付', description: 'YYYY-MM-DD または YYYY/MM/DD', required: true },
+  { column: 'store_id / 店舗ID', description: '店舗ID', required: true },
+  { column: 'revenue_ex_tax / 税抜売上', description: 'POS の日次締めの税抜売上合計（円）', required: true },
+  { column: 'transactions / 取引数', description: 'POS の会計数（空欄の場合は取引数を突合しない）', required: false },
+];
+
+// POS 日次合計の Excel / CSV 取込み（検証 → 取込みの2段階）
+export function PosTotalsImportForm({ onSuccess }: PosTotalsImportFormProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<PosTotalsImportReport | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [runningMode, setRunningMode] = useState<ImportMode | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setReport(null);
+    setMessage(null);
+    setError(null);
+  };
+
+  const runImport = async (mode: ImportMode) => {
+    if (!file) return;
+
+    setRunningMode(mode);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const body = new FormData();
+      body.append('file', file);
+      body.append('mode', mode);
+
+      const response = await fetch('/api/pos-reconciliation/import', {
+        method: 'POST',
+        body,
+      });
+
+      const result: APIResponse<PosTotalsImportReport | null> = await response.json();
+
+      if (result.data) {
+        setReport(result.data);
+      }
+
+      if (!response.ok || !result.success) {
+        setError(result.message || '取り込みに失敗しました');
+        return;
+      }
+
+      setMessage(result.message || null);
+
+      if (mode === 'commit' && result.data) {
+        onSuccess?.(result.data);
+      }
+    } catch (err) {
+      console.error('POS totals import error:', err);
+      setError('ネットワークエラーが発生しました。再度お試しください。');
+    } finally {
+      setRunningMode(null);
+    }
+  };
+
+  // 検証済みかつエラーなしの場合のみ取り込み可能
+  const canCommit = report?.mode === 'dry_run' && report.errorRows === 0 && report.validRows > 0;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg">
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">POS 日次合計の取込み</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        POS の日次締め（Zレポート）から出力したファイルを取り込みます。同じ日付・店舗の POS 合計が登録済みの場合は上書きし、値が変わった差異は未解消に戻ります。
+        まず検証を実行し、エラーがないことを確認してから取り込んでください。
+      </p>
+
+      {/* カラム説明 */}
+      <details className="mb-4 text-sm">
+        <summary className="cursor-pointer text-gray-700 font-medium">ファイル形式</summary>
+        <p className="text-gray-600 mt-2 mb-2">
+          1行目はヘッダー行です。1行に店舗ごとの1日の合計を指定してください。
+        </p>
+        <table className="min-w-full border border-gray-200">
+          <tbody>
+            {COLUMN_GUIDE.map(({ column, description, required }) => (
+              <tr key={column} className="border-b border-gray-200">
+                <td className="px-3 py-1 font-mono text-gray-800">{column}{required && ' *'}</td>
+                <td className="px-3 py-1 text-gray-600">{description}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="pos-totals-import-file">
+            取込みファイル *
+          </label>
+          <input
+            id="pos-totals-import-file"
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={handleFileChange}
+            className="block w-full text-sm text-gray-700"
+          />
+        </div>
+
+        {/* 検証結果 */}
+        {report && (
+          <div className="border-t pt-4">
+            <div className="bg-gray-50 p-4 rounded-lg grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+              <div>
+                <p className="text-gray-600">全行数</p>
+                <p className="font-semibold">{report.totalRows.toLocaleString()}行</p>
+              </div>
+              <div>
+                <p className="text-gray-600">正常</p>
+                <p className="font-semibold text-green-700">{report.validRows.toLocaleString()}行</p>
+              </div>
+              <div>
+                <p className="text-gray-600">エラー</p>
+                <p className="font-semibold text-red-700">{report.errorRows.toLocaleString()}行</p>
+              </div>
+              <div>
+                <p className="text-gray-600">差異</p>
+                <p className="font-semibold text-yellow-700">{report.differenceCount.toLocaleString()}件</p>
+              </div>
+            </div>
+
+            {report.errors.length > 0 && (
+              <div className="max-h-72 overflow-y-auto border border-red-200 rounded-md">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-red-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-red-800 w-20">行</th>
+                      <th className="px-3 py-2 text-left text-red-800 w-40">項目</th>
+                      <th className="px-3 py-2 text-left text-red-800">エラー内容</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.errors.flatMap(({ row, errors }) =>
+                      errors.map((rowError, index) => (
+                        <tr key={`${row}-${index}`} className="border-t border-red-100">
+                          <td className="px-3 py-1 text-gray-700">{index === 0 ? row : ''}</td>
+                          <td className="px-3 py-1 font-mono text-gray-700">{rowError.field}</td>
+                          <td className="px-3 py-1 text-gray-900">{rowError.message}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-3">
+            <p className="text-green-800 text-sm">{message}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3">
+            <p className="text-red-800 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-4">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => runImport('dry_run')}
+            loading={runningMode === 'dry_run'}
+            disabled={!file || runningMode !== null}
+          >
+            検証する
+          </Button>
+          <Button
+            type="button"
+            onClick={() => runImport('commit')}
+            loading={runningMode === 'commit'}
+            disabled={!canCommit || runningMode !== null}
+          >
+            取り込む
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { ATTACHMENT_CONTENT_TYPES, ATTACHMENT_LIMITS } from '@/lib/validations/attachments';
+import {
+  APIResponse,
+  Database,
+  SalesAttachmentDownload,
+  ValidationError,
+} from '@/types/database.types';
+
+type SalesAttachment = Database['public']['Tables']['sales_attachments']['Row'];
+
+interface SalesAttachmentsProps {
+  salesId: string;
+}
+
+const ACCEPT = Object.entries(ATTACHMENT_CONTENT_TYPES)
+  .flatMap(([contentType, extensions]) => [contentType, ...extensions])
+  .join(',');
+
+// 売上データの根拠資料（日報・Zレポート等）の添付・ダウンロード
+export function SalesAttachments({ salesId }: SalesAttachmentsProps) {
+  const [attachments, setAttachments] = useState<SalesAttachment[]>([]);
+  const [file, setFile] = useState<File | null>(null);
+  const [inputKey, setInputKey] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const loadAttachments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/sales/${salesId}/attachments`);
+      const result: APIResponse<SalesAttachment[] | null> = await response.json();
+
+      if (!response.ok || !result.data) {
+        throw new Error(result.message || 'Failed to load attachments');
+      }
+
+      setAttachments(result.data);
+    } catch (err) {
+      console.error('Sales attachments load error:', err);
+      setError(err instanceof Error ? err.message : '添付ファイルの取得に失敗しました');
+    }
+  }, [salesId]);
+
+  useEffect(() => {
+    loadAttachments();
+  }, [loadAttachments]);
+
+  const handleUpload = async () => {
+    if (!file) return;
+
+    setUploading(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const body = new FormData();
+      body.append('file', file);
+
+      const response = await fetch(`/api/sales/${salesId}/attachments`, {
+        method: 'POST',
+        body,
+      });
+
+      const result: APIResponse<SalesAttachment | ValidationError[] | null> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to upload attachment');
+      }
+
+      setMessage(result.message || 'ファイルを添付しました');
+      setFile(null);
+      setInputKey(key => key + 1);
+      await loadAttachments();
+    } catch (err) {
+      console.error('Sales attachment upload error:', err);
+      setError(err instanceof Error ? err.message : 'ファイルのアップロードに失敗しました');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDownload = async (attachment: SalesAttachment) => {
+    setDownloadingId(attachment.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sales/${salesId}/attachments/${attachment.id}`);
+      const result: APIResponse<SalesAttachmentDownload | null> = await response.json();
+
+      if (!response.ok || !result.data) {
+        throw new Error(result.message || 'Failed to create download URL');
+      }
+
+      window.open(result.data.url, '_blank', 'noopener');
+    } catch (err) {
+      console.error('Sales attachment download error:', err);
+      setError(err instanceof Error ? err.message : 'ファイルのダウンロードに失敗しました');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white p-6 rounded-lg shadow-lg mt-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">根拠資料</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        日報・Zレポートのレシートなど、入力した数値の根拠となる画像（JPEG・PNG・WebP）または PDF を添付します。
+        1ファイル10MBまで、{ATTACHMENT_LIMITS.maxFilesPerSales}件まで添付できます。添付したファイルは削除できません。
+      </p>
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">添付ファイルはありません</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md mb-4">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <div>
+                <p className="font-medium text-gray-900">{attachment.file_name}</p>
+                <p className="text-xs text-gray-500">
+                  {(attachment.size_bytes / 1024).toLocaleString(undefined, { maximumFractionDigits: 0 })}KB ・ {new Date(attachment.created_at).toLocaleString('ja-JP')}
+                </p>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => handleDownload(attachment)}
+                loading={downloadingId === attachment.id}
+                disabled={downloadingId !== null}
+              >
+                ダウンロード
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center space-x-4">
+        <input
+          key={inputKey}
+          type="file"
+          accept={ACCEPT}
+          aria-label="添付するファイル"
+          onChange={(e) => setFile(e.target.files?.[0] || null)}
+          className="block w-full text-sm text-gray-700"
+        />
+        <Button
+          type="button"
+          onClick={handleUpload}
+          loading={uploading}
+          disabled={!file || uploading}
+        >
+          添付する
+        </Button>
+      </div>
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-3 mt-4">
+          <p className="text-green-800 text-sm">{message}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 mt-4">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { SalesForm } from '@/components/sales/SalesForm';
+import { SalesStatusPanel } from '@/components/sales/SalesStatusPanel';
+import { SalesAttachments } from '@/components/sales/SalesAttachments';
+import { isSalesEditable } from '@/lib/sales-status';
+import { SALES_CHANNEL_LABELS } from '@/lib/sales-channels';
+import { formatCurrency } from '@/lib/validations/sales';
+import {
+  Database,
+  SalesInputForm,
+  APIResponse
+} from '@/types/database.types';
+
+type SalesRow = Database['public']['Tables']['sales']['Row'];
+
+interface SalesEditFormProps {
+  salesId: string;
+  onSuccess?: () => void;
+}
+
+// 売上編集フォーム（既存データを取得して SalesForm の initialData に渡す）
+export function SalesEditForm({ salesId, onSuccess }: SalesEditFormProps) {
+  const [sales, setSales] = useState<SalesRow | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchSales() {
+      try {
+        const response = await fetch(`/api/sales/${salesId}`);
+        const result: APIResponse<SalesRow | null> = await response.json();
+
+        if (!response.ok || !result.data) {
+          throw new Error(result.message || 'Failed to fetch sales data');
+        }
+
+        setSales(result.data);
+      } catch (error) {
+        console.error('Failed to fetch sales data:', error);
+        setError(error instanceof Error ? error.message : '売上データの取得に失敗しました');
+      }
+    }
+
+    fetchSales();
+  }, [salesId]);
+
+  if (error) {
+    return (
+      <div className="max-w-4xl mx-auto bg-red-50 border border-red-200 rounded-md p-4">
+        <p className="text-red-800">{error}</p>
+      </div>
+    );
+  }
+
+  if (!sales) {
+    return (
+      <div className="max-w-4xl mx-auto bg-white p-6 rounded-lg shadow-lg">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 bg-gray-200 rounded w-1/3"></div>
+          <div className="h-10 bg-gray-200 rounded"></div>
+          <div className="h-10 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const initialData: Partial<SalesInputForm> = {
+    date: sales.date,
+    store_id: sales.store_id,
+    department: sales.department ?? '',
+    product_category: sales.product_category ?? '',
+    channel: sales.channel,
+    revenue_ex_tax: sales.revenue_ex_tax,
+    footfall: sales.footfall ?? undefined,
+    transactions: sales.transactions ?? undefined,
+    discounts: sales.discounts ?? undefined,
+    notes: sales.notes ?? '',
+  };
+
+  const statusPanel = <SalesStatusPanel sales={sales} onStatusChange={setSales} />;
+
+  // 申請中・承認済みのデータは読み取り専用で表示
+  if (!isSalesEditable(sales.status)) {
+    return (
+      <>
+        {statusPanel}
+        <div className="max-w-4xl mx-auto bg-white p-6 rounded-lg shadow-lg">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">売上データ</h2>
+          <p className="text-gray-600 mb-6">
+            下書き以外の売上データは修正できません。修正が必要な場合は差戻しまたは承認取消を依頼してください。
+          </p>
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            {[
+              ['日付', sales.date],
+              ['部門', sales.department ?? '-'],
+              ['商品カテゴリ', sales.product_category ?? '-'],
+              ['チャネル', SALES_CHANNEL_LABELS[sales.channel]],
+              ['税抜売上', formatCurrency(sales.revenue_ex_tax)],
+              ['客数', sales.footfall?.toLocaleString() ?? '-'],
+              ['取引数', sales.transactions?.toLocaleString() ?? '-'],
+              ['割引額', sales.discounts !== null ? formatCurrency(sales.discounts) : '-'],
+              ['備考', sales.notes || '-'],
+            ].map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-gray-600">{label}</dt>
+                <dd className="font-medium text-gray-900">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+        <SalesAttachments salesId={sales.id} />
+      </>
+    );
+  }
+
+  return (
+    <>
+      {statusPanel}
+      <SalesForm
+        key={sales.updated_at}
+        salesId={sales.id}
+        updatedAt={sales.updated_at}
+        initialData={initialData}
+        onSuccess={onSuccess}
+      />
+      <SalesAttachments salesId={sales.id} />
+    </>
+  );
+}
@@ -0,0 +1,457 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { useMasterData } from '@/hooks/useMasterData';
+import { getMasterLabel, toMasterOptions } from '@/lib/master-data';
+import { isSalesEditable } from '@/lib/sales-status';
+import { DEFAULT_SALES_CHANNEL, SALES_CHANNELS, SALES_CHANNEL_LABELS } from '@/lib/sales-channels';
+import {
+  SALES_GRID_MAX_DAYS,
+  SalesGridRow,
+  buildSalesGridRows,
+  calculateSalesGridTotals,
+  getSalesGridDates,
+  getSalesGridKey,
+  getSalesGridRowKey,
+  parseClipboardGrid,
+  parseSalesGridValue,
+} from '@/lib/sales-grid';
+import { formatCurrency, getTodayString } from '@/lib/validations/sales';
+import {
+  APIResponse,
+  SalesBatchCell,
+  SalesBatchCellError,
+  SalesBatchResult,
+  SalesBatchRow,
+  SalesChannel,
+} from '@/types/database.types';
+
+const DAY_OPTIONS = Array.from({ length: SALES_GRID_MAX_DAYS }, (_, index) => ({
+  value: String(index + 1),
+  label: `${index + 1}日分`,
+}));
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+const CHANNEL_OPTIONS = SALES_CHANNELS.map(channel => ({ value: channel, label: SALES_CHANNEL_LABELS[channel] }));
+
+// 売上のまとめて入力（部門×カテゴリ × 日付）
+// 既存データは事前入力され、変更したセルだけを一括保存する（チャネルごとに入力）
+export function SalesEntryGrid() {
+  const [storeId, setStoreId] = useState('');
+  const [channel, setChannel] = useState<SalesChannel>(DEFAULT_SALES_CHANNEL);
+  const [startDate, setStartDate] = useState(getTodayString());
+  const [days, setDays] = useState(1);
+  const [stores, setStores] = useState<{ value: string; label: string }[]>([]);
+  const [existing, setExisting] = useState<Record<string, SalesBatchRow>>({});
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cellRefs = useRef(new Map<string, HTMLInputElement>());
+
+  const { departments, categories } = useMasterData();
+  const dates = useMemo(() => getSalesGridDates(startDate, days), [startDate, days]);
+
+  // 有効な部門×カテゴリ（無効化済みでも既存データのあるコードは残す）
+  const rows = useMemo(() => {
+    const existingRows = Object.values(existing);
+    const departmentCodes = toMasterOptions(departments, existingRows.map(row => row.department))
+      .map(option => option.value);
+    const categoryCodes = toMasterOptions(categories, existingRows.map(row => row.product_category))
+      .map(option => option.value);
+    return buildSalesGridRows(departmentCodes, categoryCodes);
+  }, [departments, categories, existing]);
+
+  useEffect(() => {
+    const loadStores = async () => {
+      try {
+        const response = await fetch('/api/stores');
+        const result: APIResponse<{ id: string; name: string; area: string | null }[] | null> = await response.json();
+
+        if (!response.ok || !result.data) {
+          throw new Error(result.message || 'Failed to load stores');
+        }
+
+        setStores(result.data.map(store => ({
+          value: store.id,
+          label: `${store.name}${store.area ? ` (${store.area})` : ''}`,
+        })));
+      } catch (err) {
+        console.error('Failed to load stores:', err);
+      }
+    };
+
+    loadStores();
+  }, []);
+
+  const loadExisting = useCallback(async () => {
+    if (!storeId) {
+      setExisting({});
+      setInputs({});
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setServerErrors({});
+
+    try {
+      const params = new URLSearchParams({
+        store_id: storeId,
+        start_date: dates[0],
+        end_date: dates[dates.length - 1],
+        channel,
+      });
+      const response = await fetch(`/api/sales/batch?${params}`);
+      const result: APIResponse<SalesBatchRow[] | null> = await response.json();
+
+      if (!response.ok || !result.data) {
+        throw new Error(result.message || 'Failed to load sales data');
+      }
+
+      const nextExisting: Record<string, SalesBatchRow> = {};
+      const nextInputs: Record<string, string> = {};
+      result.data.forEach(row => {
+        if (!row.department || !row.product_category) return;
+        const key = getSalesGridKey({ department: row.department, product_category: row.product_category }, row.date);
+        nextExisting[key] = row;
+        nextInputs[key] = String(Number(row.revenue_ex_tax));
+      });
+      setExisting(nextExisting);
+      setInputs(nextInputs);
+    } catch (err) {
+      console.error('Sales grid load error:', err);
+      setError(err instanceof Error ? err.message : '売上データの取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId, channel, dates]);
+
+  useEffect(() => {
+    loadExisting();
+  }, [loadExisting]);
+
+  const parsed = useMemo(() => {
+    const result: Record<string, ReturnType<typeof parseSalesGridValue>> = {};
+    Object.entries(inputs).forEach(([key, text]) => {
+      result[key] = parseSalesGridValue(text);
+    });
+    return result;
+  }, [inputs]);
+
+  const totals = useMemo(() => {
+    const values: Record<string, number | null> = {};
+    Object.entries(parsed).forEach(([key, cell]) => {
+      values[key] = cell.error ? null : cell.value;
+    });
+    return calculateSalesGridTotals(rows, dates, values);
+  }, [parsed, rows, dates]);
+
+  const isReadOnly = (key: string) => {
+    const row = existing[key];
+    return Boolean(row && !isSalesEditable(row.status));
+  };
+
+  // 保存対象（入力があり、既存の値から変わったセル）
+  const changedCells = useMemo(() => {
+    const cells: SalesBatchCell[] = [];
+    rows.forEach(row => {
+      dates.forEach(date => {
+        const key = getSalesGridKey(row, date);
+        const cell = parsed[key];
+        const current = existing[key];
+        if (!cell || cell.value === null || cell.error) return;
+        if (current && Number(current.revenue_ex_tax) === cell.value) return;
+
+        cells.push({
+          date,
+          department: row.department,
+          product_category: row.product_category,
+          revenue_ex_tax: cell.value,
+          ...(current ? { id: current.id, updated_at: current.updated_at } : {}),
+        });
+      });
+    });
+    return cells;
+  }, [rows, dates, parsed, existing]);
+
+  const invalidCount = Object.values(parsed).filter(cell => cell.error).length;
+
+  const setCellValue = (key: string, value: string) => {
+    setInputs(prev => ({ ...prev, [key]: value }));
+    setServerErrors(prev => {
+      if (!prev[key]) return prev;
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+    setMessage(null);
+  };
+
+  const focusCell = (rowIndex: number, columnIndex: number) => {
+    const row = rows[rowIndex];
+    const date = dates[columnIndex];
+    if (!row || !date) return;
+    cellRefs.current.get(getSalesGridKey(row, date))?.focus();
+  };
+
+  // 矢印キー・Enter でセル間を移動（左右は入力中の文字の端にカーソルがある場合のみ）
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, rowIndex: number, columnIndex: number) => {
+    const { selectionStart, selectionEnd, value } = e.currentTarget;
+    const atStart = selectionStart === 0 && selectionEnd === 0;
+    const atEnd = selectionStart === value.length && selectionEnd === value.length;
+
+    let target: [number, number] | null = null;
+    if (e.key === 'ArrowDown' || (e.key === 'Enter' && !e.shiftKey)) target = [rowIndex + 1, columnIndex];
+    else if (e.key === 'ArrowUp' || (e.key === 'Enter' && e.shiftKey)) target = [rowIndex - 1, columnIndex];
+    else if (e.key === 'ArrowLeft' && atStart) target = [rowIndex, columnIndex - 1];
+    else if (e.key === 'ArrowRight' && atEnd) target = [rowIndex, columnIndex + 1];
+
+    if (target) {
+      e.preventDefault();
+      focusCell(...target);
+    }
+  };
+
+  // Excel のセル範囲を貼り付けた場合は、貼り付け先のセルから右下方向に展開する
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>, rowIndex: number, columnIndex: number) => {
+    const matrix = parseClipboardGrid(e.clipboardData.getData('text'));
+    if (matrix.length === 1 && matrix[0].length === 1) return;
+
+    e.preventDefault();
+    const updates: Record<string, string> = {};
+    matrix.forEach((values, rowOffset) => {
+      const row = rows[rowIndex + rowOffset];
+      if (!row) return;
+
+      values.forEach((value, columnOffset) => {
+        const date = dates[columnIndex + columnOffset];
+        if (!date) return;
+
+        const key = getSalesGridKey(row, date);
+        if (!isReadOnly(key)) {
+          updates[key] = value.trim();
+        }
+      });
+    });
+
+    setInputs(prev => ({ ...prev, ...updates }));
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    if (invalidCount > 0) {
+      setError(`入力に誤りのあるセルが${invalidCount}件あります`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/sales/batch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ store_id: storeId, channel, cells: changedCells }),
+      });
+      const result: APIResponse<SalesBatchResult | SalesBatchCellError[] | SalesBatchCell[] | null> = await response.json();
+
+      // 400: 入力エラー、423: 締め済み期間のセル
+      if ((response.status === 400 || response.status === 423) && Array.isArray(result.data)) {
+        const errors: Record<string, string> = {};
+        (result.data as SalesBatchCellError[]).forEach(cellError => {
+          if (!cellError.date) return;
+          errors[getSalesGridKey(cellError, cellError.date)] = cellError.message;
+        });
+        setServerErrors(errors);
+      }
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to save sales data');
+      }
+
+      setMessage(result.message || '売上データを保存しました');
+      await loadExisting();
+    } catch (err) {
+      console.error('Sales grid save error:', err);
+      setError(err instanceof Error ? err.message : '売上データの保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">売上まとめて入力</h2>
+        <p className="text-sm text-gray-600">
+          部門×カテゴリごとの税抜売上を入力します。矢印キー・Enter でセルを移動でき、Excel からの貼り付けにも対応しています。
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <Select
+          label="店舗"
+          value={storeId}
+          onChange={(e) => setStoreId(e.target.value)}
+          options={stores}
+          placeholder="店舗を選択"
+        />
+        <Select
+          label="チャネル"
+          value={channel}
+          onChange={(e) => setChannel(e.target.value as SalesChannel)}
+          options={CHANNEL_OPTIONS}
+        />
+        <Input
+          label="開始日"
+          type="date"
+          value={startDate}
+          onChange={(e) => e.target.value && setStartDate(e.target.value)}
+        />
+        <Select
+          label="日数"
+          value={String(days)}
+          onChange={(e) => setDays(Number(e.target.value))}
+          options={DAY_OPTIONS}
+        />
+      </div>
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-3 mb-4">
+          <p className="text-green-800 text-sm">{message}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-4">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      {!storeId ? (
+        <p className="text-sm text-gray-500">店舗を選択してください</p>
+      ) : loading ? (
+        <p className="text-sm text-gray-500">読み込み中...</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm border border-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">部門</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">カテゴリ</th>
+                  {dates.map(date => (
+                    <th key={date} className="px-2 py-2 text-right font-medium text-gray-700 whitespace-nowrap">
+                      {formatDateLabel(date)}
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">合計</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rows.map((row, rowIndex) => (
+                  <tr key={getSalesGridRowKey(row)}>
+                    <td className="px-3 py-1 whitespace-nowrap text-gray-900">
+                      {isFirstOfDepartment(rows, rowIndex) ? getMasterLabel(departments, row.department) : ''}
+                    </td>
+                    <td className="px-3 py-1 whitespace-nowrap text-gray-700">
+                      {getMasterLabel(categories, row.product_category)}
+                    </td>
+                    {dates.map((date, columnIndex) => {
+                      const key = getSalesGridKey(row, date);
+                      const cellError = parsed[key]?.error || serverErrors[key];
+                      const readOnly = isReadOnly(key);
+                      const changed = changedCells.some(cell => getSalesGridKey(cell, cell.date) === key);
+
+                      return (
+                        <td key={date} className="px-1 py-1">
+                          <input
+                            ref={(element) => {
+                              if (element) cellRefs.current.set(key, element);
+                              else cellRefs.current.delete(key);
+                            }}
+                            type="text"
+                            inputMode="numeric"
+                            value={inputs[key] ?? ''}
+                            readOnly={readOnly}
+                            title={cellError || (readOnly ? '申請中・承認済みのため修正できません' : undefined)}
+                            aria-label={`${getMasterLabel(departments, row.department)} ${getMasterLabel(categories, row.product_category)} ${date}`}
+                            aria-invalid={Boolean(cellError)}
+                            onChange={(e) => setCellValue(key, e.target.value)}
+                            onKeyDown={(e) => handleKeyDown(e, rowIndex, columnIndex)}
+                            onPaste={(e) => handlePaste(e, rowIndex, columnIndex)}
+                            onFocus={(e) => e.target.select()}
+                            className={clsx(
+                              'w-28 rounded border px-2 py-1 text-right focus:outline-none focus:ring-2 focus:ring-primary-500',
+                              {
+                                'border-red-500 bg-red-50': cellError,
+                                'border-gray-200 bg-gray-100 text-gray-500': !cellError && readOnly,
+                                'border-yellow-400 bg-yellow-50': !cellError && !readOnly && changed,
+                                'border-gray-300': !cellError && !readOnly && !changed,
+                              }
+                            )}
+                          />
+                        </td>
+                      );
+                    })}
+                    <td className="px-3 py-1 text-right whitespace-nowrap text-gray-900">
+                      {formatCurrency(totals.rowTotals[getSalesGridRowKey(row)] || 0)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50 font-medium">
+                <tr>
+                  <td colSpan={2} className="px-3 py-2 text-gray-700">日別合計</td>
+                  {dates.map(date => (
+                    <td key={date} className="px-2 py-2 text-right whitespace-nowrap text-gray-900">
+                      {formatCurrency(totals.columnTotals[date] || 0)}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 text-right whitespace-nowrap text-gray-900">
+                    {formatCurrency(totals.grandTotal)}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4 mt-4">
+            <p className="text-xs text-gray-500">
+              黄色は未保存の変更、灰色は申請中・承認済みで修正できないセルです。空欄にしても既存データは削除されません。
+            </p>
+            <Button
+              type="button"
+              onClick={handleSave}
+              loading={saving}
+              disabled={saving || changedCells.length === 0}
+            >
+              {`保存（${changedCells.length}件）`}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function isFirstOfDepartment(rows: SalesGridRow[], index: number): boolean {
+  return index === 0 || rows[index - 1].department !== rows[index].department;
+}
+
+function formatDateLabel(date: string): string {
+  const [, month, day] = date.split('-').map(Number);
+  const weekday = WEEKDAY_LABELS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  return `${month}/${day}(${weekday})`;
+}
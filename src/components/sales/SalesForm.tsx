@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
@@ -11,40 +11,34 @@ import {
   formatCurrency, 
   parseCurrency 
 } from '@/lib/validations/sales';
+import { validateLaborHoursForm } from '@/lib/validations/labor-hours';
 import { 
   SalesInputForm, 
   ValidationError, 
   APIResponse 
 } from '@/types/database.types';
 import { createClient } from '@/lib/supabase/client';
+import { TaxRule, calculateSalesTax, fetchTaxRules, formatTaxRate } from '@/lib/tax';
+import { toMasterOptions } from '@/lib/master-data';
+import { SalesAnomalyWarning } from '@/lib/sales-anomaly';
+import { DEFAULT_SALES_CHANNEL, SALES_CHANNELS, SALES_CHANNEL_LABELS } from '@/lib/sales-channels';
+import { CLIENT_VALIDATION_HEADER, OFFLINE_QUEUED_HEADER } from '@/lib/offline-sales-queue';
+import { useMasterData } from '@/hooks/useMasterData';
+
+const CHANNEL_OPTIONS = SALES_CHANNELS.map(channel => ({ value: channel, label: SALES_CHANNEL_LABELS[channel] }));
 
 interface SalesFormProps {
   onSuccess?: () => void;
   initialData?: Partial<SalesInputForm>;
+  // 編集モード: 対象の売上ID と取得時点の updated_at（楽観的排他制御用）
+  salesId?: string;
+  updatedAt?: string;
 }
 
-// 部門オプション（実際の運用では API から取得）
-const DEPARTMENTS = [
-  { value: 'electronics', label: '家電' },
-  { value: 'clothing', label: '衣料品' },
-  { value: 'food', label: '食品' },
-  { value: 'cosmetics', label: '化粧品' },
-  { value: 'books', label: '書籍' },
-  { value: 'sports', label: 'スポーツ用品' },
-];
-
-// 商品カテゴリオプション
-const PRODUCT_CATEGORIES = [
-  { value: 'premium', label: 'プレミアム' },
-  { value: 'standard', label: 'スタンダード' },
-  { value: 'budget', label: 'バジェット' },
-  { value: 'seasonal', label: 'シーズン商品' },
-  { value: 'limited', label: '限定商品' },
-];
-
-export function SalesForm({ onSuccess, initialData }: SalesFormProps) {
+export function SalesForm({ onSuccess, initialData, salesId, updatedAt }: SalesFormProps) {
   const router = useRouter();
   const supabase = createClient();
+  const isEditMode = Boolean(salesId);
 
   // フォーム状態
   const [formData, setFormData] = useState<SalesInputForm>({
@@ -52,6 +46,7 @@ export function SalesForm({ onSuccess, initialData }: SalesFormProps) {
     store_id: '',
     department: '',
     product_category: '',
+    channel: DEFAULT_SALES_CHANNEL,
     revenue_ex_tax: 0,
     footfall: undefined,
     transactions: undefined,
@@ -63,8 +58,23 @@ export function SalesForm({ onSuccess, initialData }: SalesFormProps) {
   // UI状態
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
   const [stores, setStores] = useState<{ value: string; label: string }[]>([]);
+  const [taxRules, setTaxRules] = useState<TaxRule[]>([]);
   const [showCalculations, setShowCalculations] = useState(false);
+  // 部門の人時（任意、新規登録時のみ。売上の保存後に同じ日・店舗・部門の人時として登録する）
+  const [laborHours, setLaborHours] = useState('');
+  // 過去の同曜日と大きく異なる値の注意（確認すれば保存できる）
+  const [anomalyWarnings, setAnomalyWarnings] = useState<SalesAnomalyWarning[]>([]);
+  // オフライン時に送信待ちへ保存したことの案内
+  const [offlineMessage, setOfflineMessage] = useState<string | null>(null);
+  // 新規登録の再送用キー（通信エラー後の再送では同じキーを使い、二重登録を防ぐ）
+  const idempotencyKeyRef = useRef<string | null>(null);
+
+  // 部門・商品カテゴリ（無効化済みでも編集中の値は選択肢に残す）
+  const { departments, categories } = useMasterData();
+  const departmentOptions = toMasterOptions(departments, [formData.department]);
+  const categoryOptions = toMasterOptions(categories, [formData.product_category]);
 
   // 店舗データを取得
   useEffect(() => {
@@ -90,12 +100,21 @@ export function SalesForm({ onSuccess, initialData }: SalesFormProps) {
     fetchStores();
   }, [supabase]);
 
+  // 税率ルールを取得（税込売上の表示用。保存時の税額は API 側で計算）
+  useEffect(() => {
+    fetchTaxRules(supabase)
+      .then(setTaxRules)
+      .catch(error => console.error('Failed to fetch tax rules:', error));
+  }, [supabase]);
+
   // フォーム入力ハンドラー
   const handleInputChange = (field: keyof SalesInputForm, value: string | number) => {
     setFormData(prev => ({
       ...prev,
       [field]: value,
     }));
+    setAnomalyWarnings([]);
+    idempotencyKeyRef.current = null;
 
     // リアルタイムバリデーション
     const fieldErrors = validateSalesForm({ [field]: value });
@@ -116,9 +135,11 @@ export function SalesForm({ onSuccess, initialData }: SalesFormProps) {
   // 計算値の取得
   const getCalculations = () => {
     const { revenue_ex_tax, footfall, transactions, discounts } = formData;
+    const taxCalculation = calculateSalesTax(taxRules, formData);
     
     const calculations = {
-      totalRevenue: revenue_ex_tax + (revenue_ex_tax * 0.1), // 税込売上（10%）
+      taxRate: taxCalculation?.tax_rate ?? null,
+      totalRevenue: revenue_ex_tax + (taxCalculation?.tax || 0), // 税込売上（税率ルールに基づく）
       averageTransactionValue: transactions && transactions > 0 
         ? revenue_ex_tax / transactions 
         : 0,
@@ -131,12 +152,51 @@ export function SalesForm({ onSuccess, initialData }: SalesFormProps) {
     return calculations;
   };
 
+  // 人時の登録（エラー時はメッセージを返す）
+  const saveLaborHours = async (): Promise<string | null> => {
+    try {
+      const response = await fetch('/api/labor-hours', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          date: formData.date,
+          store_id: formData.store_id,
+          department: formData.department,
+          hours: Number(laborHours),
+        }),
+      });
+
+      if (response.ok) return null;
+
+      const result: APIResponse<unknown> = await response.json();
+      return result.message || '保存に失敗しました';
+    } catch (error) {
+      console.error('Error saving labor hours:', error);
+      return 'ネットワークエラーが発生しました';
+    }
+  };
+
   // フォーム送信
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+    await submitSales();
+  };
+
+  // 異常値の注意を確認済みとして保存
+  const handleConfirmWarnings = () => submitSales(anomalyWarnings.map(warning => warning.field));
+
+  const submitSales = async (acknowledgedWarnings?: string[]) => {
     // バリデーション
     const validationErrors = validateSalesForm(formData);
+    if (!isEditMode && laborHours !== '') {
+      validationErrors.push(
+        ...validateLaborHoursForm({ ...formData, hours: Number(laborHours) })
+          .filter(error => error.field === 'hours')
+          .map(error => ({ ...error, field: 'labor_hours' }))
+      );
+    }
     if (validationErrors.length > 0) {
       const errorMap: Record<string, string> = {};
       validationErrors.forEach(error => {
@@ -148,42 +208,95 @@ export function SalesForm({ onSuccess, initialData }: SalesFormProps) {
 
     setIsSubmitting(true);
     setErrors({});
+    setOfflineMessage(null);
+
+    if (!idempotencyKeyRef.current) {
+      idempotencyKeyRef.current = crypto.randomUUID();
+    }
+    const idempotencyKey = idempotencyKeyRef.current;
 
     try {
-      // 売上データを API に送信
-      const response = await fetch('/api/sales', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(formData),
-      });
+      // 売上データを API に送信（編集モードは PATCH）
+      const response = isEditMode
+        ? await fetch(`/api/sales/${salesId}`, {
+            method: 'PATCH',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              ...formData,
+              // 未入力の任意項目は null を送ってクリアする
+              footfall: formData.footfall ?? null,
+              transactions: formData.transactions ?? null,
+              discounts: formData.discounts ?? null,
+              updated_at: updatedAt,
+            }),
+          })
+        : await fetch('/api/sales', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Idempotency-Key': idempotencyKey,
+              [CLIENT_VALIDATION_HEADER]: 'passed',
+            },
+            body: JSON.stringify({
+              ...formData,
+              ...(acknowledgedWarnings ? { acknowledged_warnings: acknowledgedWarnings } : {}),
+            }),
+          });
 
       const result: APIResponse<any> = await response.json();
 
+      if (response.status === 422 && Array.isArray(result.data)) {
+        setAnomalyWarnings(result.data);
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(result.message || 'Failed to save sales data');
       }
 
+      // オフライン時は Service Worker が送信待ちに保存している（接続回復後に同じキーで再送）
+      const queuedOffline = response.headers.get(OFFLINE_QUEUED_HEADER) === 'true';
+
+      // 人時の入力があれば、売上の保存後に登録する
+      const laborError = !isEditMode && !queuedOffline && laborHours !== '' ? await saveLaborHours() : null;
+
       // 成功時の処理
-      if (onSuccess) {
+      setAnomalyWarnings([]);
+      idempotencyKeyRef.current = null;
+      if (queuedOffline) {
+        setOfflineMessage(
+          laborHours !== ''
+            ? `${result.message}（人時はオンライン時に改めて入力してください）`
+            : result.message || '送信待ちに保存しました'
+        );
+      } else if (laborError) {
+        setErrors({ submit: `売上は保存しましたが、人時を保存できませんでした（${laborError}）` });
+      } else if (onSuccess) {
         onSuccess();
       } else {
         router.push('/dashboard?refresh=true');
       }
 
+      if (isEditMode) {
+        return;
+      }
+
       // フォームリセット
       setFormData({
         date: getTodayString(),
-        store_id: formData.store_id, // 店舗は維持
+        store_id: formData.store_id, // 店舗・チャネルは維持
         department: '',
         product_category: '',
+        channel: formData.channel,
         revenue_ex_tax: 0,
         footfall: undefined,
         transactions: undefined,
         discounts: undefined,
         notes: '',
       });
+      setLaborHours('');
 
     } catch (error) {
       console.error('Error saving sales data:', error);
@@ -195,13 +308,51 @@ export function SalesForm({ onSuccess, initialData }: SalesFormProps) {
     }
   };
 
+  // 売上データ削除（編集モードのみ）
+  const handleDelete = async () => {
+    if (!salesId || !updatedAt) return;
+    if (!window.confirm('この売上データを削除しますか？この操作は取り消せません。')) return;
+
+    setIsDeleting(true);
+    setErrors({});
+
+    try {
+      const response = await fetch(
+        `/api/sales/${salesId}?updated_at=${encodeURIComponent(updatedAt)}`,
+        { method: 'DELETE' }
+      );
+      const result: APIResponse<null> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to delete sales data');
+      }
+
+      if (onSuccess) {
+        onSuccess();
+      } else {
+        router.push('/dashboard?refresh=true');
+      }
+    } catch (error) {
+      console.error('Error deleting sales data:', error);
+      setErrors({
+        submit: error instanceof Error ? error.message : '削除に失敗しました',
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
   const calculations = getCalculations();
 
   return (
     <div className="max-w-4xl mx-auto bg-white p-6 rounded-lg shadow-lg">
       <div className="mb-6">
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">売上入力</h2>
-        <p className="text-gray-600">店舗の売上データを入力してください。税抜金額で入力してください。</p>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">{isEditMode ? '売上修正' : '売上入力'}</h2>
+        <p className="text-gray-600">
+          {isEditMode
+            ? '登録済みの売上データを修正します。変更内容は監査ログに記録されます。'
+            : '店舗の売上データを入力してください。税抜金額で入力してください。'}
+        </p>
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-6">
@@ -229,7 +380,7 @@ export function SalesForm({ onSuccess, initialData }: SalesFormProps) {
 
           <Select
             label="部門 *"
-            options={DEPARTMENTS}
+            options={departmentOptions}
             value={formData.department}
             onChange={(e) => handleInputChange('department', e.target.value)}
             error={errors.department}
@@ -239,13 +390,22 @@ export function SalesForm({ onSuccess, initialData }: SalesFormProps) {
 
           <Select
             label="商品カテゴリ *"
-            options={PRODUCT_CATEGORIES}
+            options={categoryOptions}
             value={formData.product_category}
             onChange={(e) => handleInputChange('product_category', e.target.value)}
             error={errors.product_category}
             placeholder="カテゴリを選択"
             required
           />
+
+          <Select
+            label="チャネル *"
+            options={CHANNEL_OPTIONS}
+            value={formData.channel}
+            onChange={(e) => handleInputChange('channel', e.target.value)}
+            error={errors.channel}
+            required
+          />
         </div>
 
         {/* 売上情報 */}
@@ -296,6 +456,23 @@ export function SalesForm({ onSuccess, initialData }: SalesFormProps) {
               step="1"
               placeholder="任意"
             />
+
+            {!isEditMode && (
+              <Input
+                type="number"
+                label="部門の人時 (時間)"
+                value={laborHours}
+                onChange={(e) => {
+                  setLaborHours(e.target.value);
+                  setErrors(prev => ({ ...prev, labor_hours: '' }));
+                }}
+                error={errors.labor_hours}
+                min="0"
+                step="0.25"
+                placeholder="任意"
+                hint="この日の部門全体の労働時間（登録済みの場合は上書き）"
+              />
+            )}
           </div>
         </div>
 
@@ -317,7 +494,7 @@ export function SalesForm({ onSuccess, initialData }: SalesFormProps) {
             {showCalculations && (
               <div className="bg-gray-50 p-4 rounded-lg grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                 <div>
-                  <p className="text-gray-600">税込売上</p>
+                  <p className="text-gray-600">税込売上（税率 {formatTaxRate(calculations.taxRate)}）</p>
                   <p className="font-semibold">{formatCurrency(calculations.totalRevenue)}</p>
                 </div>
                 {calculations.averageTransactionValue > 0 && (
@@ -354,6 +531,38 @@ export function SalesForm({ onSuccess, initialData }: SalesFormProps) {
           />
         </div>
 
+        {/* 異常値の注意 */}
+        {anomalyWarnings.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+            <p className="text-yellow-800 font-medium mb-2">入力値を確認してください</p>
+            <ul className="list-disc list-inside text-sm text-yellow-800 space-y-1 mb-3">
+              {anomalyWarnings.map(warning => (
+                <li key={warning.field}>{warning.message}</li>
+              ))}
+            </ul>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-yellow-700">
+                誤りがなければそのまま保存できます。確認した内容は監査ログに記録されます。
+              </p>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={handleConfirmWarnings}
+                loading={isSubmitting}
+                disabled={isSubmitting}
+              >
+                確認して保存
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {offlineMessage && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+            <p className="text-yellow-800">{offlineMessage}</p>
+          </div>
+        )}
+
         {/* エラー表示 */}
         {errors.submit && (
           <div className="bg-red-50 border border-red-200 rounded-md p-4">
@@ -363,20 +572,32 @@ export function SalesForm({ onSuccess, initialData }: SalesFormProps) {
 
         {/* 送信ボタン */}
         <div className="flex justify-end space-x-4 pt-6 border-t">
+          {isEditMode && (
+            <Button
+              type="button"
+              variant="secondary"
+              className="mr-auto text-red-700"
+              onClick={handleDelete}
+              loading={isDeleting}
+              disabled={isSubmitting || isDeleting}
+            >
+              削除
+            </Button>
+          )}
           <Button
             type="button"
             variant="outline"
             onClick={() => router.back()}
-            disabled={isSubmitting}
+            disabled={isSubmitting || isDeleting}
           >
             キャンセル
           </Button>
           <Button
             type="submit"
             loading={isSubmitting}
-            disabled={isSubmitting}
+            disabled={isSubmitting || isDeleting}
           >
-            {isSubmitting ? '保存中...' : '売上を保存'}
+            {isSubmitting ? '保存中...' : isEditMode ? '変更を保存' : '売上を保存'}
           </Button>
         </div>
       </form>
@@ -0,0 +1,231 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+import { formatCurrency } from '@/lib/validations/sales';
+import { APIResponse } from '@/types/database.types';
+import type { ImportMode, ImportReport } from '@/lib/services/sales-import';
+
+interface SalesImportFormProps {
+  onSuccess?: (report: ImportReport) => void;
+}
+
+// 取込みファイルのカラム説明
+const COLUMN_GUIDE = [
+  { column: 'date / 日付', description: 'YYYY-MM-DD または YYYY/MM/DD', required: true },
+  { column: 'store_id / 店舗ID', description: '店舗ID', required: true },
+  { column: 'department / 部門', description: '部門コード（例: food）', required: true },
+  { column: 'product_category / 商品カテゴリ', description: 'カテゴリコード（例: standard）', required: true },
+  { column: 'revenue_ex_tax / 税抜売上', description: '税抜売上（円）', required: true },
+  { column: 'footfall / 客数', description: '客数（人）', required: false },
+  { column: 'transactions / 取引数', description: '取引数（件）', required: false },
+  { column: 'discounts / 割引額', description: '割引額（円）', required: false },
+  { column: 'notes / 備考', description: '備考', required: false },
+];
+
+export function SalesImportForm({ onSuccess }: SalesImportFormProps) {
+  const router = useRouter();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [runningMode, setRunningMode] = useState<ImportMode | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setReport(null);
+    setMessage(null);
+    setError(null);
+  };
+
+  const runImport = async (mode: ImportMode) => {
+    if (!file) return;
+
+    setRunningMode(mode);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const body = new FormData();
+      body.append('file', file);
+      body.append('mode', mode);
+
+      const response = await fetch('/api/sales/import', {
+        method: 'POST',
+        body,
+      });
+
+      const result: APIResponse<ImportReport | null> = await response.json();
+
+      if (result.data) {
+        setReport(result.data);
+      }
+
+      if (!response.ok || !result.success) {
+        setError(result.message || '取り込みに失敗しました');
+        return;
+      }
+
+      setMessage(result.message || null);
+
+      if (mode === 'commit' && result.data) {
+        if (onSuccess) {
+          onSuccess(result.data);
+        } else {
+          router.push('/dashboard?refresh=true');
+        }
+      }
+
+    } catch (err) {
+      console.error('Sales import error:', err);
+      setError('ネットワークエラーが発生しました。再度お試しください。');
+    } finally {
+      setRunningMode(null);
+    }
+  };
+
+  // 検証済みかつエラーなしの場合のみ取り込み可能
+  const canCommit = report?.mode === 'dry_run' && report.errorRows === 0 && report.validRows > 0;
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white p-6 rounded-lg shadow-lg">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">売上一括取込み</h2>
+        <p className="text-gray-600">
+          CSV（UTF-8 / Shift_JIS）または Excel(.xlsx) ファイルから売上データをまとめて登録します。
+          まず検証を実行し、エラーがないことを確認してから取り込んでください。
+        </p>
+      </div>
+
+      {/* カラム説明 */}
+      <details className="mb-6 text-sm">
+        <summary className="cursor-pointer text-gray-700 font-medium">ファイル形式</summary>
+        <p className="text-gray-600 mt-2 mb-2">1行目はヘッダー行です。英語・日本語どちらのカラム名でも指定できます。</p>
+        <table className="min-w-full border border-gray-200">
+          <tbody>
+            {COLUMN_GUIDE.map(({ column, description, required }) => (
+              <tr key={column} className="border-b border-gray-200">
+                <td className="px-3 py-1 font-mono text-gray-800">{column}{required && ' *'}</td>
+                <td className="px-3 py-1 text-gray-600">{description}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+
+      <div className="space-y-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="sales-import-file">
+            取込みファイル *
+          </label>
+          <input
+            id="sales-import-file"
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={handleFileChange}
+            className="block w-full text-sm text-gray-700"
+          />
+          <p className="mt-1 text-sm text-gray-500">最大5MB・5,000行</p>
+        </div>
+
+        {/* 検証結果 */}
+        {report && (
+          <div className="border-t pt-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              {report.mode === 'dry_run' ? '検証結果' : '取込み結果'}
+            </h3>
+            <div className="bg-gray-50 p-4 rounded-lg grid grid-cols-2 md:grid-cols-5 gap-4 text-sm mb-4">
+              <div>
+                <p className="text-gray-600">全行数</p>
+                <p className="font-semibold">{report.totalRows.toLocaleString()}行</p>
+              </div>
+              <div>
+                <p className="text-gray-600">正常</p>
+                <p className="font-semibold text-green-700">{report.validRows.toLocaleString()}行</p>
+              </div>
+              <div>
+                <p className="text-gray-600">エラー</p>
+                <p className="font-semibold text-red-700">{report.errorRows.toLocaleString()}行</p>
+              </div>
+              <div>
+                <p className="text-gray-600">税抜売上合計</p>
+                <p className="font-semibold">{formatCurrency(report.totalRevenueExTax)}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">消費税合計</p>
+                <p className="font-semibold">{formatCurrency(report.totalTax)}</p>
+              </div>
+            </div>
+
+            {report.errors.length > 0 && (
+              <div className="max-h-96 overflow-y-auto border border-red-200 rounded-md">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-red-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-red-800 w-20">行</th>
+                      <th className="px-3 py-2 text-left text-red-800 w-40">項目</th>
+                      <th className="px-3 py-2 text-left text-red-800">エラー内容</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.errors.flatMap(({ row, errors }) =>
+                      errors.map((rowError, index) => (
+                        <tr key={`${row}-${index}`} className="border-t border-red-100">
+                          <td className="px-3 py-1 text-gray-700">{index === 0 ? row : ''}</td>
+                          <td className="px-3 py-1 font-mono text-gray-700">{rowError.field}</td>
+                          <td className="px-3 py-1 text-gray-900">{rowError.message}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4">
+            <p className="text-green-800">{message}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-red-800">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-4 pt-6 border-t">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => router.back()}
+            disabled={runningMode !== null}
+          >
+            キャンセル
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => runImport('dry_run')}
+            loading={runningMode === 'dry_run'}
+            disabled={!file || runningMode !== null}
+          >
+            検証する
+          </Button>
+          <Button
+            type="button"
+            onClick={() => runImport('commit')}
+            loading={runningMode === 'commit'}
+            disabled={!canCommit || runningMode !== null}
+          >
+            {runningMode === 'commit' ? '取込み中...' : '取り込む'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { SalesEditForm } from '@/components/sales/SalesEditForm';
+import { useMasterData } from '@/hooks/useMasterData';
+import { getMasterLabel, toMasterOptions } from '@/lib/master-data';
+import { SALES_STATUS_LABELS } from '@/lib/sales-status';
+import {
+  SALES_HISTORY_ACTION_LABELS,
+  SALES_LEDGER_DEFAULT_LIMIT,
+  SalesLedgerQuery,
+  SalesLedgerSortField,
+  buildSalesLedgerSearchParams,
+} from '@/lib/sales-ledger';
+import { formatCurrency } from '@/lib/validations/sales';
+import {
+  APIResponse,
+  Database,
+  SalesHistoryEntry,
+  SalesLedgerSubtotals,
+  SalesLedgerTotals,
+} from '@/types/database.types';
+
+type SalesLedgerRow = Database['public']['Tables']['sales']['Row'] & {
+  dim_store: { name: string; area: string | null } | null;
+};
+
+type SalesLedgerFilters = Pick<SalesLedgerQuery, 'storeId' | 'department' | 'productCategory' | 'status' | 'startDate' | 'endDate'>;
+
+// 並び替えできる列
+const SORTABLE_COLUMNS: { field: SalesLedgerSortField; label: string }[] = [
+  { field: 'revenue_ex_tax', label: '税抜売上' },
+  { field: 'footfall', label: '客数' },
+  { field: 'transactions', label: '取引数' },
+  { field: 'updated_at', label: '更新日時' },
+];
+
+const EMPTY_FILTERS: SalesLedgerFilters = {
+  storeId: null,
+  department: null,
+  productCategory: null,
+  status: null,
+  startDate: null,
+  endDate: null,
+};
+
+const STATUS_OPTIONS = Object.entries(SALES_STATUS_LABELS).map(([value, label]) => ({ value, label }));
+
+// 売上台帳（入力済みデータの一覧・小計・行ごとの変更履歴・その場での修正）
+export function SalesLedger() {
+  const [filters, setFilters] = useState<SalesLedgerFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<SalesLedgerSortField>('date');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [offset, setOffset] = useState(0);
+  const [rows, setRows] = useState<SalesLedgerRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [totals, setTotals] = useState<SalesLedgerSubtotals | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [stores, setStores] = useState<{ value: string; label: string }[]>([]);
+  const [historyRowId, setHistoryRowId] = useState<string | null>(null);
+  const [editingRowId, setEditingRowId] = useState<string | null>(null);
+
+  const { departments, categories } = useMasterData();
+  const limit = SALES_LEDGER_DEFAULT_LIMIT;
+
+  useEffect(() => {
+    const loadStores = async () => {
+      try {
+        const response = await fetch('/api/stores');
+        const result: APIResponse<{ id: string; name: string; area: string | null }[] | null> = await response.json();
+
+        if (!response.ok || !result.data) {
+          throw new Error(result.message || 'Failed to load stores');
+        }
+
+        setStores(result.data.map(store => ({
+          value: store.id,
+          label: `${store.name}${store.area ? ` (${store.area})` : ''}`,
+        })));
+      } catch (err) {
+        console.error('Failed to load stores:', err);
+      }
+    };
+
+    loadStores();
+  }, []);
+
+  const loadLedger = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = buildSalesLedgerSearchParams({ ...filters, sort, order, limit, offset });
+      const response = await fetch(`/api/sales?${params}`);
+      const result: APIResponse<SalesLedgerRow[] | null> = await response.json();
+
+      if (!response.ok || !result.data) {
+        throw new Error(result.message || 'Failed to load sales ledger');
+      }
+
+      setRows(result.data);
+      setTotal(result.meta?.total ?? 0);
+      setTotals(result.meta?.totals ?? null);
+    } catch (err) {
+      console.error('Sales ledger error:', err);
+      setError(err instanceof Error ? err.message : '売上データの取得に失敗しました');
+      setRows([]);
+      setTotal(0);
+      setTotals(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, sort, order, limit, offset]);
+
+  useEffect(() => {
+    loadLedger();
+  }, [loadLedger]);
+
+  const updateFilter = (field: keyof SalesLedgerFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [field]: value || null }));
+    setOffset(0);
+  };
+
+  const handleSort = (field: SalesLedgerSortField) => {
+    if (sort === field) {
+      setOrder(order === 'desc' ? 'asc' : 'desc');
+    } else {
+      setSort(field);
+      setOrder('desc');
+    }
+    setOffset(0);
+  };
+
+  const handleEditSuccess = () => {
+    setEditingRowId(null);
+    loadLedger();
+  };
+
+  const sortIndicator = (field: SalesLedgerSortField) => {
+    if (sort !== field) return '';
+    return order === 'desc' ? ' ▼' : ' ▲';
+  };
+
+  const pageEnd = Math.min(offset + rows.length, total);
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">売上台帳</h2>
+          <p className="text-sm text-gray-600">入力済みの売上データと変更履歴を確認できます</p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={() => { setFilters(EMPTY_FILTERS); setOffset(0); }}>
+          条件をクリア
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <Select
+          label="店舗"
+          value={filters.storeId ?? ''}
+          onChange={(e) => updateFilter('storeId', e.target.value)}
+          options={stores}
+          placeholder="すべての店舗"
+        />
+        <Select
+          label="部門"
+          value={filters.department ?? ''}
+          onChange={(e) => updateFilter('department', e.target.value)}
+          options={toMasterOptions(departments, [filters.department])}
+          placeholder="すべての部門"
+        />
+        <Select
+          label="商品カテゴリ"
+          value={filters.productCategory ?? ''}
+          onChange={(e) => updateFilter('productCategory', e.target.value)}
+          options={toMasterOptions(categories, [filters.productCategory])}
+          placeholder="すべてのカテゴリ"
+        />
+        <Select
+          label="ステータス"
+          value={filters.status ?? ''}
+          onChange={(e) => updateFilter('status', e.target.value)}
+          options={STATUS_OPTIONS}
+          placeholder="すべてのステータス"
+        />
+        <Input
+          label="開始日"
+          type="date"
+          value={filters.startDate ?? ''}
+          onChange={(e) => updateFilter('startDate', e.target.value)}
+        />
+        <Input
+          label="終了日"
+          type="date"
+          value={filters.endDate ?? ''}
+          onChange={(e) => updateFilter('endDate', e.target.value)}
+        />
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-4">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">
+                <button type="button" onClick={() => handleSort('date')} className="hover:text-primary-600">
+                  日付{sortIndicator('date')}
+                </button>
+              </th>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">店舗</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">部門</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">カテゴリ</th>
+              {SORTABLE_COLUMNS.map(column => (
+                <th key={column.field} className="px-3 py-2 text-right font-medium text-gray-700">
+                  <button type="button" onClick={() => handleSort(column.field)} className="hover:text-primary-600">
+                    {column.label}{sortIndicator(column.field)}
+                  </button>
+                </th>
+              ))}
+              <th className="px-3 py-2 text-left font-medium text-gray-700">ステータス</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {loading && (
+              <tr>
+                <td colSpan={10} className="px-3 py-4 text-center text-gray-500">読み込み中...</td>
+              </tr>
+            )}
+            {!loading && rows.length === 0 && (
+              <tr>
+                <td colSpan={10} className="px-3 py-4 text-center text-gray-500">該当する売上データがありません</td>
+              </tr>
+            )}
+            {!loading && rows.map(row => (
+              <Fragment key={row.id}>
+                <tr>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-900">{row.date}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-900">{row.dim_store?.name ?? row.store_id}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-700">{getMasterLabel(departments, row.department)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-700">{getMasterLabel(categories, row.product_category)}</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap text-gray-900">{formatCurrency(row.revenue_ex_tax)}</td>
+                  <td className="px-3 py-2 text-right text-gray-700">{row.footfall?.toLocaleString('ja-JP') ?? '-'}</td>
+                  <td className="px-3 py-2 text-right text-gray-700">{row.transactions?.toLocaleString('ja-JP') ?? '-'}</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap text-gray-500">{formatDateTime(row.updated_at)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-700">{SALES_STATUS_LABELS[row.status]}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right space-x-3">
+                    <button
+                      type="button"
+                      onClick={() => setHistoryRowId(historyRowId === row.id ? null : row.id)}
+                      className="text-primary-600 hover:text-primary-700"
+                    >
+                      履歴
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingRowId(editingRowId === row.id ? null : row.id)}
+                      className="text-primary-600 hover:text-primary-700"
+                    >
+                      {editingRowId === row.id ? '閉じる' : '修正'}
+                    </button>
+                  </td>
+                </tr>
+                {historyRowId === row.id && (
+                  <tr>
+                    <td colSpan={10} className="px-3 py-3 bg-gray-50">
+                      <SalesHistoryList salesId={row.id} />
+                    </td>
+                  </tr>
+                )}
+                {editingRowId === row.id && (
+                  <tr>
+                    <td colSpan={10} className="px-3 py-4 bg-gray-50">
+                      <SalesEditForm salesId={row.id} onSuccess={handleEditSuccess} />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+          {totals && !loading && rows.length > 0 && (
+            <tfoot className="bg-gray-50 font-medium">
+              <TotalsRow label="ページ小計" totals={totals.page} />
+              <TotalsRow label="絞り込み合計" totals={totals.filter} />
+            </tfoot>
+          )}
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between mt-4">
+        <p className="text-sm text-gray-600">
+          {total > 0 ? `${total.toLocaleString('ja-JP')}件中 ${offset + 1}〜${pageEnd}件を表示` : '0件'}
+        </p>
+        <div className="flex space-x-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setOffset(Math.max(offset - limit, 0))}
+            disabled={loading || offset === 0}
+          >
+            前へ
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setOffset(offset + limit)}
+            disabled={loading || offset + limit >= total}
+          >
+            次へ
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TotalsRow({ label, totals }: { label: string; totals: SalesLedgerTotals }) {
+  return (
+    <tr>
+      <td colSpan={4} className="px-3 py-2 text-gray-700">
+        {label}（{totals.record_count.toLocaleString('ja-JP')}件）
+      </td>
+      <td className="px-3 py-2 text-right whitespace-nowrap text-gray-900">{formatCurrency(totals.revenue_ex_tax)}</td>
+      <td className="px-3 py-2 text-right text-gray-900">{totals.footfall.toLocaleString('ja-JP')}</td>
+      <td className="px-3 py-2 text-right text-gray-900">{totals.transactions.toLocaleString('ja-JP')}</td>
+      <td colSpan={3} />
+    </tr>
+  );
+}
+
+// 行ごとの変更履歴（監査ログ）
+function SalesHistoryList({ salesId }: { salesId: string }) {
+  const [history, setHistory] = useState<SalesHistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const response = await fetch(`/api/sales/${salesId}/history`);
+        const result: APIResponse<SalesHistoryEntry[] | null> = await response.json();
+
+        if (!response.ok || !result.data) {
+          throw new Error(result.message || 'Failed to load sales history');
+        }
+
+        setHistory(result.data);
+      } catch (err) {
+        console.error('Sales history error:', err);
+        setError(err instanceof Error ? err.message : '変更履歴の取得に失敗しました');
+      }
+    };
+
+    loadHistory();
+  }, [salesId]);
+
+  if (error) {
+    return <p className="text-sm text-red-700">{error}</p>;
+  }
+
+  if (!history) {
+    return <p className="text-sm text-gray-500">読み込み中...</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">変更履歴はありません</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm text-gray-700">
+      {history.map(entry => (
+        <li key={entry.id}>
+          <span className="text-gray-500 mr-3">{formatDateTime(entry.at)}</span>
+          <span className="font-medium mr-3">{SALES_HISTORY_ACTION_LABELS[entry.action] ?? entry.action}</span>
+          <span>{entry.actor_name ?? entry.actor_id ?? '不明'}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('ja-JP', {
+    timeZone: 'Asia/Tokyo',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import {
+  SALES_STATUS_LABELS,
+  SALES_STATUS_TRANSITIONS,
+  SalesStatusAction,
+  getAvailableActions,
+} from '@/lib/sales-status';
+import { Database, SalesStatus, APIResponse } from '@/types/database.types';
+
+type SalesRow = Database['public']['Tables']['sales']['Row'];
+
+interface SalesStatusPanelProps {
+  sales: SalesRow;
+  onStatusChange: (sales: SalesRow) => void;
+}
+
+const STATUS_BADGE_CLASSES: Record<SalesStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  submitted: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  locked: 'bg-blue-100 text-blue-800',
+};
+
+// 承認ワークフローのステータス表示と操作
+export function SalesStatusPanel({ sales, onStatusChange }: SalesStatusPanelProps) {
+  const [comment, setComment] = useState('');
+  const [runningAction, setRunningAction] = useState<SalesStatusAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const actions = getAvailableActions(sales.status);
+
+  const handleAction = async (action: SalesStatusAction) => {
+    const transition = SALES_STATUS_TRANSITIONS[action];
+    if (transition.requiresComment && !comment.trim()) {
+      setError(`${transition.label}の理由をコメントに入力してください`);
+      return;
+    }
+
+    setRunningAction(action);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sales/${sales.id}/status`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action,
+          comment: comment.trim() || undefined,
+          updated_at: sales.updated_at,
+        }),
+      });
+
+      const result: APIResponse<SalesRow | null> = await response.json();
+
+      if (!response.ok || !result.data) {
+        throw new Error(result.message || 'Failed to change sales status');
+      }
+
+      setComment('');
+      onStatusChange(result.data);
+    } catch (err) {
+      console.error('Sales status change error:', err);
+      setError(err instanceof Error ? err.message : 'ステータスの変更に失敗しました');
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white p-6 rounded-lg shadow-lg mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">承認ステータス</h3>
+        <span className={`px-3 py-1 rounded-full text-sm font-medium ${STATUS_BADGE_CLASSES[sales.status]}`}>
+          {SALES_STATUS_LABELS[sales.status]}
+        </span>
+      </div>
+
+      <dl className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm mb-4">
+        <div>
+          <dt className="text-gray-600">申請日時</dt>
+          <dd className="font-medium">{formatDateTime(sales.submitted_at)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-600">承認日時</dt>
+          <dd className="font-medium">{formatDateTime(sales.approved_at)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-600">確定日時</dt>
+          <dd className="font-medium">{formatDateTime(sales.locked_at)}</dd>
+        </div>
+      </dl>
+
+      {sales.review_comment && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 mb-4 text-sm">
+          <p className="text-yellow-800 font-medium">承認者コメント</p>
+          <p className="text-yellow-900 whitespace-pre-wrap">{sales.review_comment}</p>
+        </div>
+      )}
+
+      {actions.length > 0 && (
+        <div className="border-t pt-4 space-y-4">
+          <Input
+            type="text"
+            label="コメント"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="差戻し・承認取消の場合は必須"
+          />
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-4">
+            {actions.map(action => (
+              <Button
+                key={action}
+                type="button"
+                variant={action === 'reject' || action === 'reopen' ? 'outline' : 'primary'}
+                onClick={() => handleAction(action)}
+                loading={runningAction === action}
+                disabled={runningAction !== null}
+              >
+                {SALES_STATUS_TRANSITIONS[action].label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString('ja-JP') : '-';
+}
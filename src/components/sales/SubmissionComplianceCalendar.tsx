@@ -0,0 +1,205 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { APIResponse } from '@/types/database.types';
+import { formatPeriodLabel } from '@/lib/accounting-periods';
+import type { ComplianceReport, SubmissionStatus } from '@/lib/services/submission-sla';
+
+const STATUS_CELL_CLASSES: Record<SubmissionStatus, string> = {
+  on_time: 'bg-green-500',
+  late: 'bg-yellow-400',
+  missing: 'bg-red-500',
+  pending: 'bg-gray-200',
+};
+
+const STATUS_LABELS: Record<SubmissionStatus, string> = {
+  on_time: '期限内提出',
+  late: '期限後提出',
+  missing: '未提出',
+  pending: '提出待ち',
+};
+
+// 店舗 × 日付の売上報告提出カレンダー
+export function SubmissionComplianceCalendar() {
+  const [month, setMonth] = useState(() => {
+    const jstNow = new Date(Date.now() + 9 * 60 * 60 * 1000);
+    return jstNow.toISOString().slice(0, 7);
+  });
+  const [report, setReport] = useState<ComplianceReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const [year, monthIndex] = month.split('-').map(Number);
+        const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+        const params = new URLSearchParams({
+          start: `${month}-01`,
+          end: `${month}-${String(lastDay).padStart(2, '0')}`,
+        });
+
+        const response = await fetch(`/api/sales/compliance?${params}`);
+        const result: APIResponse<ComplianceReport | null> = await response.json();
+
+        if (!response.ok || !result.data) {
+          throw new Error(result.message || 'Failed to load compliance report');
+        }
+
+        setReport(result.data);
+      } catch (err) {
+        console.error('Compliance report error:', err);
+        setError(err instanceof Error ? err.message : '提出状況の取得に失敗しました');
+        setReport(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [month]);
+
+  const dates = useMemo(
+    () => report?.dailyRates.map(daily => daily.date) ?? [],
+    [report]
+  );
+
+  const statusByKey = useMemo(() => {
+    const map = new Map<string, SubmissionStatus>();
+    report?.submissions.forEach(row => map.set(`${row.store_id}|${row.date}`, row.status));
+    return map;
+  }, [report]);
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">売上報告 提出状況</h2>
+          <p className="text-sm text-gray-600">各営業日 24:00（JST）までの提出を期限内として集計しています</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => setMonth(shiftMonth(month, -1))}>
+            前月
+          </Button>
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="border border-gray-300 rounded-md px-3 py-1.5 text-sm"
+          />
+          <Button type="button" variant="outline" size="sm" onClick={() => setMonth(shiftMonth(month, 1))}>
+            翌月
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-4">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading && <p className="text-sm text-gray-500">読み込み中...</p>}
+
+      {report && !loading && (
+        <>
+          <div className="flex flex-wrap items-center gap-6 mb-4">
+            <div>
+              <p className="text-sm text-gray-600">期限内提出率</p>
+              <p className={`text-3xl font-bold ${report.overallRate >= report.target ? 'text-green-600' : 'text-red-600'}`}>
+                {formatRate(report.overallRate)}
+              </p>
+              <p className="text-xs text-gray-500">目標 {formatRate(report.target)} 以上</p>
+            </div>
+            <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+              {(Object.keys(STATUS_LABELS) as SubmissionStatus[]).map(status => (
+                <span key={status} className="flex items-center">
+                  <span className={`inline-block w-3 h-3 rounded-sm mr-1 ${STATUS_CELL_CLASSES[status]}`} />
+                  {STATUS_LABELS[status]}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-600 mb-4">
+            締め状況（{new Date(report.generatedAt).toLocaleString('ja-JP')} 時点）：
+            {report.closedPeriods.length === 0
+              ? '未締め'
+              : report.closedPeriods.map(close => {
+                  const storeName = close.store_id
+                    ? report.stores.find(store => store.store_id === close.store_id)?.store_name || close.store_id
+                    : '全店';
+                  return `${formatPeriodLabel(close.period)} ${storeName}締め済み`;
+                }).join('、')}
+          </p>
+
+          {report.stores.length === 0 || dates.length === 0 ? (
+            <p className="text-sm text-gray-500">対象期間のデータがありません</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="text-sm">
+                <thead>
+                  <tr>
+                    <th className="sticky left-0 bg-white text-left pr-4 py-1 font-medium text-gray-700">店舗</th>
+                    <th className="text-right pr-4 py-1 font-medium text-gray-700">提出率</th>
+                    {dates.map(date => (
+                      <th key={date} className="px-0.5 py-1 text-xs font-normal text-gray-500 w-6">
+                        {Number(date.slice(8))}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.stores.map(store => (
+                    <tr key={store.store_id}>
+                      <td className="sticky left-0 bg-white pr-4 py-0.5 whitespace-nowrap text-gray-900">
+                        {store.store_name}
+                      </td>
+                      <td className={`text-right pr-4 py-0.5 font-medium ${store.rate >= report.target ? 'text-green-700' : 'text-red-700'}`}>
+                        {formatRate(store.rate)}
+                      </td>
+                      {dates.map(date => {
+                        const status = statusByKey.get(`${store.store_id}|${date}`) ?? 'pending';
+                        return (
+                          <td key={date} className="px-0.5 py-0.5">
+                            <div
+                              className={`w-5 h-5 rounded-sm ${STATUS_CELL_CLASSES[status]}`}
+                              title={`${store.store_name} ${date}: ${STATUS_LABELS[status]}`}
+                            />
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                  <tr className="border-t">
+                    <td className="sticky left-0 bg-white pr-4 pt-2 text-gray-700">日別提出率</td>
+                    <td />
+                    {report.dailyRates.map(daily => (
+                      <td key={daily.date} className="px-0.5 pt-2 text-center text-[10px] text-gray-500">
+                        {daily.expected > 0 ? Math.round(daily.rate * 100) : '-'}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function shiftMonth(month: string, offset: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, monthIndex - 1 + offset, 1));
+  return shifted.toISOString().slice(0, 7);
+}
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
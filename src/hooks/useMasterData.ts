@@ -0,0 +1,60 @@
+/**
+ * useMasterData Hook
+ *
+ * Purpose: 部門・商品カテゴリマスターの取得（入力フォーム・フィルタの選択肢用）
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { APIResponse } from '@/types/database.types'
+import { MasterDataItem, MasterDataType } from '@/lib/master-data'
+
+interface UseMasterDataReturn {
+  departments: MasterDataItem[]
+  categories: MasterDataItem[]
+  loading: boolean
+  error: string | null
+  reload: () => Promise<void>
+}
+
+async function fetchMasterData(type: MasterDataType): Promise<MasterDataItem[]> {
+  const response = await fetch(`/api/master-data/${type}`)
+  const result: APIResponse<MasterDataItem[] | null> = await response.json()
+
+  if (!response.ok || !result.data) {
+    throw new Error(result.message || 'マスターデータの取得に失敗しました')
+  }
+
+  return result.data
+}
+
+export function useMasterData(): UseMasterDataReturn {
+  const [departments, setDepartments] = useState<MasterDataItem[]>([])
+  const [categories, setCategories] = useState<MasterDataItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const [departmentData, categoryData] = await Promise.all([
+        fetchMasterData('departments'),
+        fetchMasterData('categories')
+      ])
+      setDepartments(departmentData)
+      setCategories(categoryData)
+    } catch (err) {
+      console.error('Master data fetch error:', err)
+      setError(err instanceof Error ? err.message : 'マスターデータの取得に失敗しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  return { departments, categories, loading, error, reload }
+}
@@ -95,7 +95,10 @@ export function useAnalyticsData(filters: DashboardFilters) {
       dateRange: filters.dateRange,
       storeIds: filters.storeIds?.sort(),
       departments: filters.departments?.sort(),
-      productCategories: filters.productCategories?.sort()
+      productCategories: filters.productCategories?.sort(),
+      channels: filters.channels?.sort(),
+      salesStatus: filters.salesStatus,
+      likeForLike: filters.likeForLike
     })
   }, [filters])
 
@@ -0,0 +1,73 @@
+/**
+ * useSalesComparison Hook
+ *
+ * Purpose: ダッシュボードのフィルタ条件に対する前期間・前年同期の KPI 取得
+ */
+
+import { useState, useEffect } from 'react'
+import { DashboardFilters, APIResponse } from '@/types/database.types'
+import { SalesComparison } from '@/lib/sales-comparison'
+
+interface UseSalesComparisonReturn {
+  comparison: SalesComparison | null
+  loading: boolean
+  error: string | null
+}
+
+export function useSalesComparison(filters: DashboardFilters): UseSalesComparisonReturn {
+  const [comparison, setComparison] = useState<SalesComparison | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // フィルタの内容が変わった場合のみ再取得する
+  const filterKey = JSON.stringify(filters)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const currentFilters: DashboardFilters = JSON.parse(filterKey)
+
+    const fetchComparison = async () => {
+      setLoading(true)
+      setError(null)
+
+      try {
+        const params = new URLSearchParams({
+          start: currentFilters.dateRange.start,
+          end: currentFilters.dateRange.end
+        })
+        if (currentFilters.storeIds?.length) params.set('storeIds', currentFilters.storeIds.join(','))
+        if (currentFilters.departments?.length) params.set('departments', currentFilters.departments.join(','))
+        if (currentFilters.productCategories?.length) {
+          params.set('productCategories', currentFilters.productCategories.join(','))
+        }
+        if (currentFilters.channels?.length) params.set('channels', currentFilters.channels.join(','))
+        if (currentFilters.salesStatus) params.set('salesStatus', currentFilters.salesStatus)
+        if (currentFilters.likeForLike) params.set('likeForLike', 'true')
+
+        const response = await fetch(`/api/analytics/comparison?${params.toString()}`, {
+          signal: controller.signal
+        })
+        const result: APIResponse<SalesComparison | null> = await response.json()
+
+        if (!response.ok || !result.data) {
+          throw new Error(result.message || '比較データの取得に失敗しました')
+        }
+
+        setComparison(result.data)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        console.error('Sales comparison fetch error:', err)
+        setComparison(null)
+        setError(err instanceof Error ? err.message : '比較データの取得に失敗しました')
+      } finally {
+        if (!controller.signal.aborted) setLoading(false)
+      }
+    }
+
+    fetchComparison()
+
+    return () => controller.abort()
+  }, [filterKey])
+
+  return { comparison, loading, error }
+}
@@ -0,0 +1,93 @@
+import type { createClient } from '@/lib/supabase/server';
+import { Database, ValidationError } from '@/types/database.types';
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * 経理の月次締め
+ * 締め済みの月（店舗別・全店）の売上データは、API と DB トリガーの両方で変更を拒否する
+ */
+
+export type AccountingPeriodClose = Database['public']['Tables']['accounting_period_closes']['Row'];
+
+// 締め済み期間への書き込みを拒否したときの DB トリガーの SQLSTATE
+export const PERIOD_CLOSED_SQLSTATE = 'AP001';
+
+export const PERIOD_CLOSED_CODE = 'PERIOD_CLOSED';
+
+// 締め済み期間の売上データを登録・変更しようとした場合のエラー（API の応答は 423）
+export const PERIOD_CLOSED_ERROR: ValidationError = {
+  field: 'date',
+  message: '締め済みの期間の売上データは登録・変更できません。締めの解除は管理者に依頼してください',
+  code: PERIOD_CLOSED_CODE,
+};
+
+type PeriodScope = Pick<AccountingPeriodClose, 'period' | 'store_id'>;
+
+/**
+ * 日付（YYYY-MM-DD）または月（YYYY-MM）→ 締めの単位の月初日（YYYY-MM-01）
+ */
+export function toPeriodMonth(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+export function formatPeriodLabel(period: string): string {
+  const [year, month] = period.split('-').map(Number);
+  return `${year}年${month}月`;
+}
+
+/**
+ * 店舗・日付に該当する締め（店舗別の締めを全店の締めより優先）
+ */
+export function findClosedPeriod<T extends PeriodScope>(
+  closes: T[],
+  storeId: string | null | undefined,
+  date: string
+): T | null {
+  const period = toPeriodMonth(date);
+  return closes.find(close => close.period === period && close.store_id !== null && close.store_id === storeId) ||
+    closes.find(close => close.period === period && close.store_id === null) ||
+    null;
+}
+
+export function buildPeriodClosedError(close: PeriodScope): ValidationError {
+  return {
+    ...PERIOD_CLOSED_ERROR,
+    message: `${formatPeriodLabel(close.period)}は${close.store_id ? 'この店舗で' : '全店で'}締め済みのため、売上データを登録・変更できません`,
+  };
+}
+
+/**
+ * DB トリガーによる締め済み期間の拒否か
+ */
+export function isPeriodClosedError(error: { code?: string } | null | undefined): boolean {
+  return error?.code === PERIOD_CLOSED_SQLSTATE;
+}
+
+/**
+ * 期間（日付）に掛かる締めの一覧（月の昇順）
+ */
+export async function fetchClosedPeriods(
+  supabase: SupabaseClient,
+  startDate?: string | null,
+  endDate?: string | null
+): Promise<AccountingPeriodClose[]> {
+  let query = supabase
+    .from('accounting_period_closes')
+    .select('*');
+
+  if (startDate) {
+    query = query.gte('period', toPeriodMonth(startDate));
+  }
+  if (endDate) {
+    query = query.lte('period', toPeriodMonth(endDate));
+  }
+
+  const { data, error } = await query.order('period', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch accounting period closes: ${error.message}`);
+  }
+
+  return data || [];
+}
@@ -4,32 +4,25 @@
  * Target: 100CCU負荷・99.5%可用性・p95≤1500ms
  */
 
-import { unstable_cache } from 'next/cache'
+import { unstable_cache, revalidateTag } from 'next/cache'
 import { createClient } from '@/lib/supabase/server'
+import { supabase as publicClient } from '@/lib/supabase/client'
+import { MasterDataItem, MasterDataType } from '@/lib/master-data'
+import { StoreItem } from '@/lib/store-lifecycle'
 import { CacheAsideStrategy, StaleWhileRevalidateStrategy } from './server-cache'
 
 // 型定義
-interface Store {
-  id: string
-  name: string
-  area: string
-  lat: number
-  lng: number
-  active: boolean
-}
+// 店舗は閉店済みのものも含めて返す（既存店の判定・過去データの表示に使うため）
+type Store = StoreItem
 
-interface Department {
-  id: string
-  name: string
-  description?: string
-  active: boolean
-}
+// 部門・商品カテゴリは無効化済みのものも含めて返す（既存データの表示名解決に使うため）
+type Department = MasterDataItem
 
-interface ProductCategory {
-  id: string
-  name: string
-  department_id?: string
-  active: boolean
+type ProductCategory = MasterDataItem
+
+const MASTER_DATA_CACHE_KEYS: Record<MasterDataType, string> = {
+  departments: 'master-departments',
+  categories: 'master-categories'
 }
 
 // ========================================
@@ -44,11 +37,9 @@ export const getCachedStores = async (): Promise<Store[]> => {
     'master-stores',
     {},
     async () => {
-      const supabase = createClient()
-      const { data, error } = await supabase
+      const { data, error } = await publicClient
         .from('dim_store')
         .select('*')
-        .eq('active', true)
         .order('name')
 
       if (error) {
@@ -67,15 +58,15 @@ export const getCachedStores = async (): Promise<Store[]> => {
  */
 export const getCachedDepartments = async (): Promise<Department[]> => {
   return await StaleWhileRevalidateStrategy.get(
-    'master-departments',
+    MASTER_DATA_CACHE_KEYS.departments,
     {},
     async () => {
-      const supabase = createClient()
-      const { data, error } = await supabase
+      // unstable_cache 内では cookies() を参照できないため、セッションを持たないクライアントで取得する
+      const { data, error } = await publicClient
         .from('dim_department')
         .select('*')
-        .eq('active', true)
-        .order('name')
+        .order('sort_order')
+        .order('code')
 
       if (error) {
         console.error('Failed to fetch departments:', error)
@@ -93,15 +84,14 @@ export const getCachedDepartments = async (): Promise<Department[]> => {
  */
 export const getCachedProductCategories = async (): Promise<ProductCategory[]> => {
   return await StaleWhileRevalidateStrategy.get(
-    'master-categories',
+    MASTER_DATA_CACHE_KEYS.categories,
     {},
     async () => {
-      const supabase = createClient()
-      const { data, error } = await supabase
+      const { data, error } = await publicClient
         .from('dim_product_category')
         .select('*')
-        .eq('active', true)
-        .order('name')
+        .order('sort_order')
+        .order('code')
 
       if (error) {
         console.error('Failed to fetch product categories:', error)
@@ -212,6 +202,23 @@ export const invalidateMasterDataCache = async (): Promise<void> => {
   console.log('Master data cache invalidated')
 }
 
+/**
+ * Invalidate a single master data type after it is changed from the admin screen
+ */
+export const invalidateMasterData = async (type: MasterDataType): Promise<void> => {
+  await CacheAsideStrategy.invalidate(MASTER_DATA_CACHE_KEYS[type])
+  revalidateTag('master-data')
+}
+
+/**
+ * Invalidate the store master after it is changed from the admin screen
+ */
+export const invalidateStores = async (): Promise<void> => {
+  await CacheAsideStrategy.invalidate('master-stores')
+  revalidateTag('master-data')
+  revalidateTag('stores')
+}
+
 /**
  * Invalidate External Data Cache
  */
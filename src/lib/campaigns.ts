@@ -0,0 +1,235 @@
+import { getSameWeekdayDates } from '@/lib/sales-anomaly';
+import { shiftDate } from '@/lib/sales-comparison';
+import { listDatesInRange } from '@/lib/targets';
+import { CampaignType, Database } from '@/types/database.types';
+
+export type Campaign = Database['public']['Tables']['campaigns']['Row'];
+
+type WeatherDaily = Pick<
+  Database['public']['Tables']['ext_weather_daily']['Row'],
+  'date' | 'temperature_max' | 'temperature_min' | 'weather_condition'
+>;
+
+export const CAMPAIGN_TYPES: CampaignType[] = ['point_up', 'seasonal_sale', 'clearance', 'other'];
+
+export const CAMPAIGN_TYPE_LABELS: Record<CampaignType, string> = {
+  point_up: 'ポイントアップ',
+  seasonal_sale: '季節セール',
+  clearance: '在庫処分',
+  other: 'その他',
+};
+
+// キャンペーンの対象を判定する条件（省略時は全店・全部門）
+export interface CampaignScope {
+  storeId?: string;
+  department?: string;
+}
+
+export type WeatherCategory = 'sunny' | 'cloudy' | 'rainy' | 'snowy';
+
+// 日別の天候（複数地点のデータは最多の天候・平均気温にまとめる）
+export interface DailyWeather {
+  condition: WeatherCategory | null;
+  temperature: number | null;
+}
+
+// ベースラインの選び方
+export interface UpliftBaselineOptions {
+  lookbackWeeks: number;
+  maxSamples: number;
+  temperatureTolerance: number;
+}
+
+export const UPLIFT_BASELINE_DEFAULTS: UpliftBaselineOptions = {
+  lookbackWeeks: 8,
+  maxSamples: 4,
+  temperatureTolerance: 5,
+};
+
+// キャンペーン日ごとの効果
+export interface CampaignUpliftDay {
+  date: string;
+  actual: number;
+  baseline: number | null;
+  baselineDates: string[];
+  matchedOnWeather: boolean;
+  upliftAmount: number | null;
+  upliftRate: number | null;
+}
+
+// キャンペーン期間全体の効果（ベースラインを作れない日は合計に含めない）
+export interface CampaignUplift {
+  campaignId: string;
+  days: CampaignUpliftDay[];
+  actual: number;
+  baseline: number;
+  upliftAmount: number;
+  upliftRate: number | null;
+  daysWithoutBaseline: number;
+}
+
+/**
+ * 指定日・対象でキャンペーンが実施されているか
+ * 店舗・部門を指定しない場合は一部の店舗・部門だけのキャンペーンも実施中として扱う
+ */
+export function isCampaignActive(
+  campaign: Pick<Campaign, 'start_date' | 'end_date' | 'store_ids' | 'departments'>,
+  date: string,
+  scope: CampaignScope = {}
+): boolean {
+  if (date < campaign.start_date || date > campaign.end_date) return false;
+  if (scope.storeId && campaign.store_ids.length > 0 && !campaign.store_ids.includes(scope.storeId)) return false;
+  if (scope.department && campaign.departments.length > 0 && !campaign.departments.includes(scope.department)) return false;
+  return true;
+}
+
+/**
+ * 2つのキャンペーンの対象店舗・部門が重なるか（空配列は全店・全部門）
+ */
+export function campaignTargetsOverlap(
+  a: Pick<Campaign, 'store_ids' | 'departments'>,
+  b: Pick<Campaign, 'store_ids' | 'departments'>
+): boolean {
+  const overlaps = (x: string[], y: string[]) =>
+    x.length === 0 || y.length === 0 || x.some(value => y.includes(value));
+  return overlaps(a.store_ids, b.store_ids) && overlaps(a.departments, b.departments);
+}
+
+/**
+ * 対象に該当するキャンペーン実施日の一覧
+ */
+export function buildCampaignDateSet(campaigns: Campaign[], scope: CampaignScope = {}): Set<string> {
+  const dates = new Set<string>();
+  campaigns.forEach(campaign => {
+    listDatesInRange(campaign.start_date, campaign.end_date)
+      .filter(date => isCampaignActive(campaign, date, scope))
+      .forEach(date => dates.add(date));
+  });
+  return dates;
+}
+
+/**
+ * 天候の分類（ETL の weather_condition と日本語表記のどちらも受け付ける）
+ */
+export function normalizeWeatherCondition(condition: string | null | undefined): WeatherCategory | null {
+  if (!condition) return null;
+  const value = condition.toLowerCase();
+  if (value.includes('snow') || value.includes('雪')) return 'snowy';
+  if (value.includes('rain') || value.includes('雨')) return 'rainy';
+  if (value.includes('cloud') || value.includes('曇')) return 'cloudy';
+  if (value.includes('sun') || value.includes('clear') || value.includes('晴')) return 'sunny';
+  return null;
+}
+
+/**
+ * 日別の天候のまとめ
+ */
+export function summarizeWeatherByDate(weather: WeatherDaily[]): Map<string, DailyWeather> {
+  const grouped = new Map<string, WeatherDaily[]>();
+  weather.forEach(row => {
+    grouped.set(row.date, [...(grouped.get(row.date) || []), row]);
+  });
+
+  const summary = new Map<string, DailyWeather>();
+  grouped.forEach((rows, date) => {
+    const counts = new Map<WeatherCategory, number>();
+    rows.forEach(row => {
+      const condition = normalizeWeatherCondition(row.weather_condition);
+      if (condition) counts.set(condition, (counts.get(condition) || 0) + 1);
+    });
+    const condition = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+    const temperatures = rows
+      .filter(row => row.temperature_max !== null && row.temperature_min !== null)
+      .map(row => (Number(row.temperature_max) + Number(row.temperature_min)) / 2);
+    const temperature = temperatures.length > 0
+      ? temperatures.reduce((sum, value) => sum + value, 0) / temperatures.length
+      : null;
+
+    summary.set(date, { condition, temperature });
+  });
+
+  return summary;
+}
+
+/**
+ * キャンペーン効果（アップリフト）の算出
+ * キャンペーン日ごとに、直近の同じ曜日で対象が重なるキャンペーンのない日をベースラインにする。
+ * 天候が近い日（同じ天候で平均気温の差が許容範囲内）を優先し、該当がなければ曜日だけで選ぶ。
+ */
+export function calculateCampaignUplift(
+  campaign: Campaign,
+  salesByDate: Map<string, number>,
+  otherCampaigns: Campaign[] = [],
+  weatherByDate: Map<string, DailyWeather> = new Map(),
+  options: UpliftBaselineOptions = UPLIFT_BASELINE_DEFAULTS
+): CampaignUplift {
+  const overlapping = otherCampaigns.filter(other =>
+    other.id !== campaign.id && campaignTargetsOverlap(campaign, other)
+  );
+  const excludedDates = buildCampaignDateSet([campaign, ...overlapping]);
+
+  const days = listDatesInRange(campaign.start_date, campaign.end_date)
+    .filter(date => salesByDate.has(date))
+    .map(date => {
+      const actual = salesByDate.get(date) || 0;
+
+      const candidates = getSameWeekdayDates(date, options.lookbackWeeks)
+        .filter(candidate => !excludedDates.has(candidate) && salesByDate.has(candidate));
+
+      const weather = weatherByDate.get(date);
+      const weatherMatched = weather?.condition
+        ? candidates.filter(candidate => isSimilarWeather(weather, weatherByDate.get(candidate), options))
+        : [];
+      const matchedOnWeather = weatherMatched.length > 0;
+      const baselineDates = (matchedOnWeather ? weatherMatched : candidates).slice(0, options.maxSamples);
+
+      const baseline = baselineDates.length > 0
+        ? baselineDates.reduce((sum, candidate) => sum + (salesByDate.get(candidate) || 0), 0) / baselineDates.length
+        : null;
+
+      return {
+        date,
+        actual,
+        baseline,
+        baselineDates,
+        matchedOnWeather,
+        upliftAmount: baseline !== null ? actual - baseline : null,
+        upliftRate: baseline ? (actual - baseline) / baseline : null,
+      };
+    });
+
+  const measured = days.filter(day => day.baseline !== null);
+  const actual = measured.reduce((sum, day) => sum + day.actual, 0);
+  const baseline = measured.reduce((sum, day) => sum + (day.baseline || 0), 0);
+
+  return {
+    campaignId: campaign.id,
+    days,
+    actual,
+    baseline,
+    upliftAmount: actual - baseline,
+    upliftRate: baseline > 0 ? (actual - baseline) / baseline : null,
+    daysWithoutBaseline: days.length - measured.length,
+  };
+}
+
+/**
+ * ベースライン算出に必要な売上の取得開始日
+ */
+export function getUpliftLookbackStart(
+  campaign: Pick<Campaign, 'start_date'>,
+  options: UpliftBaselineOptions = UPLIFT_BASELINE_DEFAULTS
+): string {
+  return shiftDate(campaign.start_date, -7 * options.lookbackWeeks);
+}
+
+function isSimilarWeather(
+  target: DailyWeather,
+  candidate: DailyWeather | undefined,
+  options: UpliftBaselineOptions
+): boolean {
+  if (!candidate || candidate.condition !== target.condition) return false;
+  if (target.temperature === null || candidate.temperature === null) return true;
+  return Math.abs(target.temperature - candidate.temperature) <= options.temperatureTolerance;
+}
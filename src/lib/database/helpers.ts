@@ -3,6 +3,9 @@
 // Created: 2025-08-19
 
 import { createClient } from '@/lib/supabase/server'
+import { formatTaxRate } from '@/lib/tax'
+import { getMonthStart } from '@/lib/targets'
+import { applyLikeForLikeScope, fetchLikeForLikeScope } from '@/lib/store-lifecycle'
 import { 
   Database, 
   SalesWithCalculated, 
@@ -13,6 +16,7 @@ import {
   STEMCategory,
   AuditAction
 } from '@/types/database.types'
+import { getSalesStatusesForFilter } from '@/lib/sales-status'
 
 type SupabaseClient = ReturnType<typeof createClient>
 
@@ -35,6 +39,7 @@ export async function getSalesData(
     `)
     .gte('date', filters.dateRange.start)
     .lte('date', filters.dateRange.end)
+    .in('status', getSalesStatusesForFilter(filters.salesStatus))
     .order('date', { ascending: false })
 
   if (filters.storeIds?.length) {
@@ -49,6 +54,10 @@ export async function getSalesData(
     query = query.in('product_category', filters.productCategories)
   }
 
+  if (filters.channels?.length) {
+    query = query.in('channel', filters.channels)
+  }
+
   const { data, error } = await query
 
   if (error) {
@@ -79,6 +88,7 @@ export async function getStoreSalesSummary(
     .eq('store_id', storeId)
     .gte('date', dateRange.start)
     .lte('date', dateRange.end)
+    .in('status', getSalesStatusesForFilter())
 
   if (error) {
     throw new Error(`Failed to fetch store sales summary: ${error.message}`)
@@ -107,6 +117,62 @@ export async function getStoreSalesSummary(
   }
 }
 
+// ========================================
+// SALES TARGET FUNCTIONS
+// ========================================
+
+// 部門・カテゴリの絞り込みと按分は buildDailyTargets（@/lib/targets）で行う
+export async function getSalesTargets(
+  supabase: SupabaseClient,
+  filters: DashboardFilters
+) {
+  let query = supabase
+    .from('sales_targets')
+    .select('*')
+    .gte('target_date', getMonthStart(filters.dateRange.start))
+    .lte('target_date', filters.dateRange.end)
+
+  if (filters.storeIds?.length) {
+    query = query.in('store_id', filters.storeIds)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch sales targets: ${error.message}`)
+  }
+
+  return data || []
+}
+
+// ========================================
+// LABOR HOURS FUNCTIONS
+// ========================================
+
+// 部門の絞り込みと人時生産性の算出は @/lib/labor-productivity で行う
+export async function getLaborHours(
+  supabase: SupabaseClient,
+  filters: DashboardFilters
+) {
+  let query = supabase
+    .from('labor_hours')
+    .select('*')
+    .gte('date', filters.dateRange.start)
+    .lte('date', filters.dateRange.end)
+
+  if (filters.storeIds?.length) {
+    query = query.in('store_id', filters.storeIds)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch labor hours: ${error.message}`)
+  }
+
+  return data || []
+}
+
 // ========================================
 // EXTERNAL DATA FUNCTIONS
 // ========================================
@@ -234,9 +300,16 @@ export async function getAnalyticsData(
   supabase: SupabaseClient,
   filters: DashboardFilters
 ): Promise<AnalyticsData> {
+  // 既存店モードでは比較期間を通して営業していた店舗に絞り込む
+  const likeForLike = await fetchLikeForLikeScope(supabase, filters)
+  const scopedFilters = applyLikeForLikeScope(filters, likeForLike)
+  const hasNoComparableStores = likeForLike?.storeIds.length === 0
+
   // Get all required data in parallel
-  const [salesData, marketData, weatherData, eventsData] = await Promise.all([
-    getSalesData(supabase, filters),
+  const [salesData, targetsData, laborHoursData, marketData, weatherData, eventsData] = await Promise.all([
+    hasNoComparableStores ? Promise.resolve([]) : getSalesData(supabase, scopedFilters),
+    hasNoComparableStores ? Promise.resolve([]) : getSalesTargets(supabase, scopedFilters),
+    hasNoComparableStores ? Promise.resolve([]) : getLaborHours(supabase, scopedFilters),
     getMarketData(supabase, ['TOPIX', 'NIKKEI225'], filters.dateRange),
     getWeatherData(supabase, ['東京', '大阪'], filters.dateRange),
     supabase
@@ -259,10 +332,13 @@ export async function getAnalyticsData(
 
   return {
     sales: salesData,
+    targets: targetsData,
+    laborHours: laborHoursData,
     marketData,
     weatherData,
     events: eventsData,
-    correlations
+    correlations,
+    ...(likeForLike ? { likeForLike } : {})
   }
 }
 
@@ -281,6 +357,7 @@ export async function getStorePerformanceComparison(
     `)
     .gte('date', dateRange.start)
     .lte('date', dateRange.end)
+    .in('status', getSalesStatusesForFilter())
 
   if (error) {
     throw new Error(`Failed to fetch store performance data: ${error.message}`)
@@ -525,6 +602,7 @@ export async function prepareSalesExportData(
     '客数': sale.footfall || 0,
     '取引数': sale.transactions || 0,
     '割引': sale.discounts || 0,
+    '税率': formatTaxRate(sale.tax_rate),
     '税額': sale.tax || 0,
     '総売上': sale.total_revenue,
     '平均単価': sale.average_transaction_value?.toFixed(2) || '',
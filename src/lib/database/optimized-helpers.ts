@@ -11,6 +11,9 @@ import {
   AnalyticsData,
   SalesWithCalculated
 } from '@/types/database.types'
+import { getSalesStatusesForFilter } from '@/lib/sales-status'
+import { getLaborHours, getSalesTargets } from '@/lib/database/helpers'
+import { applyLikeForLikeScope, fetchLikeForLikeScope } from '@/lib/store-lifecycle'
 import { performance } from 'perf_hooks'
 
 type SupabaseClient = ReturnType<typeof createClient>
@@ -124,6 +127,7 @@ export async function getOptimizedSalesData(
         store_id,
         department,
         product_category,
+        channel,
         revenue_ex_tax,
         footfall,
         transactions,
@@ -137,6 +141,7 @@ export async function getOptimizedSalesData(
       `)
       .gte('date', filters.dateRange.start)
       .lte('date', filters.dateRange.end)
+      .in('status', getSalesStatusesForFilter(filters.salesStatus))
       .order('date', { ascending: false })
       .limit(5000) // Performance limit
 
@@ -153,6 +158,10 @@ export async function getOptimizedSalesData(
       query = query.in('product_category', filters.productCategories)
     }
 
+    if (filters.channels?.length) {
+      query = query.in('channel', filters.channels)
+    }
+
     const { data, error } = await query
 
     if (error) {
@@ -253,9 +262,16 @@ export async function getOptimizedAnalyticsData(
   if (cached) return cached
 
   return measureQueryPerformance('optimized-analytics-full', async () => {
+    // 既存店モードでは比較期間を通して営業していた店舗に絞り込む
+    const likeForLike = await fetchLikeForLikeScope(supabase, filters)
+    const scopedFilters = applyLikeForLikeScope(filters, likeForLike)
+    const hasNoComparableStores = likeForLike?.storeIds.length === 0
+
     // Execute all data fetching in parallel for maximum performance
-    const [salesData, externalData] = await Promise.all([
-      getOptimizedSalesData(supabase, filters),
+    const [salesData, targetsData, laborHoursData, externalData] = await Promise.all([
+      hasNoComparableStores ? Promise.resolve([]) : getOptimizedSalesData(supabase, scopedFilters),
+      hasNoComparableStores ? Promise.resolve([]) : getSalesTargets(supabase, scopedFilters),
+      hasNoComparableStores ? Promise.resolve([]) : getLaborHours(supabase, scopedFilters),
       getOptimizedExternalData(supabase, filters)
     ])
 
@@ -268,13 +284,17 @@ export async function getOptimizedAnalyticsData(
 
     const result: AnalyticsData = {
       sales: salesData,
+      targets: targetsData,
+      laborHours: laborHoursData,
       marketData: externalData.marketData,
       weatherData: externalData.weatherData,
       events: externalData.events,
       correlations,
+      ...(likeForLike ? { likeForLike } : {}),
       meta: {
         recordCounts: {
           sales: salesData.length,
+          laborHours: laborHoursData.length,
           market: externalData.marketData.length,
           weather: externalData.weatherData.length,
           events: externalData.events.length
@@ -0,0 +1,81 @@
+import { createHash } from 'crypto';
+import type { createClient } from '@/lib/supabase/server';
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Idempotency-Key ヘッダーによる再送の重複防止（サーバー側）
+ * 成功した応答をキーごとに保存し、同じキーの再送には保存済みの応答を返す
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// 保存済みの応答を返したことを示すレスポンスヘッダー
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+
+// 同じキーの同時送信で後着側が受け取る unique_violation の判定用
+const IDEMPOTENCY_KEY_CONSTRAINT = 'idempotency_keys_pkey';
+
+export interface StoredIdempotentResponse {
+  request_hash: string;
+  status_code: number;
+  response: Record<string, unknown>;
+}
+
+export function isValidIdempotencyKey(key: string): boolean {
+  return key.trim().length > 0 && key.length <= IDEMPOTENCY_KEY_MAX_LENGTH;
+}
+
+/**
+ * リクエストボディ（送信されたテキストそのまま）の SHA-256
+ */
+export function hashRequestBody(body: string): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
+/**
+ * 有効期限内の保存済み応答（なければ null）
+ */
+export async function findIdempotentResponse(
+  supabase: SupabaseClient,
+  userId: string,
+  endpoint: string,
+  key: string
+): Promise<StoredIdempotentResponse | null> {
+  const { data, error } = await supabase
+    .from('idempotency_keys')
+    .select('request_hash, status_code, response')
+    .eq('user_id', userId)
+    .eq('endpoint', endpoint)
+    .eq('key', key)
+    .gt('expires_at', new Date().toISOString())
+    .single();
+
+  if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
+    throw new Error(`Failed to fetch idempotency key: ${error.message}`);
+  }
+
+  return data || null;
+}
+
+/**
+ * 同じキーの同時送信で、先着側がキーを登録済みだったか
+ */
+export function isIdempotencyKeyConflict(error: { code?: string; message?: string } | null): boolean {
+  return error?.code === '23505' && (error.message || '').includes(IDEMPOTENCY_KEY_CONSTRAINT);
+}
+
+/**
+ * 期限切れのキーを削除（定期実行の /api/sales/idempotency-keys/purge から service role で呼び出す。削除件数を返す）
+ */
+export async function purgeExpiredIdempotencyKeys(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.rpc('purge_expired_idempotency_keys');
+
+  if (error) {
+    throw new Error(`Failed to purge idempotency keys: ${error.message}`);
+  }
+
+  return data ?? 0;
+}
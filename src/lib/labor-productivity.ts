@@ -0,0 +1,120 @@
+import { Database, DashboardFilters, SalesWithCalculated } from '@/types/database.types';
+
+export type LaborHours = Database['public']['Tables']['labor_hours']['Row'];
+
+// 人時を絞り込む条件（人時は商品カテゴリ別には持たないため店舗・部門のみ）
+export type LaborScope = Pick<DashboardFilters, 'storeIds' | 'departments'>;
+
+type ProductivitySales = Pick<SalesWithCalculated, 'date' | 'store_id' | 'department' | 'revenue_ex_tax' | 'transactions'> & {
+  store_name?: string;
+};
+
+// 人時生産性（人時の登録がない日の売上は分子に含めない）
+export interface LaborProductivity {
+  laborHours: number;
+  revenue: number;
+  transactions: number;
+  revenuePerLaborHour: number | null;
+  transactionsPerLaborHour: number | null;
+}
+
+// 店舗別の人時生産性（人時売上の高い順）
+export interface StoreLaborProductivity extends LaborProductivity {
+  rank: number;
+  storeId: string;
+  storeName: string;
+}
+
+/**
+ * フィルタに該当する人時の抽出
+ * 部門で絞り込む場合は部門に割り当てない人時（department が NULL）は対象外
+ */
+export function selectScopedLaborHours(laborHours: LaborHours[], scope: LaborScope = {}): LaborHours[] {
+  return laborHours.filter(labor => {
+    if (scope.storeIds?.length && !scope.storeIds.includes(labor.store_id)) return false;
+    if (scope.departments?.length && !(labor.department && scope.departments.includes(labor.department))) return false;
+    return true;
+  });
+}
+
+/**
+ * 人時売上・人時取引数の算出（人時が0の場合は null）
+ */
+export function calculateLaborProductivity(
+  revenue: number,
+  transactions: number,
+  laborHours: number
+): LaborProductivity {
+  return {
+    laborHours,
+    revenue,
+    transactions,
+    revenuePerLaborHour: laborHours > 0 ? revenue / laborHours : null,
+    transactionsPerLaborHour: laborHours > 0 ? transactions / laborHours : null,
+  };
+}
+
+/**
+ * 期間全体の人時生産性
+ * 部門で絞り込む場合は店舗・日・部門、絞り込まない場合は店舗・日の単位で人時が登録されている売上だけを対象にする
+ */
+export function summarizeLaborProductivity(
+  sales: ProductivitySales[],
+  laborHours: LaborHours[],
+  scope: LaborScope = {}
+): LaborProductivity {
+  const scoped = selectScopedLaborHours(laborHours, scope);
+  const byDepartment = !!scope.departments?.length;
+  const keyOf = (row: { date: string; store_id: string; department: string | null }) =>
+    byDepartment ? [row.store_id, row.date, row.department || ''].join('|') : [row.store_id, row.date].join('|');
+
+  const coveredKeys = new Set(scoped.map(keyOf));
+  const covered = sales.filter(sale => coveredKeys.has(keyOf(sale)));
+
+  return calculateLaborProductivity(
+    covered.reduce((sum, sale) => sum + (sale.revenue_ex_tax || 0), 0),
+    covered.reduce((sum, sale) => sum + (sale.transactions || 0), 0),
+    scoped.reduce((sum, labor) => sum + Number(labor.hours || 0), 0)
+  );
+}
+
+/**
+ * 店舗別の人時生産性ランキング（人時の登録がない店舗は含めない）
+ */
+export function buildStoreProductivityRanking(
+  sales: ProductivitySales[],
+  laborHours: LaborHours[],
+  scope: LaborScope = {}
+): StoreLaborProductivity[] {
+  const scoped = selectScopedLaborHours(laborHours, scope);
+  const storeIds = [...new Set(scoped.map(labor => labor.store_id))];
+
+  const stores = storeIds.map(storeId => {
+    const storeSales = sales.filter(sale => sale.store_id === storeId);
+    return {
+      storeId,
+      storeName: storeSales.find(sale => sale.store_name)?.store_name || storeId,
+      ...summarizeLaborProductivity(
+        storeSales,
+        scoped.filter(labor => labor.store_id === storeId),
+        scope
+      ),
+    };
+  });
+
+  return stores
+    .filter(store => store.revenuePerLaborHour !== null)
+    .sort((a, b) => (b.revenuePerLaborHour || 0) - (a.revenuePerLaborHour || 0))
+    .map((store, index) => ({ ...store, rank: index + 1 }));
+}
+
+/**
+ * 日別の人時合計
+ */
+export function sumLaborHoursByDate(laborHours: Pick<LaborHours, 'date' | 'hours'>[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  laborHours.forEach(({ date, hours }) => {
+    totals.set(date, (totals.get(date) || 0) + Number(hours || 0));
+  });
+  return totals;
+}
@@ -0,0 +1,58 @@
+/**
+ * Department / product category master data shared by the API, admin screen and input forms
+ */
+
+import { Database } from '@/types/database.types';
+
+export type MasterDataType = 'departments' | 'categories';
+
+export type MasterDataItem = Database['public']['Tables']['dim_department']['Row'];
+
+export interface MasterDataOption {
+  value: string;
+  label: string;
+}
+
+export const MASTER_DATA_TYPES: MasterDataType[] = ['departments', 'categories'];
+
+export const MASTER_DATA_TABLES: Record<MasterDataType, 'dim_department' | 'dim_product_category'> = {
+  departments: 'dim_department',
+  categories: 'dim_product_category',
+};
+
+export const MASTER_DATA_LABELS: Record<MasterDataType, string> = {
+  departments: '部門',
+  categories: '商品カテゴリ',
+};
+
+export function isMasterDataType(value: unknown): value is MasterDataType {
+  return typeof value === 'string' && (MASTER_DATA_TYPES as string[]).includes(value);
+}
+
+/**
+ * 表示順（sort_order → コード）に並べる
+ */
+export function sortMasterData<T extends Pick<MasterDataItem, 'code' | 'sort_order'>>(items: T[]): T[] {
+  return [...items].sort((a, b) => a.sort_order - b.sort_order || a.code.localeCompare(b.code));
+}
+
+/**
+ * 選択肢に変換（既定では有効なもののみ）
+ * 編集中のデータが無効化済みのコードを持つ場合は includeCodes で選択肢に残す
+ */
+export function toMasterOptions(
+  items: MasterDataItem[],
+  includeCodes: (string | null | undefined)[] = []
+): MasterDataOption[] {
+  return sortMasterData(items)
+    .filter(item => item.active || includeCodes.includes(item.code))
+    .map(item => ({ value: item.code, label: item.name }));
+}
+
+/**
+ * コードの表示名（マスターにないコードはそのまま表示）
+ */
+export function getMasterLabel(items: MasterDataItem[], code: string | null | undefined): string {
+  if (!code) return '';
+  return items.find(item => item.code === code)?.name || code;
+}
@@ -184,6 +184,13 @@ export class SLOMonitor {
     this.checkViolation(target, value, metadata)
   }
 
+  /**
+   * Get an SLO target definition
+   */
+  getTarget(targetName: string): SLOTarget | undefined {
+    return this.targets.get(targetName)
+  }
+
   /**
    * Check if a metric violates SLO target
    */
@@ -0,0 +1,101 @@
+import type { SalesAnomalyWarning } from '@/lib/sales-anomaly';
+import type { SalesCreateRequest, ValidationError } from '@/types/database.types';
+
+/**
+ * オフライン時の売上入力キュー（クライアント側）
+ * キューの保存・再送は public/sw.js が行い、ここでは表示と操作のための型・メッセージを扱う
+ */
+
+// オフラインで保存されたことを示すレスポンスヘッダー（202 と一緒に返る）
+export const OFFLINE_QUEUED_HEADER = 'X-Offline-Queued';
+
+// 送信前にクライアント側のバリデーションを通過したことを示すリクエストヘッダー
+export const CLIENT_VALIDATION_HEADER = 'X-Client-Validation';
+
+export type QueuedSalesStatus = 'pending' | 'conflict';
+
+export interface QueuedSalesEntry {
+  id: string; // Idempotency-Key（再送時も同じキーを使う）
+  url: string;
+  body: string; // 送信するはずだったリクエストボディ（SalesCreateRequest の JSON）
+  status: QueuedSalesStatus;
+  validation: {
+    client: 'passed' | 'unchecked';
+    errors: ValidationError[];
+    warnings: SalesAnomalyWarning[];
+  };
+  response: { status: number; message: string | null } | null;
+  attempts: number;
+  queued_at: string;
+  last_attempt_at: string | null;
+}
+
+export type QueuedSalesAction = 'discard' | 'retry';
+
+export type SalesQueueMessage =
+  | { type: 'GET_SALES_QUEUE' }
+  | { type: 'REPLAY_SALES_QUEUE' }
+  | {
+      type: 'RESOLVE_QUEUED_SALES';
+      payload: { id: string; action: QueuedSalesAction; acknowledged_warnings?: string[] };
+    };
+
+// Service Worker からの更新通知
+export const SALES_QUEUE_UPDATED = 'SALES_QUEUE_UPDATED';
+
+/**
+ * Service Worker にキュー操作を送り、操作後のキューを受け取る
+ */
+export function sendSalesQueueMessage(message: SalesQueueMessage): Promise<QueuedSalesEntry[]> {
+  const controller = typeof navigator !== 'undefined' && 'serviceWorker' in navigator
+    ? navigator.serviceWorker.controller
+    : null;
+
+  if (!controller) {
+    return Promise.resolve([]);
+  }
+
+  return new Promise((resolve, reject) => {
+    const messageChannel = new MessageChannel();
+
+    messageChannel.port1.onmessage = (event) => {
+      if (event.data.error) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.payload || []);
+      }
+    };
+
+    controller.postMessage(message, [messageChannel.port2]);
+  });
+}
+
+/**
+ * 一覧表示用に、保存されたリクエストボディから売上の内容を取り出す
+ */
+export function parseQueuedSales(entry: QueuedSalesEntry): SalesCreateRequest | null {
+  try {
+    return JSON.parse(entry.body) as SalesCreateRequest;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 再送がサーバーに受け付けられなかった理由（ユーザーに対応を求める文言）
+ */
+export function describeQueuedSalesConflict(entry: QueuedSalesEntry): string | null {
+  if (entry.status !== 'conflict' || !entry.response) {
+    return null;
+  }
+
+  if (entry.validation.warnings.length > 0) {
+    return '過去の同曜日と大きく異なる値です。内容を確認のうえ送信してください';
+  }
+
+  if (entry.validation.errors.length > 0) {
+    return entry.validation.errors.map(error => error.message).join('、');
+  }
+
+  return entry.response.message || `送信できませんでした（HTTP ${entry.response.status}）`;
+}
@@ -0,0 +1,171 @@
+import type { createClient } from '@/lib/supabase/server';
+import { DEFAULT_SALES_CHANNEL } from '@/lib/sales-channels';
+import { Database, PosReconciliationStatus } from '@/types/database.types';
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+export type PosReconciliation = Database['public']['Tables']['pos_reconciliations']['Row'];
+
+type SalesRow = Database['public']['Tables']['sales']['Row'];
+
+// 突合に使う売上（POS は店頭の売上のみを集計するため店舗チャネルの行）
+export type ReportedSales = Pick<SalesRow, 'date' | 'store_id' | 'revenue_ex_tax' | 'transactions'>;
+
+// POS の値を採用する際に修正する売上
+export type AcceptTargetSales = Pick<
+  SalesRow,
+  'id' | 'updated_at' | 'date' | 'department' | 'product_category' | 'revenue_ex_tax' | 'transactions'
+>;
+
+// 差異とみなす許容範囲（税抜売上は円、取引数は件。差の絶対値がこれを超えると差異）
+export interface PosTolerance {
+  revenue: number;
+  transactions: number;
+}
+
+export const DEFAULT_POS_TOLERANCE: PosTolerance = {
+  revenue: 100,
+  transactions: 0,
+};
+
+export const POS_RECONCILIATION_STATUS_LABELS: Record<PosReconciliationStatus, string> = {
+  open: '未解消',
+  accepted: 'POSの値を採用',
+  annotated: '理由を記録',
+};
+
+// 突合結果（差額は POS − 手入力）
+export interface PosReconciliationItem extends PosReconciliation {
+  reported_revenue_ex_tax: number | null;
+  reported_transactions: number | null;
+  sales_count: number;
+  revenue_difference: number;
+  transactions_difference: number | null;
+  has_difference: boolean;
+}
+
+/**
+ * 突合の一意キー（pos_reconciliations_scope_key と同じ列）
+ */
+export function buildPosReconciliationKey(data: { date: string; store_id: string }): string {
+  return [data.date, data.store_id].join('|');
+}
+
+/**
+ * POS の合計と手入力売上の突合
+ * 売上が未入力の店舗・日は差異として扱う。POS の取引数がない場合は取引数を突合しない
+ */
+export function reconcilePosTotals(
+  reconciliations: PosReconciliation[],
+  sales: ReportedSales[],
+  tolerance: PosTolerance = DEFAULT_POS_TOLERANCE
+): PosReconciliationItem[] {
+  const reported = new Map<string, { revenue: number; transactions: number; count: number }>();
+  sales.forEach(sale => {
+    const key = buildPosReconciliationKey(sale);
+    const totals = reported.get(key) || { revenue: 0, transactions: 0, count: 0 };
+    totals.revenue += Number(sale.revenue_ex_tax || 0);
+    totals.transactions += Number(sale.transactions || 0);
+    totals.count += 1;
+    reported.set(key, totals);
+  });
+
+  return reconciliations.map(reconciliation => {
+    const totals = reported.get(buildPosReconciliationKey(reconciliation));
+    const posRevenue = Number(reconciliation.pos_revenue_ex_tax);
+    const revenueDifference = posRevenue - (totals?.revenue ?? 0);
+    const transactionsDifference = reconciliation.pos_transactions === null
+      ? null
+      : reconciliation.pos_transactions - (totals?.transactions ?? 0);
+
+    return {
+      ...reconciliation,
+      reported_revenue_ex_tax: totals ? totals.revenue : null,
+      reported_transactions: totals ? totals.transactions : null,
+      sales_count: totals?.count ?? 0,
+      revenue_difference: revenueDifference,
+      transactions_difference: transactionsDifference,
+      has_difference: !totals ||
+        Math.abs(revenueDifference) > tolerance.revenue ||
+        (transactionsDifference !== null && Math.abs(transactionsDifference) > tolerance.transactions),
+    };
+  });
+}
+
+/**
+ * 突合対象の売上（店舗チャネル、ステータスを問わず手入力された値）の取得
+ */
+export async function fetchReportedSales(
+  supabase: SupabaseClient,
+  storeIds: string[],
+  startDate: string,
+  endDate: string
+): Promise<ReportedSales[]> {
+  if (storeIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('sales')
+    .select('date, store_id, revenue_ex_tax, transactions')
+    .in('store_id', storeIds)
+    .gte('date', startDate)
+    .lte('date', endDate)
+    .eq('channel', DEFAULT_SALES_CHANNEL);
+
+  if (error) {
+    throw new Error(`Failed to fetch reported sales: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * 合計を重みに比例して整数で配分（端数は最大剰余法、重みがすべて0の場合は均等）
+ */
+export function allocateByWeight(total: number, weights: number[]): number[] {
+  if (weights.length === 0) return [];
+
+  const weightSum = weights.reduce((sum, weight) => sum + Math.max(weight, 0), 0);
+  const normalized = weightSum > 0
+    ? weights.map(weight => Math.max(weight, 0) / weightSum)
+    : weights.map(() => 1 / weights.length);
+
+  const target = Math.round(total);
+  const exact = normalized.map(share => share * target);
+  const allocated = exact.map(Math.floor);
+  let remainder = target - allocated.reduce((sum, value) => sum + value, 0);
+
+  exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index)
+    .forEach(({ index }) => {
+      if (remainder > 0) {
+        allocated[index] += 1;
+        remainder -= 1;
+      }
+    });
+
+  return allocated;
+}
+
+/**
+ * POS の値を採用した場合の売上の修正値
+ * 部門・カテゴリ別に入力された売上は、現在の税抜売上・取引数の比率で POS の合計を配分する
+ */
+export function buildPosAcceptChanges<T extends AcceptTargetSales>(
+  reconciliation: Pick<PosReconciliation, 'pos_revenue_ex_tax' | 'pos_transactions'>,
+  sales: T[]
+): (T & { revenue_ex_tax: number; transactions: number | null })[] {
+  const revenues = allocateByWeight(
+    Number(reconciliation.pos_revenue_ex_tax),
+    sales.map(sale => Number(sale.revenue_ex_tax || 0))
+  );
+  const transactions = reconciliation.pos_transactions === null
+    ? sales.map(sale => sale.transactions)
+    : allocateByWeight(reconciliation.pos_transactions, sales.map(sale => Number(sale.transactions || 0)));
+
+  return sales.map((sale, index) => ({
+    ...sale,
+    revenue_ex_tax: revenues[index],
+    transactions: transactions[index],
+  }));
+}
@@ -0,0 +1,164 @@
+import type { createClient } from '@/lib/supabase/server';
+import { shiftDate } from '@/lib/sales-comparison';
+import { DEFAULT_SALES_CHANNEL } from '@/lib/sales-channels';
+import { getSalesStatusesForFilter } from '@/lib/sales-status';
+import { SalesInputForm } from '@/types/database.types';
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+// 同じ曜日の直近8週と比較する
+export const ANOMALY_LOOKBACK_WEEKS = 8;
+
+// 比較に必要な最低件数（これより少ない場合は判定しない）
+export const ANOMALY_MIN_HISTORY = 4;
+
+// 修正 z スコア（Iglewicz & Hoaglin）の外れ値しきい値
+export const ANOMALY_Z_THRESHOLD = 3.5;
+
+// MAD を標準偏差相当に換算する係数（正規分布で 0.6745 = Φ⁻¹(0.75)）
+const MAD_SCALE = 0.6745;
+
+// MAD が 0 の場合に使う平均絶対偏差の換算係数（√(π/2)）
+const MEAN_AD_SCALE = 1.253314;
+
+export type SalesAnomalyField = 'revenue_ex_tax' | 'footfall' | 'transactions';
+
+export const SALES_ANOMALY_FIELDS: SalesAnomalyField[] = ['revenue_ex_tax', 'footfall', 'transactions'];
+
+const FIELD_LABELS: Record<SalesAnomalyField, { label: string; unit: string }> = {
+  revenue_ex_tax: { label: '税抜売上', unit: '円' },
+  footfall: { label: '客数', unit: '人' },
+  transactions: { label: '取引数', unit: '件' },
+};
+
+// 過去の同曜日の売上（判定に使う項目のみ）
+export type SalesHistoryRow = { date: string } & Partial<Record<SalesAnomalyField, number | null>>;
+
+export interface RobustZScore {
+  median: number;
+  // 履歴のばらつきがない（すべて同じ値）場合は null
+  zScore: number | null;
+}
+
+// 入力時の注意（確認すれば保存できる）
+export interface SalesAnomalyWarning {
+  field: SalesAnomalyField;
+  value: number;
+  median: number;
+  zScore: number | null;
+  historyCount: number;
+  direction: 'high' | 'low';
+  message: string;
+}
+
+/**
+ * 比較対象の日付（同じ曜日の直近 weeks 週、新しい順）
+ */
+export function getSameWeekdayDates(date: string, weeks = ANOMALY_LOOKBACK_WEEKS): string[] {
+  return Array.from({ length: weeks }, (_, index) => shiftDate(date, -7 * (index + 1)));
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * 中央値と MAD による修正 z スコア
+ * MAD が 0（半数以上が同じ値）の場合は平均絶対偏差で代用する
+ */
+export function calculateRobustZScore(value: number, history: number[]): RobustZScore {
+  const center = median(history);
+  const deviations = history.map(item => Math.abs(item - center));
+  const mad = median(deviations);
+
+  if (mad > 0) {
+    return { median: center, zScore: (MAD_SCALE * (value - center)) / mad };
+  }
+
+  const meanAD = deviations.reduce((sum, item) => sum + item, 0) / deviations.length;
+  if (meanAD > 0) {
+    return { median: center, zScore: (value - center) / (MEAN_AD_SCALE * meanAD) };
+  }
+
+  return { median: center, zScore: value === center ? 0 : null };
+}
+
+/**
+ * 過去の同曜日と比べて大きく外れている項目
+ * 未入力の項目、履歴が ANOMALY_MIN_HISTORY 件に満たない項目は判定しない
+ */
+export function detectSalesAnomalies(
+  input: Partial<Pick<SalesInputForm, SalesAnomalyField>>,
+  history: SalesHistoryRow[]
+): SalesAnomalyWarning[] {
+  const warnings: SalesAnomalyWarning[] = [];
+
+  SALES_ANOMALY_FIELDS.forEach(field => {
+    const value = input[field];
+    if (value === undefined || value === null || Number.isNaN(value)) return;
+
+    const values = history
+      .map(row => row[field])
+      .filter((item): item is number => item !== undefined && item !== null);
+    if (values.length < ANOMALY_MIN_HISTORY) return;
+
+    const { median: center, zScore } = calculateRobustZScore(value, values);
+    const isOutlier = zScore === null || Math.abs(zScore) > ANOMALY_Z_THRESHOLD;
+    if (!isOutlier) return;
+
+    const { label, unit } = FIELD_LABELS[field];
+    const direction = value > center ? 'high' : 'low';
+    warnings.push({
+      field,
+      value,
+      median: center,
+      zScore: zScore === null ? null : Math.round(zScore * 100) / 100,
+      historyCount: values.length,
+      direction,
+      message: `${label}が過去${ANOMALY_LOOKBACK_WEEKS}週の同じ曜日の中央値（${formatNumber(center)}${unit}）より大幅に${direction === 'high' ? '多く' : '少なく'}なっています（${formatNumber(value)}${unit}）`,
+    });
+  });
+
+  return warnings;
+}
+
+/**
+ * 確認が済んでいない注意（acknowledged に含まれない項目）
+ */
+export function getUnacknowledgedWarnings(
+  warnings: SalesAnomalyWarning[],
+  acknowledged: string[] = []
+): SalesAnomalyWarning[] {
+  return warnings.filter(warning => !acknowledged.includes(warning.field));
+}
+
+/**
+ * 同じ店舗・部門・カテゴリ・チャネルの過去の同曜日の売上
+ * 下書きは入力途中の値を含むため除き、提出済み・承認済み・確定のみを比較対象とする
+ */
+export async function fetchSalesAnomalyHistory(
+  supabase: SupabaseClient,
+  input: Pick<SalesInputForm, 'date' | 'store_id' | 'department' | 'product_category' | 'channel'>
+): Promise<SalesHistoryRow[]> {
+  const { data, error } = await supabase
+    .from('sales')
+    .select('date, revenue_ex_tax, footfall, transactions')
+    .eq('store_id', input.store_id)
+    .eq('department', input.department)
+    .eq('product_category', input.product_category)
+    .eq('channel', input.channel || DEFAULT_SALES_CHANNEL)
+    .in('date', getSameWeekdayDates(input.date))
+    .in('status', getSalesStatusesForFilter('approved_pending'));
+
+  if (error) {
+    throw new Error(`Failed to fetch sales history: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+function formatNumber(value: number): string {
+  return Math.round(value).toLocaleString('ja-JP');
+}
@@ -0,0 +1,28 @@
+import type { SalesChannel } from '@/types/database.types';
+
+/**
+ * Sales channel definitions shared by the API and the UI
+ */
+
+export const SALES_CHANNELS: SalesChannel[] = ['store', 'ec', 'corporate'];
+
+export const SALES_CHANNEL_LABELS: Record<SalesChannel, string> = {
+  store: '店頭',
+  ec: 'EC',
+  corporate: '外商',
+};
+
+// チャネル導入前のデータ・チャネル未指定の入力は店頭として扱う
+export const DEFAULT_SALES_CHANNEL: SalesChannel = 'store';
+
+export function isSalesChannel(value: unknown): value is SalesChannel {
+  return typeof value === 'string' && value in SALES_CHANNEL_LABELS;
+}
+
+/**
+ * クエリパラメータ（カンマ区切り）→ チャネルの一覧（不正な値は無視、空の場合は undefined）
+ */
+export function parseSalesChannels(value: string | null | undefined): SalesChannel[] | undefined {
+  const channels = (value || '').split(',').filter(isSalesChannel);
+  return channels.length > 0 ? channels : undefined;
+}
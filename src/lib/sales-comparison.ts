@@ -0,0 +1,106 @@
+/**
+ * KPI comparison definitions shared by the comparison API and KPICards
+ */
+
+import { LikeForLikeScope } from '@/types/database.types';
+
+export type ComparisonBasis = 'previous_period' | 'prior_year';
+
+export const COMPARISON_BASIS_LABELS: Record<ComparisonBasis, string> = {
+  previous_period: '前期間',
+  prior_year: '前年同期',
+};
+
+// 前年同期は曜日を揃えるため 52週（364日）前と比較する
+export const PRIOR_YEAR_OFFSET_DAYS = 364;
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface KPISummary {
+  totalRevenue: number;
+  totalFootfall: number;
+  totalTransactions: number;
+  averageTransactionValue: number;
+  conversionRate: number;
+}
+
+export interface ComparisonPeriod {
+  basis: ComparisonBasis;
+  dateRange: DateRange;
+  kpis: KPISummary;
+  // summary: mv_daily_sales_summary から集計 / sales: sales テーブルを直接集計
+  source: 'summary' | 'sales';
+}
+
+export interface SalesComparison {
+  dateRange: DateRange;
+  comparisons: Record<ComparisonBasis, ComparisonPeriod>;
+  // 既存店モードの場合のみ：集計対象・除外した店舗
+  likeForLike?: LikeForLikeScope;
+}
+
+export interface KPIChange {
+  percentage: number;
+  isPositive: boolean;
+  isNeutral: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * YYYY-MM-DD の日付を日数ずらす
+ */
+export function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * 比較対象の期間
+ * previous_period: 直前の同じ日数の期間 / prior_year: 364日前の同じ曜日並びの期間
+ */
+export function getComparisonRange(range: DateRange, basis: ComparisonBasis): DateRange {
+  if (basis === 'prior_year') {
+    return {
+      start: shiftDate(range.start, -PRIOR_YEAR_OFFSET_DAYS),
+      end: shiftDate(range.end, -PRIOR_YEAR_OFFSET_DAYS),
+    };
+  }
+
+  const days = Math.round((Date.parse(range.end) - Date.parse(range.start)) / DAY_MS) + 1;
+  return {
+    start: shiftDate(range.start, -days),
+    end: shiftDate(range.start, -1),
+  };
+}
+
+/**
+ * 合計値から KPI を算出
+ */
+export function buildKPISummary(totals: { revenue: number; footfall: number; transactions: number }): KPISummary {
+  return {
+    totalRevenue: totals.revenue,
+    totalFootfall: totals.footfall,
+    totalTransactions: totals.transactions,
+    averageTransactionValue: totals.transactions > 0 ? totals.revenue / totals.transactions : 0,
+    conversionRate: totals.footfall > 0 ? (totals.transactions / totals.footfall) * 100 : 0,
+  };
+}
+
+/**
+ * 比較値に対する増減率（比較値がない場合は変化なし扱い）
+ */
+export function calculateKPIChange(current: number, previous: number | null | undefined): KPIChange {
+  if (!previous) {
+    return { percentage: 0, isPositive: true, isNeutral: true };
+  }
+
+  const change = ((current - previous) / previous) * 100;
+  return {
+    percentage: Math.abs(change),
+    isPositive: change >= 0,
+    isNeutral: Math.abs(change) < 0.1,
+  };
+}
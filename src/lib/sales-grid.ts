@@ -0,0 +1,110 @@
+import { shiftDate } from '@/lib/sales-comparison';
+import { validateField } from '@/lib/validations/sales';
+
+/**
+ * 売上のまとめて入力（部門×カテゴリ × 日付のグリッド）
+ * セルの値は税抜売上。空欄のセルは未入力として扱い、保存の対象にしない
+ */
+
+// 一度に入力できる日数
+export const SALES_GRID_MAX_DAYS = 7;
+
+export interface SalesGridRow {
+  department: string;
+  product_category: string;
+}
+
+export interface SalesGridTotals {
+  rowTotals: Record<string, number>;
+  columnTotals: Record<string, number>;
+  grandTotal: number;
+}
+
+export interface ParsedGridValue {
+  value: number | null;
+  error: string | null;
+}
+
+export function getSalesGridRowKey(row: SalesGridRow): string {
+  return `${row.department}|${row.product_category}`;
+}
+
+export function getSalesGridKey(row: SalesGridRow, date: string): string {
+  return `${getSalesGridRowKey(row)}|${date}`;
+}
+
+/**
+ * 入力対象の日付（開始日から days 日分）
+ */
+export function getSalesGridDates(startDate: string, days: number): string[] {
+  const count = Math.min(Math.max(days, 1), SALES_GRID_MAX_DAYS);
+  return Array.from({ length: count }, (_, index) => shiftDate(startDate, index));
+}
+
+/**
+ * 部門×カテゴリの行（表示順はそれぞれのマスターの並び順）
+ */
+export function buildSalesGridRows(departments: string[], categories: string[]): SalesGridRow[] {
+  return departments.flatMap(department =>
+    categories.map(productCategory => ({ department, product_category: productCategory }))
+  );
+}
+
+/**
+ * セルの入力値の解釈と検証（salesValidationRules の税抜売上のルールを使う）
+ */
+export function parseSalesGridValue(text: string): ParsedGridValue {
+  const cleanValue = text.trim().replace(/[,，円￥¥\s]/g, '');
+  if (cleanValue === '') {
+    return { value: null, error: null };
+  }
+
+  if (!/^-?\d+(\.\d+)?$/.test(cleanValue)) {
+    return { value: null, error: '数値で入力してください' };
+  }
+
+  const value = Number(cleanValue);
+  const fieldError = validateField('revenue_ex_tax', value);
+  return { value, error: fieldError ? fieldError.message : null };
+}
+
+/**
+ * クリップボードのテキスト（Excel のセル範囲はタブ区切り・改行区切り）を二次元配列に変換
+ */
+export function parseClipboardGrid(text: string): string[][] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  if (lines.length > 1 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines.map(line => line.split('\t'));
+}
+
+/**
+ * 行合計・列合計・総合計（未入力・不正なセルは含めない）
+ */
+export function calculateSalesGridTotals(
+  rows: SalesGridRow[],
+  dates: string[],
+  values: Record<string, number | null | undefined>
+): SalesGridTotals {
+  const totals: SalesGridTotals = { rowTotals: {}, columnTotals: {}, grandTotal: 0 };
+  dates.forEach(date => {
+    totals.columnTotals[date] = 0;
+  });
+
+  rows.forEach(row => {
+    const rowKey = getSalesGridRowKey(row);
+    totals.rowTotals[rowKey] = 0;
+
+    dates.forEach(date => {
+      const value = values[getSalesGridKey(row, date)];
+      if (value === null || value === undefined) return;
+
+      totals.rowTotals[rowKey] += value;
+      totals.columnTotals[date] += value;
+      totals.grandTotal += value;
+    });
+  });
+
+  return totals;
+}
@@ -0,0 +1,141 @@
+import { SALES_STATUS_LABELS } from '@/lib/sales-status';
+import type { SalesLedgerTotals, SalesStatus } from '@/types/database.types';
+
+/**
+ * 売上台帳（/sales の一覧）の並び替え・絞り込み・小計
+ */
+
+export const SALES_LEDGER_DEFAULT_LIMIT = 50;
+export const SALES_LEDGER_MAX_LIMIT = 200;
+
+export type SalesLedgerSortField =
+  | 'date'
+  | 'revenue_ex_tax'
+  | 'footfall'
+  | 'transactions'
+  | 'created_at'
+  | 'updated_at';
+
+export type SalesLedgerSortOrder = 'asc' | 'desc';
+
+export const SALES_LEDGER_SORT_LABELS: Record<SalesLedgerSortField, string> = {
+  date: '日付',
+  revenue_ex_tax: '税抜売上',
+  footfall: '客数',
+  transactions: '取引数',
+  created_at: '登録日時',
+  updated_at: '更新日時',
+};
+
+// 行ごとの変更履歴に表示する操作
+export const SALES_HISTORY_ACTION_LABELS: Record<string, string> = {
+  input_sales: '登録',
+  edit_sales: '修正',
+  import_sales: '一括取込み',
+  submit_sales: '申請',
+  approve_sales: '承認',
+  reject_sales: '差戻し',
+  reopen_sales: '承認取消',
+  lock_sales: '確定',
+  recalculate_sales_tax: '消費税の再計算',
+};
+
+export interface SalesLedgerQuery {
+  storeId: string | null;
+  department: string | null;
+  productCategory: string | null;
+  status: SalesStatus | null;
+  startDate: string | null;
+  endDate: string | null;
+  sort: SalesLedgerSortField;
+  order: SalesLedgerSortOrder;
+  limit: number;
+  offset: number;
+}
+
+// 小計の対象項目
+type SalesLedgerAmounts = Pick<SalesLedgerTotals, 'revenue_ex_tax' | 'tax' | 'footfall' | 'transactions' | 'discounts'>;
+
+export function isSalesLedgerSortField(value: unknown): value is SalesLedgerSortField {
+  return typeof value === 'string' && value in SALES_LEDGER_SORT_LABELS;
+}
+
+function isSalesStatus(value: unknown): value is SalesStatus {
+  return typeof value === 'string' && value in SALES_STATUS_LABELS;
+}
+
+function parseNonNegativeInt(value: string | null, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+/**
+ * クエリパラメータの解釈（不正な値は既定値に置き換える）
+ */
+export function parseSalesLedgerQuery(searchParams: URLSearchParams): SalesLedgerQuery {
+  const sort = searchParams.get('sort');
+  const status = searchParams.get('status');
+  const limit = parseNonNegativeInt(searchParams.get('limit'), SALES_LEDGER_DEFAULT_LIMIT);
+
+  return {
+    storeId: searchParams.get('store_id') || null,
+    department: searchParams.get('department') || null,
+    productCategory: searchParams.get('product_category') || null,
+    status: isSalesStatus(status) ? status : null,
+    startDate: searchParams.get('start_date') || null,
+    endDate: searchParams.get('end_date') || null,
+    sort: isSalesLedgerSortField(sort) ? sort : 'date',
+    order: searchParams.get('order') === 'asc' ? 'asc' : 'desc',
+    limit: Math.min(Math.max(limit, 1), SALES_LEDGER_MAX_LIMIT),
+    offset: parseNonNegativeInt(searchParams.get('offset'), 0),
+  };
+}
+
+/**
+ * 台帳の表示条件をクエリ文字列に変換する（既定値・未指定は省略）
+ */
+export function buildSalesLedgerSearchParams(query: Partial<SalesLedgerQuery>): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.storeId) params.set('store_id', query.storeId);
+  if (query.department) params.set('department', query.department);
+  if (query.productCategory) params.set('product_category', query.productCategory);
+  if (query.status) params.set('status', query.status);
+  if (query.startDate) params.set('start_date', query.startDate);
+  if (query.endDate) params.set('end_date', query.endDate);
+  if (query.sort && query.sort !== 'date') params.set('sort', query.sort);
+  if (query.order === 'asc') params.set('order', 'asc');
+  if (query.limit !== undefined) params.set('limit', String(query.limit));
+  if (query.offset) params.set('offset', String(query.offset));
+  return params;
+}
+
+/**
+ * 表示中のページの小計
+ */
+export function summarizeSalesRows(rows: Partial<Record<keyof SalesLedgerAmounts, number | null>>[]): SalesLedgerTotals {
+  return rows.reduce<SalesLedgerTotals>((totals, row) => ({
+    revenue_ex_tax: totals.revenue_ex_tax + (row.revenue_ex_tax || 0),
+    tax: totals.tax + (row.tax || 0),
+    footfall: totals.footfall + (row.footfall || 0),
+    transactions: totals.transactions + (row.transactions || 0),
+    discounts: totals.discounts + (row.discounts || 0),
+    record_count: totals.record_count + 1,
+  }), emptySalesLedgerTotals());
+}
+
+export function emptySalesLedgerTotals(): SalesLedgerTotals {
+  return { revenue_ex_tax: 0, tax: 0, footfall: 0, transactions: 0, discounts: 0, record_count: 0 };
+}
+
+/**
+ * get_sales_ledger_totals の結果（numeric / bigint は文字列で返る場合がある）を数値に揃える
+ */
+export function toSalesLedgerTotals(row: Partial<Record<keyof SalesLedgerTotals, number | string | null>> | null | undefined): SalesLedgerTotals {
+  const totals = emptySalesLedgerTotals();
+  if (!row) return totals;
+
+  (Object.keys(totals) as (keyof SalesLedgerTotals)[]).forEach(key => {
+    totals[key] = Number(row[key] || 0);
+  });
+  return totals;
+}
@@ -0,0 +1,76 @@
+import type { SalesStatus, SalesStatusFilter } from '@/types/database.types';
+import type { UserRole } from '@/types/rbac';
+
+/**
+ * Sales approval workflow definitions shared by the API and the UI
+ */
+
+export type SalesStatusAction = 'submit' | 'approve' | 'reject' | 'reopen' | 'lock';
+
+export interface SalesStatusTransition {
+  label: string;
+  from: SalesStatus[];
+  to: SalesStatus;
+  roles: UserRole[];
+  requiresComment?: boolean;
+}
+
+export const SALES_STATUS_LABELS: Record<SalesStatus, string> = {
+  draft: '下書き',
+  submitted: '承認待ち',
+  approved: '承認済み',
+  locked: '確定',
+};
+
+export const SALES_STATUS_FILTER_LABELS: Record<SalesStatusFilter, string> = {
+  approved: '承認済みのみ',
+  approved_pending: '承認済み＋承認待ち',
+};
+
+export const DEFAULT_SALES_STATUS_FILTER: SalesStatusFilter = 'approved';
+
+const SALES_STATUS_FILTER_STATUSES: Record<SalesStatusFilter, SalesStatus[]> = {
+  approved: ['approved', 'locked'],
+  approved_pending: ['submitted', 'approved', 'locked'],
+};
+
+// 申請は店長以上、承認・差戻しは申請者以外の店長・管理者、再オープン・確定は管理者のみ
+export const SALES_STATUS_TRANSITIONS: Record<SalesStatusAction, SalesStatusTransition> = {
+  submit: { label: '申請', from: ['draft'], to: 'submitted', roles: ['admin', 'manager'] },
+  approve: { label: '承認', from: ['submitted'], to: 'approved', roles: ['admin', 'manager'] },
+  reject: { label: '差戻し', from: ['submitted'], to: 'draft', roles: ['admin', 'manager'], requiresComment: true },
+  reopen: { label: '承認取消', from: ['approved'], to: 'draft', roles: ['admin'], requiresComment: true },
+  lock: { label: '確定', from: ['approved'], to: 'locked', roles: ['admin'] },
+};
+
+/**
+ * Sales statuses included for a dashboard / export status filter
+ */
+export function getSalesStatusesForFilter(
+  filter: SalesStatusFilter = DEFAULT_SALES_STATUS_FILTER
+): SalesStatus[] {
+  return SALES_STATUS_FILTER_STATUSES[filter] ?? SALES_STATUS_FILTER_STATUSES[DEFAULT_SALES_STATUS_FILTER];
+}
+
+export function isSalesStatusFilter(value: unknown): value is SalesStatusFilter {
+  return typeof value === 'string' && value in SALES_STATUS_FILTER_STATUSES;
+}
+
+export function isSalesStatusAction(value: unknown): value is SalesStatusAction {
+  return typeof value === 'string' && value in SALES_STATUS_TRANSITIONS;
+}
+
+/**
+ * Actions that can be applied from the given status (role checks are done by the API)
+ */
+export function getAvailableActions(status: SalesStatus): SalesStatusAction[] {
+  return (Object.keys(SALES_STATUS_TRANSITIONS) as SalesStatusAction[])
+    .filter(action => SALES_STATUS_TRANSITIONS[action].from.includes(status));
+}
+
+/**
+ * Only drafts can be edited or deleted; submitted rows must be rejected first
+ */
+export function isSalesEditable(status: SalesStatus): boolean {
+  return status === 'draft';
+}
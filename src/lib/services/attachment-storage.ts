@@ -0,0 +1,154 @@
+/**
+ * 添付ファイルストレージ
+ * 本番は Supabase Storage の非公開バケット、開発・テストはローカルファイルシステムに保存する
+ * （ATTACHMENT_STORAGE=local でローカルを使用）
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { createClient } from '@/lib/supabase/server';
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+export const ATTACHMENT_BUCKET = 'sales-attachments';
+
+// 署名付き URL の有効期限（秒）
+export const ATTACHMENT_SIGNED_URL_TTL = 5 * 60;
+
+export interface AttachmentStorage {
+  readonly kind: 'supabase' | 'local';
+  upload(storagePath: string, data: Uint8Array, contentType: string): Promise<void>;
+  remove(storagePath: string): Promise<void>;
+  createSignedUrl(storagePath: string, fileName: string, expiresIn?: number): Promise<string>;
+}
+
+/**
+ * ストレージ上のパス（先頭のフォルダは店舗ID。ストレージの RLS は店舗ID で権限を判定する）
+ */
+export function buildAttachmentPath(storeId: string, salesId: string, attachmentId: string): string {
+  return [storeId, salesId, attachmentId].join('/');
+}
+
+/**
+ * Supabase Storage（ログインユーザーのクライアントで操作し、バケットの RLS で店舗権限を確認する）
+ */
+export class SupabaseAttachmentStorage implements AttachmentStorage {
+  readonly kind = 'supabase' as const;
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async upload(storagePath: string, data: Uint8Array, contentType: string): Promise<void> {
+    const { error } = await this.supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(storagePath, data, { contentType, upsert: false });
+
+    if (error) {
+      throw new Error(`Failed to upload attachment: ${error.message}`);
+    }
+  }
+
+  async remove(storagePath: string): Promise<void> {
+    const { error } = await this.supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .remove([storagePath]);
+
+    if (error) {
+      throw new Error(`Failed to remove attachment: ${error.message}`);
+    }
+  }
+
+  async createSignedUrl(storagePath: string, fileName: string, expiresIn = ATTACHMENT_SIGNED_URL_TTL): Promise<string> {
+    const { data, error } = await this.supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrl(storagePath, expiresIn, { download: fileName });
+
+    if (error || !data) {
+      throw new Error(`Failed to create signed URL: ${error?.message}`);
+    }
+
+    return data.signedUrl;
+  }
+}
+
+/**
+ * ローカルファイルシステム（開発・テスト用）
+ * ダウンロードは /api/attachments/local に HMAC 署名付きの URL で行う
+ */
+export class LocalAttachmentStorage implements AttachmentStorage {
+  readonly kind = 'local' as const;
+
+  constructor(
+    private readonly rootDir = process.env.ATTACHMENT_LOCAL_DIR || path.join(process.cwd(), '.attachments')
+  ) {}
+
+  async upload(storagePath: string, data: Uint8Array): Promise<void> {
+    const filePath = this.resolve(storagePath);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    // 同じパスへの上書きはしない（Supabase Storage の upsert: false と同じ）
+    await writeFile(filePath, data, { flag: 'wx' });
+  }
+
+  async remove(storagePath: string): Promise<void> {
+    await rm(this.resolve(storagePath), { force: true });
+  }
+
+  async read(storagePath: string): Promise<Uint8Array> {
+    return new Uint8Array(await readFile(this.resolve(storagePath)));
+  }
+
+  async createSignedUrl(storagePath: string, fileName: string, expiresIn = ATTACHMENT_SIGNED_URL_TTL): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const params = new URLSearchParams({
+      path: storagePath,
+      name: fileName,
+      expires: String(expires),
+      signature: signLocalAttachment(storagePath, fileName, expires),
+    });
+    return `/api/attachments/local?${params.toString()}`;
+  }
+
+  // ルートディレクトリ外へのパス指定を拒否
+  private resolve(storagePath: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, storagePath);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid attachment path: ${storagePath}`);
+    }
+    return filePath;
+  }
+}
+
+/**
+ * 環境に応じたストレージ
+ */
+export function getAttachmentStorage(supabase: SupabaseClient): AttachmentStorage {
+  return process.env.ATTACHMENT_STORAGE === 'local'
+    ? new LocalAttachmentStorage()
+    : new SupabaseAttachmentStorage(supabase);
+}
+
+/**
+ * ローカル保存時の署名付き URL の検証（有効期限切れ・改ざんは false）
+ */
+export function verifyLocalAttachmentSignature(
+  params: { path: string; name: string; expires: number; signature: string },
+  now = Date.now()
+): boolean {
+  if (!Number.isFinite(params.expires) || params.expires * 1000 < now) return false;
+
+  const expected = Buffer.from(signLocalAttachment(params.path, params.name, params.expires));
+  const actual = Buffer.from(params.signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function signLocalAttachment(storagePath: string, fileName: string, expires: number): string {
+  const secret = process.env.ATTACHMENT_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('ATTACHMENT_SIGNING_SECRET is required for local attachment storage');
+  }
+
+  return createHmac('sha256', secret)
+    .update([storagePath, fileName, expires].join('\n'))
+    .digest('hex');
+}
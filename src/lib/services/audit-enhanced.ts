@@ -454,7 +454,7 @@ export class EnhancedAuditService {
       
       // データ変更記録
       const dataModifications = logs.logs.filter(log =>
-        ['input_sales', 'update_sales', 'delete_sales'].includes(log.action)
+        ['input_sales', 'update_sales', 'edit_sales', 'delete_sales', 'import_sales'].includes(log.action)
       )
       
       // システム変更記録
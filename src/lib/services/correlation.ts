@@ -1,10 +1,13 @@
 /**
  * 相関分析サービス
- * 売上と外部要因（天候・イベント・曜日など）の相関を計算
+ * 売上と外部要因（天候・イベント・キャンペーン・曜日など）の相関を計算
  */
 
 import { createClient } from '@/lib/supabase/server';
-import { Database } from '@/types/database.types';
+import { getSalesStatusesForFilter } from '@/lib/sales-status';
+import { sumLaborHoursByDate } from '@/lib/labor-productivity';
+import { Campaign, isCampaignActive } from '@/lib/campaigns';
+import { Database, SalesChannel, SalesStatusFilter } from '@/types/database.types';
 import { format, parseISO, getDay, subDays, subYears } from 'date-fns';
 
 // 相関分析フィルター
@@ -14,6 +17,9 @@ export interface CorrelationFilters {
   storeId?: string;
   department?: string;
   category?: string;
+  channel?: SalesChannel; // 省略時は全チャネル
+  salesStatus?: SalesStatusFilter; // 省略時は承認済みのみ
+  excludeCampaignDays?: boolean; // true の場合はキャンペーン実施日を分析対象から除外
 }
 
 // 相関分析結果
@@ -42,6 +48,7 @@ export interface ComparisonData {
   dayOfWeek: string;
   weather?: string;
   hasEvent?: boolean;
+  hasCampaign?: boolean;
 }
 
 // 相関分析統計
@@ -60,6 +67,18 @@ export interface CorrelationStats {
 type SalesData = Database['public']['Tables']['sales']['Row'];
 type WeatherData = Database['public']['Tables']['ext_weather_daily']['Row'];
 type EventData = Database['public']['Tables']['ext_events']['Row'];
+type LaborHoursData = Database['public']['Tables']['labor_hours']['Row'];
+
+// 日別集計の行（人時・キャンペーンを使う相関の計算対象）
+interface DailyCorrelationRow {
+  date: string;
+  totalSales: number;
+  totalFootfall: number;
+  totalTransactions: number;
+  dayOfWeek: number;
+  laborHours?: number; // 人時の登録がない日は未設定
+  hasCampaign: boolean;
+}
 
 export class CorrelationService {
   private supabase;
@@ -76,14 +95,26 @@ export class CorrelationService {
 
     try {
       // データ取得
-      const [salesData, weatherData, eventData] = await Promise.all([
+      const [salesData, weatherData, eventData, laborHoursData, campaignData] = await Promise.all([
         this.fetchSalesData(filters),
         this.fetchWeatherData(filters),
-        this.fetchEventData(filters)
+        this.fetchEventData(filters),
+        this.fetchLaborHoursData(filters),
+        this.fetchCampaignData(filters)
       ]);
 
       // 日別集計データ作成
-      const dailyData = this.createDailyAggregation(salesData, weatherData, eventData);
+      const aggregated = this.createDailyAggregation(
+        salesData,
+        weatherData,
+        eventData,
+        laborHoursData,
+        campaignData,
+        filters
+      );
+      const dailyData = filters.excludeCampaignDays
+        ? aggregated.filter(daily => !daily.hasCampaign)
+        : aggregated;
 
       // 相関計算
       const correlations = this.calculateCorrelations(dailyData);
@@ -121,6 +152,7 @@ export class CorrelationService {
       .select('*')
       .gte('date', filters.startDate)
       .lte('date', filters.endDate)
+      .in('status', getSalesStatusesForFilter(filters.salesStatus))
       .order('date');
 
     if (filters.storeId) {
@@ -132,6 +164,9 @@ export class CorrelationService {
     if (filters.category) {
       query = query.eq('product_category', filters.category);
     }
+    if (filters.channel) {
+      query = query.eq('channel', filters.channel);
+    }
 
     const { data, error } = await query;
 
@@ -178,13 +213,61 @@ export class CorrelationService {
     return data || [];
   }
 
+  /**
+   * 人時データ取得（人時はチャネル・商品カテゴリ別には持たないため店舗・部門のみで絞り込む）
+   */
+  private async fetchLaborHoursData(filters: CorrelationFilters): Promise<LaborHoursData[]> {
+    let query = this.supabase
+      .from('labor_hours')
+      .select('*')
+      .gte('date', filters.startDate)
+      .lte('date', filters.endDate)
+      .order('date');
+
+    if (filters.storeId) {
+      query = query.eq('store_id', filters.storeId);
+    }
+    if (filters.department) {
+      query = query.eq('department', filters.department);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch labor hours data: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * キャンペーンデータ取得（分析期間に掛かるキャンペーン）
+   */
+  private async fetchCampaignData(filters: CorrelationFilters): Promise<Campaign[]> {
+    const { data, error } = await this.supabase
+      .from('campaigns')
+      .select('*')
+      .lte('start_date', filters.endDate)
+      .gte('end_date', filters.startDate)
+      .order('start_date');
+
+    if (error) {
+      throw new Error(`Failed to fetch campaign data: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
   /**
    * 日別集計データ作成
    */
   private createDailyAggregation(
     salesData: SalesData[],
     weatherData: WeatherData[],
-    eventData: EventData[]
+    eventData: EventData[],
+    laborHoursData: LaborHoursData[] = [],
+    campaignData: Campaign[] = [],
+    filters: Pick<CorrelationFilters, 'storeId' | 'department'> = {}
   ) {
     // 売上を日別に集計
     const salesByDate = salesData.reduce((acc, sale) => {
@@ -227,6 +310,13 @@ export class CorrelationService {
       }
     });
 
+    // 人時をマージ（人時の登録がない日は人時生産性の計算対象外）
+    sumLaborHoursByDate(laborHoursData).forEach((hours, date) => {
+      if (salesByDate[date] && hours > 0) {
+        salesByDate[date].laborHours = hours;
+      }
+    });
+
     // イベントがない日はfalseを設定
     Object.values(salesByDate).forEach((daily: any) => {
       if (!daily.hasEvent) {
@@ -235,6 +325,13 @@ export class CorrelationService {
       }
     });
 
+    // キャンペーン実施日（分析対象の店舗・部門が含まれるキャンペーンのみ）
+    Object.values(salesByDate).forEach((daily: any) => {
+      daily.hasCampaign = campaignData.some(campaign =>
+        isCampaignActive(campaign, daily.date, { storeId: filters.storeId, department: filters.department })
+      );
+    });
+
     return Object.values(salesByDate);
   }
 
@@ -260,6 +357,16 @@ export class CorrelationService {
     const eventCorr = this.calculateEventCorrelation(dailyData);
     correlations.push(eventCorr);
 
+    // キャンペーンとの相関（キャンペーン日を除外した場合は算出しない）
+    const campaignCorr = this.calculateCampaignCorrelation(dailyData);
+    if (campaignCorr) {
+      correlations.push(campaignCorr);
+    }
+
+    // 人時・人時生産性との相関
+    const laborCorr = this.calculateLaborCorrelation(dailyData);
+    correlations.push(...laborCorr);
+
     return correlations.filter(corr => !isNaN(corr.correlation));
   }
 
@@ -376,6 +483,51 @@ export class CorrelationService {
     return correlations;
   }
 
+  /**
+   * 人時相関計算（人時・人時売上・人時取引数）
+   */
+  private calculateLaborCorrelation(dailyData: DailyCorrelationRow[]): CorrelationResult[] {
+    const laborData = dailyData.filter(
+      (d): d is DailyCorrelationRow & { laborHours: number } => d.laborHours !== undefined
+    );
+    if (laborData.length < 3) {
+      return [];
+    }
+
+    const sales = laborData.map(d => d.totalSales);
+    const factors = [
+      {
+        factor: '人時',
+        values: laborData.map(d => d.laborHours),
+        describe: (corr: number) => `人時と売上の相関係数: ${corr.toFixed(3)}`
+      },
+      {
+        factor: '人時売上',
+        values: laborData.map(d => d.totalSales / d.laborHours),
+        describe: (corr: number, average: number) =>
+          `人時売上の平均 ${Math.round(average).toLocaleString()}円、売上との相関係数: ${corr.toFixed(3)}`
+      },
+      {
+        factor: '人時取引数',
+        values: laborData.map(d => d.totalTransactions / d.laborHours),
+        describe: (corr: number, average: number) =>
+          `人時取引数の平均 ${average.toFixed(2)}件、売上との相関係数: ${corr.toFixed(3)}`
+      }
+    ];
+
+    return factors.map(({ factor, values, describe }) => {
+      const correlation = this.pearsonCorrelation(sales, values);
+      const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+      return {
+        factor,
+        correlation,
+        significance: laborData.length >= 10 ? 0.95 : 0.8,
+        sampleSize: laborData.length,
+        description: describe(correlation, average)
+      };
+    });
+  }
+
   /**
    * イベント相関計算
    */
@@ -408,6 +560,32 @@ export class CorrelationService {
     };
   }
 
+  /**
+   * キャンペーン相関計算（キャンペーン日と非キャンペーン日の平均売上の比較）
+   */
+  private calculateCampaignCorrelation(dailyData: DailyCorrelationRow[]): CorrelationResult | null {
+    const campaignDays = dailyData.filter(d => d.hasCampaign);
+    const noCampaignDays = dailyData.filter(d => !d.hasCampaign);
+
+    if (campaignDays.length === 0 || noCampaignDays.length === 0) {
+      return null;
+    }
+
+    const campaignAvg = campaignDays.reduce((sum, d) => sum + d.totalSales, 0) / campaignDays.length;
+    const noCampaignAvg = noCampaignDays.reduce((sum, d) => sum + d.totalSales, 0) / noCampaignDays.length;
+    const overallAvg = dailyData.reduce((sum, d) => sum + d.totalSales, 0) / dailyData.length;
+
+    const correlation = (campaignAvg - noCampaignAvg) / overallAvg;
+
+    return {
+      factor: 'キャンペーン',
+      correlation: Math.max(-1, Math.min(1, correlation)),
+      significance: Math.min(campaignDays.length, noCampaignDays.length) >= 5 ? 0.9 : 0.7,
+      sampleSize: campaignDays.length,
+      description: `キャンペーン日の売上は非キャンペーン日の${(campaignAvg / noCampaignAvg * 100).toFixed(1)}%`
+    };
+  }
+
   /**
    * ピアソン相関係数計算
    */
@@ -504,7 +682,8 @@ export class CorrelationService {
           previousYear: previousYearByDate[previousYearDate] || 0,
           dayOfWeek: dayNames[daily.dayOfWeek],
           weather: daily.weatherCondition,
-          hasEvent: daily.hasEvent
+          hasEvent: daily.hasEvent,
+          hasCampaign: daily.hasCampaign
         });
       }
     } catch (error) {
@@ -522,7 +701,8 @@ export class CorrelationService {
           previousYear: 0,
           dayOfWeek: dayNames[daily.dayOfWeek],
           weather: daily.weatherCondition,
-          hasEvent: daily.hasEvent
+          hasEvent: daily.hasEvent,
+          hasCampaign: daily.hasCampaign
         });
       }
     }
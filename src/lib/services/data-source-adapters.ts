@@ -0,0 +1,356 @@
+/**
+ * External Data Source Adapters
+ *
+ * Purpose: 外部データソース（市場・為替・天候・イベント・STEMニュース・インバウンド）の取得方法を差し替え可能にする
+ *
+ * Adapters:
+ * - http: 外部APIから取得（fetchWithTimeout によるタイムアウト付き）
+ * - file: ディレクトリ内の JSON/CSV フィクスチャから取得（ネットワーク不要・同じ日付なら常に同じ結果）
+ *
+ * Configuration (environment):
+ * - ETL_SOURCE_ADAPTER: 既定のアダプター（http | file、既定は http）
+ * - ETL_SOURCE_ADAPTER_<SOURCE>: ソースごとの上書き（例: ETL_SOURCE_ADAPTER_WEATHER=file）
+ * - ETL_SOURCE_URL_<SOURCE> / ETL_SOURCE_API_KEY_<SOURCE>: http アダプターの取得先と API キー
+ * - ETL_FIXTURE_DIR: file アダプターのフィクスチャディレクトリ（既定は fixtures/etl）
+ */
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+import * as Papa from 'papaparse'
+import type {
+  EventData,
+  FXData,
+  InboundData,
+  MarketData,
+  STEMNewsData,
+  WeatherData
+} from './data-sources'
+
+export type SourceType = 'market_index' | 'fx_rates' | 'weather' | 'events' | 'stem_news' | 'inbound'
+
+export const SOURCE_TYPES: SourceType[] = ['market_index', 'fx_rates', 'weather', 'events', 'stem_news', 'inbound']
+
+export interface SourceRecordMap {
+  market_index: MarketData
+  fx_rates: FXData
+  weather: WeatherData
+  events: EventData
+  stem_news: STEMNewsData
+  inbound: InboundData
+}
+
+export type SourceAdapterKind = 'http' | 'file'
+
+export interface SourceFetchContext {
+  date: string // 取得対象日（YYYY-MM-DD）
+}
+
+export interface DataSourceAdapter<T> {
+  readonly kind: SourceAdapterKind
+  readonly source: SourceType
+  fetch(context: SourceFetchContext): Promise<T[]>
+}
+
+export interface HttpSourceSettings {
+  url: string
+  apiKey?: string
+  timeoutMs?: number
+}
+
+export interface DataSourceSettings {
+  defaultAdapter: SourceAdapterKind
+  adapters: Partial<Record<SourceType, SourceAdapterKind>>
+  http: Partial<Record<SourceType, HttpSourceSettings>>
+  fixtureDir: string
+}
+
+export type SourceAdapterFactory = (
+  source: SourceType,
+  settings: DataSourceSettings
+) => DataSourceAdapter<SourceRecordMap[SourceType]>
+
+// Numeric columns per source (CSV fixtures and loosely typed API payloads are coerced to numbers)
+const NUMERIC_FIELDS: Record<SourceType, string[]> = {
+  market_index: ['value', 'change_percent'],
+  fx_rates: ['rate', 'change_percent'],
+  weather: ['temperature_max', 'temperature_min', 'precipitation_mm', 'humidity_percent'],
+  events: ['lat', 'lng', 'expected_attendance'],
+  stem_news: ['sentiment_score'],
+  inbound: ['visitors', 'change_percent']
+}
+
+const DEFAULT_FIXTURE_DIR = 'fixtures/etl'
+const DEFAULT_HTTP_TIMEOUT = 30000 // 30 seconds
+
+export class DataSourceConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DataSourceConfigError'
+  }
+}
+
+export function isSourceAdapterKind(value: unknown): value is SourceAdapterKind {
+  return value === 'http' || value === 'file'
+}
+
+/**
+ * Build settings from environment variables
+ */
+export function loadDataSourceSettings(env: NodeJS.ProcessEnv = process.env): DataSourceSettings {
+  const defaultAdapter = env.ETL_SOURCE_ADAPTER || 'http'
+  if (!isSourceAdapterKind(defaultAdapter)) {
+    throw new DataSourceConfigError(`Unknown ETL_SOURCE_ADAPTER: ${defaultAdapter}`)
+  }
+
+  const settings: DataSourceSettings = {
+    defaultAdapter,
+    adapters: {},
+    http: {},
+    fixtureDir: env.ETL_FIXTURE_DIR || DEFAULT_FIXTURE_DIR
+  }
+
+  for (const source of SOURCE_TYPES) {
+    const suffix = source.toUpperCase()
+
+    const adapter = env[`ETL_SOURCE_ADAPTER_${suffix}`]
+    if (adapter) {
+      if (!isSourceAdapterKind(adapter)) {
+        throw new DataSourceConfigError(`Unknown ETL_SOURCE_ADAPTER_${suffix}: ${adapter}`)
+      }
+      settings.adapters[source] = adapter
+    }
+
+    const url = env[`ETL_SOURCE_URL_${suffix}`]
+    if (url) {
+      settings.http[source] = { url, apiKey: env[`ETL_SOURCE_API_KEY_${suffix}`] }
+    }
+  }
+
+  return settings
+}
+
+/**
+ * Convert a raw record (JSON object or CSV row) into the typed record of the source.
+ * Empty strings become null and numeric columns are parsed.
+ */
+export function normalizeSourceRecord<S extends SourceType>(
+  source: S,
+  raw: Record<string, unknown>
+): SourceRecordMap[S] {
+  const record: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(raw)) {
+    const field = key.trim()
+    if (value === '' || value === undefined) {
+      record[field] = null
+    } else if (NUMERIC_FIELDS[source].includes(field) && typeof value === 'string') {
+      const parsed = Number(value)
+      record[field] = Number.isFinite(parsed) ? parsed : value
+    } else {
+      record[field] = value
+    }
+  }
+
+  return record as unknown as SourceRecordMap[S]
+}
+
+// ========================================
+// HTTP ADAPTER
+// ========================================
+
+/**
+ * Base class for adapters backed by an HTTP API.
+ * Subclasses decide the request URL and how the response body maps to records.
+ */
+export abstract class HttpSourceAdapter<T> implements DataSourceAdapter<T> {
+  readonly kind = 'http' as const
+
+  constructor(
+    readonly source: SourceType,
+    protected readonly settings: HttpSourceSettings
+  ) {}
+
+  async fetch(context: SourceFetchContext): Promise<T[]> {
+    const response = await this.fetchWithTimeout(this.buildUrl(context), this.buildRequestInit(context))
+    return this.parse(await response.json(), context)
+  }
+
+  protected buildUrl(context: SourceFetchContext): string {
+    const url = new URL(this.settings.url)
+    url.searchParams.set('date', context.date)
+    return url.toString()
+  }
+
+  protected buildRequestInit(_context: SourceFetchContext): RequestInit {
+    return this.settings.apiKey
+      ? { headers: { 'Authorization': `Bearer ${this.settings.apiKey}` } }
+      : {}
+  }
+
+  protected abstract parse(body: unknown, context: SourceFetchContext): T[]
+
+  /**
+   * Generic HTTP request with timeout
+   */
+  protected async fetchWithTimeout(url: string, options: RequestInit = {}): Promise<Response> {
+    const timeout = this.settings.timeoutMs ?? DEFAULT_HTTP_TIMEOUT
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), timeout)
+
+    try {
+      const response = await fetch(url, {
+        ...options,
+        signal: controller.signal,
+        headers: {
+          'User-Agent': 'BusinessDashboard/1.0',
+          'Accept': 'application/json',
+          ...options.headers
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      return response
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Request timeout after ${timeout}ms`)
+      }
+      throw error
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+}
+
+/**
+ * HTTP adapter for endpoints that already return normalized records
+ * (an array, or { data: [...] }) for the requested date
+ */
+export class JsonHttpSourceAdapter<S extends SourceType> extends HttpSourceAdapter<SourceRecordMap[S]> {
+  constructor(readonly source: S, settings: HttpSourceSettings) {
+    super(source, settings)
+  }
+
+  protected parse(body: unknown): SourceRecordMap[S][] {
+    const rows = Array.isArray(body)
+      ? body
+      : (body && typeof body === 'object' && Array.isArray((body as { data?: unknown }).data))
+        ? (body as { data: unknown[] }).data
+        : null
+
+    if (!rows) {
+      throw new Error(`Unexpected response for ${this.source}: expected an array of records`)
+    }
+
+    return rows.map(row => normalizeSourceRecord(this.source, row as Record<string, unknown>))
+  }
+}
+
+// ========================================
+// FILE (FIXTURE) ADAPTER
+// ========================================
+
+/**
+ * Reads fixtures from <fixtureDir>/<source>/<date>.json or .csv.
+ * Monthly sources (inbound) use <YYYY-MM> as the file name.
+ * A missing file means no records for that date.
+ */
+export class FileSourceAdapter<S extends SourceType> implements DataSourceAdapter<SourceRecordMap[S]> {
+  readonly kind = 'file' as const
+
+  constructor(
+    readonly source: S,
+    private readonly fixtureDir: string
+  ) {}
+
+  async fetch(context: SourceFetchContext): Promise<SourceRecordMap[S][]> {
+    const baseName = path.join(this.fixtureDir, this.source, fixtureKey(this.source, context.date))
+
+    const json = await readFixture(`${baseName}.json`)
+    if (json !== null) {
+      const rows: unknown = JSON.parse(json)
+      if (!Array.isArray(rows)) {
+        throw new Error(`Fixture ${baseName}.json must contain an array of records`)
+      }
+      return rows.map(row => normalizeSourceRecord(this.source, row as Record<string, unknown>))
+    }
+
+    const csv = await readFixture(`${baseName}.csv`)
+    if (csv !== null) {
+      const result = Papa.parse<Record<string, string>>(csv, {
+        header: true,
+        skipEmptyLines: 'greedy',
+        transformHeader: header => header.trim()
+      })
+      return result.data.map(row => normalizeSourceRecord(this.source, row))
+    }
+
+    return []
+  }
+}
+
+function fixtureKey(source: SourceType, date: string): string {
+  return source === 'inbound' ? date.slice(0, 7) : date
+}
+
+async function readFixture(filePath: string): Promise<string | null> {
+  try {
+    return await readFile(filePath, 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
+
+// ========================================
+// REGISTRY
+// ========================================
+
+const DEFAULT_FACTORIES: Record<SourceAdapterKind, SourceAdapterFactory> = {
+  http: (source, settings) => {
+    const http = settings.http[source]
+    if (!http) {
+      throw new DataSourceConfigError(
+        `No URL configured for ${source} (set ETL_SOURCE_URL_${source.toUpperCase()} or use the file adapter)`
+      )
+    }
+    return new JsonHttpSourceAdapter(source, http)
+  },
+  file: (source, settings) => new FileSourceAdapter(source, settings.fixtureDir)
+}
+
+/**
+ * Resolves the adapter for each source from settings.
+ * Provider-specific adapters can be plugged in with register().
+ */
+export class DataSourceRegistry {
+  private readonly factories = new Map<string, SourceAdapterFactory>(Object.entries(DEFAULT_FACTORIES))
+
+  constructor(private readonly settings: DataSourceSettings = loadDataSourceSettings()) {}
+
+  /**
+   * Register a factory for an adapter kind (replaces the built-in one of the same kind)
+   */
+  register(kind: SourceAdapterKind, factory: SourceAdapterFactory): this {
+    this.factories.set(kind, factory)
+    return this
+  }
+
+  adapterKind(source: SourceType): SourceAdapterKind {
+    return this.settings.adapters[source] ?? this.settings.defaultAdapter
+  }
+
+  get<S extends SourceType>(source: S): DataSourceAdapter<SourceRecordMap[S]> {
+    const kind = this.adapterKind(source)
+    const factory = this.factories.get(kind)
+    if (!factory) {
+      throw new DataSourceConfigError(`No adapter registered for kind: ${kind}`)
+    }
+
+    return factory(source, this.settings) as DataSourceAdapter<SourceRecordMap[S]>
+  }
+}
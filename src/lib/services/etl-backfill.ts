@@ -0,0 +1,329 @@
+/**
+ * ETL Backfill Service
+ *
+ * Purpose: 過去の期間を指定した外部データの一括取得（ソース停止期間の再取得・新しい銘柄の履歴取得）
+ *
+ * - 日次ソースは1日単位、月次ソース（inbound）は1か月単位のチャンクに分けて取得
+ * - ソースごとのレート制限（ETL_RATE_LIMIT_<SOURCE>: 1分あたりのリクエスト数、リトライも含む）を守る
+ * - チャンクごとの結果を etl_run_sources（target_date 付き）に記録し、進捗の確認と再開に使う
+ * - 失敗したソースはそれ以降のチャンクを取得しない（resume_of を指定した再実行で続きから取得）
+ * - dryRun は書き込まず、追加・更新される行数のみ集計する（実行履歴にも残さない）
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { ETLService } from './etl'
+import { EtlRun, EtlRunRecorder } from './etl-runs'
+import { SOURCE_TYPES, SourceType } from './data-source-adapters'
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+// Parameters of a backfill run (stored in etl_runs.params)
+export interface BackfillParams {
+  sources: SourceType[]
+  start_date: string
+  end_date: string
+  resume_of?: string | null // 続きから取得する元の実行ID
+}
+
+export interface BackfillChunk {
+  source: SourceType
+  date: string // YYYY-MM-DD（月次ソースは月初日）
+}
+
+export interface BackfillSourceProgress {
+  source: SourceType
+  totalChunks: number
+  completedChunks: number // 以前の実行で完了済みのチャンクを含む
+  failedChunks: number
+  recordsProcessed: number
+  wouldInsert: number // dryRun のみ
+  wouldUpdate: number // dryRun のみ
+  wouldUnchanged: number // dryRun のみ
+  lastCompletedDate: string | null
+  error: string | null
+}
+
+export interface BackfillResult {
+  runId: string | null // dryRun・取得対象なしの場合は null
+  dryRun: boolean
+  params: BackfillParams
+  totalChunks: number
+  completedChunks: number
+  remainingChunks: number
+  timedOut: boolean
+  sources: BackfillSourceProgress[]
+}
+
+export interface BackfillOptions {
+  dryRun?: boolean
+  triggeredBy?: string | null
+  deadline?: number // epoch ms; no new chunk is started after this (API の実行時間制限)
+  onProgress?: (result: BackfillResult) => void
+}
+
+export type BackfillRateLimits = Record<SourceType, number>
+
+// Requests per minute when ETL_RATE_LIMIT_<SOURCE> is not set
+const DEFAULT_RATE_LIMITS: BackfillRateLimits = {
+  market_index: 30,
+  fx_rates: 30,
+  weather: 60,
+  events: 20,
+  stem_news: 20,
+  inbound: 10
+}
+
+export const BACKFILL_MAX_DAYS = 366
+
+const MONTHLY_SOURCES: SourceType[] = ['inbound']
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Per-source rate limits (requests per minute) from environment variables
+ */
+export function loadBackfillRateLimits(env: NodeJS.ProcessEnv = process.env): BackfillRateLimits {
+  const limits = { ...DEFAULT_RATE_LIMITS }
+
+  for (const source of SOURCE_TYPES) {
+    const value = parseInt(env[`ETL_RATE_LIMIT_${source.toUpperCase()}`] || '', 10)
+    if (!Number.isNaN(value) && value > 0) {
+      limits[source] = value
+    }
+  }
+
+  return limits
+}
+
+/**
+ * Keeps the minimum interval between requests to the same source
+ */
+export class SourceRateLimiter {
+  private readonly lastRequestAt = new Map<SourceType, number>()
+
+  constructor(
+    private readonly limits: BackfillRateLimits,
+    private readonly sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms)),
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async acquire(source: SourceType): Promise<void> {
+    const interval = 60000 / this.limits[source]
+    const last = this.lastRequestAt.get(source)
+
+    if (last !== undefined) {
+      const wait = last + interval - this.now()
+      if (wait > 0) await this.sleep(wait)
+    }
+
+    this.lastRequestAt.set(source, this.now())
+  }
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0]
+}
+
+function chunkKey(chunk: BackfillChunk): string {
+  return `${chunk.source}:${chunk.date}`
+}
+
+/**
+ * Split the period into chunks, oldest first.
+ * Sources alternate within a date so that rate limit waits overlap.
+ */
+export function planBackfillChunks(params: BackfillParams): BackfillChunk[] {
+  const chunks: BackfillChunk[] = []
+
+  for (let date = params.start_date; date <= params.end_date; date = addDays(date, 1)) {
+    const firstOfMonth = `${date.slice(0, 7)}-01`
+
+    for (const source of SOURCE_TYPES) {
+      if (!params.sources.includes(source)) continue
+
+      if (!MONTHLY_SOURCES.includes(source)) {
+        chunks.push({ source, date })
+      } else if (date === params.start_date || date === firstOfMonth) {
+        chunks.push({ source, date: firstOfMonth })
+      }
+    }
+  }
+
+  return chunks
+}
+
+/**
+ * Read backfill parameters back from a run (null when the run is not a backfill)
+ */
+export function backfillParamsFromRun(run: EtlRun): BackfillParams | null {
+  const params = run.params as Partial<BackfillParams> | null
+  if (run.trigger !== 'backfill' || !params || !Array.isArray(params.sources) ||
+      typeof params.start_date !== 'string' || typeof params.end_date !== 'string') {
+    return null
+  }
+
+  return {
+    sources: params.sources.filter(source => SOURCE_TYPES.includes(source)),
+    start_date: params.start_date,
+    end_date: params.end_date,
+    resume_of: params.resume_of ?? null
+  }
+}
+
+export class ETLBackfillService {
+  private readonly runRecorder: EtlRunRecorder
+  private readonly rateLimiter: SourceRateLimiter
+
+  constructor(
+    private readonly supabase: SupabaseClient = createClient(),
+    private readonly etl: ETLService = new ETLService(supabase),
+    rateLimiter?: SourceRateLimiter,
+    private readonly now: () => number = Date.now
+  ) {
+    this.runRecorder = new EtlRunRecorder(supabase)
+    this.rateLimiter = rateLimiter ?? new SourceRateLimiter(loadBackfillRateLimits())
+  }
+
+  async run(params: BackfillParams, options: BackfillOptions = {}): Promise<BackfillResult> {
+    const dryRun = options.dryRun ?? false
+    const chunks = planBackfillChunks(params)
+    const completed = params.resume_of ? await this.loadCompletedChunks(params.resume_of) : new Set<string>()
+    const pending = chunks.filter(chunk => !completed.has(chunkKey(chunk)))
+
+    const progress = new Map<SourceType, BackfillSourceProgress>(
+      params.sources.map(source => [source, {
+        source,
+        totalChunks: 0,
+        completedChunks: 0,
+        failedChunks: 0,
+        recordsProcessed: 0,
+        wouldInsert: 0,
+        wouldUpdate: 0,
+        wouldUnchanged: 0,
+        lastCompletedDate: null,
+        error: null
+      }])
+    )
+    for (const chunk of chunks) {
+      const sourceProgress = progress.get(chunk.source)!
+      sourceProgress.totalChunks++
+      if (completed.has(chunkKey(chunk))) {
+        sourceProgress.completedChunks++
+        sourceProgress.lastCompletedDate = chunk.date
+      }
+    }
+
+    let timedOut = false
+    const summarize = (runId: string | null): BackfillResult => {
+      const sources = Array.from(progress.values())
+      const completedChunks = sources.reduce((sum, source) => sum + source.completedChunks, 0)
+      return {
+        runId,
+        dryRun,
+        params,
+        totalChunks: chunks.length,
+        completedChunks,
+        remainingChunks: chunks.length - completedChunks,
+        timedOut,
+        sources
+      }
+    }
+
+    // 取得対象が残っていない再開は実行履歴を作らない
+    const runId = dryRun || pending.length === 0 ? null : await this.runRecorder.start({
+      trigger: 'backfill',
+      params: { ...params, total_chunks: pending.length },
+      triggeredBy: options.triggeredBy ?? null
+    })
+
+    const failedSources = new Set<SourceType>()
+
+    for (const chunk of pending) {
+      if (failedSources.has(chunk.source)) continue
+      if (options.deadline !== undefined && this.now() >= options.deadline) {
+        timedOut = true
+        break
+      }
+
+      const sourceProgress = progress.get(chunk.source)!
+      const error = dryRun ? await this.previewChunk(chunk, sourceProgress) : await this.runChunk(runId, chunk, sourceProgress)
+
+      if (error) {
+        failedSources.add(chunk.source)
+        sourceProgress.failedChunks++
+        sourceProgress.error = `${chunk.date}: ${error}`
+      } else {
+        sourceProgress.completedChunks++
+        sourceProgress.lastCompletedDate = chunk.date
+      }
+
+      options.onProgress?.(summarize(runId))
+    }
+
+    await this.runRecorder.finish(runId, timedOut ? 'Stopped at the time limit; resume the run to continue' : null)
+
+    return summarize(runId)
+  }
+
+  /**
+   * Returns the error message when the chunk failed
+   */
+  private async runChunk(
+    runId: string | null,
+    chunk: BackfillChunk,
+    sourceProgress: BackfillSourceProgress
+  ): Promise<string | null> {
+    const result = await this.etl.runSource(chunk.source, chunk.date, () => this.rateLimiter.acquire(chunk.source))
+    await this.runRecorder.recordSource(runId, result, chunk.date)
+
+    if (!result.success) return result.error ?? 'Unknown error'
+    sourceProgress.recordsProcessed += result.recordsProcessed
+    return null
+  }
+
+  private async previewChunk(chunk: BackfillChunk, sourceProgress: BackfillSourceProgress): Promise<string | null> {
+    try {
+      await this.rateLimiter.acquire(chunk.source)
+      const preview = await this.etl.previewSource(chunk.source, chunk.date)
+      sourceProgress.recordsProcessed += preview.recordsFetched
+      sourceProgress.wouldInsert += preview.wouldInsert
+      sourceProgress.wouldUpdate += preview.wouldUpdate
+      sourceProgress.wouldUnchanged += preview.wouldUnchanged
+      return null
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+
+  /**
+   * Chunks completed by the run and the runs it resumed (resume_of chain)
+   */
+  private async loadCompletedChunks(runId: string): Promise<Set<string>> {
+    const supabase = await this.supabase
+    const runIds: string[] = []
+
+    for (let id: string | null = runId; id && !runIds.includes(id);) {
+      runIds.push(id)
+      const { data, error } = await supabase
+        .from('etl_runs')
+        .select('params')
+        .eq('id', id)
+        .maybeSingle()
+      if (error) throw new Error(`Failed to load ETL run ${id}: ${error.message}`)
+      const run = data as Pick<EtlRun, 'params'> | null
+      id = (run?.params as Partial<BackfillParams> | null)?.resume_of ?? null
+    }
+
+    const { data: rows, error } = await supabase
+      .from('etl_run_sources')
+      .select('source, target_date')
+      .in('run_id', runIds)
+      .eq('status', 'success')
+    if (error) throw new Error(`Failed to load completed chunks: ${error.message}`)
+
+    return new Set(
+      (rows || [])
+        .filter(row => row.target_date)
+        .map(row => chunkKey({ source: row.source as SourceType, date: row.target_date as string }))
+    )
+  }
+}
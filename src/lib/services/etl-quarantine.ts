@@ -0,0 +1,98 @@
+/**
+ * ETL Quarantine
+ *
+ * Purpose: スキーマ検証・DB 制約で書き込めなかった外部データのレコード（etl_quarantine）の参照・反映・破棄
+ *
+ * - 隔離は ETL の実行記録（EtlRunRecorder.recordSource）が行う
+ * - 反映（release）は release_etl_quarantine で ext_* テーブルへの書き込みと状態の更新を同時に行う
+ * - 管理画面（クライアント）からも表示用の定数を参照するため、サーバー専用のモジュールは型のみ import する
+ */
+
+import type { createClient } from '@/lib/supabase/server'
+import type { SourceType } from './data-source-adapters'
+import type { Database, EtlQuarantineStatus } from '@/types/database.types'
+import { ETL_SOURCE_LABELS } from './etl-runs'
+
+export type EtlQuarantinedRecord = Database['public']['Tables']['etl_quarantine']['Row']
+
+export interface EtlQuarantineQuery {
+  status: EtlQuarantineStatus | null
+  source: SourceType | null
+  runId: string | null
+  limit: number
+  offset: number
+}
+
+export interface EtlQuarantineList {
+  records: EtlQuarantinedRecord[]
+  total: number
+}
+
+export const ETL_QUARANTINE_STATUS_LABELS: Record<EtlQuarantineStatus, string> = {
+  quarantined: '隔離中',
+  released: '反映済み',
+  discarded: '破棄済み'
+}
+
+// error_code of records rejected by the source schema (others carry the database SQLSTATE)
+export const INVALID_RECORD_CODE = 'invalid_record'
+
+export const ETL_QUARANTINE_DEFAULT_LIMIT = 50
+export const ETL_QUARANTINE_MAX_LIMIT = 200
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+function isQuarantineStatus(value: unknown): value is EtlQuarantineStatus {
+  return typeof value === 'string' && value in ETL_QUARANTINE_STATUS_LABELS
+}
+
+function isSourceType(value: unknown): value is SourceType {
+  return typeof value === 'string' && value in ETL_SOURCE_LABELS
+}
+
+function parseNonNegativeInt(value: string | null, fallback: number): number {
+  const parsed = parseInt(value || '', 10)
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed
+}
+
+/**
+ * クエリパラメータの解釈（不正な値は既定値に置き換える。状態の既定は隔離中）
+ */
+export function parseEtlQuarantineQuery(searchParams: URLSearchParams): EtlQuarantineQuery {
+  const status = searchParams.get('status')
+  const source = searchParams.get('source')
+  const limit = parseNonNegativeInt(searchParams.get('limit'), ETL_QUARANTINE_DEFAULT_LIMIT)
+
+  return {
+    status: status === 'all' ? null : isQuarantineStatus(status) ? status : 'quarantined',
+    source: isSourceType(source) ? source : null,
+    runId: searchParams.get('run_id') || null,
+    limit: Math.min(Math.max(limit, 1), ETL_QUARANTINE_MAX_LIMIT),
+    offset: parseNonNegativeInt(searchParams.get('offset'), 0)
+  }
+}
+
+/**
+ * 隔離されたレコード（新しい順）
+ */
+export async function fetchQuarantinedRecords(
+  supabase: SupabaseClient,
+  query: EtlQuarantineQuery
+): Promise<EtlQuarantineList> {
+  let recordsQuery = supabase
+    .from('etl_quarantine')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+
+  if (query.status) recordsQuery = recordsQuery.eq('status', query.status)
+  if (query.source) recordsQuery = recordsQuery.eq('source', query.source)
+  if (query.runId) recordsQuery = recordsQuery.eq('run_id', query.runId)
+
+  const { data, error, count } = await recordsQuery.range(query.offset, query.offset + query.limit - 1)
+  if (error) throw error
+
+  return {
+    records: data || [],
+    total: count ?? 0
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * ETL Run History
+ *
+ * Purpose: ETL の実行履歴（etl_runs）とソース別の結果（etl_run_sources）の記録・参照
+ *
+ * - 記録に失敗しても ETL 自体は止めない（エラーログのみ）
+ * - 書き込めなかったレコードは etl_quarantine に隔離する（確認・反映は ./etl-quarantine）
+ * - 実行IDはジョブ側で採番する（定時実行はユーザーセッションがなく、挿入した行を読み返せないため）
+ * - 監視画面（クライアント）からも表示用の定数を参照するため、サーバー専用のモジュールは型のみ import する
+ */
+
+import type { createClient } from '@/lib/supabase/server'
+import type { ETLResult } from './etl'
+import type { SourceType } from './data-source-adapters'
+import type {
+  Database,
+  EtlRunStatus,
+  EtlTrigger
+} from '@/types/database.types'
+
+export type EtlRun = Database['public']['Tables']['etl_runs']['Row']
+export type EtlRunSource = Database['public']['Tables']['etl_run_sources']['Row']
+export type EtlSourceStatus = Database['public']['Views']['etl_source_status']['Row']
+
+export interface EtlRunWithSources extends EtlRun {
+  sources: EtlRunSource[]
+}
+
+export interface EtlRunList {
+  runs: EtlRun[]
+  sources: EtlSourceStatus[]
+}
+
+export interface EtlRunStartOptions {
+  trigger: EtlTrigger
+  targetDate?: string | null
+  params?: Record<string, unknown> | null
+  triggeredBy?: string | null
+}
+
+export interface EtlRunsQuery {
+  trigger: EtlTrigger | null
+  status: EtlRunStatus | null
+  startDate: string | null
+  endDate: string | null
+  limit: number
+  offset: number
+}
+
+export const ETL_TRIGGER_LABELS: Record<EtlTrigger, string> = {
+  schedule: '定時',
+  manual: '手動',
+  backfill: 'バックフィル'
+}
+
+export const ETL_RUN_STATUS_LABELS: Record<EtlRunStatus, string> = {
+  running: '実行中',
+  success: '成功',
+  partial: '一部失敗',
+  failure: '失敗'
+}
+
+export const ETL_SOURCE_LABELS: Record<SourceType, string> = {
+  market_index: '市場指数',
+  fx_rates: '為替',
+  weather: '天候',
+  events: 'イベント',
+  stem_news: 'STEMニュース',
+  inbound: 'インバウンド'
+}
+
+// Row errors kept per source result (records_failed has the full count)
+export const ETL_ROW_ERRORS_RECORDED = 20
+
+export const ETL_RUNS_DEFAULT_LIMIT = 50
+export const ETL_RUNS_MAX_LIMIT = 200
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Records one ETL execution: start → per-source results → finish
+ */
+export class EtlRunRecorder {
+  constructor(private readonly supabase: SupabaseClient | Promise<SupabaseClient>) {}
+
+  /**
+   * Create the run row. Returns null when it could not be recorded
+   * (later calls with a null id are no-ops).
+   */
+  async start(options: EtlRunStartOptions): Promise<string | null> {
+    const id = crypto.randomUUID()
+
+    try {
+      const supabase = await this.supabase
+      const { error } = await supabase
+        .from('etl_runs')
+        .insert({
+          id,
+          trigger: options.trigger,
+          status: 'running',
+          target_date: options.targetDate ?? null,
+          params: options.params ?? null,
+          triggered_by: options.triggeredBy ?? null
+        })
+      if (error) throw error
+      return id
+    } catch (error) {
+      console.error('[ETL] Failed to record run start:', error)
+      return null
+    }
+  }
+
+  async recordSource(runId: string | null, result: ETLResult, targetDate: string | null = null): Promise<void> {
+    if (!runId) return
+
+    try {
+      const supabase = await this.supabase
+      const { error } = await supabase
+        .from('etl_run_sources')
+        .insert({
+          run_id: runId,
+          source: result.source,
+          target_date: targetDate,
+          status: result.success ? 'success' : 'failure',
+          records_processed: result.recordsProcessed,
+          records_inserted: result.inserted ?? 0,
+          records_updated: result.updated ?? 0,
+          records_unchanged: result.unchanged ?? 0,
+          records_failed: result.rowErrors?.length ?? 0,
+          row_errors: result.rowErrors?.length
+            ? result.rowErrors.slice(0, ETL_ROW_ERRORS_RECORDED).map(({ index, code, message }) => ({ index, code, message }))
+            : null,
+          attempts: result.attempts ?? 1,
+          duration_ms: Math.round(result.duration),
+          error: result.error ?? null
+        })
+      if (error) throw error
+    } catch (error) {
+      console.error(`[ETL] Failed to record ${result.source} result:`, error)
+    }
+
+    await this.quarantine(runId, result, targetDate)
+  }
+
+  /**
+   * Keep every rejected record in etl_quarantine with its reason for admin review
+   */
+  private async quarantine(runId: string, result: ETLResult, targetDate: string | null): Promise<void> {
+    if (!result.rowErrors?.length) return
+
+    try {
+      const supabase = await this.supabase
+      const { error } = await supabase
+        .from('etl_quarantine')
+        .insert(result.rowErrors.map(rowError => ({
+          run_id: runId,
+          source: result.source,
+          target_date: targetDate,
+          record: rowError.record,
+          error_code: rowError.code,
+          reason: rowError.message
+        })))
+      if (error) throw error
+    } catch (error) {
+      console.error(`[ETL] Failed to quarantine ${result.rowErrors.length} ${result.source} records:`, error)
+    }
+  }
+
+  /**
+   * Close the run; status and counts are aggregated from the source rows
+   */
+  async finish(runId: string | null, runError: string | null = null): Promise<void> {
+    if (!runId) return
+
+    try {
+      const supabase = await this.supabase
+      const { error } = await supabase.rpc('finish_etl_run', {
+        p_run_id: runId,
+        p_error: runError
+      })
+      if (error) throw error
+    } catch (error) {
+      console.error('[ETL] Failed to record run finish:', error)
+    }
+  }
+}
+
+function isEtlTrigger(value: unknown): value is EtlTrigger {
+  return typeof value === 'string' && value in ETL_TRIGGER_LABELS
+}
+
+function isEtlRunStatus(value: unknown): value is EtlRunStatus {
+  return typeof value === 'string' && value in ETL_RUN_STATUS_LABELS
+}
+
+function parseNonNegativeInt(value: string | null, fallback: number): number {
+  const parsed = parseInt(value || '', 10)
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed
+}
+
+/**
+ * クエリパラメータの解釈（不正な値は既定値に置き換える）
+ */
+export function parseEtlRunsQuery(searchParams: URLSearchParams): EtlRunsQuery {
+  const trigger = searchParams.get('trigger')
+  const status = searchParams.get('status')
+  const limit = parseNonNegativeInt(searchParams.get('limit'), ETL_RUNS_DEFAULT_LIMIT)
+
+  return {
+    trigger: isEtlTrigger(trigger) ? trigger : null,
+    status: isEtlRunStatus(status) ? status : null,
+    startDate: searchParams.get('start_date') || null,
+    endDate: searchParams.get('end_date') || null,
+    limit: Math.min(Math.max(limit, 1), ETL_RUNS_MAX_LIMIT),
+    offset: parseNonNegativeInt(searchParams.get('offset'), 0)
+  }
+}
+
+/**
+ * 実行履歴（新しい順）と、ソース別の最終成功・最終失敗
+ */
+export async function fetchEtlRuns(
+  supabase: SupabaseClient,
+  query: EtlRunsQuery
+): Promise<EtlRunList & { total: number }> {
+  let runsQuery = supabase
+    .from('etl_runs')
+    .select('*', { count: 'exact' })
+    .order('started_at', { ascending: false })
+
+  if (query.trigger) runsQuery = runsQuery.eq('trigger', query.trigger)
+  if (query.status) runsQuery = runsQuery.eq('status', query.status)
+  // 開始日時は JST の日付で絞り込む
+  if (query.startDate) runsQuery = runsQuery.gte('started_at', `${query.startDate}T00:00:00+09:00`)
+  if (query.endDate) runsQuery = runsQuery.lte('started_at', `${query.endDate}T23:59:59.999+09:00`)
+
+  const [runsResult, sourcesResult] = await Promise.all([
+    runsQuery.range(query.offset, query.offset + query.limit - 1),
+    supabase.from('etl_source_status').select('*')
+  ])
+
+  if (runsResult.error) throw runsResult.error
+  if (sourcesResult.error) throw sourcesResult.error
+
+  const statusBySource = new Map<string, EtlSourceStatus>(
+    (sourcesResult.data || []).map((row: EtlSourceStatus) => [row.source, row])
+  )
+
+  return {
+    runs: runsResult.data || [],
+    // 一度も実行されていないソースも含め、定義順で返す
+    sources: (Object.keys(ETL_SOURCE_LABELS) as SourceType[]).map(source => statusBySource.get(source) ?? {
+      source,
+      last_run_at: null,
+      last_success_at: null,
+      last_failure_at: null
+    }),
+    total: runsResult.count ?? 0
+  }
+}
+
+/**
+ * 1件の実行とソース別の結果（見つからない場合は null）
+ */
+export async function fetchEtlRun(supabase: SupabaseClient, id: string): Promise<EtlRunWithSources | null> {
+  const { data: run, error } = await supabase
+    .from('etl_runs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!run) return null
+
+  const { data: sources, error: sourcesError } = await supabase
+    .from('etl_run_sources')
+    .select('*')
+    .eq('run_id', id)
+    .order('target_date', { ascending: true, nullsFirst: true })
+    .order('finished_at', { ascending: true })
+
+  if (sourcesError) throw sourcesError
+
+  return { ...run, sources: sources || [] }
+}
@@ -9,92 +9,341 @@
  * - 3回リトライロジック
  * - 10分以内更新完了
  * - 包括的エラーハンドリング
- * - データ正規化・バリデーション
+ * - データ正規化・バリデーション（不正なレコードは etl_quarantine に隔離）
  */
 
-import { createClient } from '@/lib/supabase/server'
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server'
 import { DataSource } from './data-sources'
+import { SOURCE_TYPES, SourceType } from './data-source-adapters'
+import { EtlRunRecorder } from './etl-runs'
+import { INVALID_RECORD_CODE } from './etl-quarantine'
+import { sloMonitor } from '@/lib/monitoring/slo-monitor'
+import { validateExternalRecord } from '@/lib/validations/external-data'
+import type { EtlRowError, EtlTrigger } from '@/types/database.types'
 
 type SupabaseClient = ReturnType<typeof createClient>
 
 export interface ETLResult {
   source: string
   success: boolean
-  recordsProcessed: number
+  recordsProcessed: number // inserted + updated + unchanged（拒否された行は含まない）
   duration: number
+  attempts?: number // リトライを含む試行回数
+  inserted?: number
+  updated?: number
+  unchanged?: number
+  rowErrors?: EtlRejectedRecord[] // 書き込めなかった行（index は取得したレコードの位置、etl_quarantine に隔離される）
   error?: string
 }
 
 export interface ETLResults {
+  runId: string | null // etl_runs.id（履歴を記録できなかった場合は null）
   totalDuration: number
   successCount: number
   failureCount: number
   results: ETLResult[]
+  slo: ETLCompletionSLO
+}
+
+// Full ETL duration measured against the etl_completion_time SLO target (10 minutes)
+export interface ETLCompletionSLO {
+  targetSeconds: number
+  durationSeconds: number
+  met: boolean
+}
+
+// A fetched record that failed schema validation (code invalid_record) or was rejected by the database
+export interface EtlRejectedRecord extends EtlRowError {
+  record: Record<string, unknown>
+}
+
+export interface ETLRunOptions {
+  trigger?: EtlTrigger // 既定は schedule
+  triggeredBy?: string | null
+  date?: string // 取得対象日（YYYY-MM-DD、省略時は実行日）
+  params?: Record<string, unknown> | null
+}
+
+export interface ETLPreview {
+  source: SourceType
+  recordsFetched: number
+  wouldInsert: number
+  wouldUpdate: number
+  wouldUnchanged: number
+}
+
+// Records per etl_upsert_records call (one transaction per chunk)
+export const ETL_UPSERT_CHUNK_SIZE = 500
+
+// Target table, upsert key and compared value columns of each source (same columns as etl_upsert_records)
+const SOURCE_TABLES: Record<SourceType, { table: string; keys: string[]; values: string[] }> = {
+  market_index: { table: 'ext_market_index', keys: ['date', 'symbol'], values: ['value', 'change_percent'] },
+  fx_rates: { table: 'ext_fx_rate', keys: ['date', 'pair'], values: ['rate', 'change_percent'] },
+  weather: {
+    table: 'ext_weather_daily',
+    keys: ['date', 'location'],
+    values: ['temperature_max', 'temperature_min', 'precipitation_mm', 'humidity_percent', 'weather_condition']
+  },
+  events: {
+    table: 'ext_events',
+    keys: ['date', 'title', 'location'],
+    values: ['lat', 'lng', 'event_type', 'expected_attendance', 'notes']
+  },
+  stem_news: {
+    table: 'ext_stem_news',
+    keys: ['published_date', 'title', 'source'],
+    values: ['category', 'url', 'summary', 'sentiment_score']
+  },
+  inbound: { table: 'ext_inbound', keys: ['year_month', 'country', 'prefecture'], values: ['visitors', 'change_percent'] }
+}
+
+// IS NOT DISTINCT FROM for a fetched value and the stored one (numeric columns may come back as strings)
+function isSameValue(fetched: unknown, stored: unknown): boolean {
+  if (fetched === null || fetched === undefined || stored === null || stored === undefined) {
+    return (fetched ?? null) === (stored ?? null)
+  }
+  if (typeof fetched === 'number') return fetched === Number(stored)
+  return fetched === stored
 }
 
 export class ETLService {
   private supabase: SupabaseClient
   private dataSource: DataSource
+  private runRecorder: EtlRunRecorder
 
-  constructor() {
-    this.supabase = createClient()
-    this.dataSource = new DataSource()
+  constructor(supabase: SupabaseClient = createClient(), dataSource: DataSource = new DataSource()) {
+    this.supabase = supabase
+    this.dataSource = dataSource
+    this.runRecorder = new EtlRunRecorder(this.supabase)
   }
 
   /**
-   * Execute full ETL pipeline for all external data sources
+   * Execute full ETL pipeline for all external data sources.
+   * The run and each source result are recorded in etl_runs / etl_run_sources.
    */
-  async runFullETL(): Promise<ETLResults> {
+  async runFullETL(options: ETLRunOptions = {}): Promise<ETLResults> {
     const startTime = Date.now()
     const results: ETLResult[] = []
+    const { date } = options
 
     if (process.env.NODE_ENV === 'development') {
       console.warn('[ETL] Starting full ETL pipeline...')
     }
 
-    // Define data sources to process
-    const dataSources = [
-      { name: 'market_index', handler: this.processMarketData.bind(this) },
-      { name: 'fx_rates', handler: this.processFXData.bind(this) },
-      { name: 'weather', handler: this.processWeatherData.bind(this) },
-      { name: 'events', handler: this.processEventsData.bind(this) },
-      { name: 'stem_news', handler: this.processSTEMNews.bind(this) },
-      { name: 'inbound', handler: this.processInboundData.bind(this) }
-    ]
+    const runId = await this.runRecorder.start({
+      trigger: options.trigger ?? 'schedule',
+      targetDate: date ?? null,
+      params: options.params ?? null,
+      triggeredBy: options.triggeredBy ?? null
+    })
 
     // Process each data source
-    for (const source of dataSources) {
-      try {
-        if (process.env.NODE_ENV === 'development') {
-          console.warn(`[ETL] Processing ${source.name}...`)
-        }
-        const result = await this.executeWithRetry(source.handler, source.name)
-        results.push(result)
-      } catch (error) {
-        console.error(`[ETL] Failed to process ${source.name}:`, error)
-        results.push({
-          source: source.name,
-          success: false,
-          recordsProcessed: 0,
-          duration: 0,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        })
+    for (const source of SOURCE_TYPES) {
+      if (process.env.NODE_ENV === 'development') {
+        console.warn(`[ETL] Processing ${source}...`)
       }
+      const result = await this.runSource(source, date)
+      results.push(result)
+      await this.runRecorder.recordSource(runId, result, date ?? null)
     }
 
+    await this.runRecorder.finish(runId)
+
+    // 前期間・前年同期の KPI 比較で使う日次サマリーを更新（失敗しても ETL 結果には含めない）
+    await this.refreshDailySalesSummary()
+
     const totalDuration = Date.now() - startTime
     const successCount = results.filter(r => r.success).length
     const failureCount = results.length - successCount
+    const slo = this.measureCompletionSLO(totalDuration, runId, options.trigger ?? 'schedule')
 
     if (process.env.NODE_ENV === 'development') {
       console.warn(`[ETL] Pipeline completed: ${successCount}/${results.length} sources successful`)
     }
 
     return {
+      runId,
       totalDuration,
       successCount,
       failureCount,
-      results
+      results,
+      slo
+    }
+  }
+
+  /**
+   * Fetch and store one source for one date with 3-retry logic.
+   * Never throws: a failure is returned as an unsuccessful result.
+   * beforeAttempt runs before every attempt (used by backfill for rate limiting).
+   */
+  async runSource(
+    source: SourceType,
+    date?: string,
+    beforeAttempt?: () => Promise<void>
+  ): Promise<ETLResult> {
+    const startTime = Date.now()
+    let attempts = 0
+
+    try {
+      const result = await this.executeWithRetry(() => this.processSource(source, date), source, 3, async attempt => {
+        attempts = attempt
+        await beforeAttempt?.()
+      })
+      return { ...result, attempts }
+    } catch (error) {
+      console.error(`[ETL] Failed to process ${source}:`, error)
+      return {
+        source,
+        success: false,
+        recordsProcessed: 0,
+        duration: Date.now() - startTime,
+        attempts,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  /**
+   * Dry run: fetch one source for one date and count how many rows
+   * the upsert would insert, update or leave unchanged, without writing anything
+   */
+  async previewSource(source: SourceType, date: string): Promise<ETLPreview> {
+    const { table, keys, values } = SOURCE_TABLES[source]
+    const records = await this.dataSource.fetchSource(source, date) as unknown as Record<string, unknown>[]
+    const keyOf = (row: Record<string, unknown>) => keys.map(key => String(row[key] ?? '')).join('\u0000')
+
+    // A key fetched twice is written twice; the last record is what ends up in the table
+    const fetchedByKey = new Map(records.map(record => [keyOf(record), record]))
+    const dates = Array.from(new Set(records.map(record => String(record[keys[0]]))))
+    const existingByKey = new Map<string, Record<string, unknown>>()
+
+    if (dates.length > 0) {
+      const supabase = await this.supabase
+      const { data, error } = await supabase
+        .from(table as 'ext_market_index')
+        .select([...keys, ...values].join(','))
+        .in(keys[0], dates)
+      if (error) throw new Error(`Failed to read ${table}: ${error.message}`)
+      for (const row of (data || []) as unknown as Record<string, unknown>[]) {
+        existingByKey.set(keyOf(row), row)
+      }
+    }
+
+    const preview: ETLPreview = { source, recordsFetched: records.length, wouldInsert: 0, wouldUpdate: 0, wouldUnchanged: 0 }
+    fetchedByKey.forEach((record, key) => {
+      const existing = existingByKey.get(key)
+      if (!existing) {
+        preview.wouldInsert++
+      } else if (values.every(column => isSameValue(record[column], existing[column]))) {
+        preview.wouldUnchanged++
+      } else {
+        preview.wouldUpdate++
+      }
+    })
+
+    return preview
+  }
+
+  private processSource(source: SourceType, date?: string): Promise<ETLResult> {
+    switch (source) {
+      case 'market_index': return this.processMarketData(date)
+      case 'fx_rates': return this.processFXData(date)
+      case 'weather': return this.processWeatherData(date)
+      case 'events': return this.processEventsData(date)
+      case 'stem_news': return this.processSTEMNews(date)
+      case 'inbound': return this.processInboundData(date)
+    }
+  }
+
+  /**
+   * Record the full ETL duration for the etl_completion_time SLO (10分以内更新完了)
+   */
+  private measureCompletionSLO(totalDuration: number, runId: string | null, trigger: EtlTrigger): ETLCompletionSLO {
+    const targetSeconds = sloMonitor.getTarget('etl_completion_time')?.target ?? 600
+    const durationSeconds = totalDuration / 1000
+
+    // 目標を超えた場合は sloMonitor が違反として記録・通知する
+    sloMonitor.recordMetric('etl_completion_time', durationSeconds, { run_id: runId, trigger })
+
+    return { targetSeconds, durationSeconds, met: durationSeconds <= targetSeconds }
+  }
+
+  /**
+   * Validate fetched records against the source schema and write the valid ones through
+   * etl_upsert_records in chunks of ETL_UPSERT_CHUNK_SIZE. Each chunk is one transaction;
+   * invalid records and rows rejected by the database are returned in rowErrors (and
+   * quarantined by the run recorder) while the rest is still written. A source whose every
+   * record was rejected fails without retrying (the same data would be rejected again).
+   */
+  private async writeRecords(source: SourceType, records: object[], startTime: number): Promise<ETLResult> {
+    const supabase = await this.supabase
+    let inserted = 0
+    let updated = 0
+    let unchanged = 0
+    const rowErrors: EtlRejectedRecord[] = []
+    const valid: { index: number; record: Record<string, unknown> }[] = []
+
+    records.forEach((value, index) => {
+      const record = value as Record<string, unknown>
+      const reason = validateExternalRecord(source, record)
+      if (reason) {
+        rowErrors.push({ index, code: INVALID_RECORD_CODE, message: reason, record })
+      } else {
+        valid.push({ index, record })
+      }
+    })
+
+    for (let offset = 0; offset < valid.length; offset += ETL_UPSERT_CHUNK_SIZE) {
+      const chunk = valid.slice(offset, offset + ETL_UPSERT_CHUNK_SIZE)
+      const { data, error } = await supabase.rpc('etl_upsert_records', {
+        p_source: source,
+        p_records: chunk.map(row => row.record)
+      })
+
+      if (error || !data) {
+        throw new Error(`Failed to write records ${offset + 1}-${offset + chunk.length}: ${error?.message ?? 'No result'}`)
+      }
+
+      inserted += data.inserted
+      updated += data.updated
+      unchanged += data.unchanged
+      for (const rowError of data.errors as EtlRowError[]) {
+        const { index, record } = chunk[rowError.index]
+        rowErrors.push({ ...rowError, index, record })
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      rowErrors.sort((a, b) => a.index - b.index)
+      console.warn(`[ETL] ${source} - ${rowErrors.length}/${records.length} records rejected:`, rowErrors[0].message)
+    }
+
+    const recordsProcessed = inserted + updated + unchanged
+    const allRejected = records.length > 0 && recordsProcessed === 0
+
+    return {
+      source,
+      success: !allRejected,
+      recordsProcessed,
+      duration: Date.now() - startTime,
+      inserted,
+      updated,
+      unchanged,
+      rowErrors,
+      ...(allRejected && { error: `All ${records.length} records were rejected: ${rowErrors[0].message}` })
+    }
+  }
+
+  /**
+   * Refresh mv_daily_sales_summary used by the KPI comparison API
+   * (the function is granted to the service role only)
+   */
+  private async refreshDailySalesSummary(): Promise<void> {
+    try {
+      const { error } = await createServiceRoleClient().rpc('refresh_daily_sales_summary')
+      if (error) throw error
+    } catch (error) {
+      console.error('[ETL] Failed to refresh daily sales summary:', error)
     }
   }
 
@@ -104,12 +353,14 @@ export class ETLService {
   private async executeWithRetry(
     handler: () => Promise<ETLResult>,
     sourceName: string,
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    onAttempt?: (attempt: number) => void | Promise<void>
   ): Promise<ETLResult> {
     let lastError: Error | null = null
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
+        await onAttempt?.(attempt)
         if (process.env.NODE_ENV === 'development') {
           console.warn(`[ETL] ${sourceName} - Attempt ${attempt}/${maxRetries}`)
         }
@@ -135,35 +386,12 @@ export class ETLService {
   /**
    * Process market index data (TOPIX, NIKKEI225, individual stocks)
    */
-  private async processMarketData(): Promise<ETLResult> {
+  private async processMarketData(date?: string): Promise<ETLResult> {
     const startTime = Date.now()
-    let recordsProcessed = 0
 
     try {
-      const marketData = await this.dataSource.fetchMarketData()
-      
-      for (const data of marketData) {
-        await this.supabase
-          .from('ext_market_index')
-          .upsert({
-            date: data.date,
-            symbol: data.symbol,
-            value: data.value,
-            change_percent: data.change_percent,
-            updated_at: new Date().toISOString()
-          }, {
-            onConflict: 'date,symbol'
-          })
-        
-        recordsProcessed++
-      }
-
-      return {
-        source: 'market_index',
-        success: true,
-        recordsProcessed,
-        duration: Date.now() - startTime
-      }
+      const marketData = await this.dataSource.fetchMarketData(date)
+      return await this.writeRecords('market_index', marketData, startTime)
     } catch (error) {
       throw new Error(`Market data ETL failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
@@ -172,35 +400,12 @@ export class ETLService {
   /**
    * Process FX rate data (USD/JPY, EUR/JPY, CNY/JPY)
    */
-  private async processFXData(): Promise<ETLResult> {
+  private async processFXData(date?: string): Promise<ETLResult> {
     const startTime = Date.now()
-    let recordsProcessed = 0
 
     try {
-      const fxData = await this.dataSource.fetchFXRates()
-      
-      for (const data of fxData) {
-        await this.supabase
-          .from('ext_fx_rate')
-          .upsert({
-            date: data.date,
-            pair: data.pair,
-            rate: data.rate,
-            change_percent: data.change_percent,
-            updated_at: new Date().toISOString()
-          }, {
-            onConflict: 'date,pair'
-          })
-        
-        recordsProcessed++
-      }
-
-      return {
-        source: 'fx_rates',
-        success: true,
-        recordsProcessed,
-        duration: Date.now() - startTime
-      }
+      const fxData = await this.dataSource.fetchFXRates(date)
+      return await this.writeRecords('fx_rates', fxData, startTime)
     } catch (error) {
       throw new Error(`FX data ETL failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
@@ -209,38 +414,12 @@ export class ETLService {
   /**
    * Process weather data
    */
-  private async processWeatherData(): Promise<ETLResult> {
+  private async processWeatherData(date?: string): Promise<ETLResult> {
     const startTime = Date.now()
-    let recordsProcessed = 0
 
     try {
-      const weatherData = await this.dataSource.fetchWeatherData()
-      
-      for (const data of weatherData) {
-        await this.supabase
-          .from('ext_weather_daily')
-          .upsert({
-            date: data.date,
-            location: data.location,
-            temperature_max: data.temperature_max,
-            temperature_min: data.temperature_min,
-            precipitation_mm: data.precipitation_mm,
-            humidity_percent: data.humidity_percent,
-            weather_condition: data.weather_condition,
-            updated_at: new Date().toISOString()
-          }, {
-            onConflict: 'date,location'
-          })
-        
-        recordsProcessed++
-      }
-
-      return {
-        source: 'weather',
-        success: true,
-        recordsProcessed,
-        duration: Date.now() - startTime
-      }
+      const weatherData = await this.dataSource.fetchWeatherData(date)
+      return await this.writeRecords('weather', weatherData, startTime)
     } catch (error) {
       throw new Error(`Weather data ETL failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
@@ -249,39 +428,12 @@ export class ETLService {
   /**
    * Process local events data (5km radius around stores)
    */
-  private async processEventsData(): Promise<ETLResult> {
+  private async processEventsData(date?: string): Promise<ETLResult> {
     const startTime = Date.now()
-    let recordsProcessed = 0
 
     try {
-      const eventsData = await this.dataSource.fetchEventsData()
-      
-      for (const data of eventsData) {
-        await this.supabase
-          .from('ext_events')
-          .upsert({
-            date: data.date,
-            title: data.title,
-            location: data.location,
-            lat: data.lat,
-            lng: data.lng,
-            event_type: data.event_type,
-            expected_attendance: data.expected_attendance,
-            notes: data.notes,
-            updated_at: new Date().toISOString()
-          }, {
-            onConflict: 'date,title,location'
-          })
-        
-        recordsProcessed++
-      }
-
-      return {
-        source: 'events',
-        success: true,
-        recordsProcessed,
-        duration: Date.now() - startTime
-      }
+      const eventsData = await this.dataSource.fetchEventsData(date)
+      return await this.writeRecords('events', eventsData, startTime)
     } catch (error) {
       throw new Error(`Events data ETL failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
@@ -290,38 +442,12 @@ export class ETLService {
   /**
    * Process STEM news data (AI, semiconductor, robotics, biotech)
    */
-  private async processSTEMNews(): Promise<ETLResult> {
+  private async processSTEMNews(date?: string): Promise<ETLResult> {
     const startTime = Date.now()
-    let recordsProcessed = 0
 
     try {
-      const stemNews = await this.dataSource.fetchSTEMNews()
-      
-      for (const news of stemNews) {
-        await this.supabase
-          .from('ext_stem_news')
-          .upsert({
-            published_date: news.published_date,
-            title: news.title,
-            source: news.source,
-            category: news.category,
-            url: news.url,
-            summary: news.summary,
-            sentiment_score: news.sentiment_score,
-            updated_at: new Date().toISOString()
-          }, {
-            onConflict: 'published_date,title,source'
-          })
-        
-        recordsProcessed++
-      }
-
-      return {
-        source: 'stem_news',
-        success: true,
-        recordsProcessed,
-        duration: Date.now() - startTime
-      }
+      const stemNews = await this.dataSource.fetchSTEMNews(date)
+      return await this.writeRecords('stem_news', stemNews, startTime)
     } catch (error) {
       throw new Error(`STEM news ETL failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
@@ -330,36 +456,12 @@ export class ETLService {
   /**
    * Process inbound tourism statistics
    */
-  private async processInboundData(): Promise<ETLResult> {
+  private async processInboundData(date?: string): Promise<ETLResult> {
     const startTime = Date.now()
-    let recordsProcessed = 0
 
     try {
-      const inboundData = await this.dataSource.fetchInboundData()
-      
-      for (const data of inboundData) {
-        await this.supabase
-          .from('ext_inbound')
-          .upsert({
-            year_month: data.year_month,
-            country: data.country,
-            visitors: data.visitors,
-            change_percent: data.change_percent,
-            prefecture: data.prefecture,
-            updated_at: new Date().toISOString()
-          }, {
-            onConflict: 'year_month,country,prefecture'
-          })
-        
-        recordsProcessed++
-      }
-
-      return {
-        source: 'inbound',
-        success: true,
-        recordsProcessed,
-        duration: Date.now() - startTime
-      }
+      const inboundData = await this.dataSource.fetchInboundData(date)
+      return await this.writeRecords('inbound', inboundData, startTime)
     } catch (error) {
       throw new Error(`Inbound data ETL failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
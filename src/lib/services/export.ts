@@ -7,7 +7,11 @@ import * as Papa from 'papaparse';
 import * as ExcelJS from 'exceljs';
 import { format } from 'date-fns';
 import { createClient } from '@/lib/supabase/server';
-import { Database } from '@/types/database.types';
+import { getSalesStatusesForFilter, isSalesStatusFilter } from '@/lib/sales-status';
+import { SALES_CHANNEL_LABELS, isSalesChannel } from '@/lib/sales-channels';
+import { calculateSalesTax, fetchTaxRules } from '@/lib/tax';
+import { AccountingPeriodClose, fetchClosedPeriods, findClosedPeriod, formatPeriodLabel } from '@/lib/accounting-periods';
+import { Database, SalesChannel, SalesStatusFilter } from '@/types/database.types';
 
 // エクスポート形式
 export type ExportFormat = 'csv' | 'excel';
@@ -19,6 +23,8 @@ export interface ExportFilters {
   storeId?: string;
   department?: string;
   category?: string;
+  channel?: SalesChannel; // 省略時は全チャネル
+  salesStatus?: SalesStatusFilter; // 省略時は承認済みのみ
 }
 
 // エクスポートデータタイプ
@@ -38,12 +44,20 @@ export interface ExportStats {
   filteredRecords: number;
   generationTime: number;
   fileSize: number;
+  closedPeriods: Pick<AccountingPeriodClose, 'period' | 'store_id' | 'closed_at'>[]; // 出力時点で締め済みの月
 }
 
+// 売上データ取得時の行（店舗名を結合）
+type SalesExportRow = Database['public']['Tables']['sales']['Row'] & {
+  store: { name: string } | null;
+};
+
 type SalesData = Database['public']['Tables']['sales']['Row'] & {
   store_name?: string;
   department_name?: string;
   category_name?: string;
+  channel_name?: string;
+  period_status?: string;
 };
 
 type ExternalData = {
@@ -72,18 +86,24 @@ export class ExportService {
     const startTime = Date.now();
 
     try {
+      // 出力時点の締め状況（売上データを含む場合）
+      const closedPeriods = dataType === 'sales' || dataType === 'combined'
+        ? await this.fetchClosedPeriods(filters)
+        : [];
+
       // データ取得
-      const data = await this.fetchData(dataType, filters);
+      const data = await this.fetchData(dataType, filters, closedPeriods);
       
       // ファイル生成
-      const result = await this.generateFile(data, format, dataType);
+      const result = await this.generateFile(data, format, dataType, closedPeriods);
       
       // 統計情報
       const stats: ExportStats = {
         totalRecords: data.length,
         filteredRecords: data.length,
         generationTime: Date.now() - startTime,
-        fileSize: result.size
+        fileSize: result.size,
+        closedPeriods: closedPeriods.map(({ period, store_id, closed_at }) => ({ period, store_id, closed_at }))
       };
 
       return { result, stats };
@@ -95,15 +115,19 @@ export class ExportService {
   /**
    * データ取得
    */
-  private async fetchData(dataType: ExportDataType, filters: ExportFilters): Promise<any[]> {
+  private async fetchData(
+    dataType: ExportDataType,
+    filters: ExportFilters,
+    closedPeriods: AccountingPeriodClose[]
+  ): Promise<any[]> {
     switch (dataType) {
       case 'sales':
-        return this.fetchSalesData(filters);
+        return this.fetchSalesData(filters, closedPeriods);
       case 'external':
         return this.fetchExternalData(filters);
       case 'combined':
         const [sales, external] = await Promise.all([
-          this.fetchSalesData(filters),
+          this.fetchSalesData(filters, closedPeriods),
           this.fetchExternalData(filters)
         ]);
         return [...sales, ...external];
@@ -115,14 +139,12 @@ export class ExportService {
   /**
    * 売上データ取得
    */
-  private async fetchSalesData(filters: ExportFilters): Promise<SalesData[]> {
+  private async fetchSalesData(filters: ExportFilters, closedPeriods: AccountingPeriodClose[]): Promise<SalesData[]> {
     let query = this.supabase
       .from('sales')
       .select(`
         *,
-        store:dim_store(name),
-        department:dim_department(name),
-        category:dim_product_category(name)
+        store:dim_store(name)
       `);
 
     // フィルター適用
@@ -141,6 +163,10 @@ export class ExportService {
     if (filters.category) {
       query = query.eq('product_category', filters.category);
     }
+    if (filters.channel) {
+      query = query.eq('channel', filters.channel);
+    }
+    query = query.in('status', getSalesStatusesForFilter(filters.salesStatus));
 
     query = query.order('date', { ascending: false });
 
@@ -150,13 +176,65 @@ export class ExportService {
       throw new Error(`Failed to fetch sales data: ${error.message}`);
     }
 
+    // 税額未計算の行は税率ルールから補完
+    const rows: SalesExportRow[] = data || [];
+    const taxRules = rows.some(item => item.tax === null || item.tax === undefined)
+      ? await fetchTaxRules(this.supabase)
+      : [];
+    const masterNames = await this.fetchMasterNames();
+
     // データ変換
-    return (data || []).map(item => ({
-      ...item,
-      store_name: item.store?.name || '',
-      department_name: item.department?.name || '',
-      category_name: item.category?.name || ''
-    }));
+    return rows.map(item => {
+      const taxCalculation = item.tax === null || item.tax === undefined
+        ? calculateSalesTax(taxRules, item)
+        : null;
+
+      return {
+        ...item,
+        tax: taxCalculation ? taxCalculation.tax : item.tax,
+        tax_rate: taxCalculation ? taxCalculation.tax_rate : item.tax_rate,
+        store_name: item.store?.name || '',
+        department_name: (item.department && masterNames.departments.get(item.department)) || item.department || '',
+        category_name: (item.product_category && masterNames.categories.get(item.product_category)) || item.product_category || '',
+        channel_name: SALES_CHANNEL_LABELS[item.channel] || item.channel || '',
+        period_status: findClosedPeriod(closedPeriods, item.store_id, item.date) ? '締め済み' : '未締め'
+      };
+    });
+  }
+
+  /**
+   * 出力対象の期間・店舗に掛かる締め（全店の締めを含む）
+   */
+  private async fetchClosedPeriods(filters: ExportFilters): Promise<AccountingPeriodClose[]> {
+    const closes = await fetchClosedPeriods(this.supabase, filters.startDate, filters.endDate);
+    return filters.storeId
+      ? closes.filter(close => close.store_id === null || close.store_id === filters.storeId)
+      : closes;
+  }
+
+  /**
+   * 部門・商品カテゴリのコード → 表示名
+   */
+  private async fetchMasterNames(): Promise<{ departments: Map<string, string>; categories: Map<string, string> }> {
+    const [departments, categories] = await Promise.all([
+      this.supabase.from('dim_department').select('code, name'),
+      this.supabase.from('dim_product_category').select('code, name'),
+    ]);
+
+    if (departments.error) {
+      throw new Error(`Failed to fetch departments: ${departments.error.message}`);
+    }
+    if (categories.error) {
+      throw new Error(`Failed to fetch product categories: ${categories.error.message}`);
+    }
+
+    const toMap = (rows: { code: string; name: string }[] | null | undefined) =>
+      new Map((rows || []).map(row => [row.code, row.name]));
+
+    return {
+      departments: toMap(departments.data),
+      categories: toMap(categories.data),
+    };
   }
 
   /**
@@ -228,7 +306,8 @@ export class ExportService {
   private async generateFile(
     data: any[],
     format: ExportFormat,
-    dataType: ExportDataType
+    dataType: ExportDataType,
+    closedPeriods: AccountingPeriodClose[] = []
   ): Promise<ExportResult> {
     const timestamp = format(new Date(), 'yyyyMMdd_HHmmss');
     const filename = `${dataType}_export_${timestamp}.${format === 'excel' ? 'xlsx' : 'csv'}`;
@@ -236,7 +315,7 @@ export class ExportService {
     if (format === 'csv') {
       return this.generateCSV(data, filename);
     } else {
-      return this.generateExcel(data, filename, dataType);
+      return this.generateExcel(data, filename, dataType, closedPeriods);
     }
   }
 
@@ -266,7 +345,12 @@ export class ExportService {
   /**
    * Excel生成
    */
-  private async generateExcel(data: any[], filename: string, dataType: ExportDataType): Promise<ExportResult> {
+  private async generateExcel(
+    data: any[],
+    filename: string,
+    dataType: ExportDataType,
+    closedPeriods: AccountingPeriodClose[] = []
+  ): Promise<ExportResult> {
     try {
       const workbook = new ExcelJS.Workbook();
       
@@ -284,6 +368,10 @@ export class ExportService {
         await this.createSingleSheet(workbook, data, dataType);
       }
 
+      if (dataType !== 'external') {
+        this.createClosedPeriodsSheet(workbook, closedPeriods);
+      }
+
       const buffer = await workbook.xlsx.writeBuffer();
 
       return {
@@ -347,6 +435,33 @@ export class ExportService {
     });
   }
 
+  /**
+   * 締め状況シート作成（出力時点で締め済みの月）
+   */
+  private createClosedPeriodsSheet(workbook: ExcelJS.Workbook, closedPeriods: AccountingPeriodClose[]) {
+    const worksheet = workbook.addWorksheet('締め状況');
+    worksheet.addRow(['出力日時', new Date().toISOString()]);
+    worksheet.addRow([]);
+
+    if (closedPeriods.length === 0) {
+      worksheet.addRow(['締め済みの月はありません']);
+      return;
+    }
+
+    const headerRow = worksheet.addRow(['対象月', '店舗ID', '締め日時']);
+    headerRow.eachCell((cell) => {
+      cell.font = { bold: true };
+    });
+
+    closedPeriods.forEach(close => {
+      worksheet.addRow([formatPeriodLabel(close.period), close.store_id || '全店', close.closed_at]);
+    });
+
+    worksheet.columns.forEach(column => {
+      column.width = 24;
+    });
+  }
+
   /**
    * 複数シート作成
    */
@@ -425,6 +540,14 @@ export class ExportService {
       }
     }
 
+    if (filters.channel && !isSalesChannel(filters.channel)) {
+      errors.push('チャネルは店頭・EC・外商のいずれかを指定してください');
+    }
+
+    if (filters.salesStatus !== undefined && !isSalesStatusFilter(filters.salesStatus)) {
+      errors.push('集計対象のステータスが不正です');
+    }
+
     return {
       valid: errors.length === 0,
       errors
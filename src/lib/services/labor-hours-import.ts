@@ -0,0 +1,146 @@
+/**
+ * 人時インポートサービス
+ * 勤怠システムから出力した CSV・Excel(.xlsx) を解析・検証する（ファイル読込みは売上インポートと共通）
+ */
+
+import {
+  ImportFileType,
+  ImportMode,
+  ImportRowError,
+  normalizeDate,
+  readImportRecords,
+} from '@/lib/services/sales-import';
+import { validateLaborHoursForm } from '@/lib/validations/labor-hours';
+import { LaborHoursInputForm, ValidationError } from '@/types/database.types';
+
+// 解析済みの人時行（row はヘッダー行を1行目としたファイル上の行番号）
+export interface LaborHoursImportRow {
+  row: number;
+  data: LaborHoursInputForm;
+}
+
+// 人時インポート結果レポート
+export interface LaborHoursImportReport {
+  mode: ImportMode;
+  fileName: string;
+  totalRows: number;
+  validRows: number;
+  errorRows: number;
+  errors: ImportRowError[];
+  totalHours: number;
+  upsertedCount: number;
+}
+
+// ヘッダー名 → フィールド名（英語のカラム名・日本語ラベルのどちらも受け付ける）
+const HEADER_MAP: Record<string, keyof LaborHoursInputForm> = {
+  date: 'date',
+  '日付': 'date',
+  store_id: 'store_id',
+  '店舗ID': 'store_id',
+  department: 'department',
+  '部門': 'department',
+  hours: 'hours',
+  '人時': 'hours',
+  '労働時間': 'hours',
+  notes: 'notes',
+  '備考': 'notes',
+};
+
+/**
+ * ファイルを解析して人時行に変換
+ */
+export async function parseLaborHoursImportFile(
+  buffer: Uint8Array,
+  fileType: ImportFileType
+): Promise<{ rows: LaborHoursImportRow[]; errors: ImportRowError[] }> {
+  const records = await readImportRecords(buffer, fileType);
+
+  const rows: LaborHoursImportRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  records.forEach((record, index) => {
+    const rowNumber = index + 2; // 1行目はヘッダー
+    const { data, errors: formatErrors } = toLaborHoursInput(record);
+
+    if (formatErrors.length > 0) {
+      errors.push({ row: rowNumber, errors: formatErrors });
+    } else {
+      rows.push({ row: rowNumber, data });
+    }
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * 行ごとの入力チェックとファイル内の重複チェック
+ */
+export function validateLaborHoursImportRows(rows: LaborHoursImportRow[]): ImportRowError[] {
+  const errors: ImportRowError[] = [];
+  const seenKeys = new Map<string, number>();
+
+  for (const { row, data } of rows) {
+    const rowErrors = validateLaborHoursForm(data);
+
+    const key = buildLaborHoursKey(data);
+    const firstRow = seenKeys.get(key);
+    if (firstRow !== undefined) {
+      rowErrors.push({
+        field: 'date',
+        message: `${firstRow}行目と同じ日付・店舗・部門の人時が重複しています`,
+        code: 'DUPLICATE_IN_FILE',
+      });
+    } else {
+      seenKeys.set(key, row);
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ row, errors: rowErrors });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * 人時の一意キー（labor_hours_scope_key と同じ列）
+ */
+export function buildLaborHoursKey(data: Pick<LaborHoursInputForm, 'date' | 'store_id' | 'department'>): string {
+  return [data.date, data.store_id, data.department || ''].join('|');
+}
+
+function toLaborHoursInput(record: Record<string, string>): {
+  data: LaborHoursInputForm;
+  errors: ValidationError[];
+} {
+  const input: Record<string, unknown> = { department: null };
+  const errors: ValidationError[] = [];
+
+  for (const [header, rawValue] of Object.entries(record)) {
+    const field = HEADER_MAP[header];
+    if (!field) continue;
+
+    const value = (rawValue ?? '').trim();
+    if (value === '') continue;
+
+    if (field === 'hours') {
+      // 「7.5h」「7.5時間」のような単位付きの値も受け付ける
+      const parsed = Number(value.replace(/[,h時間]/g, ''));
+      if (isNaN(parsed)) {
+        errors.push({
+          field,
+          message: `${header} は数値で入力してください`,
+          code: 'INVALID_NUMBER',
+        });
+      } else {
+        input.hours = parsed;
+      }
+    } else if (field === 'date') {
+      input.date = normalizeDate(value);
+    } else {
+      input[field] = value;
+    }
+  }
+
+  return { data: input as unknown as LaborHoursInputForm, errors };
+}
@@ -12,6 +12,7 @@
  */
 
 import { Resend } from 'resend'
+import type { ETLCompletionSLO } from './etl'
 
 export interface ETLNotificationData {
   status: 'success' | 'failure'
@@ -366,7 +367,7 @@ ${!isSuccess && data.error ? `
       <tr>
         <td>${result.source}</td>
         <td><span class="${result.success ? 'badge-success' : 'badge-danger'}">${result.success ? '✅ SUCCESS' : '❌ FAILURE'}</span></td>
-        <td>${result.recordsProcessed || 0}</td>
+        <td>${result.recordsProcessed || 0}${result.rowErrors?.length ? ` (失敗 ${result.rowErrors.length}行)` : ''}</td>
         <td>${result.duration ? (result.duration / 1000).toFixed(2) + 's' : '-'}</td>
         <td>${result.error || '-'}</td>
       </tr>
@@ -376,7 +377,7 @@ ${!isSuccess && data.error ? `
       <div class="results">
         <h3>📊 処理結果</h3>
         <p><strong>成功:</strong> ${results.successCount}/${results.results.length} データソース</p>
-        <p><strong>合計時間:</strong> ${(results.totalDuration / 1000).toFixed(2)}秒</p>
+        <p><strong>合計時間:</strong> ${(results.totalDuration / 1000).toFixed(2)}秒${this.formatSLO(results.slo)}</p>
         
         <table>
           <thead>
@@ -396,6 +397,14 @@ ${!isSuccess && data.error ? `
     `
   }
 
+  /**
+   * Completion time against the ETL SLO target (ETLResults.slo)
+   */
+  private static formatSLO(slo: ETLCompletionSLO | undefined): string {
+    if (!slo) return ''
+    return ` (目標 ${slo.targetSeconds}秒以内: ${slo.met ? '達成' : '超過'})`
+  }
+
   /**
    * Generate results text for successful ETL
    */
@@ -405,13 +414,13 @@ ${!isSuccess && data.error ? `
     }
 
     const resultLines = results.results.map((result: any) => 
-      `${result.source}: ${result.success ? 'SUCCESS' : 'FAILURE'} (${result.recordsProcessed || 0}件) ${result.duration ? `- ${(result.duration / 1000).toFixed(2)}s` : ''}`
+      `${result.source}: ${result.success ? 'SUCCESS' : 'FAILURE'} (${result.recordsProcessed || 0}件${result.rowErrors?.length ? `, 失敗 ${result.rowErrors.length}行` : ''}) ${result.duration ? `- ${(result.duration / 1000).toFixed(2)}s` : ''}`
     ).join('\n')
 
     return `
 📊 処理結果
 成功: ${results.successCount}/${results.results.length} データソース
-合計時間: ${(results.totalDuration / 1000).toFixed(2)}秒
+合計時間: ${(results.totalDuration / 1000).toFixed(2)}秒${this.formatSLO(results.slo)}
 
 ${resultLines}
     `
@@ -0,0 +1,140 @@
+/**
+ * POS 日次合計インポートサービス
+ * POS の日次締め（Zレポート）から出力した CSV・Excel(.xlsx) を解析・検証する（ファイル読込みは売上インポートと共通）
+ */
+
+import {
+  ImportFileType,
+  ImportMode,
+  ImportRowError,
+  normalizeDate,
+  readImportRecords,
+} from '@/lib/services/sales-import';
+import { buildPosReconciliationKey } from '@/lib/pos-reconciliation';
+import { validatePosDailyTotalForm } from '@/lib/validations/pos-reconciliation';
+import { PosDailyTotalInputForm, ValidationError } from '@/types/database.types';
+
+// 解析済みの POS 日次合計行（row はヘッダー行を1行目としたファイル上の行番号）
+export interface PosTotalsImportRow {
+  row: number;
+  data: PosDailyTotalInputForm;
+}
+
+// POS 日次合計インポート結果レポート
+export interface PosTotalsImportReport {
+  mode: ImportMode;
+  fileName: string;
+  totalRows: number;
+  validRows: number;
+  errorRows: number;
+  errors: ImportRowError[];
+  totalRevenue: number;
+  upsertedCount: number;
+  differenceCount: number;
+}
+
+// ヘッダー名 → フィールド名（英語のカラム名・日本語ラベルのどちらも受け付ける）
+const HEADER_MAP: Record<string, keyof PosDailyTotalInputForm> = {
+  date: 'date',
+  '日付': 'date',
+  '営業日': 'date',
+  store_id: 'store_id',
+  '店舗ID': 'store_id',
+  revenue_ex_tax: 'revenue_ex_tax',
+  '税抜売上': 'revenue_ex_tax',
+  transactions: 'transactions',
+  '取引数': 'transactions',
+  '会計数': 'transactions',
+};
+
+/**
+ * ファイルを解析して POS 日次合計行に変換
+ */
+export async function parsePosTotalsImportFile(
+  buffer: Uint8Array,
+  fileType: ImportFileType
+): Promise<{ rows: PosTotalsImportRow[]; errors: ImportRowError[] }> {
+  const records = await readImportRecords(buffer, fileType);
+
+  const rows: PosTotalsImportRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  records.forEach((record, index) => {
+    const rowNumber = index + 2; // 1行目はヘッダー
+    const { data, errors: formatErrors } = toPosDailyTotalInput(record);
+
+    if (formatErrors.length > 0) {
+      errors.push({ row: rowNumber, errors: formatErrors });
+    } else {
+      rows.push({ row: rowNumber, data });
+    }
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * 行ごとの入力チェックとファイル内の重複チェック
+ */
+export function validatePosTotalsImportRows(rows: PosTotalsImportRow[]): ImportRowError[] {
+  const errors: ImportRowError[] = [];
+  const seenKeys = new Map<string, number>();
+
+  for (const { row, data } of rows) {
+    const rowErrors = validatePosDailyTotalForm(data);
+
+    const key = buildPosReconciliationKey(data);
+    const firstRow = seenKeys.get(key);
+    if (firstRow !== undefined) {
+      rowErrors.push({
+        field: 'date',
+        message: `${firstRow}行目と同じ日付・店舗の POS 合計が重複しています`,
+        code: 'DUPLICATE_IN_FILE',
+      });
+    } else {
+      seenKeys.set(key, row);
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ row, errors: rowErrors });
+    }
+  }
+
+  return errors;
+}
+
+function toPosDailyTotalInput(record: Record<string, string>): {
+  data: PosDailyTotalInputForm;
+  errors: ValidationError[];
+} {
+  const input: Record<string, unknown> = { transactions: null };
+  const errors: ValidationError[] = [];
+
+  for (const [header, rawValue] of Object.entries(record)) {
+    const field = HEADER_MAP[header];
+    if (!field) continue;
+
+    const value = (rawValue ?? '').trim();
+    if (value === '') continue;
+
+    if (field === 'revenue_ex_tax' || field === 'transactions') {
+      // 「¥1,234」のような通貨記号・桁区切り付きの値も受け付ける
+      const parsed = Number(value.replace(/[,¥￥円件]/g, ''));
+      if (isNaN(parsed)) {
+        errors.push({
+          field,
+          message: `${header} は数値で入力してください`,
+          code: 'INVALID_NUMBER',
+        });
+      } else {
+        input[field] = parsed;
+      }
+    } else if (field === 'date') {
+      input.date = normalizeDate(value);
+    } else {
+      input[field] = value;
+    }
+  }
+
+  return { data: input as unknown as PosDailyTotalInputForm, errors };
+}
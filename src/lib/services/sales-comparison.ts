@@ -0,0 +1,148 @@
+/**
+ * 売上 KPI 比較サービス
+ * ダッシュボードのフィルタ条件で前期間・前年同期（364日前）の KPI を集計する
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { DEFAULT_SALES_STATUS_FILTER, getSalesStatusesForFilter } from '@/lib/sales-status';
+import {
+  ComparisonBasis,
+  ComparisonPeriod,
+  DateRange,
+  KPISummary,
+  SalesComparison,
+  buildKPISummary,
+  getComparisonRange,
+  shiftDate,
+} from '@/lib/sales-comparison';
+import { applyLikeForLikeScope, fetchLikeForLikeScope } from '@/lib/store-lifecycle';
+import { DashboardFilters } from '@/types/database.types';
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+// mv_daily_sales_summary は直近2年分のみ保持するため、余裕を持たせた日数より古い期間は sales を集計する
+const SUMMARY_WINDOW_DAYS = 700;
+
+// sales を直接集計する場合の1回の取得件数
+const SALES_PAGE_SIZE = 1000;
+
+const COMPARISON_BASES: ComparisonBasis[] = ['previous_period', 'prior_year'];
+
+/**
+ * 日次サマリー（承認済み・確定、店舗×日）で集計できる条件か
+ */
+export function canUseDailySummary(filters: DashboardFilters, range: DateRange, today: string): boolean {
+  if (filters.departments?.length || filters.productCategories?.length || filters.channels?.length) return false;
+  if ((filters.salesStatus ?? DEFAULT_SALES_STATUS_FILTER) !== DEFAULT_SALES_STATUS_FILTER) return false;
+  return range.start >= shiftDate(today, -SUMMARY_WINDOW_DAYS);
+}
+
+/**
+ * 集計対象の店舗がない場合の比較期間（KPI はすべて 0）
+ */
+function emptyComparisonPeriod(range: DateRange, basis: ComparisonBasis): ComparisonPeriod {
+  return {
+    basis,
+    dateRange: getComparisonRange(range, basis),
+    kpis: buildKPISummary({ revenue: 0, footfall: 0, transactions: 0 }),
+    source: 'sales',
+  };
+}
+
+export class SalesComparisonService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * 前期間・前年同期の KPI
+   */
+  async getComparison(filters: DashboardFilters, today: string): Promise<SalesComparison> {
+    // 既存店モードでは比較期間を通して営業していた店舗のみで前期間・前年同期を集計する
+    const likeForLike = await fetchLikeForLikeScope(this.supabase, filters);
+    const scopedFilters = applyLikeForLikeScope(filters, likeForLike);
+
+    const periods = await Promise.all(
+      COMPARISON_BASES.map(basis =>
+        likeForLike?.storeIds.length === 0
+          ? emptyComparisonPeriod(filters.dateRange, basis)
+          : this.getComparisonPeriod(scopedFilters, basis, today)
+      )
+    );
+
+    return {
+      dateRange: filters.dateRange,
+      comparisons: {
+        previous_period: periods[0],
+        prior_year: periods[1],
+      },
+      ...(likeForLike ? { likeForLike } : {}),
+    };
+  }
+
+  private async getComparisonPeriod(
+    filters: DashboardFilters,
+    basis: ComparisonBasis,
+    today: string
+  ): Promise<ComparisonPeriod> {
+    const dateRange = getComparisonRange(filters.dateRange, basis);
+
+    if (canUseDailySummary(filters, dateRange, today)) {
+      return { basis, dateRange, kpis: await this.summarizeFromDailySummary(dateRange, filters.storeIds), source: 'summary' };
+    }
+
+    return { basis, dateRange, kpis: await this.summarizeFromSales(dateRange, filters), source: 'sales' };
+  }
+
+  private async summarizeFromDailySummary(range: DateRange, storeIds?: string[]): Promise<KPISummary> {
+    const { data, error } = await this.supabase.rpc('get_sales_kpi_summary', {
+      p_start_date: range.start,
+      p_end_date: range.end,
+      p_store_ids: storeIds?.length ? storeIds : null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch sales KPI summary: ${error.message}`);
+    }
+
+    const totals = data?.[0];
+    return buildKPISummary({
+      revenue: Number(totals?.total_revenue_ex_tax || 0),
+      footfall: Number(totals?.total_footfall || 0),
+      transactions: Number(totals?.total_transactions || 0),
+    });
+  }
+
+  private async summarizeFromSales(range: DateRange, filters: DashboardFilters): Promise<KPISummary> {
+    const totals = { revenue: 0, footfall: 0, transactions: 0 };
+
+    for (let offset = 0; ; offset += SALES_PAGE_SIZE) {
+      let query = this.supabase
+        .from('sales')
+        .select('revenue_ex_tax, footfall, transactions')
+        .gte('date', range.start)
+        .lte('date', range.end)
+        .in('status', getSalesStatusesForFilter(filters.salesStatus))
+        .order('id')
+        .range(offset, offset + SALES_PAGE_SIZE - 1);
+
+      if (filters.storeIds?.length) query = query.in('store_id', filters.storeIds);
+      if (filters.departments?.length) query = query.in('department', filters.departments);
+      if (filters.productCategories?.length) query = query.in('product_category', filters.productCategories);
+      if (filters.channels?.length) query = query.in('channel', filters.channels);
+
+      const { data, error } = await query;
+      if (error) {
+        throw new Error(`Failed to fetch sales for comparison: ${error.message}`);
+      }
+
+      (data || []).forEach(sale => {
+        totals.revenue += Number(sale.revenue_ex_tax) || 0;
+        totals.footfall += sale.footfall || 0;
+        totals.transactions += sale.transactions || 0;
+      });
+
+      if (!data || data.length < SALES_PAGE_SIZE) break;
+    }
+
+    return buildKPISummary(totals);
+  }
+}
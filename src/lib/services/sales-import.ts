@@ -0,0 +1,384 @@
+/**
+ * 売上一括インポートサービス
+ * CSV（UTF-8 BOM付き / Shift_JIS）・Excel(.xlsx) ファイルの解析と検証を提供
+ */
+
+import * as Papa from 'papaparse';
+import * as ExcelJS from 'exceljs';
+import { createClient } from '@/lib/supabase/server';
+import { validateSalesForm, salesValidationRules } from '@/lib/validations/sales';
+import { DEFAULT_SALES_CHANNEL, SALES_CHANNELS, SALES_CHANNEL_LABELS } from '@/lib/sales-channels';
+import { TAX_RULE_NOT_FOUND_ERROR, TaxCalculation, TaxRule, calculateSalesTax } from '@/lib/tax';
+import { SalesInputForm, ValidationError } from '@/types/database.types';
+
+// インポート形式
+export type ImportFileType = 'csv' | 'xlsx';
+
+// 実行モード（dry_run: 検証のみ / commit: 検証後に一括登録）
+export type ImportMode = 'dry_run' | 'commit';
+
+// 解析済みの行（row はヘッダー行を1行目としたファイル上の行番号）
+export interface ImportRow {
+  row: number;
+  data: SalesInputForm;
+}
+
+// 行単位のエラー
+export interface ImportRowError {
+  row: number;
+  errors: ValidationError[];
+}
+
+// インポート結果レポート
+export interface ImportReport {
+  mode: ImportMode;
+  fileName: string;
+  totalRows: number;
+  validRows: number;
+  errorRows: number;
+  errors: ImportRowError[];
+  totalRevenueExTax: number;
+  totalTax: number;
+  insertedCount: number;
+}
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+// 取込み上限
+export const IMPORT_LIMITS = {
+  maxFileSize: 5 * 1024 * 1024, // 5MB
+  maxRows: 5000,
+};
+
+// ヘッダー名 → フィールド名（英語のカラム名・日本語ラベルのどちらも受け付ける）
+const HEADER_MAP: Record<string, keyof SalesInputForm> = {
+  date: 'date',
+  '日付': 'date',
+  store_id: 'store_id',
+  '店舗ID': 'store_id',
+  department: 'department',
+  '部門': 'department',
+  product_category: 'product_category',
+  '商品カテゴリ': 'product_category',
+  channel: 'channel',
+  'チャネル': 'channel',
+  revenue_ex_tax: 'revenue_ex_tax',
+  '税抜売上': 'revenue_ex_tax',
+  footfall: 'footfall',
+  '客数': 'footfall',
+  transactions: 'transactions',
+  '取引数': 'transactions',
+  discounts: 'discounts',
+  '割引額': 'discounts',
+  notes: 'notes',
+  '備考': 'notes',
+};
+
+const NUMERIC_FIELDS: (keyof SalesInputForm)[] = [
+  'revenue_ex_tax',
+  'footfall',
+  'transactions',
+  'discounts',
+];
+
+const SALES_PAGE_SIZE = 1000;
+
+/**
+ * ファイル名から形式を判定
+ */
+export function detectFileType(fileName: string): ImportFileType | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.csv')) return 'csv';
+  if (lower.endsWith('.xlsx')) return 'xlsx';
+  return null;
+}
+
+/**
+ * CSV バイト列を文字列に変換
+ * BOM 付きは UTF-8、UTF-8 として不正なバイト列は Shift_JIS として扱う
+ */
+export function decodeCsvBuffer(buffer: Uint8Array): string {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(buffer.subarray(3));
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('shift_jis').decode(buffer);
+  }
+}
+
+/**
+ * ファイルをヘッダー名をキーとしたレコードに変換（売上目標の取込みでも利用）
+ */
+export async function readImportRecords(
+  buffer: Uint8Array,
+  fileType: ImportFileType
+): Promise<Record<string, string>[]> {
+  const records = fileType === 'csv'
+    ? parseCsv(decodeCsvBuffer(buffer))
+    : await parseXlsx(buffer);
+
+  if (records.length > IMPORT_LIMITS.maxRows) {
+    throw new Error(`取込み可能な行数は${IMPORT_LIMITS.maxRows}行までです`);
+  }
+
+  return records;
+}
+
+/**
+ * ファイルを解析して売上行に変換
+ * 値の形式エラー（数値・日付）はこの段階で行エラーとして返す
+ */
+export async function parseSalesImportFile(
+  buffer: Uint8Array,
+  fileType: ImportFileType
+): Promise<{ rows: ImportRow[]; errors: ImportRowError[] }> {
+  const records = await readImportRecords(buffer, fileType);
+
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  records.forEach((record, index) => {
+    const rowNumber = index + 2; // 1行目はヘッダー
+    const { data, errors: formatErrors } = toSalesInput(record);
+
+    if (formatErrors.length > 0) {
+      errors.push({ row: rowNumber, errors: formatErrors });
+    } else {
+      rows.push({ row: rowNumber, data });
+    }
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * 行ごとの入力チェック（validateSalesForm）とファイル内の重複チェック
+ */
+export function validateImportRows(rows: ImportRow[]): ImportRowError[] {
+  const errors: ImportRowError[] = [];
+  const seenKeys = new Map<string, number>();
+
+  for (const { row, data } of rows) {
+    const rowErrors = validateSalesForm(data);
+
+    const key = buildSalesKey(data);
+    const firstRow = seenKeys.get(key);
+    if (firstRow !== undefined) {
+      rowErrors.push({
+        field: 'date',
+        message: `${firstRow}行目と日付・店舗・部門・カテゴリ・チャネルが重複しています`,
+        code: 'DUPLICATE_IN_FILE',
+      });
+    } else {
+      seenKeys.set(key, row);
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ row, errors: rowErrors });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * 税率ルールに基づく行ごとの税額計算（該当ルールがない行はエラー）
+ * 日付が不正な行は validateImportRows でエラーになるため対象外
+ */
+export function calculateImportTaxes(
+  rows: ImportRow[],
+  rules: TaxRule[]
+): { taxes: Map<number, TaxCalculation>; errors: ImportRowError[] } {
+  const taxes = new Map<number, TaxCalculation>();
+  const errors: ImportRowError[] = [];
+
+  for (const { row, data } of rows) {
+    if (!data.date || !salesValidationRules.date.pattern.test(data.date)) continue;
+
+    const calculation = calculateSalesTax(rules, data);
+    if (calculation) {
+      taxes.set(row, calculation);
+    } else {
+      errors.push({ row, errors: [TAX_RULE_NOT_FOUND_ERROR] });
+    }
+  }
+
+  return { taxes, errors };
+}
+
+/**
+ * 登録済みデータとの重複チェック（POST /api/sales と同じ日付・店舗・部門・カテゴリ・チャネルのキー）
+ */
+export async function findExistingDuplicates(
+  supabase: SupabaseClient,
+  rows: ImportRow[]
+): Promise<ImportRowError[]> {
+  if (rows.length === 0) return [];
+
+  const dates = [...new Set(rows.map(({ data }) => data.date))];
+  const storeIds = [...new Set(rows.map(({ data }) => data.store_id))];
+
+  const existingKeys = new Set<string>();
+
+  // 日付×店舗に部門・カテゴリ・チャネルごとの行があるため、1リクエストの上限（1000行）を超えないようページングする
+  for (let offset = 0; ; offset += SALES_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('sales')
+      .select('date, store_id, department, product_category, channel')
+      .in('date', dates)
+      .in('store_id', storeIds)
+      .order('id')
+      .range(offset, offset + SALES_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to check duplicates: ${error.message}`);
+    }
+
+    for (const record of data || []) {
+      existingKeys.add(buildSalesKey(record as SalesInputForm));
+    }
+
+    if (!data || data.length < SALES_PAGE_SIZE) break;
+  }
+
+  return rows
+    .filter(({ data }) => existingKeys.has(buildSalesKey(data)))
+    .map(({ row }) => ({
+      row,
+      errors: [{
+        field: 'date',
+        message: '同じ日付・店舗・部門・カテゴリ・チャネルの売上データが既に存在します',
+        code: 'DUPLICATE',
+      }],
+    }));
+}
+
+/**
+ * 行エラーを行番号ごとにまとめて昇順に並べる
+ */
+export function mergeRowErrors(...groups: ImportRowError[][]): ImportRowError[] {
+  const merged = new Map<number, ValidationError[]>();
+
+  for (const group of groups) {
+    for (const { row, errors } of group) {
+      merged.set(row, [...(merged.get(row) || []), ...errors]);
+    }
+  }
+
+  return [...merged.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([row, errors]) => ({ row, errors }));
+}
+
+function buildSalesKey(
+  data: Pick<SalesInputForm, 'date' | 'store_id' | 'department' | 'product_category' | 'channel'>
+): string {
+  return [data.date, data.store_id, data.department, data.product_category, data.channel || DEFAULT_SALES_CHANNEL].join('|');
+}
+
+function parseCsv(text: string): Record<string, string>[] {
+  const result = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: header => header.trim(),
+  });
+
+  return result.data;
+}
+
+async function parseXlsx(buffer: Uint8Array): Promise<Record<string, string>[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const headers: string[] = [];
+  worksheet.getRow(1).eachCell((cell, colNumber) => {
+    headers[colNumber] = cellToString(cell.value).trim();
+  });
+
+  const records: Record<string, string>[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+
+    const record: Record<string, string> = {};
+    row.eachCell((cell, colNumber) => {
+      const header = headers[colNumber];
+      if (header) {
+        record[header] = cellToString(cell.value);
+      }
+    });
+
+    if (Object.values(record).some(value => value.trim() !== '')) {
+      records.push(record);
+    }
+  });
+
+  return records;
+}
+
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (typeof value === 'object') {
+    if ('result' in value) return cellToString(value.result as ExcelJS.CellValue);
+    if ('text' in value) return String(value.text);
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+  }
+  return String(value);
+}
+
+function toSalesInput(record: Record<string, string>): {
+  data: SalesInputForm;
+  errors: ValidationError[];
+} {
+  const input: Record<string, unknown> = {};
+  const errors: ValidationError[] = [];
+
+  for (const [header, rawValue] of Object.entries(record)) {
+    const field = HEADER_MAP[header];
+    if (!field) continue;
+
+    const value = (rawValue ?? '').trim();
+    if (value === '') continue;
+
+    if (NUMERIC_FIELDS.includes(field)) {
+      const parsed = Number(value.replace(/[,円￥¥]/g, ''));
+      if (isNaN(parsed)) {
+        errors.push({
+          field,
+          message: `${header} は数値で入力してください`,
+          code: 'INVALID_NUMBER',
+        });
+      } else {
+        input[field] = parsed;
+      }
+    } else if (field === 'date') {
+      input[field] = normalizeDate(value);
+    } else if (field === 'channel') {
+      input[field] = normalizeChannel(value);
+    } else {
+      input[field] = value;
+    }
+  }
+
+  return { data: input as unknown as SalesInputForm, errors };
+}
+
+// 「店頭」「外商」等のラベルもチャネルのコードとして受け付ける（不正な値は validateSalesForm でエラー）
+function normalizeChannel(value: string): string {
+  return SALES_CHANNELS.find(channel => SALES_CHANNEL_LABELS[channel] === value) ?? value.toLowerCase();
+}
+
+// 2025/8/1 形式の日付を YYYY-MM-DD に揃える
+export function normalizeDate(value: string): string {
+  const match = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  if (!match) return value;
+
+  const [, year, month, day] = match;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
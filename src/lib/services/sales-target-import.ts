@@ -0,0 +1,178 @@
+/**
+ * 売上目標インポートサービス
+ * CSV・Excel(.xlsx) の目標ファイルを解析・検証する（ファイル読込みは売上インポートと共通）
+ */
+
+import {
+  ImportFileType,
+  ImportMode,
+  ImportRowError,
+  normalizeDate,
+  readImportRecords,
+} from '@/lib/services/sales-import';
+import { validateSalesTargetForm } from '@/lib/validations/targets';
+import { SalesTargetInputForm, ValidationError } from '@/types/database.types';
+
+// 解析済みの目標行（row はヘッダー行を1行目としたファイル上の行番号）
+export interface TargetImportRow {
+  row: number;
+  data: SalesTargetInputForm;
+}
+
+// 目標インポート結果レポート
+export interface TargetImportReport {
+  mode: ImportMode;
+  fileName: string;
+  totalRows: number;
+  validRows: number;
+  errorRows: number;
+  errors: ImportRowError[];
+  totalRevenueTarget: number;
+  upsertedCount: number;
+}
+
+// ヘッダー名 → フィールド名（英語のカラム名・日本語ラベルのどちらも受け付ける）
+const HEADER_MAP: Record<string, keyof SalesTargetInputForm | 'month'> = {
+  period_type: 'period_type',
+  '期間種別': 'period_type',
+  target_date: 'target_date',
+  '対象日': 'target_date',
+  month: 'month',
+  '対象月': 'month',
+  store_id: 'store_id',
+  '店舗ID': 'store_id',
+  department: 'department',
+  '部門': 'department',
+  product_category: 'product_category',
+  '商品カテゴリ': 'product_category',
+  revenue_target: 'revenue_target',
+  '売上目標': 'revenue_target',
+  footfall_target: 'footfall_target',
+  '客数目標': 'footfall_target',
+};
+
+const PERIOD_TYPE_LABELS: Record<string, SalesTargetInputForm['period_type']> = {
+  monthly: 'monthly',
+  '月次': 'monthly',
+  daily: 'daily',
+  '日次': 'daily',
+};
+
+const NUMERIC_FIELDS = ['revenue_target', 'footfall_target'] as const;
+
+/**
+ * ファイルを解析して目標行に変換
+ * 対象月（YYYY-MM）の列がある行は月次目標として扱う
+ */
+export async function parseSalesTargetImportFile(
+  buffer: Uint8Array,
+  fileType: ImportFileType
+): Promise<{ rows: TargetImportRow[]; errors: ImportRowError[] }> {
+  const records = await readImportRecords(buffer, fileType);
+
+  const rows: TargetImportRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  records.forEach((record, index) => {
+    const rowNumber = index + 2; // 1行目はヘッダー
+    const { data, errors: formatErrors } = toTargetInput(record);
+
+    if (formatErrors.length > 0) {
+      errors.push({ row: rowNumber, errors: formatErrors });
+    } else {
+      rows.push({ row: rowNumber, data });
+    }
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * 行ごとの入力チェックとファイル内の重複チェック
+ */
+export function validateTargetImportRows(rows: TargetImportRow[]): ImportRowError[] {
+  const errors: ImportRowError[] = [];
+  const seenKeys = new Map<string, number>();
+
+  for (const { row, data } of rows) {
+    const rowErrors = validateSalesTargetForm(data);
+
+    const key = buildTargetKey(data);
+    const firstRow = seenKeys.get(key);
+    if (firstRow !== undefined) {
+      rowErrors.push({
+        field: 'target_date',
+        message: `${firstRow}行目と同じ期間・店舗・部門・カテゴリの目標が重複しています`,
+        code: 'DUPLICATE_IN_FILE',
+      });
+    } else {
+      seenKeys.set(key, row);
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ row, errors: rowErrors });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * 目標の一意キー（sales_targets_scope_key と同じ列）
+ */
+export function buildTargetKey(
+  data: Pick<SalesTargetInputForm, 'period_type' | 'target_date' | 'store_id' | 'department' | 'product_category'>
+): string {
+  return [data.period_type, data.target_date, data.store_id, data.department || '', data.product_category || ''].join('|');
+}
+
+function toTargetInput(record: Record<string, string>): {
+  data: SalesTargetInputForm;
+  errors: ValidationError[];
+} {
+  const input: Record<string, unknown> = {
+    department: null,
+    product_category: null,
+    revenue_target: null,
+    footfall_target: null,
+  };
+  const errors: ValidationError[] = [];
+
+  for (const [header, rawValue] of Object.entries(record)) {
+    const field = HEADER_MAP[header];
+    if (!field) continue;
+
+    const value = (rawValue ?? '').trim();
+    if (value === '') continue;
+
+    if ((NUMERIC_FIELDS as readonly string[]).includes(field)) {
+      const parsed = Number(value.replace(/[,円￥¥人]/g, ''));
+      if (isNaN(parsed)) {
+        errors.push({
+          field,
+          message: `${header} は数値で入力してください`,
+          code: 'INVALID_NUMBER',
+        });
+      } else {
+        input[field] = parsed;
+      }
+    } else if (field === 'period_type') {
+      input.period_type = PERIOD_TYPE_LABELS[value] || value;
+    } else if (field === 'month') {
+      // 2025-08 / 2025/8 / 2025-08-01 のいずれも月初日に揃える
+      const match = value.match(/^(\d{4})[-/](\d{1,2})/);
+      input.period_type = 'monthly';
+      input.target_date = match ? `${match[1]}-${match[2].padStart(2, '0')}-01` : value;
+    } else if (field === 'target_date') {
+      input.target_date = normalizeDate(value);
+    } else {
+      input[field] = value;
+    }
+  }
+
+  if (!input.period_type && input.target_date) {
+    input.period_type = 'daily';
+  }
+
+  return { data: input as unknown as SalesTargetInputForm, errors };
+}
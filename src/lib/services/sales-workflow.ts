@@ -0,0 +1,197 @@
+/**
+ * Sales Workflow Service
+ *
+ * Purpose: 売上データ承認ワークフローの通知
+ * Features:
+ * - 申請時は担当店舗の承認者（店長・管理者）へ通知
+ * - 承認時は確定担当の管理者へ通知
+ * - 差戻し・承認取消時は申請者へ通知
+ * - 宛先は RLS の影響を受けないよう service role で検索する（店長は他のユーザーのプロフィール・店舗権限を参照できない）
+ */
+
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server'
+import { NotificationService, EmailRecipient } from '@/lib/services/notification'
+import { SALES_STATUS_LABELS, SALES_STATUS_TRANSITIONS, SalesStatusAction } from '@/lib/sales-status'
+import { escapeHtml } from '@/lib/utils'
+import { Database } from '@/types/database.types'
+import { UserProfile } from '@/types/rbac'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+type SalesRow = Database['public']['Tables']['sales']['Row']
+type RecipientProfile = Pick<UserProfile, 'id' | 'email' | 'full_name' | 'role'>
+type RecipientQuery = ReturnType<typeof selectActiveProfiles>
+
+interface TransitionNotification {
+  sales: SalesRow
+  action: SalesStatusAction
+  actorId: string
+  comment?: string | null
+}
+
+export class SalesWorkflowService {
+  /**
+   * Notify the next person in the workflow about a status transition.
+   * Failures are logged only - the transition itself has already been committed.
+   */
+  static async notifyTransition(
+    supabase: SupabaseClient,
+    notification: TransitionNotification
+  ): Promise<void> {
+    try {
+      const recipients = await this.getRecipients(createServiceRoleClient(), notification)
+      if (recipients.length === 0) return
+
+      const { data: store } = await supabase
+        .from('dim_store')
+        .select('name')
+        .eq('id', notification.sales.store_id)
+        .single()
+
+      const content = this.generateEmailContent(notification, store?.name || notification.sales.store_id)
+
+      await NotificationService.sendCustomNotification(
+        recipients,
+        content.subject,
+        { html: content.html, text: content.text },
+        notification.action === 'reject' ? 'high' : 'normal'
+      )
+    } catch (error) {
+      console.error('[SalesWorkflowService] Failed to send workflow notification:', error)
+    }
+  }
+
+  /**
+   * Resolve recipients for each transition
+   */
+  private static async getRecipients(
+    supabase: SupabaseClient,
+    { sales, action, actorId }: TransitionNotification
+  ): Promise<EmailRecipient[]> {
+    switch (action) {
+      case 'submit':
+        return this.getApprovers(supabase, sales.store_id, actorId)
+      case 'approve':
+        return this.getProfiles(supabase, query => query.eq('role', 'admin'), actorId)
+      case 'reject':
+      case 'reopen': {
+        const userIds = [sales.submitted_by, sales.created_by].filter(Boolean) as string[]
+        if (userIds.length === 0) return []
+        return this.getProfiles(supabase, query => query.in('id', userIds), actorId)
+      }
+      default:
+        return []
+    }
+  }
+
+  /**
+   * Approvers: admins, and managers with edit access to the store
+   */
+  private static async getApprovers(
+    supabase: SupabaseClient,
+    storeId: string,
+    actorId: string
+  ): Promise<EmailRecipient[]> {
+    const { data: storeAccess } = await supabase
+      .from('user_store_access')
+      .select('user_id')
+      .eq('store_id', storeId)
+      .eq('can_edit', true)
+
+    const storeUserIds = new Set((storeAccess || []).map(access => access.user_id))
+
+    const profiles = await this.getProfiles(
+      supabase,
+      query => query.in('role', ['admin', 'manager']),
+      actorId
+    )
+
+    return profiles.filter(profile =>
+      profile.role === 'admin' || storeUserIds.has(profile.id)
+    )
+  }
+
+  private static async getProfiles(
+    supabase: SupabaseClient,
+    applyFilter: (query: RecipientQuery) => RecipientQuery,
+    excludeUserId: string
+  ): Promise<(EmailRecipient & { id: string })[]> {
+    const { data, error } = await applyFilter(selectActiveProfiles(supabase))
+
+    if (error) {
+      console.error('[SalesWorkflowService] Failed to load recipients:', error)
+      return []
+    }
+
+    const profiles: RecipientProfile[] = data || []
+    return profiles
+      .filter(profile => profile.id !== excludeUserId && profile.email)
+      .map(profile => ({
+        id: profile.id,
+        email: profile.email,
+        name: profile.full_name || undefined,
+        role: profile.role
+      }))
+  }
+
+  /**
+   * Generate email content for a transition
+   */
+  private static generateEmailContent(
+    { sales, action, comment }: TransitionNotification,
+    storeName: string
+  ): { subject: string; html: string; text: string } {
+    const transition = SALES_STATUS_TRANSITIONS[action]
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || ''
+    const link = `${appUrl}/sales?edit=${sales.id}`
+    const revenue = new Intl.NumberFormat('ja-JP', { style: 'currency', currency: 'JPY' })
+      .format(sales.revenue_ex_tax)
+
+    const lines = [
+      `店舗: ${storeName}`,
+      `日付: ${sales.date}`,
+      `部門: ${sales.department || '-'} / カテゴリ: ${sales.product_category || '-'}`,
+      `税抜売上: ${revenue}`,
+      `ステータス: ${SALES_STATUS_LABELS[sales.status]}`,
+      ...(comment ? [`コメント: ${comment}`] : [])
+    ]
+
+    const nextStep: Record<SalesStatusAction, string> = {
+      submit: '内容を確認し、承認または差戻しを行ってください。',
+      approve: '内容を確認し、確定してください。',
+      reject: 'コメントを確認のうえ修正し、再度申請してください。',
+      reopen: 'コメントを確認のうえ修正し、再度申請してください。',
+      lock: ''
+    }
+
+    const subject = `[売上承認] ${transition.label}: ${storeName} ${sales.date}`
+
+    const text = [
+      `売上データが「${transition.label}」されました。`,
+      '',
+      ...lines,
+      '',
+      nextStep[action],
+      link
+    ].join('\n')
+
+    const html = `
+      <div style="font-family: sans-serif; line-height: 1.6;">
+        <p>売上データが「${escapeHtml(transition.label)}」されました。</p>
+        <ul>
+          ${lines.map(line => `<li>${escapeHtml(line)}</li>`).join('')}
+        </ul>
+        <p>${escapeHtml(nextStep[action])}</p>
+        <p><a href="${escapeHtml(link)}">売上データを開く</a></p>
+      </div>
+    `
+
+    return { subject, html, text }
+  }
+}
+
+function selectActiveProfiles(supabase: SupabaseClient) {
+  return supabase
+    .from('user_profiles')
+    .select('id, email, full_name, role')
+    .eq('is_active', true)
+}
@@ -0,0 +1,448 @@
+/**
+ * 売上報告SLAサービス
+ * 店舗ごとの日次売上報告（当日24:00 JSTまでの提出）の達成状況集計とリマインド通知
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { AuditService } from '@/lib/services/audit';
+import { NotificationService, EmailRecipient } from '@/lib/services/notification';
+import { AccountingPeriodClose, fetchClosedPeriods } from '@/lib/accounting-periods';
+import { escapeHtml } from '@/lib/utils';
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+// 提出状況
+// on_time: 期限内に提出 / late: 期限後に提出 / missing: 未提出 / pending: 当日分で期限前
+export type SubmissionStatus = 'on_time' | 'late' | 'missing' | 'pending';
+
+export interface StoreDaySubmission {
+  date: string;
+  store_id: string;
+  status: SubmissionStatus;
+  submitted_at: string | null;
+}
+
+export interface StoreComplianceSummary {
+  store_id: string;
+  store_name: string;
+  expected: number;
+  on_time: number;
+  late: number;
+  missing: number;
+  rate: number; // 期限内提出率（pending は分母に含めない）
+}
+
+export interface DailyComplianceRate {
+  date: string;
+  expected: number;
+  on_time: number;
+  rate: number;
+}
+
+export interface ComplianceReport {
+  startDate: string;
+  endDate: string;
+  generatedAt: string;
+  closedPeriods: AccountingPeriodClose[]; // 生成時点で締め済みの月（対象店舗・全店）
+  target: number;
+  overallRate: number;
+  stores: StoreComplianceSummary[];
+  dailyRates: DailyComplianceRate[];
+  submissions: StoreDaySubmission[];
+}
+
+export interface ReminderResult {
+  businessDate: string;
+  cutoff: string;
+  missingStoreIds: string[];
+  notifiedCount: number;
+}
+
+// SLA設定（リマインド時刻は SALES_SLA_REMINDER_CUTOFFS で上書き可能）
+export const SUBMISSION_SLA_CONFIG = {
+  target: 0.95, // 提出率 ≥ 95%
+  timezoneOffsetHours: 9, // JST
+  reminderCutoffs: parseCutoffs(process.env.SALES_SLA_REMINDER_CUTOFFS || '21:00,23:30'),
+  reminderCronIntervalMinutes: 15, // vercel.json の /api/sales/compliance/reminders の実行間隔
+};
+
+const JST_OFFSET_MS = SUBMISSION_SLA_CONFIG.timezoneOffsetHours * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SALES_PAGE_SIZE = 1000;
+
+/**
+ * "21:00,23:30" 形式のリマインド時刻を解析（不正な値は除外し昇順に並べる）
+ */
+export function parseCutoffs(value: string): string[] {
+  return value
+    .split(',')
+    .map(cutoff => cutoff.trim())
+    .filter(cutoff => /^([01]\d|2[0-3]):[0-5]\d$/.test(cutoff))
+    .sort();
+}
+
+/**
+ * JST の営業日（YYYY-MM-DD）
+ */
+export function toJSTDateString(date: Date): string {
+  return new Date(date.getTime() + JST_OFFSET_MS).toISOString().split('T')[0];
+}
+
+/**
+ * JST の時刻（HH:mm）
+ */
+export function toJSTTimeString(date: Date): string {
+  return new Date(date.getTime() + JST_OFFSET_MS).toISOString().slice(11, 16);
+}
+
+/**
+ * 定時実行の時刻に送るべきリマインド時刻
+ * 直前の実行より後・今回の実行以前のリマインド時刻（JST）を返し、該当がなければ null
+ */
+export function findDueCutoff(
+  now: Date,
+  cutoffs: string[] = SUBMISSION_SLA_CONFIG.reminderCutoffs,
+  intervalMinutes: number = SUBMISSION_SLA_CONFIG.reminderCronIntervalMinutes
+): string | null {
+  const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+  const currentMinutes = toMinutes(toJSTTimeString(now));
+
+  const due = cutoffs.filter(cutoff => {
+    const minutes = toMinutes(cutoff);
+    return minutes <= currentMinutes && minutes > currentMinutes - intervalMinutes;
+  });
+
+  return due.length > 0 ? due[due.length - 1] : null;
+}
+
+/**
+ * 提出期限（営業日の翌日 00:00 JST）
+ */
+export function getSubmissionDeadline(businessDate: string): Date {
+  return new Date(Date.parse(`${businessDate}T00:00:00Z`) - JST_OFFSET_MS + DAY_MS);
+}
+
+/**
+ * 店舗・営業日単位の提出状況を判定
+ */
+export function classifySubmission(
+  businessDate: string,
+  submittedAt: string | null,
+  now: Date
+): SubmissionStatus {
+  const deadline = getSubmissionDeadline(businessDate);
+
+  if (!submittedAt) {
+    return now < deadline ? 'pending' : 'missing';
+  }
+
+  return new Date(submittedAt) <= deadline ? 'on_time' : 'late';
+}
+
+/**
+ * 期間内の日付一覧
+ */
+export function listDates(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (
+    let time = Date.parse(`${startDate}T00:00:00Z`);
+    time <= Date.parse(`${endDate}T00:00:00Z`);
+    time += DAY_MS
+  ) {
+    dates.push(new Date(time).toISOString().split('T')[0]);
+  }
+  return dates;
+}
+
+export class SubmissionSLAService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * 期間内の店舗別・日別の提出状況レポート
+   */
+  async getComplianceReport(
+    startDate: string,
+    endDate: string,
+    storeIds?: string[],
+    now: Date = new Date()
+  ): Promise<ComplianceReport> {
+    // 未来日は対象外
+    const today = toJSTDateString(now);
+    const effectiveEnd = endDate > today ? today : endDate;
+    const dates = startDate <= effectiveEnd ? listDates(startDate, effectiveEnd) : [];
+
+    const stores = await this.fetchStores(storeIds);
+    const submittedAt = await this.fetchFirstSubmissions(startDate, effectiveEnd, stores.map(store => store.id));
+    const closedPeriods = (await fetchClosedPeriods(this.supabase, startDate, endDate))
+      .filter(close => close.store_id === null || stores.some(store => store.id === close.store_id));
+
+    const submissions: StoreDaySubmission[] = [];
+    for (const store of stores) {
+      for (const date of dates) {
+        const time = submittedAt.get(`${store.id}|${date}`) ?? null;
+        submissions.push({
+          date,
+          store_id: store.id,
+          status: classifySubmission(date, time, now),
+          submitted_at: time,
+        });
+      }
+    }
+
+    const storeSummaries = stores.map(store => {
+      const rows = submissions.filter(row => row.store_id === store.id);
+      return {
+        store_id: store.id,
+        store_name: store.name,
+        ...summarize(rows),
+      };
+    });
+
+    const dailyRates = dates.map(date => {
+      const { expected, on_time, rate } = summarize(submissions.filter(row => row.date === date));
+      return { date, expected, on_time, rate };
+    });
+
+    return {
+      startDate,
+      endDate,
+      generatedAt: now.toISOString(),
+      closedPeriods,
+      target: SUBMISSION_SLA_CONFIG.target,
+      overallRate: summarize(submissions).rate,
+      stores: storeSummaries,
+      dailyRates,
+      submissions,
+    };
+  }
+
+  /**
+   * 当日分の未提出店舗を抽出し、店舗の店長にリマインドを送信
+   * 最終リマインド時刻では管理者にも未提出店舗の一覧を送る
+   */
+  async sendReminders(now: Date = new Date(), cutoff?: string): Promise<ReminderResult> {
+    const businessDate = toJSTDateString(now);
+    const currentTime = toJSTTimeString(now);
+    const cutoffs = SUBMISSION_SLA_CONFIG.reminderCutoffs;
+    const activeCutoff = cutoff || [...cutoffs].reverse().find(time => time <= currentTime) || currentTime;
+    const isFinalCutoff = activeCutoff === cutoffs[cutoffs.length - 1];
+
+    const stores = await this.fetchStores();
+    const submittedAt = await this.fetchFirstSubmissions(businessDate, businessDate, stores.map(store => store.id));
+    const missingStores = stores.filter(store => !submittedAt.has(`${store.id}|${businessDate}`));
+
+    const result: ReminderResult = {
+      businessDate,
+      cutoff: activeCutoff,
+      missingStoreIds: missingStores.map(store => store.id),
+      notifiedCount: 0,
+    };
+
+    if (missingStores.length === 0) {
+      return result;
+    }
+
+    // 店長ごとに担当の未提出店舗をまとめて通知
+    const managerStores = await this.fetchStoreManagers(missingStores.map(store => store.id));
+    for (const { recipient, storeIds } of managerStores) {
+      const names = missingStores.filter(store => storeIds.includes(store.id)).map(store => store.name);
+      try {
+        await NotificationService.sendCustomNotification(
+          [recipient],
+          `[売上報告] ${businessDate} の売上が未提出です（${activeCutoff}時点）`,
+          buildReminderContent(businessDate, activeCutoff, names),
+          isFinalCutoff ? 'high' : 'normal'
+        );
+        result.notifiedCount += 1;
+      } catch (error) {
+        console.error('[SubmissionSLAService] Failed to send reminder:', error);
+      }
+    }
+
+    if (isFinalCutoff) {
+      const admins = await this.fetchAdmins();
+      if (admins.length > 0) {
+        try {
+          await NotificationService.sendCustomNotification(
+            admins,
+            `[売上報告] ${businessDate} 未提出店舗 ${missingStores.length}件（${activeCutoff}時点）`,
+            buildReminderContent(businessDate, activeCutoff, missingStores.map(store => store.name)),
+            'high'
+          );
+          result.notifiedCount += admins.length;
+        } catch (error) {
+          console.error('[SubmissionSLAService] Failed to send escalation:', error);
+        }
+      }
+    }
+
+    await AuditService.log({
+      action: 'sales_sla_reminder',
+      target: 'sales_submission',
+      actor_id: 'sla_scheduler',
+      meta: {
+        business_date: businessDate,
+        cutoff: activeCutoff,
+        final_cutoff: isFinalCutoff,
+        missing_store_ids: result.missingStoreIds,
+        notified_count: result.notifiedCount,
+      },
+    });
+
+    return result;
+  }
+
+  private async fetchStores(storeIds?: string[]): Promise<{ id: string; name: string }[]> {
+    let query = this.supabase
+      .from('dim_store')
+      .select('id, name')
+      .order('name');
+
+    if (storeIds?.length) {
+      query = query.in('id', storeIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch stores: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * 店舗・営業日ごとの最初の提出時刻
+   * 下書きは未提出として扱い、ワークフロー導入前のデータは作成日時を提出時刻とみなす
+   */
+  private async fetchFirstSubmissions(
+    startDate: string,
+    endDate: string,
+    storeIds: string[]
+  ): Promise<Map<string, string>> {
+    const firstSubmissions = new Map<string, string>();
+    if (storeIds.length === 0 || startDate > endDate) return firstSubmissions;
+
+    // 店舗・日ごとに部門×カテゴリの行があるため、1リクエストの上限（1000行）を超えないようページングする
+    for (let offset = 0; ; offset += SALES_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('sales')
+        .select('store_id, date, submitted_at, created_at')
+        .gte('date', startDate)
+        .lte('date', endDate)
+        .in('store_id', storeIds)
+        .neq('status', 'draft')
+        .order('id')
+        .range(offset, offset + SALES_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch sales submissions: ${error.message}`);
+      }
+
+      for (const row of data || []) {
+        const key = `${row.store_id}|${row.date}`;
+        const time = row.submitted_at || row.created_at;
+        const current = firstSubmissions.get(key);
+        if (!current || new Date(time) < new Date(current)) {
+          firstSubmissions.set(key, time);
+        }
+      }
+
+      if (!data || data.length < SALES_PAGE_SIZE) break;
+    }
+
+    return firstSubmissions;
+  }
+
+  /**
+   * 店舗の編集権限を持つ店長（有効ユーザーのみ）
+   */
+  private async fetchStoreManagers(
+    storeIds: string[]
+  ): Promise<{ recipient: EmailRecipient; storeIds: string[] }[]> {
+    const { data: access, error: accessError } = await this.supabase
+      .from('user_store_access')
+      .select('user_id, store_id')
+      .in('store_id', storeIds)
+      .eq('can_edit', true);
+
+    if (accessError || !access?.length) {
+      if (accessError) console.error('[SubmissionSLAService] Failed to load store access:', accessError);
+      return [];
+    }
+
+    const { data: profiles, error: profileError } = await this.supabase
+      .from('user_profiles')
+      .select('id, email, full_name')
+      .in('id', [...new Set(access.map(row => row.user_id))])
+      .eq('role', 'manager')
+      .eq('is_active', true);
+
+    if (profileError) {
+      console.error('[SubmissionSLAService] Failed to load managers:', profileError);
+      return [];
+    }
+
+    return (profiles || []).map(profile => ({
+      recipient: { email: profile.email, name: profile.full_name || undefined, role: 'manager' },
+      storeIds: access.filter(row => row.user_id === profile.id).map(row => row.store_id),
+    }));
+  }
+
+  private async fetchAdmins(): Promise<EmailRecipient[]> {
+    const { data, error } = await this.supabase
+      .from('user_profiles')
+      .select('email, full_name')
+      .eq('role', 'admin')
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('[SubmissionSLAService] Failed to load admins:', error);
+      return [];
+    }
+
+    return (data || []).map(profile => ({
+      email: profile.email,
+      name: profile.full_name || undefined,
+      role: 'admin',
+    }));
+  }
+}
+
+function summarize(rows: StoreDaySubmission[]) {
+  const on_time = rows.filter(row => row.status === 'on_time').length;
+  const late = rows.filter(row => row.status === 'late').length;
+  const missing = rows.filter(row => row.status === 'missing').length;
+  const expected = on_time + late + missing;
+
+  return {
+    expected,
+    on_time,
+    late,
+    missing,
+    rate: expected > 0 ? on_time / expected : 1,
+  };
+}
+
+function buildReminderContent(businessDate: string, cutoff: string, storeNames: string[]) {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || '';
+  const text = [
+    `${businessDate} の売上報告が ${cutoff} 時点で未提出です。`,
+    '当日24:00までに売上を入力し、申請してください。',
+    '',
+    ...storeNames.map(name => `- ${name}`),
+    '',
+    `${appUrl}/sales`,
+  ].join('\n');
+
+  const html = `
+    <div style="font-family: sans-serif; line-height: 1.6;">
+      <p>${businessDate} の売上報告が ${cutoff} 時点で未提出です。</p>
+      <p>当日24:00までに売上を入力し、申請してください。</p>
+      <ul>${storeNames.map(name => `<li>${escapeHtml(name)}</li>`).join('')}</ul>
+      <p><a href="${appUrl}/sales">売上入力画面を開く</a></p>
+    </div>
+  `;
+
+  return { html, text };
+}
@@ -0,0 +1,158 @@
+import type { createClient } from '@/lib/supabase/server';
+import { getComparisonRange, DateRange } from '@/lib/sales-comparison';
+import {
+  Database,
+  DashboardFilters,
+  LikeForLikeScope,
+  StoreClosureReason,
+  StoreType,
+} from '@/types/database.types';
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+export type StoreItem = Database['public']['Tables']['dim_store']['Row'];
+
+export type StoreClosurePeriod = Database['public']['Tables']['store_closure_periods']['Row'];
+
+// 管理画面用：店舗と改装・休業期間
+export interface StoreWithClosures extends StoreItem {
+  closures: StoreClosurePeriod[];
+}
+
+export const STORE_TYPES: StoreType[] = ['flagship', 'standard', 'outlet', 'popup'];
+
+export const STORE_TYPE_LABELS: Record<StoreType, string> = {
+  flagship: '旗艦店',
+  standard: '標準店',
+  outlet: 'アウトレット',
+  popup: 'ポップアップ',
+};
+
+export const STORE_CLOSURE_REASONS: StoreClosureReason[] = ['renovation', 'temporary_closure', 'other'];
+
+export const STORE_CLOSURE_REASON_LABELS: Record<StoreClosureReason, string> = {
+  renovation: '改装',
+  temporary_closure: '一時休業',
+  other: 'その他',
+};
+
+type StoreLifecycle = Pick<StoreItem, 'opened_on' | 'closed_on'>;
+
+type ClosureRange = Pick<StoreClosurePeriod, 'store_id' | 'start_date' | 'end_date'>;
+
+export function isStoreType(value: unknown): value is StoreType {
+  return typeof value === 'string' && (STORE_TYPES as string[]).includes(value);
+}
+
+export function isStoreClosureReason(value: unknown): value is StoreClosureReason {
+  return typeof value === 'string' && (STORE_CLOSURE_REASONS as string[]).includes(value);
+}
+
+/**
+ * 同じ店舗で期間が重なる改装・休業期間（開始日・終了日を含む）
+ */
+export function findOverlappingClosure<T extends Pick<StoreClosurePeriod, 'start_date' | 'end_date'>>(
+  closures: T[],
+  period: Pick<StoreClosurePeriod, 'start_date' | 'end_date'>
+): T | null {
+  return closures.find(closure => closure.start_date <= period.end_date && closure.end_date >= period.start_date) || null;
+}
+
+/**
+ * 既存店判定の対象期間
+ * 表示期間に加えて前期間・前年同期のどちらと比較しても同じ店舗構成になるよう、最も古い比較開始日から判定する
+ */
+export function getLikeForLikeWindow(range: DateRange): DateRange {
+  const starts = [
+    range.start,
+    getComparisonRange(range, 'previous_period').start,
+    getComparisonRange(range, 'prior_year').start,
+  ];
+
+  return {
+    start: starts.reduce((earliest, start) => (start < earliest ? start : earliest)),
+    end: range.end,
+  };
+}
+
+/**
+ * 判定期間を通して営業していたか
+ * 開店日が未登録の店舗は既存店とみなす。閉店日当日は営業していない。改装・休業期間が1日でも重なれば対象外
+ */
+export function isStoreComparable(
+  store: StoreLifecycle,
+  closures: Pick<StoreClosurePeriod, 'start_date' | 'end_date'>[],
+  window: DateRange
+): boolean {
+  if (store.opened_on && store.opened_on > window.start) return false;
+  if (store.closed_on && store.closed_on <= window.end) return false;
+
+  return !findOverlappingClosure(closures, { start_date: window.start, end_date: window.end });
+}
+
+/**
+ * 既存店の絞り込み範囲（店舗の指定がある場合はその中から判定する）
+ */
+export function buildLikeForLikeScope(
+  stores: (StoreLifecycle & Pick<StoreItem, 'id'>)[],
+  closures: ClosureRange[],
+  range: DateRange,
+  storeIds?: string[]
+): LikeForLikeScope {
+  const window = getLikeForLikeWindow(range);
+  const candidates = storeIds?.length ? stores.filter(store => storeIds.includes(store.id)) : stores;
+
+  const scope: LikeForLikeScope = { window, storeIds: [], excludedStoreIds: [] };
+  candidates.forEach(store => {
+    const storeClosures = closures.filter(closure => closure.store_id === store.id);
+    if (isStoreComparable(store, storeClosures, window)) {
+      scope.storeIds.push(store.id);
+    } else {
+      scope.excludedStoreIds.push(store.id);
+    }
+  });
+
+  return scope;
+}
+
+/**
+ * 既存店モードの絞り込み範囲を取得（既存店モードでなければ null）
+ */
+export async function fetchLikeForLikeScope(
+  supabase: SupabaseClient,
+  filters: DashboardFilters
+): Promise<LikeForLikeScope | null> {
+  if (!filters.likeForLike) return null;
+
+  const window = getLikeForLikeWindow(filters.dateRange);
+  const [storesResult, closuresResult] = await Promise.all([
+    supabase.from('dim_store').select('id, opened_on, closed_on'),
+    supabase
+      .from('store_closure_periods')
+      .select('store_id, start_date, end_date')
+      .lte('start_date', window.end)
+      .gte('end_date', window.start),
+  ]);
+
+  if (storesResult.error) {
+    throw new Error(`Failed to fetch store lifecycle: ${storesResult.error.message}`);
+  }
+  if (closuresResult.error) {
+    throw new Error(`Failed to fetch store closure periods: ${closuresResult.error.message}`);
+  }
+
+  return buildLikeForLikeScope(
+    storesResult.data || [],
+    closuresResult.data || [],
+    filters.dateRange,
+    filters.storeIds
+  );
+}
+
+/**
+ * 既存店に絞り込んだフィルタ
+ * 既存店が1店舗もない場合 storeIds は空になるため、呼び出し側で集計対象なしとして扱う
+ */
+export function applyLikeForLikeScope(filters: DashboardFilters, scope: LikeForLikeScope | null): DashboardFilters {
+  return scope ? { ...filters, storeIds: scope.storeIds } : filters;
+}
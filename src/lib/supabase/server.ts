@@ -48,3 +48,27 @@ export async function createReadOnlyClient() {
     },
   )
 }
+
+// For server-side jobs without a user session (cron, notification recipients).
+// Bypasses RLS: callers must check the user's permissions themselves.
+export function createServiceRoleClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY environment variable')
+  }
+
+  return createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    serviceRoleKey,
+    {
+      cookies: {
+        getAll() {
+          return []
+        },
+        setAll() {
+          // No session is stored: requests run as service_role
+        },
+      },
+    },
+  )
+}
@@ -0,0 +1,234 @@
+import { Database, DashboardFilters } from '@/types/database.types';
+
+export type SalesTarget = Database['public']['Tables']['sales_targets']['Row'];
+
+export type TargetMetric = 'revenue' | 'footfall';
+
+// 目標を絞り込む条件（ダッシュボードのフィルタと同じ）
+export type TargetScope = Pick<DashboardFilters, 'storeIds' | 'departments' | 'productCategories'>;
+
+// 日別の目標値（該当する目標がない場合は null）
+export interface DailyTarget {
+  date: string;
+  revenue: number | null;
+  footfall: number | null;
+}
+
+// 期間の目標達成状況
+export interface TargetAchievement {
+  actual: number;
+  target: number | null;
+  targetToDate: number | null;
+  achievementRate: number | null;
+  pacingRate: number | null;
+  remaining: number | null;
+}
+
+// 月累計のペース（累計は月初でリセット）
+export interface PacingPoint {
+  date: string;
+  actual: number;
+  target: number | null;
+  cumulativeActual: number;
+  cumulativeTarget: number | null;
+  pacingRate: number | null;
+}
+
+const METRIC_COLUMNS: Record<TargetMetric, 'revenue_target' | 'footfall_target'> = {
+  revenue: 'revenue_target',
+  footfall: 'footfall_target',
+};
+
+// 同じ店舗・期間の目標は粒度ごとに重複して登録されうるため、粗い粒度から順に1段階だけ採用する
+const SCOPE_LEVELS: ((target: SalesTarget) => boolean)[] = [
+  target => !target.department && !target.product_category,
+  target => !!target.department && !target.product_category,
+  target => !target.department && !!target.product_category,
+  target => !!target.department && !!target.product_category,
+];
+
+/**
+ * 月初日（YYYY-MM-01）
+ */
+export function getMonthStart(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+/**
+ * 月の日数
+ */
+export function getDaysInMonth(date: string): number {
+  const [year, month] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * 期間内の日付一覧（両端を含む）
+ */
+export function listDatesInRange(start: string, end: string): string[] {
+  const dates: string[] = [];
+  const cursor = new Date(`${start}T00:00:00Z`);
+  const last = new Date(`${end}T00:00:00Z`);
+
+  while (cursor <= last) {
+    dates.push(cursor.toISOString().split('T')[0]);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return dates;
+}
+
+/**
+ * フィルタに該当する目標の抽出
+ * 部門・カテゴリで絞り込む場合は「すべて」の目標は対象外とし、
+ * 店舗・期間ごとに最も粗い粒度の目標だけを合算対象にする（二重計上の防止）
+ */
+export function selectScopedTargets(targets: SalesTarget[], scope: TargetScope = {}): SalesTarget[] {
+  const groups = new Map<string, SalesTarget[]>();
+
+  targets
+    .filter(target => {
+      if (scope.storeIds?.length && !scope.storeIds.includes(target.store_id)) return false;
+      if (scope.departments?.length && !(target.department && scope.departments.includes(target.department))) return false;
+      if (
+        scope.productCategories?.length &&
+        !(target.product_category && scope.productCategories.includes(target.product_category))
+      ) return false;
+      return true;
+    })
+    .forEach(target => {
+      const key = [target.period_type, target.target_date, target.store_id].join('|');
+      groups.set(key, [...(groups.get(key) || []), target]);
+    });
+
+  return [...groups.values()].flatMap(group => {
+    for (const isLevel of SCOPE_LEVELS) {
+      const matched = group.filter(isLevel);
+      if (matched.length > 0) return matched;
+    }
+    return [];
+  });
+}
+
+/**
+ * 日別目標の算出
+ * 店舗ごとに日次目標があればそれを使い、なければ月次目標を月の日数で按分する
+ */
+export function buildDailyTargets(
+  targets: SalesTarget[],
+  dateRange: { start: string; end: string },
+  scope: TargetScope = {}
+): DailyTarget[] {
+  const scoped = selectScopedTargets(targets, scope);
+  const storeIds = [...new Set(scoped.map(target => target.store_id))];
+
+  const index = new Map<string, SalesTarget[]>();
+  scoped.forEach(target => {
+    const key = [target.period_type, target.target_date, target.store_id].join('|');
+    index.set(key, [...(index.get(key) || []), target]);
+  });
+
+  const sumMetric = (rows: SalesTarget[] | undefined, metric: TargetMetric): number | null => {
+    const values = (rows || [])
+      .map(row => row[METRIC_COLUMNS[metric]])
+      .filter((value): value is number => value !== null && value !== undefined);
+    return values.length > 0 ? values.reduce((sum, value) => sum + Number(value), 0) : null;
+  };
+
+  return listDatesInRange(dateRange.start, dateRange.end).map(date => {
+    const daily: DailyTarget = { date, revenue: null, footfall: null };
+
+    for (const storeId of storeIds) {
+      const dailyRows = index.get(['daily', date, storeId].join('|'));
+      const monthlyRows = index.get(['monthly', getMonthStart(date), storeId].join('|'));
+
+      for (const metric of Object.keys(METRIC_COLUMNS) as TargetMetric[]) {
+        const dailyValue = sumMetric(dailyRows, metric);
+        const monthlyValue = sumMetric(monthlyRows, metric);
+        const value = dailyValue ?? (monthlyValue === null ? null : monthlyValue / getDaysInMonth(date));
+
+        if (value !== null) {
+          daily[metric] = (daily[metric] || 0) + value;
+        }
+      }
+    }
+
+    return daily;
+  });
+}
+
+/**
+ * 目標達成率・残り目標額・ペース（asOf 時点までの按分目標に対する進捗）
+ */
+export function summarizeTargetAchievement(
+  dailyTargets: DailyTarget[],
+  metric: TargetMetric,
+  actual: number,
+  asOf: string
+): TargetAchievement {
+  const withTarget = dailyTargets.filter(daily => daily[metric] !== null);
+
+  if (withTarget.length === 0) {
+    return { actual, target: null, targetToDate: null, achievementRate: null, pacingRate: null, remaining: null };
+  }
+
+  const target = withTarget.reduce((sum, daily) => sum + (daily[metric] || 0), 0);
+  const targetToDate = withTarget
+    .filter(daily => daily.date <= asOf)
+    .reduce((sum, daily) => sum + (daily[metric] || 0), 0);
+
+  return {
+    actual,
+    target,
+    targetToDate,
+    achievementRate: target > 0 ? (actual / target) * 100 : null,
+    pacingRate: targetToDate > 0 ? (actual / targetToDate) * 100 : null,
+    remaining: Math.max(target - actual, 0),
+  };
+}
+
+/**
+ * 月累計（MTD）の実績・目標の推移
+ */
+export function buildMonthToDatePacing(
+  actuals: { date: string; value: number }[],
+  dailyTargets: DailyTarget[],
+  metric: TargetMetric
+): PacingPoint[] {
+  const actualByDate = new Map<string, number>();
+  actuals.forEach(({ date, value }) => {
+    actualByDate.set(date, (actualByDate.get(date) || 0) + value);
+  });
+  const targetByDate = new Map(dailyTargets.map(daily => [daily.date, daily[metric]]));
+
+  const dates = [...new Set([...actualByDate.keys(), ...targetByDate.keys()])].sort();
+
+  let month = '';
+  let cumulativeActual = 0;
+  let cumulativeTarget: number | null = null;
+
+  return dates.map(date => {
+    if (getMonthStart(date) !== month) {
+      month = getMonthStart(date);
+      cumulativeActual = 0;
+      cumulativeTarget = null;
+    }
+
+    const actual = actualByDate.get(date) || 0;
+    const target = targetByDate.get(date) ?? null;
+
+    cumulativeActual += actual;
+    if (target !== null) {
+      cumulativeTarget = (cumulativeTarget || 0) + target;
+    }
+
+    return {
+      date,
+      actual,
+      target,
+      cumulativeActual,
+      cumulativeTarget,
+      pacingRate: cumulativeTarget ? (cumulativeActual / cumulativeTarget) * 100 : null,
+    };
+  });
+}
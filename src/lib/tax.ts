@@ -0,0 +1,132 @@
+import type { createClient } from '@/lib/supabase/server';
+import { Database, ValidationError } from '@/types/database.types';
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+export type TaxRule = Database['public']['Tables']['tax_rules']['Row'];
+
+// 税率の判定に使う売上の属性
+export interface TaxTarget {
+  date: string;
+  department?: string | null;
+  product_category?: string | null;
+}
+
+export interface TaxCalculation {
+  tax: number;
+  tax_rate: number;
+  rule_id: string;
+}
+
+// 売上の日付・部門・カテゴリに該当する税率ルールがない場合のエラー
+export const TAX_RULE_NOT_FOUND_ERROR: ValidationError = {
+  field: 'date',
+  message: '該当する消費税率が設定されていません。管理者に税率設定を確認してください',
+  code: 'TAX_RULE_NOT_FOUND',
+};
+
+// 部門・カテゴリの指定がないルールは「すべて」にマッチする
+type RuleScope = Pick<TaxRule, 'department' | 'product_category'>;
+
+/**
+ * 税率ルールの取得（件数が少ないため全件を取得して判定する）
+ */
+export async function fetchTaxRules(supabase: SupabaseClient): Promise<TaxRule[]> {
+  const { data, error } = await supabase
+    .from('tax_rules')
+    .select('*')
+    .order('valid_from', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch tax rules: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * ルールの優先度（部門+カテゴリ > カテゴリ > 部門 > 既定）
+ */
+export function getTaxRuleSpecificity(rule: RuleScope): number {
+  return (rule.product_category ? 2 : 0) + (rule.department ? 1 : 0);
+}
+
+/**
+ * 日付がルールの適用期間内か（valid_to は当日を含む）
+ */
+export function isTaxRuleEffective(rule: Pick<TaxRule, 'valid_from' | 'valid_to'>, date: string): boolean {
+  return rule.valid_from <= date && (!rule.valid_to || date <= rule.valid_to);
+}
+
+/**
+ * 売上に適用される税率ルール
+ * 同じ優先度のルールが重なる場合は適用開始日が新しいものを採用する
+ */
+export function findApplicableTaxRule(rules: TaxRule[], target: TaxTarget): TaxRule | null {
+  let applicable: TaxRule | null = null;
+
+  for (const rule of rules) {
+    if (!isTaxRuleEffective(rule, target.date)) continue;
+    if (rule.department && rule.department !== target.department) continue;
+    if (rule.product_category && rule.product_category !== target.product_category) continue;
+
+    if (
+      !applicable ||
+      getTaxRuleSpecificity(rule) > getTaxRuleSpecificity(applicable) ||
+      (getTaxRuleSpecificity(rule) === getTaxRuleSpecificity(applicable) && rule.valid_from > applicable.valid_from)
+    ) {
+      applicable = rule;
+    }
+  }
+
+  return applicable;
+}
+
+/**
+ * 税額計算（1円未満四捨五入）
+ */
+export function calculateTax(revenueExTax: number, rate: number): number {
+  return Math.round(revenueExTax * rate);
+}
+
+/**
+ * 税率ルールを適用した税額計算。該当ルールがない場合は null
+ */
+export function calculateSalesTax(
+  rules: TaxRule[],
+  target: TaxTarget & { revenue_ex_tax: number }
+): TaxCalculation | null {
+  const rule = findApplicableTaxRule(rules, target);
+  if (!rule) return null;
+
+  return {
+    tax: calculateTax(target.revenue_ex_tax, rule.rate),
+    tax_rate: rule.rate,
+    rule_id: rule.id,
+  };
+}
+
+/**
+ * 同じ対象（部門・カテゴリ）で適用期間が重なるルール
+ */
+export function findOverlappingTaxRule(
+  rules: TaxRule[],
+  candidate: RuleScope & Pick<TaxRule, 'valid_from' | 'valid_to'>,
+  excludeId?: string
+): TaxRule | null {
+  return rules.find(rule =>
+    rule.id !== excludeId &&
+    (rule.department || null) === (candidate.department || null) &&
+    (rule.product_category || null) === (candidate.product_category || null) &&
+    (!rule.valid_to || candidate.valid_from <= rule.valid_to) &&
+    (!candidate.valid_to || rule.valid_from <= candidate.valid_to)
+  ) ?? null;
+}
+
+/**
+ * 税率の表示（例: 0.08 → "8%"）
+ */
+export function formatTaxRate(rate: number | null | undefined): string {
+  if (rate === null || rate === undefined) return '-';
+  return `${Number((rate * 100).toFixed(2))}%`;
+}
@@ -65,4 +65,15 @@ export function safeJsonParse<T>(str: string, fallback: T): T {
   } catch {
     return fallback;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Escape text for embedding in HTML (e.g. notification emails)
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
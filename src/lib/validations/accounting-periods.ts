@@ -0,0 +1,44 @@
+import { AccountingPeriodCloseInputForm, ValidationError } from '@/types/database.types';
+
+const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const NOTE_MAX_LENGTH = 200;
+
+// 月次締めのフォームデータバリデーション
+export function validateAccountingPeriodCloseForm(
+  data: Partial<AccountingPeriodCloseInputForm>,
+  today: string
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  // 対象月バリデーション（当月以前のみ）
+  if (!data.period) {
+    errors.push({
+      field: 'period',
+      message: '締め対象の月は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (!PERIOD_PATTERN.test(data.period)) {
+    errors.push({
+      field: 'period',
+      message: '締め対象の月は YYYY-MM 形式で入力してください',
+      code: 'INVALID_FORMAT',
+    });
+  } else if (data.period > today.slice(0, 7)) {
+    errors.push({
+      field: 'period',
+      message: '未来の月は締められません',
+      code: 'FUTURE_DATE',
+    });
+  }
+
+  // 備考バリデーション（オプション）
+  if (data.note && data.note.trim().length > NOTE_MAX_LENGTH) {
+    errors.push({
+      field: 'note',
+      message: `備考は${NOTE_MAX_LENGTH}文字以内で入力してください`,
+      code: 'MAX_LENGTH',
+    });
+  }
+
+  return errors;
+}
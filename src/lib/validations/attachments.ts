@@ -0,0 +1,91 @@
+import { SalesAttachmentContentType, ValidationError } from '@/types/database.types';
+
+// 添付ファイルの上限（sales_attachments の制約・ストレージバケットの設定と同じ値）
+export const ATTACHMENT_LIMITS = {
+  maxFileSize: 10 * 1024 * 1024, // 10MB
+  maxFilesPerSales: 20,
+  maxFileNameLength: 255,
+};
+
+// 許可する MIME タイプと拡張子
+export const ATTACHMENT_CONTENT_TYPES: Record<SalesAttachmentContentType, string[]> = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/webp': ['.webp'],
+  'application/pdf': ['.pdf'],
+};
+
+export function isAttachmentContentType(value: string): value is SalesAttachmentContentType {
+  return Object.prototype.hasOwnProperty.call(ATTACHMENT_CONTENT_TYPES, value);
+}
+
+/**
+ * ファイル先頭のシグネチャから MIME タイプを判定（判定できない場合は null）
+ */
+export function detectAttachmentContentType(bytes: Uint8Array): SalesAttachmentContentType | null {
+  const startsWith = (signature: number[], offset = 0) =>
+    signature.every((byte, index) => bytes[offset + index] === byte);
+
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+  if (startsWith([0x25, 0x50, 0x44, 0x46, 0x2d])) return 'application/pdf'; // %PDF-
+  return null;
+}
+
+// 添付ファイルバリデーション（申告された MIME タイプ・拡張子・ファイルの中身が一致すること）
+export function validateSalesAttachment(
+  file: { name: string; type: string; size: number },
+  bytes: Uint8Array
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!file.name.trim()) {
+    errors.push({
+      field: 'file',
+      message: 'ファイル名は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (file.name.length > ATTACHMENT_LIMITS.maxFileNameLength) {
+    errors.push({
+      field: 'file',
+      message: `ファイル名は${ATTACHMENT_LIMITS.maxFileNameLength}文字以内にしてください`,
+      code: 'MAX_LENGTH',
+    });
+  }
+
+  if (file.size <= 0) {
+    errors.push({
+      field: 'file',
+      message: '空のファイルは添付できません',
+      code: 'REQUIRED',
+    });
+  } else if (file.size > ATTACHMENT_LIMITS.maxFileSize) {
+    errors.push({
+      field: 'file',
+      message: 'ファイルサイズは10MB以下にしてください',
+      code: 'FILE_TOO_LARGE',
+    });
+  }
+
+  const extension = file.name.toLowerCase().match(/\.[^.]+$/)?.[0] ?? '';
+  if (!isAttachmentContentType(file.type) || !ATTACHMENT_CONTENT_TYPES[file.type].includes(extension)) {
+    errors.push({
+      field: 'file',
+      message: '添付できるのは JPEG・PNG・WebP の画像または PDF のみです',
+      code: 'INVALID_FILE_TYPE',
+    });
+  } else if (
+    file.size > 0 &&
+    file.size <= ATTACHMENT_LIMITS.maxFileSize &&
+    detectAttachmentContentType(bytes) !== file.type
+  ) {
+    errors.push({
+      field: 'file',
+      message: 'ファイルの内容が拡張子と一致しません',
+      code: 'INVALID_FILE_TYPE',
+    });
+  }
+
+  return errors;
+}
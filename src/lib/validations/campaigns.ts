@@ -0,0 +1,116 @@
+import { CAMPAIGN_TYPES } from '@/lib/campaigns';
+import { CampaignInputForm, ValidationError } from '@/types/database.types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// キャンペーン期間の上限（日数）
+export const MAX_CAMPAIGN_DAYS = 366;
+
+// キャンペーンフォームデータバリデーション
+export function validateCampaignForm(data: Partial<CampaignInputForm>): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  // キャンペーン名バリデーション
+  if (!data.name?.trim()) {
+    errors.push({
+      field: 'name',
+      message: 'キャンペーン名は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (data.name.length > 100) {
+    errors.push({
+      field: 'name',
+      message: 'キャンペーン名は100文字以内で入力してください',
+      code: 'MAX_LENGTH',
+    });
+  }
+
+  // 種別バリデーション
+  if (!data.campaign_type) {
+    errors.push({
+      field: 'campaign_type',
+      message: 'キャンペーン種別は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (!CAMPAIGN_TYPES.includes(data.campaign_type)) {
+    errors.push({
+      field: 'campaign_type',
+      message: 'キャンペーン種別が不正です',
+      code: 'INVALID_OPTION',
+    });
+  }
+
+  // 期間バリデーション
+  const validDate = (value?: string) => !!value && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+  for (const field of ['start_date', 'end_date'] as const) {
+    const label = field === 'start_date' ? '開始日' : '終了日';
+    if (!data[field]) {
+      errors.push({
+        field,
+        message: `${label}は必須です`,
+        code: 'REQUIRED',
+      });
+    } else if (!validDate(data[field])) {
+      errors.push({
+        field,
+        message: `${label}は YYYY-MM-DD 形式で入力してください`,
+        code: 'INVALID_FORMAT',
+      });
+    }
+  }
+
+  if (validDate(data.start_date) && validDate(data.end_date)) {
+    const days = (Date.parse(data.end_date!) - Date.parse(data.start_date!)) / (24 * 60 * 60 * 1000) + 1;
+    if (days < 1) {
+      errors.push({
+        field: 'end_date',
+        message: '終了日は開始日以降を指定してください',
+        code: 'INCONSISTENT_DATA',
+      });
+    } else if (days > MAX_CAMPAIGN_DAYS) {
+      errors.push({
+        field: 'end_date',
+        message: `キャンペーン期間は${MAX_CAMPAIGN_DAYS}日以内で指定してください`,
+        code: 'OUT_OF_RANGE',
+      });
+    }
+  }
+
+  // 対象店舗・部門バリデーション（空配列は全店・全部門）
+  if (data.store_ids !== undefined && !Array.isArray(data.store_ids)) {
+    errors.push({
+      field: 'store_ids',
+      message: '対象店舗の指定が不正です',
+      code: 'INVALID_FORMAT',
+    });
+  }
+
+  if (data.departments !== undefined && !Array.isArray(data.departments)) {
+    errors.push({
+      field: 'departments',
+      message: '対象部門の指定が不正です',
+      code: 'INVALID_FORMAT',
+    });
+  }
+
+  // 割引率・ポイント還元率バリデーション
+  if (data.discount_rate !== undefined && data.discount_rate !== null) {
+    if (Number.isNaN(data.discount_rate) || data.discount_rate < 0 || data.discount_rate > 100) {
+      errors.push({
+        field: 'discount_rate',
+        message: '割引率は0〜100%で入力してください',
+        code: 'OUT_OF_RANGE',
+      });
+    }
+  }
+
+  if (data.notes && data.notes.length > 500) {
+    errors.push({
+      field: 'notes',
+      message: '備考は500文字以内で入力してください',
+      code: 'MAX_LENGTH',
+    });
+  }
+
+  return errors;
+}
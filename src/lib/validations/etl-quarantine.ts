@@ -0,0 +1,16 @@
+import { EtlQuarantineActionRequest, ValidationError } from '@/types/database.types';
+
+// 隔離レコードの反映・破棄リクエストバリデーション
+export function validateEtlQuarantineAction(data: Partial<EtlQuarantineActionRequest>): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (data.action !== 'release' && data.action !== 'discard') {
+    errors.push({
+      field: 'action',
+      message: '反映（release）または破棄（discard）を指定してください',
+      code: 'INVALID_OPTION',
+    });
+  }
+
+  return errors;
+}
@@ -33,7 +33,9 @@ export const ExportFiltersSchema = z
     endDate: DateSchema.optional(),
     storeId: z.string().uuid('有効な店舗IDを選択してください').optional(),
     department: z.string().min(1, '部門を選択してください').optional(),
-    category: z.string().min(1, 'カテゴリを選択してください').optional()
+    category: z.string().min(1, 'カテゴリを選択してください').optional(),
+    channel: z.enum(['store', 'ec', 'corporate']).optional(),
+    salesStatus: z.enum(['approved', 'approved_pending']).optional()
   })
   .refine(
     (data) => {
@@ -106,7 +108,9 @@ export const ExportFormFiltersSchema = z.object({
   endDate: z.string().optional(),
   storeId: z.string().optional(),
   department: z.string().optional(),
-  category: z.string().optional()
+  category: z.string().optional(),
+  channel: z.string().optional(),
+  salesStatus: z.enum(['approved', 'approved_pending']).optional()
 });
 
 // エクスポート設定
@@ -181,7 +185,7 @@ export const DEFAULT_EXPORT_CONFIG: Partial<ExportConfig> = {
   format: 'csv',
   dataType: 'sales',
   includeHeaders: true,
-  filters: {}
+  filters: { salesStatus: 'approved' }
 };
 
 // フォーマット表示名
@@ -0,0 +1,150 @@
+/**
+ * 外部データ（ETL で取得するレコード）のバリデーションスキーマ
+ * 書き込み前にソースごとのスキーマで検証し、不正なレコードは etl_quarantine に隔離する
+ */
+
+import { z } from 'zod';
+import type {
+  EventData,
+  FXData,
+  InboundData,
+  MarketData,
+  STEMNewsData,
+  WeatherData,
+} from '@/lib/services/data-sources';
+import type { SourceRecordMap, SourceType } from '@/lib/services/data-source-adapters';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// 日付バリデーション（YYYY-MM-DD、実在する日付。形式の誤りは1件のエラーにまとめる）
+const DateSchema = z
+  .string({ invalid_type_error: '日付が文字列ではありません', required_error: '日付がありません' })
+  .regex(DATE_PATTERN, '日付がYYYY-MM-DD形式ではありません')
+  .refine(
+    (dateStr) => {
+      if (!DATE_PATTERN.test(dateStr)) return true;
+      const date = new Date(`${dateStr}T00:00:00Z`);
+      return !isNaN(date.getTime()) && date.toISOString().startsWith(dateStr);
+    },
+    '存在しない日付です'
+  );
+
+const RequiredTextSchema = z
+  .string({ invalid_type_error: '文字列ではありません', required_error: '値がありません' })
+  .trim()
+  .min(1, '空の値です');
+
+const OptionalTextSchema = z.string({ invalid_type_error: '文字列ではありません' }).nullable();
+
+// 数値（NaN・Infinity は不可）。min / max は DB の列の桁数と値として取りうる範囲
+function numberSchema(min: number, max: number) {
+  return z
+    .number({ invalid_type_error: '数値ではありません', required_error: '値がありません' })
+    .finite('数値ではありません')
+    .min(min, `${min} 未満です`)
+    .max(max, `${max} を超えています`);
+}
+
+function positiveNumberSchema(max: number) {
+  return z
+    .number({ invalid_type_error: '数値ではありません', required_error: '値がありません' })
+    .finite('数値ではありません')
+    .positive('0 以下です')
+    .lt(max, `${max} 以上です`);
+}
+
+// 前日比（%）。-100% 未満にはならない
+const ChangePercentSchema = numberSchema(-100, 9999).nullable();
+
+// 市場指数・株価（ext_market_index）
+export const MarketDataSchema: z.ZodType<MarketData> = z.object({
+  date: DateSchema,
+  symbol: RequiredTextSchema,
+  value: positiveNumberSchema(1e11),
+  change_percent: ChangePercentSchema,
+});
+
+// 為替レート（ext_fx_rate）
+export const FXDataSchema: z.ZodType<FXData> = z.object({
+  date: DateSchema,
+  pair: z
+    .string({ invalid_type_error: '文字列ではありません', required_error: '値がありません' })
+    .regex(/^[A-Z]{3}\/[A-Z]{3}$/, '通貨ペアが XXX/YYY 形式ではありません'),
+  rate: positiveNumberSchema(10000),
+  change_percent: ChangePercentSchema,
+});
+
+// 日次の天候（ext_weather_daily）
+export const WeatherDataSchema: z.ZodType<WeatherData> = z
+  .object({
+    date: DateSchema,
+    location: RequiredTextSchema,
+    temperature_max: numberSchema(-60, 60).nullable(),
+    temperature_min: numberSchema(-60, 60).nullable(),
+    precipitation_mm: numberSchema(0, 2000).nullable(),
+    humidity_percent: numberSchema(0, 100).nullable(),
+    weather_condition: OptionalTextSchema,
+  })
+  .refine(
+    (data) => data.temperature_max === null || data.temperature_min === null ||
+      data.temperature_min <= data.temperature_max,
+    {
+      message: '最低気温が最高気温を上回っています',
+      path: ['temperature_min'],
+    }
+  );
+
+// 地域イベント（ext_events）
+export const EventDataSchema: z.ZodType<EventData> = z.object({
+  date: DateSchema,
+  title: RequiredTextSchema,
+  location: OptionalTextSchema,
+  lat: numberSchema(-90, 90).nullable(),
+  lng: numberSchema(-180, 180).nullable(),
+  event_type: OptionalTextSchema,
+  expected_attendance: numberSchema(0, 2147483647).int('整数ではありません').nullable(),
+  notes: OptionalTextSchema,
+});
+
+// STEM ニュース（ext_stem_news）
+export const STEMNewsDataSchema: z.ZodType<STEMNewsData> = z.object({
+  published_date: DateSchema,
+  title: RequiredTextSchema,
+  source: RequiredTextSchema,
+  category: RequiredTextSchema,
+  url: z.string({ invalid_type_error: '文字列ではありません' }).url('URL の形式ではありません').nullable(),
+  summary: OptionalTextSchema,
+  sentiment_score: numberSchema(-1, 1).nullable(),
+});
+
+// インバウンド統計（ext_inbound、月次）
+export const InboundDataSchema: z.ZodType<InboundData> = z.object({
+  year_month: z
+    .string({ invalid_type_error: '文字列ではありません', required_error: '値がありません' })
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, '年月がYYYY-MM形式ではありません'),
+  country: RequiredTextSchema,
+  visitors: numberSchema(0, 2147483647).int('整数ではありません'),
+  change_percent: ChangePercentSchema,
+  prefecture: OptionalTextSchema,
+});
+
+export const EXTERNAL_RECORD_SCHEMAS: { [S in SourceType]: z.ZodType<SourceRecordMap[S]> } = {
+  market_index: MarketDataSchema,
+  fx_rates: FXDataSchema,
+  weather: WeatherDataSchema,
+  events: EventDataSchema,
+  stem_news: STEMNewsDataSchema,
+  inbound: InboundDataSchema,
+};
+
+// バリデーション関数（不正な場合は隔離理由として記録するメッセージを返す）
+export function validateExternalRecord(source: SourceType, record: unknown): string | null {
+  const result = EXTERNAL_RECORD_SCHEMAS[source].safeParse(record);
+  if (result.success) {
+    return null;
+  }
+
+  return result.error.errors
+    .map(err => (err.path.length > 0 ? `${err.path.join('.')}: ${err.message}` : err.message))
+    .join(', ');
+}
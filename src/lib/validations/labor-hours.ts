@@ -0,0 +1,66 @@
+import { LaborHoursInputForm, ValidationError } from '@/types/database.types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// 1店舗・1部門・1日あたりの人時の上限（labor_hours_range と同じ）
+export const MAX_LABOR_HOURS = 10000;
+
+// 人時フォームデータバリデーション
+export function validateLaborHoursForm(data: Partial<LaborHoursInputForm>): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  // 日付バリデーション
+  if (!data.date) {
+    errors.push({
+      field: 'date',
+      message: '日付は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (!DATE_PATTERN.test(data.date) || isNaN(Date.parse(data.date))) {
+    errors.push({
+      field: 'date',
+      message: '日付は YYYY-MM-DD 形式で入力してください',
+      code: 'INVALID_FORMAT',
+    });
+  }
+
+  // 店舗バリデーション
+  if (!data.store_id) {
+    errors.push({
+      field: 'store_id',
+      message: '店舗は必須です',
+      code: 'REQUIRED',
+    });
+  }
+
+  // 人時バリデーション（小数2桁まで）
+  if (data.hours === undefined || data.hours === null) {
+    errors.push({
+      field: 'hours',
+      message: '人時は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (Number.isNaN(data.hours) || data.hours < 0 || data.hours > MAX_LABOR_HOURS) {
+    errors.push({
+      field: 'hours',
+      message: `人時は0〜${MAX_LABOR_HOURS.toLocaleString()}時間で入力してください`,
+      code: 'OUT_OF_RANGE',
+    });
+  } else if (Math.abs(Math.round(data.hours * 100) - data.hours * 100) > 1e-6) {
+    errors.push({
+      field: 'hours',
+      message: '人時は小数第2位までで入力してください',
+      code: 'INVALID_FORMAT',
+    });
+  }
+
+  if (data.notes && data.notes.length > 500) {
+    errors.push({
+      field: 'notes',
+      message: '備考は500文字以内で入力してください',
+      code: 'MAX_LENGTH',
+    });
+  }
+
+  return errors;
+}
@@ -0,0 +1,72 @@
+import { MasterDataInputForm, ValidationError } from '@/types/database.types';
+
+const CODE_MAX_LENGTH = 50;
+const NAME_MAX_LENGTH = 100;
+
+// 部門・商品カテゴリマスターのフォームデータバリデーション
+export function validateMasterDataForm(data: Partial<MasterDataInputForm>): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  // コードバリデーション（ダッシュボードの絞り込みでカンマ区切りにするためカンマは不可）
+  const code = data.code?.trim();
+  if (!code) {
+    errors.push({
+      field: 'code',
+      message: 'コードは必須です',
+      code: 'REQUIRED',
+    });
+  } else if (code.length > CODE_MAX_LENGTH) {
+    errors.push({
+      field: 'code',
+      message: `コードは${CODE_MAX_LENGTH}文字以内で入力してください`,
+      code: 'MAX_LENGTH',
+    });
+  } else if (code.includes(',')) {
+    errors.push({
+      field: 'code',
+      message: 'コードにカンマは使用できません',
+      code: 'INVALID_FORMAT',
+    });
+  }
+
+  // 表示名バリデーション
+  const name = data.name?.trim();
+  if (!name) {
+    errors.push({
+      field: 'name',
+      message: '表示名は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (name.length > NAME_MAX_LENGTH) {
+    errors.push({
+      field: 'name',
+      message: `表示名は${NAME_MAX_LENGTH}文字以内で入力してください`,
+      code: 'MAX_LENGTH',
+    });
+  }
+
+  // 表示順バリデーション
+  if (data.sort_order === undefined || data.sort_order === null) {
+    errors.push({
+      field: 'sort_order',
+      message: '表示順は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (!Number.isInteger(data.sort_order) || data.sort_order < 0) {
+    errors.push({
+      field: 'sort_order',
+      message: '表示順は0以上の整数で入力してください',
+      code: 'OUT_OF_RANGE',
+    });
+  }
+
+  if (data.active !== undefined && typeof data.active !== 'boolean') {
+    errors.push({
+      field: 'active',
+      message: '有効フラグが不正です',
+      code: 'INVALID_FORMAT',
+    });
+  }
+
+  return errors;
+}
@@ -0,0 +1,112 @@
+import { salesValidationRules } from '@/lib/validations/sales';
+import {
+  PosDailyTotalInputForm,
+  PosReconciliationResolveRequest,
+  ValidationError,
+} from '@/types/database.types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// POS 日次合計バリデーション
+export function validatePosDailyTotalForm(data: Partial<PosDailyTotalInputForm>): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  // 日付バリデーション
+  if (!data.date) {
+    errors.push({
+      field: 'date',
+      message: '日付は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (!DATE_PATTERN.test(data.date) || isNaN(Date.parse(data.date))) {
+    errors.push({
+      field: 'date',
+      message: '日付は YYYY-MM-DD 形式で入力してください',
+      code: 'INVALID_FORMAT',
+    });
+  }
+
+  // 店舗バリデーション
+  if (!data.store_id) {
+    errors.push({
+      field: 'store_id',
+      message: '店舗は必須です',
+      code: 'REQUIRED',
+    });
+  }
+
+  // 税抜売上バリデーション（売上入力と同じ範囲）
+  if (data.revenue_ex_tax === undefined || data.revenue_ex_tax === null) {
+    errors.push({
+      field: 'revenue_ex_tax',
+      message: '税抜売上は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (
+    Number.isNaN(data.revenue_ex_tax) ||
+    data.revenue_ex_tax < salesValidationRules.revenue_ex_tax.min ||
+    data.revenue_ex_tax > salesValidationRules.revenue_ex_tax.max
+  ) {
+    errors.push({
+      field: 'revenue_ex_tax',
+      message: salesValidationRules.revenue_ex_tax.message,
+      code: 'OUT_OF_RANGE',
+    });
+  }
+
+  // 取引数バリデーション（オプション）
+  if (data.transactions !== undefined && data.transactions !== null) {
+    if (
+      !Number.isInteger(data.transactions) ||
+      data.transactions < salesValidationRules.transactions.min ||
+      data.transactions > salesValidationRules.transactions.max
+    ) {
+      errors.push({
+        field: 'transactions',
+        message: salesValidationRules.transactions.message,
+        code: 'OUT_OF_RANGE',
+      });
+    }
+  }
+
+  return errors;
+}
+
+// 差異の解消リクエストバリデーション（理由の記録は理由が必須）
+export function validatePosResolveRequest(data: Partial<PosReconciliationResolveRequest>): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (data.resolution !== 'accept_pos' && data.resolution !== 'annotate') {
+    errors.push({
+      field: 'resolution',
+      message: '解消方法は POS の値を採用するか、理由を記録するかを指定してください',
+      code: 'INVALID_OPTION',
+    });
+  }
+
+  if (data.resolution === 'annotate' && !data.note?.trim()) {
+    errors.push({
+      field: 'note',
+      message: '差異の理由を入力してください',
+      code: 'REQUIRED',
+    });
+  }
+
+  if (data.note && data.note.length > 500) {
+    errors.push({
+      field: 'note',
+      message: '理由は500文字以内で入力してください',
+      code: 'MAX_LENGTH',
+    });
+  }
+
+  if (!data.updated_at) {
+    errors.push({
+      field: 'updated_at',
+      message: '更新前の updated_at を指定してください',
+      code: 'REQUIRED',
+    });
+  }
+
+  return errors;
+}
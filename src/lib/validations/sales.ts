@@ -1,4 +1,5 @@
-import { SalesInputForm, ValidationError } from '@/types/database.types';
+import { isSalesChannel } from '@/lib/sales-channels';
+import { SalesBatchCellError, SalesBatchRequest, SalesInputForm, ValidationError } from '@/types/database.types';
 
 // バリデーションルール定義
 export const salesValidationRules = {
@@ -19,6 +20,10 @@ export const salesValidationRules = {
     required: true,
     message: '商品カテゴリを選択してください',
   },
+  channel: {
+    required: false,
+    message: 'チャネルは店頭・EC・外商のいずれかを選択してください',
+  },
   revenue_ex_tax: {
     required: true,
     min: 0,
@@ -108,6 +113,15 @@ export function validateSalesForm(data: Partial<SalesInputForm>): ValidationErro
     });
   }
 
+  // チャネルバリデーション（オプション、省略時は店頭）
+  if (data.channel !== undefined && data.channel !== null && !isSalesChannel(data.channel)) {
+    errors.push({
+      field: 'channel',
+      message: salesValidationRules.channel.message,
+      code: 'INVALID_OPTION',
+    });
+  }
+
   // 税抜売上バリデーション
   if (data.revenue_ex_tax === undefined || data.revenue_ex_tax === null) {
     errors.push({
@@ -216,6 +230,73 @@ export function validateField(field: keyof SalesInputForm, value: any): Validati
   return errors.find(error => error.field === field) || null;
 }
 
+// 一括保存で受け付ける最大セル数（部門×カテゴリ × 最大7日分を想定）
+export const SALES_BATCH_MAX_CELLS = 500;
+
+// 一括保存（グリッド入力）のバリデーション
+// 各セルを売上フォームと同じルールで検証し、エラーにはセルの位置（日付・部門・カテゴリ）を付ける
+export function validateSalesBatch(data: Partial<SalesBatchRequest>): SalesBatchCellError[] {
+  const errors: SalesBatchCellError[] = [];
+  const cells = Array.isArray(data.cells) ? data.cells : [];
+  const seen = new Set<string>();
+
+  if (!data.store_id) {
+    errors.push({
+      field: 'store_id',
+      message: salesValidationRules.store_id.message,
+      code: 'REQUIRED',
+      date: '',
+      department: '',
+      product_category: '',
+    });
+  }
+
+  if (data.channel !== undefined && data.channel !== null && !isSalesChannel(data.channel)) {
+    errors.push({
+      field: 'channel',
+      message: salesValidationRules.channel.message,
+      code: 'INVALID_OPTION',
+      date: '',
+      department: '',
+      product_category: '',
+    });
+  }
+
+  if (cells.length === 0 || cells.length > SALES_BATCH_MAX_CELLS) {
+    errors.push({
+      field: 'cells',
+      message: `保存するセルは1〜${SALES_BATCH_MAX_CELLS}件で指定してください`,
+      code: cells.length === 0 ? 'REQUIRED' : 'MAX_VALUE',
+      date: '',
+      department: '',
+      product_category: '',
+    });
+    return errors;
+  }
+
+  cells.forEach(cell => {
+    const location = {
+      date: cell.date,
+      department: cell.department,
+      product_category: cell.product_category,
+    };
+
+    const key = `${cell.department}|${cell.product_category}|${cell.date}`;
+    if (seen.has(key)) {
+      errors.push({ field: 'cells', message: '同じセルが重複しています', code: 'DUPLICATE', ...location });
+      return;
+    }
+    seen.add(key);
+
+    validateSalesForm({ ...cell, store_id: data.store_id }).forEach(error => {
+      if (error.field === 'store_id') return;
+      errors.push({ ...error, ...location });
+    });
+  });
+
+  return errors;
+}
+
 // 日付フォーマットヘルパー
 export function formatDate(date: Date): string {
   return date.toISOString().split('T')[0];
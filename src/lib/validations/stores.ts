@@ -0,0 +1,136 @@
+import { isStoreClosureReason, isStoreType } from '@/lib/store-lifecycle';
+import { StoreClosurePeriodInputForm, StoreInputForm, ValidationError } from '@/types/database.types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const NAME_MAX_LENGTH = 100;
+const NOTE_MAX_LENGTH = 200;
+
+// 店舗マスターのフォームデータバリデーション
+export function validateStoreForm(data: Partial<StoreInputForm>): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  // 店舗名バリデーション
+  const name = data.name?.trim();
+  if (!name) {
+    errors.push({
+      field: 'name',
+      message: '店舗名は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (name.length > NAME_MAX_LENGTH) {
+    errors.push({
+      field: 'name',
+      message: `店舗名は${NAME_MAX_LENGTH}文字以内で入力してください`,
+      code: 'MAX_LENGTH',
+    });
+  }
+
+  // 開店日バリデーション（オプション、未登録の場合は既存店として扱う）
+  if (data.opened_on && !DATE_PATTERN.test(data.opened_on)) {
+    errors.push({
+      field: 'opened_on',
+      message: '開店日は YYYY-MM-DD 形式で入力してください',
+      code: 'INVALID_FORMAT',
+    });
+  }
+
+  // 閉店日バリデーション（オプション）
+  if (data.closed_on) {
+    if (!DATE_PATTERN.test(data.closed_on)) {
+      errors.push({
+        field: 'closed_on',
+        message: '閉店日は YYYY-MM-DD 形式で入力してください',
+        code: 'INVALID_FORMAT',
+      });
+    } else if (data.opened_on && data.closed_on < data.opened_on) {
+      errors.push({
+        field: 'closed_on',
+        message: '閉店日は開店日以降の日付を入力してください',
+        code: 'INCONSISTENT_DATA',
+      });
+    }
+  }
+
+  // 売場面積バリデーション（オプション）
+  if (data.floor_area_sqm !== undefined && data.floor_area_sqm !== null) {
+    if (Number.isNaN(data.floor_area_sqm) || data.floor_area_sqm <= 0) {
+      errors.push({
+        field: 'floor_area_sqm',
+        message: '売場面積は0より大きい数値で入力してください',
+        code: 'OUT_OF_RANGE',
+      });
+    }
+  }
+
+  // 店舗タイプバリデーション（オプション）
+  if (data.store_type && !isStoreType(data.store_type)) {
+    errors.push({
+      field: 'store_type',
+      message: '店舗タイプが不正です',
+      code: 'INVALID_FORMAT',
+    });
+  }
+
+  return errors;
+}
+
+// 改装・休業期間のフォームデータバリデーション
+export function validateStoreClosurePeriodForm(data: Partial<StoreClosurePeriodInputForm>): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  // 開始日バリデーション
+  if (!data.start_date) {
+    errors.push({
+      field: 'start_date',
+      message: '開始日は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (!DATE_PATTERN.test(data.start_date)) {
+    errors.push({
+      field: 'start_date',
+      message: '開始日は YYYY-MM-DD 形式で入力してください',
+      code: 'INVALID_FORMAT',
+    });
+  }
+
+  // 終了日バリデーション（開始日・終了日とも営業していない日として含む）
+  if (!data.end_date) {
+    errors.push({
+      field: 'end_date',
+      message: '終了日は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (!DATE_PATTERN.test(data.end_date)) {
+    errors.push({
+      field: 'end_date',
+      message: '終了日は YYYY-MM-DD 形式で入力してください',
+      code: 'INVALID_FORMAT',
+    });
+  } else if (data.start_date && data.end_date < data.start_date) {
+    errors.push({
+      field: 'end_date',
+      message: '終了日は開始日以降の日付を入力してください',
+      code: 'INCONSISTENT_DATA',
+    });
+  }
+
+  // 理由バリデーション
+  if (!isStoreClosureReason(data.reason)) {
+    errors.push({
+      field: 'reason',
+      message: '理由を選択してください',
+      code: 'REQUIRED',
+    });
+  }
+
+  // 備考バリデーション（オプション）
+  if (data.note && data.note.length > NOTE_MAX_LENGTH) {
+    errors.push({
+      field: 'note',
+      message: `備考は${NOTE_MAX_LENGTH}文字以下で入力してください`,
+      code: 'MAX_LENGTH',
+    });
+  }
+
+  return errors;
+}
@@ -0,0 +1,83 @@
+import { SalesTargetInputForm, ValidationError } from '@/types/database.types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// 売上目標フォームデータバリデーション
+export function validateSalesTargetForm(data: Partial<SalesTargetInputForm>): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  // 期間種別バリデーション
+  if (!data.period_type) {
+    errors.push({
+      field: 'period_type',
+      message: '目標の期間種別は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (!['monthly', 'daily'].includes(data.period_type)) {
+    errors.push({
+      field: 'period_type',
+      message: '目標の期間種別は月次または日次を指定してください',
+      code: 'INVALID_OPTION',
+    });
+  }
+
+  // 対象日バリデーション（月次目標は月初日）
+  if (!data.target_date) {
+    errors.push({
+      field: 'target_date',
+      message: '対象日は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (!DATE_PATTERN.test(data.target_date) || isNaN(Date.parse(data.target_date))) {
+    errors.push({
+      field: 'target_date',
+      message: '対象日は YYYY-MM-DD 形式で入力してください',
+      code: 'INVALID_FORMAT',
+    });
+  } else if (data.period_type === 'monthly' && !data.target_date.endsWith('-01')) {
+    errors.push({
+      field: 'target_date',
+      message: '月次目標の対象日は月初日を指定してください',
+      code: 'INCONSISTENT_DATA',
+    });
+  }
+
+  // 店舗バリデーション
+  if (!data.store_id) {
+    errors.push({
+      field: 'store_id',
+      message: '店舗は必須です',
+      code: 'REQUIRED',
+    });
+  }
+
+  // 目標値バリデーション（売上・客数のどちらか一方は必須）
+  const hasRevenue = data.revenue_target !== undefined && data.revenue_target !== null;
+  const hasFootfall = data.footfall_target !== undefined && data.footfall_target !== null;
+
+  if (!hasRevenue && !hasFootfall) {
+    errors.push({
+      field: 'revenue_target',
+      message: '売上目標または客数目標を入力してください',
+      code: 'REQUIRED',
+    });
+  }
+
+  if (hasRevenue && (Number.isNaN(data.revenue_target) || data.revenue_target! < 0)) {
+    errors.push({
+      field: 'revenue_target',
+      message: '売上目標は0以上で入力してください',
+      code: 'OUT_OF_RANGE',
+    });
+  }
+
+  if (hasFootfall && (!Number.isInteger(data.footfall_target) || data.footfall_target! < 0)) {
+    errors.push({
+      field: 'footfall_target',
+      message: '客数目標は0以上の整数で入力してください',
+      code: 'OUT_OF_RANGE',
+    });
+  }
+
+  return errors;
+}
@@ -0,0 +1,66 @@
+import { TaxRuleInputForm, ValidationError } from '@/types/database.types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// 税率ルールフォームデータバリデーション
+export function validateTaxRuleForm(data: Partial<TaxRuleInputForm>): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  // 税率バリデーション（0 以上 1 未満の小数で指定）
+  if (data.rate === undefined || data.rate === null || Number.isNaN(data.rate)) {
+    errors.push({
+      field: 'rate',
+      message: '税率は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (data.rate < 0 || data.rate >= 1) {
+    errors.push({
+      field: 'rate',
+      message: '税率は0%以上100%未満で入力してください',
+      code: 'OUT_OF_RANGE',
+    });
+  }
+
+  // 適用開始日バリデーション
+  if (!data.valid_from) {
+    errors.push({
+      field: 'valid_from',
+      message: '適用開始日は必須です',
+      code: 'REQUIRED',
+    });
+  } else if (!DATE_PATTERN.test(data.valid_from)) {
+    errors.push({
+      field: 'valid_from',
+      message: '適用開始日は YYYY-MM-DD 形式で入力してください',
+      code: 'INVALID_FORMAT',
+    });
+  }
+
+  // 適用終了日バリデーション（オプション）
+  if (data.valid_to) {
+    if (!DATE_PATTERN.test(data.valid_to)) {
+      errors.push({
+        field: 'valid_to',
+        message: '適用終了日は YYYY-MM-DD 形式で入力してください',
+        code: 'INVALID_FORMAT',
+      });
+    } else if (data.valid_from && data.valid_to < data.valid_from) {
+      errors.push({
+        field: 'valid_to',
+        message: '適用終了日は適用開始日以降の日付を入力してください',
+        code: 'INCONSISTENT_DATA',
+      });
+    }
+  }
+
+  // 説明バリデーション（オプション）
+  if (data.description && data.description.length > 200) {
+    errors.push({
+      field: 'description',
+      message: '説明は200文字以下で入力してください',
+      code: 'MAX_LENGTH',
+    });
+  }
+
+  return errors;
+}
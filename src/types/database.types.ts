@@ -17,6 +17,10 @@ export interface Database {
           lat: number | null
           lng: number | null
           area: string | null
+          opened_on: string | null
+          closed_on: string | null
+          floor_area_sqm: number | null
+          store_type: StoreType | null
           created_at: string
           updated_at: string
         }
@@ -27,6 +31,10 @@ export interface Database {
           lat?: number | null
           lng?: number | null
           area?: string | null
+          opened_on?: string | null
+          closed_on?: string | null
+          floor_area_sqm?: number | null
+          store_type?: StoreType | null
           created_at?: string
           updated_at?: string
         }
@@ -37,26 +45,129 @@ export interface Database {
           lat?: number | null
           lng?: number | null
           area?: string | null
+          opened_on?: string | null
+          closed_on?: string | null
+          floor_area_sqm?: number | null
+          store_type?: StoreType | null
           created_at?: string
           updated_at?: string
         }
       }
+      store_closure_periods: {
+        Row: {
+          id: string
+          store_id: string
+          start_date: string
+          end_date: string
+          reason: StoreClosureReason
+          note: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          store_id: string
+          start_date: string
+          end_date: string
+          reason?: StoreClosureReason
+          note?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          store_id?: string
+          start_date?: string
+          end_date?: string
+          reason?: StoreClosureReason
+          note?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      accounting_period_closes: {
+        Row: {
+          id: string
+          period: string
+          store_id: string | null
+          note: string | null
+          closed_by: string | null
+          closed_at: string
+        }
+        Insert: {
+          id?: string
+          period: string
+          store_id?: string | null
+          note?: string | null
+          closed_by?: string | null
+          closed_at?: string
+        }
+        Update: {
+          id?: string
+          period?: string
+          store_id?: string | null
+          note?: string | null
+          closed_by?: string | null
+          closed_at?: string
+        }
+      }
       dim_department: {
         Row: {
           id: string
+          code: string
           name: string
+          sort_order: number
+          active: boolean
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
+          code: string
           name: string
+          sort_order?: number
+          active?: boolean
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
+          code?: string
           name?: string
+          sort_order?: number
+          active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      dim_product_category: {
+        Row: {
+          id: string
+          code: string
+          name: string
+          sort_order: number
+          active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          code: string
+          name: string
+          sort_order?: number
+          active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          code?: string
+          name?: string
+          sort_order?: number
+          active?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -72,12 +183,22 @@ export interface Database {
           store_id: string
           department: string | null
           product_category: string | null
+          channel: SalesChannel
           revenue_ex_tax: number
           footfall: number | null
           transactions: number | null
           discounts: number | null
           tax: number | null
+          tax_rate: number | null
           notes: string | null
+          status: SalesStatus
+          submitted_by: string | null
+          submitted_at: string | null
+          approved_by: string | null
+          approved_at: string | null
+          locked_by: string | null
+          locked_at: string | null
+          review_comment: string | null
           created_by: string | null
           created_at: string
           updated_at: string
@@ -88,12 +209,22 @@ export interface Database {
           store_id: string
           department?: string | null
           product_category?: string | null
+          channel?: SalesChannel
           revenue_ex_tax: number
           footfall?: number | null
           transactions?: number | null
           discounts?: number | null
           tax?: number | null
+          tax_rate?: number | null
           notes?: string | null
+          status?: SalesStatus
+          submitted_by?: string | null
+          submitted_at?: string | null
+          approved_by?: string | null
+          approved_at?: string | null
+          locked_by?: string | null
+          locked_at?: string | null
+          review_comment?: string | null
           created_by?: string | null
           created_at?: string
           updated_at?: string
@@ -104,17 +235,300 @@ export interface Database {
           store_id?: string
           department?: string | null
           product_category?: string | null
+          channel?: SalesChannel
           revenue_ex_tax?: number
           footfall?: number | null
           transactions?: number | null
           discounts?: number | null
           tax?: number | null
+          tax_rate?: number | null
           notes?: string | null
+          status?: SalesStatus
+          submitted_by?: string | null
+          submitted_at?: string | null
+          approved_by?: string | null
+          approved_at?: string | null
+          locked_by?: string | null
+          locked_at?: string | null
+          review_comment?: string | null
           created_by?: string | null
           created_at?: string
           updated_at?: string
         }
       }
+
+      // ========================================
+      // TAX RULES
+      // ========================================
+      tax_rules: {
+        Row: {
+          id: string
+          department: string | null
+          product_category: string | null
+          rate: number
+          valid_from: string
+          valid_to: string | null
+          description: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          department?: string | null
+          product_category?: string | null
+          rate: number
+          valid_from: string
+          valid_to?: string | null
+          description?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          department?: string | null
+          product_category?: string | null
+          rate?: number
+          valid_from?: string
+          valid_to?: string | null
+          description?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+
+      // ========================================
+      // SALES TARGETS
+      // ========================================
+      sales_targets: {
+        Row: {
+          id: string
+          period_type: SalesTargetPeriodType
+          target_date: string
+          store_id: string
+          department: string | null
+          product_category: string | null
+          revenue_target: number | null
+          footfall_target: number | null
+          created_by: string | null
+          updated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          period_type: SalesTargetPeriodType
+          target_date: string
+          store_id: string
+          department?: string | null
+          product_category?: string | null
+          revenue_target?: number | null
+          footfall_target?: number | null
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          period_type?: SalesTargetPeriodType
+          target_date?: string
+          store_id?: string
+          department?: string | null
+          product_category?: string | null
+          revenue_target?: number | null
+          footfall_target?: number | null
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+
+      // ========================================
+      // LABOR HOURS
+      // ========================================
+      labor_hours: {
+        Row: {
+          id: string
+          date: string
+          store_id: string
+          department: string | null
+          hours: number
+          notes: string | null
+          created_by: string | null
+          updated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          date: string
+          store_id: string
+          department?: string | null
+          hours: number
+          notes?: string | null
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          date?: string
+          store_id?: string
+          department?: string | null
+          hours?: number
+          notes?: string | null
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+
+      // ========================================
+      // CAMPAIGNS
+      // ========================================
+      campaigns: {
+        Row: {
+          id: string
+          name: string
+          campaign_type: CampaignType
+          start_date: string
+          end_date: string
+          store_ids: string[]
+          departments: string[]
+          discount_rate: number | null
+          notes: string | null
+          created_by: string | null
+          updated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          campaign_type: CampaignType
+          start_date: string
+          end_date: string
+          store_ids?: string[]
+          departments?: string[]
+          discount_rate?: number | null
+          notes?: string | null
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          campaign_type?: CampaignType
+          start_date?: string
+          end_date?: string
+          store_ids?: string[]
+          departments?: string[]
+          discount_rate?: number | null
+          notes?: string | null
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+
+      // ========================================
+      // POS RECONCILIATION
+      // ========================================
+      pos_reconciliations: {
+        Row: {
+          id: string
+          date: string
+          store_id: string
+          pos_revenue_ex_tax: number
+          pos_transactions: number | null
+          source_file: string | null
+          status: PosReconciliationStatus
+          resolution_note: string | null
+          resolved_by: string | null
+          resolved_at: string | null
+          uploaded_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          date: string
+          store_id: string
+          pos_revenue_ex_tax: number
+          pos_transactions?: number | null
+          source_file?: string | null
+          status?: PosReconciliationStatus
+          resolution_note?: string | null
+          resolved_by?: string | null
+          resolved_at?: string | null
+          uploaded_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          date?: string
+          store_id?: string
+          pos_revenue_ex_tax?: number
+          pos_transactions?: number | null
+          source_file?: string | null
+          status?: PosReconciliationStatus
+          resolution_note?: string | null
+          resolved_by?: string | null
+          resolved_at?: string | null
+          uploaded_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+
+      // ========================================
+      // SALES ATTACHMENTS
+      // ========================================
+      sales_attachments: {
+        Row: {
+          id: string
+          sales_id: string
+          store_id: string
+          file_name: string
+          content_type: SalesAttachmentContentType
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          sales_id: string
+          store_id: string
+          file_name: string
+          content_type: SalesAttachmentContentType
+          size_bytes: number
+          storage_path: string
+          uploaded_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          sales_id?: string
+          store_id?: string
+          file_name?: string
+          content_type?: SalesAttachmentContentType
+          size_bytes?: number
+          storage_path?: string
+          uploaded_by?: string | null
+          created_at?: string
+        }
+      }
       
       // ========================================
       // EXTERNAL DATA TABLES
@@ -309,9 +723,183 @@ export interface Database {
         }
       }
       
+      // ========================================
+      // ETL RUN HISTORY
+      // ========================================
+      etl_runs: {
+        Row: {
+          id: string
+          trigger: EtlTrigger
+          status: EtlRunStatus
+          target_date: string | null
+          params: Record<string, any> | null
+          triggered_by: string | null
+          started_at: string
+          finished_at: string | null
+          duration_ms: number | null
+          success_count: number
+          failure_count: number
+          error: string | null
+        }
+        Insert: {
+          id?: string
+          trigger: EtlTrigger
+          status?: EtlRunStatus
+          target_date?: string | null
+          params?: Record<string, any> | null
+          triggered_by?: string | null
+          started_at?: string
+          finished_at?: string | null
+          duration_ms?: number | null
+          success_count?: number
+          failure_count?: number
+          error?: string | null
+        }
+        Update: {
+          id?: string
+          trigger?: EtlTrigger
+          status?: EtlRunStatus
+          target_date?: string | null
+          params?: Record<string, any> | null
+          triggered_by?: string | null
+          started_at?: string
+          finished_at?: string | null
+          duration_ms?: number | null
+          success_count?: number
+          failure_count?: number
+          error?: string | null
+        }
+      }
+      etl_run_sources: {
+        Row: {
+          id: string
+          run_id: string
+          source: string
+          target_date: string | null
+          status: EtlRunSourceStatus
+          records_processed: number
+          records_inserted: number
+          records_updated: number
+          records_unchanged: number
+          records_failed: number
+          row_errors: EtlRowError[] | null
+          attempts: number
+          duration_ms: number
+          error: string | null
+          finished_at: string
+        }
+        Insert: {
+          id?: string
+          run_id: string
+          source: string
+          target_date?: string | null
+          status: EtlRunSourceStatus
+          records_processed?: number
+          records_inserted?: number
+          records_updated?: number
+          records_unchanged?: number
+          records_failed?: number
+          row_errors?: EtlRowError[] | null
+          attempts?: number
+          duration_ms?: number
+          error?: string | null
+          finished_at?: string
+        }
+        Update: {
+          id?: string
+          run_id?: string
+          source?: string
+          target_date?: string | null
+          status?: EtlRunSourceStatus
+          records_processed?: number
+          records_inserted?: number
+          records_updated?: number
+          records_unchanged?: number
+          records_failed?: number
+          row_errors?: EtlRowError[] | null
+          attempts?: number
+          duration_ms?: number
+          error?: string | null
+          finished_at?: string
+        }
+      }
+      etl_quarantine: {
+        Row: {
+          id: string
+          run_id: string | null
+          source: string
+          target_date: string | null
+          record: Record<string, unknown>
+          error_code: string
+          reason: string
+          status: EtlQuarantineStatus
+          created_at: string
+          resolved_by: string | null
+          resolved_at: string | null
+        }
+        Insert: {
+          id?: string
+          run_id?: string | null
+          source: string
+          target_date?: string | null
+          record: Record<string, unknown>
+          error_code: string
+          reason: string
+          status?: EtlQuarantineStatus
+          created_at?: string
+          resolved_by?: string | null
+          resolved_at?: string | null
+        }
+        Update: {
+          id?: string
+          run_id?: string | null
+          source?: string
+          target_date?: string | null
+          record?: Record<string, unknown>
+          error_code?: string
+          reason?: string
+          status?: EtlQuarantineStatus
+          created_at?: string
+          resolved_by?: string | null
+          resolved_at?: string | null
+        }
+      }
+      
       // ========================================
       // AUDIT TABLE
       // ========================================
+      idempotency_keys: {
+        Row: {
+          user_id: string
+          endpoint: string
+          key: string
+          request_hash: string
+          status_code: number
+          response: Record<string, any>
+          created_at: string
+          expires_at: string
+        }
+        Insert: {
+          user_id: string
+          endpoint: string
+          key: string
+          request_hash: string
+          status_code: number
+          response: Record<string, any>
+          created_at?: string
+          expires_at?: string
+        }
+        Update: {
+          user_id?: string
+          endpoint?: string
+          key?: string
+          request_hash?: string
+          status_code?: number
+          response?: Record<string, any>
+          created_at?: string
+          expires_at?: string
+        }
+      }
       audit_log: {
         Row: {
           id: string
@@ -371,10 +959,119 @@ export interface Database {
       }
     }
     Views: {
+      etl_source_status: {
+        Row: {
+          source: string
+          last_run_at: string | null
+          last_success_at: string | null
+          last_failure_at: string | null
+        }
+      }
       v_table_stats: Database['public']['Tables']['v_table_stats']['Row']
       v_slow_queries: Database['public']['Tables']['v_slow_queries']['Row']
     }
     Functions: {
+      recalculate_sales_tax: {
+        Args: {
+          p_updates: { id: string; tax: number; tax_rate: number }[]
+        }
+        Returns: number
+      }
+      get_sales_kpi_summary: {
+        Args: {
+          p_start_date: string
+          p_end_date: string
+          p_store_ids?: string[] | null
+        }
+        Returns: {
+          total_revenue_ex_tax: number
+          total_footfall: number
+          total_transactions: number
+          record_count: number
+          day_count: number
+        }[]
+      }
+      refresh_daily_sales_summary: {
+        Args: Record<string, never>
+        Returns: undefined
+      }
+      create_sales_with_audit: {
+        Args: {
+          p_sales: Record<string, any>
+          p_audit: { ip: string; ua: string; meta: Record<string, any> }
+          p_idempotency_key?: string | null
+          p_request_hash?: string | null
+        }
+        Returns: Database['public']['Tables']['sales']['Row']
+      }
+      purge_expired_idempotency_keys: {
+        Args: Record<string, never>
+        Returns: number
+      }
+      save_sales_batch: {
+        Args: {
+          p_store_id: string
+          p_inserts: Record<string, any>[]
+          p_updates: Record<string, any>[]
+          p_audit: { ip: string; ua: string }
+        }
+        Returns: { inserted: number; updated: number }
+      }
+      accept_pos_reconciliation: {
+        Args: {
+          p_reconciliation_id: string
+          p_expected_updated_at: string
+          p_updates: { id: string; updated_at: string; revenue_ex_tax: number; transactions: number | null; tax: number; tax_rate: number }[]
+          p_note: string | null
+          p_audit: { ip: string; ua: string }
+        }
+        Returns: Database['public']['Tables']['pos_reconciliations']['Row']
+      }
+      is_sales_period_closed: {
+        Args: {
+          p_store_id: string
+          p_date: string
+        }
+        Returns: boolean
+      }
+      get_sales_ledger_totals: {
+        Args: {
+          p_store_id?: string | null
+          p_department?: string | null
+          p_product_category?: string | null
+          p_status?: string | null
+          p_start_date?: string | null
+          p_end_date?: string | null
+        }
+        Returns: {
+          revenue_ex_tax: number
+          tax: number
+          footfall: number
+          transactions: number
+          discounts: number
+          record_count: number
+        }[]
+      }
+      finish_etl_run: {
+        Args: {
+          p_run_id: string
+          p_error?: string | null
+        }
+        Returns: undefined
+      }
+      etl_upsert_records: {
+        Args: {
+          p_source: string
+          p_records: Record<string, unknown>[]
+        }
+        Returns: { inserted: number; updated: number; unchanged: number; errors: EtlRowError[] }
+      }
+      release_etl_quarantine: {
+        Args: {
+          p_id: string
+        }
+        Returns: Database['public']['Tables']['etl_quarantine']['Row']
+      }
       calculate_distance: {
         Args: {
           lat1: number
@@ -477,19 +1174,46 @@ export interface DashboardFilters {
   storeIds?: string[]
   departments?: string[]
   productCategories?: string[]
+  channels?: SalesChannel[]
+  salesStatus?: SalesStatusFilter
+  // 既存店比較：比較期間を通して営業していた店舗のみを集計する
+  likeForLike?: boolean
 }
 
+// Sales channel: store = 店頭, ec = EC (store pickup), corporate = 外商
+export type SalesChannel = 'store' | 'ec' | 'corporate'
+
+// Sales approval workflow status
+export type SalesStatus = 'draft' | 'submitted' | 'approved' | 'locked'
+
+// Which sales rows count as figures on dashboards and exports
+// approved: approved + locked only / approved_pending: also rows awaiting approval
+export type SalesStatusFilter = 'approved' | 'approved_pending'
+
 // Analytics data structure
 export interface AnalyticsData {
   sales: SalesWithCalculated[]
   marketData: Database['public']['Tables']['ext_market_index']['Row'][]
   weatherData: Database['public']['Tables']['ext_weather_daily']['Row'][]
   events: Database['public']['Tables']['ext_events']['Row'][]
+  targets: Database['public']['Tables']['sales_targets']['Row'][]
+  laborHours: Database['public']['Tables']['labor_hours']['Row'][]
   correlations?: {
     weather_sales: number
     events_sales: number
     market_sales: number
   }
+  likeForLike?: LikeForLikeScope
+}
+
+// Stores counted in like-for-like (既存店) mode and the window they were checked against
+export interface LikeForLikeScope {
+  window: {
+    start: string
+    end: string
+  }
+  storeIds: string[]
+  excludedStoreIds: string[]
 }
 
 // Export format options
@@ -512,6 +1236,41 @@ export type AuditAction =
   | 'input_sales'
   | 'edit_sales'
   | 'delete_sales'
+  | 'import_sales'
+  | 'submit_sales'
+  | 'approve_sales'
+  | 'reject_sales'
+  | 'reopen_sales'
+  | 'lock_sales'
+  | 'sales_sla_reminder'
+  | 'create_tax_rule'
+  | 'update_tax_rule'
+  | 'delete_tax_rule'
+  | 'recalculate_sales_tax'
+  | 'create_sales_target'
+  | 'update_sales_target'
+  | 'delete_sales_target'
+  | 'import_sales_targets'
+  | 'input_labor_hours'
+  | 'import_labor_hours'
+  | 'create_campaign'
+  | 'update_campaign'
+  | 'delete_campaign'
+  | 'import_pos_totals'
+  | 'accept_pos_reconciliation'
+  | 'annotate_pos_reconciliation'
+  | 'upload_sales_attachment'
+  | 'download_sales_attachment'
+  | 'create_master_data'
+  | 'update_master_data'
+  | 'delete_master_data'
+  | 'create_store'
+  | 'update_store'
+  | 'delete_store'
+  | 'create_store_closure'
+  | 'delete_store_closure'
+  | 'close_period'
+  | 'reopen_period'
   | 'system_init'
   | 'migration_applied'
   | 'seed_data'
@@ -543,6 +1302,8 @@ export interface APIResponse<T> {
     total?: number
     page?: number
     limit?: number
+    offset?: number
+    totals?: SalesLedgerSubtotals
   }
 }
 
@@ -552,6 +1313,7 @@ export interface SalesInputForm {
   store_id: string
   department: string
   product_category: string
+  channel?: SalesChannel // 省略時は店頭
   revenue_ex_tax: number
   footfall?: number
   transactions?: number
@@ -559,6 +1321,224 @@ export interface SalesInputForm {
   notes?: string
 }
 
+// Sales create request - acknowledged_warnings lists the anomaly warning fields
+// the user has confirmed (see @/lib/sales-anomaly)
+export interface SalesCreateRequest extends SalesInputForm {
+  acknowledged_warnings?: string[]
+}
+
+// Sales update request - updated_at is the value last read by the client
+// and is used as an optimistic concurrency token
+export interface SalesUpdateRequest extends Partial<SalesInputForm> {
+  updated_at: string
+}
+
+// One cell of the grid entry (department x category x date) sent to the batch endpoint.
+// id / updated_at are set for cells pre-filled from existing rows (optimistic lock)
+export interface SalesBatchCell {
+  date: string
+  department: string
+  product_category: string
+  revenue_ex_tax: number
+  id?: string
+  updated_at?: string
+}
+
+// Existing row used to pre-fill a grid cell
+export type SalesBatchRow = Pick<
+  Database['public']['Tables']['sales']['Row'],
+  'id' | 'date' | 'department' | 'product_category' | 'revenue_ex_tax' | 'status' | 'updated_at'
+>
+
+// The grid is entered one channel at a time (omitted = store)
+export interface SalesBatchRequest {
+  store_id: string
+  channel?: SalesChannel
+  cells: SalesBatchCell[]
+}
+
+// Validation error located by the cell it belongs to
+export interface SalesBatchCellError extends ValidationError {
+  date: string
+  department: string
+  product_category: string
+}
+
+export interface SalesBatchResult {
+  inserted: number
+  updated: number
+  unchanged: number
+}
+
+// Sales ledger subtotals (sums of the numeric columns)
+export interface SalesLedgerTotals {
+  revenue_ex_tax: number
+  tax: number
+  footfall: number
+  transactions: number
+  discounts: number
+  record_count: number
+}
+
+// page = rows on the current page, filter = all rows matching the filters
+export interface SalesLedgerSubtotals {
+  page: SalesLedgerTotals
+  filter: SalesLedgerTotals
+}
+
+// One audit_log entry for a sales row, with the actor's display name
+export interface SalesHistoryEntry {
+  id: string
+  action: string
+  actor_id: string | null
+  actor_name: string | null
+  at: string
+  meta: Record<string, any> | null
+}
+
+// Tax rule input form data (rate is a fraction, e.g. 0.08)
+export interface TaxRuleInputForm {
+  department: string | null
+  product_category: string | null
+  rate: number
+  valid_from: string
+  valid_to: string | null
+  description?: string
+  updated_at?: string
+}
+
+// Store format attribute of dim_store
+export type StoreType = 'flagship' | 'standard' | 'outlet' | 'popup'
+
+// Why a store was not trading during a store_closure_periods row
+export type StoreClosureReason = 'renovation' | 'temporary_closure' | 'other'
+
+// Sales target period (monthly targets use the first day of the month as target_date)
+export type SalesTargetPeriodType = 'monthly' | 'daily'
+
+// Sales target input form data
+export interface SalesTargetInputForm {
+  period_type: SalesTargetPeriodType
+  target_date: string
+  store_id: string
+  department: string | null
+  product_category: string | null
+  revenue_target: number | null
+  footfall_target: number | null
+  updated_at?: string
+}
+
+// POS reconciliation status: open = 未解消, accepted = POS の値を採用, annotated = 差異の理由を記録
+export type PosReconciliationStatus = 'open' | 'accepted' | 'annotated'
+
+// POS daily totals input (one row per store per day, from the POS Z-report)
+export interface PosDailyTotalInputForm {
+  date: string
+  store_id: string
+  revenue_ex_tax: number
+  transactions?: number | null
+}
+
+// POS reconciliation resolution request
+export interface PosReconciliationResolveRequest {
+  resolution: 'accept_pos' | 'annotate'
+  note?: string | null
+  updated_at: string
+}
+
+// ETL run trigger: schedule = 定時実行, manual = 手動実行, backfill = 過去分の再取得
+export type EtlTrigger = 'schedule' | 'manual' | 'backfill'
+
+// ETL run status: partial = 一部のソースのみ失敗
+export type EtlRunStatus = 'running' | 'success' | 'partial' | 'failure'
+
+export type EtlRunSourceStatus = 'success' | 'failure'
+
+// A record rejected by etl_upsert_records (index = position in the fetched records)
+export interface EtlRowError {
+  index: number
+  code: string
+  message: string
+}
+
+// Quarantined external record status: released = 管理者が確認して反映, discarded = 破棄
+export type EtlQuarantineStatus = 'quarantined' | 'released' | 'discarded'
+
+// Resolution of a quarantined external record
+export interface EtlQuarantineActionRequest {
+  action: 'release' | 'discard'
+}
+
+// Sales attachment content types (receipts and daily reports)
+export type SalesAttachmentContentType = 'image/jpeg' | 'image/png' | 'image/webp' | 'application/pdf'
+
+// Signed download URL for a sales attachment
+export interface SalesAttachmentDownload {
+  url: string
+  expires_at: string
+}
+
+// Campaign type: point_up = ポイントアップ, seasonal_sale = 季節セール, clearance = 在庫処分
+export type CampaignType = 'point_up' | 'seasonal_sale' | 'clearance' | 'other'
+
+// Campaign input form data (empty store_ids / departments = all stores / departments)
+export interface CampaignInputForm {
+  name: string
+  campaign_type: CampaignType
+  start_date: string
+  end_date: string
+  store_ids: string[]
+  departments: string[]
+  discount_rate?: number | null
+  notes?: string | null
+  updated_at?: string
+}
+
+// Labor hours input form data (department null = hours not assigned to a department)
+export interface LaborHoursInputForm {
+  date: string
+  store_id: string
+  department?: string | null
+  hours: number
+  notes?: string | null
+}
+
+// Department / product category master input form data
+export interface MasterDataInputForm {
+  code: string
+  name: string
+  sort_order: number
+  active: boolean
+  updated_at?: string
+}
+
+// Store master input form data
+export interface StoreInputForm {
+  name: string
+  address?: string | null
+  area?: string | null
+  opened_on?: string | null
+  closed_on?: string | null
+  floor_area_sqm?: number | null
+  store_type?: StoreType | null
+  updated_at?: string
+}
+
+// Store renovation / temporary closure period input form data
+export interface StoreClosurePeriodInputForm {
+  start_date: string
+  end_date: string
+  reason: StoreClosureReason
+  note?: string | null
+}
+
+// Accounting period close input form data (period: YYYY-MM, store_id null = all stores)
+export interface AccountingPeriodCloseInputForm {
+  period: string
+  store_id?: string | null
+  note?: string | null
+}
+
 // Validation errors
 export interface ValidationError {
   field: string
@@ -0,0 +1,92 @@
+-- Sales Approval Workflow for Business Strategy Dashboard
+-- 売上データの承認ワークフロー（draft → submitted → approved → locked）
+-- Created: 2025-08-23
+
+-- ========================================
+-- SALES STATUS COLUMNS
+-- ========================================
+
+-- Existing rows were already treated as final figures, so they are added as
+-- 'approved'; the default is switched to 'draft' for new rows afterwards.
+ALTER TABLE sales
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'approved',
+    ADD COLUMN IF NOT EXISTS submitted_by UUID REFERENCES auth.users(id),
+    ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES auth.users(id),
+    ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS locked_by UUID REFERENCES auth.users(id),
+    ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS review_comment TEXT;
+
+ALTER TABLE sales ALTER COLUMN status SET DEFAULT 'draft';
+
+ALTER TABLE sales
+    ADD CONSTRAINT sales_status_valid CHECK (
+        status IN ('draft', 'submitted', 'approved', 'locked')
+    );
+
+-- ========================================
+-- INDEXES
+-- ========================================
+
+-- Dashboard / export queries filter by status within a date range
+CREATE INDEX IF NOT EXISTS idx_sales_status_date ON sales(status, date);
+
+-- Approval queue per store
+CREATE INDEX IF NOT EXISTS idx_sales_submitted ON sales(store_id, submitted_at)
+    WHERE status = 'submitted';
+
+-- ========================================
+-- READ-ONLY ENFORCEMENT FOR APPROVED ROWS
+-- ========================================
+
+-- Approved and locked rows may only change status (approve → lock, reopen);
+-- figures cannot be edited and the rows cannot be deleted.
+CREATE OR REPLACE FUNCTION prevent_approved_sales_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF OLD.status IN ('approved', 'locked') THEN
+            RAISE EXCEPTION 'Approved sales data cannot be deleted (id=%)', OLD.id
+                USING ERRCODE = 'check_violation';
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF OLD.status = 'locked' AND NEW.status = 'locked' THEN
+        RAISE EXCEPTION 'Locked sales data cannot be modified (id=%)', OLD.id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF OLD.status IN ('approved', 'locked') AND (
+        NEW.date IS DISTINCT FROM OLD.date OR
+        NEW.store_id IS DISTINCT FROM OLD.store_id OR
+        NEW.department IS DISTINCT FROM OLD.department OR
+        NEW.product_category IS DISTINCT FROM OLD.product_category OR
+        NEW.revenue_ex_tax IS DISTINCT FROM OLD.revenue_ex_tax OR
+        NEW.footfall IS DISTINCT FROM OLD.footfall OR
+        NEW.transactions IS DISTINCT FROM OLD.transactions OR
+        NEW.discounts IS DISTINCT FROM OLD.discounts OR
+        NEW.tax IS DISTINCT FROM OLD.tax OR
+        NEW.notes IS DISTINCT FROM OLD.notes
+    ) THEN
+        RAISE EXCEPTION 'Approved sales data is read-only (id=%)', OLD.id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_prevent_approved_sales_modification ON sales;
+CREATE TRIGGER trigger_prevent_approved_sales_modification
+    BEFORE UPDATE OR DELETE ON sales
+    FOR EACH ROW EXECUTE FUNCTION prevent_approved_sales_modification();
+
+-- ========================================
+-- COMMENTS FOR DOCUMENTATION
+-- ========================================
+
+COMMENT ON COLUMN sales.status IS 'Approval status: draft, submitted, approved, locked';
+COMMENT ON COLUMN sales.review_comment IS 'Comment left by the approver on reject/reopen';
+COMMENT ON FUNCTION prevent_approved_sales_modification IS 'Keep approved/locked sales rows read-only except for status transitions';
@@ -0,0 +1,162 @@
+-- Effective-dated Consumption Tax Rules for Business Strategy Dashboard
+-- 部門・商品カテゴリ別の消費税率（適用期間付き）と売上税額の再計算
+-- Created: 2025-08-24
+
+-- ========================================
+-- TAX RULES TABLE
+-- ========================================
+
+-- department / product_category が NULL の場合は「すべて」にマッチする。
+-- 複数のルールが該当する場合は、部門+カテゴリ > カテゴリ > 部門 > 既定 の順に優先する。
+CREATE TABLE IF NOT EXISTS tax_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    department TEXT,
+    product_category TEXT,
+    rate NUMERIC(5,4) NOT NULL,
+    valid_from DATE NOT NULL,
+    valid_to DATE,
+    description TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT tax_rules_rate_range CHECK (rate >= 0 AND rate < 1),
+    CONSTRAINT tax_rules_valid_period CHECK (valid_to IS NULL OR valid_to >= valid_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_rules_lookup
+    ON tax_rules(department, product_category, valid_from);
+
+CREATE TRIGGER update_tax_rules_updated_at BEFORE UPDATE ON tax_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Standard 10% and reduced 8% rate for food since 2019-10-01
+INSERT INTO tax_rules (department, product_category, rate, valid_from, description) VALUES
+    (NULL, NULL, 0.1000, '2019-10-01', '標準税率'),
+    ('food', NULL, 0.0800, '2019-10-01', '軽減税率（飲食料品）');
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE tax_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Tax rules - all authenticated users can read
+CREATE POLICY tax_rules_read ON tax_rules
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- RLS Policy: Tax rules - only admins can modify
+CREATE POLICY tax_rules_admin_modify ON tax_rules
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    );
+
+-- ========================================
+-- APPLIED RATE ON SALES
+-- ========================================
+
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5,4);
+
+-- ========================================
+-- READ-ONLY ENFORCEMENT WITH TAX RECALCULATION
+-- ========================================
+
+-- Same as the approval workflow trigger, but tax / tax_rate may be corrected on
+-- approved rows when the change is made through recalculate_sales_tax().
+CREATE OR REPLACE FUNCTION prevent_approved_sales_modification()
+RETURNS TRIGGER AS $$
+DECLARE
+    tax_recalculation BOOLEAN := COALESCE(current_setting('app.tax_recalculation', true), '') = 'on';
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF OLD.status IN ('approved', 'locked') THEN
+            RAISE EXCEPTION 'Approved sales data cannot be deleted (id=%)', OLD.id
+                USING ERRCODE = 'check_violation';
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF OLD.status = 'locked' AND NEW.status = 'locked' AND NOT tax_recalculation THEN
+        RAISE EXCEPTION 'Locked sales data cannot be modified (id=%)', OLD.id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF OLD.status IN ('approved', 'locked') AND (
+        NEW.date IS DISTINCT FROM OLD.date OR
+        NEW.store_id IS DISTINCT FROM OLD.store_id OR
+        NEW.department IS DISTINCT FROM OLD.department OR
+        NEW.product_category IS DISTINCT FROM OLD.product_category OR
+        NEW.revenue_ex_tax IS DISTINCT FROM OLD.revenue_ex_tax OR
+        NEW.footfall IS DISTINCT FROM OLD.footfall OR
+        NEW.transactions IS DISTINCT FROM OLD.transactions OR
+        NEW.discounts IS DISTINCT FROM OLD.discounts OR
+        NEW.notes IS DISTINCT FROM OLD.notes OR
+        (NOT tax_recalculation AND (
+            NEW.tax IS DISTINCT FROM OLD.tax OR
+            NEW.tax_rate IS DISTINCT FROM OLD.tax_rate
+        ))
+    ) THEN
+        RAISE EXCEPTION 'Approved sales data is read-only (id=%)', OLD.id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ========================================
+-- TAX RECALCULATION (BACKFILL)
+-- ========================================
+
+-- p_updates: [{ "id": uuid, "tax": number, "tax_rate": number }, ...]
+-- Only tax / tax_rate are written; returns the number of updated rows.
+CREATE OR REPLACE FUNCTION recalculate_sales_tax(p_updates JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    updated_count INTEGER;
+BEGIN
+    PERFORM set_config('app.tax_recalculation', 'on', true);
+
+    UPDATE sales s
+    SET tax = (u.value->>'tax')::NUMERIC,
+        tax_rate = (u.value->>'tax_rate')::NUMERIC
+    FROM jsonb_array_elements(p_updates) AS u(value)
+    WHERE s.id = (u.value->>'id')::UUID;
+
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+    PERFORM set_config('app.tax_recalculation', 'off', true);
+
+    RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION recalculate_sales_tax(JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ========================================
+-- COMMENTS FOR DOCUMENTATION
+-- ========================================
+
+COMMENT ON TABLE tax_rules IS 'Effective-dated consumption tax rates by department / product category';
+COMMENT ON COLUMN tax_rules.department IS 'Department code, NULL matches all departments';
+COMMENT ON COLUMN tax_rules.product_category IS 'Product category code, NULL matches all categories';
+COMMENT ON COLUMN tax_rules.valid_to IS 'Last day the rule applies (inclusive), NULL for open-ended';
+COMMENT ON COLUMN sales.tax_rate IS 'Consumption tax rate applied when tax was calculated';
+COMMENT ON FUNCTION recalculate_sales_tax IS 'Backfill tax / tax_rate on sales rows, including approved rows (service role only)';
@@ -0,0 +1,89 @@
+-- Sales Targets (Budgets) for Business Strategy Dashboard
+-- 店舗・部門・商品カテゴリ別の月次／日次 売上・客数目標
+-- Created: 2025-08-25
+
+-- ========================================
+-- SALES TARGETS TABLE
+-- ========================================
+
+-- period_type = 'monthly' の場合 target_date は月初日、'daily' の場合は対象日。
+-- department / product_category が NULL の場合は「すべて」の目標を表す。
+-- 同じ日に日次目標がある場合は日次目標を優先し、ない場合は月次目標を日数で按分する。
+CREATE TABLE IF NOT EXISTS sales_targets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    period_type TEXT NOT NULL,
+    target_date DATE NOT NULL,
+    store_id UUID NOT NULL REFERENCES dim_store(id) ON DELETE CASCADE,
+    department TEXT,
+    product_category TEXT,
+    revenue_target NUMERIC(15,2),
+    footfall_target INTEGER,
+    created_by UUID REFERENCES auth.users(id),
+    updated_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT sales_targets_period_type CHECK (period_type IN ('monthly', 'daily')),
+    CONSTRAINT sales_targets_month_start CHECK (
+        period_type <> 'monthly' OR EXTRACT(DAY FROM target_date) = 1
+    ),
+    CONSTRAINT sales_targets_has_value CHECK (
+        revenue_target IS NOT NULL OR footfall_target IS NOT NULL
+    ),
+    CONSTRAINT sales_targets_non_negative CHECK (
+        COALESCE(revenue_target, 0) >= 0 AND COALESCE(footfall_target, 0) >= 0
+    ),
+    -- Excel 取込みの upsert キー（NULL の部門・カテゴリも同一視する）
+    CONSTRAINT sales_targets_scope_key UNIQUE NULLS NOT DISTINCT (
+        period_type, target_date, store_id, department, product_category
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_targets_store_date
+    ON sales_targets(store_id, target_date);
+
+CREATE TRIGGER update_sales_targets_updated_at BEFORE UPDATE ON sales_targets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE sales_targets ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Sales targets - users can read targets of stores they can view
+CREATE POLICY sales_targets_read ON sales_targets
+    FOR SELECT
+    TO authenticated
+    USING (user_can_access_store(auth.uid(), store_id, 'view'));
+
+-- RLS Policy: Sales targets - only admins can modify
+CREATE POLICY sales_targets_admin_modify ON sales_targets
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    );
+
+-- ========================================
+-- COMMENTS
+-- ========================================
+
+COMMENT ON TABLE sales_targets IS '店舗・部門・商品カテゴリ別の売上・客数目標（月次／日次）';
+COMMENT ON COLUMN sales_targets.period_type IS 'monthly: 月次目標（target_date は月初日） / daily: 日次目標';
+COMMENT ON COLUMN sales_targets.department IS 'NULL の場合は全部門の目標';
+COMMENT ON COLUMN sales_targets.product_category IS 'NULL の場合は全カテゴリの目標';
+COMMENT ON COLUMN sales_targets.revenue_target IS '税抜売上目標';
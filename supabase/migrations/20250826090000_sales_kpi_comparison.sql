@@ -0,0 +1,92 @@
+-- Sales KPI Comparison for Business Strategy Dashboard
+-- 前期間・前年同期（364日前・曜日合わせ）の KPI 集計
+-- Created: 2025-08-26
+
+-- ========================================
+-- DAILY SALES SUMMARY (APPROVED ONLY)
+-- ========================================
+
+-- 承認ワークフロー導入後もダッシュボードの既定（承認済み・確定のみ）と同じ範囲を集計するよう再作成する。
+-- 部門・カテゴリ別の集計は持たないため、部門・カテゴリで絞り込む場合は sales を直接集計する。
+DROP MATERIALIZED VIEW IF EXISTS mv_daily_sales_summary;
+
+CREATE MATERIALIZED VIEW mv_daily_sales_summary AS
+SELECT
+    date,
+    store_id,
+    ds.name as store_name,
+    ds.area,
+    COUNT(*) as record_count,
+    SUM(revenue_ex_tax) as total_revenue_ex_tax,
+    SUM(footfall) as total_footfall,
+    SUM(transactions) as total_transactions,
+    SUM(discounts) as total_discounts,
+    AVG(revenue_ex_tax) as avg_revenue_ex_tax,
+    CASE
+        WHEN SUM(footfall) > 0 THEN SUM(transactions)::numeric / SUM(footfall)
+        ELSE 0
+    END as conversion_rate
+FROM sales s
+JOIN dim_store ds ON s.store_id = ds.id
+WHERE date >= CURRENT_DATE - INTERVAL '2 years'
+AND s.status IN ('approved', 'locked')
+GROUP BY date, store_id, ds.name, ds.area;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mv_daily_sales_summary_pk
+ON mv_daily_sales_summary (date, store_id);
+
+-- ========================================
+-- KPI SUMMARY FUNCTIONS
+-- ========================================
+
+-- 期間・店舗の KPI 合計（マテリアライズドビューには RLS が効かないため閲覧可能な店舗に限定する）
+CREATE OR REPLACE FUNCTION get_sales_kpi_summary(
+    p_start_date DATE,
+    p_end_date DATE,
+    p_store_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+    total_revenue_ex_tax NUMERIC,
+    total_footfall BIGINT,
+    total_transactions BIGINT,
+    record_count BIGINT,
+    day_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        COALESCE(SUM(s.total_revenue_ex_tax), 0),
+        COALESCE(SUM(s.total_footfall), 0)::BIGINT,
+        COALESCE(SUM(s.total_transactions), 0)::BIGINT,
+        COALESCE(SUM(s.record_count), 0)::BIGINT,
+        COUNT(DISTINCT s.date)
+    FROM mv_daily_sales_summary s
+    WHERE s.date BETWEEN p_start_date AND p_end_date
+    AND (p_store_ids IS NULL OR s.store_id = ANY(p_store_ids))
+    AND user_can_access_store(auth.uid(), s.store_id, 'view');
+$$;
+
+-- 日次サマリーの更新（ETL 実行後に service role で呼び出す。再集計の負荷が大きいため anon・authenticated には許可しない）
+CREATE OR REPLACE FUNCTION refresh_daily_sales_summary()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    REFRESH MATERIALIZED VIEW CONCURRENTLY mv_daily_sales_summary;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_daily_sales_summary() FROM PUBLIC, anon, authenticated;
+
+-- ========================================
+-- COMMENTS
+-- ========================================
+
+COMMENT ON MATERIALIZED VIEW mv_daily_sales_summary IS '店舗・日別の売上サマリー（承認済み・確定のみ、直近2年）';
+COMMENT ON FUNCTION get_sales_kpi_summary(DATE, DATE, UUID[]) IS '期間・店舗の KPI 合計（閲覧可能な店舗のみ）';
+COMMENT ON FUNCTION refresh_daily_sales_summary() IS 'mv_daily_sales_summary の再集計';
@@ -0,0 +1,157 @@
+-- Department / Product Category Master Data for Business Strategy Dashboard
+-- 部門・商品カテゴリのマスター（コード・表示名・並び順・有効フラグ）
+-- Created: 2025-08-27
+
+-- sales.department / sales.product_category にはマスターの code を保存する。
+-- 既存データとの互換性のため外部キーは張らず、使用中のコードは削除ではなく無効化で運用する。
+
+-- ========================================
+-- DEPARTMENT MASTER
+-- ========================================
+
+ALTER TABLE dim_department
+    ADD COLUMN IF NOT EXISTS code TEXT,
+    ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS active BOOLEAN NOT NULL DEFAULT true;
+
+-- 既存の部門は名称をそのままコードとする（これまで sales.department には名称が入っている）
+UPDATE dim_department SET code = name WHERE code IS NULL;
+
+ALTER TABLE dim_department
+    ALTER COLUMN code SET NOT NULL,
+    ADD CONSTRAINT dim_department_code_key UNIQUE (code),
+    ADD CONSTRAINT dim_department_code_format CHECK (code <> '' AND position(',' IN code) = 0);
+
+-- 売上入力で使用している部門
+INSERT INTO dim_department (code, name, sort_order) VALUES
+    ('electronics', '家電', 10),
+    ('clothing', '衣料品', 20),
+    ('food', '食品', 30),
+    ('cosmetics', '化粧品', 40),
+    ('books', '書籍', 50),
+    ('sports', 'スポーツ用品', 60)
+ON CONFLICT DO NOTHING;
+
+-- ========================================
+-- PRODUCT CATEGORY MASTER
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS dim_product_category (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL UNIQUE,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT dim_product_category_code_format CHECK (code <> '' AND position(',' IN code) = 0)
+);
+
+CREATE TRIGGER update_dim_product_category_updated_at BEFORE UPDATE ON dim_product_category
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 売上入力で使用している商品カテゴリ
+INSERT INTO dim_product_category (code, name, sort_order) VALUES
+    ('premium', 'プレミアム', 10),
+    ('standard', 'スタンダード', 20),
+    ('budget', 'バジェット', 30),
+    ('seasonal', 'シーズン商品', 40),
+    ('limited', '限定商品', 50)
+ON CONFLICT DO NOTHING;
+
+-- ========================================
+-- BACKFILL FROM EXISTING SALES
+-- ========================================
+
+-- マスターにない既存の値は、コード＝表示名として登録する
+INSERT INTO dim_department (code, name, sort_order)
+SELECT DISTINCT department, department, 1000
+FROM sales
+WHERE department IS NOT NULL AND department <> ''
+    AND position(',' IN department) = 0
+    AND department NOT IN (SELECT code FROM dim_department)
+ON CONFLICT DO NOTHING;
+
+INSERT INTO dim_product_category (code, name, sort_order)
+SELECT DISTINCT product_category, product_category, 1000
+FROM sales
+WHERE product_category IS NOT NULL AND product_category <> ''
+    AND position(',' IN product_category) = 0
+    AND product_category NOT IN (SELECT code FROM dim_product_category)
+ON CONFLICT DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_dim_department_active_sort
+    ON dim_department(active, sort_order, code);
+
+CREATE INDEX IF NOT EXISTS idx_dim_product_category_active_sort
+    ON dim_product_category(active, sort_order, code);
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE dim_department ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dim_product_category ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Master data - readable without a session (server-side master data cache)
+CREATE POLICY dim_department_read ON dim_department
+    FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+CREATE POLICY dim_product_category_read ON dim_product_category
+    FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+-- RLS Policy: Master data - only admins can modify
+CREATE POLICY dim_department_admin_modify ON dim_department
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    );
+
+CREATE POLICY dim_product_category_admin_modify ON dim_product_category
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    );
+
+-- ========================================
+-- COMMENTS
+-- ========================================
+
+COMMENT ON COLUMN dim_department.code IS '部門コード（sales.department に保存する値）';
+COMMENT ON COLUMN dim_department.sort_order IS '表示順（昇順）';
+COMMENT ON COLUMN dim_department.active IS '無効化した部門は入力・絞り込みの選択肢に表示しない';
+COMMENT ON TABLE dim_product_category IS 'Product category master table';
+COMMENT ON COLUMN dim_product_category.code IS '商品カテゴリコード（sales.product_category に保存する値）';
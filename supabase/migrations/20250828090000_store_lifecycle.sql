@@ -0,0 +1,124 @@
+-- Store Lifecycle Master for Business Strategy Dashboard
+-- 店舗マスターの開店日・閉店日・改装/休業期間・売場面積・店舗タイプ
+-- Created: 2025-08-28
+
+-- 既存店（like-for-like）比較では、比較期間を通して営業していた店舗のみを集計対象とする。
+-- 開店日が未登録の店舗は既存店として扱う（従来どおり集計される）。
+
+-- ========================================
+-- STORE MASTER
+-- ========================================
+
+ALTER TABLE dim_store
+    ADD COLUMN IF NOT EXISTS opened_on DATE,
+    ADD COLUMN IF NOT EXISTS closed_on DATE,
+    ADD COLUMN IF NOT EXISTS floor_area_sqm NUMERIC(10,2),
+    ADD COLUMN IF NOT EXISTS store_type TEXT;
+
+ALTER TABLE dim_store
+    ADD CONSTRAINT dim_store_lifecycle_dates CHECK (closed_on IS NULL OR opened_on IS NULL OR closed_on >= opened_on),
+    ADD CONSTRAINT dim_store_floor_area_positive CHECK (floor_area_sqm IS NULL OR floor_area_sqm > 0),
+    ADD CONSTRAINT dim_store_store_type_check CHECK (
+        store_type IS NULL OR store_type IN ('flagship', 'standard', 'outlet', 'popup')
+    );
+
+CREATE INDEX IF NOT EXISTS idx_dim_store_lifecycle
+    ON dim_store(opened_on, closed_on);
+
+-- ========================================
+-- STORE CLOSURE PERIODS
+-- ========================================
+
+-- 改装・一時休業などで営業していなかった期間（開始日・終了日を含む）
+CREATE TABLE IF NOT EXISTS store_closure_periods (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    store_id UUID NOT NULL REFERENCES dim_store(id) ON DELETE CASCADE,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    reason TEXT NOT NULL DEFAULT 'renovation',
+    note TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT store_closure_periods_date_range CHECK (end_date >= start_date),
+    CONSTRAINT store_closure_periods_reason_check CHECK (
+        reason IN ('renovation', 'temporary_closure', 'other')
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_closure_periods_store_dates
+    ON store_closure_periods(store_id, start_date, end_date);
+
+CREATE TRIGGER update_store_closure_periods_updated_at BEFORE UPDATE ON store_closure_periods
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE dim_store ENABLE ROW LEVEL SECURITY;
+ALTER TABLE store_closure_periods ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Store master - readable without a session (server-side master data cache)
+CREATE POLICY dim_store_read ON dim_store
+    FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+CREATE POLICY store_closure_periods_read ON store_closure_periods
+    FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+-- RLS Policy: Store master - only admins can modify
+CREATE POLICY dim_store_admin_modify ON dim_store
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    );
+
+CREATE POLICY store_closure_periods_admin_modify ON store_closure_periods
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    );
+
+-- ========================================
+-- COMMENTS
+-- ========================================
+
+COMMENT ON COLUMN dim_store.opened_on IS '開店日（未登録の場合は既存店として扱う）';
+COMMENT ON COLUMN dim_store.closed_on IS '閉店日（この日以降は営業していない）';
+COMMENT ON COLUMN dim_store.floor_area_sqm IS '売場面積（㎡）';
+COMMENT ON COLUMN dim_store.store_type IS '店舗タイプ: flagship / standard / outlet / popup';
+COMMENT ON TABLE store_closure_periods IS '改装・一時休業期間（既存店比較の判定に使用）';
+COMMENT ON COLUMN store_closure_periods.reason IS 'renovation: 改装 / temporary_closure: 一時休業 / other: その他';
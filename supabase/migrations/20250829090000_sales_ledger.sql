@@ -0,0 +1,59 @@
+-- Sales Ledger for Business Strategy Dashboard
+-- 売上台帳（/sales の一覧）の絞り込み条件ごとの合計と行ごとの変更履歴
+-- Created: 2025-08-29
+
+-- ========================================
+-- LEDGER TOTALS
+-- ========================================
+
+-- 絞り込み条件に一致する全行の合計（ページングに関係なく集計する）
+-- SECURITY INVOKER のため sales の RLS がそのまま適用され、閲覧できない店舗は含まれない
+CREATE OR REPLACE FUNCTION get_sales_ledger_totals(
+    p_store_id UUID DEFAULT NULL,
+    p_department TEXT DEFAULT NULL,
+    p_product_category TEXT DEFAULT NULL,
+    p_status TEXT DEFAULT NULL,
+    p_start_date DATE DEFAULT NULL,
+    p_end_date DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    revenue_ex_tax NUMERIC,
+    tax NUMERIC,
+    footfall BIGINT,
+    transactions BIGINT,
+    discounts NUMERIC,
+    record_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT
+        COALESCE(SUM(s.revenue_ex_tax), 0),
+        COALESCE(SUM(s.tax), 0),
+        COALESCE(SUM(s.footfall), 0)::BIGINT,
+        COALESCE(SUM(s.transactions), 0)::BIGINT,
+        COALESCE(SUM(s.discounts), 0),
+        COUNT(*)
+    FROM sales s
+    WHERE (p_store_id IS NULL OR s.store_id = p_store_id)
+    AND (p_department IS NULL OR s.department = p_department)
+    AND (p_product_category IS NULL OR s.product_category = p_product_category)
+    AND (p_status IS NULL OR s.status = p_status)
+    AND (p_start_date IS NULL OR s.date >= p_start_date)
+    AND (p_end_date IS NULL OR s.date <= p_end_date);
+$$;
+
+-- ========================================
+-- ROW HISTORY
+-- ========================================
+
+-- 行ごとの変更履歴（target = 'sales:<id>'）の取得用
+CREATE INDEX IF NOT EXISTS idx_audit_log_target_at ON audit_log(target, at);
+
+-- ========================================
+-- COMMENTS
+-- ========================================
+
+COMMENT ON FUNCTION get_sales_ledger_totals(UUID, TEXT, TEXT, TEXT, DATE, DATE) IS '売上台帳の絞り込み条件に一致する行の合計（RLS 適用）';
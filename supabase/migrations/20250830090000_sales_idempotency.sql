@@ -0,0 +1,142 @@
+-- Idempotent Sales Submission for Business Strategy Dashboard
+-- Idempotency-Key による再送時の応答再現と、売上登録・監査ログの同一トランザクション化
+-- Created: 2025-08-30
+
+-- ========================================
+-- IDEMPOTENCY KEYS
+-- ========================================
+
+-- 成功した応答のみ保存する（検証エラー等は再送時に再評価する）
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    endpoint TEXT NOT NULL,
+    key TEXT NOT NULL,
+    request_hash TEXT NOT NULL,
+    status_code INTEGER NOT NULL,
+    response JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '24 hours',
+
+    PRIMARY KEY (user_id, endpoint, key),
+    CONSTRAINT idempotency_keys_key_length CHECK (char_length(key) BETWEEN 1 AND 255)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- 参照は自分のキーのみ。登録は create_sales_with_audit 経由のみ
+CREATE POLICY idempotency_keys_owner_read ON idempotency_keys
+    FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid());
+
+-- ========================================
+-- ATOMIC SALES INSERT WITH AUDIT LOG
+-- ========================================
+
+-- p_sales: 売上の入力値（tax / tax_rate は API 側で計算済み）
+-- p_audit: { "ip": text, "ua": text, "meta": jsonb }
+-- SECURITY DEFINER のため、sales の RLS（WITH CHECK）と同じ条件を user_can_access_store で確認する。
+-- キーを先に登録するので、同じキーの同時送信は後着側が unique_violation になる。
+CREATE OR REPLACE FUNCTION create_sales_with_audit(
+    p_sales JSONB,
+    p_audit JSONB,
+    p_idempotency_key TEXT DEFAULT NULL,
+    p_request_hash TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    actor UUID := auth.uid();
+    input sales;
+    new_sales sales;
+    audit_ip INET;
+BEGIN
+    IF actor IS NULL THEN
+        RAISE EXCEPTION 'Authentication required'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    input := jsonb_populate_record(NULL::sales, p_sales);
+
+    IF NOT user_can_access_store(actor, input.store_id, 'edit') THEN
+        RAISE EXCEPTION 'No edit permission for store %', input.store_id
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_idempotency_key IS NOT NULL THEN
+        DELETE FROM idempotency_keys
+        WHERE user_id = actor
+        AND endpoint = 'POST /api/sales'
+        AND key = p_idempotency_key
+        AND expires_at <= NOW();
+
+        INSERT INTO idempotency_keys (user_id, endpoint, key, request_hash, status_code, response)
+        VALUES (actor, 'POST /api/sales', p_idempotency_key, p_request_hash, 201, '{}'::JSONB);
+    END IF;
+
+    INSERT INTO sales (
+        date, store_id, department, product_category,
+        revenue_ex_tax, footfall, transactions, discounts,
+        tax, tax_rate, notes, created_by
+    )
+    VALUES (
+        input.date, input.store_id, input.department, input.product_category,
+        input.revenue_ex_tax, input.footfall, input.transactions, COALESCE(input.discounts, 0),
+        input.tax, input.tax_rate, input.notes, actor
+    )
+    RETURNING * INTO new_sales;
+
+    -- x-forwarded-for は複数の IP を含む場合や 'unknown' の場合があるため、先頭のみ INET として記録する
+    BEGIN
+        audit_ip := NULLIF(TRIM(split_part(p_audit->>'ip', ',', 1)), '')::INET;
+    EXCEPTION WHEN invalid_text_representation THEN
+        audit_ip := NULL;
+    END;
+
+    INSERT INTO audit_log (actor_id, action, target, ip, ua, meta)
+    VALUES (
+        actor,
+        'input_sales',
+        'sales:' || new_sales.id,
+        audit_ip,
+        p_audit->>'ua',
+        COALESCE(p_audit->'meta', '{}'::JSONB) || jsonb_build_object('sales_id', new_sales.id)
+    );
+
+    IF p_idempotency_key IS NOT NULL THEN
+        UPDATE idempotency_keys
+        SET response = to_jsonb(new_sales)
+        WHERE user_id = actor
+        AND endpoint = 'POST /api/sales'
+        AND key = p_idempotency_key;
+    END IF;
+
+    RETURN to_jsonb(new_sales);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_sales_with_audit(JSONB, JSONB, TEXT, TEXT) FROM PUBLIC, anon;
+
+-- 期限切れキーの削除（定期実行の /api/sales/idempotency-keys/purge から service role で呼び出す）
+CREATE OR REPLACE FUNCTION purge_expired_idempotency_keys()
+RETURNS INTEGER AS $$
+DECLARE
+    deleted_count INTEGER;
+BEGIN
+    DELETE FROM idempotency_keys WHERE expires_at <= NOW();
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION purge_expired_idempotency_keys() FROM PUBLIC, anon, authenticated;
+
+-- ========================================
+-- COMMENTS
+-- ========================================
+
+COMMENT ON TABLE idempotency_keys IS 'Idempotency-Key ごとの成功応答（24時間保持）';
+COMMENT ON COLUMN idempotency_keys.request_hash IS 'リクエストボディの SHA-256（同じキーで別内容の送信を検出する）';
+COMMENT ON FUNCTION create_sales_with_audit(JSONB, JSONB, TEXT, TEXT) IS '売上登録と監査ログ・Idempotency-Key の記録を同一トランザクションで行う';
+COMMENT ON FUNCTION purge_expired_idempotency_keys() IS '期限切れの Idempotency-Key を削除（service role のみ）';
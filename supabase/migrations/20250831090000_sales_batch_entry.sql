@@ -0,0 +1,139 @@
+-- Sales Batch Entry for Business Strategy Dashboard
+-- グリッド入力（部門×カテゴリ × 日付）の一括保存
+-- Created: 2025-08-31
+
+-- ========================================
+-- AUDIT HELPERS
+-- ========================================
+
+-- x-forwarded-for は複数の IP を含む場合や 'unknown' の場合があるため、先頭のみ INET として扱う
+CREATE OR REPLACE FUNCTION audit_ip_from_text(p_ip TEXT)
+RETURNS INET AS $$
+BEGIN
+    RETURN NULLIF(TRIM(split_part(p_ip, ',', 1)), '')::INET;
+EXCEPTION WHEN invalid_text_representation THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ========================================
+-- BATCH SAVE
+-- ========================================
+
+-- p_inserts: [{ "date", "department", "product_category", "revenue_ex_tax", "tax", "tax_rate" }, ...]
+-- p_updates: [{ "id", "updated_at", "revenue_ex_tax", "tax", "tax_rate" }, ...]
+-- p_audit:   { "ip": text, "ua": text }
+-- すべてのセルを同一トランザクションで保存し、1件でも失敗した場合は全体を取り消す。
+-- 更新は updated_at が読み込み時点と一致する場合のみ行い、一致しなければ serialization_failure とする。
+CREATE OR REPLACE FUNCTION save_sales_batch(
+    p_store_id UUID,
+    p_inserts JSONB,
+    p_updates JSONB,
+    p_audit JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+    actor UUID := auth.uid();
+    audit_ip INET := audit_ip_from_text(p_audit->>'ip');
+    item JSONB;
+    before_row sales;
+    after_row sales;
+    inserted_count INTEGER := 0;
+    updated_count INTEGER := 0;
+BEGIN
+    IF actor IS NULL THEN
+        RAISE EXCEPTION 'Authentication required'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NOT user_can_access_store(actor, p_store_id, 'edit') THEN
+        RAISE EXCEPTION 'No edit permission for store %', p_store_id
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    FOR item IN SELECT value FROM jsonb_array_elements(COALESCE(p_updates, '[]'::JSONB)) LOOP
+        SELECT * INTO before_row
+        FROM sales
+        WHERE id = (item->>'id')::UUID
+        AND store_id = p_store_id
+        FOR UPDATE;
+
+        IF NOT FOUND OR before_row.updated_at IS DISTINCT FROM (item->>'updated_at')::TIMESTAMPTZ THEN
+            RAISE EXCEPTION 'Sales row % was changed by another user', item->>'id'
+                USING ERRCODE = 'serialization_failure';
+        END IF;
+
+        UPDATE sales
+        SET revenue_ex_tax = (item->>'revenue_ex_tax')::NUMERIC,
+            tax = (item->>'tax')::NUMERIC,
+            tax_rate = (item->>'tax_rate')::NUMERIC
+        WHERE id = before_row.id
+        RETURNING * INTO after_row;
+
+        INSERT INTO audit_log (actor_id, action, target, ip, ua, meta)
+        VALUES (
+            actor,
+            'edit_sales',
+            'sales:' || after_row.id,
+            audit_ip,
+            p_audit->>'ua',
+            jsonb_build_object(
+                'source', 'grid',
+                'before', jsonb_build_object('revenue_ex_tax', before_row.revenue_ex_tax, 'tax', before_row.tax, 'tax_rate', before_row.tax_rate),
+                'after', jsonb_build_object('revenue_ex_tax', after_row.revenue_ex_tax, 'tax', after_row.tax, 'tax_rate', after_row.tax_rate)
+            )
+        );
+
+        updated_count := updated_count + 1;
+    END LOOP;
+
+    FOR item IN SELECT value FROM jsonb_array_elements(COALESCE(p_inserts, '[]'::JSONB)) LOOP
+        INSERT INTO sales (
+            date, store_id, department, product_category,
+            revenue_ex_tax, tax, tax_rate, created_by
+        )
+        VALUES (
+            (item->>'date')::DATE,
+            p_store_id,
+            item->>'department',
+            item->>'product_category',
+            (item->>'revenue_ex_tax')::NUMERIC,
+            (item->>'tax')::NUMERIC,
+            (item->>'tax_rate')::NUMERIC,
+            actor
+        )
+        RETURNING * INTO after_row;
+
+        INSERT INTO audit_log (actor_id, action, target, ip, ua, meta)
+        VALUES (
+            actor,
+            'input_sales',
+            'sales:' || after_row.id,
+            audit_ip,
+            p_audit->>'ua',
+            jsonb_build_object(
+                'source', 'grid',
+                'sales_id', after_row.id,
+                'store_id', p_store_id,
+                'date', after_row.date,
+                'revenue_ex_tax', after_row.revenue_ex_tax,
+                'department', after_row.department,
+                'product_category', after_row.product_category
+            )
+        );
+
+        inserted_count := inserted_count + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object('inserted', inserted_count, 'updated', updated_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION save_sales_batch(UUID, JSONB, JSONB, JSONB) FROM PUBLIC, anon;
+
+-- ========================================
+-- COMMENTS
+-- ========================================
+
+COMMENT ON FUNCTION audit_ip_from_text(TEXT) IS 'x-forwarded-for 等のヘッダー値を audit_log.ip 用の INET に変換（不正な値は NULL）';
+COMMENT ON FUNCTION save_sales_batch(UUID, JSONB, JSONB, JSONB) IS 'グリッド入力の一括保存（登録・修正と監査ログを同一トランザクションで行う）';
@@ -0,0 +1,110 @@
+-- Accounting Period Close for Business Strategy Dashboard
+-- 経理の月次締め（店舗別・全店）と締め済み期間の売上データの変更禁止
+-- Created: 2025-09-01
+
+-- 締め済みの月（店舗別、または store_id が NULL の場合は全店）の売上データは、
+-- 登録・修正・削除・ステータス変更のいずれも受け付けない。
+-- 消費税の再計算（recalculate_sales_tax）も対象となるため、必要な場合は締めを解除してから行う。
+
+-- ========================================
+-- ACCOUNTING PERIOD CLOSES
+-- ========================================
+
+-- 行が存在する間は締め済み。締めの解除（再オープン）は行の削除で行い、履歴は audit_log に残る
+CREATE TABLE IF NOT EXISTS accounting_period_closes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    period DATE NOT NULL,
+    store_id UUID REFERENCES dim_store(id) ON DELETE CASCADE,
+    note TEXT,
+    closed_by UUID REFERENCES auth.users(id),
+    closed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT accounting_period_closes_month_start CHECK (period = date_trunc('month', period)::DATE)
+);
+
+-- 同じ月・同じ店舗（全店を含む）の締めは1件のみ
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounting_period_closes_unique
+    ON accounting_period_closes(period, COALESCE(store_id, '00000000-0000-0000-0000-000000000000'::UUID));
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE accounting_period_closes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Period closes - all authenticated users can read
+CREATE POLICY accounting_period_closes_read ON accounting_period_closes
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- RLS Policy: Period closes - only admins can close or reopen
+CREATE POLICY accounting_period_closes_admin_modify ON accounting_period_closes
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    );
+
+-- ========================================
+-- EDIT LOCK ON SALES
+-- ========================================
+
+CREATE OR REPLACE FUNCTION is_sales_period_closed(p_store_id UUID, p_date DATE)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM accounting_period_closes
+        WHERE period = date_trunc('month', p_date)::DATE
+        AND (store_id IS NULL OR store_id = p_store_id)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- SQLSTATE 'AP001' (period closed) is mapped to the PERIOD_CLOSED error code by the API.
+-- Both the old row (update / delete) and the new row (insert / update) are checked so
+-- that rows can be neither moved out of nor into a closed month.
+CREATE OR REPLACE FUNCTION prevent_closed_period_sales_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') AND is_sales_period_closed(OLD.store_id, OLD.date) THEN
+        RAISE EXCEPTION 'Accounting period % is closed (store_id=%)', to_char(OLD.date, 'YYYY-MM'), OLD.store_id
+            USING ERRCODE = 'AP001';
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') AND is_sales_period_closed(NEW.store_id, NEW.date) THEN
+        RAISE EXCEPTION 'Accounting period % is closed (store_id=%)', to_char(NEW.date, 'YYYY-MM'), NEW.store_id
+            USING ERRCODE = 'AP001';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_closed_period_sales_modification
+    BEFORE INSERT OR UPDATE OR DELETE ON sales
+    FOR EACH ROW EXECUTE FUNCTION prevent_closed_period_sales_modification();
+
+-- ========================================
+-- COMMENTS
+-- ========================================
+
+COMMENT ON TABLE accounting_period_closes IS '経理の月次締め（行が存在する月は締め済み）';
+COMMENT ON COLUMN accounting_period_closes.period IS '締め対象の月（月初日）';
+COMMENT ON COLUMN accounting_period_closes.store_id IS '対象店舗（NULL の場合は全店）';
+COMMENT ON FUNCTION is_sales_period_closed(UUID, DATE) IS '店舗・日付の月が締め済みか（全店の締めを含む）';
+COMMENT ON FUNCTION prevent_closed_period_sales_modification() IS '締め済み期間の売上データの登録・修正・削除を拒否（SQLSTATE AP001）';
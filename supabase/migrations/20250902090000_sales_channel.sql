@@ -0,0 +1,272 @@
+-- Sales Channel for Business Strategy Dashboard
+-- 売上データの販売チャネル（店頭・EC・外商）
+-- Created: 2025-09-02
+
+-- これまで EC の売上は notes に記載していたが、チャネル別に集計できるよう列として持つ。
+-- 既存の行はすべて店頭（store）とする。
+
+-- ========================================
+-- SALES CHANNEL
+-- ========================================
+
+ALTER TABLE sales
+    ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'store';
+
+ALTER TABLE sales
+    ADD CONSTRAINT sales_channel_check CHECK (channel IN ('store', 'ec', 'corporate'));
+
+-- 同じ日・店舗・部門・カテゴリでもチャネルが異なれば別の行とする
+ALTER TABLE sales DROP CONSTRAINT IF EXISTS sales_unique_store_date;
+ALTER TABLE sales
+    ADD CONSTRAINT sales_unique_store_date UNIQUE (store_id, date, department, product_category, channel);
+
+CREATE INDEX IF NOT EXISTS idx_sales_channel_date ON sales(channel, date);
+
+-- ========================================
+-- READ-ONLY ENFORCEMENT
+-- ========================================
+
+-- 20250824090000_tax_rules.sql の定義に channel を追加（承認済み・確定の行はチャネルも変更不可）
+CREATE OR REPLACE FUNCTION prevent_approved_sales_modification()
+RETURNS TRIGGER AS $$
+DECLARE
+    tax_recalculation BOOLEAN := COALESCE(current_setting('app.tax_recalculation', true), '') = 'on';
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF OLD.status IN ('approved', 'locked') THEN
+            RAISE EXCEPTION 'Approved sales data cannot be deleted (id=%)', OLD.id
+                USING ERRCODE = 'check_violation';
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF OLD.status = 'locked' AND NEW.status = 'locked' AND NOT tax_recalculation THEN
+        RAISE EXCEPTION 'Locked sales data cannot be modified (id=%)', OLD.id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF OLD.status IN ('approved', 'locked') AND (
+        NEW.date IS DISTINCT FROM OLD.date OR
+        NEW.store_id IS DISTINCT FROM OLD.store_id OR
+        NEW.department IS DISTINCT FROM OLD.department OR
+        NEW.product_category IS DISTINCT FROM OLD.product_category OR
+        NEW.channel IS DISTINCT FROM OLD.channel OR
+        NEW.revenue_ex_tax IS DISTINCT FROM OLD.revenue_ex_tax OR
+        NEW.footfall IS DISTINCT FROM OLD.footfall OR
+        NEW.transactions IS DISTINCT FROM OLD.transactions OR
+        NEW.discounts IS DISTINCT FROM OLD.discounts OR
+        NEW.notes IS DISTINCT FROM OLD.notes OR
+        (NOT tax_recalculation AND (
+            NEW.tax IS DISTINCT FROM OLD.tax OR
+            NEW.tax_rate IS DISTINCT FROM OLD.tax_rate
+        ))
+    ) THEN
+        RAISE EXCEPTION 'Approved sales data is read-only (id=%)', OLD.id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ========================================
+-- ATOMIC SALES INSERT WITH AUDIT LOG
+-- ========================================
+
+-- 20250830090000_sales_idempotency.sql の定義に channel を追加（省略時は店頭）
+CREATE OR REPLACE FUNCTION create_sales_with_audit(
+    p_sales JSONB,
+    p_audit JSONB,
+    p_idempotency_key TEXT DEFAULT NULL,
+    p_request_hash TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    actor UUID := auth.uid();
+    input sales;
+    new_sales sales;
+    audit_ip INET;
+BEGIN
+    IF actor IS NULL THEN
+        RAISE EXCEPTION 'Authentication required'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    input := jsonb_populate_record(NULL::sales, p_sales);
+
+    IF NOT user_can_access_store(actor, input.store_id, 'edit') THEN
+        RAISE EXCEPTION 'No edit permission for store %', input.store_id
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_idempotency_key IS NOT NULL THEN
+        DELETE FROM idempotency_keys
+        WHERE user_id = actor
+        AND endpoint = 'POST /api/sales'
+        AND key = p_idempotency_key
+        AND expires_at <= NOW();
+
+        INSERT INTO idempotency_keys (user_id, endpoint, key, request_hash, status_code, response)
+        VALUES (actor, 'POST /api/sales', p_idempotency_key, p_request_hash, 201, '{}'::JSONB);
+    END IF;
+
+    INSERT INTO sales (
+        date, store_id, department, product_category, channel,
+        revenue_ex_tax, footfall, transactions, discounts,
+        tax, tax_rate, notes, created_by
+    )
+    VALUES (
+        input.date, input.store_id, input.department, input.product_category, COALESCE(input.channel, 'store'),
+        input.revenue_ex_tax, input.footfall, input.transactions, COALESCE(input.discounts, 0),
+        input.tax, input.tax_rate, input.notes, actor
+    )
+    RETURNING * INTO new_sales;
+
+    audit_ip := audit_ip_from_text(p_audit->>'ip');
+
+    INSERT INTO audit_log (actor_id, action, target, ip, ua, meta)
+    VALUES (
+        actor,
+        'input_sales',
+        'sales:' || new_sales.id,
+        audit_ip,
+        p_audit->>'ua',
+        COALESCE(p_audit->'meta', '{}'::JSONB) || jsonb_build_object('sales_id', new_sales.id)
+    );
+
+    IF p_idempotency_key IS NOT NULL THEN
+        UPDATE idempotency_keys
+        SET response = to_jsonb(new_sales)
+        WHERE user_id = actor
+        AND endpoint = 'POST /api/sales'
+        AND key = p_idempotency_key;
+    END IF;
+
+    RETURN to_jsonb(new_sales);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ========================================
+-- BATCH SAVE
+-- ========================================
+
+-- 20250831090000_sales_batch_entry.sql の定義に p_channel を追加（グリッドは1チャネルずつ入力する）
+-- 引数が変わるため、旧シグネチャは削除する
+DROP FUNCTION IF EXISTS save_sales_batch(UUID, JSONB, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION save_sales_batch(
+    p_store_id UUID,
+    p_inserts JSONB,
+    p_updates JSONB,
+    p_audit JSONB,
+    p_channel TEXT DEFAULT 'store'
+)
+RETURNS JSONB AS $$
+DECLARE
+    actor UUID := auth.uid();
+    audit_ip INET := audit_ip_from_text(p_audit->>'ip');
+    item JSONB;
+    before_row sales;
+    after_row sales;
+    inserted_count INTEGER := 0;
+    updated_count INTEGER := 0;
+BEGIN
+    IF actor IS NULL THEN
+        RAISE EXCEPTION 'Authentication required'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NOT user_can_access_store(actor, p_store_id, 'edit') THEN
+        RAISE EXCEPTION 'No edit permission for store %', p_store_id
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    FOR item IN SELECT value FROM jsonb_array_elements(COALESCE(p_updates, '[]'::JSONB)) LOOP
+        SELECT * INTO before_row
+        FROM sales
+        WHERE id = (item->>'id')::UUID
+        AND store_id = p_store_id
+        AND channel = p_channel
+        FOR UPDATE;
+
+        IF NOT FOUND OR before_row.updated_at IS DISTINCT FROM (item->>'updated_at')::TIMESTAMPTZ THEN
+            RAISE EXCEPTION 'Sales row % was changed by another user', item->>'id'
+                USING ERRCODE = 'serialization_failure';
+        END IF;
+
+        UPDATE sales
+        SET revenue_ex_tax = (item->>'revenue_ex_tax')::NUMERIC,
+            tax = (item->>'tax')::NUMERIC,
+            tax_rate = (item->>'tax_rate')::NUMERIC
+        WHERE id = before_row.id
+        RETURNING * INTO after_row;
+
+        INSERT INTO audit_log (actor_id, action, target, ip, ua, meta)
+        VALUES (
+            actor,
+            'edit_sales',
+            'sales:' || after_row.id,
+            audit_ip,
+            p_audit->>'ua',
+            jsonb_build_object(
+                'source', 'grid',
+                'before', jsonb_build_object('revenue_ex_tax', before_row.revenue_ex_tax, 'tax', before_row.tax, 'tax_rate', before_row.tax_rate),
+                'after', jsonb_build_object('revenue_ex_tax', after_row.revenue_ex_tax, 'tax', after_row.tax, 'tax_rate', after_row.tax_rate)
+            )
+        );
+
+        updated_count := updated_count + 1;
+    END LOOP;
+
+    FOR item IN SELECT value FROM jsonb_array_elements(COALESCE(p_inserts, '[]'::JSONB)) LOOP
+        INSERT INTO sales (
+            date, store_id, department, product_category, channel,
+            revenue_ex_tax, tax, tax_rate, created_by
+        )
+        VALUES (
+            (item->>'date')::DATE,
+            p_store_id,
+            item->>'department',
+            item->>'product_category',
+            p_channel,
+            (item->>'revenue_ex_tax')::NUMERIC,
+            (item->>'tax')::NUMERIC,
+            (item->>'tax_rate')::NUMERIC,
+            actor
+        )
+        RETURNING * INTO after_row;
+
+        INSERT INTO audit_log (actor_id, action, target, ip, ua, meta)
+        VALUES (
+            actor,
+            'input_sales',
+            'sales:' || after_row.id,
+            audit_ip,
+            p_audit->>'ua',
+            jsonb_build_object(
+                'source', 'grid',
+                'sales_id', after_row.id,
+                'store_id', p_store_id,
+                'date', after_row.date,
+                'revenue_ex_tax', after_row.revenue_ex_tax,
+                'department', after_row.department,
+                'product_category', after_row.product_category,
+                'channel', after_row.channel
+            )
+        );
+
+        inserted_count := inserted_count + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object('inserted', inserted_count, 'updated', updated_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION save_sales_batch(UUID, JSONB, JSONB, JSONB, TEXT) FROM PUBLIC, anon;
+
+-- ========================================
+-- COMMENTS
+-- ========================================
+
+COMMENT ON COLUMN sales.channel IS '販売チャネル（store: 店頭, ec: EC, corporate: 外商）';
+COMMENT ON FUNCTION save_sales_batch(UUID, JSONB, JSONB, JSONB, TEXT) IS 'グリッド入力の一括保存（登録・修正と監査ログを同一トランザクションで行う、1チャネルずつ）';
@@ -0,0 +1,61 @@
+-- Labor Hours for Business Strategy Dashboard
+-- 店舗・部門別の日次人時（従業員の総労働時間）と人時生産性
+-- Created: 2025-09-03
+
+-- 人時売上（税抜売上 ÷ 人時）・人時取引数（取引数 ÷ 人時）の算出に使う。
+-- department が NULL の行は部門に割り当てない人時（店長・レジ応援など）を表し、
+-- 部門で絞り込まない場合のみ集計に含める。
+
+-- ========================================
+-- LABOR HOURS TABLE
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS labor_hours (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    date DATE NOT NULL,
+    store_id UUID NOT NULL REFERENCES dim_store(id) ON DELETE CASCADE,
+    department TEXT,
+    hours NUMERIC(8,2) NOT NULL,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    updated_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT labor_hours_range CHECK (hours >= 0 AND hours <= 10000),
+    -- 売上入力・CSV 取込みの upsert キー（NULL の部門も同一視する）
+    CONSTRAINT labor_hours_scope_key UNIQUE NULLS NOT DISTINCT (date, store_id, department)
+);
+
+CREATE INDEX IF NOT EXISTS idx_labor_hours_store_date
+    ON labor_hours(store_id, date);
+
+CREATE TRIGGER update_labor_hours_updated_at BEFORE UPDATE ON labor_hours
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE labor_hours ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Labor hours - users can read labor hours of stores they can view
+CREATE POLICY labor_hours_read ON labor_hours
+    FOR SELECT
+    TO authenticated
+    USING (user_can_access_store(auth.uid(), store_id, 'view'));
+
+-- RLS Policy: Labor hours - users who can enter sales for the store can modify
+CREATE POLICY labor_hours_store_modify ON labor_hours
+    FOR ALL
+    TO authenticated
+    USING (user_can_access_store(auth.uid(), store_id, 'edit'))
+    WITH CHECK (user_can_access_store(auth.uid(), store_id, 'edit'));
+
+-- ========================================
+-- COMMENTS
+-- ========================================
+
+COMMENT ON TABLE labor_hours IS '店舗・部門別の日次人時（人時売上・人時取引数の分母）';
+COMMENT ON COLUMN labor_hours.department IS 'NULL の場合は部門に割り当てない人時';
+COMMENT ON COLUMN labor_hours.hours IS '従業員の総労働時間（時間、小数2桁まで）';
@@ -0,0 +1,82 @@
+-- Campaign Calendar for Business Strategy Dashboard
+-- 販促キャンペーン（ポイントアップデー・季節セールなど）の期間・対象と効果測定
+-- Created: 2025-09-04
+
+-- store_ids / departments が空配列の場合は全店・全部門が対象。
+-- キャンペーン日は相関分析で要因として扱うか、除外して分析できる。
+
+-- ========================================
+-- CAMPAIGNS TABLE
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS campaigns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    campaign_type TEXT NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    store_ids UUID[] NOT NULL DEFAULT '{}',
+    departments TEXT[] NOT NULL DEFAULT '{}',
+    discount_rate NUMERIC(5,2),
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    updated_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT campaigns_type CHECK (campaign_type IN ('point_up', 'seasonal_sale', 'clearance', 'other')),
+    CONSTRAINT campaigns_period CHECK (end_date >= start_date),
+    CONSTRAINT campaigns_discount_rate CHECK (discount_rate IS NULL OR (discount_rate >= 0 AND discount_rate <= 100))
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_period
+    ON campaigns(start_date, end_date);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_store_ids
+    ON campaigns USING GIN (store_ids);
+
+CREATE TRIGGER update_campaigns_updated_at BEFORE UPDATE ON campaigns
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Campaigns - all authenticated users can read (used by analytics)
+CREATE POLICY campaigns_read ON campaigns
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- RLS Policy: Campaigns - only admins can modify
+CREATE POLICY campaigns_admin_modify ON campaigns
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    );
+
+-- ========================================
+-- COMMENTS
+-- ========================================
+
+COMMENT ON TABLE campaigns IS '販促キャンペーンの期間・対象店舗・対象部門';
+COMMENT ON COLUMN campaigns.campaign_type IS 'point_up: ポイントアップ / seasonal_sale: 季節セール / clearance: 在庫処分 / other: その他';
+COMMENT ON COLUMN campaigns.store_ids IS '空配列の場合は全店が対象';
+COMMENT ON COLUMN campaigns.departments IS '空配列の場合は全部門が対象';
+COMMENT ON COLUMN campaigns.discount_rate IS '割引率・ポイント還元率（%）';
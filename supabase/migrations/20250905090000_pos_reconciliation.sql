@@ -0,0 +1,176 @@
+-- POS Reconciliation for Business Strategy Dashboard
+-- POS の日次締め（Zレポート）の合計と、手入力された売上（店舗チャネル）の突合
+-- Created: 2025-09-05
+
+-- POS の値は店舗・日単位で1件。突合は表示のたびに売上の最新値と比較するため、
+-- ここには POS の値と差異の解消状況（POS の値を採用 / 理由を記録）だけを保持する。
+
+-- ========================================
+-- POS RECONCILIATIONS TABLE
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS pos_reconciliations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    date DATE NOT NULL,
+    store_id UUID NOT NULL REFERENCES dim_store(id) ON DELETE CASCADE,
+    pos_revenue_ex_tax NUMERIC(12,2) NOT NULL,
+    pos_transactions INTEGER,
+    source_file TEXT,
+    status TEXT NOT NULL DEFAULT 'open',
+    resolution_note TEXT,
+    resolved_by UUID REFERENCES auth.users(id),
+    resolved_at TIMESTAMPTZ,
+    uploaded_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT pos_reconciliations_status CHECK (status IN ('open', 'accepted', 'annotated')),
+    CONSTRAINT pos_reconciliations_amounts CHECK (pos_revenue_ex_tax >= 0 AND (pos_transactions IS NULL OR pos_transactions >= 0)),
+    CONSTRAINT pos_reconciliations_scope_key UNIQUE (date, store_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pos_reconciliations_status_date
+    ON pos_reconciliations(status, date);
+
+CREATE TRIGGER update_pos_reconciliations_updated_at BEFORE UPDATE ON pos_reconciliations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE pos_reconciliations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: POS reconciliations - users can read reconciliations of stores they can view
+CREATE POLICY pos_reconciliations_read ON pos_reconciliations
+    FOR SELECT
+    TO authenticated
+    USING (user_can_access_store(auth.uid(), store_id, 'view'));
+
+-- RLS Policy: POS reconciliations - users who can edit sales for the store can upload and resolve
+CREATE POLICY pos_reconciliations_store_modify ON pos_reconciliations
+    FOR ALL
+    TO authenticated
+    USING (user_can_access_store(auth.uid(), store_id, 'edit'))
+    WITH CHECK (user_can_access_store(auth.uid(), store_id, 'edit'));
+
+-- ========================================
+-- ACCEPT POS VALUES
+-- ========================================
+
+-- p_updates: [{ "id", "updated_at", "revenue_ex_tax", "transactions", "tax", "tax_rate" }, ...]
+-- p_audit:   { "ip": text, "ua": text }
+-- 売上の修正・監査ログ・突合の解消を同一トランザクションで行う。
+-- 突合・売上のいずれかが読み込み後に更新されていた場合は serialization_failure とする。
+CREATE OR REPLACE FUNCTION accept_pos_reconciliation(
+    p_reconciliation_id UUID,
+    p_expected_updated_at TIMESTAMPTZ,
+    p_updates JSONB,
+    p_note TEXT,
+    p_audit JSONB
+)
+RETURNS pos_reconciliations AS $$
+DECLARE
+    actor UUID := auth.uid();
+    audit_ip INET := audit_ip_from_text(p_audit->>'ip');
+    reconciliation pos_reconciliations;
+    item JSONB;
+    before_row sales;
+    after_row sales;
+BEGIN
+    IF actor IS NULL THEN
+        RAISE EXCEPTION 'Authentication required'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO reconciliation
+    FROM pos_reconciliations
+    WHERE id = p_reconciliation_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR reconciliation.updated_at IS DISTINCT FROM p_expected_updated_at THEN
+        RAISE EXCEPTION 'POS reconciliation % was changed by another user', p_reconciliation_id
+            USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    IF NOT user_can_access_store(actor, reconciliation.store_id, 'edit') THEN
+        RAISE EXCEPTION 'No edit permission for store %', reconciliation.store_id
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    FOR item IN SELECT value FROM jsonb_array_elements(COALESCE(p_updates, '[]'::JSONB)) LOOP
+        SELECT * INTO before_row
+        FROM sales
+        WHERE id = (item->>'id')::UUID
+        AND store_id = reconciliation.store_id
+        AND date = reconciliation.date
+        FOR UPDATE;
+
+        IF NOT FOUND OR before_row.updated_at IS DISTINCT FROM (item->>'updated_at')::TIMESTAMPTZ THEN
+            RAISE EXCEPTION 'Sales row % was changed by another user', item->>'id'
+                USING ERRCODE = 'serialization_failure';
+        END IF;
+
+        UPDATE sales
+        SET revenue_ex_tax = (item->>'revenue_ex_tax')::NUMERIC,
+            transactions = (item->>'transactions')::INTEGER,
+            tax = (item->>'tax')::NUMERIC,
+            tax_rate = (item->>'tax_rate')::NUMERIC
+        WHERE id = before_row.id
+        RETURNING * INTO after_row;
+
+        INSERT INTO audit_log (actor_id, action, target, ip, ua, meta)
+        VALUES (
+            actor,
+            'edit_sales',
+            'sales:' || after_row.id,
+            audit_ip,
+            p_audit->>'ua',
+            jsonb_build_object(
+                'source', 'pos_reconciliation',
+                'reconciliation_id', reconciliation.id,
+                'before', jsonb_build_object('revenue_ex_tax', before_row.revenue_ex_tax, 'transactions', before_row.transactions, 'tax', before_row.tax),
+                'after', jsonb_build_object('revenue_ex_tax', after_row.revenue_ex_tax, 'transactions', after_row.transactions, 'tax', after_row.tax)
+            )
+        );
+    END LOOP;
+
+    UPDATE pos_reconciliations
+    SET status = 'accepted',
+        resolution_note = p_note,
+        resolved_by = actor,
+        resolved_at = NOW()
+    WHERE id = reconciliation.id
+    RETURNING * INTO reconciliation;
+
+    INSERT INTO audit_log (actor_id, action, target, ip, ua, meta)
+    VALUES (
+        actor,
+        'accept_pos_reconciliation',
+        'pos_reconciliations:' || reconciliation.id,
+        audit_ip,
+        p_audit->>'ua',
+        jsonb_build_object(
+            'store_id', reconciliation.store_id,
+            'date', reconciliation.date,
+            'pos_revenue_ex_tax', reconciliation.pos_revenue_ex_tax,
+            'pos_transactions', reconciliation.pos_transactions,
+            'sales_ids', (SELECT COALESCE(jsonb_agg(value->'id'), '[]'::JSONB) FROM jsonb_array_elements(COALESCE(p_updates, '[]'::JSONB))),
+            'note', p_note
+        )
+    );
+
+    RETURN reconciliation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION accept_pos_reconciliation(UUID, TIMESTAMPTZ, JSONB, TEXT, JSONB) FROM PUBLIC, anon;
+
+-- ========================================
+-- COMMENTS
+-- ========================================
+
+COMMENT ON TABLE pos_reconciliations IS 'POS 日次締めの合計（店舗・日単位）と手入力売上との差異の解消状況';
+COMMENT ON COLUMN pos_reconciliations.pos_transactions IS 'POS の取引数（NULL の場合は取引数を突合しない）';
+COMMENT ON COLUMN pos_reconciliations.status IS 'open: 未解消 / accepted: POS の値を採用 / annotated: 差異の理由を記録';
+COMMENT ON FUNCTION accept_pos_reconciliation(UUID, TIMESTAMPTZ, JSONB, TEXT, JSONB) IS 'POS の値を売上に反映し、監査ログと突合の解消を同一トランザクションで記録';
@@ -0,0 +1,85 @@
+-- Sales Attachments for Business Strategy Dashboard
+-- 売上データの根拠資料（日報・Zレポートのレシート等の画像・PDF）の添付
+-- Created: 2025-09-06
+
+-- ファイル本体は Supabase Storage の非公開バケット sales-attachments に
+-- {store_id}/{sales_id}/{attachment_id} のパスで保存し、ここにはメタデータを保持する。
+-- 証跡のため添付の削除は提供しない（売上データの削除時のみ連動して削除される）。
+
+-- ========================================
+-- SALES ATTACHMENTS TABLE
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS sales_attachments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sales_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+    store_id UUID NOT NULL REFERENCES dim_store(id) ON DELETE CASCADE,
+    file_name TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size_bytes INTEGER NOT NULL,
+    storage_path TEXT NOT NULL,
+    uploaded_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT sales_attachments_content_type CHECK (content_type IN ('image/jpeg', 'image/png', 'image/webp', 'application/pdf')),
+    CONSTRAINT sales_attachments_size CHECK (size_bytes > 0 AND size_bytes <= 10485760),
+    CONSTRAINT sales_attachments_storage_path UNIQUE (storage_path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_attachments_sales
+    ON sales_attachments(sales_id, created_at);
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE sales_attachments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Sales attachments - users can read attachments of stores they can view
+CREATE POLICY sales_attachments_read ON sales_attachments
+    FOR SELECT
+    TO authenticated
+    USING (user_can_access_store(auth.uid(), store_id, 'view'));
+
+-- RLS Policy: Sales attachments - users who can edit sales for the store can attach files
+CREATE POLICY sales_attachments_store_insert ON sales_attachments
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        user_can_access_store(auth.uid(), store_id, 'edit')
+        AND EXISTS (SELECT 1 FROM sales WHERE sales.id = sales_id AND sales.store_id = sales_attachments.store_id)
+    );
+
+-- ========================================
+-- STORAGE BUCKET
+-- ========================================
+
+-- 非公開バケット（ダウンロードは署名付き URL のみ）。サイズ・MIME の上限はテーブルの制約と同じ
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('sales-attachments', 'sales-attachments', false, 10485760, ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+-- RLS Policy: Storage - users can read (create signed URLs for) files of stores they can view
+CREATE POLICY sales_attachments_objects_read ON storage.objects
+    FOR SELECT
+    TO authenticated
+    USING (
+        bucket_id = 'sales-attachments'
+        AND user_can_access_store(auth.uid(), ((storage.foldername(name))[1])::UUID, 'view')
+    );
+
+-- RLS Policy: Storage - users who can edit sales for the store can upload files
+CREATE POLICY sales_attachments_objects_insert ON storage.objects
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        bucket_id = 'sales-attachments'
+        AND user_can_access_store(auth.uid(), ((storage.foldername(name))[1])::UUID, 'edit')
+    );
+
+-- ========================================
+-- COMMENTS
+-- ========================================
+
+COMMENT ON TABLE sales_attachments IS '売上データの根拠資料（日報・Zレポート等の画像・PDF）のメタデータ';
+COMMENT ON COLUMN sales_attachments.storage_path IS 'ストレージ上のパス（{store_id}/{sales_id}/{attachment_id}）';
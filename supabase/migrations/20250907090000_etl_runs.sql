@@ -0,0 +1,169 @@
+-- ETL Run History for Business Strategy Dashboard
+-- ETL の実行履歴（実行単位）とソース別の結果（件数・試行回数・エラー）
+-- Created: 2025-09-07
+
+-- これまで実行結果は audit_log の meta（JSON）と通知メールにしか残らなかったため、
+-- 「天候データが最後に成功したのはいつか」をテーブルから直接引けるようにする。
+-- 書き込みは ETL ジョブ（ext_* テーブルと同じクライアント）が行い、参照は管理者のみ。
+
+-- ========================================
+-- ETL RUNS
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS etl_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    trigger TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running',
+    target_date DATE,                    -- 取得対象日（省略時は実行日）
+    params JSONB,                        -- バックフィルの期間など、実行時の指定
+    triggered_by UUID REFERENCES auth.users(id),
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMPTZ,
+    duration_ms INTEGER,
+    success_count INTEGER NOT NULL DEFAULT 0,
+    failure_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+
+    CONSTRAINT etl_runs_trigger_valid CHECK (trigger IN ('schedule', 'manual', 'backfill')),
+    CONSTRAINT etl_runs_status_valid CHECK (status IN ('running', 'success', 'partial', 'failure')),
+    CONSTRAINT etl_runs_finished CHECK (status = 'running' OR finished_at IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_etl_runs_started_at ON etl_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_etl_runs_status ON etl_runs(status, started_at DESC);
+
+-- ========================================
+-- ETL RUN SOURCES
+-- ========================================
+
+-- 1回の実行でソースごとに1行（バックフィルは対象日ごとに1行）
+CREATE TABLE IF NOT EXISTS etl_run_sources (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id UUID NOT NULL REFERENCES etl_runs(id) ON DELETE CASCADE,
+    source TEXT NOT NULL,
+    target_date DATE,
+    status TEXT NOT NULL,
+    records_processed INTEGER NOT NULL DEFAULT 0,
+    attempts INTEGER NOT NULL DEFAULT 1,   -- リトライを含む試行回数
+    duration_ms INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    finished_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT etl_run_sources_source_valid CHECK (
+        source IN ('market_index', 'fx_rates', 'weather', 'events', 'stem_news', 'inbound')
+    ),
+    CONSTRAINT etl_run_sources_status_valid CHECK (status IN ('success', 'failure')),
+    CONSTRAINT etl_run_sources_counts CHECK (records_processed >= 0 AND attempts >= 0 AND duration_ms >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_etl_run_sources_run ON etl_run_sources(run_id);
+-- ソース別の最終成功・最終失敗の参照用
+CREATE INDEX IF NOT EXISTS idx_etl_run_sources_source ON etl_run_sources(source, status, finished_at DESC);
+
+-- ソース別の最終実行・最終成功・最終失敗（参照者の RLS がそのまま適用される）
+CREATE OR REPLACE VIEW etl_source_status
+WITH (security_invoker = true) AS
+SELECT
+    source,
+    MAX(finished_at) AS last_run_at,
+    MAX(finished_at) FILTER (WHERE status = 'success') AS last_success_at,
+    MAX(finished_at) FILTER (WHERE status = 'failure') AS last_failure_at
+FROM etl_run_sources
+GROUP BY source;
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE etl_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE etl_run_sources ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: ETL runs - only admins can read
+CREATE POLICY etl_runs_admin_read ON etl_runs
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    );
+
+CREATE POLICY etl_run_sources_admin_read ON etl_run_sources
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    );
+
+-- RLS Policy: ETL runs - written by the ETL job (scheduled runs have no user session).
+-- The job generates the run id itself, so inserts never need to read rows back.
+CREATE POLICY etl_runs_job_insert ON etl_runs
+    FOR INSERT
+    TO anon, authenticated
+    WITH CHECK (status = 'running' AND finished_at IS NULL);
+
+CREATE POLICY etl_run_sources_job_insert ON etl_run_sources
+    FOR INSERT
+    TO anon, authenticated
+    WITH CHECK (true);
+
+-- ========================================
+-- FUNCTIONS
+-- ========================================
+
+-- 実行の完了を記録（ソース別の結果から件数と状態を集計する）。
+-- 実行中の行のみ更新でき、完了済みの履歴は書き換えられない。
+CREATE OR REPLACE FUNCTION finish_etl_run(
+    p_run_id UUID,
+    p_error TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_success INTEGER;
+    v_failure INTEGER;
+    v_run_id UUID;
+BEGIN
+    SELECT
+        COUNT(*) FILTER (WHERE status = 'success'),
+        COUNT(*) FILTER (WHERE status = 'failure')
+    INTO v_success, v_failure
+    FROM etl_run_sources
+    WHERE run_id = p_run_id;
+
+    UPDATE etl_runs
+    SET status = CASE
+            WHEN p_error IS NOT NULL OR v_success = 0 THEN 'failure'
+            WHEN v_failure > 0 THEN 'partial'
+            ELSE 'success'
+        END,
+        finished_at = NOW(),
+        duration_ms = (EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000)::INTEGER,
+        success_count = v_success,
+        failure_count = v_failure,
+        error = p_error
+    WHERE id = p_run_id
+    AND status = 'running'
+    RETURNING id INTO v_run_id;
+
+    IF v_run_id IS NULL THEN
+        RAISE EXCEPTION 'ETL run % is not running', p_run_id USING ERRCODE = 'P0002';
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION finish_etl_run(UUID, TEXT) TO anon, authenticated;
+
+COMMENT ON TABLE etl_runs IS 'ETL run history (one row per execution)';
+COMMENT ON TABLE etl_run_sources IS 'Per-source ETL results: status, record counts, attempts and errors';
@@ -0,0 +1,297 @@
+-- ETL Bulk Upsert for Business Strategy Dashboard
+-- 外部データ（ext_*）のチャンク単位の一括書き込みと、行単位のエラー・件数の記録
+-- Created: 2025-09-08
+
+-- これまで ETL は1行ごとに upsert を呼び、返されたエラーも確認していなかった。
+-- 1チャンク = 1回の RPC 呼び出し = 1トランザクションで書き込み、
+-- 不正な行はその行だけ取り消してエラーとして返す（他の行は書き込む）。
+
+-- ========================================
+-- RUN HISTORY COLUMNS
+-- ========================================
+
+ALTER TABLE etl_run_sources
+    ADD COLUMN IF NOT EXISTS records_inserted INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS records_updated INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS records_unchanged INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS records_failed INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS row_errors JSONB;   -- [{ index, code, message }]（先頭の一部のみ）
+
+-- ========================================
+-- PER-SOURCE UPSERT
+-- ========================================
+
+-- 各関数は1行を書き込み 'inserted' / 'updated' / 'unchanged' を返す。
+-- 値が変わらない行は updated_at も更新しない。
+-- キーに NULL を含む行（events の location、inbound の prefecture）も同じ行として扱うため
+-- ON CONFLICT ではなく IS NOT DISTINCT FROM で既存行を探す。
+
+CREATE OR REPLACE FUNCTION etl_upsert_market_index(p_record JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_date ext_market_index.date%TYPE := (p_record->>'date')::DATE;
+    v_symbol ext_market_index.symbol%TYPE := p_record->>'symbol';
+    v_value ext_market_index.value%TYPE := (p_record->>'value')::DECIMAL;
+    v_change ext_market_index.change_percent%TYPE := (p_record->>'change_percent')::DECIMAL;
+BEGIN
+    UPDATE ext_market_index
+    SET value = v_value, change_percent = v_change, updated_at = NOW()
+    WHERE date = v_date AND symbol = v_symbol
+    AND (value, change_percent) IS DISTINCT FROM (v_value, v_change);
+    IF FOUND THEN RETURN 'updated'; END IF;
+
+    PERFORM 1 FROM ext_market_index WHERE date = v_date AND symbol = v_symbol;
+    IF FOUND THEN RETURN 'unchanged'; END IF;
+
+    INSERT INTO ext_market_index (date, symbol, value, change_percent)
+    VALUES (v_date, v_symbol, v_value, v_change);
+    RETURN 'inserted';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION etl_upsert_fx_rate(p_record JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_date ext_fx_rate.date%TYPE := (p_record->>'date')::DATE;
+    v_pair ext_fx_rate.pair%TYPE := p_record->>'pair';
+    v_rate ext_fx_rate.rate%TYPE := (p_record->>'rate')::DECIMAL;
+    v_change ext_fx_rate.change_percent%TYPE := (p_record->>'change_percent')::DECIMAL;
+BEGIN
+    UPDATE ext_fx_rate
+    SET rate = v_rate, change_percent = v_change, updated_at = NOW()
+    WHERE date = v_date AND pair = v_pair
+    AND (rate, change_percent) IS DISTINCT FROM (v_rate, v_change);
+    IF FOUND THEN RETURN 'updated'; END IF;
+
+    PERFORM 1 FROM ext_fx_rate WHERE date = v_date AND pair = v_pair;
+    IF FOUND THEN RETURN 'unchanged'; END IF;
+
+    INSERT INTO ext_fx_rate (date, pair, rate, change_percent)
+    VALUES (v_date, v_pair, v_rate, v_change);
+    RETURN 'inserted';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION etl_upsert_weather_daily(p_record JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_date ext_weather_daily.date%TYPE := (p_record->>'date')::DATE;
+    v_location ext_weather_daily.location%TYPE := p_record->>'location';
+    v_max ext_weather_daily.temperature_max%TYPE := (p_record->>'temperature_max')::DECIMAL;
+    v_min ext_weather_daily.temperature_min%TYPE := (p_record->>'temperature_min')::DECIMAL;
+    v_precipitation ext_weather_daily.precipitation_mm%TYPE := (p_record->>'precipitation_mm')::DECIMAL;
+    v_humidity ext_weather_daily.humidity_percent%TYPE := (p_record->>'humidity_percent')::DECIMAL;
+    v_condition ext_weather_daily.weather_condition%TYPE := p_record->>'weather_condition';
+BEGIN
+    UPDATE ext_weather_daily
+    SET temperature_max = v_max,
+        temperature_min = v_min,
+        precipitation_mm = v_precipitation,
+        humidity_percent = v_humidity,
+        weather_condition = v_condition,
+        updated_at = NOW()
+    WHERE date = v_date AND location = v_location
+    AND (temperature_max, temperature_min, precipitation_mm, humidity_percent, weather_condition)
+        IS DISTINCT FROM (v_max, v_min, v_precipitation, v_humidity, v_condition);
+    IF FOUND THEN RETURN 'updated'; END IF;
+
+    PERFORM 1 FROM ext_weather_daily WHERE date = v_date AND location = v_location;
+    IF FOUND THEN RETURN 'unchanged'; END IF;
+
+    INSERT INTO ext_weather_daily (
+        date, location, temperature_max, temperature_min, precipitation_mm, humidity_percent, weather_condition
+    )
+    VALUES (v_date, v_location, v_max, v_min, v_precipitation, v_humidity, v_condition);
+    RETURN 'inserted';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION etl_upsert_events(p_record JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_date ext_events.date%TYPE := (p_record->>'date')::DATE;
+    v_title ext_events.title%TYPE := p_record->>'title';
+    v_location ext_events.location%TYPE := p_record->>'location';
+    v_lat ext_events.lat%TYPE := (p_record->>'lat')::DECIMAL;
+    v_lng ext_events.lng%TYPE := (p_record->>'lng')::DECIMAL;
+    v_type ext_events.event_type%TYPE := p_record->>'event_type';
+    v_attendance ext_events.expected_attendance%TYPE := (p_record->>'expected_attendance')::INTEGER;
+    v_notes ext_events.notes%TYPE := p_record->>'notes';
+BEGIN
+    UPDATE ext_events
+    SET lat = v_lat,
+        lng = v_lng,
+        event_type = v_type,
+        expected_attendance = v_attendance,
+        notes = v_notes,
+        updated_at = NOW()
+    WHERE date = v_date AND title = v_title AND location IS NOT DISTINCT FROM v_location
+    AND (lat, lng, event_type, expected_attendance, notes)
+        IS DISTINCT FROM (v_lat, v_lng, v_type, v_attendance, v_notes);
+    IF FOUND THEN RETURN 'updated'; END IF;
+
+    PERFORM 1 FROM ext_events
+    WHERE date = v_date AND title = v_title AND location IS NOT DISTINCT FROM v_location;
+    IF FOUND THEN RETURN 'unchanged'; END IF;
+
+    INSERT INTO ext_events (date, title, location, lat, lng, event_type, expected_attendance, notes)
+    VALUES (v_date, v_title, v_location, v_lat, v_lng, v_type, v_attendance, v_notes);
+    RETURN 'inserted';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION etl_upsert_stem_news(p_record JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_date ext_stem_news.published_date%TYPE := (p_record->>'published_date')::DATE;
+    v_title ext_stem_news.title%TYPE := p_record->>'title';
+    v_source ext_stem_news.source%TYPE := p_record->>'source';
+    v_category ext_stem_news.category%TYPE := p_record->>'category';
+    v_url ext_stem_news.url%TYPE := p_record->>'url';
+    v_summary ext_stem_news.summary%TYPE := p_record->>'summary';
+    v_sentiment ext_stem_news.sentiment_score%TYPE := (p_record->>'sentiment_score')::DECIMAL;
+BEGIN
+    UPDATE ext_stem_news
+    SET category = v_category,
+        url = v_url,
+        summary = v_summary,
+        sentiment_score = v_sentiment,
+        updated_at = NOW()
+    WHERE published_date = v_date AND title = v_title AND source = v_source
+    AND (category, url, summary, sentiment_score)
+        IS DISTINCT FROM (v_category, v_url, v_summary, v_sentiment);
+    IF FOUND THEN RETURN 'updated'; END IF;
+
+    PERFORM 1 FROM ext_stem_news
+    WHERE published_date = v_date AND title = v_title AND source = v_source;
+    IF FOUND THEN RETURN 'unchanged'; END IF;
+
+    INSERT INTO ext_stem_news (published_date, title, source, category, url, summary, sentiment_score)
+    VALUES (v_date, v_title, v_source, v_category, v_url, v_summary, v_sentiment);
+    RETURN 'inserted';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION etl_upsert_inbound(p_record JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_year_month ext_inbound.year_month%TYPE := p_record->>'year_month';
+    v_country ext_inbound.country%TYPE := p_record->>'country';
+    v_prefecture ext_inbound.prefecture%TYPE := p_record->>'prefecture';
+    v_visitors ext_inbound.visitors%TYPE := (p_record->>'visitors')::INTEGER;
+    v_change ext_inbound.change_percent%TYPE := (p_record->>'change_percent')::DECIMAL;
+BEGIN
+    IF v_year_month !~ '^\d{4}-\d{2}$' THEN
+        RAISE EXCEPTION 'year_month must be YYYY-MM: %', v_year_month USING ERRCODE = '22007';
+    END IF;
+
+    UPDATE ext_inbound
+    SET visitors = v_visitors, change_percent = v_change, updated_at = NOW()
+    WHERE year_month = v_year_month AND country = v_country AND prefecture IS NOT DISTINCT FROM v_prefecture
+    AND (visitors, change_percent) IS DISTINCT FROM (v_visitors, v_change);
+    IF FOUND THEN RETURN 'updated'; END IF;
+
+    PERFORM 1 FROM ext_inbound
+    WHERE year_month = v_year_month AND country = v_country AND prefecture IS NOT DISTINCT FROM v_prefecture;
+    IF FOUND THEN RETURN 'unchanged'; END IF;
+
+    INSERT INTO ext_inbound (year_month, country, prefecture, visitors, change_percent)
+    VALUES (v_year_month, v_country, v_prefecture, v_visitors, v_change);
+    RETURN 'inserted';
+END;
+$$;
+
+-- ========================================
+-- CHUNK UPSERT (RPC)
+-- ========================================
+
+-- 1チャンク分のレコードを1トランザクションで書き込む。
+-- 行ごとのエラー（型・NOT NULL・CHECK 制約違反など）はその行だけ取り消して errors に返す。
+-- Returns: { inserted, updated, unchanged, errors: [{ index, code, message }] }
+CREATE OR REPLACE FUNCTION etl_upsert_records(
+    p_source TEXT,
+    p_records JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_record JSONB;
+    v_index INTEGER := 0;
+    v_outcome TEXT;
+    v_inserted INTEGER := 0;
+    v_updated INTEGER := 0;
+    v_unchanged INTEGER := 0;
+    v_errors JSONB := '[]'::JSONB;
+BEGIN
+    IF p_source NOT IN ('market_index', 'fx_rates', 'weather', 'events', 'stem_news', 'inbound') THEN
+        RAISE EXCEPTION 'Unknown ETL source: %', p_source USING ERRCODE = '22023';
+    END IF;
+
+    IF jsonb_typeof(p_records) IS DISTINCT FROM 'array' THEN
+        RAISE EXCEPTION 'p_records must be a JSON array' USING ERRCODE = '22023';
+    END IF;
+
+    -- 同じソースへの同時書き込み（定時実行とバックフィルの重なりなど）で重複行ができないよう直列化する
+    PERFORM pg_advisory_xact_lock(hashtext('etl_upsert_records:' || p_source));
+
+    FOR v_record IN SELECT value FROM jsonb_array_elements(p_records)
+    LOOP
+        BEGIN
+            v_outcome := CASE p_source
+                WHEN 'market_index' THEN etl_upsert_market_index(v_record)
+                WHEN 'fx_rates' THEN etl_upsert_fx_rate(v_record)
+                WHEN 'weather' THEN etl_upsert_weather_daily(v_record)
+                WHEN 'events' THEN etl_upsert_events(v_record)
+                WHEN 'stem_news' THEN etl_upsert_stem_news(v_record)
+                WHEN 'inbound' THEN etl_upsert_inbound(v_record)
+            END;
+
+            CASE v_outcome
+                WHEN 'inserted' THEN v_inserted := v_inserted + 1;
+                WHEN 'updated' THEN v_updated := v_updated + 1;
+                ELSE v_unchanged := v_unchanged + 1;
+            END CASE;
+        EXCEPTION WHEN OTHERS THEN
+            v_errors := v_errors || jsonb_build_object(
+                'index', v_index,
+                'code', SQLSTATE,
+                'message', SQLERRM
+            );
+        END;
+
+        v_index := v_index + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'inserted', v_inserted,
+        'updated', v_updated,
+        'unchanged', v_unchanged,
+        'errors', v_errors
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION etl_upsert_records(TEXT, JSONB) TO anon, authenticated;
+
+COMMENT ON FUNCTION etl_upsert_records(TEXT, JSONB) IS
+    'ETL レコード1チャンクを1トランザクションで書き込み、inserted/updated/unchanged の件数と行単位のエラーを返す';
@@ -0,0 +1,126 @@
+-- ETL Quarantine for Business Strategy Dashboard
+-- スキーマ検証・DB 制約で書き込めなかった外部データのレコードの隔離
+-- Created: 2025-09-09
+
+-- これまで不正な値（負の為替レート、湿度 180% など）は DB 制約違反でソースごと失敗するか、
+-- 制約のない列ではそのまま ext_* テーブルに入っていた。
+-- ETL は不正なレコードだけを理由と実行IDを付けてここに退避し、残りのレコードは書き込む。
+-- 管理者は隔離されたレコードを確認し、反映（release）または破棄（discard）する。
+
+-- ========================================
+-- ETL QUARANTINE
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS etl_quarantine (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id UUID REFERENCES etl_runs(id) ON DELETE SET NULL,
+    source TEXT NOT NULL,
+    target_date DATE,                    -- 取得対象日（省略時は実行日）
+    record JSONB NOT NULL,               -- 取得したレコード（正規化後）
+    error_code TEXT NOT NULL,            -- invalid_record（スキーマ検証）または SQLSTATE（DB 制約）
+    reason TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'quarantined',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    resolved_by UUID REFERENCES auth.users(id),
+    resolved_at TIMESTAMPTZ,
+
+    CONSTRAINT etl_quarantine_source_valid CHECK (
+        source IN ('market_index', 'fx_rates', 'weather', 'events', 'stem_news', 'inbound')
+    ),
+    CONSTRAINT etl_quarantine_status_valid CHECK (status IN ('quarantined', 'released', 'discarded')),
+    CONSTRAINT etl_quarantine_resolved CHECK (
+        (status = 'quarantined') = (resolved_at IS NULL)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_etl_quarantine_status ON etl_quarantine(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_etl_quarantine_run ON etl_quarantine(run_id);
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE etl_quarantine ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: ETL quarantine - only admins can read and resolve
+CREATE POLICY etl_quarantine_admin_read ON etl_quarantine
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    );
+
+CREATE POLICY etl_quarantine_admin_update ON etl_quarantine
+    FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid()
+            AND role = 'admin'
+            AND is_active = true
+        )
+    );
+
+-- RLS Policy: ETL quarantine - written by the ETL job (same as etl_run_sources)
+CREATE POLICY etl_quarantine_job_insert ON etl_quarantine
+    FOR INSERT
+    TO anon, authenticated
+    WITH CHECK (status = 'quarantined' AND resolved_at IS NULL);
+
+-- ========================================
+-- FUNCTIONS
+-- ========================================
+
+-- 隔離したレコードを ext_* テーブルに反映する（管理者が値を確認した上で取り込む）。
+-- 書き込みは ETL と同じ etl_upsert_records を使い、DB 制約に違反する場合は反映せずエラーにする。
+-- 反映と状態の更新は同じトランザクションで行う。
+CREATE OR REPLACE FUNCTION release_etl_quarantine(p_id UUID)
+RETURNS etl_quarantine
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_row etl_quarantine;
+    v_result JSONB;
+BEGIN
+    SELECT * INTO v_row
+    FROM etl_quarantine
+    WHERE id = p_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Quarantined record % not found', p_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_row.status <> 'quarantined' THEN
+        RAISE EXCEPTION 'Quarantined record % is already %', p_id, v_row.status USING ERRCODE = '55000';
+    END IF;
+
+    v_result := etl_upsert_records(v_row.source, jsonb_build_array(v_row.record));
+
+    IF jsonb_array_length(v_result->'errors') > 0 THEN
+        RAISE EXCEPTION '%', v_result->'errors'->0->>'message' USING ERRCODE = '22000';
+    END IF;
+
+    UPDATE etl_quarantine
+    SET status = 'released',
+        resolved_by = auth.uid(),
+        resolved_at = NOW()
+    WHERE id = p_id
+    RETURNING * INTO v_row;
+
+    RETURN v_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION release_etl_quarantine(UUID) TO authenticated;
+
+COMMENT ON TABLE etl_quarantine IS 'External records rejected by ETL validation or DB constraints, kept for admin review';
+COMMENT ON FUNCTION release_etl_quarantine(UUID) IS
+    'Writes a quarantined record through etl_upsert_records and marks it released';
@@ -18,13 +18,13 @@ INSERT INTO dim_store (id, name, address, lat, lng, area) VALUES
 ON CONFLICT (id) DO NOTHING;
 
 -- Insert sample departments
-INSERT INTO dim_department (id, name) VALUES
-    ('aaa00000-0000-0000-0000-000000000000', '食品'),
-    ('bbb00000-0000-0000-0000-000000000000', '雑貨'),
-    ('ccc00000-0000-0000-0000-000000000000', '衣料'),
-    ('ddd00000-0000-0000-0000-000000000000', '家電'),
-    ('eee00000-0000-0000-0000-000000000000', 'サービス')
-ON CONFLICT (name) DO NOTHING;
+INSERT INTO dim_department (id, code, name) VALUES
+    ('aaa00000-0000-0000-0000-000000000000', '食品', '食品'),
+    ('bbb00000-0000-0000-0000-000000000000', '雑貨', '雑貨'),
+    ('ccc00000-0000-0000-0000-000000000000', '衣料', '衣料'),
+    ('ddd00000-0000-0000-0000-000000000000', '家電', '家電'),
+    ('eee00000-0000-0000-0000-000000000000', 'サービス', 'サービス')
+ON CONFLICT DO NOTHING;
 
 -- ========================================
 -- SAMPLE SALES DATA
@@ -56,7 +56,7 @@ INSERT INTO sales (
     -- 横浜店のデータ
     ('2025-08-12', '55555555-5555-5555-5555-555555555555', 'サービス', 'カフェ', 89000.00, 280, 150, 1500.00, 8900.00, 'みなとみらい観光'),
     ('2025-08-13', '55555555-5555-5555-5555-555555555555', 'サービス', 'カフェ', 95000.00, 320, 180, 1800.00, 9500.00, '週末効果')
-ON CONFLICT (store_id, date, department, product_category) DO NOTHING;
+ON CONFLICT (store_id, date, department, product_category, channel) DO NOTHING;
 
 -- ========================================
 -- SAMPLE EXTERNAL DATA
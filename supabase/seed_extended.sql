@@ -20,14 +20,14 @@ INSERT INTO dim_store (id, name, address, lat, lng, area) VALUES
 ON CONFLICT (id) DO NOTHING;
 
 -- Add more product categories
-INSERT INTO dim_department (name) VALUES
-    ('書籍・雑誌'),
-    ('化粧品'),
-    ('スポーツ用品'),
-    ('趣味・ホビー'),
-    ('ペット用品'),
-    ('旅行用品')
-ON CONFLICT (name) DO NOTHING;
+INSERT INTO dim_department (code, name) VALUES
+    ('書籍・雑誌', '書籍・雑誌'),
+    ('化粧品', '化粧品'),
+    ('スポーツ用品', 'スポーツ用品'),
+    ('趣味・ホビー', '趣味・ホビー'),
+    ('ペット用品', 'ペット用品'),
+    ('旅行用品', '旅行用品')
+ON CONFLICT DO NOTHING;
 
 -- ========================================
 -- COMPREHENSIVE SALES DATA (PAST 30 DAYS)